@@ -0,0 +1,72 @@
+/**
+ * configStore.cjs -> Non-secret connector configuration (e.g. auto-execute preference).
+ * Persisted as plain JSON in the app's userData directory, next to the encrypted
+ * credential store. Secrets never go here — use credentialStore.cjs for those.
+ */
+
+const { app } = require("electron");
+const fs = require("fs");
+const path = require("path");
+
+/** @type {string | null} */
+let storePath = null;
+
+/** @type {Record<string, Record<string, unknown>>} connectorId -> config */
+let store = {};
+
+/**
+ * initConfigStore -> Load the connector config store from disk.
+ * Must be called after app.whenReady().
+ */
+function initConfigStore() {
+  storePath = path.join(app.getPath("userData"), "connectors.config.json");
+
+  try {
+    if (fs.existsSync(storePath)) {
+      const raw = fs.readFileSync(storePath, "utf-8");
+      store = JSON.parse(raw);
+    }
+  } catch (err) {
+    console.warn("Failed to load connector config store:", err);
+    store = {};
+  }
+}
+
+/**
+ * saveStore -> Persist the store to disk.
+ */
+function saveStore() {
+  if (!storePath) return;
+  try {
+    fs.writeFileSync(storePath, JSON.stringify(store, null, 2), "utf-8");
+  } catch (err) {
+    console.error("Failed to save connector config store:", err);
+  }
+}
+
+/**
+ * getConnectorConfig -> Get the saved config for a connector.
+ * @param {string} connectorId
+ * @returns {Record<string, unknown>} Saved config, or an empty object
+ */
+function getConnectorConfig(connectorId) {
+  return { ...(store[connectorId] || {}) };
+}
+
+/**
+ * setConnectorConfig -> Merge config values for a connector and persist.
+ * @param {string} connectorId
+ * @param {Record<string, unknown>} config - Partial config to merge
+ * @returns {Record<string, unknown>} The updated config
+ */
+function setConnectorConfig(connectorId, config) {
+  store[connectorId] = { ...(store[connectorId] || {}), ...config };
+  saveStore();
+  return getConnectorConfig(connectorId);
+}
+
+module.exports = {
+  initConfigStore,
+  getConnectorConfig,
+  setConnectorConfig,
+};
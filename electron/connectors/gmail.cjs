@@ -105,6 +105,7 @@ class GmailConnector extends BaseConnector {
           },
         },
       ],
+      sideEffectTools: ["gmail_send_email", "gmail_create_draft"],
     });
 
     this.clientId = null;
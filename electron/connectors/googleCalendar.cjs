@@ -131,6 +131,7 @@ class GoogleCalendarConnector extends BaseConnector {
           },
         },
       ],
+      sideEffectTools: ["gcal_create_event", "gcal_update_event"],
     });
 
     this.clientId = null;
@@ -114,6 +114,7 @@ class LumaConnector extends BaseConnector {
           },
         },
       ],
+      sideEffectTools: ["luma_create_event", "luma_update_event"],
     });
 
     this.apiKey = null;
@@ -247,6 +248,7 @@ class LumaConnector extends BaseConnector {
     const data = await res.json();
     return {
       guests: (data.entries || []).map((entry) => ({
+        id: entry.guest?.api_id,
         name: entry.guest?.name,
         email: entry.guest?.email,
         status: entry.guest?.approval_status,
@@ -116,6 +116,7 @@ class NotionConnector extends BaseConnector {
           },
         },
       ],
+      sideEffectTools: ["notion_create_page", "notion_update_page"],
     });
 
     this.apiKey = null;
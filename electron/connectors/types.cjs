@@ -17,6 +17,8 @@ class BaseConnector {
    * @param {string} opts.authType - "api_key" or "oauth2"
    * @param {object[]} opts.configFields - Configuration fields for settings UI
    * @param {object[]} opts.tools - Claude tool schemas
+   * @param {string[]} [opts.sideEffectTools] - Tools that change external state (send, create, update).
+   *   These require user approval unless autoExecute is on. All other tools are read-only.
    */
   constructor(opts) {
     this.id = opts.id;
@@ -26,6 +28,8 @@ class BaseConnector {
     this.authType = opts.authType || "api_key";
     this.configFields = opts.configFields || [];
     this.tools = opts.tools || [];
+    this.sideEffectTools = opts.sideEffectTools || [];
+    this.autoExecute = false;
     this.enabled = false;
     this.isConnected = false;
     this.lastTestedAt = null;
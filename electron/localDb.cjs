@@ -0,0 +1,562 @@
+/**
+ * localDb.cjs -> Offline-first copy of the app tables (migrations 001–003: events,
+ * chat_messages, tasks, subtasks, documents, collaborators; 015: event_templates; 016:
+ * event_series; 017: guests, rsvps; 018: budget_items; 019: vendors, vendor_links; 020:
+ * run_of_show_segments) in the main process.
+ * Persisted as JSON in the app's userData directory, like the settings and knowledge
+ * graph stores. The renderer's and the main-process repos' queries run against it (see
+ * runQuery and localDbClient.cjs); every local write is also queued in an outbox that
+ * syncEngine.cjs pushes to Supabase.
+ */
+
+const { app } = require("electron");
+const crypto = require("crypto");
+const fs = require("fs");
+const path = require("path");
+
+/** TABLES -> Mirrored tables, parents before children (push and cascade order). */
+const TABLES = [
+  "event_series",
+  "events",
+  "chat_messages",
+  "tasks",
+  "subtasks",
+  "documents",
+  "collaborators",
+  "event_templates",
+  "guests",
+  "rsvps",
+  "budget_items",
+  "vendors",
+  "vendor_links",
+  "run_of_show_segments",
+];
+
+/** CHILD_TABLES -> table -> [child table, foreign key]; deletes cascade like ON DELETE CASCADE. */
+const CHILD_TABLES = {
+  events: [
+    ["chat_messages", "event_id"],
+    ["tasks", "event_id"],
+    ["documents", "event_id"],
+    ["collaborators", "event_id"],
+    ["guests", "event_id"],
+    ["rsvps", "event_id"],
+    ["budget_items", "event_id"],
+    ["vendor_links", "event_id"],
+    ["run_of_show_segments", "event_id"],
+  ],
+  tasks: [["subtasks", "task_id"]],
+  guests: [["rsvps", "guest_id"]],
+  vendors: [["vendor_links", "vendor_id"]],
+};
+
+/**
+ * COLUMN_DEFAULTS -> Column defaults from the schema, applied to locally inserted rows.
+ * Functions are evaluated per row.
+ */
+const COLUMN_DEFAULTS = {
+  events: {
+    status: "planning",
+    account_type: "personal",
+    retro_created: false,
+    series_id: null,
+    occurrence_date: null,
+    created_at: () => new Date().toISOString(),
+    updated_at: () => new Date().toISOString(),
+  },
+  chat_messages: { created_at: () => new Date().toISOString() },
+  tasks: {
+    description: null,
+    status: "todo",
+    priority: 0,
+    due_date: null,
+    assigned_to: null,
+    agent_id: null,
+    dependencies: [],
+    blockers: [],
+    completed_at: null,
+    body: "",
+    body_user_edited: false,
+    version: 1,
+    created_at: () => new Date().toISOString(),
+    updated_at: () => new Date().toISOString(),
+  },
+  subtasks: { status: "todo", completed_at: null, created_at: () => new Date().toISOString() },
+  documents: {
+    category: null,
+    uploaded_at: () => new Date().toISOString(),
+    created_at: () => new Date().toISOString(),
+  },
+  collaborators: { role: "editor", created_at: () => new Date().toISOString() },
+  event_templates: {
+    description: null,
+    source_event_id: null,
+    form_data: {},
+    tasks: [],
+    created_at: () => new Date().toISOString(),
+    updated_at: () => new Date().toISOString(),
+  },
+  guests: {
+    email: null,
+    phone: null,
+    dietary_needs: null,
+    notes: null,
+    source: "manual",
+    external_id: null,
+    created_at: () => new Date().toISOString(),
+    updated_at: () => new Date().toISOString(),
+  },
+  rsvps: {
+    status: "invited",
+    plus_ones: 0,
+    responded_at: null,
+    source: "manual",
+    created_at: () => new Date().toISOString(),
+    updated_at: () => new Date().toISOString(),
+  },
+  budget_items: {
+    agent_id: "general",
+    vendor_name: null,
+    vendor_url: null,
+    estimated: 0,
+    committed: 0,
+    paid: 0,
+    paid_at: null,
+    receipt_url: null,
+    notes: null,
+    task_id: null,
+    source: "manual",
+    created_at: () => new Date().toISOString(),
+    updated_at: () => new Date().toISOString(),
+  },
+  vendors: {
+    categories: [],
+    contact_name: null,
+    email: null,
+    phone: null,
+    website: null,
+    price_min: null,
+    price_max: null,
+    price_notes: null,
+    rating: null,
+    notes: null,
+    created_at: () => new Date().toISOString(),
+    updated_at: () => new Date().toISOString(),
+  },
+  vendor_links: {
+    task_id: null,
+    notes: null,
+    source: "manual",
+    created_at: () => new Date().toISOString(),
+  },
+  run_of_show_segments: {
+    position: 0,
+    start_time: null,
+    duration_minutes: 15,
+    owner: null,
+    location: null,
+    av_cues: null,
+    notes: null,
+    source: "manual",
+    created_at: () => new Date().toISOString(),
+    updated_at: () => new Date().toISOString(),
+  },
+  event_series: {
+    horizon_days: 60,
+    exdates: [],
+    form_data: {},
+    tasks: [],
+    active: true,
+    created_at: () => new Date().toISOString(),
+    updated_at: () => new Date().toISOString(),
+  },
+};
+
+/** @type {string | null} */
+let storePath = null;
+
+/**
+ * @type {{
+ *   tables: Record<string, Record<string, object>>,
+ *   outbox: object[],
+ *   nextSeq: number,
+ *   lastPulledAt: string | null,
+ *   ownerId: string | null,
+ * }}
+ */
+let store = emptyStore();
+
+function emptyStore() {
+  return {
+    tables: Object.fromEntries(TABLES.map((t) => [t, {}])),
+    outbox: [],
+    nextSeq: 1,
+    lastPulledAt: null,
+    ownerId: null,
+  };
+}
+
+/**
+ * initLocalDb -> Load the local database from disk.
+ * Must be called after app.whenReady(). A file that cannot be read is not overwritten: it is
+ * moved aside (with its unpushed outbox) and the app starts from an empty copy.
+ * @returns {{ error?: string, backupPath?: string }} error when the file could not be read
+ */
+function initLocalDb() {
+  storePath = path.join(app.getPath("userData"), "local-db.json");
+  if (!fs.existsSync(storePath)) return {};
+  try {
+    const loaded = JSON.parse(fs.readFileSync(storePath, "utf-8"));
+    store = { ...emptyStore(), ...loaded, tables: { ...emptyStore().tables, ...loaded.tables } };
+    // A push cut off by a quit is simply sent again
+    for (const entry of store.outbox) delete entry.inFlight;
+    return {};
+  } catch (err) {
+    const backupPath = storePath.replace(/\.json$/, `.corrupt-${Date.now()}.json`);
+    console.error("[Eventropy] Failed to load local database; moved it to", backupPath, err);
+    store = emptyStore();
+    try {
+      fs.renameSync(storePath, backupPath);
+    } catch (renameErr) {
+      // Keep the bad file where it is rather than overwrite it
+      storePath = null;
+      return { error: `${err.message} (could not move it aside: ${renameErr.message})` };
+    }
+    return { error: err.message, backupPath };
+  }
+}
+
+/**
+ * saveStore -> Persist the database to disk. Written to a temp file and renamed into
+ * place, so a crash mid-write leaves the previous copy intact.
+ */
+function saveStore() {
+  if (!storePath) return;
+  const tempPath = `${storePath}.tmp`;
+  try {
+    fs.writeFileSync(tempPath, JSON.stringify(store), "utf-8");
+    fs.renameSync(tempPath, storePath);
+  } catch (err) {
+    console.error("Failed to save local database:", err);
+  }
+}
+
+// ── Outbox ────────────────────────────────────────────────────────────────────
+
+/**
+ * queueChange -> Record a local write for the sync engine, folding it into an earlier
+ * pending entry for the same row where possible:
+ *   insert + update -> insert with the new values
+ *   insert + delete -> nothing to push
+ *   update + update -> one update (the first entry's `before` and baseVersion are kept)
+ *   update + delete -> delete (checked against the first entry's baseVersion)
+ * Entries being pushed (markInFlight) are never folded into: the change gets its own entry
+ * and is pushed after them.
+ * @param {{ table: string, op: "insert" | "update" | "delete", id: string, row?: object, patch?: object, before?: object, baseVersion?: number }} change
+ */
+function queueChange(change) {
+  const pendingIndex = store.outbox.findIndex((e) => e.table === change.table && e.id === change.id && !e.inFlight);
+  const pending = pendingIndex >= 0 ? store.outbox[pendingIndex] : null;
+
+  if (pending?.op === "insert" && change.op === "update") {
+    pending.row = { ...pending.row, ...change.patch };
+    return;
+  }
+  if (pending?.op === "insert" && change.op === "delete") {
+    store.outbox.splice(pendingIndex, 1);
+    return;
+  }
+  if (pending?.op === "update" && change.op === "update") {
+    pending.patch = { ...pending.patch, ...change.patch };
+    for (const key of Object.keys(change.patch)) {
+      if (!(key in pending.before)) pending.before[key] = change.before[key];
+    }
+    return;
+  }
+  if (pending?.op === "update" && change.op === "delete") {
+    store.outbox.splice(pendingIndex, 1);
+    change = { ...change, baseVersion: pending.baseVersion };
+  }
+  store.outbox.push({ ...change, seq: store.nextSeq++, queuedAt: new Date().toISOString() });
+}
+
+/**
+ * getOutbox -> Pending local changes, oldest first.
+ * @returns {object[]}
+ */
+function getOutbox() {
+  return store.outbox.slice();
+}
+
+/**
+ * markInFlight -> Flag an outbox entry as being pushed (or no longer), so changes made
+ * meanwhile are queued separately instead of being merged into what is already on its way.
+ * @param {number} seq
+ * @param {boolean} inFlight
+ */
+function markInFlight(seq, inFlight) {
+  const entry = store.outbox.find((e) => e.seq === seq);
+  if (!entry) return;
+  if (inFlight) entry.inFlight = true;
+  else delete entry.inFlight;
+}
+
+/**
+ * removeFromOutbox -> Drop pushed (or rejected) entries.
+ * @param {number[]} seqs
+ */
+function removeFromOutbox(seqs) {
+  const done = new Set(seqs);
+  store.outbox = store.outbox.filter((e) => !done.has(e.seq));
+  saveStore();
+}
+
+/**
+ * hasPendingEventInserts -> True if an event created locally, or a task added to it, has not
+ * been pushed yet. Rows on the server (orchestrator runs, approvals) cannot refer to them until it is.
+ * @param {string} eventUuid - events.id
+ */
+function hasPendingEventInserts(eventUuid) {
+  return store.outbox.some(
+    (e) =>
+      e.op === "insert" &&
+      ((e.table === "events" && e.id === eventUuid) || (e.table === "tasks" && e.row?.event_id === eventUuid))
+  );
+}
+
+// ── Queries ───────────────────────────────────────────────────────────────────
+
+/**
+ * matches -> Whether a row passes every filter of a query.
+ * @param {object} row
+ * @param {{ column: string, op: "eq" | "in", value: unknown }[]} filters
+ */
+function matches(row, filters) {
+  return filters.every(({ column, op, value }) => {
+    const actual = row[column] ?? null;
+    if (op === "in") return Array.isArray(value) && value.some((v) => v === actual);
+    return actual === (value ?? null);
+  });
+}
+
+/**
+ * project -> Keep only the selected columns ("*" or "a, b").
+ * @param {object} row
+ * @param {string | undefined} columns
+ */
+function project(row, columns) {
+  if (!columns || columns.trim() === "*") return { ...row };
+  return Object.fromEntries(
+    columns
+      .split(",")
+      .map((c) => c.trim())
+      .filter(Boolean)
+      .map((c) => [c, row[c] ?? null])
+  );
+}
+
+/**
+ * withDefaults -> A new row with generated id and schema defaults filled in.
+ * @param {string} table
+ * @param {object} values
+ */
+function withDefaults(table, values) {
+  const row = { id: crypto.randomUUID() };
+  for (const [column, value] of Object.entries(COLUMN_DEFAULTS[table] || {})) {
+    row[column] = typeof value === "function" ? value() : Array.isArray(value) ? [...value] : value;
+  }
+  return { ...row, ...values };
+}
+
+/**
+ * cascadeDelete -> Remove a row and its children locally. Only the top-level delete is
+ * queued; Supabase cascades the children itself.
+ * @param {string} table
+ * @param {string} id
+ */
+function cascadeDelete(table, id) {
+  delete store.tables[table][id];
+  for (const [child, foreignKey] of CHILD_TABLES[table] || []) {
+    for (const row of Object.values(store.tables[child])) {
+      if (row[foreignKey] === id) cascadeDelete(child, row.id);
+    }
+  }
+}
+
+/**
+ * runQuery -> Execute a query built by the renderer's local client (src/lib/localDbClient.ts).
+ * Supports the subset of the Supabase query builder that eventsDb uses: select / insert /
+ * upsert / update / delete with eq / in filters, order, limit, single / maybeSingle and
+ * `.select()` after a write.
+ * @param {{
+ *   table: string,
+ *   action: "select" | "insert" | "upsert" | "update" | "delete",
+ *   columns?: string,
+ *   returning?: boolean,
+ *   filters?: { column: string, op: "eq" | "in", value: unknown }[],
+ *   order?: { column: string, ascending: boolean },
+ *   limit?: number,
+ *   single?: "single" | "maybeSingle",
+ *   values?: object | object[],
+ *   onConflict?: string,
+ *   ignoreDuplicates?: boolean,
+ * }} query
+ * @returns {{ data: unknown, error: { message: string } | null }}
+ */
+function runQuery(query) {
+  const { table, action, filters = [], values } = query;
+  const rows = store.tables[table];
+  if (!rows) return { data: null, error: { message: `Table "${table}" is not stored locally.` } };
+
+  /** @type {object[]} */
+  let result = [];
+
+  if (action === "select") {
+    result = Object.values(rows).filter((row) => matches(row, filters));
+  } else if (action === "insert" || action === "upsert") {
+    for (const input of Array.isArray(values) ? values : [values]) {
+      // Upserts match on their conflict column (e.g. rsvps.guest_id), like ON CONFLICT
+      const key = action === "upsert" ? query.onConflict || "id" : "id";
+      const existing =
+        input[key] == null ? null : key === "id" ? rows[input.id] : Object.values(rows).find((r) => r[key] === input[key]);
+      if (existing) {
+        if (action === "insert") return { data: null, error: { message: `Duplicate key: ${table}.id ${input.id}` } };
+        if (query.ignoreDuplicates) continue;
+        const patch = Object.fromEntries(Object.entries(input).filter(([k]) => k !== "id"));
+        const before = Object.fromEntries(Object.keys(patch).map((k) => [k, existing[k] ?? null]));
+        rows[existing.id] = { ...existing, ...patch };
+        queueChange({ table, op: "update", id: existing.id, patch, before, baseVersion: existing.version });
+        result.push(rows[existing.id]);
+      } else {
+        const row = withDefaults(table, input);
+        rows[row.id] = row;
+        queueChange({ table, op: "insert", id: row.id, row: { ...row } });
+        result.push(row);
+      }
+    }
+  } else if (action === "update") {
+    for (const row of Object.values(rows).filter((r) => matches(r, filters))) {
+      const before = Object.fromEntries(Object.keys(values).map((k) => [k, row[k] ?? null]));
+      // Local rows keep the server version; the sync engine checks it when pushing
+      rows[row.id] = { ...row, ...values, ...(table === "events" && { updated_at: new Date().toISOString() }) };
+      queueChange({ table, op: "update", id: row.id, patch: { ...values }, before, baseVersion: row.version });
+      result.push(rows[row.id]);
+    }
+  } else if (action === "delete") {
+    for (const row of Object.values(rows).filter((r) => matches(r, filters))) {
+      cascadeDelete(table, row.id);
+      queueChange({ table, op: "delete", id: row.id, baseVersion: row.version });
+      result.push(row);
+    }
+  } else {
+    return { data: null, error: { message: `Unsupported action: ${action}` } };
+  }
+
+  if (action !== "select") saveStore();
+
+  if (query.order) {
+    const { column, ascending } = query.order;
+    result.sort((a, b) => {
+      const x = a[column];
+      const y = b[column];
+      // Numbers (e.g. run_of_show_segments.position) as numbers, everything else as text
+      const cmp =
+        typeof x === "number" && typeof y === "number" ? x - y : String(x ?? "").localeCompare(String(y ?? ""));
+      return ascending ? cmp : -cmp;
+    });
+  }
+  if (query.limit != null) result = result.slice(0, query.limit);
+
+  if (action !== "select" && !query.returning) return { data: null, error: null };
+  const projected = result.map((row) => project(row, query.columns));
+  if (query.single) {
+    if (projected.length > 1) return { data: null, error: { message: "Multiple rows returned for a single row query." } };
+    if (projected.length === 0) {
+      return query.single === "single"
+        ? { data: null, error: { message: "No rows returned for a single row query." } }
+        : { data: null, error: null };
+    }
+    return { data: projected[0], error: null };
+  }
+  return { data: projected, error: null };
+}
+
+// ── Pull ──────────────────────────────────────────────────────────────────────
+
+/**
+ * applyRemoteRows -> Replace a table with the server's rows. Rows with a pending local
+ * change are kept as the server has them plus the local change on top, so unsynced edits
+ * survive a pull; rows inserted or deleted locally but not pushed stay that way.
+ * @param {string} table
+ * @param {object[]} remoteRows
+ * @returns {boolean} Whether anything changed locally
+ */
+function applyRemoteRows(table, remoteRows) {
+  // A row can have several entries (one queued while another was being pushed); combine them
+  const pendingById = new Map();
+  for (const entry of store.outbox) {
+    if (entry.table !== table) continue;
+    const pending = pendingById.get(entry.id) || { row: null, deleted: false, patch: {} };
+    if (entry.op === "insert") pending.row = entry.row;
+    else if (entry.op === "delete") pending.deleted = true;
+    else pending.patch = { ...pending.patch, ...entry.patch };
+    pendingById.set(entry.id, pending);
+  }
+  const next = {};
+  for (const remote of remoteRows) {
+    const pending = pendingById.get(remote.id);
+    if (pending?.deleted) continue;
+    next[remote.id] = pending ? { ...remote, ...pending.patch } : remote;
+  }
+  for (const [id, pending] of pendingById) {
+    if (pending.row && !pending.deleted && !next[id]) next[id] = store.tables[table][id] ?? pending.row;
+  }
+  const changed = JSON.stringify(next) !== JSON.stringify(store.tables[table]);
+  store.tables[table] = next;
+  return changed;
+}
+
+/**
+ * markPulled -> Record a completed pull and persist.
+ */
+function markPulled() {
+  store.lastPulledAt = new Date().toISOString();
+  saveStore();
+}
+
+/**
+ * getLastPulledAt -> When the local copy was last refreshed from Supabase (null = never).
+ */
+function getLastPulledAt() {
+  return store.lastPulledAt;
+}
+
+/**
+ * setLocalDbOwner -> Tie the local copy to the signed-in user. A copy that belongs to
+ * another user (and its unpushed changes) is discarded; a copy from before sign-in was
+ * required is adopted, so its changes are pushed under the new account.
+ * @param {string} userId - Supabase auth user id
+ * @returns {boolean} Whether the local copy was discarded
+ */
+function setLocalDbOwner(userId) {
+  if (store.ownerId === userId) return false;
+  const discard = store.ownerId !== null;
+  if (discard) store = emptyStore();
+  store.ownerId = userId;
+  saveStore();
+  return discard;
+}
+
+module.exports = {
+  TABLES,
+  initLocalDb,
+  runQuery,
+  getOutbox,
+  markInFlight,
+  removeFromOutbox,
+  hasPendingEventInserts,
+  applyRemoteRows,
+  markPulled,
+  getLastPulledAt,
+  setLocalDbOwner,
+};
@@ -0,0 +1,109 @@
+/**
+ * localDbClient.cjs -> Supabase-style query builder over the local database (localDb.cjs)
+ * for the main process, the counterpart of the renderer's src/lib/localDbClient.ts. Lets the
+ * main-process repos (repos/supabaseRepos.cjs) read and write the mirrored tables locally,
+ * so the orchestrator, agent tools, retros and category chat see the same data as the
+ * renderer, offline too; their writes reach Supabase through the sync engine's outbox.
+ */
+
+const { TABLES, runQuery } = require("./localDb.cjs");
+const { ensureInitialPull } = require("./syncEngine.cjs");
+
+const MIRRORED = new Set(TABLES);
+
+class LocalQueryBuilder {
+  /** @param {string} table */
+  constructor(table) {
+    this.query = { table, action: "select", filters: [] };
+  }
+
+  select(columns = "*") {
+    this.query.columns = columns;
+    if (this.query.action !== "select") this.query.returning = true;
+    return this;
+  }
+
+  insert(values) {
+    this.query.action = "insert";
+    this.query.values = values;
+    return this;
+  }
+
+  upsert(values, opts = {}) {
+    this.query.action = "upsert";
+    this.query.values = values;
+    this.query.onConflict = opts.onConflict;
+    this.query.ignoreDuplicates = opts.ignoreDuplicates;
+    return this;
+  }
+
+  update(values) {
+    this.query.action = "update";
+    this.query.values = values;
+    return this;
+  }
+
+  delete() {
+    this.query.action = "delete";
+    return this;
+  }
+
+  eq(column, value) {
+    this.query.filters.push({ column, op: "eq", value });
+    return this;
+  }
+
+  in(column, values) {
+    this.query.filters.push({ column, op: "in", value: values });
+    return this;
+  }
+
+  order(column, opts = {}) {
+    this.query.order = { column, ascending: opts.ascending ?? true };
+    return this;
+  }
+
+  limit(count) {
+    this.query.limit = count;
+    return this;
+  }
+
+  single() {
+    this.query.single = "single";
+    return this;
+  }
+
+  maybeSingle() {
+    this.query.single = "maybeSingle";
+    return this;
+  }
+
+  then(onfulfilled, onrejected) {
+    // A fresh install has nothing locally until the first pull
+    return ensureInitialPull()
+      .then(() => {
+        try {
+          return runQuery(this.query);
+        } catch (err) {
+          return { data: null, error: { message: err.message } };
+        }
+      })
+      .then(onfulfilled, onrejected);
+  }
+}
+
+/**
+ * createLocalDbClient -> A client for the main-process repos: the mirrored tables
+ * (localDb TABLES) are served from the local database, everything else (orchestrator runs,
+ * approvals, notifications, AI usage, retros, RPCs) goes to Supabase.
+ * @param {object} supabase - Supabase client
+ * @returns {{ from: (table: string) => object, rpc: (fn: string, args?: object) => Promise<object> }}
+ */
+function createLocalDbClient(supabase) {
+  return {
+    from: (table) => (MIRRORED.has(table) ? new LocalQueryBuilder(table) : supabase.from(table)),
+    rpc: (fn, args) => supabase.rpc(fn, args),
+  };
+}
+
+module.exports = { createLocalDbClient };
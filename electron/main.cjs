@@ -6,10 +6,51 @@ const fs = require("fs");
 require("dotenv").config({ path: path.join(__dirname, "../.env") });
 
 // ── Orchestrator imports ────────────────────────────────────────────────────
-const { initClaudeClient, hasClaudeKey, callClaude, extractToolUseBlocks, extractTextContent } = require("./orchestrator/claude.cjs");
-const { planEventTasks } = require("./orchestrator/EventOrchestrator.cjs");
+const {
+  hasAiProvider,
+  setUsageListener,
+  streamClaude,
+  generateSubtasks,
+  extractToolUseBlocks,
+} = require("./orchestrator/claude.cjs");
+const { initProviders, setRouteOverrides, getRoute } = require("./orchestrator/modelRouter.cjs");
+const { recordUsage, checkBudget, currentMonth } = require("./orchestrator/usage.cjs");
+const { generateEventRetro, retroRowToRetro } = require("./orchestrator/retro.cjs");
+const {
+  initKnowledgeGraph,
+  clearKnowledgeGraph,
+  isGraphBuilt,
+  getGraphSnapshot,
+  queryHistory,
+  updateNode,
+  setHidden,
+  mergeNodes,
+  addEdge,
+} = require("./orchestrator/knowledgeGraph.cjs");
+const { ingestEventKnowledge, rebuildKnowledgeGraph } = require("./orchestrator/knowledgeIngest.cjs");
+const { EventOrchestrator, planEventTasks, replanEventTasks } = require("./orchestrator/EventOrchestrator.cjs");
 const { registerConnector, getAllConnectors, getConnector } = require("./orchestrator/toolRegistry.cjs");
-const { TASK_TOOLS } = require("./orchestrator/types.cjs");
+const { getAgentTools, executeAgentTool } = require("./orchestrator/agentTools.cjs");
+const {
+  TASK_TOOLS,
+  OrchestratorState,
+  AGENT_LANES,
+  EVENT_ROLE_ACTIONS,
+  AI_PURPOSES,
+} = require("./orchestrator/types.cjs");
+const { LaneScheduler } = require("./orchestrator/laneScheduler.cjs");
+const { initSettingsStore, getSettings, getSetting, setSettings } = require("./settingsStore.cjs");
+const { initLocalDb, runQuery, hasPendingEventInserts, setLocalDbOwner } = require("./localDb.cjs");
+const { createLocalDbClient } = require("./localDbClient.cjs");
+const {
+  startSyncEngine,
+  syncNow,
+  ensureInitialPull,
+  getSyncStatus,
+  dismissSyncConflicts,
+} = require("./syncEngine.cjs");
+const { createRepos, storageBackend } = require("./repos/index.cjs");
+const { getSchemaStatus, runMigrations } = require("./migrations.cjs");
 
 const UUID_REGEX = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
 
@@ -23,6 +64,11 @@ const {
   setSecret,
   getSecret,
 } = require("./connectors/credentialStore.cjs");
+const {
+  initConfigStore,
+  getConnectorConfig,
+  setConnectorConfig,
+} = require("./connectors/configStore.cjs");
 
 // isDev -> Derived from `is` + `Development` environment flag
 const isDev = !app.isPackaged;
@@ -33,9 +79,21 @@ app.setName("Eventropy");
 /** @type {BrowserWindow | null} */
 let mainWin = null;
 
-/** @type {Map<string, EventOrchestrator>} eventId -> active orchestrator */
+/** @type {Map<string, EventOrchestrator>} "eventUuid:agentId" (see laneKey) -> lane orchestrator */
 const activeOrchestrators = new Map();
 
+/** @type {Map<string, AbortController>} requestId -> in-flight category chat (see category-chat:cancel) */
+const activeCategoryChats = new Map();
+
+/**
+ * @type {{ accessToken: string, userId: string } | null} Signed-in Supabase user, forwarded by
+ * the renderer (see auth:set-session). Main-process queries run as this user.
+ */
+let authSession = null;
+
+/** laneScheduler -> Concurrency cap and cross-lane wake-ups shared by every lane (cap set after settings load) */
+const laneScheduler = new LaneScheduler({ maxConcurrent: 1 });
+
 // ── App Initialization ──────────────────────────────────────────────────────
 
 function createWindow() {
@@ -72,17 +130,32 @@ function createWindow() {
 }
 
 app.whenReady().then(async () => {
-  // Initialize Claude client with API key from environment
-  const apiKey = process.env.ANTHROPIC_API_KEY;
-  if (apiKey) {
-    initClaudeClient(apiKey);
-    console.log("Claude client initialized.");
-  } else {
-    console.warn("ANTHROPIC_API_KEY not set. AI orchestration will not function.");
+  // Initialize model providers with API keys from the environment (main process only)
+  const useStub = process.env.EVENTROPY_AI_PROVIDER === "stub";
+  initProviders({
+    anthropicApiKey: process.env.ANTHROPIC_API_KEY,
+    openaiApiKey: process.env.OPENAI_API_KEY,
+    useStub,
+  });
+  if (useStub) {
+    console.log("AI providers: offline stub (EVENTROPY_AI_PROVIDER=stub).");
+  } else if (!hasAiProvider("execution")) {
+    console.warn("No AI provider key set (ANTHROPIC_API_KEY / OPENAI_API_KEY). AI orchestration will not function.");
   }
 
+  // Token + cost accounting: persist the usage of every model call (fire-and-forget)
+  setUsageListener((record) => {
+    recordUsage(getRepos(), record);
+  });
+
   // Initialize encrypted credential store (must run after app.whenReady)
   initCredentialStore();
+  initConfigStore();
+  initSettingsStore();
+  initKnowledgeGraph();
+  const localDbLoad = initLocalDb();
+  laneScheduler.setMaxConcurrent(getSetting("maxConcurrentLanes"));
+  setRouteOverrides(getSetting("modelRoutes"));
 
   // Instantiate and register all connectors, loading saved secrets
   await initConnectors();
@@ -90,11 +163,42 @@ app.whenReady().then(async () => {
   createWindow();
   registerIpcHandlers();
 
+  if (localDbLoad.error) {
+    dialog.showMessageBox(mainWin, {
+      type: "error",
+      title: "Offline Copy Could Not Be Read",
+      message: "Eventropy could not read its offline copy of your events and has started a new one from Supabase.",
+      detail: localDbLoad.backupPath
+        ? `Changes made offline and not yet synced are in the old file, kept at:\n${localDbLoad.backupPath}\n\n${localDbLoad.error}`
+        : `The file was left in place and nothing will be saved to it this session.\n\n${localDbLoad.error}`,
+      buttons: ["OK"],
+    }).catch(() => {});
+  }
+
+  // Offline-first: push local changes and pull remote ones in the background
+  startSyncEngine({
+    createClient: () =>
+      authSession && process.env.VITE_SUPABASE_URL && process.env.VITE_SUPABASE_PUBLISHABLE_KEY
+        ? createSupabaseClient()
+        : null,
+    onStatus: (status) => sendToRenderer("sync:status", status),
+    onPulled: () => sendToRenderer("sync:pulled", {}),
+  });
+
   // Check DB migrations after window is ready to show dialogs
-  const supabaseCheck = createSupabaseClient();
+  const supabaseCheck = storageBackend() === "supabase" ? createSupabaseClient() : null;
   if (supabaseCheck) {
-    checkMigrations(supabaseCheck).catch((err) => {
-      console.warn("[Eventory] checkMigrations threw:", err.message);
+    checkSchemaVersion(supabaseCheck).catch((err) => {
+      console.warn("[Eventropy] checkSchemaVersion threw:", err.message);
+    });
+  }
+
+  // Warm restart: rebuild orchestrators for runs that were active when the app quit.
+  // With Supabase this waits for sign-in (auth:set-session), as the runs are per user.
+  const repos = storageBackend() === "memory" ? getRepos() : null;
+  if (repos) {
+    restoreOrchestrators(repos).catch((err) => {
+      console.warn("[Eventropy] restoreOrchestrators threw:", err.message);
     });
   }
 });
@@ -110,54 +214,99 @@ app.on("activate", () => {
 // ── IPC Handlers ────────────────────────────────────────────────────────────
 
 /**
- * resolveEventUuid -> Resolve an evtId (evt_slug or UUID) to a Supabase events.id UUID.
- * @param {object} supabase - Supabase client
+ * resolveEventUuid -> Resolve an evtId (evt_slug or UUID) to an events.id UUID.
  * @param {string} evtId - Event slug or UUID
- * @returns {Promise<string|null>}
+ * @returns {Promise<string|null>} null if the event is unknown or storage is not configured
+ */
+async function resolveEventUuid(evtId) {
+  const repos = getRepos();
+  if (!evtId || !repos) return null;
+  const key = evtId.trim();
+  const eventUuid = UUID_REGEX.test(key) ? key : ((await repos.events.findIdBySlug(key)).data ?? null);
+  // Created offline and not pushed yet: push local changes first so the server has the event and its tasks
+  if (eventUuid && hasPendingEventInserts(eventUuid)) await syncNow();
+  return eventUuid;
+}
+
+/**
+ * checkEventPermission -> Whether the signed-in user's role on an event allows an action
+ * (EVENT_ROLE_ACTIONS). Fails closed: an unknown role or a failed lookup denies.
+ * @param {import("./repos/index.cjs").Repos} repos
+ * @param {string} eventUuid - events.id
+ * @param {string} action - e.g. "run-agents", "approve-tools"
+ * @returns {Promise<string | null>} error message, or null when allowed
  */
-async function resolveEventUuid(supabase, evtId) {
-  if (!evtId) return null;
-  if (UUID_REGEX.test(evtId.trim())) return evtId.trim();
-  const { data } = await supabase.from("events").select("id").eq("evt_slug", evtId.trim()).maybeSingle();
-  return data?.id ?? null;
+async function checkEventPermission(repos, eventUuid, action) {
+  const { data: role, error } = await repos.events.role(eventUuid);
+  if (error) {
+    console.warn("[Eventropy] Could not check event role:", error.message);
+    return "Could not check your permissions on this event.";
+  }
+  if (!EVENT_ROLE_ACTIONS[role]?.includes(action)) {
+    return role
+      ? `Your role on this event (${role}) does not allow this.`
+      : "You do not have access to this event.";
+  }
+  return null;
 }
 
 /**
- * checkMigrations -> Verify that required DB migrations have been applied.
- * Specifically checks for the `body` column on the tasks table (migration 003).
- * Shows a dialog if the column is missing so the user knows what to fix.
+ * checkSchemaVersion -> Compare the database schema with the migrations this build ships.
+ * When migrations are pending (or the database is newer than the app) show the upgrade
+ * steps; if a direct connection is configured, offer to apply them now.
  * @param {object} supabase - Supabase client
  */
-async function checkMigrations(supabase) {
-  try {
-    const { error } = await supabase.from("tasks").select("body").limit(1);
-    if (error) {
-      console.warn("[Eventory] Migration check failed — tasks.body column may be missing:", error.message);
-      dialog.showMessageBox(mainWin, {
-        type: "warning",
-        title: "Database Migration Required",
-        message: "The tasks table is missing the 'body' column.",
-        detail:
-          "Run this SQL in your Supabase Dashboard → SQL Editor:\n\n" +
-          "ALTER TABLE tasks ADD COLUMN IF NOT EXISTS body TEXT NOT NULL DEFAULT '';\n\n" +
-          "Then go to Project Settings → Database → Schema → click 'Reload schema'.\n\n" +
-          "Until this is done, task documents and AI task writing will not work.",
-        buttons: ["OK"],
-      }).catch(() => {});
-    } else {
-      console.log("[Eventory] Migration check passed — tasks.body column exists.");
-    }
-  } catch (err) {
-    console.warn("[Eventory] checkMigrations error:", err.message);
+async function checkSchemaVersion(supabase) {
+  const status = await getSchemaStatus(supabase, storageBackend());
+  if (status.error) {
+    console.warn("[Eventropy] Schema version check failed:", status.error);
+    return;
+  }
+  if (status.pending.length === 0 && !status.newerThanApp) {
+    console.log("[Eventropy] Database schema is at version", status.currentVersion);
+    return;
   }
+
+  console.warn(
+    "[Eventropy] Database schema is at version", status.currentVersion, "- app expects", status.requiredVersion,
+    "- pending:", status.pending.map((m) => m.name).join(", ") || "none"
+  );
+  const offerRun = status.canRun && !status.newerThanApp;
+  const { response } = await dialog.showMessageBox(mainWin, {
+    type: "warning",
+    title: "Database Upgrade Required",
+    message: status.newerThanApp
+      ? "The database is newer than this version of Eventropy."
+      : `The database is at schema version ${status.currentVersion}; this version of Eventropy needs ${status.requiredVersion}.`,
+    detail: status.steps.map((step, i) => `${i + 1}. ${step}`).join("\n\n"),
+    buttons: offerRun ? ["Apply now", "Later"] : ["OK"],
+  });
+  if (!offerRun || response !== 0) return;
+
+  const result = await runMigrations();
+  const failure = result.error || (result.failed && `${result.failed.name}: ${result.failed.error}`);
+  dialog.showMessageBox(mainWin, {
+    type: failure ? "error" : "info",
+    title: failure ? "Database Upgrade Failed" : "Database Upgraded",
+    message: failure
+      ? `Applied ${result.applied.length} migration(s), then stopped.`
+      : `Applied ${result.applied.length} migration(s).`,
+    detail: failure || result.applied.join("\n"),
+    buttons: ["OK"],
+  }).catch(() => {});
 }
 
 function registerIpcHandlers() {
   // ── Task Body: user-side write (renderer → main → Supabase) ───────────
   ipcMain.handle("task:update-body", async (_event, { taskId, body }) => {
-    const supabase = createSupabaseClient();
-    if (!supabase) return { error: "Supabase not configured." };
-    const { error } = await supabase.from("tasks").update({ body }).eq("id", taskId);
+    const repos = getRepos();
+    if (!repos) return { error: "Supabase not configured." };
+    const { data: task, error: taskErr } = await repos.tasks.get(taskId);
+    if (taskErr) return { error: taskErr.message };
+    if (!task) return { error: "Task not found." };
+    const denied = await checkEventPermission(repos, task.event_id, "edit-details");
+    if (denied) return { error: denied };
+    const { error } = await repos.tasks.update(taskId, { body, body_user_edited: true });
     if (error) return { error: error.message };
     return { success: true };
   });
@@ -165,19 +314,25 @@ function registerIpcHandlers() {
   // ── Category Chat with task tools (tool-use loop) ─────────────────────
   // Replaces the previous simple callClaudeChat() call with a full tool-use
   // loop so the agent can read/write task bodies and update task statuses.
+  // With a requestId, text deltas and tool turns are pushed on
+  // "category-chat:delta" as they happen and the chat can be cancelled.
   ipcMain.handle("orchestrator:category-chat", async (_event, payload) => {
     console.log("[Eventropy] Category chat requested", payload?.agentId);
-    if (!hasClaudeKey()) {
-      return { error: "ANTHROPIC_API_KEY not configured." };
+    if (!hasAiProvider("category_chat")) {
+      return { error: "No AI provider configured. Set ANTHROPIC_API_KEY or OPENAI_API_KEY." };
     }
 
-    const { evtId, agentId, eventContext, tasksForCategory, messages } = payload || {};
+    const { requestId, evtId, agentId, eventContext, tasksForCategory, messages } = payload || {};
 
-    const supabase = createSupabaseClient();
-    if (!supabase) return { error: "Supabase not configured." };
+    const repos = getRepos();
+    if (!repos) return { error: "Supabase not configured." };
 
-    // Resolve event UUID for Supabase queries
-    const eventUuid = await resolveEventUuid(supabase, evtId);
+    // Resolve event UUID for the task and event tools
+    const eventUuid = await resolveEventUuid(evtId);
+    if (!eventUuid) return { error: "Event not found." };
+    // Every agent has write tools (task bodies and statuses at least), so chatting needs edit rights
+    const denied = await checkEventPermission(repos, eventUuid, "edit-details");
+    if (denied) return { error: denied };
 
     const agentLabels = {
       guests: "Guests",
@@ -247,7 +402,18 @@ You work directly for the user — your job is to help them make **${eventName}*
 1. Use **list_tasks** or **read_task** to understand the current state before making changes.
 2. Use **write_task_body** to save research, drafts, checklists, or plans to a task's document. Always read first to preserve existing content.
 3. Use **update_task_status** to mark tasks in-progress or done when appropriate.
-4. Focus ONLY on the tasks assigned to your area (${agentLabel}). Do not work on tasks outside your scope.
+4. Focus ONLY on the tasks assigned to your area (${agentLabel}). Do not work on tasks outside your scope.${
+      agentId === "guests"
+        ? "\n5. Keep the guest list in the guest tools, not in task documents: **list_guests** shows who is invited and the headcount, **add_guest** adds or updates someone, **update_rsvp** records their answer, plus-ones and dietary needs."
+        : agentId === "general"
+          ? "\n5. Keep costs in the budget ledger, not in task documents: **list_budget** shows every line and what is left, **record_quote** records a quote you find (with the vendor and a link), **update_budget_item** records what was committed or paid and the receipt."
+          : agentId === "venue-catering" || agentId === "entertainment-logistics"
+            ? "\n5. Check the vendor directory before looking for new vendors: **search_vendors** finds vendors used at past events (price range, rating, notes), **get_vendor** shows where one was used, and **save_vendor** adds or updates a vendor and links it to this event." +
+              (agentId === "entertainment-logistics"
+                ? "\n6. Keep the event day's schedule in the run of show, not in task documents: **get_run_of_show** shows the segments and any overlaps or gaps, **add_segments** drafts segments (time, owner, location, AV cues), **update_segment** changes or moves one and **remove_segment** deletes one."
+                : "")
+            : ""
+    }
 
 ## This Event
 - **Event**: ${eventName}
@@ -272,19 +438,40 @@ ${taskListStr || "(No tasks assigned yet.)"}
     const claudeMessages = (messages || []).map((m) => ({ role: m.role, content: m.content }));
 
     const toolTurns = [];
-    let finalContent = "";
     const MAX_ROUNDS = 10;
+    const tools = [...TASK_TOOLS, ...getAgentTools(agentId)];
+
+    const controller = new AbortController();
+    if (requestId) activeCategoryChats.set(requestId, controller);
+    /** emitDelta -> Push a streaming update for this request (no-op without a requestId) */
+    const emitDelta = (delta) => {
+      if (requestId) sendToRenderer("category-chat:delta", { requestId, ...delta });
+    };
+
+    // Text from every round is shown as it streams, so the reply is all of it
+    let finalContent = "";
+    let roundHasText = false;
+    const onText = (text) => {
+      const chunk = !roundHasText && finalContent ? `\n\n${text}` : text;
+      roundHasText = true;
+      finalContent += chunk;
+      emitDelta({ type: "text", text: chunk });
+    };
 
     try {
       for (let round = 0; round < MAX_ROUNDS; round++) {
-        const response = await callClaude(systemPrompt, claudeMessages, TASK_TOOLS);
-        const textContent = extractTextContent(response);
+        if (controller.signal.aborted) break;
+        roundHasText = false;
+        const response = await streamClaude(
+          systemPrompt,
+          claudeMessages,
+          tools,
+          { purpose: "category_chat", eventId: eventUuid },
+          { onText, signal: controller.signal }
+        );
         const toolUseBlocks = extractToolUseBlocks(response);
 
-        if (toolUseBlocks.length === 0) {
-          finalContent = textContent;
-          break;
-        }
+        if (toolUseBlocks.length === 0) break;
 
         // Append assistant turn (may include text + tool_use blocks)
         claudeMessages.push({ role: "assistant", content: response.content });
@@ -292,19 +479,18 @@ ${taskListStr || "(No tasks assigned yet.)"}
         // Execute each tool call and collect results
         const toolResultContents = [];
         for (const toolUse of toolUseBlocks) {
+          if (controller.signal.aborted) break;
           let result;
           let resultSummary = "";
 
           try {
             switch (toolUse.name) {
               case "list_tasks": {
-                // Use select("*") so the query is resilient to missing columns
-                // (e.g., `body` before migration 003 is applied).
-                let query = supabase.from("tasks").select("*");
-                if (eventUuid) query = query.eq("event_id", eventUuid);
-                if (toolUse.input.agentId) query = query.eq("agent_id", toolUse.input.agentId);
-                if (toolUse.input.status) query = query.eq("status", toolUse.input.status);
-                const { data: taskRows, error: listErr } = await query.order("created_at");
+                const { data: taskRows, error: listErr } = await repos.tasks.list({
+                  eventId: eventUuid || undefined,
+                  agentId: toolUse.input.agentId,
+                  status: toolUse.input.status,
+                });
                 if (listErr) {
                   result = { error: listErr.message };
                   resultSummary = `list_tasks query failed: ${listErr.message}`;
@@ -326,12 +512,7 @@ ${taskListStr || "(No tasks assigned yet.)"}
                 break;
               }
               case "read_task": {
-                // Use select("*") so the query is resilient to missing columns.
-                const { data: taskRow, error: readErr } = await supabase
-                  .from("tasks")
-                  .select("*")
-                  .eq("id", toolUse.input.taskId)
-                  .maybeSingle();
+                const { data: taskRow, error: readErr } = await repos.tasks.get(toolUse.input.taskId);
                 if (readErr) {
                   result = { error: readErr.message };
                   resultSummary = `read_task query failed: ${readErr.message}`;
@@ -347,10 +528,7 @@ ${taskListStr || "(No tasks assigned yet.)"}
               }
               case "write_task_body": {
                 const { taskId, body } = toolUse.input;
-                const { error: writeErr } = await supabase
-                  .from("tasks")
-                  .update({ body })
-                  .eq("id", taskId);
+                const { error: writeErr } = await repos.tasks.update(taskId, { body });
                 if (writeErr) {
                   result = { error: writeErr.message };
                   resultSummary = `Write failed: ${writeErr.message}`;
@@ -363,10 +541,7 @@ ${taskListStr || "(No tasks assigned yet.)"}
               }
               case "update_task_status": {
                 const { taskId, status } = toolUse.input;
-                const { error: statusErr } = await supabase
-                  .from("tasks")
-                  .update({ status })
-                  .eq("id", taskId);
+                const { error: statusErr } = await repos.tasks.update(taskId, { status });
                 if (statusErr) {
                   result = { error: statusErr.message };
                   resultSummary = `Status update failed: ${statusErr.message}`;
@@ -382,11 +557,7 @@ ${taskListStr || "(No tasks assigned yet.)"}
                   result = { error: "No event ID provided" };
                   resultSummary = "No event ID";
                 } else {
-                  const { data: evtRow } = await supabase
-                    .from("events")
-                    .select("*")
-                    .eq("id", eventUuid)
-                    .single();
+                  const { data: evtRow } = await repos.events.get(eventUuid);
                   result = evtRow || { error: "Event not found" };
                   resultSummary = evtRow ? `Read event: "${evtRow.name}"` : "Event not found";
                 }
@@ -405,10 +576,7 @@ ${taskListStr || "(No tasks assigned yet.)"}
                   if (inp.venuePref !== undefined) updates.venue_pref = inp.venuePref || null;
                   if (inp.guestCount !== undefined) updates.guest_count = inp.guestCount || null;
                   if (inp.notes !== undefined) updates.notes = inp.notes || null;
-                  const { error: evtErr } = await supabase
-                    .from("events")
-                    .update(updates)
-                    .eq("id", eventUuid);
+                  const { error: evtErr } = await repos.events.update(eventUuid, updates);
                   if (evtErr) {
                     result = { error: evtErr.message };
                     resultSummary = `Event update failed: ${evtErr.message}`;
@@ -421,9 +589,17 @@ ${taskListStr || "(No tasks assigned yet.)"}
                 }
                 break;
               }
-              default:
+              default: {
+                const outcome = await executeAgentTool(repos, eventUuid, agentId, toolUse.name, toolUse.input);
+                if (outcome) {
+                  result = outcome.result;
+                  resultSummary = outcome.summary;
+                  if (outcome.changed) sendToRenderer(outcome.changedChannel, { evtId });
+                  break;
+                }
                 result = { error: `Unknown tool: ${toolUse.name}` };
                 resultSummary = `Unknown tool: ${toolUse.name}`;
+              }
             }
           } catch (toolErr) {
             result = { error: toolErr.message };
@@ -431,7 +607,9 @@ ${taskListStr || "(No tasks assigned yet.)"}
             console.error(`[Eventropy] Tool ${toolUse.name} error:`, toolErr);
           }
 
-          toolTurns.push({ toolName: toolUse.name, toolInput: toolUse.input, resultSummary });
+          const toolTurn = { toolName: toolUse.name, toolInput: toolUse.input, resultSummary };
+          toolTurns.push(toolTurn);
+          emitDelta({ type: "tool_turn", toolTurn });
           toolResultContents.push({
             type: "tool_result",
             tool_use_id: toolUse.id,
@@ -442,33 +620,55 @@ ${taskListStr || "(No tasks assigned yet.)"}
         // Append tool results as a user message (Claude API convention)
         claudeMessages.push({ role: "user", content: toolResultContents });
 
-        // If stop_reason is "end_turn" there are no more tool_use blocks pending
-        if (response.stop_reason === "end_turn" && toolUseBlocks.length === 0) {
-          finalContent = textContent;
-          break;
-        }
       }
 
+      const cancelled = controller.signal.aborted;
       console.log(
-        `[Eventropy] Category chat: ${toolTurns.length} tool turn(s), reply length ${finalContent.length}`
+        `[Eventropy] Category chat${cancelled ? " cancelled" : ""}: ${toolTurns.length} tool turn(s), reply length ${finalContent.length}`
       );
-      return { content: finalContent, toolTurns };
+      return { content: finalContent, toolTurns, ...(cancelled ? { cancelled: true } : {}) };
     } catch (err) {
+      if (controller.signal.aborted) {
+        console.log("[Eventropy] Category chat cancelled", requestId);
+        return { content: finalContent, toolTurns, cancelled: true };
+      }
       console.error("[Eventropy] Category chat error:", err);
       return { error: err?.message ?? String(err) };
+    } finally {
+      if (requestId) activeCategoryChats.delete(requestId);
     }
   });
 
+  // ── Category Chat: Cancel ──────────────────────────────────────────────
+  // Aborts the in-flight model request and stops the tool loop; the pending
+  // orchestrator:category-chat call resolves with what was produced so far.
+  ipcMain.handle("category-chat:cancel", async (_event, requestId) => {
+    const controller = activeCategoryChats.get(requestId);
+    if (!controller) return { error: "No category chat in progress for this request." };
+    controller.abort();
+    return { success: true };
+  });
+
   // ── Orchestrator: Plan Event ───────────────────────────────────────────
   ipcMain.handle("orchestrator:plan", async (_event, eventId, formData) => {
     console.log("[Eventropy] Plan event requested for", eventId, formData?.eventReason || "Untitled");
-    if (!hasClaudeKey()) {
-      console.warn("[Eventropy] ANTHROPIC_API_KEY not set.");
-      return { error: "ANTHROPIC_API_KEY not configured.", tasks: [] };
+    if (!hasAiProvider("planning")) {
+      console.warn("[Eventropy] No AI provider configured for planning.");
+      return { error: "No AI provider configured. Set ANTHROPIC_API_KEY or OPENAI_API_KEY.", tasks: [] };
+    }
+
+    // First plan on this machine: build the cross-event history the planner draws on
+    const repos = getRepos();
+    if (repos && !isGraphBuilt()) {
+      try {
+        await rebuildKnowledgeGraph(repos);
+      } catch (err) {
+        console.warn("[Eventropy] Knowledge graph build failed; planning without history:", err.message);
+      }
     }
 
     try {
-      const tasks = await planEventTasks(formData);
+      const tasks = await planEventTasks(formData, { eventId });
       console.log("[Eventropy] Plan event returned", tasks?.length ?? 0, "tasks");
       return { success: true, tasks };
     } catch (err) {
@@ -477,16 +677,224 @@ ${taskListStr || "(No tasks assigned yet.)"}
     }
   });
 
+  // ── Orchestrator: Replan after event details changed ──────────────────
+  // Proposes add/remove/redate/reprioritize changes; the renderer applies the
+  // ones the user accepts. Nothing is written here.
+  ipcMain.handle("orchestrator:replan", async (_event, { evtId, formData, detailChanges, tasks } = {}) => {
+    console.log("[Eventropy] Replan requested for", evtId, (detailChanges || []).map((c) => c.field));
+    if (!hasAiProvider("planning")) {
+      return { error: "No AI provider configured. Set ANTHROPIC_API_KEY or OPENAI_API_KEY.", changes: [] };
+    }
+
+    const repos = getRepos();
+    if (!repos) return { error: "Supabase not configured.", changes: [] };
+    const eventId = await resolveEventUuid(evtId);
+    if (!eventId) return { error: "Event not found.", changes: [] };
+    const denied = await checkEventPermission(repos, eventId, "edit-details");
+    if (denied) return { error: denied, changes: [] };
+
+    try {
+      const changes = await replanEventTasks(formData, detailChanges || [], tasks || [], { eventId });
+      console.log("[Eventropy] Replan proposed", changes.length, "change(s)");
+      return { success: true, changes };
+    } catch (err) {
+      console.error("[Eventropy] Replan error:", err);
+      return { error: err.message, changes: [] };
+    }
+  });
+
+  // ── Post-event retrospective ───────────────────────────────────────────
+  ipcMain.handle("retro:get", async (_event, evtId) => {
+    const repos = getRepos();
+    if (!repos) return { retro: null };
+    const eventUuid = await resolveEventUuid(evtId);
+    if (!eventUuid) return { retro: null };
+    const { data, error } = await repos.retros.get(eventUuid);
+    if (error) return { retro: null, error: error.message };
+    return { retro: data ? retroRowToRetro(data) : null };
+  });
+
+  // Analyses tasks, agent activity, goals and Luma RSVPs; replaces any earlier retro
+  ipcMain.handle("retro:generate", async (_event, evtId) => {
+    console.log("[Eventropy] Retro requested for", evtId);
+    if (!hasAiProvider("retro")) {
+      return { error: "No AI provider configured. Set ANTHROPIC_API_KEY or OPENAI_API_KEY." };
+    }
+    const repos = getRepos();
+    if (!repos) return { error: "Supabase not configured." };
+    const eventUuid = await resolveEventUuid(evtId);
+    if (!eventUuid) return { error: "Event not found." };
+    const denied = await checkEventPermission(repos, eventUuid, "edit-details");
+    if (denied) return { error: denied };
+
+    try {
+      const luma = getConnector("luma");
+      const row = await generateEventRetro(repos, eventUuid, {
+        lumaConnector: luma?.enabled ? luma : undefined,
+      });
+      // Fold the new retro's blockers and lessons into the knowledge graph (fire-and-forget)
+      ingestEventKnowledge(repos, eventUuid).catch((err) =>
+        console.warn("[Eventropy] Knowledge graph update after retro failed:", err.message)
+      );
+      return { success: true, retro: retroRowToRetro(row) };
+    } catch (err) {
+      console.error("[Eventropy] Retro error:", err);
+      return { error: err.message };
+    }
+  });
+
+  // ── Guest list: Luma registrations ──────────────────────────────────────
+  // Only fetches; the renderer reconciles them with the guest list (lib/guests) so the
+  // writes go through the local database like every other guest edit.
+  ipcMain.handle("guests:luma-rsvps", async (_event, evtId, lumaEventId) => {
+    if (!String(lumaEventId || "").trim()) return { error: "Enter the Luma event ID." };
+    const luma = getConnector("luma");
+    if (!luma?.enabled || !luma.isConnected) {
+      return { error: "Luma is not connected. Add its API key in Settings → Connectors." };
+    }
+    const repos = getRepos();
+    if (!repos) return { error: "Supabase not configured." };
+    const eventUuid = await resolveEventUuid(evtId);
+    if (!eventUuid) return { error: "Event not found." };
+    const denied = await checkEventPermission(repos, eventUuid, "edit-details");
+    if (denied) return { error: denied };
+
+    try {
+      const { guests } = await luma.executeTool("luma_get_rsvps", { event_id: String(lumaEventId).trim() });
+      console.log("[Eventropy] Fetched", (guests || []).length, "Luma registration(s) for", evtId);
+      return { success: true, guests: guests || [] };
+    } catch (err) {
+      console.error("[Eventropy] Luma RSVPs error:", err);
+      return { error: err.message };
+    }
+  });
+
+  // ── Guest list: CSV / vCard files ──────────────────────────────────────
+  // Only the files; parsing, column mapping and de-duplication happen in the renderer
+  // (lib/guestImport) so the imported guests go through the local database.
+
+  /** guests:pick-import -> Open a native file picker for a CSV or vCard guest list and return its content. */
+  ipcMain.handle("guests:pick-import", async () => {
+    const result = await dialog.showOpenDialog(mainWin, {
+      title: "Import guests",
+      properties: ["openFile"],
+      filters: [
+        { name: "Guest lists", extensions: ["csv", "vcf", "vcard"] },
+        { name: "CSV", extensions: ["csv"] },
+        { name: "vCard", extensions: ["vcf", "vcard"] },
+      ],
+    });
+    if (result.canceled || result.filePaths.length === 0) return { cancelled: true };
+    try {
+      const srcPath = result.filePaths[0];
+      return { filename: path.basename(srcPath), content: fs.readFileSync(srcPath, "utf-8") };
+    } catch (err) {
+      return { error: err.message };
+    }
+  });
+
+  /** guests:export-csv -> Save a guest list CSV where the user picks. */
+  ipcMain.handle("guests:export-csv", async (_event, defaultName, content) =>
+    saveCsvFile("Export guests", defaultName || "guests.csv", content, "guest list")
+  );
+
+  /** run-of-show:export-csv -> Save a run sheet CSV where the user picks. */
+  ipcMain.handle("run-of-show:export-csv", async (_event, defaultName, content) =>
+    saveCsvFile("Export run sheet", defaultName || "run-of-show.csv", content, "run sheet")
+  );
+
+  // ── Knowledge graph (cross-event memory) ───────────────────────────────
+  ipcMain.handle("knowledge:get", async () => {
+    return { graph: getGraphSnapshot() };
+  });
+
+  ipcMain.handle("knowledge:rebuild", async () => {
+    const repos = getRepos();
+    if (!repos) return { error: "Supabase not configured." };
+    try {
+      const { eventCount } = await rebuildKnowledgeGraph(repos);
+      console.log("[Eventropy] Knowledge graph rebuilt from", eventCount, "events");
+      return { success: true, eventCount, graph: getGraphSnapshot() };
+    } catch (err) {
+      console.error("[Eventropy] Knowledge graph rebuild error:", err);
+      return { error: err.message };
+    }
+  });
+
+  // What an agent would be told for this text (same query buildSystemPrompt uses)
+  ipcMain.handle("knowledge:query", async (_event, { text, agentId } = {}) => {
+    return { success: true, ...queryHistory({ text: text || "", agentId }) };
+  });
+
+  ipcMain.handle("knowledge:update-node", async (_event, { nodeId, updates } = {}) => {
+    try {
+      return { success: true, node: updateNode(nodeId, updates || {}) };
+    } catch (err) {
+      return { error: err.message };
+    }
+  });
+
+  ipcMain.handle("knowledge:set-hidden", async (_event, { kind, id, hidden } = {}) => {
+    try {
+      setHidden(kind, id, !!hidden);
+      return { success: true, graph: getGraphSnapshot() };
+    } catch (err) {
+      return { error: err.message };
+    }
+  });
+
+  ipcMain.handle("knowledge:merge-nodes", async (_event, { fromId, intoId } = {}) => {
+    try {
+      mergeNodes(fromId, intoId);
+      return { success: true, graph: getGraphSnapshot() };
+    } catch (err) {
+      return { error: err.message };
+    }
+  });
+
+  ipcMain.handle("knowledge:add-edge", async (_event, { from, to, type } = {}) => {
+    if (!type || !String(type).trim()) return { error: "Relationship type is required." };
+    try {
+      addEdge({ from, to, type: String(type).trim() });
+      return { success: true, graph: getGraphSnapshot() };
+    } catch (err) {
+      return { error: err.message };
+    }
+  });
+
+  // ── Subtask suggestions (was a renderer-side OpenAI call) ──────────────
+  ipcMain.handle("ai:generate-subtasks", async (_event, { evtId, taskId, taskTitle } = {}) => {
+    if (!taskTitle || !String(taskTitle).trim()) return { error: "Task title is empty.", subtasks: [] };
+    if (!hasAiProvider("subtasks")) {
+      return { error: "No AI provider configured. Set ANTHROPIC_API_KEY or OPENAI_API_KEY.", subtasks: [] };
+    }
+
+    try {
+      const eventUuid = await resolveEventUuid(evtId);
+      const subtasks = await generateSubtasks(String(taskTitle).trim(), {
+        eventId: eventUuid,
+        taskId: taskId && UUID_REGEX.test(taskId) ? taskId : null,
+      });
+      return { success: true, subtasks };
+    } catch (err) {
+      console.error("[Eventropy] Subtask generation error:", err);
+      return { error: err.message, subtasks: [] };
+    }
+  });
+
+  // ── AI model routes (per purpose) ──────────────────────────────────────
+  ipcMain.handle("ai:routes", async () => {
+    return {
+      routes: AI_PURPOSES.map((purpose) => ({ purpose, models: getRoute(purpose) })),
+    };
+  });
+
   // ── Orchestrator: Task Messages ────────────────────────────────────────
   ipcMain.handle("orchestrator:task-messages", async (_event, taskId) => {
-    const supabase = createSupabaseClient();
-    if (!supabase) return { messages: [] };
+    const repos = getRepos();
+    if (!repos) return { messages: [] };
 
-    const { data, error } = await supabase
-      .from("orchestrator_messages")
-      .select("*")
-      .eq("task_id", taskId)
-      .order("created_at", { ascending: true });
+    const { data, error } = await repos.orchestrator.listTaskMessages(taskId);
 
     if (error) {
       console.error("Fetch task messages error:", error);
@@ -494,7 +902,8 @@ ${taskListStr || "(No tasks assigned yet.)"}
     }
 
     return {
-      messages: (data || []).map((row) => ({
+      // Rows with claude_content are raw history turns kept for warm restart, not display messages
+      messages: (data || []).filter((row) => row.claude_content == null).map((row) => ({
         id: row.id,
         runId: row.run_id,
         taskId: row.task_id,
@@ -508,17 +917,297 @@ ${taskListStr || "(No tasks assigned yet.)"}
     };
   });
 
+  // ── Orchestrator: Run Control ──────────────────────────────────────────
+  // Each agent group runs in its own lane. Omitting agentId applies the command
+  // to every lane of the event.
+  ipcMain.handle("orchestrator:run", async (_event, evtId, agentId) => {
+    console.log("[Eventropy] Orchestrator run requested for", evtId, agentId || "all lanes");
+    if (!hasAiProvider("execution")) {
+      return { error: "No AI provider configured. Set ANTHROPIC_API_KEY or OPENAI_API_KEY." };
+    }
+
+    const repos = getRepos();
+    if (!repos) return { error: "Supabase not configured." };
+
+    const eventUuid = await resolveEventUuid(evtId);
+    if (!eventUuid) return { error: "Event not found." };
+    const denied = await checkEventPermission(repos, eventUuid, "run-agents");
+    if (denied) return { error: denied };
+
+    if (agentId && activeOrchestrators.get(laneKey(eventUuid, agentId))?.isRunning()) {
+      return { error: "This agent is already running." };
+    }
+
+    const context = await loadSharedLaneContext(repos, eventUuid);
+    if (context.error) return { error: context.error };
+
+    // Without an agentId, start every idle lane that still has AI work to do
+    const lanes = agentId
+      ? [agentId]
+      : AGENT_LANES.filter(
+          (lane) =>
+            !activeOrchestrators.get(laneKey(eventUuid, lane))?.isRunning() &&
+            context.tasks.some(
+              (t) => (t.agentId || "general") === lane && t.assignedTo === "ai-agent" && t.status !== "done"
+            )
+        );
+    if (lanes.length === 0) return { error: "No AI tasks left to run for this event." };
+
+    const statuses = await Promise.all(
+      lanes.map(async (lane) => {
+        const existing = activeOrchestrators.get(laneKey(eventUuid, lane));
+        const orchestrator = createOrchestrator(repos, eventUuid, context, lane);
+        activeOrchestrators.set(laneKey(eventUuid, lane), orchestrator);
+        if (existing) {
+          // Nothing can answer the replaced run's prompts and approvals any more
+          existing.stop();
+          await orchestrator.expirePendingFrom(existing);
+        }
+
+        // Run in the background; progress is pushed to the renderer via IPC events.
+        orchestrator.start().catch((err) => {
+          console.error("[Eventropy] Orchestrator start error:", err);
+          sendToRenderer("orchestrator:status-change", {
+            ...orchestrator.getStatus(),
+            runStatus: OrchestratorState.FAILED,
+          });
+        });
+        return orchestrator.getStatus();
+      })
+    );
+
+    return { success: true, status: agentId ? statuses[0] : undefined, statuses };
+  });
+
+  ipcMain.handle("orchestrator:stop", async (_event, evtId, agentId) => {
+    const repos = getRepos();
+    if (!repos) return { error: "Supabase not configured." };
+
+    const eventUuid = await resolveEventUuid(evtId);
+    const lanes = eventUuid ? getEventLanes(eventUuid, agentId) : [];
+    if (lanes.length === 0) return { error: "No orchestrator is running for this event." };
+    const denied = await checkEventPermission(repos, eventUuid, "run-agents");
+    if (denied) return { error: denied };
+
+    for (const orchestrator of lanes) orchestrator.stop();
+    const statuses = lanes.map((o) => o.getStatus());
+    return { success: true, status: agentId ? statuses[0] : undefined, statuses };
+  });
+
+  ipcMain.handle("orchestrator:resume", async (_event, evtId, agentId) => {
+    if (!hasAiProvider("execution")) {
+      return { error: "No AI provider configured. Set ANTHROPIC_API_KEY or OPENAI_API_KEY." };
+    }
+
+    const repos = getRepos();
+    if (!repos) return { error: "Supabase not configured." };
+
+    const eventUuid = await resolveEventUuid(evtId);
+    const lanes = (eventUuid ? getEventLanes(eventUuid, agentId) : []).filter((o) => o.runId);
+    if (lanes.length === 0) {
+      return { error: "No paused run for this event. Start a new run instead." };
+    }
+    const denied = await checkEventPermission(repos, eventUuid, "run-agents");
+    if (denied) return { error: denied };
+
+    for (const orchestrator of lanes) {
+      if (orchestrator.isRunning()) continue;
+      orchestrator.resume().catch((err) => {
+        console.error("[Eventropy] Orchestrator resume error:", err);
+      });
+    }
+
+    const statuses = lanes.map((o) => o.getStatus());
+    return { success: true, status: agentId ? statuses[0] : undefined, statuses };
+  });
+
+  ipcMain.handle("orchestrator:status", async (_event, evtId, agentId) => {
+    if (!getRepos()) return { error: "Supabase not configured." };
+
+    const eventUuid = await resolveEventUuid(evtId);
+    if (!eventUuid) return { error: "Event not found." };
+
+    const statuses = getEventLanes(eventUuid, agentId).map((o) => o.getStatus());
+    if (!agentId) return { statuses };
+
+    return {
+      status: statuses[0] || {
+        eventId: eventUuid,
+        agentId,
+        runStatus: OrchestratorState.IDLE,
+        completedCount: 0,
+        totalCount: 0,
+        blockedCount: 0,
+      },
+      statuses,
+    };
+  });
+
+  // ── AI Usage & Budgets ─────────────────────────────────────────────────
+  // Roll-ups come from the ai_usage_by_* views (migration 007). With an evtId the
+  // run and task breakdowns are limited to that event. Months count the signed-in user's
+  // calls only, like the monthly budget (checkBudget).
+  ipcMain.handle("usage:summary", async (_event, evtId) => {
+    const repos = getRepos();
+    if (!repos) return { error: "Supabase not configured." };
+
+    const eventId = evtId ? (await resolveEventUuid(evtId)) ?? undefined : undefined;
+
+    const [monthsRes, eventsRes, runsRes, tasksRes] = await Promise.all([
+      repos.usage.byMonth({ limit: 12, userId: authSession?.userId }),
+      repos.usage.byEvent(),
+      repos.usage.byRun({ eventId, limit: 20 }),
+      repos.usage.byTask({ eventId, limit: 20 }),
+    ]);
+    const firstError = [monthsRes, eventsRes, runsRes, tasksRes].find((r) => r.error)?.error;
+    if (firstError) return { error: firstError.message };
+
+    const toTotals = (row) => ({
+      callCount: Number(row.call_count) || 0,
+      inputTokens: Number(row.input_tokens) || 0,
+      outputTokens: Number(row.output_tokens) || 0,
+      costUsd: Number(row.cost_usd) || 0,
+    });
+    const thisMonth = (monthsRes.data || []).find((row) => row.month === currentMonth());
+
+    return {
+      summary: {
+        monthlyBudgetUsd: getSetting("aiMonthlyBudgetUsd") ?? null,
+        currentMonthCostUsd: Number(thisMonth?.cost_usd) || 0,
+        months: (monthsRes.data || []).map((row) => ({ month: row.month, ...toTotals(row) })),
+        events: (eventsRes.data || []).map((row) => ({
+          eventId: row.event_id,
+          eventName: row.event_name || "Deleted event",
+          budgetUsd: row.ai_budget_usd != null ? Number(row.ai_budget_usd) : null,
+          ...toTotals(row),
+        })),
+        runs: (runsRes.data || []).map((row) => ({
+          runId: row.run_id,
+          eventId: row.event_id,
+          agentId: row.agent_id ?? undefined,
+          runStatus: row.run_status,
+          startedAt: row.started_at ?? undefined,
+          ...toTotals(row),
+        })),
+        tasks: (tasksRes.data || []).map((row) => ({
+          taskId: row.task_id,
+          eventId: row.event_id,
+          taskTitle: row.task_title || "Deleted task",
+          ...toTotals(row),
+        })),
+      },
+    };
+  });
+
+  ipcMain.handle("usage:set-event-budget", async (_event, evtId, budgetUsd) => {
+    const repos = getRepos();
+    if (!repos) return { error: "Supabase not configured." };
+
+    const eventUuid = await resolveEventUuid(evtId);
+    if (!eventUuid) return { error: "Event not found." };
+    const denied = await checkEventPermission(repos, eventUuid, "edit-details");
+    if (denied) return { error: denied };
+
+    const value = budgetUsd == null || budgetUsd === "" ? null : Number(budgetUsd);
+    if (value != null && (!Number.isFinite(value) || value < 0)) {
+      return { error: "Budget must be a positive amount." };
+    }
+
+    const { error } = await repos.events.update(eventUuid, { ai_budget_usd: value });
+    if (error) return { error: error.message };
+    return { success: true };
+  });
+
+  // ── App Settings ───────────────────────────────────────────────────────
+  ipcMain.handle("settings:get", async () => {
+    return { settings: getSettings() };
+  });
+
+  ipcMain.handle("settings:set", async (_event, updates) => {
+    const settings = setSettings(updates || {});
+    laneScheduler.setMaxConcurrent(settings.maxConcurrentLanes);
+    setRouteOverrides(settings.modelRoutes);
+    return { success: true, settings };
+  });
+
+  // ── Auth ───────────────────────────────────────────────────────────────
+  ipcMain.handle("auth:set-session", async (_event, session) => {
+    const previousUserId = authSession?.userId ?? null;
+    authSession =
+      session?.accessToken && session?.userId ? { accessToken: session.accessToken, userId: session.userId } : null;
+    const userId = authSession?.userId ?? null;
+    if (userId === previousUserId) return { success: true }; // Token refresh
+
+    // Agent runs belong to the previous user; pausing them lets that user resume later
+    for (const orchestrator of activeOrchestrators.values()) orchestrator.stop();
+    activeOrchestrators.clear();
+    if (!userId) return { success: true };
+
+    if (setLocalDbOwner(userId)) {
+      // The knowledge graph was built from the previous user's events too
+      clearKnowledgeGraph();
+      console.log("[Eventropy] Signed in as another user; local copy and knowledge graph cleared.");
+    }
+    await syncNow();
+    const repos = getRepos();
+    if (repos) {
+      restoreOrchestrators(repos).catch((err) => {
+        console.warn("[Eventropy] restoreOrchestrators threw:", err.message);
+      });
+    }
+    return { success: true };
+  });
+
+  // ── Local database + sync ──────────────────────────────────────────────
+  ipcMain.handle("localdb:query", async (_event, query) => {
+    if (query?.table === "events" && query.action === "select") await ensureInitialPull();
+    try {
+      return runQuery(query);
+    } catch (err) {
+      return { data: null, error: { message: err.message } };
+    }
+  });
+
+  ipcMain.handle("sync:get-status", async () => {
+    return { status: getSyncStatus() };
+  });
+
+  ipcMain.handle("sync:now", async () => {
+    await syncNow();
+    return { success: true, status: getSyncStatus() };
+  });
+
+  ipcMain.handle("sync:dismiss-conflicts", async () => {
+    dismissSyncConflicts();
+    return { success: true };
+  });
+
+  // ── Schema migrations ──────────────────────────────────────────────────
+  ipcMain.handle("migrations:status", async () => {
+    const supabase = storageBackend() === "supabase" ? createSupabaseClient() : null;
+    const status = await getSchemaStatus(supabase, storageBackend());
+    if (status.error) return { error: status.error };
+    return { status };
+  });
+
+  ipcMain.handle("migrations:run", async () => {
+    const result = await runMigrations();
+    if (result.error) return { error: result.error, applied: result.applied };
+    if (result.failed) {
+      return { error: `${result.failed.name}: ${result.failed.error}`, applied: result.applied, status: result.status };
+    }
+    return { success: true, applied: result.applied, status: result.status };
+  });
+
   // ── Notifications ──────────────────────────────────────────────────────
-  ipcMain.handle("notifications:get", async (_event, eventId) => {
-    const supabase = createSupabaseClient();
-    if (!supabase) return { notifications: [] };
+  ipcMain.handle("notifications:get", async (_event, evtId) => {
+    const repos = getRepos();
+    if (!repos) return { notifications: [] };
+
+    const eventId = await resolveEventUuid(evtId);
+    if (!eventId) return { notifications: [] };
 
-    const { data, error } = await supabase
-      .from("orchestrator_notifications")
-      .select("*")
-      .eq("event_id", eventId)
-      .eq("is_resolved", false)
-      .order("created_at", { ascending: false });
+    const { data, error } = await repos.orchestrator.listOpenNotifications({ eventId });
 
     if (error) return { notifications: [] };
 
@@ -541,13 +1230,80 @@ ${taskListStr || "(No tasks assigned yet.)"}
   });
 
   ipcMain.handle("notifications:mark-read", async (_event, notificationId) => {
-    const supabase = createSupabaseClient();
-    if (!supabase) return { error: "Supabase not configured." };
+    const repos = getRepos();
+    if (!repos) return { error: "Supabase not configured." };
+
+    await repos.orchestrator.updateNotification(notificationId, { is_read: true });
+
+    return { success: true };
+  });
+
+  ipcMain.handle("notifications:respond", async (_event, notificationId, response) => {
+    if (!response || !String(response).trim()) return { error: "Response is empty." };
 
-    await supabase
-      .from("orchestrator_notifications")
-      .update({ is_read: true })
-      .eq("id", notificationId);
+    const orchestrator = [...activeOrchestrators.values()].find((o) =>
+      o.pendingResponses.has(notificationId)
+    );
+    if (!orchestrator) {
+      return { error: "No running orchestrator is waiting on this notification." };
+    }
+    const repos = getRepos();
+    if (!repos) return { error: "Supabase not configured." };
+    const denied = await checkEventPermission(repos, orchestrator.eventId, "run-agents");
+    if (denied) return { error: denied };
+
+    // Resolving may resume the execution loop, so don't block the renderer on it.
+    orchestrator.handleUserResponse(notificationId, String(response).trim()).catch((err) => {
+      console.error("[Eventropy] Notification response error:", err);
+    });
+
+    return { success: true };
+  });
+
+  // ── Tool Approvals (side-effecting connector calls) ────────────────────
+  ipcMain.handle("approvals:list", async (_event, evtId) => {
+    const repos = getRepos();
+    if (!repos) return { approvals: [] };
+
+    let eventId;
+    if (evtId) {
+      eventId = await resolveEventUuid(evtId);
+      if (!eventId) return { approvals: [] };
+    }
+
+    const { data, error } = await repos.orchestrator.listPendingApprovals({ eventId });
+    if (error) return { approvals: [] };
+    return { approvals: (data || []).map(approvalRowToApproval) };
+  });
+
+  ipcMain.handle("approvals:decide", async (_event, approvalId, decision) => {
+    if (!decision || !["approve", "reject"].includes(decision.decision)) {
+      return { error: "Decision must be 'approve' or 'reject'." };
+    }
+    const { editedInput } = decision;
+    if (
+      editedInput != null &&
+      (typeof editedInput !== "object" || Array.isArray(editedInput) ||
+        Object.getPrototypeOf(editedInput) !== Object.prototype)
+    ) {
+      return { error: "Edited arguments must be an object of tool inputs." };
+    }
+
+    const orchestrator = [...activeOrchestrators.values()].find((o) =>
+      o.pendingApprovals.has(approvalId)
+    );
+    if (!orchestrator) {
+      return { error: "No orchestrator is waiting on this approval. Resume the run and try again." };
+    }
+    const repos = getRepos();
+    if (!repos) return { error: "Supabase not configured." };
+    const denied = await checkEventPermission(repos, orchestrator.eventId, "approve-tools");
+    if (denied) return { error: denied };
+
+    // Executing the call may resume the execution loop, so don't block the renderer on it.
+    orchestrator.handleApprovalDecision(approvalId, decision).catch((err) => {
+      console.error("[Eventropy] Approval decision error:", err);
+    });
 
     return { success: true };
   });
@@ -567,12 +1323,18 @@ ${taskListStr || "(No tasks assigned yet.)"}
         isConnected: c.isConnected || false,
         lastTestedAt: c.lastTestedAt,
         lastTestOk: c.lastTestOk,
+        sideEffectTools: c.sideEffectTools || [],
+        autoExecute: !!c.autoExecute,
       })),
     };
   });
 
-  ipcMain.handle("connectors:save-config", async (_event, _connectorId, _config) => {
-    // Non-secret config is currently handled via save-secret for all field values
+  ipcMain.handle("connectors:save-config", async (_event, connectorId, config) => {
+    // Secrets go through save-secret; this stores non-secret preferences (e.g. autoExecute)
+    const connector = getConnector(connectorId);
+    if (!connector) return { error: "Connector not found." };
+    const saved = setConnectorConfig(connectorId, config || {});
+    connector.autoExecute = !!saved.autoExecute;
     return { success: true };
   });
 
@@ -731,6 +1493,7 @@ async function initConnectors() {
 
   for (const connector of connectorInstances) {
     registerConnector(connector);
+    connector.autoExecute = !!getConnectorConfig(connector.id).autoExecute;
     const secrets = loadSecretsForConnector(connector);
     try {
       await connector.initialize(secrets);
@@ -760,6 +1523,232 @@ function loadSecretsForConnector(connector) {
   return secrets;
 }
 
+// ── Orchestrator Helpers ─────────────────────────────────────────────────────
+
+/**
+ * laneKey -> activeOrchestrators key for one agent lane of an event.
+ * Runs created before lanes existed have no agent and use "*".
+ * @param {string} eventUuid
+ * @param {string | null} agentId
+ * @returns {string}
+ */
+function laneKey(eventUuid, agentId) {
+  return `${eventUuid}:${agentId || "*"}`;
+}
+
+/**
+ * getEventLanes -> Orchestrators for an event, optionally only one agent lane.
+ * @param {string} eventUuid
+ * @param {string} [agentId]
+ * @returns {EventOrchestrator[]}
+ */
+function getEventLanes(eventUuid, agentId) {
+  if (agentId) {
+    const orchestrator = activeOrchestrators.get(laneKey(eventUuid, agentId));
+    return orchestrator ? [orchestrator] : [];
+  }
+  return [...activeOrchestrators.values()].filter((o) => o.eventId === eventUuid);
+}
+
+/**
+ * loadSharedLaneContext -> Event + task array shared by every lane of an event.
+ * While any lane is running, its live task objects are reused so all lanes see the
+ * same statuses; otherwise tasks are reloaded and handed to the idle lanes too.
+ * @param {import("./repos/index.cjs").Repos} repos
+ * @param {string} eventUuid
+ * @returns {Promise<{ event?: object, tasks?: object[], error?: string }>}
+ */
+async function loadSharedLaneContext(repos, eventUuid) {
+  const lanes = getEventLanes(eventUuid);
+  const running = lanes.find((o) => o.isRunning());
+  if (running) return { event: running.event, tasks: running.tasks };
+
+  const context = await loadOrchestratorContext(repos, eventUuid);
+  if (context.error) return context;
+  for (const orchestrator of lanes) {
+    orchestrator.event = context.event;
+    orchestrator.tasks = context.tasks;
+  }
+  return context;
+}
+
+/**
+ * loadOrchestratorContext -> Load an event and its tasks in the shape EventOrchestrator expects.
+ * @param {import("./repos/index.cjs").Repos} repos
+ * @param {string} eventUuid - Supabase events.id
+ * @returns {Promise<{ event?: object, tasks?: object[], error?: string }>}
+ */
+async function loadOrchestratorContext(repos, eventUuid) {
+  const { data: eventRow, error: eventErr } = await repos.events.get(eventUuid);
+  if (eventErr) return { error: eventErr.message };
+  if (!eventRow) return { error: "Event not found." };
+
+  const { data: taskRows, error: tasksErr } = await repos.tasks.list({ eventId: eventUuid });
+  if (tasksErr) return { error: tasksErr.message };
+
+  return {
+    event: eventRowToOrchestratorEvent(eventRow),
+    tasks: (taskRows || []).map(taskRowToOrchestratorTask),
+  };
+}
+
+/**
+ * eventRowToOrchestratorEvent -> Map an events row to the PlannerEvent subset used in prompts.
+ * @param {object} row
+ * @returns {object}
+ */
+function eventRowToOrchestratorEvent(row) {
+  return {
+    evtId: row.evt_slug || row.id,
+    status: row.status,
+    formData: {
+      eventReason: row.name,
+      eventDate: row.event_date ?? "",
+      startTime: row.start_time ?? "",
+      endTime: row.end_time ?? "",
+      venuePref: row.venue_pref ?? "",
+      guestCount: row.guest_count ?? "",
+      foodDrinks: row.food_drinks ?? "none",
+      budget: row.budget ?? undefined,
+      notes: row.notes ?? "",
+    },
+  };
+}
+
+/**
+ * taskRowToOrchestratorTask -> Map a tasks row to the camelCase Task shape.
+ * @param {object} row
+ * @returns {object}
+ */
+function taskRowToOrchestratorTask(row) {
+  return {
+    id: row.id,
+    title: row.title,
+    description: row.description ?? "",
+    status: row.status,
+    priority: row.priority,
+    dueDate: row.due_date ? String(row.due_date).slice(0, 10) : undefined,
+    assignedTo: row.assigned_to ?? undefined,
+    agentId: row.agent_id ?? "general",
+    dependencies: row.dependencies ?? [],
+    completedAt: row.completed_at ?? undefined,
+    aiProgressPct: row.ai_progress_pct ?? 0,
+    aiProgressText: row.ai_progress_text ?? undefined,
+    aiSummary: row.ai_summary ?? undefined,
+  };
+}
+
+/**
+ * restoreOrchestrators -> Warm restart. Rebuild an orchestrator for the latest
+ * running/paused run of each event lane from orchestrator_runs, its history turns in
+ * orchestrator_messages and its open orchestrator_notifications.
+ * @param {import("./repos/index.cjs").Repos} repos
+ */
+async function restoreOrchestrators(repos) {
+  const { data: runs, error } = await repos.orchestrator.listActiveRuns();
+  if (error) {
+    console.warn("[Eventropy] Could not load orchestrator runs for restore:", error.message);
+    return;
+  }
+
+  /** @type {Map<string, object>} eventUuid -> context shared by the event's restored lanes */
+  const contexts = new Map();
+
+  for (const run of runs || []) {
+    const key = laneKey(run.event_id, run.agent_id);
+    if (activeOrchestrators.has(key)) continue; // Only the latest run per lane
+
+    try {
+      if (!contexts.has(run.event_id)) {
+        contexts.set(run.event_id, await loadOrchestratorContext(repos, run.event_id));
+      }
+      const context = contexts.get(run.event_id);
+      if (context.error) {
+        console.warn("[Eventropy] Skipping restore for run", run.id, "-", context.error);
+        continue;
+      }
+
+      const [
+        { data: messages, error: msgErr },
+        { data: notifications, error: notifErr },
+        { data: approvals },
+      ] = await Promise.all([
+        repos.orchestrator.listHistory(run.id),
+        repos.orchestrator.listOpenNotifications({ runId: run.id }),
+        repos.orchestrator.listPendingApprovals({ runId: run.id }),
+      ]);
+      if (msgErr || notifErr) {
+        console.warn("[Eventropy] Skipping restore for run", run.id, "-", (msgErr || notifErr).message);
+        continue;
+      }
+
+      const orchestrator = createOrchestrator(repos, run.event_id, context, run.agent_id);
+      await orchestrator.restore({
+        run,
+        messages: messages || [],
+        notifications: notifications || [],
+        approvals: approvals || [],
+      });
+      activeOrchestrators.set(key, orchestrator);
+      console.log("[Eventropy] Restored orchestrator run", run.id, "for event", run.event_id, run.agent_id || "");
+    } catch (err) {
+      console.warn("[Eventropy] Failed to restore run", run.id, err.message);
+    }
+  }
+}
+
+/**
+ * approvalRowToApproval -> Map a tool_approvals row to the renderer ToolApproval shape.
+ * @param {object} row
+ * @returns {object}
+ */
+function approvalRowToApproval(row) {
+  return {
+    id: row.id,
+    eventId: row.event_id,
+    runId: row.run_id ?? undefined,
+    taskId: row.task_id ?? undefined,
+    connectorId: row.connector_id,
+    toolName: row.tool_name,
+    toolInput: row.tool_input || {},
+    editedInput: row.edited_input ?? undefined,
+    status: row.status,
+    decisionNote: row.decision_note ?? undefined,
+    result: row.result ?? undefined,
+    createdAt: row.created_at,
+    decidedAt: row.decided_at ?? undefined,
+  };
+}
+
+/**
+ * createOrchestrator -> Build an EventOrchestrator whose callbacks push to the renderer.
+ * @param {import("./repos/index.cjs").Repos} repos
+ * @param {string} eventUuid - Supabase events.id
+ * @param {{ event: object, tasks: object[] }} context
+ * @param {string | null} agentId - Agent lane, or null for a legacy event-wide run
+ * @returns {EventOrchestrator}
+ */
+function createOrchestrator(repos, eventUuid, context, agentId) {
+  return new EventOrchestrator({
+    eventId: eventUuid,
+    event: context.event,
+    tasks: context.tasks,
+    agentId,
+    scheduler: laneScheduler,
+    checkBudget: () => checkBudget(repos, eventUuid, getSetting("aiMonthlyBudgetUsd"), authSession?.userId),
+    repos,
+    onTaskUpdate: (update) => sendToRenderer("orchestrator:task-progress", update),
+    onNotification: (notification) => sendToRenderer("orchestrator:notification", notification),
+    onChatMessage: (message) => sendToRenderer("orchestrator:chat-message", message),
+    onStatusChange: (status) => sendToRenderer("orchestrator:status-change", status),
+    onApprovalRequest: (row) => sendToRenderer("orchestrator:approval-request", approvalRowToApproval(row)),
+    onWriteFile: (evtId, filename, content) => {
+      writeEvtFile(evtId, filename, content);
+    },
+    onAgentToolChange: (changedChannel, evtId) => sendToRenderer(changedChannel, { evtId }),
+  });
+}
+
 // ── Helpers ──────────────────────────────────────────────────────────────────
 
 /**
@@ -773,6 +1762,30 @@ function sendToRenderer(channel, data) {
   }
 }
 
+/**
+ * saveCsvFile -> Ask where to save a CSV export (native save dialog), then write it.
+ * @param {string} title - Dialog title
+ * @param {string} defaultName - Suggested file name
+ * @param {string} content - CSV text
+ * @param {string} what - What was exported, for the log
+ * @returns {Promise<{ success?: boolean, filePath?: string, cancelled?: boolean, error?: string }>}
+ */
+async function saveCsvFile(title, defaultName, content, what) {
+  const result = await dialog.showSaveDialog(mainWin, {
+    title,
+    defaultPath: path.basename(String(defaultName)),
+    filters: [{ name: "CSV", extensions: ["csv"] }],
+  });
+  if (result.canceled || !result.filePath) return { cancelled: true };
+  try {
+    fs.writeFileSync(result.filePath, String(content), "utf-8");
+    console.log(`[Eventropy] Exported ${what} to`, result.filePath);
+    return { success: true, filePath: result.filePath };
+  } catch (err) {
+    return { error: err.message };
+  }
+}
+
 /**
  * evtFilesDir -> Resolved path to a per-event files directory.
  * Creates the directory if it does not exist.
@@ -800,7 +1813,8 @@ function writeEvtFile(evtId, filename, content) {
 
 /**
  * createSupabaseClient -> Create a Supabase client for the main process.
- * Uses the same env vars as the renderer.
+ * Uses the same env vars as the renderer and, once signed in, the user's access token,
+ * so row-level security (migration 013) applies as it does in the renderer.
  * @returns {object | null}
  */
 function createSupabaseClient() {
@@ -812,9 +1826,25 @@ function createSupabaseClient() {
       console.warn("Supabase env vars not set (VITE_SUPABASE_URL, VITE_SUPABASE_PUBLISHABLE_KEY).");
       return null;
     }
-    return createClient(url, key);
+    if (!authSession) return createClient(url, key);
+    return createClient(url, key, {
+      global: { headers: { Authorization: `Bearer ${authSession.accessToken}` } },
+      auth: { persistSession: false, autoRefreshToken: false },
+    });
   } catch (err) {
     console.error("Failed to create Supabase client:", err);
     return null;
   }
 }
+
+/**
+ * getRepos -> Storage repos for the configured backend (see repos/index.cjs). With Supabase,
+ * the mirrored tables are read and written through the local database like the renderer's.
+ * @returns {import("./repos/index.cjs").Repos | null} null when Supabase is not configured
+ */
+function getRepos() {
+  return createRepos(() => {
+    const supabase = createSupabaseClient();
+    return supabase && createLocalDbClient(supabase);
+  });
+}
@@ -1,20 +1,39 @@
 /**
- * EventOrchestrator.cjs -> Core orchestration loop for a single event.
+ * EventOrchestrator.cjs -> Core orchestration loop for a single event (optionally one agent lane).
  * Manages the state machine: IDLE -> EXECUTING -> WAITING_FOR_USER -> COMPLETED.
- * Each task gets its own Claude conversation thread.
+ * Each task gets its own Claude conversation thread. Lanes of the same event share
+ * one task array so cross-lane dependencies see each other's progress.
  */
 
-const { OrchestratorState } = require("./types.cjs");
+const { OrchestratorState, AGENT_LANES } = require("./types.cjs");
+const { getAgentTools, findAgentToolSet, executeAgentTool } = require("./agentTools.cjs");
 const {
   buildSystemPrompt,
   buildPlanningPrompt,
+  buildReplanPrompt,
   callClaude,
   callClaudePlanning,
   extractToolUseBlocks,
   extractTextContent,
-  hasClaudeKey,
+  hasAiProvider,
 } = require("./claude.cjs");
-const { getAllTools, executeTool } = require("./toolRegistry.cjs");
+const {
+  getAllTools,
+  executeTool,
+  findToolConnector,
+  requiresApproval,
+} = require("./toolRegistry.cjs");
+const { historyNotes } = require("./knowledgeGraph.cjs");
+const { isRetryable } = require("./modelRouter.cjs");
+
+/** DEPENDENCY_POLL_MS -> How often a lane waiting on another lane re-checks task statuses. */
+const DEPENDENCY_POLL_MS = 30000;
+
+/** MAX_TASK_FAILURES -> Failed AI calls in a row before a task is blocked for the user. */
+const MAX_TASK_FAILURES = 3;
+
+/** RETRY_BACKOFF_MS -> Wait before a task is retried after a failed AI call; doubles per failure. */
+const RETRY_BACKOFF_MS = 15000;
 
 /**
  * EventOrchestrator -> Manages AI task execution for one event.
@@ -24,24 +43,35 @@ class EventOrchestrator {
    * @param {object} opts
    * @param {string} opts.eventId - The event ID
    * @param {object} opts.event - Full PlannerEvent data
-   * @param {object[]} opts.tasks - AI-assigned tasks to execute
+   * @param {object[]} opts.tasks - All tasks for the event (shared between lanes)
+   * @param {string} [opts.agentId] - Agent lane; only this group's tasks are executed
+   * @param {object} [opts.scheduler] - LaneScheduler for the concurrency cap and cross-lane waits
+   * @param {function} [opts.checkBudget] - async () => { exceeded, message }; checked before every Claude call
    * @param {function} opts.onTaskUpdate - Callback for task progress updates
    * @param {function} opts.onNotification - Callback for new notifications
    * @param {function} opts.onChatMessage - Callback for new chat messages
    * @param {function} opts.onStatusChange - Callback for orchestrator status changes
+   * @param {function} [opts.onApprovalRequest] - Callback when a tool call is queued for approval
    * @param {function} [opts.onWriteFile] - Callback to write a file: (evtId, filename, content) => void
-   * @param {object} opts.supabase - Supabase client
+   * @param {function} [opts.onAgentToolChange] - Callback after an agent tool (agentTools.cjs) changed data:
+   *   (changedChannel, evtId) => void
+   * @param {import("../repos/index.cjs").Repos} opts.repos - Storage for runs, messages, notifications, approvals and tasks
    */
   constructor(opts) {
     this.eventId = opts.eventId;
     this.event = opts.event;
     this.tasks = opts.tasks;
+    this.agentId = opts.agentId || null;
+    this.scheduler = opts.scheduler || null;
+    this.checkBudget = opts.checkBudget || null;
     this.onTaskUpdate = opts.onTaskUpdate;
     this.onNotification = opts.onNotification;
     this.onChatMessage = opts.onChatMessage;
     this.onStatusChange = opts.onStatusChange;
     this.onWriteFile = opts.onWriteFile || null;
-    this.supabase = opts.supabase;
+    this.onAgentToolChange = opts.onAgentToolChange || null;
+    this.onApprovalRequest = opts.onApprovalRequest || (() => {});
+    this.repos = opts.repos;
 
     this.state = OrchestratorState.IDLE;
     this.runId = null;
@@ -53,6 +83,18 @@ class EventOrchestrator {
 
     /** @type {Map<string, string>} notificationId -> taskId for pending user responses */
     this.pendingResponses = new Map();
+
+    /** @type {Map<string, string>} notificationId -> request_user_input tool_use_id it answers */
+    this.pendingToolUseIds = new Map();
+
+    /** @type {Map<string, object>} approvalId -> { taskId, toolUseId, toolName, toolInput } */
+    this.pendingApprovals = new Map();
+
+    /** @type {Map<string, { count: number, retryAt: number }>} taskId -> failed AI calls in a row */
+    this.taskFailures = new Map();
+
+    /** @type {(() => void) | null} Ends the wait for a task's retry backoff early (stop) */
+    this.wakeRetryWait = null;
   }
 
   /**
@@ -60,23 +102,20 @@ class EventOrchestrator {
    * Creates a run record, then enters the task selection/execution loop.
    */
   async start() {
-    if (!hasClaudeKey()) {
-      throw new Error("Claude API key not configured. Add ANTHROPIC_API_KEY to your environment.");
+    if (!hasAiProvider("execution")) {
+      throw new Error("No AI provider configured. Add ANTHROPIC_API_KEY (or OPENAI_API_KEY) to your environment.");
     }
 
     this.shouldStop = false;
     this.state = OrchestratorState.EXECUTING;
 
     // Create orchestrator_runs record
-    const { data: run, error: runErr } = await this.supabase
-      .from("orchestrator_runs")
-      .insert({
-        event_id: this.eventId,
-        status: "running",
-        started_at: new Date().toISOString(),
-      })
-      .select("id")
-      .single();
+    const { data: run, error: runErr } = await this.repos.orchestrator.createRun({
+      event_id: this.eventId,
+      agent_id: this.agentId,
+      status: "running",
+      started_at: new Date().toISOString(),
+    });
 
     if (runErr) {
       console.error("Failed to create orchestrator run:", runErr);
@@ -87,26 +126,168 @@ class EventOrchestrator {
     this._emitStatusChange();
 
     // Enter the execution loop
-    try {
-      await this._executionLoop();
-    } catch (err) {
-      console.error("Orchestrator execution error:", err);
-      this.state = OrchestratorState.FAILED;
-      await this._updateRunStatus("failed");
-      this._emitStatusChange();
+    await this._runLoop();
+  }
+
+  /**
+   * resume -> Continue a paused run (stopped or waiting on the user) without
+   * creating a new run record. Tasks that are still blocked stay blocked.
+   */
+  async resume() {
+    if (!hasAiProvider("execution")) {
+      throw new Error("No AI provider configured. Add ANTHROPIC_API_KEY (or OPENAI_API_KEY) to your environment.");
+    }
+    if (!this.runId) {
+      throw new Error("No run to resume. Start a new run instead.");
+    }
+    if (this.isRunning()) return;
+
+    this.shouldStop = false;
+    this.state = OrchestratorState.EXECUTING;
+    await this._updateRunStatus("running");
+    this._emitStatusChange();
+
+    await this._runLoop();
+  }
+
+  /**
+   * restore -> Rebuild in-memory state for a persisted run after an app restart.
+   * Histories come from orchestrator_messages rows that carry claude_content (ordered by
+   * history_seq); pending responses come from the run's open input_needed notifications.
+   * The restored run is left paused until the user resumes it or answers a prompt.
+   * @param {object} opts
+   * @param {object} opts.run - orchestrator_runs row
+   * @param {object[]} opts.messages - orchestrator_messages rows for the run, ordered by history_seq
+   * @param {object[]} opts.notifications - Unresolved orchestrator_notifications rows for the run
+   * @param {object[]} [opts.approvals] - Pending tool_approvals rows for the run
+   */
+  async restore({ run, messages, notifications, approvals = [] }) {
+    this.runId = run.id;
+    this.taskMessageHistories = new Map();
+    this.pendingResponses = new Map();
+    this.pendingToolUseIds = new Map();
+    this.pendingApprovals = new Map();
+
+    for (const row of messages) {
+      if (row.claude_content == null || !row.task_id) continue;
+      const history = this.taskMessageHistories.get(row.task_id) || [];
+      history.push({ role: row.role, content: row.claude_content });
+      this.taskMessageHistories.set(row.task_id, history);
+    }
+
+    for (const row of notifications) {
+      if (row.type !== "input_needed" || !row.task_id) continue;
+      this.pendingResponses.set(row.id, row.task_id);
+      if (row.tool_use_id) this.pendingToolUseIds.set(row.id, row.tool_use_id);
+    }
+
+    for (const row of approvals) {
+      if (!row.task_id) continue;
+      this.pendingApprovals.set(row.id, {
+        taskId: row.task_id,
+        toolUseId: row.tool_use_id,
+        toolName: row.tool_name,
+        toolInput: row.tool_input,
+      });
+    }
+
+    // Tool calls cut off by the shutdown never got a result; close them out so the
+    // history is valid again. Tasks waiting on the user get theirs when answered.
+    const waitingTaskIds = new Set([
+      ...this.pendingResponses.values(),
+      ...[...this.pendingApprovals.values()].map((a) => a.taskId),
+    ]);
+    for (const [taskId, history] of this.taskMessageHistories) {
+      if (waitingTaskIds.has(taskId)) continue;
+      const unanswered = this._unansweredToolUseIds(history);
+      if (unanswered.length === 0) continue;
+      await this._pushHistory(taskId, {
+        role: "user",
+        content: unanswered.map((id) => ({
+          type: "tool_result",
+          tool_use_id: id,
+          content: "Interrupted: the app restarted before this tool call finished. Call it again if it is still needed.",
+          is_error: true,
+        })),
+      });
+    }
+
+    this.shouldStop = false;
+    this.activeTaskId = null;
+    this.state =
+      waitingTaskIds.size > 0 && !this._selectNextTask()
+        ? OrchestratorState.WAITING_FOR_USER
+        : OrchestratorState.IDLE;
+    if (run.status !== "paused") await this._updateRunStatus("paused");
+  }
+
+  /**
+   * expirePendingFrom -> Take over a lane from the orchestrator it replaces (stop, then run
+   * again). The previous run's open prompts and approvals can no longer be answered, so its
+   * pending tool_approvals are rejected, its input_needed notifications resolved, and the
+   * tasks waiting on them moved back to in-progress for this run to pick up.
+   * @param {EventOrchestrator} previous - The lane's earlier orchestrator, already stopped
+   */
+  async expirePendingFrom(previous) {
+    const waitingTaskIds = new Set();
+    const decidedAt = new Date().toISOString();
+
+    for (const [approvalId, { taskId }] of previous.pendingApprovals) {
+      await this.repos.orchestrator.updateApproval(approvalId, {
+        status: "rejected",
+        decided_at: decidedAt,
+        decision_note: "Expired: the agent was restarted before a decision.",
+      });
+      waitingTaskIds.add(taskId);
+    }
+    for (const [notificationId, taskId] of previous.pendingResponses) {
+      await this.repos.orchestrator.updateNotification(notificationId, { is_read: true, is_resolved: true });
+      waitingTaskIds.add(taskId);
+    }
+
+    previous.pendingApprovals.clear();
+    previous.pendingResponses.clear();
+    previous.pendingToolUseIds.clear();
+
+    for (const taskId of waitingTaskIds) {
+      if (this.tasks.find((t) => t.id === taskId)?.status === "blocked") await this._unblockTask(taskId);
     }
   }
 
   /**
    * stop -> Signal the orchestrator to stop after the current task step.
+   * If nothing is executing (waiting on the user), the run is paused immediately.
    */
   stop() {
     this.shouldStop = true;
+    // Wake the loop if it is queued for a slot, sleeping on another lane or a retry backoff
+    if (this.scheduler) {
+      this.scheduler.cancel(this);
+      this.scheduler.notifyChange();
+    }
+    if (this.wakeRetryWait) this.wakeRetryWait();
+    if (this.state === OrchestratorState.WAITING_FOR_USER) {
+      this.state = OrchestratorState.IDLE;
+      this.activeTaskId = null;
+      this._emitStatusChange();
+    }
+  }
+
+  /**
+   * isRunning -> Whether the execution loop is currently active.
+   * @returns {boolean}
+   */
+  isRunning() {
+    return (
+      this.state === OrchestratorState.EXECUTING ||
+      this.state === OrchestratorState.WAITING_FOR_DEPENDENCIES
+    );
   }
 
   /**
    * handleUserResponse -> Process a user's response to a human-in-the-loop prompt.
-   * Unblocks the task and re-enters the execution loop.
+   * Unblocks the task and re-enters the execution loop. The response answers the paused
+   * request_user_input call, or follows the agent's last reply when it stopped without one.
    * @param {string} notificationId - The notification being resolved
    * @param {string} response - The user's response text
    */
@@ -118,49 +299,23 @@ class EventOrchestrator {
     }
 
     // Mark notification as resolved in DB
-    await this.supabase
-      .from("orchestrator_notifications")
-      .update({
-        is_resolved: true,
-        resolved_response: response,
-      })
-      .eq("id", notificationId);
-
-    // Unblock the task
-    const task = this.tasks.find((t) => t.id === taskId);
-    if (task) {
-      task.status = "in-progress";
-      await this.supabase
-        .from("tasks")
-        .update({ status: "in-progress" })
-        .eq("id", taskId);
-    }
+    await this.repos.orchestrator.updateNotification(notificationId, {
+      is_resolved: true,
+      resolved_response: response,
+    });
 
-    // Add the user response to the task's message history as a tool_result
+    // Unblock the task and answer the paused tool call
+    await this._unblockTask(taskId);
     const history = this.taskMessageHistories.get(taskId) || [];
-    // Find the last assistant message with request_user_input tool_use
-    const lastAssistantIdx = [...history].reverse().findIndex(
-      (m) => m.role === "assistant"
-    );
-    if (lastAssistantIdx >= 0) {
-      // The tool_result goes after the assistant message
-      const toolUseId = this._findRequestUserInputToolId(history);
-      if (toolUseId) {
-        history.push({
-          role: "user",
-          content: [
-            {
-              type: "tool_result",
-              tool_use_id: toolUseId,
-              content: response,
-            },
-          ],
-        });
-        this.taskMessageHistories.set(taskId, history);
-      }
+    const toolUseId =
+      this.pendingToolUseIds.get(notificationId) || this._findRequestUserInputToolId(history);
+    const answered = toolUseId ? await this._answerPausedToolUse(taskId, toolUseId, response) : false;
+    if (!answered && history[history.length - 1]?.role === "assistant") {
+      await this._pushHistory(taskId, { role: "user", content: response });
     }
 
     this.pendingResponses.delete(notificationId);
+    this.pendingToolUseIds.delete(notificationId);
 
     // Persist the user response as an orchestrator message
     await this._persistMessage(taskId, "user", response);
@@ -174,22 +329,145 @@ class EventOrchestrator {
       createdAt: new Date().toISOString(),
     });
 
-    // If the orchestrator was waiting, resume execution
+    await this._resumeIfWaiting();
+  }
+
+  /**
+   * handleApprovalDecision -> Apply the user's decision on a queued side-effecting tool call.
+   * Approved calls run (with the user's edited arguments, if any); rejected calls do not.
+   * Either way the outcome goes back to Claude as the tool_result and the task unblocks.
+   * @param {string} approvalId - tool_approvals row id
+   * @param {object} decision
+   * @param {"approve" | "reject"} decision.decision
+   * @param {object} [decision.editedInput] - Replacement arguments when approving with edits
+   * @param {string} [decision.note] - Optional note passed to Claude
+   * @returns {Promise<object | null>} The updated approval, or null if it is not pending here
+   */
+  async handleApprovalDecision(approvalId, { decision, editedInput, note }) {
+    const pending = this.pendingApprovals.get(approvalId);
+    if (!pending) {
+      console.warn("No pending approval found:", approvalId);
+      return null;
+    }
+    this.pendingApprovals.delete(approvalId);
+
+    const { taskId, toolUseId, toolName, toolInput } = pending;
+    const noteText = note ? ` Note from the user: ${note}` : "";
+    const wasEdited = decision === "approve" && editedInput != null;
+    const updates = { decided_at: new Date().toISOString(), decision_note: note || null };
+    let toolResultContent;
+
+    if (decision === "approve") {
+      const input = wasEdited ? editedInput : toolInput;
+      const result = await executeTool(toolName, input);
+      updates.status = result.success ? "executed" : "failed";
+      updates.result = result;
+      if (wasEdited) updates.edited_input = editedInput;
+
+      await this._persistMessage(taskId, "tool_result", null, toolName, null, result);
+      this.onChatMessage({
+        taskId,
+        eventId: this.eventId,
+        role: "tool_result",
+        content: result.success
+          ? `Tool ${toolName} succeeded.`
+          : `Tool ${toolName} failed: ${result.error}`,
+        toolName,
+        toolResult: result,
+        createdAt: new Date().toISOString(),
+      });
+
+      toolResultContent = wasEdited
+        ? `The user approved this call after editing the arguments to ${JSON.stringify(editedInput)}.${noteText}\nResult: ${JSON.stringify(result)}`
+        : `The user approved this call.${noteText}\nResult: ${JSON.stringify(result)}`;
+    } else {
+      updates.status = "rejected";
+      toolResultContent = `The user rejected this call; it was not executed.${noteText}`;
+      await this._persistMessage(taskId, "user", `Rejected ${toolName}.${noteText}`);
+    }
+
+    const { data: row } = await this.repos.orchestrator.updateApproval(approvalId, updates);
+
+    await this._unblockTask(taskId);
+    await this._answerPausedToolUse(taskId, toolUseId, toolResultContent);
+    await this._resumeIfWaiting();
+
+    return row || null;
+  }
+
+  // ── Private Methods ─────────────────────────────────────────────────────
+
+  /**
+   * _unblockTask -> Move a blocked task back to in-progress so it can be selected again.
+   * @param {string} taskId
+   */
+  async _unblockTask(taskId) {
+    const task = this.tasks.find((t) => t.id === taskId);
+    if (!task) return;
+    task.status = "in-progress";
+    await this.repos.tasks.update(taskId, { status: "in-progress" });
+
+    this.onTaskUpdate({
+      eventId: this.eventId,
+      taskId,
+      status: "in-progress",
+      progressPct: task.aiProgressPct || 0,
+      progressText: "Resuming...",
+    });
+  }
+
+  /**
+   * _answerPausedToolUse -> Add the tool_result for a paused tool call to the task history.
+   * Every tool_use in the paused assistant turn needs a result, so calls queued
+   * after the paused one are reported as not executed.
+   * @param {string} taskId
+   * @param {string} toolUseId - The paused tool_use block id
+   * @param {string} content - tool_result content for that call
+   * @returns {Promise<boolean>} false when the call was not waiting for a result
+   */
+  async _answerPausedToolUse(taskId, toolUseId, content) {
+    const history = this.taskMessageHistories.get(taskId) || [];
+    const unanswered = this._unansweredToolUseIds(history);
+    if (!unanswered.includes(toolUseId)) return false;
+
+    await this._pushHistory(taskId, {
+      role: "user",
+      content: unanswered.map((id) => ({
+        type: "tool_result",
+        tool_use_id: id,
+        content: id === toolUseId ? content : "Not executed: the task paused for the user first.",
+      })),
+    });
+    return true;
+  }
+
+  /**
+   * _resumeIfWaiting -> Re-enter the execution loop if the run was only waiting on the user.
+   */
+  async _resumeIfWaiting() {
     if (this.state === OrchestratorState.WAITING_FOR_USER && !this.shouldStop) {
       this.state = OrchestratorState.EXECUTING;
+      await this._updateRunStatus("running");
+      this._emitStatusChange();
+      await this._runLoop();
+    } else {
       this._emitStatusChange();
-      try {
-        await this._executionLoop();
-      } catch (err) {
-        console.error("Orchestrator resume error:", err);
-        this.state = OrchestratorState.FAILED;
-        await this._updateRunStatus("failed");
-        this._emitStatusChange();
-      }
     }
   }
 
-  // ── Private Methods ─────────────────────────────────────────────────────
+  /**
+   * _runLoop -> Run the execution loop, marking the run failed on an unexpected error.
+   */
+  async _runLoop() {
+    try {
+      await this._executionLoop();
+    } catch (err) {
+      console.error("Orchestrator execution error:", err);
+      this.state = OrchestratorState.FAILED;
+      await this._updateRunStatus("failed");
+      this._emitStatusChange();
+    }
+  }
 
   /**
    * _executionLoop -> The main task selection and execution loop.
@@ -199,8 +477,27 @@ class EventOrchestrator {
     while (!this.shouldStop) {
       const nextTask = this._selectNextTask();
       if (!nextTask) {
+        // Tasks backing off after a failed AI call are retried once their wait is over
+        const retryAt = this._nextRetryAt();
+        if (retryAt != null) {
+          this.activeTaskId = null;
+          await this._waitForRetry(retryAt - Date.now());
+          continue;
+        }
+
         // Check if all tasks are done or all remaining are blocked
-        const remaining = this.tasks.filter((t) => t.status !== "done");
+        const remaining = this._laneTasks().filter((t) => t.status !== "done");
+        if (remaining.length > 0 && this._hasCrossLaneWait(remaining)) {
+          // Another lane owns an unfinished dependency; sleep until a task changes
+          if (this.state !== OrchestratorState.WAITING_FOR_DEPENDENCIES) {
+            this.state = OrchestratorState.WAITING_FOR_DEPENDENCIES;
+            this.activeTaskId = null;
+            this._emitStatusChange();
+          }
+          await this.scheduler.waitForChange(DEPENDENCY_POLL_MS);
+          await this._refreshTaskStatuses();
+          continue;
+        }
         if (remaining.length === 0) {
           this.state = OrchestratorState.COMPLETED;
           await this._updateRunStatus("completed");
@@ -212,19 +509,29 @@ class EventOrchestrator {
         return;
       }
 
-      this.activeTaskId = nextTask.id;
-      this._emitStatusChange();
+      // Respect the concurrency cap shared by all lanes; stop() cancels the wait
+      if (this.scheduler && !(await this.scheduler.acquire(this))) break;
+      try {
+        if (this.shouldStop || !this.isRunning()) break;
 
-      const shouldContinue = await this._executeTask(nextTask);
-      if (!shouldContinue) {
-        // Task was blocked (needs user input), continue to next task
-        continue;
+        this.state = OrchestratorState.EXECUTING;
+        this.activeTaskId = nextTask.id;
+        this._emitStatusChange();
+
+        // A false result means the task was blocked (needs user input); move on either way
+        await this._executeTask(nextTask);
+      } finally {
+        if (this.scheduler) {
+          this.scheduler.release();
+          this.scheduler.notifyChange();
+        }
       }
     }
 
     // Stop was signaled
     if (this.shouldStop) {
       this.state = OrchestratorState.IDLE;
+      this.activeTaskId = null;
       await this._updateRunStatus("paused");
       this._emitStatusChange();
     }
@@ -236,13 +543,15 @@ class EventOrchestrator {
    * @returns {object | null} The next task to execute, or null if none available
    */
   _selectNextTask() {
-    const candidates = this.tasks.filter((task) => {
+    const candidates = this._laneTasks().filter((task) => {
       // Must be assigned to AI
       if (task.assignedTo !== "ai-agent") return false;
       // Must not be done
       if (task.status === "done") return false;
       // Must not be blocked (waiting for user input)
       if (task.status === "blocked") return false;
+      // Must not be backing off after a failed AI call
+      if ((this.taskFailures.get(task.id)?.retryAt || 0) > Date.now()) return false;
       // Dependencies must all be done
       if (task.dependencies && task.dependencies.length > 0) {
         const allDepsDone = task.dependencies.every((depId) => {
@@ -266,6 +575,76 @@ class EventOrchestrator {
     return candidates[0];
   }
 
+  /**
+   * _nextRetryAt -> When the first task backing off after a failed AI call may run again.
+   * @returns {number | null} Epoch ms, or null when no runnable task is backing off
+   */
+  _nextRetryAt() {
+    let next = null;
+    for (const task of this._laneTasks()) {
+      const failure = this.taskFailures.get(task.id);
+      if (!failure || task.status === "done" || task.status === "blocked") continue;
+      if (next == null || failure.retryAt < next) next = failure.retryAt;
+    }
+    return next;
+  }
+
+  /**
+   * _waitForRetry -> Sleep through a retry backoff; stop() ends the wait early.
+   * @param {number} ms
+   */
+  _waitForRetry(ms) {
+    if (this.shouldStop) return Promise.resolve();
+    return new Promise((resolve) => {
+      const timer = setTimeout(() => this.wakeRetryWait(), Math.max(0, ms));
+      this.wakeRetryWait = () => {
+        clearTimeout(timer);
+        this.wakeRetryWait = null;
+        resolve();
+      };
+    });
+  }
+
+  /**
+   * _laneTasks -> Tasks this orchestrator is responsible for (its agent lane, or all).
+   * @returns {object[]}
+   */
+  _laneTasks() {
+    if (!this.agentId) return this.tasks;
+    return this.tasks.filter((t) => (t.agentId || "general") === this.agentId);
+  }
+
+  /**
+   * _hasCrossLaneWait -> Whether a remaining AI task is only waiting on a dependency
+   * that another lane still has to finish.
+   * @param {object[]} remaining - Unfinished tasks in this lane
+   * @returns {boolean}
+   */
+  _hasCrossLaneWait(remaining) {
+    if (!this.scheduler || !this.agentId) return false;
+    return remaining.some((task) => {
+      if (task.assignedTo !== "ai-agent" || task.status === "blocked") return false;
+      return (task.dependencies || []).some((depId) => {
+        const dep = this.tasks.find((t) => t.id === depId);
+        return dep && dep.status !== "done" && (dep.agentId || "general") !== this.agentId;
+      });
+    });
+  }
+
+  /**
+   * _refreshTaskStatuses -> Pick up tasks completed outside the orchestrator
+   * (e.g. the user ticking off a dependency in the task list).
+   */
+  async _refreshTaskStatuses() {
+    const { data, error } = await this.repos.tasks.list({ eventId: this.eventId });
+    if (error || !data) return;
+
+    for (const row of data) {
+      const task = this.tasks.find((t) => t.id === row.id);
+      if (task && row.status === "done" && task.status !== "done") task.status = "done";
+    }
+  }
+
   /**
    * _taskScore -> Calculate a priority score for task ordering.
    * @param {object} task
@@ -295,10 +674,7 @@ class EventOrchestrator {
   async _executeTask(task) {
     // Set task to in-progress
     task.status = "in-progress";
-    await this.supabase
-      .from("tasks")
-      .update({ status: "in-progress" })
-      .eq("id", task.id);
+    await this.repos.tasks.update(task.id, { status: "in-progress" });
 
     this.onTaskUpdate({
       eventId: this.eventId,
@@ -308,19 +684,26 @@ class EventOrchestrator {
       progressText: "Starting task...",
     });
 
-    // Build system prompt with full event context
-    const systemPrompt = buildSystemPrompt(this.event, task, this.tasks);
-    const tools = getAllTools();
+    // Build system prompt with full event context and relevant history from past events
+    const history = historyNotes({
+      text: `${task.title} ${task.description || ""}`,
+      agentId: task.agentId,
+      excludeEventId: this.eventId,
+    });
+    const systemPrompt = buildSystemPrompt(this.event, task, this.tasks, history);
+    const tools = [...getAllTools(), ...getAgentTools(task.agentId)];
 
     // Get or initialize message history
-    let messages = this.taskMessageHistories.get(task.id) || [];
+    if (!this.taskMessageHistories.has(task.id)) {
+      this.taskMessageHistories.set(task.id, []);
+    }
+    const messages = this.taskMessageHistories.get(task.id);
     if (messages.length === 0) {
       // Initial user message to kick off the task
-      messages.push({
+      await this._pushHistory(task.id, {
         role: "user",
         content: `Please work on this task: "${task.title}". ${task.description || ""}`,
       });
-      this.taskMessageHistories.set(task.id, messages);
     }
 
     // Claude conversation loop (tool use rounds)
@@ -328,9 +711,22 @@ class EventOrchestrator {
     for (let round = 0; round < MAX_ROUNDS; round++) {
       if (this.shouldStop) return true;
 
+      if (this.checkBudget) {
+        const budget = await this.checkBudget();
+        if (budget.exceeded) {
+          await this._pauseForBudget(task, budget.message);
+          return true;
+        }
+      }
+
       let response;
       try {
-        response = await callClaude(systemPrompt, messages, tools);
+        response = await callClaude(systemPrompt, messages, tools, {
+          purpose: "execution",
+          eventId: this.eventId,
+          runId: this.runId,
+          taskId: task.id,
+        });
       } catch (err) {
         console.error(`Claude API error for task ${task.id}:`, err);
         await this._persistMessage(task.id, "system", `Error: ${err.message}`);
@@ -341,12 +737,12 @@ class EventOrchestrator {
           content: `Error communicating with AI: ${err.message}`,
           createdAt: new Date().toISOString(),
         });
-        return true; // Don't block, just skip
+        return this._handleCallFailure(task, err);
       }
+      this.taskFailures.delete(task.id);
 
       // Add assistant response to history
-      messages.push({ role: "assistant", content: response.content });
-      this.taskMessageHistories.set(task.id, messages);
+      await this._pushHistory(task.id, { role: "assistant", content: response.content });
 
       // Extract text content for display
       const textContent = extractTextContent(response);
@@ -367,9 +763,13 @@ class EventOrchestrator {
       if (toolUses.length === 0) {
         // No tool calls — Claude has finished reasoning for this round
         if (response.stop_reason === "end_turn") {
-          // Task step complete but not formally marked done
-          // This is fine, the task stays in-progress
-          return true;
+          // The agent answered without marking the task done; ask the user how to go on
+          // rather than running the same task again straight away
+          await this._blockForUser(
+            task,
+            textContent || "The agent stopped without finishing this task. How should it continue?"
+          );
+          return false;
         }
         continue;
       }
@@ -379,7 +779,11 @@ class EventOrchestrator {
       for (const toolUse of toolUses) {
         // Handle built-in tools
         if (toolUse.name === "request_user_input") {
-          const blocked = await this._handleRequestUserInput(task, toolUse);
+          // Keep results of tools that already ran in this turn
+          if (toolResults.length > 0) {
+            await this._pushHistory(task.id, { role: "user", content: toolResults });
+          }
+          await this._handleRequestUserInput(task, toolUse);
           return false; // Task is now blocked
         }
 
@@ -408,6 +812,25 @@ class EventOrchestrator {
           continue;
         }
 
+        if (findAgentToolSet(task.agentId, toolUse.name)) {
+          const agentToolResult = await this._handleAgentTool(task, toolUse);
+          toolResults.push({
+            type: "tool_result",
+            tool_use_id: toolUse.id,
+            content: agentToolResult,
+          });
+          continue;
+        }
+
+        // Side-effecting connector tools wait for the user's approval
+        if (requiresApproval(toolUse.name)) {
+          if (toolResults.length > 0) {
+            await this._pushHistory(task.id, { role: "user", content: toolResults });
+          }
+          await this._queueApproval(task, toolUse);
+          return false; // Task is blocked until the call is approved or rejected
+        }
+
         // Execute connector tool
         await this._persistMessage(
           task.id,
@@ -459,13 +882,48 @@ class EventOrchestrator {
 
       // Add tool results to message history
       if (toolResults.length > 0) {
-        messages.push({ role: "user", content: toolResults });
-        this.taskMessageHistories.set(task.id, messages);
+        await this._pushHistory(task.id, { role: "user", content: toolResults });
       }
     }
 
     // Max rounds exceeded
     console.warn(`Task ${task.id} hit max rounds (${MAX_ROUNDS}).`);
+    await this._blockForUser(
+      task,
+      `The agent used ${MAX_ROUNDS} rounds without finishing this task. Reply to let it continue, or finish the task yourself.`
+    );
+    return false;
+  }
+
+  /**
+   * _handleCallFailure -> Count a failed AI call for a task. The task backs off before it is
+   * retried; after MAX_TASK_FAILURES failures in a row, or an error that retrying will not fix
+   * (e.g. a bad API key), it is blocked until the user replies.
+   * @param {object} task
+   * @param {Error & { status?: number | null }} err
+   * @returns {Promise<boolean>} false when the task was blocked
+   */
+  async _handleCallFailure(task, err) {
+    const count = (this.taskFailures.get(task.id)?.count || 0) + 1;
+    if (count >= MAX_TASK_FAILURES || !isRetryable(err)) {
+      this.taskFailures.delete(task.id);
+      await this._blockForUser(
+        task,
+        `The AI call for this task failed${count > 1 ? ` ${count} times` : ""}: ${err.message}. Reply to try again.`,
+        "AI call failed"
+      );
+      return false;
+    }
+
+    const delay = RETRY_BACKOFF_MS * 2 ** (count - 1);
+    this.taskFailures.set(task.id, { count, retryAt: Date.now() + delay });
+    this.onTaskUpdate({
+      eventId: this.eventId,
+      taskId: task.id,
+      status: "in-progress",
+      progressPct: task.aiProgressPct || 0,
+      progressText: `AI call failed; retrying in ${Math.round(delay / 1000)}s...`,
+    });
     return true;
   }
 
@@ -478,29 +936,24 @@ class EventOrchestrator {
     task.status = "blocked";
     const progressText = `Needs input: ${question}`;
     if (task.aiProgressText !== progressText) task.aiProgressText = progressText;
-    await this.supabase
-      .from("tasks")
-      .update({ status: "blocked", ai_progress_text: progressText })
-      .eq("id", task.id);
+    await this.repos.tasks.update(task.id, { status: "blocked", ai_progress_text: progressText });
 
     // Create notification
-    const { data: notification } = await this.supabase
-      .from("orchestrator_notifications")
-      .insert({
-        event_id: this.eventId,
-        task_id: task.id,
-        run_id: this.runId,
-        type: "input_needed",
-        title: `Input needed: ${task.title}`,
-        message: question,
-        suggestions: suggestions || null,
-      })
-      .select("id")
-      .single();
+    const { data: notification } = await this.repos.orchestrator.createNotification({
+      event_id: this.eventId,
+      task_id: task.id,
+      run_id: this.runId,
+      type: "input_needed",
+      title: `Input needed: ${task.title}`,
+      message: question,
+      suggestions: suggestions || null,
+      tool_use_id: toolUse.id,
+    });
 
     const notificationId = notification?.id;
     if (notificationId) {
       this.pendingResponses.set(notificationId, task.id);
+      this.pendingToolUseIds.set(notificationId, toolUse.id);
     }
 
     // Persist the question as a message
@@ -537,6 +990,170 @@ class EventOrchestrator {
     return true;
   }
 
+  /**
+   * _blockForUser -> Block a task on an input_needed notification that is not tied to a
+   * tool call; the user's reply unblocks it (see handleUserResponse).
+   * @param {object} task
+   * @param {string} message - What the user is asked
+   * @param {string} [title] - Notification title prefix (default "Input needed")
+   * @param {string} [toolUseId] - Paused tool call the user's reply answers
+   */
+  async _blockForUser(task, message, title = "Input needed", toolUseId) {
+    task.status = "blocked";
+    const progressText = `Needs input: ${message}`;
+    task.aiProgressText = progressText;
+    await this.repos.tasks.update(task.id, { status: "blocked", ai_progress_text: progressText });
+
+    const { data: notification } = await this.repos.orchestrator.createNotification({
+      event_id: this.eventId,
+      task_id: task.id,
+      run_id: this.runId,
+      type: "input_needed",
+      title: `${title}: ${task.title}`,
+      message,
+      tool_use_id: toolUseId || null,
+    });
+    if (notification?.id) {
+      this.pendingResponses.set(notification.id, task.id);
+      if (toolUseId) this.pendingToolUseIds.set(notification.id, toolUseId);
+    }
+
+    this.onTaskUpdate({
+      eventId: this.eventId,
+      taskId: task.id,
+      status: "blocked",
+      progressPct: task.aiProgressPct || 0,
+      progressText: "Waiting for your input...",
+    });
+
+    this.onNotification({
+      id: notification?.id,
+      eventId: this.eventId,
+      taskId: task.id,
+      type: "input_needed",
+      title: `${title}: ${task.title}`,
+      message,
+      suggestions: [],
+      isRead: false,
+      isResolved: false,
+      createdAt: new Date().toISOString(),
+    });
+  }
+
+  /**
+   * _pauseForBudget -> Stop the run because an AI budget was reached and tell the user
+   * with an `error` notification. The run can be resumed once the budget is raised.
+   * @param {object} task - Task that was about to call Claude
+   * @param {string} message - Which budget was reached and how to continue
+   */
+  async _pauseForBudget(task, message) {
+    this.shouldStop = true;
+
+    const title = "AI budget reached";
+    const { data: notification } = await this.repos.orchestrator.createNotification({
+      event_id: this.eventId,
+      task_id: task.id,
+      run_id: this.runId,
+      type: "error",
+      title,
+      message,
+    });
+
+    await this._persistMessage(task.id, "system", `Paused: ${message}`);
+    this.onChatMessage({
+      taskId: task.id,
+      eventId: this.eventId,
+      role: "system",
+      content: `Paused: ${message}`,
+      createdAt: new Date().toISOString(),
+    });
+
+    this.onNotification({
+      id: notification?.id,
+      eventId: this.eventId,
+      taskId: task.id,
+      type: "error",
+      title,
+      message,
+      suggestions: [],
+      isRead: false,
+      isResolved: false,
+      createdAt: new Date().toISOString(),
+    });
+  }
+
+  /**
+   * _queueApproval -> Put a side-effecting tool call in the approval queue and block the task.
+   * If the approval cannot be saved the call is not run; the task asks the user instead.
+   * @param {object} task
+   * @param {object} toolUse - Claude tool_use block
+   */
+  async _queueApproval(task, toolUse) {
+    const connector = findToolConnector(toolUse.name);
+
+    const { data: row, error } = await this.repos.orchestrator.createApproval({
+      event_id: this.eventId,
+      run_id: this.runId,
+      task_id: task.id,
+      tool_use_id: toolUse.id,
+      connector_id: connector?.id || "unknown",
+      tool_name: toolUse.name,
+      tool_input: toolUse.input,
+    });
+
+    if (error || !row) {
+      console.error("Failed to queue tool approval:", error);
+      await this._blockForUser(
+        task,
+        `${toolUse.name} needs your approval, but the approval request could not be saved` +
+          `${error?.message ? ` (${error.message})` : ""}. It was not run. Reply to tell the agent how to continue.`,
+        "Approval failed",
+        toolUse.id
+      );
+      return;
+    }
+
+    task.status = "blocked";
+    const progressText = `Waiting for approval: ${toolUse.name}`;
+    task.aiProgressText = progressText;
+    await this.repos.tasks.update(task.id, { status: "blocked", ai_progress_text: progressText });
+
+    this.pendingApprovals.set(row.id, {
+      taskId: task.id,
+      toolUseId: toolUse.id,
+      toolName: toolUse.name,
+      toolInput: toolUse.input,
+    });
+
+    await this._persistMessage(
+      task.id,
+      "assistant",
+      `**Approval needed**: ${toolUse.name}`,
+      toolUse.name,
+      toolUse.input
+    );
+
+    this.onTaskUpdate({
+      eventId: this.eventId,
+      taskId: task.id,
+      status: "blocked",
+      progressPct: task.aiProgressPct || 0,
+      progressText,
+    });
+
+    this.onChatMessage({
+      taskId: task.id,
+      eventId: this.eventId,
+      role: "assistant",
+      content: `Waiting for your approval to run ${toolUse.name}.`,
+      toolName: toolUse.name,
+      toolInput: toolUse.input,
+      createdAt: new Date().toISOString(),
+    });
+
+    this.onApprovalRequest(row);
+  }
+
   async _handleMarkTaskComplete(task, toolUse) {
     const { summary } = toolUse.input;
 
@@ -545,16 +1162,13 @@ class EventOrchestrator {
     task.aiSummary = summary;
     task.aiProgressPct = 100;
 
-    await this.supabase
-      .from("tasks")
-      .update({
-        status: "done",
-        completed_at: task.completedAt,
-        ai_summary: summary,
-        ai_progress_pct: 100,
-        ai_progress_text: "Completed",
-      })
-      .eq("id", task.id);
+    await this.repos.tasks.update(task.id, {
+      status: "done",
+      completed_at: task.completedAt,
+      ai_summary: summary,
+      ai_progress_pct: 100,
+      ai_progress_text: "Completed",
+    });
 
     await this._persistMessage(task.id, "assistant", `**Task completed**: ${summary}`);
 
@@ -618,6 +1232,39 @@ class EventOrchestrator {
     }
   }
 
+  /**
+   * _handleAgentTool -> Run one of the task agent's own tools (agentTools.cjs: guest list,
+   * budget ledger, vendor directory, run of show) for this event and record the call like a
+   * connector tool call.
+   * @param {object} task
+   * @param {object} toolUse - Claude tool_use block
+   * @returns {Promise<string>} Tool result JSON for Claude
+   */
+  async _handleAgentTool(task, toolUse) {
+    let outcome;
+    try {
+      outcome = await executeAgentTool(this.repos, this.eventId, task.agentId, toolUse.name, toolUse.input);
+    } catch (err) {
+      outcome = { result: { error: err.message }, summary: `Error: ${err.message}`, changed: false };
+    }
+
+    await this._persistMessage(task.id, "tool_result", null, toolUse.name, toolUse.input, outcome.result);
+    this.onChatMessage({
+      taskId: task.id,
+      eventId: this.eventId,
+      role: "tool_result",
+      content: outcome.summary,
+      toolName: toolUse.name,
+      toolResult: outcome.result,
+      createdAt: new Date().toISOString(),
+    });
+    if (outcome.changed && this.onAgentToolChange) {
+      this.onAgentToolChange(outcome.changedChannel, this.event?.evtId || this.eventId);
+    }
+
+    return JSON.stringify(outcome.result);
+  }
+
   async _handleUpdateProgress(task, toolUse) {
     const { progress, percentage } = toolUse.input;
 
@@ -626,13 +1273,10 @@ class EventOrchestrator {
       task.aiProgressPct = Math.min(100, Math.max(0, percentage));
     }
 
-    await this.supabase
-      .from("tasks")
-      .update({
-        ai_progress_text: progress,
-        ai_progress_pct: task.aiProgressPct || 0,
-      })
-      .eq("id", task.id);
+    await this.repos.tasks.update(task.id, {
+      ai_progress_text: progress,
+      ai_progress_pct: task.aiProgressPct || 0,
+    });
 
     this.onTaskUpdate({
       eventId: this.eventId,
@@ -648,7 +1292,7 @@ class EventOrchestrator {
   async _persistMessage(taskId, role, content, toolName, toolInput, toolResult) {
     if (!this.runId) return;
 
-    await this.supabase.from("orchestrator_messages").insert({
+    await this.repos.orchestrator.addMessage({
       run_id: this.runId,
       task_id: taskId,
       role,
@@ -659,6 +1303,30 @@ class EventOrchestrator {
     });
   }
 
+  /**
+   * _pushHistory -> Append a Claude-format message to a task's history and persist it
+   * (claude_content + history_seq) so the history can be rebuilt on warm restart.
+   * @param {string} taskId
+   * @param {{ role: "user" | "assistant", content: string | object[] }} message
+   */
+  async _pushHistory(taskId, message) {
+    const history = this.taskMessageHistories.get(taskId) || [];
+    history.push(message);
+    this.taskMessageHistories.set(taskId, history);
+
+    if (!this.runId) return;
+
+    const { error } = await this.repos.orchestrator.addMessage({
+      run_id: this.runId,
+      task_id: taskId,
+      role: message.role,
+      content: null,
+      claude_content: message.content,
+      history_seq: history.length - 1,
+    });
+    if (error) console.warn("Failed to persist task history turn:", error.message);
+  }
+
   async _updateRunStatus(status) {
     if (!this.runId) return;
 
@@ -667,25 +1335,40 @@ class EventOrchestrator {
       updates.completed_at = new Date().toISOString();
     }
 
-    await this.supabase
-      .from("orchestrator_runs")
-      .update(updates)
-      .eq("id", this.runId);
+    await this.repos.orchestrator.updateRun(this.runId, updates);
   }
 
   _emitStatusChange() {
-    const completed = this.tasks.filter((t) => t.status === "done").length;
-    const blocked = this.tasks.filter((t) => t.status === "blocked").length;
+    this.onStatusChange(this.getStatus());
+  }
 
-    this.onStatusChange({
-      eventId: this.eventId,
-      runId: this.runId,
-      runStatus: this.state,
-      activeTaskId: this.activeTaskId,
-      completedCount: completed,
-      totalCount: this.tasks.length,
-      blockedCount: blocked,
-    });
+  /**
+   * _unansweredToolUseIds -> tool_use ids in the last assistant turn that have no
+   * tool_result in the user turns after it.
+   * @param {object[]} messages - Claude message history
+   * @returns {string[]}
+   */
+  _unansweredToolUseIds(messages) {
+    let lastAssistantIdx = -1;
+    for (let i = messages.length - 1; i >= 0; i--) {
+      if (messages[i].role === "assistant") {
+        lastAssistantIdx = i;
+        break;
+      }
+    }
+    if (lastAssistantIdx < 0 || !Array.isArray(messages[lastAssistantIdx].content)) return [];
+
+    const answered = new Set();
+    for (const msg of messages.slice(lastAssistantIdx + 1)) {
+      if (!Array.isArray(msg.content)) continue;
+      for (const block of msg.content) {
+        if (block.type === "tool_result") answered.add(block.tool_use_id);
+      }
+    }
+
+    return messages[lastAssistantIdx].content
+      .filter((block) => block.type === "tool_use" && !answered.has(block.id))
+      .map((block) => block.id);
   }
 
   _findRequestUserInputToolId(messages) {
@@ -704,16 +1387,18 @@ class EventOrchestrator {
   // ── Status Query ────────────────────────────────────────────────────────
 
   getStatus() {
-    const completed = this.tasks.filter((t) => t.status === "done").length;
-    const blocked = this.tasks.filter((t) => t.status === "blocked").length;
+    const laneTasks = this._laneTasks();
+    const completed = laneTasks.filter((t) => t.status === "done").length;
+    const blocked = laneTasks.filter((t) => t.status === "blocked").length;
 
     return {
       eventId: this.eventId,
+      agentId: this.agentId || undefined,
       runId: this.runId,
       runStatus: this.state,
       activeTaskId: this.activeTaskId,
       completedCount: completed,
-      totalCount: this.tasks.length,
+      totalCount: laneTasks.length,
       blockedCount: blocked,
     };
   }
@@ -722,13 +1407,26 @@ class EventOrchestrator {
 /**
  * planEventTasks -> One-shot Claude call to break down an event into tasks.
  * @param {object} formData - The EventFormData
+ * @param {object} [usageContext] - { eventId } so the planning call is billed to the event
  * @returns {Promise<object[]>} Array of task objects with title, description, priority, agentId, dependencies
  */
-async function planEventTasks(formData) {
-  const systemPrompt = buildPlanningPrompt(formData);
+async function planEventTasks(formData, usageContext) {
+  // A few notes per agent group so every part of the plan can learn from past events
+  const historyText = [formData.eventReason, formData.venuePref, formData.foodDrinks, formData.notes, formData.goals?.other]
+    .filter(Boolean)
+    .join(" ");
+  const history = [
+    ...new Set(
+      AGENT_LANES.flatMap((agentId) =>
+        historyNotes({ text: historyText, agentId, excludeEventId: usageContext?.eventId, limit: 3 })
+      )
+    ),
+  ];
+  const systemPrompt = buildPlanningPrompt(formData, history);
   const responseText = await callClaudePlanning(
     systemPrompt,
-    "Generate the task breakdown for this event. Respond with only a JSON array."
+    "Generate the task breakdown for this event. Respond with only a JSON array.",
+    usageContext
   );
 
   try {
@@ -744,9 +1442,8 @@ async function planEventTasks(formData) {
       return [];
     }
 
-    const VALID_AGENT_IDS = ["guests", "venue-catering", "entertainment-logistics", "general"];
     const normalizeAgentId = (id) =>
-      id && VALID_AGENT_IDS.includes(String(id).toLowerCase()) ? String(id).toLowerCase() : "general";
+      id && AGENT_LANES.includes(String(id).toLowerCase()) ? String(id).toLowerCase() : "general";
 
     const eventDate = formData.eventDate ? new Date(formData.eventDate) : null;
     const isValidDueDate = (s) => {
@@ -759,34 +1456,181 @@ async function planEventTasks(formData) {
       return true;
     };
 
-    return tasks
-      .filter(
-        (t) =>
-          t &&
-          typeof t === "object" &&
-          typeof t.title === "string"
-      )
-      .map((t, idx) => {
-        let dueDate = t.dueDate != null ? String(t.dueDate).trim().slice(0, 10) : null;
-        if (dueDate && !isValidDueDate(dueDate)) dueDate = null;
-        return {
-          title: t.title,
-          description: t.description || "",
-          priority: typeof t.priority === "number" ? t.priority : 1,
-          agentId: normalizeAgentId(t.agentId) || "general",
-          dependencies: Array.isArray(t.dependencies)
-            ? t.dependencies.filter((d) => typeof d === "number" && d < idx)
-            : [],
-          dueDate: dueDate || undefined,
-        };
-      });
+    // Dependencies are indices into Claude's list; remap them after dropping malformed entries
+    const valid = tasks
+      .map((t, originalIdx) => ({ t, originalIdx }))
+      .filter(({ t }) => t && typeof t === "object" && typeof t.title === "string");
+    const indexMap = new Map(valid.map(({ originalIdx }, idx) => [originalIdx, idx]));
+
+    const planned = valid.map(({ t }, idx) => {
+      let dueDate = t.dueDate != null ? String(t.dueDate).trim().slice(0, 10) : null;
+      if (dueDate && !isValidDueDate(dueDate)) dueDate = null;
+      const dependencies = Array.isArray(t.dependencies)
+        ? t.dependencies
+            .filter((d) => Number.isInteger(d) && indexMap.has(d))
+            .map((d) => indexMap.get(d))
+            .filter((d) => d !== idx)
+        : [];
+      return {
+        title: t.title,
+        description: t.description || "",
+        priority: typeof t.priority === "number" ? t.priority : 1,
+        agentId: normalizeAgentId(t.agentId) || "general",
+        dependencies: [...new Set(dependencies)],
+        dueDate: dueDate || undefined,
+      };
+    });
+
+    return rejectDependencyCycles(planned);
   } catch (err) {
     console.error("planEventTasks: Failed to parse response:", err, responseText);
     return [];
   }
 }
 
+/**
+ * replanEventTasks -> One-shot Claude call proposing task changes after event details changed.
+ * Proposals that touch done or user-edited tasks, reference unknown tasks, or change
+ * nothing are dropped, so every returned change is safe to apply.
+ * @param {object} formData - The updated EventFormData
+ * @param {object[]} detailChanges - [{ field, label, from, to }] from the renderer's diff
+ * @param {object[]} tasks - Current tasks (renderer Task shape)
+ * @param {object} [usageContext] - { eventId } so the call is billed to the event
+ * @returns {Promise<object[]>} ReplanChange[] (see src/types.ts)
+ */
+async function replanEventTasks(formData, detailChanges, tasks, usageContext) {
+  const isLocked = (t) => t.status === "done" || !!t.bodyUserEdited;
+  const systemPrompt = buildReplanPrompt(
+    formData,
+    detailChanges,
+    tasks.map((t) => ({
+      id: t.id,
+      title: t.title,
+      description: t.description,
+      status: t.status,
+      priority: t.priority,
+      dueDate: t.dueDate,
+      agentId: t.agentId,
+      locked: isLocked(t),
+    }))
+  );
+  const responseText = await callClaudePlanning(
+    systemPrompt,
+    "Propose the task changes for these event detail changes. Respond with only a JSON array.",
+    usageContext
+  );
+
+  let proposals;
+  try {
+    const cleaned = responseText
+      .replace(/```json\s*/g, "")
+      .replace(/```\s*/g, "")
+      .trim();
+    proposals = JSON.parse(cleaned);
+  } catch (err) {
+    console.error("replanEventTasks: Failed to parse response:", err, responseText);
+    return [];
+  }
+  if (!Array.isArray(proposals)) {
+    console.warn("replanEventTasks: Response is not an array:", responseText);
+    return [];
+  }
+
+  const byId = new Map(tasks.map((t) => [t.id, t]));
+  const eventDate = formData.eventDate ? formData.eventDate.slice(0, 10) : null;
+  const normalizeDate = (s) => {
+    if (typeof s !== "string") return null;
+    const ymd = s.trim().slice(0, 10);
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(ymd) || Number.isNaN(new Date(ymd).getTime())) return null;
+    return eventDate && ymd >= eventDate ? null : ymd;
+  };
+  const normalizePriority = (p) => (Number.isInteger(p) && p >= 0 && p <= 2 ? p : null);
+
+  const changes = [];
+  for (const p of proposals) {
+    if (!p || typeof p !== "object" || typeof p.rationale !== "string" || !p.rationale.trim()) continue;
+    const rationale = p.rationale.trim();
+
+    if (p.kind === "add") {
+      if (typeof p.title !== "string" || !p.title.trim()) continue;
+      const agentId = AGENT_LANES.includes(String(p.agentId).toLowerCase()) ? String(p.agentId).toLowerCase() : "general";
+      changes.push({
+        kind: "add",
+        title: p.title.trim(),
+        description: typeof p.description === "string" ? p.description : "",
+        agentId,
+        dueDate: normalizeDate(p.dueDate) || undefined,
+        priority: normalizePriority(p.priority) ?? 1,
+        rationale,
+      });
+      continue;
+    }
+
+    const task = byId.get(p.taskId);
+    if (!task || isLocked(task)) continue;
+    if (p.kind === "remove") {
+      changes.push({ kind: "remove", taskId: task.id, title: task.title, rationale });
+    } else if (p.kind === "redate") {
+      const dueDate = normalizeDate(p.dueDate);
+      if (!dueDate || dueDate === task.dueDate) continue;
+      changes.push({ kind: "redate", taskId: task.id, title: task.title, dueDate, rationale });
+    } else if (p.kind === "reprioritize") {
+      const priority = normalizePriority(p.priority);
+      if (priority === null || priority === task.priority) continue;
+      changes.push({ kind: "reprioritize", taskId: task.id, title: task.title, priority, rationale });
+    }
+  }
+
+  // One proposal per existing task; the first one wins
+  const seenTaskIds = new Set();
+  return changes
+    .filter((c) => {
+      if (!c.taskId) return true;
+      if (seenTaskIds.has(c.taskId)) return false;
+      seenTaskIds.add(c.taskId);
+      return true;
+    })
+    .map((c, idx) => ({ id: `replan-${Date.now()}-${idx}`, ...c }));
+}
+
+/**
+ * rejectDependencyCycles -> Drop planned dependency edges that would close a cycle.
+ * Edges are kept in order; an edge i -> d is rejected when d already (transitively)
+ * depends on i, since the orchestrator could never start either task.
+ * @param {object[]} planned - Planned tasks with index-based dependencies
+ * @returns {object[]}
+ */
+function rejectDependencyCycles(planned) {
+  const accepted = planned.map(() => []);
+
+  const reaches = (from, target) => {
+    const stack = [from];
+    const seen = new Set();
+    while (stack.length > 0) {
+      const idx = stack.pop();
+      if (idx === target) return true;
+      if (seen.has(idx)) continue;
+      seen.add(idx);
+      stack.push(...accepted[idx]);
+    }
+    return false;
+  };
+
+  planned.forEach((task, idx) => {
+    for (const dep of task.dependencies) {
+      if (reaches(dep, idx)) {
+        console.warn(`[Eventropy] planEventTasks: rejected cyclic dependency ${idx} -> ${dep}`);
+        continue;
+      }
+      accepted[idx].push(dep);
+    }
+  });
+
+  return planned.map((task, idx) => ({ ...task, dependencies: accepted[idx] }));
+}
+
 module.exports = {
   EventOrchestrator,
   planEventTasks,
+  replanEventTasks,
 };
@@ -0,0 +1,80 @@
+/**
+ * agentTools.cjs -> The tools only some agents get (guest list, budget ledger, vendor
+ * directory, run of show): which agent gets which, and the module that runs each. Shared by
+ * the orchestrator lanes and the category chat, so both offer and dispatch the same tools.
+ */
+
+const { GUEST_TOOLS, BUDGET_TOOLS, VENDOR_TOOLS, RUN_OF_SHOW_TOOLS } = require("./types.cjs");
+const { isGuestTool, executeGuestTool } = require("./guests.cjs");
+const { isBudgetTool, executeBudgetTool } = require("./budget.cjs");
+const { isVendorTool, executeVendorTool } = require("./vendors.cjs");
+const { isRunOfShowTool, executeRunOfShowTool } = require("./runOfShow.cjs");
+
+/**
+ * AGENT_TOOL_SETS -> Each tool set with its handler module and the renderer channel to send
+ * when a call changed data (the view showing it reloads).
+ */
+const AGENT_TOOL_SETS = {
+  guests: { tools: GUEST_TOOLS, handles: isGuestTool, execute: executeGuestTool, changedChannel: "guests:changed" },
+  budget: { tools: BUDGET_TOOLS, handles: isBudgetTool, execute: executeBudgetTool, changedChannel: "budget:changed" },
+  vendors: { tools: VENDOR_TOOLS, handles: isVendorTool, execute: executeVendorTool, changedChannel: "vendors:changed" },
+  runOfShow: {
+    tools: RUN_OF_SHOW_TOOLS,
+    handles: isRunOfShowTool,
+    execute: executeRunOfShowTool,
+    changedChannel: "run-of-show:changed",
+  },
+};
+
+/**
+ * AGENT_TOOLS -> Agent id -> its tool sets. The guest list is the Guests agent's own, the
+ * budget ledger the General agent's, and the vendor directory belongs to the two lanes that
+ * book vendors; the run of show is Entertainment & Logistics' (it plans the program and
+ * schedule).
+ */
+const AGENT_TOOLS = {
+  guests: ["guests"],
+  general: ["budget"],
+  "venue-catering": ["vendors"],
+  "entertainment-logistics": ["vendors", "runOfShow"],
+};
+
+/**
+ * getAgentTools -> Tool schemas an agent gets on top of the shared ones.
+ * @param {string | null} agentId
+ * @returns {object[]}
+ */
+function getAgentTools(agentId) {
+  return (AGENT_TOOLS[agentId] || []).flatMap((set) => AGENT_TOOL_SETS[set].tools);
+}
+
+/**
+ * findAgentToolSet -> The agent's tool set that handles a tool, or null when the tool is not
+ * one of the agent's.
+ * @param {string | null} agentId
+ * @param {string} name - Tool name
+ * @returns {typeof AGENT_TOOL_SETS[keyof typeof AGENT_TOOL_SETS] | null}
+ */
+function findAgentToolSet(agentId, name) {
+  const set = (AGENT_TOOLS[agentId] || []).find((id) => AGENT_TOOL_SETS[id].handles(name));
+  return set ? AGENT_TOOL_SETS[set] : null;
+}
+
+/**
+ * executeAgentTool -> Run one of the agent's tools for an event.
+ * @param {import("../repos/index.cjs").Repos} repos
+ * @param {string | null} eventUuid - events.id
+ * @param {string | null} agentId
+ * @param {string} name - Tool name
+ * @param {object} input - Tool input
+ * @returns {Promise<{ result: object, summary: string, changed: boolean, changedChannel: string } | null>}
+ *   null when the tool is not one of the agent's
+ */
+async function executeAgentTool(repos, eventUuid, agentId, name, input) {
+  const set = findAgentToolSet(agentId, name);
+  if (!set) return null;
+  const outcome = await set.execute(repos, eventUuid, name, input);
+  return { ...outcome, changedChannel: set.changedChannel };
+}
+
+module.exports = { getAgentTools, findAgentToolSet, executeAgentTool };
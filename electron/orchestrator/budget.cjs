@@ -0,0 +1,231 @@
+/**
+ * budget.cjs -> The General agent's budget ledger tools (BUDGET_TOOLS in types.cjs) over the
+ * budget_items table (migration 018). Shared by the category chat and the orchestrator
+ * lane. Quotes are recorded as estimates marked source "agent"; when projected spend goes
+ * over the event's budget the event is moved to at-risk, like the ledger in the app.
+ */
+
+const { BUDGET_TOOLS, AGENT_LANES } = require("./types.cjs");
+
+/** BUDGET_TOOL_NAMES -> Names of the tools handled here. */
+const BUDGET_TOOL_NAMES = new Set(BUDGET_TOOLS.map((t) => t.name));
+
+/**
+ * isBudgetTool -> Whether executeBudgetTool handles a tool.
+ * @param {string} name
+ * @returns {boolean}
+ */
+function isBudgetTool(name) {
+  return BUDGET_TOOL_NAMES.has(name);
+}
+
+/**
+ * money -> A dollar amount rounded to cents, never negative; null when not a number.
+ * @param {unknown} value
+ */
+function money(value) {
+  const amount = Number(value);
+  return Number.isFinite(amount) ? Math.max(0, Math.round(amount * 100) / 100) : null;
+}
+
+/** cents -> Round a sum to cents (sums of decimals drift). */
+const cents = (amount) => Math.round(amount * 100) / 100;
+
+/**
+ * projectedCost -> The larger of committed and paid, else the estimate.
+ * Matches projectedCost in src/lib/budget.ts.
+ * @param {object} item - budget_items row
+ */
+function projectedCost(item) {
+  const firm = Math.max(Number(item.committed) || 0, Number(item.paid) || 0);
+  return firm > 0 ? firm : Number(item.estimated) || 0;
+}
+
+/**
+ * totals -> Estimated, committed, paid and projected sums of budget lines.
+ * @param {object[]} items - budget_items rows
+ */
+function totals(items) {
+  const sum = { estimated: 0, committed: 0, paid: 0, projected: 0 };
+  for (const item of items) {
+    sum.estimated += Number(item.estimated) || 0;
+    sum.committed += Number(item.committed) || 0;
+    sum.paid += Number(item.paid) || 0;
+    sum.projected += projectedCost(item);
+  }
+  return Object.fromEntries(Object.entries(sum).map(([key, amount]) => [key, cents(amount)]));
+}
+
+/**
+ * itemSummary -> What the model sees for one budget line.
+ * @param {object} item - budget_items row
+ */
+function itemSummary(item) {
+  return {
+    id: item.id,
+    agentId: item.agent_id,
+    title: item.title,
+    vendorName: item.vendor_name,
+    vendorUrl: item.vendor_url,
+    estimated: Number(item.estimated) || 0,
+    committed: Number(item.committed) || 0,
+    paid: Number(item.paid) || 0,
+    paidAt: item.paid_at,
+    receiptUrl: item.receipt_url,
+    notes: item.notes,
+    source: item.source,
+  };
+}
+
+/**
+ * checkBudget -> Compare projected spend with events.budget and move the event to at-risk
+ * when it is over (complete events and events already at risk are left alone).
+ * @param {import("../repos/index.cjs").Repos} repos
+ * @param {string} eventUuid
+ * @param {object[]} items - budget_items rows after the change
+ * @returns {Promise<{ budget: number | null, remaining: number | null, overBudget: boolean, flaggedAtRisk: boolean }>}
+ */
+async function checkBudget(repos, eventUuid, items) {
+  const { data: event } = await repos.events.get(eventUuid);
+  const budget = Number(event?.budget) > 0 ? Number(event.budget) : null;
+  if (budget == null) return { budget, remaining: null, overBudget: false, flaggedAtRisk: false };
+  const remaining = cents(budget - totals(items).projected);
+  const overBudget = remaining < 0;
+  let flaggedAtRisk = false;
+  if (overBudget && event.status !== "at-risk" && event.status !== "complete") {
+    const { error } = await repos.events.update(eventUuid, { status: "at-risk" });
+    if (error) throw new Error(error.message);
+    flaggedAtRisk = true;
+    console.log("[Eventropy] Event", eventUuid, "is over budget; status set to at-risk");
+  }
+  return { budget, remaining, overBudget, flaggedAtRisk };
+}
+
+/**
+ * executeBudgetTool -> Run one budget ledger tool for an event.
+ * @param {import("../repos/index.cjs").Repos} repos
+ * @param {string | null} eventUuid - events.id
+ * @param {string} name - Tool name (BUDGET_TOOLS)
+ * @param {object} input - Tool input
+ * @returns {Promise<{ result: object, summary: string, changed: boolean }>}
+ *   changed -> The ledger (and maybe the event status) was written; the renderer should reload it
+ */
+async function executeBudgetTool(repos, eventUuid, name, input = {}) {
+  if (!eventUuid) return { result: { error: "No event ID provided" }, summary: "No event ID", changed: false };
+  if (input.agentId && !AGENT_LANES.includes(input.agentId)) {
+    return { result: { error: `Unknown agent category: ${input.agentId}` }, summary: "Invalid agent category", changed: false };
+  }
+
+  const { data: items, error } = await repos.budget.list(eventUuid);
+  if (error) throw new Error(error.message);
+
+  switch (name) {
+    case "list_budget": {
+      const listed = (items || []).filter((i) => !input.agentId || i.agent_id === input.agentId);
+      const byCategory = Object.fromEntries(
+        AGENT_LANES.map((agentId) => [agentId, totals((items || []).filter((i) => i.agent_id === agentId))])
+      );
+      const { data: event } = await repos.events.get(eventUuid);
+      const budget = Number(event?.budget) > 0 ? Number(event.budget) : null;
+      const sum = totals(items || []);
+      return {
+        result: {
+          items: listed.map(itemSummary),
+          totals: sum,
+          byCategory,
+          budget,
+          remaining: budget != null ? cents(budget - sum.projected) : null,
+        },
+        summary: `Listed ${listed.length} budget line(s)${input.agentId ? ` (${input.agentId})` : ""}`,
+        changed: false,
+      };
+    }
+
+    case "record_quote": {
+      const title = String(input.title || "").trim();
+      const amount = money(input.amount);
+      if (!title || amount == null) {
+        return { result: { error: "A quote needs a title and an amount" }, summary: "Missing title or amount", changed: false };
+      }
+      const vendorName = String(input.vendorName || "").trim();
+      const details = {
+        title,
+        estimated: amount,
+        ...(vendorName ? { vendor_name: vendorName } : {}),
+        ...(input.vendorUrl ? { vendor_url: String(input.vendorUrl).trim() } : {}),
+        ...(input.notes ? { notes: String(input.notes).trim() } : {}),
+        ...(input.taskId ? { task_id: input.taskId } : {}),
+        ...(input.agentId ? { agent_id: input.agentId } : {}),
+      };
+
+      const existing = (items || []).find(
+        (i) =>
+          i.title.trim().toLowerCase() === title.toLowerCase() &&
+          (i.vendor_name || "").trim().toLowerCase() === vendorName.toLowerCase()
+      );
+      let stored;
+      if (existing) {
+        const { error: updErr } = await repos.budget.update(existing.id, details);
+        if (updErr) throw new Error(updErr.message);
+        stored = { ...existing, ...details };
+      } else {
+        const { data, error: insErr } = await repos.budget.insert({
+          event_id: eventUuid,
+          agent_id: "general",
+          source: "agent",
+          ...details,
+        });
+        if (insErr) throw new Error(insErr.message);
+        stored = data;
+      }
+      const after = existing ? items.map((i) => (i.id === existing.id ? stored : i)) : [...(items || []), stored];
+      const check = await checkBudget(repos, eventUuid, after);
+      return {
+        result: { success: true, item: itemSummary(stored), updatedExisting: !!existing, ...check },
+        summary:
+          `${existing ? "Updated quote" : "Recorded quote"} "${title}": $${amount}` +
+          (check.flaggedAtRisk ? " (over budget: event at risk)" : ""),
+        changed: true,
+      };
+    }
+
+    case "update_budget_item": {
+      const item = (items || []).find((i) => i.id === input.itemId);
+      if (!item) return { result: { error: "Budget line not found" }, summary: "Budget line not found", changed: false };
+      const patch = {};
+      for (const [field, column] of [
+        ["estimated", "estimated"],
+        ["committed", "committed"],
+        ["paid", "paid"],
+      ]) {
+        if (input[field] !== undefined) {
+          const amount = money(input[field]);
+          if (amount == null) return { result: { error: `Invalid ${field} amount` }, summary: `Invalid ${field}`, changed: false };
+          patch[column] = amount;
+        }
+      }
+      if (input.paidAt !== undefined) patch.paid_at = String(input.paidAt).slice(0, 10) || null;
+      if (input.receiptUrl !== undefined) patch.receipt_url = String(input.receiptUrl).trim() || null;
+      if (input.notes !== undefined) patch.notes = String(input.notes).trim() || null;
+      if (Object.keys(patch).length === 0) {
+        return { result: { error: "Nothing to update" }, summary: "Nothing to update", changed: false };
+      }
+      const { error: updErr } = await repos.budget.update(item.id, patch);
+      if (updErr) throw new Error(updErr.message);
+      const stored = { ...item, ...patch };
+      const check = await checkBudget(repos, eventUuid, items.map((i) => (i.id === item.id ? stored : i)));
+      return {
+        result: { success: true, item: itemSummary(stored), ...check },
+        summary:
+          `Updated budget line "${item.title}" (${Object.keys(patch).join(", ")})` +
+          (check.flaggedAtRisk ? " (over budget: event at risk)" : ""),
+        changed: true,
+      };
+    }
+
+    default:
+      return { result: { error: `Unknown tool: ${name}` }, summary: `Unknown tool: ${name}`, changed: false };
+  }
+}
+
+module.exports = { isBudgetTool, executeBudgetTool };
@@ -1,44 +1,60 @@
 /**
- * claude.cjs -> Anthropic SDK wrapper for the orchestrator.
- * Handles Claude API calls with tool use, streaming, and message history management.
+ * claude.cjs -> Model call wrapper for the orchestrator.
+ * Builds prompts and makes calls with tool use; the provider/model for each purpose
+ * is chosen by modelRouter.cjs. Responses always use the Anthropic message shape.
  */
 
-const Anthropic = require("@anthropic-ai/sdk");
-const { CLAUDE_MODEL, MAX_TOKENS } = require("./types.cjs");
+const { createMessage, streamMessage, hasProviderFor } = require("./modelRouter.cjs");
 
-/** @type {Anthropic | null} */
-let client = null;
+/** @type {((record: object) => void) | null} */
+let usageListener = null;
 
 /**
- * initClaudeClient -> Initialize the Anthropic SDK client.
- * Must be called once at app startup with the API key.
- * @param {string} apiKey - The ANTHROPIC_API_KEY
+ * hasAiProvider -> Check if a model provider is configured for a purpose.
+ * @param {string} [purpose] - planning | execution | category_chat | subtasks
+ * @returns {boolean}
  */
-function initClaudeClient(apiKey) {
-  if (!apiKey || !apiKey.trim()) {
-    console.warn("claude.cjs: No ANTHROPIC_API_KEY provided, orchestrator will not function.");
-    return;
-  }
-  client = new Anthropic({ apiKey: apiKey.trim() });
+function hasAiProvider(purpose = "execution") {
+  return hasProviderFor(purpose);
 }
 
 /**
- * getClient -> Get the initialized Anthropic client.
- * @returns {Anthropic}
+ * setUsageListener -> Register a callback that receives the token usage of every call
+ * (main.cjs persists it to ai_usage). Pass null to unregister.
+ * @param {((record: { purpose: string, model: string, usage: object, eventId?: string, runId?: string, taskId?: string }) => void) | null} listener
  */
-function getClient() {
-  if (!client) {
-    throw new Error("Claude client not initialized. Call initClaudeClient first.");
-  }
-  return client;
+function setUsageListener(listener) {
+  usageListener = listener;
 }
 
 /**
- * hasClaudeKey -> Check if the Claude client is initialized.
- * @returns {boolean}
+ * reportUsage -> Forward a response's usage block plus the caller's context to the listener.
+ * @param {object} response - Claude API response
+ * @param {object} [usageContext] - { purpose, eventId?, runId?, taskId? }
+ */
+function reportUsage(response, usageContext) {
+  if (!usageListener || !response?.usage) return;
+  usageListener({
+    purpose: "execution",
+    ...usageContext,
+    model: response.model || "unknown",
+    usage: response.usage,
+  });
+}
+
+/**
+ * formatHistory -> "From Past Events" prompt section, or "" when there is no history.
+ * @param {string[]} history
+ * @param {string} [advice] - Sentence telling the model what to do with it
+ * @returns {string}
  */
-function hasClaudeKey() {
-  return client !== null;
+function formatHistory(history, advice = "Take it into account, e.g. flag past blockers early.") {
+  if (!history || history.length === 0) return "";
+  return `
+## From Past Events
+What happened at the user's earlier events. ${advice}
+${history.map((note) => `- ${note}`).join("\n")}
+`;
 }
 
 /**
@@ -47,9 +63,10 @@ function hasClaudeKey() {
  * @param {object} event - The PlannerEvent data
  * @param {object} task - The Task being executed
  * @param {object[]} allTasks - All tasks for context
+ * @param {string[]} [history] - Relevant notes from past events (knowledgeGraph.historyNotes)
  * @returns {string}
  */
-function buildSystemPrompt(event, task, allTasks) {
+function buildSystemPrompt(event, task, allTasks, history = []) {
   const agentName = task.agentId || "general";
   const agentDescriptions = {
     guests: "You specialize in managing the guest list, sending personalized invitations via email, and tracking RSVPs and attendance confirmations.",
@@ -86,22 +103,34 @@ You work directly for the user — your job is to help them make this specific e
 
 ## All Tasks for This Event
 ${taskStatuses}
-
+${formatHistory(history)}
 ## Instructions
 1. Work on the current task using the available tools.
 2. Use \`update_task_progress\` periodically to keep the user informed.
 3. If you need information only the user can provide, use \`request_user_input\`.
 4. When the task is fully complete, use \`mark_task_complete\` with a summary.
 5. Be concise but thorough. Show your reasoning so the user can follow along.
-6. If a tool call fails, try an alternative approach before asking the user for help.`;
+6. If a tool call fails, try an alternative approach before asking the user for help.${
+    agentName === "guests"
+      ? "\n7. Record guests and RSVPs with `add_guest` and `update_rsvp` (check `list_guests` first) rather than in notes or files, so the guest list and headcount stay accurate."
+      : agentName === "general"
+        ? "\n7. Record quotes and costs with `record_quote` and `update_budget_item` (check `list_budget` first) rather than in task documents, so the budget ledger and what is left stay accurate."
+        : agentName === "venue-catering" || agentName === "entertainment-logistics"
+          ? "\n7. Check `search_vendors` for vendors used at past events before searching the web, and record every vendor you contact or book with `save_vendor` (price range, contact, notes) so later events can reuse them." +
+            (agentName === "entertainment-logistics"
+              ? "\n8. Build the event day's schedule with `add_segments` and `update_segment` (check `get_run_of_show` first) rather than in task documents, and fix the overlaps and gaps the results report."
+              : "")
+          : ""
+  }`;
 }
 
 /**
  * buildPlanningPrompt -> Construct the system prompt for event task breakdown.
  * @param {object} formData - The EventFormData
+ * @param {string[]} [history] - Relevant notes from past events (knowledgeGraph.historyNotes)
  * @returns {string}
  */
-function buildPlanningPrompt(formData) {
+function buildPlanningPrompt(formData, history = []) {
   const goals = formData.goals || {};
   const goalsStr = Object.keys(goals).length
     ? [
@@ -133,14 +162,14 @@ function buildPlanningPrompt(formData) {
 - **Budget**: ${formData.budget != null ? `$${formData.budget}` : "Not specified"}
 - **Goals**: ${goalsStr}
 - **Notes**: ${formData.notes || "None"}
-
+${formatHistory(history, "Plan around these: add early tasks for past blockers, reuse vendors that worked, and leave enough lead time.")}
 ## Instructions
 Generate a comprehensive list of tasks and assign each to exactly one of the four agent sections. For each task, provide:
 - **title**: Short, actionable task title (reference the event type, venue, or goals where relevant)
 - **description**: What needs to be done (1-2 sentences), using guest count, budget, or venue when relevant
 - **priority**: 0 (low), 1 (medium), or 2 (high)
 - **agentId**: Exactly one of: "guests", "venue-catering", "entertainment-logistics", "general"
-- **dependencies**: Array of task indices (0-based) that must complete before this task
+- **dependencies**: Array of task indices (0-based) that must complete before this task (tasks can depend on tasks in other sections; no cycles)
 - **dueDate**: ${hasEventDate ? `When the event has a date, set a due date (YYYY-MM-DD) for tasks that should be done before the event. E.g. "Send invitations" 2–3 weeks before, "Finalize catering" 1 week before, "Confirm venue" 2 weeks before. All due dates must be before the event date. Omit or null for tasks that don't need a specific date.` : "Omit or null (no event date provided)."}
 
 **Required: Split tasks across all 4 agent sections.** Include at least 2 tasks per section. Use the user's goals, notes, and preferences to tailor task titles and descriptions.
@@ -157,22 +186,171 @@ Generate 10-16 tasks. Order them logically so dependencies make sense.`;
 }
 
 /**
- * callClaude -> Make a Claude API call with tool use support.
- * Returns the full message response including any tool_use blocks.
+ * buildReplanPrompt -> System prompt for proposing task changes after event details changed.
+ * @param {object} formData - The updated EventFormData
+ * @param {object[]} detailChanges - [{ label, from, to }] fields that changed
+ * @param {object[]} tasks - Current tasks: { id, title, description, status, priority, dueDate, agentId, locked }
+ * @returns {string}
+ */
+function buildReplanPrompt(formData, detailChanges, tasks) {
+  const changesStr = detailChanges
+    .map((c) => `- **${c.label}**: ${c.from || "(not set)"} → ${c.to || "(not set)"}`)
+    .join("\n");
+  const tasksStr = tasks
+    .map((t) => {
+      let line = `- (id: ${t.id}) [${t.status.toUpperCase()}] **${t.title}** — priority ${t.priority}, due ${t.dueDate || "none"}, section ${t.agentId || "general"}`;
+      if (t.locked) line += " — LOCKED";
+      if (t.description) line += `\n  ${t.description}`;
+      return line;
+    })
+    .join("\n");
+  const hasEventDate = formData.eventDate && formData.eventDate.trim().length > 0;
+
+  return `You are an AI event planning assistant built into Eventropy. The user changed some details of an existing event. Review the current task plan and propose only the task changes those detail changes call for.
+
+## What changed
+${changesStr}
+
+## Event details (after the change)
+- **Event**: ${formData.eventReason || "Untitled Event"}
+- **Date**: ${formData.eventDate || "TBD"}
+- **Time**: ${formData.startTime || "TBD"} - ${formData.endTime || "TBD"}
+- **Venue Preference**: ${formData.venuePref || "Not specified"}
+- **Guest Count**: ${formData.guestCount || "Not specified"}
+- **Food & Drinks**: ${formData.foodDrinks || "Not specified"}
+- **Budget**: ${formData.budget != null ? `$${formData.budget}` : "Not specified"}
+
+## Current tasks
+${tasksStr || "(No tasks.)"}
+
+## Instructions
+Each change is one of:
+- **add**: a new task the changed details now require. Fields: title, description, priority (0-2), agentId ("guests", "venue-catering", "entertainment-logistics" or "general"), dueDate (YYYY-MM-DD or null)
+- **remove**: an existing task that no longer makes sense. Fields: taskId
+- **redate**: move an existing task's due date. Fields: taskId, dueDate (YYYY-MM-DD)
+- **reprioritize**: change an existing task's priority. Fields: taskId, priority (0-2)
+
+Every change needs a **rationale**: one sentence tying it to a specific detail change.
+Never remove, redate or reprioritize a task marked LOCKED or DONE — the user has finished or edited it.
+${hasEventDate ? `All due dates must be before the event date (${formData.eventDate}). If the date moved, shift due dates that were tied to the old date.` : "The event has no date, so do not set due dates."}
+Propose nothing when the plan still fits. Keep proposals specific and few.
+
+Respond with ONLY a JSON array. No markdown, no explanation.
+Example: [{"kind":"redate","taskId":"<id>","dueDate":"2025-03-01","rationale":"The event moved two weeks later, so invitations can go out later."},{"kind":"add","title":"Book overflow seating","description":"Rent extra tables and chairs for the larger crowd.","priority":1,"agentId":"venue-catering","dueDate":"2025-02-20","rationale":"Guest count grew from 40 to 80."}]`;
+}
+
+/**
+ * buildRetroPrompt -> System prompt for a post-event retrospective.
+ * @param {object} input
+ * @param {object} input.event - events row
+ * @param {object} input.metrics - computeRetroMetrics() output (see retro.cjs)
+ * @param {object[]} input.tasks - tasks rows
+ * @param {string[]} input.agentNotes - Recent agent messages from orchestrator runs
+ * @param {object[]} input.notifications - orchestrator_notifications rows
+ * @returns {string}
+ */
+function buildRetroPrompt({ event, metrics, tasks, agentNotes, notifications }) {
+  const goals = event.goals || {};
+  const goalsStr =
+    [
+      goals.attendanceTarget != null ? `Attendance target: ${goals.attendanceTarget}` : "",
+      goals.revenue != null ? `Revenue target: $${goals.revenue}` : "",
+      goals.communityGrowth ? `Community: ${goals.communityGrowth}` : "",
+      goals.brandAwareness ? `Brand: ${goals.brandAwareness}` : "",
+      goals.other ? `Other: ${goals.other}` : "",
+    ]
+      .filter(Boolean)
+      .join("; ") || "None specified";
+  const attendance = metrics.attendance;
+  const attendanceStr = attendance.actual != null
+    ? `${attendance.actual} (${attendance.source})${attendance.target ? ` vs. target ${attendance.target}` : ""}`
+    : "Unknown";
+
+  const tasksStr = tasks
+    .map((t) => {
+      let line = `- [${t.status.toUpperCase()}] ${t.title} (${t.agent_id || "general"}, priority ${t.priority})`;
+      if (t.due_date) line += `, due ${String(t.due_date).slice(0, 10)}`;
+      if (t.completed_at) line += `, completed ${String(t.completed_at).slice(0, 10)}`;
+      if (t.ai_summary) line += `\n  Agent summary: ${t.ai_summary}`;
+      return line;
+    })
+    .join("\n");
+  const notificationsStr = notifications
+    .map((n) => `- (${n.type}) ${n.title}: ${n.message}${n.resolved_response ? ` → user replied: ${n.resolved_response}` : ""}`)
+    .join("\n");
+  const notesStr = agentNotes.map((n) => `- ${n}`).join("\n");
+
+  return `You are an AI event planning assistant built into Eventropy. The event below is over. Write an honest, specific retrospective the organizer can learn from next time.
+
+## Event
+- **Event**: ${event.name || "Untitled Event"}
+- **Date**: ${event.event_date || "Not set"}
+- **Expected guests**: ${event.guest_count || "Not specified"}
+- **Budget**: ${event.budget != null ? `$${event.budget}` : "Not specified"}
+- **Goals**: ${goalsStr}
+
+## Outcomes
+- **Tasks**: ${metrics.tasksDone}/${metrics.tasksTotal} done (${Math.round(metrics.completionRate * 100)}%), ${metrics.tasksBlocked} blocked, ${metrics.tasksOpen} never finished
+- **Finished after their due date**: ${metrics.tasksLate}
+- **Attendance**: ${attendanceStr}
+- **Agent questions to the user**: ${metrics.inputRequests}; **agent errors**: ${metrics.agentErrors}
+- **AI spend**: $${metrics.aiCostUsd.toFixed(2)}
+
+## Tasks
+${tasksStr || "(No tasks.)"}
+
+## Agent questions and errors
+${notificationsStr || "(None.)"}
+
+## Agent activity (most recent)
+${notesStr || "(None.)"}
+
+## Instructions
+Ground every point in the data above; name tasks, agent groups or numbers. Recurring blockers are problems that showed up more than once or blocked several tasks (e.g. repeated questions about the same thing, tasks stuck waiting on the same dependency, repeated tool errors).
+
+Respond with ONLY a JSON object. No markdown, no explanation:
+{"summary":"2-3 sentence overview","wentWell":["..."],"didntGoWell":["..."],"recurringBlockers":["..."],"recommendations":["..."]}`;
+}
+
+/**
+ * callClaude -> Make a model call with tool use support, routed by purpose
+ * (usageContext.purpose, default "execution"). Returns the full message response
+ * including any tool_use blocks.
  * @param {string} systemPrompt - The system prompt
  * @param {object[]} messages - Message history array
  * @param {object[]} tools - Tool definitions
+ * @param {object} [usageContext] - { purpose, eventId, runId, taskId } attached to the usage record
  * @returns {Promise<object>} Claude API response message
  */
-async function callClaude(systemPrompt, messages, tools) {
-  const anthropic = getClient();
-  const response = await anthropic.messages.create({
-    model: CLAUDE_MODEL,
-    max_tokens: MAX_TOKENS,
+async function callClaude(systemPrompt, messages, tools, usageContext) {
+  const response = await createMessage(usageContext?.purpose || "execution", {
     system: systemPrompt,
     messages,
     tools,
   });
+  reportUsage(response, usageContext);
+  return response;
+}
+
+/**
+ * streamClaude -> Like callClaude, but streams text deltas to onText and can be
+ * cancelled through signal (the in-flight request is aborted).
+ * @param {string} systemPrompt - The system prompt
+ * @param {object[]} messages - Message history array
+ * @param {object[]} tools - Tool definitions
+ * @param {object} usageContext - { purpose, eventId, runId, taskId } attached to the usage record
+ * @param {object} stream
+ * @param {(text: string) => void} stream.onText - Called with each text delta
+ * @param {AbortSignal} [stream.signal] - Aborts the request
+ * @returns {Promise<object>} Complete message response
+ */
+async function streamClaude(systemPrompt, messages, tools, usageContext, { onText, signal }) {
+  const response = await streamMessage(
+    usageContext?.purpose || "execution",
+    { system: systemPrompt, messages, tools, signal },
+    onText
+  );
+  reportUsage(response, usageContext);
   return response;
 }
 
@@ -180,16 +358,15 @@ async function callClaude(systemPrompt, messages, tools) {
  * callClaudePlanning -> Make a one-shot Claude call for event planning (no tools).
  * @param {string} systemPrompt - The planning system prompt
  * @param {string} userMessage - The user's message
+ * @param {object} [usageContext] - { eventId } attached to the usage record
  * @returns {Promise<string>} Text response from Claude
  */
-async function callClaudePlanning(systemPrompt, userMessage) {
-  const anthropic = getClient();
-  const response = await anthropic.messages.create({
-    model: CLAUDE_MODEL,
-    max_tokens: MAX_TOKENS,
+async function callClaudePlanning(systemPrompt, userMessage, usageContext) {
+  const response = await createMessage("planning", {
     system: systemPrompt,
     messages: [{ role: "user", content: userMessage }],
   });
+  reportUsage(response, { ...usageContext, purpose: "planning" });
 
   const textBlock = response.content.find((block) => block.type === "text");
   return textBlock ? textBlock.text : "";
@@ -199,21 +376,86 @@ async function callClaudePlanning(systemPrompt, userMessage) {
  * callClaudeChat -> Multi-turn chat with no tools (cheapest model).
  * @param {string} systemPrompt - System prompt with event + task context
  * @param {Array<{ role: 'user'|'assistant', content: string }>} messages - Conversation history
+ * @param {object} [usageContext] - { eventId } attached to the usage record
  * @returns {Promise<string>} Latest assistant reply
  */
-async function callClaudeChat(systemPrompt, messages) {
-  const anthropic = getClient();
-  const response = await anthropic.messages.create({
-    model: CLAUDE_MODEL,
-    max_tokens: MAX_TOKENS,
+async function callClaudeChat(systemPrompt, messages, usageContext) {
+  const response = await createMessage("category_chat", {
     system: systemPrompt,
     messages: messages.map((m) => ({ role: m.role, content: m.content })),
   });
+  reportUsage(response, { ...usageContext, purpose: "category_chat" });
 
   const textBlock = response.content.find((block) => block.type === "text");
   return textBlock ? textBlock.text : "";
 }
 
+/**
+ * generateSubtasks -> Suggest 3–5 subtask titles for a task (cheapest model on the
+ * "subtasks" route). Returns an empty array when the reply is not a JSON array.
+ * @param {string} taskTitle
+ * @param {object} [usageContext] - { eventId, taskId } attached to the usage record
+ * @returns {Promise<{ title: string }[]>}
+ */
+async function generateSubtasks(taskTitle, usageContext) {
+  const system =
+    "You are an event-planning assistant. Given a task title, respond with a JSON array of 3 to 5 concrete subtask titles. Each item must be an object with a single key \"title\" and a short string value. No other text or markdown.";
+  const user = `Task: ${taskTitle}\nRespond with only a JSON array of objects with "title" key, e.g. [{"title":"Research options"},{"title":"Compare and decide"}]`;
+
+  const response = await createMessage("subtasks", {
+    system,
+    messages: [{ role: "user", content: user }],
+    maxTokens: 256,
+  });
+  reportUsage(response, { ...usageContext, purpose: "subtasks" });
+
+  const text = extractTextContent(response).trim();
+  // Tolerate a ```json fence around the array
+  const jsonText = text.replace(/^```(?:json)?\s*/i, "").replace(/```\s*$/, "");
+  try {
+    const parsed = JSON.parse(jsonText);
+    if (!Array.isArray(parsed)) return [];
+    return parsed
+      .filter((item) => item && typeof item === "object" && typeof item.title === "string")
+      .slice(0, 8)
+      .map((item) => ({ title: item.title }));
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * generateRetroSections -> One-shot call on the "retro" route. Returns the parsed
+ * sections; every list is an array of strings (empty when missing or malformed).
+ * @param {string} systemPrompt - From buildRetroPrompt()
+ * @param {object} [usageContext] - { eventId } attached to the usage record
+ * @returns {Promise<{ summary: string, wentWell: string[], didntGoWell: string[], recurringBlockers: string[], recommendations: string[] }>}
+ */
+async function generateRetroSections(systemPrompt, usageContext) {
+  const response = await createMessage("retro", {
+    system: systemPrompt,
+    messages: [{ role: "user", content: "Write the retrospective. Respond with only the JSON object." }],
+  });
+  reportUsage(response, { ...usageContext, purpose: "retro" });
+
+  const text = extractTextContent(response).trim();
+  const jsonText = text.replace(/^```(?:json)?\s*/i, "").replace(/```\s*$/, "");
+  let parsed;
+  try {
+    parsed = JSON.parse(jsonText);
+  } catch {
+    throw new Error("The retrospective reply was not valid JSON. Try generating it again.");
+  }
+  const list = (value) => (Array.isArray(value) ? value.filter((v) => typeof v === "string" && v.trim()) : []);
+  return {
+    summary: typeof parsed?.summary === "string" ? parsed.summary : "",
+    wentWell: list(parsed?.wentWell),
+    didntGoWell: list(parsed?.didntGoWell),
+    recurringBlockers: list(parsed?.recurringBlockers),
+    recommendations: list(parsed?.recommendations),
+  };
+}
+
 /**
  * extractToolUseBlocks -> Extract tool_use blocks from a Claude response.
  * @param {object} response - Claude API response
@@ -242,14 +484,18 @@ function extractTextContent(response) {
 }
 
 module.exports = {
-  initClaudeClient,
-  getClient,
-  hasClaudeKey,
+  hasAiProvider,
+  setUsageListener,
   buildSystemPrompt,
   buildPlanningPrompt,
+  buildReplanPrompt,
+  buildRetroPrompt,
   callClaude,
+  streamClaude,
   callClaudePlanning,
   callClaudeChat,
+  generateSubtasks,
+  generateRetroSections,
   extractToolUseBlocks,
   extractTextContent,
 };
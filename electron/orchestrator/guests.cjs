@@ -0,0 +1,191 @@
+/**
+ * guests.cjs -> The Guests agent's guest list tools (GUEST_TOOLS in types.cjs) over the
+ * guests and rsvps tables (migration 017). Shared by the category chat and the
+ * orchestrator lane. Writes are marked source "agent"; guests are matched by email so
+ * adding someone twice updates them instead.
+ */
+
+const { GUEST_TOOLS } = require("./types.cjs");
+
+/** GUEST_TOOL_NAMES -> Names of the tools handled here. */
+const GUEST_TOOL_NAMES = new Set(GUEST_TOOLS.map((t) => t.name));
+
+const RSVP_STATUSES = ["invited", "going", "maybe", "declined", "waitlist"];
+
+/**
+ * isGuestTool -> Whether executeGuestTool handles a tool.
+ * @param {string} name
+ * @returns {boolean}
+ */
+function isGuestTool(name) {
+  return GUEST_TOOL_NAMES.has(name);
+}
+
+/**
+ * loadGuests -> The event's guests, each with its rsvps row (or null).
+ * @param {import("../repos/index.cjs").Repos} repos
+ * @param {string} eventUuid
+ */
+async function loadGuests(repos, eventUuid) {
+  const [{ data: guests, error }, { data: rsvps, error: rsvpErr }] = await Promise.all([
+    repos.guests.list(eventUuid),
+    repos.guests.listRsvps(eventUuid),
+  ]);
+  if (error || rsvpErr) throw new Error((error || rsvpErr).message);
+  const rsvpByGuest = new Map((rsvps || []).map((r) => [r.guest_id, r]));
+  return (guests || []).map((g) => ({ ...g, rsvp: rsvpByGuest.get(g.id) || null }));
+}
+
+/**
+ * headcount -> Guests per RSVP status; expected = going guests plus their plus-ones.
+ * Matches guestHeadcount in src/lib/guests.ts.
+ * @param {object[]} guests - loadGuests() result
+ */
+function headcount(guests) {
+  const counts = Object.fromEntries(RSVP_STATUSES.map((s) => [s, 0]));
+  let plusOnes = 0;
+  for (const guest of guests) {
+    const status = guest.rsvp?.status || "invited";
+    counts[status] = (counts[status] || 0) + 1;
+    if (status === "going") plusOnes += guest.rsvp?.plus_ones || 0;
+  }
+  return { total: guests.length, ...counts, plusOnes, expected: counts.going + plusOnes };
+}
+
+/**
+ * guestSummary -> What the model sees for one guest.
+ * @param {object} guest - loadGuests() entry
+ */
+function guestSummary(guest) {
+  return {
+    id: guest.id,
+    name: guest.name,
+    email: guest.email,
+    phone: guest.phone,
+    dietaryNeeds: guest.dietary_needs,
+    notes: guest.notes,
+    status: guest.rsvp?.status || "invited",
+    plusOnes: guest.rsvp?.plus_ones || 0,
+    source: guest.source,
+  };
+}
+
+/**
+ * saveRsvp -> Record a guest's RSVP, setting responded_at when the status changes to an answer.
+ * @param {import("../repos/index.cjs").Repos} repos
+ * @param {string} eventUuid
+ * @param {object} guest - loadGuests() entry (or a fresh guests row)
+ * @param {{ status?: string, plusOnes?: number }} input
+ */
+async function saveRsvp(repos, eventUuid, guest, { status, plusOnes }) {
+  const previous = guest.rsvp?.status || "invited";
+  const next = status || previous;
+  const row = {
+    guest_id: guest.id,
+    event_id: eventUuid,
+    status: next,
+    plus_ones: plusOnes != null ? Math.max(0, Math.floor(Number(plusOnes) || 0)) : guest.rsvp?.plus_ones || 0,
+    responded_at: next !== previous && next !== "invited" ? new Date().toISOString() : guest.rsvp?.responded_at || null,
+    source: "agent",
+  };
+  const { error } = await repos.guests.upsertRsvp(row);
+  if (error) throw new Error(error.message);
+  return row;
+}
+
+/**
+ * executeGuestTool -> Run one guest list tool for an event.
+ * @param {import("../repos/index.cjs").Repos} repos
+ * @param {string | null} eventUuid - events.id
+ * @param {string} name - Tool name (GUEST_TOOLS)
+ * @param {object} input - Tool input
+ * @returns {Promise<{ result: object, summary: string, changed: boolean }>}
+ *   changed -> The guest list was written (the renderer should reload it)
+ */
+async function executeGuestTool(repos, eventUuid, name, input = {}) {
+  if (!eventUuid) return { result: { error: "No event ID provided" }, summary: "No event ID", changed: false };
+  if (input.status && !RSVP_STATUSES.includes(input.status)) {
+    return { result: { error: `Unknown RSVP status: ${input.status}` }, summary: "Invalid RSVP status", changed: false };
+  }
+
+  const guests = await loadGuests(repos, eventUuid);
+  const email = typeof input.email === "string" ? input.email.trim().toLowerCase() : "";
+
+  switch (name) {
+    case "list_guests": {
+      const { data: event } = await repos.events.get(eventUuid);
+      const listed = guests.filter(
+        (g) =>
+          (!input.status || (g.rsvp?.status || "invited") === input.status) &&
+          (!input.dietaryOnly || (g.dietary_needs?.trim() && g.rsvp?.status !== "declined"))
+      );
+      const guestCount = Number.parseInt(event?.guest_count, 10);
+      return {
+        result: {
+          guests: listed.map(guestSummary),
+          headcount: headcount(guests),
+          plannedGuestCount: Number.isFinite(guestCount) ? guestCount : null,
+          attendanceTarget: event?.goals?.attendanceTarget ?? null,
+        },
+        summary: `Listed ${listed.length} guest(s)${input.status ? ` (${input.status})` : ""}${input.dietaryOnly ? " with dietary needs" : ""}`,
+        changed: false,
+      };
+    }
+
+    case "add_guest": {
+      const guestName = String(input.name || "").trim();
+      if (!guestName) return { result: { error: "A guest needs a name" }, summary: "Missing guest name", changed: false };
+      const details = {
+        name: guestName,
+        ...(email ? { email } : {}),
+        ...(input.phone ? { phone: String(input.phone).trim() } : {}),
+        ...(input.dietaryNeeds ? { dietary_needs: String(input.dietaryNeeds).trim() } : {}),
+        ...(input.notes ? { notes: String(input.notes).trim() } : {}),
+      };
+
+      let guest = email ? guests.find((g) => g.email?.toLowerCase() === email) : null;
+      const existed = !!guest;
+      if (guest) {
+        const { error } = await repos.guests.update(guest.id, details);
+        if (error) throw new Error(error.message);
+      } else {
+        const { data, error } = await repos.guests.insert({ event_id: eventUuid, source: "agent", ...details });
+        if (error) throw new Error(error.message);
+        guest = { ...data, rsvp: null };
+      }
+      const rsvp =
+        input.status || input.plusOnes != null || !guest.rsvp
+          ? await saveRsvp(repos, eventUuid, guest, { status: input.status, plusOnes: input.plusOnes })
+          : guest.rsvp;
+      return {
+        result: { success: true, guest: guestSummary({ ...guest, ...details, rsvp }), updatedExisting: existed },
+        summary: existed ? `Updated guest "${guestName}"` : `Added guest "${guestName}" (${rsvp.status})`,
+        changed: true,
+      };
+    }
+
+    case "update_rsvp": {
+      const guest = input.guestId
+        ? guests.find((g) => g.id === input.guestId)
+        : email
+          ? guests.find((g) => g.email?.toLowerCase() === email)
+          : null;
+      if (!guest) return { result: { error: "Guest not found" }, summary: "Guest not found", changed: false };
+      if (input.dietaryNeeds !== undefined) {
+        const { error } = await repos.guests.update(guest.id, { dietary_needs: String(input.dietaryNeeds).trim() || null });
+        if (error) throw new Error(error.message);
+      }
+      const rsvp = await saveRsvp(repos, eventUuid, guest, { status: input.status, plusOnes: input.plusOnes });
+      return {
+        result: { success: true, guestId: guest.id, status: rsvp.status, plusOnes: rsvp.plus_ones },
+        summary: `RSVP for "${guest.name}": ${rsvp.status}${rsvp.plus_ones ? ` +${rsvp.plus_ones}` : ""}`,
+        changed: true,
+      };
+    }
+
+    default:
+      return { result: { error: `Unknown tool: ${name}` }, summary: `Unknown tool: ${name}`, changed: false };
+  }
+}
+
+module.exports = { isGuestTool, executeGuestTool };
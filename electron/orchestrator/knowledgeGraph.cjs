@@ -0,0 +1,567 @@
+/**
+ * knowledgeGraph.cjs -> Cross-event memory: a local entity/relationship store.
+ * Nodes (events, tasks, people, vendors, topics, blockers, lessons, documents) and
+ * typed edges between them are derived from past events by knowledgeIngest.cjs and
+ * persisted as JSON in the app's userData directory.
+ *
+ * Every derived node/edge lists the events it came from (`sources`), so one event can
+ * be re-ingested without touching the rest. User corrections are stored separately
+ * from derived data (overrides, hidden flags, merges as aliases, user edges) and
+ * survive rebuilds.
+ */
+
+const { app } = require("electron");
+const fs = require("fs");
+const path = require("path");
+
+/** USER_SOURCE -> Source tag for nodes and edges the user added by hand. */
+const USER_SOURCE = "user";
+
+/**
+ * TOPIC_KEYWORDS -> Planning topics and the words that signal them in task titles,
+ * blockers and retro notes. Topics are what link history across events.
+ */
+const TOPIC_KEYWORDS = {
+  catering: ["cater", "food", "drink", "menu", "beverage", "bar", "snack", "dietary"],
+  venue: ["venue", "space", "room", "location", "floor plan", "capacity"],
+  invitations: ["invite", "invitation", "email blast", "save the date", "outreach"],
+  rsvps: ["rsvp", "guest list", "attendee", "registration", "check-in", "headcount"],
+  entertainment: ["music", "dj", "band", "entertain", "performer", "game", "activity"],
+  av: ["a/v", "audio", "sound", "microphone", "projector", "screen", "stream"],
+  decor: ["decor", "decoration", "theme", "signage", "flower", "lighting"],
+  schedule: ["schedule", "agenda", "run-of-show", "run of show", "timeline", "program"],
+  speakers: ["speaker", "panel", "host", "mc", "keynote"],
+  sponsors: ["sponsor", "partner"],
+  marketing: ["marketing", "promot", "social media", "flyer", "luma page"],
+  budget: ["budget", "payment", "invoice", "deposit", "cost", "quote"],
+  contracts: ["contract", "permit", "insurance", "waiver", "license"],
+  staffing: ["volunteer", "staff", "crew", "security"],
+  transport: ["transport", "shuttle", "parking", "travel"],
+  photography: ["photo", "video", "camera"],
+};
+
+/** AGENT_TOPICS -> Topics each agent group usually works on, added to every query from that lane. */
+const AGENT_TOPICS = {
+  guests: ["invitations", "rsvps"],
+  "venue-catering": ["venue", "catering"],
+  "entertainment-logistics": ["entertainment", "schedule", "av"],
+  general: ["budget", "contracts"],
+};
+
+/** NODE_TYPES -> Node types the graph knows about. */
+const NODE_TYPES = ["event", "task", "person", "vendor", "topic", "blocker", "lesson", "document"];
+
+/** @type {string | null} */
+let storePath = null;
+
+/**
+ * @typedef {{ id: string, type: string, label: string, props: object, sources: string[],
+ *   hidden?: boolean, overrides?: { label?: string, type?: string, props?: object } }} StoredNode
+ * @typedef {{ id: string, from: string, to: string, type: string, props: object,
+ *   sources: string[], hidden?: boolean }} StoredEdge
+ */
+
+/** @type {{ nodes: Record<string, StoredNode>, edges: Record<string, StoredEdge>, aliases: Record<string, string>, builtAt: string | null }} */
+let graph = emptyGraph();
+
+/**
+ * emptyGraph -> A graph with nothing in it.
+ */
+function emptyGraph() {
+  return { nodes: {}, edges: {}, aliases: {}, builtAt: null };
+}
+
+/**
+ * initKnowledgeGraph -> Load the graph from disk.
+ * Must be called after app.whenReady().
+ */
+function initKnowledgeGraph() {
+  storePath = path.join(app.getPath("userData"), "knowledge-graph.json");
+
+  try {
+    if (fs.existsSync(storePath)) {
+      const raw = fs.readFileSync(storePath, "utf-8");
+      graph = { ...emptyGraph(), ...JSON.parse(raw) };
+    }
+  } catch (err) {
+    console.warn("Failed to load knowledge graph:", err);
+    graph = emptyGraph();
+  }
+}
+
+/**
+ * saveGraph -> Persist the graph to disk.
+ */
+function saveGraph() {
+  if (!storePath) return;
+  try {
+    fs.writeFileSync(storePath, JSON.stringify(graph), "utf-8");
+  } catch (err) {
+    console.error("Failed to save knowledge graph:", err);
+  }
+}
+
+/**
+ * edgeId -> Stable id for an edge; one edge per (from, type, to).
+ */
+function edgeId(from, type, to) {
+  return `${from}|${type}|${to}`;
+}
+
+/**
+ * resolveId -> Follow merge aliases to the node an id now lives under.
+ * @param {string} id
+ * @returns {string}
+ */
+function resolveId(id) {
+  let current = id;
+  const seen = new Set();
+  while (graph.aliases[current] && !seen.has(current)) {
+    seen.add(current);
+    current = graph.aliases[current];
+  }
+  return current;
+}
+
+/**
+ * effectiveNode -> A stored node with the user's overrides applied.
+ * @param {StoredNode} node
+ */
+function effectiveNode(node) {
+  const overrides = node.overrides || {};
+  return {
+    id: node.id,
+    type: overrides.type || node.type,
+    label: overrides.label || node.label,
+    props: { ...node.props, ...(overrides.props || {}) },
+    sources: node.sources,
+    hidden: !!node.hidden,
+    edited: !!node.overrides,
+  };
+}
+
+/**
+ * detectTopics -> Topic keys mentioned in a piece of text.
+ * @param {string} text
+ * @returns {string[]}
+ */
+function detectTopics(text) {
+  const haystack = ` ${String(text || "").toLowerCase()} `;
+  return Object.entries(TOPIC_KEYWORDS)
+    .filter(([, words]) => words.some((w) => haystack.includes(w.length <= 3 ? ` ${w}` : w)))
+    .map(([topic]) => topic);
+}
+
+/**
+ * topicNodeId -> Node id for a topic key.
+ */
+function topicNodeId(topic) {
+  return `topic:${topic}`;
+}
+
+/**
+ * stripSource -> Remove one source from every node and edge (before re-ingesting it).
+ * @param {string} source
+ */
+function stripSource(source) {
+  for (const node of Object.values(graph.nodes)) {
+    node.sources = node.sources.filter((s) => s !== source);
+  }
+  for (const edge of Object.values(graph.edges)) {
+    edge.sources = edge.sources.filter((s) => s !== source);
+  }
+}
+
+/**
+ * prune -> Drop derived nodes and edges no event supports any more. Nodes the user
+ * corrected (overrides or hidden) and hidden edges are kept so the correction sticks.
+ */
+function prune() {
+  for (const [id, node] of Object.entries(graph.nodes)) {
+    if (node.sources.length === 0 && !node.hidden && !node.overrides) delete graph.nodes[id];
+  }
+  for (const [id, edge] of Object.entries(graph.edges)) {
+    const orphaned = !graph.nodes[edge.from] || !graph.nodes[edge.to];
+    if (orphaned || (edge.sources.length === 0 && !edge.hidden)) delete graph.edges[id];
+  }
+}
+
+/**
+ * upsertDerived -> Add derived nodes and edges from one source, merging with what is there.
+ * Ids are resolved through aliases so merged nodes keep collecting history.
+ * @param {string} source
+ * @param {{ nodes: object[], edges: object[] }} derived
+ */
+function upsertDerived(source, { nodes, edges }) {
+  for (const n of nodes) {
+    const id = resolveId(n.id);
+    const existing = graph.nodes[id];
+    if (existing) {
+      // A merged-away duplicate must not rename the node it was merged into
+      if (id === n.id) existing.label = n.label;
+      existing.props = { ...existing.props, ...n.props };
+      if (!existing.sources.includes(source)) existing.sources.push(source);
+    } else {
+      graph.nodes[id] = { id, type: n.type, label: n.label, props: n.props || {}, sources: [source] };
+    }
+  }
+  for (const e of edges) {
+    const from = resolveId(e.from);
+    const to = resolveId(e.to);
+    if (from === to || !graph.nodes[from] || !graph.nodes[to]) continue;
+    const id = edgeId(from, e.type, to);
+    const existing = graph.edges[id];
+    if (existing) {
+      existing.props = { ...existing.props, ...(e.props || {}) };
+      if (!existing.sources.includes(source)) existing.sources.push(source);
+    } else {
+      graph.edges[id] = { id, from, to, type: e.type, props: e.props || {}, sources: [source] };
+    }
+  }
+}
+
+/**
+ * replaceEventKnowledge -> Swap in freshly derived data for one event and save.
+ * @param {string} eventUuid
+ * @param {{ nodes: object[], edges: object[] }} derived
+ */
+function replaceEventKnowledge(eventUuid, derived) {
+  stripSource(eventUuid);
+  upsertDerived(eventUuid, derived);
+  prune();
+  saveGraph();
+}
+
+/**
+ * replaceAllKnowledge -> Rebuild every derived node/edge from the given events and save.
+ * User corrections are kept.
+ * @param {{ eventUuid: string, derived: { nodes: object[], edges: object[] } }[]} perEvent
+ */
+function replaceAllKnowledge(perEvent) {
+  for (const node of Object.values(graph.nodes)) {
+    node.sources = node.sources.filter((s) => s === USER_SOURCE);
+  }
+  for (const edge of Object.values(graph.edges)) {
+    edge.sources = edge.sources.filter((s) => s === USER_SOURCE);
+  }
+  for (const { eventUuid, derived } of perEvent) upsertDerived(eventUuid, derived);
+  prune();
+  graph.builtAt = new Date().toISOString();
+  saveGraph();
+}
+
+/**
+ * clearKnowledgeGraph -> Drop every node, edge and user correction and save, e.g. when
+ * another user signs in. isGraphBuilt() is false until the next rebuild.
+ */
+function clearKnowledgeGraph() {
+  graph = emptyGraph();
+  saveGraph();
+}
+
+/**
+ * isGraphBuilt -> Whether a full rebuild has ever run.
+ */
+function isGraphBuilt() {
+  return !!graph.builtAt;
+}
+
+/**
+ * getGraphSnapshot -> Every node (with overrides applied) and edge, for the graph browser.
+ * Hidden items are included and flagged so the user can restore them.
+ * @returns {{ nodes: object[], edges: object[], builtAt: string | null }}
+ */
+function getGraphSnapshot() {
+  return {
+    nodes: Object.values(graph.nodes).map(effectiveNode),
+    edges: Object.values(graph.edges).map((e) => ({
+      id: e.id,
+      from: e.from,
+      to: e.to,
+      type: e.type,
+      props: e.props,
+      sources: e.sources,
+      hidden: !!e.hidden,
+    })),
+    builtAt: graph.builtAt,
+  };
+}
+
+/**
+ * updateNode -> Correct a node's label, type or properties. Only the given fields
+ * change; a props value of null removes that override.
+ * @param {string} id
+ * @param {{ label?: string, type?: string, props?: object }} updates
+ * @returns {object} The node with overrides applied
+ */
+function updateNode(id, updates) {
+  const node = graph.nodes[resolveId(id)];
+  if (!node) throw new Error("Node not found.");
+  if (updates.type && !NODE_TYPES.includes(updates.type)) throw new Error(`Unknown node type: ${updates.type}`);
+
+  const overrides = { ...(node.overrides || {}) };
+  if (updates.label !== undefined) overrides.label = updates.label.trim() || undefined;
+  if (updates.type !== undefined) overrides.type = updates.type;
+  if (updates.props) {
+    const props = { ...(overrides.props || {}) };
+    for (const [key, value] of Object.entries(updates.props)) {
+      if (value === null) delete props[key];
+      else props[key] = value;
+    }
+    overrides.props = props;
+  }
+  node.overrides = overrides;
+  saveGraph();
+  return effectiveNode(node);
+}
+
+/**
+ * setHidden -> Hide a wrong node or edge from agents (or restore it). Hidden items stay
+ * in the store so a rebuild does not bring them back.
+ * @param {"node" | "edge"} kind
+ * @param {string} id
+ * @param {boolean} hidden
+ */
+function setHidden(kind, id, hidden) {
+  const item = kind === "node" ? graph.nodes[resolveId(id)] : graph.edges[id];
+  if (!item) throw new Error(`${kind === "node" ? "Node" : "Edge"} not found.`);
+  item.hidden = hidden || undefined;
+  saveGraph();
+}
+
+/**
+ * mergeNodes -> Fold a duplicate node into another (e.g. two spellings of one vendor).
+ * Edges move to the surviving node and future ingests of the old id land there too.
+ * @param {string} fromId - Duplicate to remove
+ * @param {string} intoId - Node to keep
+ */
+function mergeNodes(fromId, intoId) {
+  const from = resolveId(fromId);
+  const into = resolveId(intoId);
+  if (from === into) throw new Error("Cannot merge a node into itself.");
+  const fromNode = graph.nodes[from];
+  const intoNode = graph.nodes[into];
+  if (!fromNode || !intoNode) throw new Error("Node not found.");
+
+  intoNode.props = { ...fromNode.props, ...intoNode.props };
+  intoNode.sources = [...new Set([...intoNode.sources, ...fromNode.sources])];
+  if (fromNode.overrides?.props) {
+    intoNode.overrides = {
+      ...(intoNode.overrides || {}),
+      props: { ...fromNode.overrides.props, ...(intoNode.overrides?.props || {}) },
+    };
+  }
+
+  for (const edge of Object.values(graph.edges)) {
+    if (edge.from !== from && edge.to !== from) continue;
+    delete graph.edges[edge.id];
+    const newFrom = edge.from === from ? into : edge.from;
+    const newTo = edge.to === from ? into : edge.to;
+    if (newFrom === newTo) continue;
+    const id = edgeId(newFrom, edge.type, newTo);
+    const existing = graph.edges[id];
+    if (existing) {
+      existing.sources = [...new Set([...existing.sources, ...edge.sources])];
+      existing.props = { ...edge.props, ...existing.props };
+    } else {
+      graph.edges[id] = { ...edge, id, from: newFrom, to: newTo };
+    }
+  }
+
+  delete graph.nodes[from];
+  graph.aliases[from] = into;
+  for (const [alias, target] of Object.entries(graph.aliases)) {
+    if (target === from) graph.aliases[alias] = into;
+  }
+  saveGraph();
+}
+
+/**
+ * addEdge -> Record a relationship the ingest missed (e.g. vendor -> about -> topic).
+ * @param {{ from: string, to: string, type: string }} edge
+ * @returns {object} The new edge
+ */
+function addEdge({ from, to, type }) {
+  const fromId = resolveId(from);
+  const toId = resolveId(to);
+  if (!graph.nodes[fromId] || !graph.nodes[toId]) throw new Error("Node not found.");
+  const id = edgeId(fromId, type, toId);
+  const existing = graph.edges[id];
+  if (existing) {
+    existing.hidden = undefined;
+    if (!existing.sources.includes(USER_SOURCE)) existing.sources.push(USER_SOURCE);
+  } else {
+    graph.edges[id] = { id, from: fromId, to: toId, type, props: {}, sources: [USER_SOURCE] };
+  }
+  saveGraph();
+  return graph.edges[id];
+}
+
+// ── Query API ───────────────────────────────────────────────────────────
+
+/**
+ * visibleNode -> Node by id with overrides applied, or null when missing or hidden.
+ */
+function visibleNode(id) {
+  const node = graph.nodes[resolveId(id)];
+  return node && !node.hidden ? effectiveNode(node) : null;
+}
+
+/**
+ * visibleEdges -> Non-hidden edges touching a node, optionally of one type.
+ */
+function visibleEdges(nodeId, type) {
+  return Object.values(graph.edges).filter(
+    (e) => !e.hidden && (e.from === nodeId || e.to === nodeId) && (!type || e.type === type)
+  );
+}
+
+/**
+ * otherEnd -> The node on the far side of an edge.
+ */
+function otherEnd(edge, nodeId) {
+  return edge.from === nodeId ? edge.to : edge.from;
+}
+
+/**
+ * eventsOf -> Past events a node is linked to (directly or via a task), excluding one event.
+ * @returns {object[]} Event nodes
+ */
+function eventsOf(nodeId, excludeEventId) {
+  const exclude = excludeEventId ? `event:${excludeEventId}` : null;
+  const ids = new Set();
+  for (const edge of visibleEdges(nodeId)) {
+    const other = otherEnd(edge, nodeId);
+    if (other.startsWith("event:")) ids.add(other);
+    else if (other.startsWith("task:")) {
+      for (const taskEdge of visibleEdges(other, "has_task")) ids.add(otherEnd(taskEdge, other));
+    }
+  }
+  ids.delete(exclude);
+  return [...ids].map(visibleNode).filter(Boolean);
+}
+
+/**
+ * eventLabel -> "Name (YYYY-MM-DD)" for an event node.
+ */
+function eventLabel(eventNode) {
+  return eventNode.props.date ? `${eventNode.label} (${eventNode.props.date})` : eventNode.label;
+}
+
+/**
+ * median -> Middle value of a non-empty number list.
+ */
+function median(values) {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : Math.round((sorted[mid - 1] + sorted[mid]) / 2);
+}
+
+/**
+ * queryHistory -> What past events say about the given text: recurring blockers,
+ * lessons, highly rated vendors and typical lead times for the topics it mentions.
+ * Used by buildSystemPrompt (per task) and the planner (per event).
+ * @param {object} params
+ * @param {string} params.text - Task title/description or event details
+ * @param {string} [params.agentId] - Agent group; adds that group's usual topics
+ * @param {string} [params.excludeEventId] - Current event UUID, so it does not cite itself
+ * @param {number} [params.limit] - Max insights (default 8)
+ * @returns {{ topics: string[], insights: { text: string, nodeIds: string[], weight: number }[] }}
+ */
+function queryHistory({ text, agentId, excludeEventId, limit = 8 }) {
+  const topics = [...new Set([...detectTopics(text), ...(AGENT_TOPICS[agentId] || [])])];
+  const insights = [];
+  const seen = new Set();
+
+  /** addInsight -> Collect one insight; the same node is never cited twice. */
+  const addInsight = (nodeId, insightText, weight) => {
+    if (seen.has(nodeId)) return;
+    seen.add(nodeId);
+    insights.push({ text: insightText, nodeIds: [nodeId], weight });
+  };
+
+  for (const topic of topics) {
+    const topicNode = visibleNode(topicNodeId(topic));
+    if (!topicNode) continue;
+    const topicLabel = topicNode.label;
+
+    for (const edge of visibleEdges(topicNode.id, "about")) {
+      const node = visibleNode(otherEnd(edge, topicNode.id));
+      if (!node) continue;
+      const events = eventsOf(node.id, excludeEventId);
+
+      if (node.type === "blocker" && events.length > 0) {
+        addInsight(
+          node.id,
+          `${topicLabel} was a blocker before: "${node.label}" at ${events.map(eventLabel).join(", ")}.`,
+          2 + events.length
+        );
+      } else if (node.type === "lesson" && events.length > 0) {
+        addInsight(node.id, `Lesson from ${eventLabel(events[0])}: ${node.label}`, 2);
+      } else if (node.type === "vendor") {
+        const rating = Number(node.props.rating) || null;
+        if (rating != null && rating <= 2) {
+          addInsight(node.id, `Avoid ${node.label} for ${topicLabel.toLowerCase()}: rated ${rating}/5${node.props.notes ? ` (${node.props.notes})` : ""}.`, 3);
+        } else if (rating != null || events.length > 0) {
+          const used = events.length > 0 ? `used at ${events.length} past event(s)` : "known vendor";
+          const contact = node.props.email ? ` <${node.props.email}>` : "";
+          addInsight(
+            node.id,
+            `${node.label}${contact} for ${topicLabel.toLowerCase()}: ${used}${rating != null ? `, rated ${rating}/5` : ""}${node.props.notes ? ` (${node.props.notes})` : ""}.`,
+            1 + events.length + (rating || 0)
+          );
+        }
+      }
+    }
+
+    // Typical lead time: how many days before the event this topic's tasks were finished
+    const leadTasks = visibleEdges(topicNode.id, "about")
+      .map((e) => visibleNode(otherEnd(e, topicNode.id)))
+      .filter((n) => n && n.type === "task" && typeof n.props.leadDays === "number")
+      .filter((n) => eventsOf(n.id, excludeEventId).length > 0);
+    if (leadTasks.length >= 2) {
+      const late = leadTasks.filter((n) => n.props.late).length;
+      addInsight(
+        `${topicNode.id}#lead`,
+        `${topicLabel} tasks were typically finished ${median(leadTasks.map((n) => n.props.leadDays))} days before the event (${leadTasks.length} past tasks${late > 0 ? `, ${late} finished after their due date` : ""}).`,
+        1 + late
+      );
+    }
+  }
+
+  insights.sort((a, b) => b.weight - a.weight);
+  return { topics, insights: insights.slice(0, limit) };
+}
+
+/**
+ * historyNotes -> queryHistory() as plain sentences for a prompt.
+ * @param {Parameters<typeof queryHistory>[0]} params
+ * @returns {string[]}
+ */
+function historyNotes(params) {
+  try {
+    return queryHistory(params).insights.map((i) => i.text);
+  } catch (err) {
+    console.warn("[Eventropy] Knowledge graph query failed:", err.message);
+    return [];
+  }
+}
+
+module.exports = {
+  NODE_TYPES,
+  TOPIC_KEYWORDS,
+  initKnowledgeGraph,
+  detectTopics,
+  topicNodeId,
+  replaceEventKnowledge,
+  replaceAllKnowledge,
+  clearKnowledgeGraph,
+  isGraphBuilt,
+  getGraphSnapshot,
+  updateNode,
+  setHidden,
+  mergeNodes,
+  addEdge,
+  queryHistory,
+  historyNotes,
+};
@@ -0,0 +1,277 @@
+/**
+ * knowledgeIngest.cjs -> Builds knowledge graph nodes and edges from an event's data
+ * (read through the repos): tasks (with AI summaries and lead times), collaborators, documents,
+ * the post-event retro, emails the agents sent or read (Gmail) and Luma RSVPs pulled
+ * during runs. The store and query side lives in knowledgeGraph.cjs.
+ */
+
+const {
+  detectTopics,
+  topicNodeId,
+  replaceEventKnowledge,
+  replaceAllKnowledge,
+} = require("./knowledgeGraph.cjs");
+
+/** VENDOR_LANES -> Agent groups whose email contacts are vendors rather than guests. */
+const VENDOR_LANES = ["venue-catering", "entertainment-logistics"];
+
+/** MAX_CONTACTS_PER_EVENT -> Cap on guest/RSVP people per event so big guest lists do not swamp the graph. */
+const MAX_CONTACTS_PER_EVENT = 200;
+
+/** DAY_MS -> Milliseconds in a day. */
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * parseAddress -> { name, email } from "Name <a@b.com>" or a bare address.
+ * @param {string} raw
+ * @returns {{ name: string | null, email: string } | null}
+ */
+function parseAddress(raw) {
+  const text = String(raw || "").trim();
+  const match = text.match(/^(.*?)\s*<([^>]+)>$/);
+  const email = (match ? match[2] : text).trim().toLowerCase();
+  if (!email.includes("@")) return null;
+  const name = match ? match[1].replace(/^"|"$/g, "").trim() : "";
+  return { name: name || null, email };
+}
+
+/**
+ * slug -> Lowercase key for free-text entities (blockers, lessons).
+ */
+function slug(text) {
+  return String(text || "")
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-|-$/g, "")
+    .slice(0, 80);
+}
+
+/**
+ * loadEventSources -> Raw rows an event's knowledge is derived from. Tables from later
+ * migrations (retros, approvals) are optional; a missing table just contributes nothing.
+ * @param {import("../repos/index.cjs").Repos} repos
+ * @param {string} eventUuid
+ */
+async function loadEventSources(repos, eventUuid) {
+  const [tasks, collaborators, documents, retro, runs, approvals] = await Promise.all([
+    repos.tasks.list({ eventId: eventUuid }),
+    repos.events.listCollaborators(eventUuid),
+    repos.events.listDocuments(eventUuid),
+    repos.retros.get(eventUuid),
+    repos.orchestrator.listEventRuns(eventUuid),
+    repos.orchestrator.listApprovalsByStatus(eventUuid, "executed"),
+  ]);
+
+  const runIds = (runs.data || []).map((r) => r.id);
+  let messages = [];
+  if (runIds.length > 0) {
+    const { data } = await repos.orchestrator.listRunMessages(runIds, {
+      toolNames: ["gmail_send_email", "gmail_read_email", "luma_get_rsvps", "luma_create_event"],
+    });
+    messages = data || [];
+  }
+
+  return {
+    tasks: tasks.data || [],
+    collaborators: collaborators.data || [],
+    documents: documents.data || [],
+    retro: retro.error ? null : retro.data,
+    approvals: approvals.error ? [] : approvals.data || [],
+    messages,
+  };
+}
+
+/**
+ * deriveEventKnowledge -> Nodes and edges for one event.
+ * @param {object} event - events row
+ * @param {Awaited<ReturnType<typeof loadEventSources>>} sources
+ * @returns {{ nodes: object[], edges: object[] }}
+ */
+function deriveEventKnowledge(event, { tasks, collaborators, documents, retro, approvals, messages }) {
+  const nodes = [];
+  const edges = [];
+  const eventId = `event:${event.id}`;
+  const lumaCreated = messages.find((m) => m.tool_name === "luma_create_event" && m.tool_result?.data?.eventId);
+  const lumaEventId = retro?.metrics?.attendance?.lumaEventId || lumaCreated?.tool_result.data.eventId || null;
+  const eventDate = event.event_date ? new Date(`${String(event.event_date).slice(0, 10)}T00:00:00Z`) : null;
+
+  /** linkTopics -> "about" edges from a node to every topic its text mentions. */
+  const linkTopics = (nodeId, text) => {
+    for (const topic of detectTopics(text)) {
+      nodes.push({ id: topicNodeId(topic), type: "topic", label: topic.charAt(0).toUpperCase() + topic.slice(1), props: {} });
+      edges.push({ from: nodeId, to: topicNodeId(topic), type: "about" });
+    }
+  };
+
+  nodes.push({
+    id: eventId,
+    type: "event",
+    label: event.name || "Untitled Event",
+    props: {
+      date: event.event_date ? String(event.event_date).slice(0, 10) : null,
+      status: event.status,
+      guestCount: event.guest_count || null,
+      budget: event.budget != null ? Number(event.budget) : null,
+      lumaEventId,
+      ...(retro?.metrics
+        ? {
+            completionRate: retro.metrics.completionRate,
+            attendance: retro.metrics.attendance?.actual ?? null,
+            attendanceTarget: retro.metrics.attendance?.target ?? null,
+          }
+        : {}),
+    },
+  });
+  linkTopics(eventId, `${event.name || ""} ${event.venue_pref || ""} ${event.food_drinks || ""}`);
+
+  // Tasks: what was done, by which agent group, and how far ahead of the event
+  const taskAgents = new Map();
+  const collaboratorsById = new Map(collaborators.map((c) => [c.id, c]));
+  for (const task of tasks) {
+    const taskId = `task:${task.id}`;
+    taskAgents.set(task.id, task.agent_id || "general");
+    const completedAt = task.completed_at ? new Date(task.completed_at) : null;
+    const dueEnd = task.due_date ? new Date(`${String(task.due_date).slice(0, 10)}T23:59:59.999Z`) : null;
+
+    nodes.push({
+      id: taskId,
+      type: "task",
+      label: task.title,
+      props: {
+        agentId: task.agent_id || "general",
+        status: task.status,
+        dueDate: task.due_date ? String(task.due_date).slice(0, 10) : null,
+        summary: task.ai_summary || null,
+        leadDays: completedAt && eventDate ? Math.round((eventDate - completedAt) / DAY_MS) : null,
+        late: !!(completedAt && dueEnd && completedAt > dueEnd),
+      },
+    });
+    edges.push({ from: eventId, to: taskId, type: "has_task" });
+    linkTopics(taskId, `${task.title} ${task.description || ""}`);
+
+    const owner = collaboratorsById.get(task.assigned_to);
+    if (owner?.email) edges.push({ from: `person:${owner.email.toLowerCase()}`, to: taskId, type: "owned" });
+
+    if (task.status === "blocked") {
+      const blockerId = `blocker:${slug(task.title)}`;
+      nodes.push({ id: blockerId, type: "blocker", label: task.title, props: {} });
+      edges.push({ from: eventId, to: blockerId, type: "had_blocker" });
+      edges.push({ from: taskId, to: blockerId, type: "blocked_by" });
+      linkTopics(blockerId, `${task.title} ${task.description || ""}`);
+    }
+  }
+
+  // People on the team
+  for (const c of collaborators) {
+    if (!c.email) continue;
+    const personId = `person:${c.email.toLowerCase()}`;
+    nodes.push({ id: personId, type: "person", label: c.name || c.email, props: { email: c.email.toLowerCase() } });
+    edges.push({ from: personId, to: eventId, type: "collaborated_on", props: { role: c.role || null } });
+  }
+  const teamEmails = new Set(collaborators.map((c) => String(c.email || "").toLowerCase()));
+
+  for (const doc of documents) {
+    const docId = `document:${doc.id}`;
+    nodes.push({ id: docId, type: "document", label: doc.name, props: { url: doc.url, category: doc.category || null } });
+    edges.push({ from: eventId, to: docId, type: "has_document" });
+    linkTopics(docId, doc.name);
+  }
+
+  // Retro: recurring blockers and recommendations become shared blocker/lesson nodes
+  if (retro) {
+    for (const text of retro.recurring_blockers || []) {
+      const blockerId = `blocker:${slug(text)}`;
+      nodes.push({ id: blockerId, type: "blocker", label: text, props: {} });
+      edges.push({ from: eventId, to: blockerId, type: "had_blocker" });
+      linkTopics(blockerId, text);
+    }
+    for (const text of retro.recommendations || []) {
+      const lessonId = `lesson:${slug(text)}`;
+      nodes.push({ id: lessonId, type: "lesson", label: text, props: {} });
+      edges.push({ from: eventId, to: lessonId, type: "learned" });
+      linkTopics(lessonId, text);
+    }
+  }
+
+  // Email contacts: vendor lanes' recipients are vendors, everyone else is a person
+  const namesByEmail = new Map();
+  for (const m of messages) {
+    if (m.tool_name !== "gmail_read_email") continue;
+    const from = parseAddress(m.tool_result?.data?.from);
+    if (from?.name) namesByEmail.set(from.email, from.name);
+  }
+  const sentEmails = [
+    ...messages.filter((m) => m.tool_name === "gmail_send_email" && m.tool_input).map((m) => ({ taskId: m.task_id, input: m.tool_input })),
+    ...approvals.filter((a) => a.tool_name === "gmail_send_email").map((a) => ({ taskId: a.task_id, input: a.edited_input || a.tool_input })),
+  ];
+  let contactCount = 0;
+  for (const { taskId, input } of sentEmails) {
+    const agentId = taskAgents.get(taskId) || "general";
+    const task = tasks.find((t) => t.id === taskId);
+    for (const raw of input?.to || []) {
+      const address = parseAddress(raw);
+      if (!address || teamEmails.has(address.email)) continue;
+      if (contactCount >= MAX_CONTACTS_PER_EVENT) break;
+      contactCount += 1;
+
+      const isVendor = VENDOR_LANES.includes(agentId);
+      const contactId = `${isVendor ? "vendor" : "person"}:${address.email}`;
+      nodes.push({
+        id: contactId,
+        type: isVendor ? "vendor" : "person",
+        label: namesByEmail.get(address.email) || address.name || address.email,
+        props: { email: address.email },
+      });
+      edges.push({ from: eventId, to: contactId, type: isVendor ? "worked_with" : "emailed", props: { subject: input.subject || null } });
+      if (isVendor) linkTopics(contactId, `${task?.title || ""} ${input.subject || ""}`);
+    }
+  }
+
+  // Luma: the people who RSVPed on the event's Luma page
+  const rsvpResult = messages.filter((m) => m.tool_name === "luma_get_rsvps" && m.tool_result?.data?.guests).pop();
+  for (const guest of rsvpResult?.tool_result.data.guests || []) {
+    const address = parseAddress(guest.email);
+    if (!address || contactCount >= MAX_CONTACTS_PER_EVENT) continue;
+    contactCount += 1;
+    const personId = `person:${address.email}`;
+    nodes.push({ id: personId, type: "person", label: guest.name || address.email, props: { email: address.email } });
+    edges.push({ from: personId, to: eventId, type: "rsvped", props: { status: guest.status || null } });
+  }
+
+  return { nodes, edges };
+}
+
+/**
+ * ingestEventKnowledge -> Re-derive one event's part of the graph (e.g. after its retro).
+ * @param {import("../repos/index.cjs").Repos} repos
+ * @param {string} eventUuid
+ */
+async function ingestEventKnowledge(repos, eventUuid) {
+  const { data: event, error } = await repos.events.get(eventUuid);
+  if (error) throw new Error(error.message);
+  if (!event) throw new Error("Event not found.");
+  replaceEventKnowledge(eventUuid, deriveEventKnowledge(event, await loadEventSources(repos, eventUuid)));
+}
+
+/**
+ * rebuildKnowledgeGraph -> Re-derive the whole graph from every event. User corrections are kept.
+ * @param {import("../repos/index.cjs").Repos} repos
+ * @returns {Promise<{ eventCount: number }>}
+ */
+async function rebuildKnowledgeGraph(repos) {
+  const { data: events, error } = await repos.events.list();
+  if (error) throw new Error(error.message);
+
+  const perEvent = [];
+  // Sequential on purpose: a handful of small queries per event, no need to flood Supabase
+  for (const event of events || []) {
+    perEvent.push({ eventUuid: event.id, derived: deriveEventKnowledge(event, await loadEventSources(repos, event.id)) });
+  }
+  replaceAllKnowledge(perEvent);
+  return { eventCount: perEvent.length };
+}
+
+module.exports = {
+  ingestEventKnowledge,
+  rebuildKnowledgeGraph,
+};
@@ -0,0 +1,102 @@
+/**
+ * laneScheduler.cjs -> Coordinates concurrent agent lanes.
+ * Each agent group (Guests, Venue & Catering, ...) runs its own EventOrchestrator.
+ * The scheduler caps how many lanes execute a task at once and lets a lane sleep
+ * until another lane changes a task (e.g. finishes a cross-lane dependency).
+ */
+
+/**
+ * LaneScheduler -> Counting semaphore + change signal shared by all lanes.
+ */
+class LaneScheduler {
+  /**
+   * @param {object} opts
+   * @param {number} opts.maxConcurrent - Max lanes executing a task at the same time
+   */
+  constructor(opts) {
+    this.maxConcurrent = Math.max(1, Number(opts.maxConcurrent) || 1);
+    this.active = 0;
+
+    /** @type {{ owner: object, resolve: function }[]} Lanes waiting for a slot (FIFO) */
+    this.queue = [];
+
+    /** @type {Set<function>} Resolvers for lanes waiting for a task change */
+    this.waiters = new Set();
+  }
+
+  /**
+   * setMaxConcurrent -> Change the cap; queued lanes start if slots opened up.
+   * @param {number} maxConcurrent
+   */
+  setMaxConcurrent(maxConcurrent) {
+    this.maxConcurrent = Math.max(1, Number(maxConcurrent) || 1);
+    this._drain();
+  }
+
+  /**
+   * acquire -> Wait for an execution slot. Resolves false, without a slot, when the wait
+   * is cancelled (see cancel); only a true result is released.
+   * @param {object} owner - The lane waiting, for cancel()
+   * @returns {Promise<boolean>}
+   */
+  acquire(owner) {
+    if (this.active < this.maxConcurrent) {
+      this.active++;
+      return Promise.resolve(true);
+    }
+    return new Promise((resolve) => this.queue.push({ owner, resolve }));
+  }
+
+  /**
+   * cancel -> Drop a lane's queued acquire() (e.g. the lane was stopped); it resolves false.
+   * @param {object} owner
+   */
+  cancel(owner) {
+    const cancelled = this.queue.filter((entry) => entry.owner === owner);
+    this.queue = this.queue.filter((entry) => entry.owner !== owner);
+    for (const entry of cancelled) entry.resolve(false);
+  }
+
+  /**
+   * release -> Give back an execution slot.
+   */
+  release() {
+    this.active = Math.max(0, this.active - 1);
+    this._drain();
+  }
+
+  /**
+   * waitForChange -> Sleep until notifyChange() is called or the timeout passes.
+   * The timeout lets lanes re-check state changed outside the orchestrator (e.g. the
+   * user marking a task done in the UI).
+   * @param {number} timeoutMs
+   * @returns {Promise<void>}
+   */
+  waitForChange(timeoutMs) {
+    return new Promise((resolve) => {
+      const done = () => {
+        clearTimeout(timer);
+        this.waiters.delete(done);
+        resolve();
+      };
+      const timer = setTimeout(done, timeoutMs);
+      this.waiters.add(done);
+    });
+  }
+
+  /**
+   * notifyChange -> Wake every lane waiting in waitForChange().
+   */
+  notifyChange() {
+    for (const done of [...this.waiters]) done();
+  }
+
+  _drain() {
+    while (this.queue.length > 0 && this.active < this.maxConcurrent) {
+      this.active++;
+      this.queue.shift().resolve(true);
+    }
+  }
+}
+
+module.exports = { LaneScheduler };
@@ -0,0 +1,171 @@
+/**
+ * modelRouter.cjs -> Picks a provider + model per purpose (planning, execution,
+ * category chat, subtasks), retries transient failures and falls back down the route.
+ * Routes come from MODEL_ROUTES, optionally overridden per purpose from settings.
+ */
+
+const { MODEL_ROUTES, MAX_TOKENS } = require("./types.cjs");
+const { AnthropicProvider } = require("./providers/anthropic.cjs");
+const { OpenAIProvider } = require("./providers/openai.cjs");
+const { StubProvider } = require("./providers/stub.cjs");
+
+/** MAX_RETRIES -> Extra attempts per route entry for retryable errors. */
+const MAX_RETRIES = 2;
+
+/** RETRY_BASE_MS -> First backoff delay; doubles on each retry. */
+const RETRY_BASE_MS = 1000;
+
+/** @type {Map<string, import("./providers/types.cjs").BaseProvider>} providerId -> provider */
+const providers = new Map();
+
+/** @type {Record<string, { provider: string, model: string }[]>} purpose -> route from settings */
+let routeOverrides = {};
+
+/** @type {boolean} forceStub -> Send every purpose to the offline stub */
+let forceStub = false;
+
+/**
+ * initProviders -> Create providers from API keys. Must be called once at app startup.
+ * @param {object} opts
+ * @param {string} [opts.anthropicApiKey]
+ * @param {string} [opts.openaiApiKey]
+ * @param {boolean} [opts.useStub] - Route everything to the offline stub provider
+ */
+function initProviders({ anthropicApiKey, openaiApiKey, useStub = false }) {
+  providers.clear();
+  providers.set("anthropic", new AnthropicProvider({ apiKey: anthropicApiKey }));
+  providers.set("openai", new OpenAIProvider({ apiKey: openaiApiKey }));
+  providers.set("stub", new StubProvider());
+  forceStub = useStub;
+}
+
+/**
+ * setRouteOverrides -> Replace per-purpose routes (from settings.json `modelRoutes`).
+ * Purposes without an override keep the MODEL_ROUTES default.
+ * @param {Record<string, { provider: string, model: string }[]> | null} overrides
+ */
+function setRouteOverrides(overrides) {
+  routeOverrides = overrides && typeof overrides === "object" ? overrides : {};
+}
+
+/**
+ * getRoute -> Available route entries for a purpose, in the order they are tried.
+ * @param {string} purpose
+ * @returns {{ provider: string, model: string }[]}
+ */
+function getRoute(purpose) {
+  if (forceStub) return [{ provider: "stub", model: "stub" }];
+  const route = Array.isArray(routeOverrides[purpose]) ? routeOverrides[purpose] : MODEL_ROUTES[purpose] || [];
+  return route.filter((entry) => providers.get(entry.provider)?.isAvailable());
+}
+
+/**
+ * hasProviderFor -> Whether any provider on the purpose's route is configured.
+ * @param {string} purpose
+ * @returns {boolean}
+ */
+function hasProviderFor(purpose) {
+  return getRoute(purpose).length > 0;
+}
+
+/**
+ * isRetryable -> Rate limits, overloads, server and network errors are worth retrying.
+ * @param {Error & { status?: number | null }} err
+ * @returns {boolean}
+ */
+function isRetryable(err) {
+  const status = err?.status;
+  if (status == null) return true;
+  return status === 408 || status === 409 || status === 429 || status >= 500;
+}
+
+/**
+ * runRoute -> Try each entry on the purpose's route with `call(provider, request)`.
+ * Retryable errors are retried with exponential backoff; anything still failing
+ * moves on to the next entry. Aborts (request.signal) are rethrown immediately,
+ * as are failures after `canRetry()` turns false (e.g. text already streamed).
+ * Throws the last error when the route is exhausted.
+ * @param {string} purpose
+ * @param {object} request - { system, messages, tools?, maxTokens?, signal? }
+ * @param {(provider: object, request: object) => Promise<object>} call
+ * @param {() => boolean} [canRetry]
+ * @returns {Promise<object>}
+ */
+async function runRoute(purpose, request, call, canRetry = () => true) {
+  const route = getRoute(purpose);
+  if (route.length === 0) {
+    throw new Error(`No AI provider configured for ${purpose}. Set ANTHROPIC_API_KEY or OPENAI_API_KEY.`);
+  }
+
+  const { signal } = request;
+  let lastError = null;
+  for (const entry of route) {
+    const provider = providers.get(entry.provider);
+    for (let attempt = 0; attempt <= MAX_RETRIES; attempt++) {
+      try {
+        return await call(provider, {
+          purpose,
+          model: entry.model,
+          system: request.system,
+          messages: request.messages,
+          tools: request.tools,
+          maxTokens: request.maxTokens || MAX_TOKENS,
+          signal,
+        });
+      } catch (err) {
+        if (signal?.aborted || !canRetry()) throw err;
+        lastError = err;
+        if (!isRetryable(err) || attempt === MAX_RETRIES) break;
+        const delay = RETRY_BASE_MS * 2 ** attempt;
+        console.warn(`[Eventropy] ${entry.provider}/${entry.model} failed (${err.message}); retrying in ${delay}ms`);
+        await new Promise((resolve) => setTimeout(resolve, delay));
+        if (signal?.aborted) throw err;
+      }
+    }
+    console.warn(`[Eventropy] ${entry.provider}/${entry.model} unavailable for ${purpose}, trying next model:`, lastError?.message);
+  }
+  throw lastError;
+}
+
+/**
+ * createMessage -> Call the first working entry on the purpose's route (see runRoute).
+ * @param {string} purpose - planning | execution | category_chat | subtasks | retro
+ * @param {object} request - { system, messages, tools?, maxTokens?, signal? }
+ * @returns {Promise<object>} Anthropic-shaped response (content, stop_reason, usage, model)
+ */
+async function createMessage(purpose, request) {
+  return runRoute(purpose, request, (provider, req) => provider.createMessage(req));
+}
+
+/**
+ * streamMessage -> Like createMessage, but reports text deltas through onText.
+ * Once any text has been streamed, a failure is not retried so the caller never
+ * sees the same words twice.
+ * @param {string} purpose
+ * @param {object} request - { system, messages, tools?, maxTokens?, signal? }
+ * @param {(text: string) => void} onText
+ * @returns {Promise<object>} Anthropic-shaped response (content, stop_reason, usage, model)
+ */
+async function streamMessage(purpose, request, onText) {
+  let streamed = false;
+  const handleText = (text) => {
+    streamed = true;
+    onText(text);
+  };
+  return runRoute(
+    purpose,
+    request,
+    (provider, req) => provider.streamMessage(req, handleText),
+    () => !streamed
+  );
+}
+
+module.exports = {
+  initProviders,
+  setRouteOverrides,
+  getRoute,
+  hasProviderFor,
+  isRetryable,
+  createMessage,
+  streamMessage,
+};
@@ -0,0 +1,53 @@
+/**
+ * anthropic.cjs -> Claude via the Anthropic SDK. Native format, so requests pass through.
+ */
+
+const Anthropic = require("@anthropic-ai/sdk");
+const { BaseProvider } = require("./types.cjs");
+
+class AnthropicProvider extends BaseProvider {
+  /**
+   * @param {object} opts
+   * @param {string} [opts.apiKey] - ANTHROPIC_API_KEY
+   */
+  constructor(opts = {}) {
+    super({ id: "anthropic", name: "Anthropic" });
+    const apiKey = opts.apiKey?.trim();
+    // Retries are handled by the model router so fallbacks kick in predictably
+    this.client = apiKey ? new Anthropic({ apiKey, maxRetries: 0 }) : null;
+  }
+
+  isAvailable() {
+    return this.client !== null;
+  }
+
+  async createMessage({ model, system, messages, tools, maxTokens, signal }) {
+    return this.client.messages.create(
+      {
+        model,
+        max_tokens: maxTokens,
+        system,
+        messages,
+        ...(tools && tools.length > 0 ? { tools } : {}),
+      },
+      { signal }
+    );
+  }
+
+  async streamMessage({ model, system, messages, tools, maxTokens, signal }, onText) {
+    const stream = this.client.messages.stream(
+      {
+        model,
+        max_tokens: maxTokens,
+        system,
+        messages,
+        ...(tools && tools.length > 0 ? { tools } : {}),
+      },
+      { signal }
+    );
+    stream.on("text", onText);
+    return stream.finalMessage();
+  }
+}
+
+module.exports = { AnthropicProvider };
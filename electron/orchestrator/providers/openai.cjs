@@ -0,0 +1,166 @@
+/**
+ * openai.cjs -> OpenAI Chat Completions, translated to and from the Anthropic message shape.
+ * Runs in the main process only, so the API key never reaches the renderer.
+ */
+
+const { BaseProvider, ProviderError } = require("./types.cjs");
+
+const OPENAI_URL = "https://api.openai.com/v1/chat/completions";
+
+class OpenAIProvider extends BaseProvider {
+  /**
+   * @param {object} opts
+   * @param {string} [opts.apiKey] - OPENAI_API_KEY
+   */
+  constructor(opts = {}) {
+    super({ id: "openai", name: "OpenAI" });
+    this.apiKey = opts.apiKey?.trim() || null;
+  }
+
+  isAvailable() {
+    return this.apiKey !== null;
+  }
+
+  async createMessage({ model, system, messages, tools, maxTokens, signal }) {
+    let res;
+    try {
+      res = await fetch(OPENAI_URL, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          Authorization: `Bearer ${this.apiKey}`,
+        },
+        body: JSON.stringify({
+          model,
+          max_tokens: maxTokens,
+          messages: [{ role: "system", content: system }, ...toOpenAIMessages(messages)],
+          ...(tools && tools.length > 0 ? { tools: tools.map(toOpenAITool) } : {}),
+        }),
+        signal,
+      });
+    } catch (err) {
+      if (signal?.aborted) throw err;
+      throw new ProviderError(`OpenAI request failed: ${err.message}`, null);
+    }
+
+    if (!res.ok) {
+      const body = await res.text().catch(() => "");
+      throw new ProviderError(`OpenAI error ${res.status}: ${body.slice(0, 300)}`, res.status);
+    }
+
+    const data = await res.json();
+    return fromOpenAIResponse(data, model);
+  }
+}
+
+/**
+ * toOpenAITool -> Anthropic tool definition -> OpenAI function tool.
+ * @param {object} tool
+ * @returns {object}
+ */
+function toOpenAITool(tool) {
+  return {
+    type: "function",
+    function: {
+      name: tool.name,
+      description: tool.description,
+      parameters: tool.input_schema,
+    },
+  };
+}
+
+/**
+ * blockText -> Text of a tool_result content value (string or content blocks).
+ * @param {unknown} content
+ * @returns {string}
+ */
+function blockText(content) {
+  if (typeof content === "string") return content;
+  if (Array.isArray(content)) {
+    return content
+      .map((block) => (block.type === "text" ? block.text : JSON.stringify(block)))
+      .join("\n");
+  }
+  return JSON.stringify(content ?? "");
+}
+
+/**
+ * toOpenAIMessages -> Anthropic history -> OpenAI chat messages.
+ * tool_use blocks become assistant tool_calls; tool_result blocks become `tool` messages,
+ * which OpenAI requires directly after the assistant turn that made the calls.
+ * @param {object[]} messages
+ * @returns {object[]}
+ */
+function toOpenAIMessages(messages) {
+  const out = [];
+  for (const msg of messages) {
+    if (typeof msg.content === "string") {
+      out.push({ role: msg.role, content: msg.content });
+      continue;
+    }
+
+    const blocks = Array.isArray(msg.content) ? msg.content : [];
+    const text = blocks
+      .filter((b) => b.type === "text")
+      .map((b) => b.text)
+      .join("\n");
+
+    if (msg.role === "assistant") {
+      const toolCalls = blocks
+        .filter((b) => b.type === "tool_use")
+        .map((b) => ({
+          id: b.id,
+          type: "function",
+          function: { name: b.name, arguments: JSON.stringify(b.input ?? {}) },
+        }));
+      out.push({
+        role: "assistant",
+        content: text || null,
+        ...(toolCalls.length > 0 ? { tool_calls: toolCalls } : {}),
+      });
+      continue;
+    }
+
+    for (const block of blocks.filter((b) => b.type === "tool_result")) {
+      out.push({ role: "tool", tool_call_id: block.tool_use_id, content: blockText(block.content) });
+    }
+    if (text) out.push({ role: "user", content: text });
+  }
+  return out;
+}
+
+/**
+ * fromOpenAIResponse -> OpenAI completion -> Anthropic-shaped message.
+ * @param {object} data - Chat Completions response body
+ * @param {string} model - Requested model (fallback when the response omits it)
+ * @returns {object}
+ */
+function fromOpenAIResponse(data, model) {
+  const choice = data.choices?.[0] || {};
+  const message = choice.message || {};
+  const content = [];
+
+  if (message.content) content.push({ type: "text", text: message.content });
+  for (const call of message.tool_calls || []) {
+    let input = {};
+    try {
+      input = JSON.parse(call.function?.arguments || "{}");
+    } catch {
+      // Leave input empty; the tool handler reports the missing arguments
+    }
+    content.push({ type: "tool_use", id: call.id, name: call.function?.name, input });
+  }
+
+  const stopReasons = { tool_calls: "tool_use", length: "max_tokens" };
+  return {
+    model: data.model || model,
+    content,
+    stop_reason: stopReasons[choice.finish_reason] || "end_turn",
+    usage: {
+      input_tokens: data.usage?.prompt_tokens || 0,
+      output_tokens: data.usage?.completion_tokens || 0,
+    },
+  };
+}
+
+module.exports = { OpenAIProvider };
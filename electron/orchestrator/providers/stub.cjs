@@ -0,0 +1,121 @@
+/**
+ * stub.cjs -> Offline provider for development. Returns canned, deterministic responses
+ * per purpose so the whole app (planning, agent runs, chat, subtasks) works without
+ * API keys or network. Enable with EVENTROPY_AI_PROVIDER=stub.
+ */
+
+const { BaseProvider } = require("./types.cjs");
+
+const STUB_MODEL = "stub";
+
+class StubProvider extends BaseProvider {
+  constructor() {
+    super({ id: "stub", name: "Offline stub" });
+  }
+
+  isAvailable() {
+    return true;
+  }
+
+  async createMessage({ purpose, messages, tools }) {
+    const lastUserText = lastUserMessageText(messages);
+    switch (purpose) {
+      case "planning":
+        return textResponse(JSON.stringify(STUB_PLAN));
+      case "subtasks":
+        return textResponse(JSON.stringify(stubSubtasks(lastUserText)));
+      case "execution":
+        return executionResponse(messages, tools);
+      case "retro":
+        return textResponse(JSON.stringify(STUB_RETRO));
+      default:
+        return textResponse(`(offline stub) You said: "${lastUserText.slice(0, 200)}"`);
+    }
+  }
+}
+
+/** STUB_PLAN -> Two tasks per agent group, with one cross-group dependency. */
+const STUB_PLAN = [
+  { title: "Draft guest list", description: "List the people to invite.", priority: 2, agentId: "guests", dependencies: [] },
+  { title: "Send invitations", description: "Email invitations to the guest list.", priority: 1, agentId: "guests", dependencies: [0, 2] },
+  { title: "Shortlist venues", description: "Find 3 venues that fit the budget.", priority: 2, agentId: "venue-catering", dependencies: [] },
+  { title: "Pick a caterer", description: "Compare two catering quotes.", priority: 1, agentId: "venue-catering", dependencies: [2] },
+  { title: "Plan the program", description: "Outline the agenda and activities.", priority: 1, agentId: "entertainment-logistics", dependencies: [] },
+  { title: "Book AV equipment", description: "Reserve microphones and a projector.", priority: 0, agentId: "entertainment-logistics", dependencies: [4] },
+  { title: "Set the budget", description: "Split the budget across categories.", priority: 2, agentId: "general", dependencies: [] },
+  { title: "Day-of checklist", description: "Write the day-of checklist.", priority: 0, agentId: "general", dependencies: [6] },
+];
+
+/** STUB_RETRO -> Canned retrospective sections. */
+const STUB_RETRO = {
+  summary: "Offline stub retrospective. Connect a model provider for a real analysis.",
+  wentWell: ["Tasks were planned across all four agent groups."],
+  didntGoWell: ["No model was available to analyse the event."],
+  recurringBlockers: [],
+  recommendations: ["Set ANTHROPIC_API_KEY or OPENAI_API_KEY and regenerate this retro."],
+};
+
+/**
+ * stubSubtasks -> Three generic subtasks for a task title.
+ * @param {string} prompt
+ * @returns {{ title: string }[]}
+ */
+function stubSubtasks(prompt) {
+  const match = /Task:\s*(.+)/.exec(prompt);
+  const title = (match ? match[1] : prompt).split("\n")[0].trim() || "this task";
+  return [{ title: `Research ${title}` }, { title: `Draft ${title}` }, { title: `Confirm ${title}` }];
+}
+
+/**
+ * executionResponse -> First turn reports progress, the next one completes the task.
+ * @param {object[]} messages
+ * @param {object[]} [tools]
+ * @returns {object}
+ */
+function executionResponse(messages, tools) {
+  const toolNames = new Set((tools || []).map((t) => t.name));
+  const assistantTurns = messages.filter((m) => m.role === "assistant").length;
+
+  if (assistantTurns === 0 && toolNames.has("update_task_progress")) {
+    return toolResponse("update_task_progress", { progress: "Working offline (stub provider)", percentage: 50 });
+  }
+  if (toolNames.has("mark_task_complete")) {
+    return toolResponse("mark_task_complete", { summary: "Completed by the offline stub provider." });
+  }
+  return textResponse("(offline stub) Nothing to do.");
+}
+
+/**
+ * lastUserMessageText -> Text of the most recent user turn.
+ * @param {object[]} messages
+ * @returns {string}
+ */
+function lastUserMessageText(messages) {
+  const last = [...(messages || [])].reverse().find((m) => m.role === "user");
+  if (!last) return "";
+  if (typeof last.content === "string") return last.content;
+  return (last.content || [])
+    .filter((b) => b.type === "text")
+    .map((b) => b.text)
+    .join("\n");
+}
+
+function textResponse(text) {
+  return {
+    model: STUB_MODEL,
+    content: [{ type: "text", text }],
+    stop_reason: "end_turn",
+    usage: { input_tokens: 0, output_tokens: 0 },
+  };
+}
+
+function toolResponse(name, input) {
+  return {
+    model: STUB_MODEL,
+    content: [{ type: "tool_use", id: `stub_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`, name, input }],
+    stop_reason: "tool_use",
+    usage: { input_tokens: 0, output_tokens: 0 },
+  };
+}
+
+module.exports = { StubProvider };
@@ -0,0 +1,78 @@
+/**
+ * types.cjs -> Model provider base class.
+ * Every provider speaks the Anthropic Messages shape (content blocks, tool_use /
+ * tool_result, stop_reason, usage) so the orchestrator never sees provider details.
+ */
+
+/**
+ * BaseProvider -> Abstract base for all model providers.
+ * Subclasses must implement isAvailable() and createMessage().
+ */
+class BaseProvider {
+  /**
+   * @param {object} opts
+   * @param {string} opts.id - Provider identifier used in MODEL_ROUTES ("anthropic", "openai", "stub")
+   * @param {string} opts.name - Display name
+   */
+  constructor(opts) {
+    this.id = opts.id;
+    this.name = opts.name;
+  }
+
+  /**
+   * isAvailable -> Whether the provider has what it needs (e.g. an API key).
+   * @returns {boolean}
+   */
+  isAvailable() {
+    throw new Error("isAvailable() must be implemented by subclass.");
+  }
+
+  /**
+   * createMessage -> One model call.
+   * @param {object} request
+   * @param {string} request.purpose - planning | execution | category_chat | subtasks | retro
+   * @param {string} request.model - Model id for this provider
+   * @param {string} request.system - System prompt
+   * @param {object[]} request.messages - Anthropic-format message history
+   * @param {object[]} [request.tools] - Anthropic-format tool definitions
+   * @param {number} request.maxTokens
+   * @param {AbortSignal} [request.signal] - Aborts the in-flight request
+   * @returns {Promise<{ model: string, content: object[], stop_reason: string, usage: object }>}
+   */
+  async createMessage(request) {
+    throw new Error("createMessage() must be implemented by subclass.");
+  }
+
+  /**
+   * streamMessage -> One model call that reports text as it is generated.
+   * Default: a regular call whose text arrives as a single delta.
+   * @param {object} request - Same as createMessage()
+   * @param {(text: string) => void} onText - Called with each text delta
+   * @returns {Promise<{ model: string, content: object[], stop_reason: string, usage: object }>}
+   */
+  async streamMessage(request, onText) {
+    const response = await this.createMessage(request);
+    for (const block of response.content) {
+      if (block.type === "text" && block.text) onText(block.text);
+    }
+    return response;
+  }
+}
+
+/**
+ * ProviderError -> Error with the HTTP status (when known) so the router can decide
+ * whether to retry.
+ */
+class ProviderError extends Error {
+  /**
+   * @param {string} message
+   * @param {number | null} status - HTTP status, or null for network errors
+   */
+  constructor(message, status) {
+    super(message);
+    this.name = "ProviderError";
+    this.status = status;
+  }
+}
+
+module.exports = { BaseProvider, ProviderError };
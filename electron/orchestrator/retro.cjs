@@ -0,0 +1,270 @@
+/**
+ * retro.cjs -> Post-event retrospective. Gathers tasks (with agent summaries),
+ * orchestrator messages and notifications, goals and Luma RSVPs, computes outcome
+ * metrics, asks the model for the narrative and stores the result in event_retros
+ * (migration 009), then sets events.retro_created.
+ */
+
+const { buildRetroPrompt, generateRetroSections } = require("./claude.cjs");
+
+/** MAX_AGENT_NOTES -> Most recent assistant messages from agent runs included in the prompt. */
+const MAX_AGENT_NOTES = 40;
+
+/** AGENT_NOTE_CHARS -> Each agent message is truncated to this many characters. */
+const AGENT_NOTE_CHARS = 300;
+
+/**
+ * loadRetroInputs -> Everything the retro is based on, for one event.
+ * @param {import("../repos/index.cjs").Repos} repos
+ * @param {string} eventUuid
+ * @returns {Promise<{ event: object, tasks: object[], messages: object[], notifications: object[], aiCostUsd: number }>}
+ */
+async function loadRetroInputs(repos, eventUuid) {
+  const { data: event, error: eventErr } = await repos.events.get(eventUuid);
+  if (eventErr) throw new Error(eventErr.message);
+  if (!event) throw new Error("Event not found.");
+
+  const [{ data: tasks }, { data: runs }, { data: notifications }, { data: usage }] = await Promise.all([
+    repos.tasks.list({ eventId: eventUuid }),
+    repos.orchestrator.listEventRuns(eventUuid),
+    repos.orchestrator.listEventNotifications(eventUuid),
+    repos.usage.byEvent({ eventId: eventUuid }),
+  ]);
+
+  const runIds = (runs || []).map((r) => r.id);
+  let messages = [];
+  if (runIds.length > 0) {
+    // Newest first so the note limit keeps the latest activity
+    const { data } = await repos.orchestrator.listRunMessages(runIds, { limit: 500 });
+    messages = data || [];
+  }
+
+  return {
+    event,
+    tasks: tasks || [],
+    messages,
+    notifications: notifications || [],
+    aiCostUsd: Number(usage?.[0]?.cost_usd) || 0,
+  };
+}
+
+/**
+ * findLumaEventId -> Luma event the agents created or worked with, from tool calls.
+ * @param {object[]} messages - orchestrator_messages rows
+ * @returns {string | null}
+ */
+function findLumaEventId(messages) {
+  for (const m of messages) {
+    if (m.tool_name === "luma_create_event" && m.tool_result?.data?.eventId) {
+      return m.tool_result.data.eventId;
+    }
+    if ((m.tool_name === "luma_get_rsvps" || m.tool_name === "luma_update_event") && m.tool_input?.event_id) {
+      return m.tool_input.event_id;
+    }
+  }
+  return null;
+}
+
+/**
+ * loadLumaRsvps -> RSVP counts for the event's Luma page, or null when Luma is not
+ * connected or no matching Luma event is found. Falls back to matching past Luma
+ * events by name and date. Never throws; a retro without RSVPs is still useful.
+ * @param {object | undefined} lumaConnector - Connected LumaConnector
+ * @param {object} event - events row
+ * @param {object[]} messages - orchestrator_messages rows
+ * @returns {Promise<{ lumaEventId: string, total: number, byStatus: Record<string, number> } | null>}
+ */
+async function loadLumaRsvps(lumaConnector, event, messages) {
+  if (!lumaConnector?.isConnected) return null;
+  try {
+    let lumaEventId = findLumaEventId(messages);
+    if (!lumaEventId) {
+      const { events } = await lumaConnector.executeTool("luma_list_events", { status: "past", limit: 50 });
+      const name = String(event.name || "").trim().toLowerCase();
+      const match = (events || []).find(
+        (e) =>
+          String(e.name || "").trim().toLowerCase() === name &&
+          (!event.event_date || String(e.startAt || "").slice(0, 10) === String(event.event_date).slice(0, 10))
+      );
+      lumaEventId = match?.id || null;
+    }
+    if (!lumaEventId) return null;
+
+    const { guests, totalCount } = await lumaConnector.executeTool("luma_get_rsvps", { event_id: lumaEventId });
+    const byStatus = {};
+    for (const guest of guests || []) {
+      const status = guest.status || "unknown";
+      byStatus[status] = (byStatus[status] || 0) + 1;
+    }
+    return { lumaEventId, total: totalCount || 0, byStatus };
+  } catch (err) {
+    console.warn("[Eventropy] Retro: could not load Luma RSVPs:", err.message);
+    return null;
+  }
+}
+
+/**
+ * computeRetroMetrics -> Outcome numbers for the retro (stored as event_retros.metrics).
+ * A task is late when it was completed after the end of its due date.
+ * @param {object} input
+ * @param {object} input.event - events row
+ * @param {object[]} input.tasks - tasks rows
+ * @param {object[]} input.notifications - orchestrator_notifications rows
+ * @param {number} input.aiCostUsd
+ * @param {object | null} input.rsvps - loadLumaRsvps() result
+ * @returns {object}
+ */
+function computeRetroMetrics({ event, tasks, notifications, aiCostUsd, rsvps }) {
+  const done = tasks.filter((t) => t.status === "done");
+  const late = done.filter((t) => {
+    if (!t.due_date || !t.completed_at) return false;
+    const dueEnd = new Date(`${String(t.due_date).slice(0, 10)}T23:59:59.999Z`);
+    return new Date(t.completed_at) > dueEnd;
+  });
+
+  const byAgent = {};
+  for (const t of tasks) {
+    const agentId = t.agent_id || "general";
+    byAgent[agentId] = byAgent[agentId] || { total: 0, done: 0 };
+    byAgent[agentId].total += 1;
+    if (t.status === "done") byAgent[agentId].done += 1;
+  }
+
+  const target = Number(event.goals?.attendanceTarget) || null;
+  const expected = parseInt(event.guest_count, 10) || null;
+  const approved = rsvps ? rsvps.byStatus.approved || 0 : null;
+
+  return {
+    tasksTotal: tasks.length,
+    tasksDone: done.length,
+    tasksBlocked: tasks.filter((t) => t.status === "blocked").length,
+    tasksOpen: tasks.length - done.length,
+    tasksLate: late.length,
+    completionRate: tasks.length > 0 ? done.length / tasks.length : 0,
+    byAgent,
+    inputRequests: notifications.filter((n) => n.type === "input_needed").length,
+    agentErrors: notifications.filter((n) => n.type === "error").length,
+    aiCostUsd,
+    attendance: {
+      target,
+      expected,
+      actual: approved,
+      source: rsvps ? "approved Luma RSVPs" : null,
+      lumaEventId: rsvps?.lumaEventId ?? null,
+      rsvpsByStatus: rsvps?.byStatus ?? null,
+    },
+  };
+}
+
+/**
+ * renderRetroMarkdown -> The retro document stored in event_retros.content.
+ * @param {object} event - events row
+ * @param {object} metrics - computeRetroMetrics() output
+ * @param {object} sections - generateRetroSections() output
+ * @returns {string}
+ */
+function renderRetroMarkdown(event, metrics, sections) {
+  const bullets = (items) => (items.length > 0 ? items.map((item) => `- ${item}`).join("\n") : "- None noted");
+  const { attendance } = metrics;
+  const attendanceLine =
+    attendance.actual != null
+      ? `${attendance.actual} ${attendance.source}${attendance.target ? ` vs. a target of ${attendance.target}` : ""}`
+      : attendance.target
+        ? `Unknown (target ${attendance.target})`
+        : "Unknown";
+
+  return `# Retrospective: ${event.name || "Untitled Event"}
+
+${sections.summary}
+
+## By the numbers
+- **Tasks completed**: ${metrics.tasksDone}/${metrics.tasksTotal} (${Math.round(metrics.completionRate * 100)}%)
+- **Finished late**: ${metrics.tasksLate}
+- **Still blocked**: ${metrics.tasksBlocked}
+- **Attendance**: ${attendanceLine}
+- **Agent questions / errors**: ${metrics.inputRequests} / ${metrics.agentErrors}
+- **AI spend**: $${metrics.aiCostUsd.toFixed(2)}
+
+## What went well
+${bullets(sections.wentWell)}
+
+## What didn't go well
+${bullets(sections.didntGoWell)}
+
+## Recurring blockers
+${bullets(sections.recurringBlockers)}
+
+## Next time
+${bullets(sections.recommendations)}
+`;
+}
+
+/**
+ * generateEventRetro -> Build, store and return the retro for an event. Replaces any
+ * earlier retro for the same event and marks the event retro_created.
+ * @param {import("../repos/index.cjs").Repos} repos
+ * @param {string} eventUuid
+ * @param {object} [opts]
+ * @param {object} [opts.lumaConnector] - LumaConnector, for RSVP data when connected
+ * @returns {Promise<object>} event_retros row
+ */
+async function generateEventRetro(repos, eventUuid, { lumaConnector } = {}) {
+  const { event, tasks, messages, notifications, aiCostUsd } = await loadRetroInputs(repos, eventUuid);
+  const rsvps = await loadLumaRsvps(lumaConnector, event, messages);
+  const metrics = computeRetroMetrics({ event, tasks, notifications, aiCostUsd, rsvps });
+
+  const agentNotes = messages
+    .filter((m) => m.role === "assistant" && m.content)
+    .slice(0, MAX_AGENT_NOTES)
+    .reverse()
+    .map((m) => (m.content.length > AGENT_NOTE_CHARS ? `${m.content.slice(0, AGENT_NOTE_CHARS)}…` : m.content));
+
+  const sections = await generateRetroSections(
+    buildRetroPrompt({ event, metrics, tasks, agentNotes, notifications }),
+    { eventId: eventUuid }
+  );
+
+  const { data: row, error } = await repos.retros.upsert({
+    event_id: eventUuid,
+    summary: sections.summary,
+    went_well: sections.wentWell,
+    didnt_go_well: sections.didntGoWell,
+    recurring_blockers: sections.recurringBlockers,
+    recommendations: sections.recommendations,
+    metrics,
+    content: renderRetroMarkdown(event, metrics, sections),
+  });
+  if (error) throw new Error(error.message);
+
+  const { error: flagErr } = await repos.events.update(eventUuid, { retro_created: true });
+  if (flagErr) console.warn("[Eventropy] Retro saved but retro_created was not set:", flagErr.message);
+
+  return row;
+}
+
+/**
+ * retroRowToRetro -> Map an event_retros row to the renderer EventRetro shape.
+ * @param {object} row
+ * @returns {object}
+ */
+function retroRowToRetro(row) {
+  return {
+    id: row.id,
+    eventId: row.event_id,
+    summary: row.summary,
+    wentWell: row.went_well || [],
+    didntGoWell: row.didnt_go_well || [],
+    recurringBlockers: row.recurring_blockers || [],
+    recommendations: row.recommendations || [],
+    metrics: row.metrics || {},
+    content: row.content,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+module.exports = {
+  generateEventRetro,
+  computeRetroMetrics,
+  retroRowToRetro,
+};
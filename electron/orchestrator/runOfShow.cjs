@@ -0,0 +1,247 @@
+/**
+ * runOfShow.cjs -> The run-of-show tools (RUN_OF_SHOW_TOOLS in types.cjs) over the
+ * run_of_show_segments table (migration 020). Shared by the category chat and the
+ * orchestrator lane. Segments added by the agent are marked source "agent"; every result
+ * carries the schedule with its overlaps and gaps so the model can fix them.
+ */
+
+const { RUN_OF_SHOW_TOOLS } = require("./types.cjs");
+
+/** RUN_OF_SHOW_TOOL_NAMES -> Names of the tools handled here. */
+const RUN_OF_SHOW_TOOL_NAMES = new Set(RUN_OF_SHOW_TOOLS.map((t) => t.name));
+
+/** MAX_SEGMENTS -> Segments one add_segments call may add. */
+const MAX_SEGMENTS = 40;
+
+const DAY = 24 * 60;
+
+/**
+ * isRunOfShowTool -> Whether executeRunOfShowTool handles a tool.
+ * @param {string} name
+ * @returns {boolean}
+ */
+function isRunOfShowTool(name) {
+  return RUN_OF_SHOW_TOOL_NAMES.has(name);
+}
+
+/**
+ * parseTime -> Minutes from midnight for "HH:MM", or null.
+ * @param {unknown} value
+ */
+function parseTime(value) {
+  const match = /^(\d{1,2}):(\d{2})$/.exec(String(value ?? "").trim());
+  if (!match) return null;
+  const hours = Number(match[1]);
+  const minutes = Number(match[2]);
+  return hours < 24 && minutes < 60 ? hours * 60 + minutes : null;
+}
+
+/**
+ * formatTime -> "HH:MM" for minutes from midnight (wraps past midnight).
+ * @param {number} minutes
+ */
+function formatTime(minutes) {
+  const m = ((Math.round(minutes) % DAY) + DAY) % DAY;
+  return `${String(Math.floor(m / 60)).padStart(2, "0")}:${String(m % 60).padStart(2, "0")}`;
+}
+
+/**
+ * schedule -> Segments with their times, and the overlaps, gaps and segments outside the
+ * event's hours. Matches scheduleTimeline and findScheduleIssues in src/lib/runOfShow.ts;
+ * runOfShow.test.cjs runs the same cases against both.
+ * @param {object[]} rows - run_of_show_segments rows in position order
+ * @param {object | null} event - events row
+ */
+function schedule(rows, event) {
+  const eventStart = parseTime(event?.start_time);
+  let eventEnd = parseTime(event?.end_time);
+  if (eventEnd != null && eventStart != null && eventEnd <= eventStart) eventEnd += DAY;
+
+  let previousStart = null;
+  let cursor = null;
+  const timed = rows.map((row) => {
+    const own = parseTime(row.start_time);
+    let start = own != null ? own : (cursor ?? eventStart);
+    const reference = previousStart ?? eventStart;
+    if (own != null && reference != null) while (start < reference - DAY / 2) start += DAY;
+    const end = start == null ? null : start + row.duration_minutes;
+    if (start != null) previousStart = start;
+    cursor = end;
+    return { row, start, end };
+  });
+
+  const issues = [];
+  let latest = null;
+  for (const { row, start, end } of timed) {
+    if (start == null) continue;
+    if (latest && start < latest.end) {
+      issues.push({ kind: "overlap", segmentId: row.id, minutes: latest.end - start, with: latest.row.title });
+    } else if (latest && start > latest.end) {
+      issues.push({ kind: "gap", segmentId: row.id, minutes: start - latest.end, after: latest.row.title });
+    }
+    if (eventStart != null && start < eventStart) {
+      issues.push({ kind: "before-start", segmentId: row.id, minutes: eventStart - start });
+    }
+    if (eventEnd != null && end > eventEnd) {
+      issues.push({ kind: "after-end", segmentId: row.id, minutes: end - eventEnd });
+    }
+    if (!latest || end > latest.end) latest = { row, end };
+  }
+
+  return {
+    eventStartTime: event?.start_time || null,
+    eventEndTime: event?.end_time || null,
+    segments: timed.map(({ row, start, end }) => ({
+      id: row.id,
+      position: row.position,
+      title: row.title,
+      startTime: start == null ? null : formatTime(start),
+      endTime: end == null ? null : formatTime(end),
+      followsOn: parseTime(row.start_time) == null,
+      durationMinutes: row.duration_minutes,
+      owner: row.owner,
+      location: row.location,
+      avCues: row.av_cues,
+      notes: row.notes,
+    })),
+    issues,
+  };
+}
+
+/**
+ * segmentFields -> run_of_show_segments columns for the fields given in a tool input.
+ * @param {object} input
+ * @returns {{ fields?: object, error?: string }}
+ */
+function segmentFields(input) {
+  const fields = {};
+  if (input.title !== undefined) {
+    const title = String(input.title).trim();
+    if (!title) return { error: "A segment needs a title" };
+    fields.title = title;
+  }
+  if (input.startTime !== undefined) {
+    const text = String(input.startTime ?? "").trim();
+    const start = parseTime(text);
+    if (text && start == null) return { error: `Start time must be HH:MM, got "${text}"` };
+    fields.start_time = start == null ? null : formatTime(start);
+  }
+  if (input.durationMinutes !== undefined) {
+    const minutes = Math.round(Number(input.durationMinutes));
+    if (!(minutes > 0)) return { error: "Duration must be at least 1 minute" };
+    fields.duration_minutes = minutes;
+  }
+  for (const [key, column] of [
+    ["owner", "owner"],
+    ["location", "location"],
+    ["avCues", "av_cues"],
+    ["notes", "notes"],
+  ]) {
+    if (input[key] !== undefined) fields[column] = String(input[key] ?? "").trim() || null;
+  }
+  return { fields };
+}
+
+/**
+ * executeRunOfShowTool -> Run one run-of-show tool for an event.
+ * @param {import("../repos/index.cjs").Repos} repos
+ * @param {string | null} eventUuid - events.id
+ * @param {string} name - Tool name (RUN_OF_SHOW_TOOLS)
+ * @param {object} input - Tool input
+ * @returns {Promise<{ result: object, summary: string, changed: boolean }>}
+ *   changed -> A segment was written; the renderer should reload the run of show
+ */
+async function executeRunOfShowTool(repos, eventUuid, name, input = {}) {
+  if (!eventUuid) return { result: { error: "No event ID provided" }, summary: "No event ID", changed: false };
+
+  const { data: event } = await repos.events.get(eventUuid);
+  const load = async () => {
+    const { data, error } = await repos.runOfShow.list(eventUuid);
+    if (error) throw new Error(error.message);
+    return data || [];
+  };
+  let rows = await load();
+
+  switch (name) {
+    case "get_run_of_show": {
+      const current = schedule(rows, event);
+      return {
+        result: current,
+        summary: `Read the run of show (${rows.length} segment(s), ${current.issues.length} issue(s))`,
+        changed: false,
+      };
+    }
+
+    case "add_segments": {
+      const drafts = Array.isArray(input.segments) ? input.segments.slice(0, MAX_SEGMENTS) : [];
+      if (drafts.length === 0) return { result: { error: "No segments given" }, summary: "No segments given", changed: false };
+      const prepared = [];
+      for (const [index, draft] of drafts.entries()) {
+        const { fields, error } = segmentFields({ durationMinutes: 15, ...draft });
+        if (error) return { result: { error: `Segment ${index + 1}: ${error}` }, summary: error, changed: false };
+        if (!fields.title) {
+          return { result: { error: `Segment ${index + 1}: A segment needs a title` }, summary: "Missing segment title", changed: false };
+        }
+        prepared.push(fields);
+      }
+      let position = rows.reduce((max, row) => Math.max(max, row.position + 1), 0);
+      for (const fields of prepared) {
+        const { error } = await repos.runOfShow.insert({ ...fields, event_id: eventUuid, position: position++, source: "agent" });
+        if (error) throw new Error(error.message);
+      }
+      const current = schedule(await load(), event);
+      return {
+        result: { success: true, added: prepared.length, ...current },
+        summary: `Added ${prepared.length} run-of-show segment(s)${current.issues.length ? ` (${current.issues.length} issue(s))` : ""}`,
+        changed: true,
+      };
+    }
+
+    case "update_segment": {
+      const row = rows.find((r) => r.id === input.segmentId);
+      if (!row) return { result: { error: "Segment not found" }, summary: "Segment not found", changed: false };
+      const { fields, error } = segmentFields(input);
+      if (error) return { result: { error }, summary: error, changed: false };
+      if (Object.keys(fields).length > 0) {
+        const { error: updErr } = await repos.runOfShow.update(row.id, fields);
+        if (updErr) throw new Error(updErr.message);
+      }
+      if (input.position !== undefined) {
+        // Renumber the whole order from 0 with the segment at its new place
+        const ordered = rows.filter((r) => r.id !== row.id);
+        const to = Math.max(0, Math.min(Math.round(Number(input.position)) || 0, ordered.length));
+        ordered.splice(to, 0, row);
+        for (const [index, r] of ordered.entries()) {
+          if (r.position === index) continue;
+          const { error: posErr } = await repos.runOfShow.update(r.id, { position: index });
+          if (posErr) throw new Error(posErr.message);
+        }
+      }
+      rows = await load();
+      const current = schedule(rows, event);
+      return {
+        result: { success: true, ...current },
+        summary: `Updated segment "${fields.title || row.title}"`,
+        changed: true,
+      };
+    }
+
+    case "remove_segment": {
+      const row = rows.find((r) => r.id === input.segmentId);
+      if (!row) return { result: { error: "Segment not found" }, summary: "Segment not found", changed: false };
+      const { error } = await repos.runOfShow.remove(row.id);
+      if (error) throw new Error(error.message);
+      const current = schedule(await load(), event);
+      return {
+        result: { success: true, ...current },
+        summary: `Removed segment "${row.title}"`,
+        changed: true,
+      };
+    }
+
+    default:
+      return { result: { error: `Unknown tool: ${name}` }, summary: `Unknown tool: ${name}`, changed: false };
+  }
+}
+
+module.exports = { isRunOfShowTool, executeRunOfShowTool, schedule };
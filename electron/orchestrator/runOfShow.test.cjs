@@ -0,0 +1,137 @@
+/**
+ * runOfShow.test.cjs -> The agent tools' schedule() (runOfShow.cjs) and the editor's
+ * scheduleTimeline/findScheduleIssues (src/lib/runOfShow.ts) are two copies of the same
+ * rules. Every case here runs against both, so they cannot drift apart.
+ * Run with `npm test`.
+ */
+
+const { test } = require("node:test");
+const assert = require("node:assert/strict");
+const fs = require("fs");
+const path = require("path");
+const ts = require("typescript");
+const { schedule } = require("./runOfShow.cjs");
+
+/**
+ * loadTs -> A renderer module compiled to CommonJS on the fly; relative imports are loaded
+ * the same way (type-only imports are dropped by the compiler).
+ * @param {string} file - Absolute path of a .ts file
+ */
+function loadTs(file) {
+  const { outputText } = ts.transpileModule(fs.readFileSync(file, "utf-8"), {
+    compilerOptions: { module: ts.ModuleKind.CommonJS, target: ts.ScriptTarget.ES2022 },
+  });
+  const exports = {};
+  const requireTs = (id) => loadTs(path.resolve(path.dirname(file), `${id}.ts`));
+  new Function("exports", "require", outputText)(exports, requireTs);
+  return exports;
+}
+
+const { scheduleTimeline, findScheduleIssues, formatTime } = loadTs(
+  path.resolve(__dirname, "../../src/lib/runOfShow.ts")
+);
+
+/**
+ * CASES -> Segments as run_of_show_segments rows, in position order: [title, start_time, duration_minutes].
+ * `times` is each segment's [start, end]; `issues` is [kind, segment title, minutes].
+ */
+const CASES = [
+  {
+    name: "segments without a start time follow on from the event start",
+    event: { start_time: "18:00", end_time: "22:00" },
+    segments: [["Doors", null, 30], ["Welcome", null, 15], ["Dinner", null, 90]],
+    times: [["18:00", "18:30"], ["18:30", "18:45"], ["18:45", "20:15"]],
+    issues: [],
+  },
+  {
+    name: "gaps and overlaps between consecutive segments",
+    event: { start_time: "18:00", end_time: "22:00" },
+    segments: [["Doors", "18:00", 60], ["Speeches", "19:30", 30], ["Dinner", "19:45", 60]],
+    times: [["18:00", "19:00"], ["19:30", "20:00"], ["19:45", "20:45"]],
+    issues: [["gap", "Speeches", 30], ["overlap", "Dinner", 15]],
+  },
+  {
+    name: "an overlap is measured against the latest end above, not just the previous segment",
+    event: { start_time: "18:00", end_time: "22:00" },
+    segments: [["Reception", "18:00", 120], ["Toast", "18:30", 30], ["Band", "19:00", 30]],
+    times: [["18:00", "20:00"], ["18:30", "19:00"], ["19:00", "19:30"]],
+    issues: [["overlap", "Toast", 90], ["overlap", "Band", 60]],
+  },
+  {
+    name: "segments after midnight and an event that ends after midnight",
+    event: { start_time: "22:00", end_time: "01:00" },
+    segments: [["DJ set", "23:30", 60], ["Last dance", "00:30", 60]],
+    times: [["23:30", "00:30"], ["00:30", "01:30"]],
+    issues: [["after-end", "Last dance", 30]],
+  },
+  {
+    name: "a segment before the event starts",
+    event: { start_time: "18:00", end_time: "22:00" },
+    segments: [["Crew call", "17:30", 30], ["Doors", null, 30]],
+    times: [["17:30", "18:00"], ["18:00", "18:30"]],
+    issues: [["before-start", "Crew call", 30]],
+  },
+  {
+    name: "no times anywhere leaves segments unscheduled",
+    event: { start_time: null, end_time: null },
+    segments: [["Doors", null, 30], ["Welcome", null, 15]],
+    times: [[null, null], [null, null]],
+    issues: [],
+  },
+  {
+    name: "a timed segment after untimed ones starts the clock",
+    event: { start_time: null, end_time: null },
+    segments: [["Setup", null, 30], ["Doors", "19:00", 30], ["Welcome", null, 15]],
+    times: [[null, null], ["19:00", "19:30"], ["19:30", "19:45"]],
+    issues: [],
+  },
+];
+
+/** rowsOf -> run_of_show_segments rows for a case. */
+function rowsOf(c) {
+  return c.segments.map(([title, startTime, duration], position) => ({
+    id: `seg-${position}`,
+    position,
+    title,
+    start_time: startTime,
+    duration_minutes: duration,
+  }));
+}
+
+for (const c of CASES) {
+  const titles = new Map(rowsOf(c).map((row) => [row.id, row.title]));
+
+  test(`agent tools: ${c.name}`, () => {
+    const result = schedule(rowsOf(c), c.event);
+    assert.deepEqual(
+      result.segments.map((s) => [s.startTime, s.endTime]),
+      c.times
+    );
+    assert.deepEqual(
+      result.issues.map((i) => [i.kind, titles.get(i.segmentId), i.minutes]),
+      c.issues
+    );
+  });
+
+  test(`editor: ${c.name}`, () => {
+    const segments = rowsOf(c).map((row) => ({
+      id: row.id,
+      position: row.position,
+      title: row.title,
+      startTime: row.start_time ?? undefined,
+      durationMinutes: row.duration_minutes,
+      source: "manual",
+      createdAt: "",
+    }));
+    const timeline = scheduleTimeline(segments, c.event.start_time ?? undefined);
+    assert.deepEqual(
+      timeline.map((t) => [t.start == null ? null : formatTime(t.start), t.end == null ? null : formatTime(t.end)]),
+      c.times
+    );
+    const issues = findScheduleIssues(timeline, c.event.start_time ?? undefined, c.event.end_time ?? undefined);
+    assert.deepEqual(
+      issues.map((i) => [i.kind, titles.get(i.segmentId), i.minutes]),
+      c.issues
+    );
+  });
+}
@@ -11,6 +11,8 @@ const { BUILTIN_TOOLS } = require("./types.cjs");
  * @property {string} name
  * @property {boolean} enabled
  * @property {object[]} tools - Claude tool schemas
+ * @property {string[]} sideEffectTools - Tools that change external state
+ * @property {boolean} autoExecute - Run side-effecting tools without approval
  * @property {function(string, object): Promise<object>} executeTool
  */
 
@@ -68,6 +70,29 @@ function getAllTools() {
   return [...BUILTIN_TOOLS, ...connectorTools];
 }
 
+/**
+ * findToolConnector -> Find the enabled connector that provides a tool.
+ * @param {string} toolName
+ * @returns {ConnectorInstance | undefined}
+ */
+function findToolConnector(toolName) {
+  return getEnabledConnectors().find((c) => c.tools.some((t) => t.name === toolName));
+}
+
+/**
+ * requiresApproval -> Whether a tool call must wait in the approval queue.
+ * True for side-effecting connector tools unless the connector auto-executes.
+ * Read-only and built-in tools never need approval.
+ * @param {string} toolName
+ * @returns {boolean}
+ */
+function requiresApproval(toolName) {
+  const connector = findToolConnector(toolName);
+  if (!connector) return false;
+  const isSideEffect = (connector.sideEffectTools || []).includes(toolName);
+  return isSideEffect && !connector.autoExecute;
+}
+
 /**
  * executeTool -> Execute a tool by name, routing to the correct connector.
  * Built-in tools (request_user_input, mark_task_complete, update_task_progress)
@@ -112,5 +137,7 @@ module.exports = {
   getAllConnectors,
   getEnabledConnectors,
   getAllTools,
+  findToolConnector,
+  requiresApproval,
   executeTool,
 };
@@ -8,6 +8,7 @@ const OrchestratorState = {
   IDLE: "idle",
   PLANNING: "planning",
   EXECUTING: "executing",
+  WAITING_FOR_DEPENDENCIES: "waiting_for_dependencies",
   WAITING_FOR_USER: "waiting_for_user",
   COMPLETED: "completed",
   FAILED: "failed",
@@ -221,9 +222,342 @@ const TASK_TOOLS = [
 ];
 
 /**
- * CLAUDE_MODEL -> Claude Haiku 4.5 for task execution and category chat.
+ * GUEST_TOOLS -> Guest list tools (guests / rsvps, migration 017) for the Guests agent, in
+ * its category chat and its orchestrator lane. Handled by guests.cjs.
  */
-const CLAUDE_MODEL = "claude-haiku-4-5";
+const GUEST_TOOLS = [
+  {
+    name: "list_guests",
+    description:
+      "List the event's guests with their RSVP status, plus-ones and dietary needs, and the headcount " +
+      "(going, maybe, invited, declined, waitlist, and expected = going guests plus their plus-ones) " +
+      "compared with the planned guest count and attendance target. Includes guests imported from CSV, " +
+      "vCard and Luma (see each guest's source).",
+    input_schema: {
+      type: "object",
+      properties: {
+        status: {
+          type: "string",
+          enum: ["invited", "going", "maybe", "declined", "waitlist"],
+          description: "Optional: only return guests with this RSVP status.",
+        },
+        dietaryOnly: {
+          type: "boolean",
+          description: "Optional: only return guests with dietary needs who have not declined (e.g. for the caterer).",
+        },
+      },
+    },
+  },
+  {
+    name: "add_guest",
+    description:
+      "Add a guest to the event's guest list. If a guest with the same email is already on the list, " +
+      "their details are updated instead of adding a duplicate.",
+    input_schema: {
+      type: "object",
+      required: ["name"],
+      properties: {
+        name: { type: "string", description: "Guest's full name" },
+        email: { type: "string", description: "Email address (optional, used to match existing guests)" },
+        phone: { type: "string", description: "Phone number (optional)" },
+        dietaryNeeds: { type: "string", description: "Dietary needs, e.g. 'vegetarian, nut allergy' (optional)" },
+        notes: { type: "string", description: "Anything else worth knowing (optional)" },
+        status: {
+          type: "string",
+          enum: ["invited", "going", "maybe", "declined", "waitlist"],
+          description: "RSVP status (default: invited)",
+        },
+        plusOnes: { type: "number", description: "Extra people the guest brings (default: 0)" },
+      },
+    },
+  },
+  {
+    name: "update_rsvp",
+    description:
+      "Record a guest's RSVP: status, plus-ones and dietary needs. Identify the guest by guestId (from list_guests) or email.",
+    input_schema: {
+      type: "object",
+      properties: {
+        guestId: { type: "string", description: "The guest UUID from list_guests." },
+        email: { type: "string", description: "The guest's email, when the id is not known." },
+        status: {
+          type: "string",
+          enum: ["invited", "going", "maybe", "declined", "waitlist"],
+          description: "New RSVP status.",
+        },
+        plusOnes: { type: "number", description: "Extra people the guest brings." },
+        dietaryNeeds: { type: "string", description: "Dietary needs to record for the guest." },
+      },
+    },
+  },
+];
+
+/**
+ * BUDGET_TOOLS -> Budget ledger tools (budget_items, migration 018) for the General agent,
+ * in its category chat and its orchestrator lane. Handled by budget.cjs.
+ */
+const BUDGET_TOOLS = [
+  {
+    name: "list_budget",
+    description:
+      "List the event's budget lines (estimated, committed and paid amounts, vendor, receipt) grouped by agent " +
+      "category, with totals, the event's budget and how much is left. Projected spend counts committed or paid " +
+      "amounts where there are any and the estimate otherwise.",
+    input_schema: {
+      type: "object",
+      properties: {
+        agentId: {
+          type: "string",
+          enum: ["guests", "venue-catering", "entertainment-logistics", "general"],
+          description: "Optional: only return lines of this agent category.",
+        },
+      },
+    },
+  },
+  {
+    name: "record_quote",
+    description:
+      "Record a quote or estimated cost as a budget line, instead of noting it in a task document. If a line with " +
+      "the same title and vendor exists, its estimate is updated. Going over budget puts the event at risk.",
+    input_schema: {
+      type: "object",
+      required: ["title", "amount"],
+      properties: {
+        title: { type: "string", description: "What the cost is for, e.g. 'Catering (80 guests)'" },
+        amount: { type: "number", description: "Quoted or estimated amount in dollars" },
+        agentId: {
+          type: "string",
+          enum: ["guests", "venue-catering", "entertainment-logistics", "general"],
+          description: "Agent category the cost belongs to (default: general)",
+        },
+        vendorName: { type: "string", description: "Vendor who quoted (optional)" },
+        vendorUrl: { type: "string", description: "Link to the vendor or the quote (optional)" },
+        notes: { type: "string", description: "What the quote includes, validity, terms (optional)" },
+        taskId: { type: "string", description: "The task UUID the quote was found for (optional)" },
+      },
+    },
+  },
+  {
+    name: "update_budget_item",
+    description:
+      "Update a budget line from list_budget: the estimate, the committed amount once agreed, the amount paid and " +
+      "when, or a receipt link. Only the fields given are changed.",
+    input_schema: {
+      type: "object",
+      required: ["itemId"],
+      properties: {
+        itemId: { type: "string", description: "The budget line UUID from list_budget." },
+        estimated: { type: "number", description: "New estimate in dollars" },
+        committed: { type: "number", description: "Amount agreed with the vendor in dollars" },
+        paid: { type: "number", description: "Total paid so far in dollars" },
+        paidAt: { type: "string", description: "Date of the payment (YYYY-MM-DD)" },
+        receiptUrl: { type: "string", description: "Link to the receipt or invoice" },
+        notes: { type: "string", description: "Notes to store on the line" },
+      },
+    },
+  },
+];
+
+/** VENDOR_CATEGORIES -> vendors.categories values (migration 019). Matches VendorCategory in src/types.ts. */
+const VENDOR_CATEGORIES = [
+  "venue",
+  "catering",
+  "entertainment",
+  "av",
+  "photography",
+  "decor",
+  "rentals",
+  "transport",
+  "staffing",
+  "other",
+];
+
+/**
+ * VENDOR_TOOLS -> Vendor directory tools (vendors / vendor_links, migration 019) for the
+ * Venue & Catering and Entertainment & Logistics agents, in their category chats and
+ * orchestrator lanes. Handled by vendors.cjs.
+ */
+const VENDOR_TOOLS = [
+  {
+    name: "search_vendors",
+    description:
+      "Search the vendor directory shared across events (caterers, venues, DJs, AV, ...) before looking for new " +
+      "vendors. Returns contact details, price range, rating, notes and how many events each vendor was used for.",
+    input_schema: {
+      type: "object",
+      properties: {
+        query: { type: "string", description: "Optional: text to match in the name, contact, website or notes" },
+        category: { type: "string", enum: VENDOR_CATEGORIES, description: "Optional: only vendors in this category" },
+        maxPrice: { type: "number", description: "Optional: only vendors whose lowest price is at most this (dollars)" },
+        minRating: { type: "number", description: "Optional: only vendors rated at least this (1-5)" },
+      },
+    },
+  },
+  {
+    name: "get_vendor",
+    description:
+      "Get one vendor from search_vendors with its full history: the events (name, date) and tasks it was used for " +
+      "and the notes recorded each time.",
+    input_schema: {
+      type: "object",
+      required: ["vendorId"],
+      properties: {
+        vendorId: { type: "string", description: "The vendor UUID from search_vendors." },
+      },
+    },
+  },
+  {
+    name: "save_vendor",
+    description:
+      "Add a vendor to the directory, or update one with the same name, and link it to this event (and the task, if " +
+      "given) so later events can find it. Use this instead of describing vendors only in task documents. Only the " +
+      "fields given are changed.",
+    input_schema: {
+      type: "object",
+      required: ["name"],
+      properties: {
+        name: { type: "string", description: "Vendor or business name" },
+        categories: { type: "array", items: { type: "string", enum: VENDOR_CATEGORIES }, description: "What they provide" },
+        contactName: { type: "string", description: "Contact person (optional)" },
+        email: { type: "string", description: "Contact email (optional)" },
+        phone: { type: "string", description: "Contact phone (optional)" },
+        website: { type: "string", description: "Website or booking link (optional)" },
+        priceMin: { type: "number", description: "Low end of their price range in dollars (optional)" },
+        priceMax: { type: "number", description: "High end of their price range in dollars (optional)" },
+        priceNotes: { type: "string", description: "What the price is per, e.g. 'per head', 'per hour' (optional)" },
+        rating: { type: "number", description: "1-5, only when the user or a past event says how they did (optional)" },
+        notes: { type: "string", description: "What to remember about them: menu, capacity, terms (optional)" },
+        taskId: { type: "string", description: "The task UUID the vendor is used for (optional)" },
+        linkToEvent: { type: "boolean", description: "Link the vendor to this event (default true)" },
+      },
+    },
+  },
+];
+
+/**
+ * RUN_OF_SHOW_TOOLS -> Run-of-show tools (run_of_show_segments, migration 020) for the
+ * Entertainment & Logistics agent, in its category chat and orchestrator lane. Handled by
+ * runOfShow.cjs; every write returns the schedule with its overlaps and gaps.
+ */
+const RUN_OF_SHOW_TOOLS = [
+  {
+    name: "get_run_of_show",
+    description:
+      "Get the event day's run of show: segments in order with start and end times, owner, location, AV cues and " +
+      "notes, the event's start and end time, and any overlaps, gaps or segments outside the event's hours.",
+    input_schema: { type: "object", properties: {} },
+  },
+  {
+    name: "add_segments",
+    description:
+      "Add segments to the end of the run of show, in order. Use this to draft the schedule (doors, welcome, " +
+      "dinner, entertainment, close) from the event details and tasks; call get_run_of_show first so nothing is " +
+      "added twice.",
+    input_schema: {
+      type: "object",
+      required: ["segments"],
+      properties: {
+        segments: {
+          type: "array",
+          items: {
+            type: "object",
+            required: ["title", "durationMinutes"],
+            properties: {
+              title: { type: "string", description: "Segment name, e.g. 'Doors open', 'Welcome speech', 'Dinner service'" },
+              startTime: { type: "string", description: "Start time HH:MM (24h). Omit to start when the segment before it ends." },
+              durationMinutes: { type: "number", description: "Length in minutes" },
+              owner: { type: "string", description: "Who runs it: MC, DJ, caterer, host (optional)" },
+              location: { type: "string", description: "Where it happens: main hall, terrace (optional)" },
+              avCues: { type: "string", description: "Music, mics, lights and slides the crew needs (optional)" },
+              notes: { type: "string", description: "Anything else for the run sheet (optional)" },
+            },
+          },
+        },
+      },
+    },
+  },
+  {
+    name: "update_segment",
+    description:
+      "Change a run-of-show segment, or move it to another place in the order. Only the fields given are changed.",
+    input_schema: {
+      type: "object",
+      required: ["segmentId"],
+      properties: {
+        segmentId: { type: "string", description: "The segment UUID from get_run_of_show." },
+        title: { type: "string", description: "Segment name, e.g. 'Doors open', 'Welcome speech', 'Dinner service'" },
+        startTime: { type: "string", description: "Start time HH:MM (24h), or empty to follow on from the segment before" },
+        durationMinutes: { type: "number", description: "Length in minutes" },
+        owner: { type: "string", description: "Who runs it: MC, DJ, caterer, host (optional)" },
+        location: { type: "string", description: "Where it happens: main hall, terrace (optional)" },
+        avCues: { type: "string", description: "Music, mics, lights and slides the crew needs (optional)" },
+        notes: { type: "string", description: "Anything else for the run sheet (optional)" },
+        position: { type: "number", description: "Move to this place in the order, from 0 (optional)" },
+      },
+    },
+  },
+  {
+    name: "remove_segment",
+    description: "Remove a segment from the run of show.",
+    input_schema: {
+      type: "object",
+      required: ["segmentId"],
+      properties: {
+        segmentId: { type: "string", description: "The segment UUID from get_run_of_show." },
+      },
+    },
+  },
+];
+
+/**
+ * AGENT_LANES -> Agent groups that each get their own orchestrator lane.
+ * Matches AgentId in src/types.ts.
+ */
+const AGENT_LANES = ["guests", "venue-catering", "entertainment-logistics", "general"];
+
+/**
+ * EVENT_ROLE_ACTIONS -> What each per-event role (collaborators.role, migration 014) may do.
+ * Matches ROLE_ACTIONS in src/lib/permissions.ts.
+ */
+const EVENT_ROLE_ACTIONS = {
+  owner: ["edit-details", "delete-event", "run-agents", "approve-tools", "manage-collaborators", "view-activity"],
+  editor: ["edit-details", "run-agents", "approve-tools", "view-activity"],
+  viewer: ["view-activity"],
+  "vendor-guest": [],
+};
+
+/**
+ * AI_PURPOSES -> What a model call is for; each purpose has its own model route.
+ */
+const AI_PURPOSES = ["planning", "execution", "category_chat", "subtasks", "retro"];
+
+/**
+ * MODEL_ROUTES -> Default provider/model chain per purpose. The first available entry
+ * is tried first; later entries are fallbacks when it keeps failing. Override per
+ * purpose with `modelRoutes` in settings.json.
+ */
+const MODEL_ROUTES = {
+  planning: [
+    { provider: "anthropic", model: "claude-haiku-4-5" },
+    { provider: "openai", model: "gpt-4o-mini" },
+  ],
+  execution: [
+    { provider: "anthropic", model: "claude-haiku-4-5" },
+    { provider: "anthropic", model: "claude-sonnet-4-5" },
+  ],
+  category_chat: [
+    { provider: "anthropic", model: "claude-haiku-4-5" },
+    { provider: "openai", model: "gpt-4o-mini" },
+  ],
+  subtasks: [
+    { provider: "openai", model: "gpt-4o-mini" },
+    { provider: "anthropic", model: "claude-haiku-4-5" },
+  ],
+  retro: [
+    { provider: "anthropic", model: "claude-sonnet-4-5" },
+    { provider: "anthropic", model: "claude-haiku-4-5" },
+  ],
+};
 
 /**
  * MAX_TOKENS -> Maximum tokens per Claude response.
@@ -234,6 +568,14 @@ module.exports = {
   OrchestratorState,
   BUILTIN_TOOLS,
   TASK_TOOLS,
-  CLAUDE_MODEL,
+  GUEST_TOOLS,
+  BUDGET_TOOLS,
+  VENDOR_CATEGORIES,
+  VENDOR_TOOLS,
+  RUN_OF_SHOW_TOOLS,
+  AGENT_LANES,
+  EVENT_ROLE_ACTIONS,
+  AI_PURPOSES,
+  MODEL_ROUTES,
   MAX_TOKENS,
 };
@@ -0,0 +1,144 @@
+/**
+ * usage.cjs -> Token + cost accounting for model calls and AI budget checks.
+ * Every response's `usage` is written to the ai_usage table (migration 007) through the
+ * usage repo; roll-ups per task/run/event/month come from the ai_usage_by_* views.
+ */
+
+/**
+ * MODEL_PRICING -> USD per million tokens. Cache writes/reads are billed relative
+ * to the input price. Unknown models fall back to DEFAULT_PRICING.
+ */
+const MODEL_PRICING = {
+  "claude-haiku-4-5": { input: 1, output: 5 },
+  "claude-sonnet-4-5": { input: 3, output: 15 },
+  "claude-opus-4-1": { input: 15, output: 75 },
+  "gpt-4o-mini": { input: 0.15, output: 0.6 },
+  stub: { input: 0, output: 0 },
+};
+
+/** DEFAULT_PRICING -> Used for models missing from MODEL_PRICING (errs on the expensive side). */
+const DEFAULT_PRICING = { input: 3, output: 15 };
+
+/** CACHE_WRITE_MULTIPLIER / CACHE_READ_MULTIPLIER -> Prompt caching price relative to input tokens. */
+const CACHE_WRITE_MULTIPLIER = 1.25;
+const CACHE_READ_MULTIPLIER = 0.1;
+
+/**
+ * pricingFor -> Pricing for a model id; dated ids (claude-haiku-4-5-20251001) match their alias.
+ * @param {string} model
+ * @returns {{ input: number, output: number }}
+ */
+function pricingFor(model) {
+  if (MODEL_PRICING[model]) return MODEL_PRICING[model];
+  const alias = Object.keys(MODEL_PRICING).find((key) => String(model).startsWith(key));
+  return alias ? MODEL_PRICING[alias] : DEFAULT_PRICING;
+}
+
+/**
+ * computeCost -> USD cost of one call from the Anthropic `usage` block.
+ * @param {string} model
+ * @param {object} usage - { input_tokens, output_tokens, cache_creation_input_tokens?, cache_read_input_tokens? }
+ * @returns {number}
+ */
+function computeCost(model, usage) {
+  const price = pricingFor(model);
+  const input = usage?.input_tokens || 0;
+  const output = usage?.output_tokens || 0;
+  const cacheWrite = usage?.cache_creation_input_tokens || 0;
+  const cacheRead = usage?.cache_read_input_tokens || 0;
+  return (
+    (input * price.input +
+      cacheWrite * price.input * CACHE_WRITE_MULTIPLIER +
+      cacheRead * price.input * CACHE_READ_MULTIPLIER +
+      output * price.output) /
+    1_000_000
+  );
+}
+
+/**
+ * recordUsage -> Insert one ai_usage row. Never throws; accounting must not break a run.
+ * @param {import("../repos/index.cjs").Repos | null} repos
+ * @param {object} record
+ * @param {string} record.purpose - planning | execution | category_chat | subtasks | retro
+ * @param {string} record.model - Model id reported by the response
+ * @param {object} record.usage - Anthropic usage block
+ * @param {string} [record.eventId]
+ * @param {string} [record.runId]
+ * @param {string} [record.taskId]
+ */
+async function recordUsage(repos, record) {
+  if (!repos || !record?.usage) return;
+  const { usage } = record;
+  try {
+    const { error } = await repos.usage.insert({
+      event_id: record.eventId || null,
+      run_id: record.runId || null,
+      task_id: record.taskId || null,
+      purpose: record.purpose,
+      model: record.model,
+      input_tokens: usage.input_tokens || 0,
+      output_tokens: usage.output_tokens || 0,
+      cache_creation_input_tokens: usage.cache_creation_input_tokens || 0,
+      cache_read_input_tokens: usage.cache_read_input_tokens || 0,
+      cost_usd: computeCost(record.model, usage),
+    });
+    if (error) console.warn("[Eventropy] Failed to record AI usage:", error.message);
+  } catch (err) {
+    console.warn("[Eventropy] Failed to record AI usage:", err.message);
+  }
+}
+
+/**
+ * currentMonth -> First day of the current UTC month (matches ai_usage_by_month.month).
+ * @returns {string} YYYY-MM-DD
+ */
+function currentMonth() {
+  const now = new Date();
+  return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1)).toISOString().slice(0, 10);
+}
+
+/**
+ * checkBudget -> Whether the event budget or the global monthly budget has been reached.
+ * A null/0 budget means "no limit". Query errors are treated as "not exceeded".
+ * @param {import("../repos/index.cjs").Repos} repos
+ * @param {string} eventId - Event UUID
+ * @param {number | null} monthlyBudgetUsd - Global monthly budget from settings
+ * @param {string | null} [userId] - Signed-in user; the monthly budget counts only their calls
+ * @returns {Promise<{ exceeded: boolean, message?: string }>}
+ */
+async function checkBudget(repos, eventId, monthlyBudgetUsd, userId) {
+  const [{ data: eventRow }, { data: eventUsage }, { data: monthUsage }] = await Promise.all([
+    repos.events.get(eventId),
+    repos.usage.byEvent({ eventId }),
+    monthlyBudgetUsd
+      ? repos.usage.byMonth({ month: currentMonth(), userId: userId || undefined })
+      : Promise.resolve({ data: null }),
+  ]);
+
+  const eventBudget = Number(eventRow?.ai_budget_usd) || 0;
+  const eventSpent = Number(eventUsage?.[0]?.cost_usd) || 0;
+  if (eventBudget > 0 && eventSpent >= eventBudget) {
+    return {
+      exceeded: true,
+      message: `This event has used $${eventSpent.toFixed(2)} of its $${eventBudget.toFixed(2)} AI budget. Raise the event budget in Settings → AI Usage, then resume.`,
+    };
+  }
+
+  const monthSpent = Number(monthUsage?.[0]?.cost_usd) || 0;
+  if (monthlyBudgetUsd > 0 && monthSpent >= monthlyBudgetUsd) {
+    return {
+      exceeded: true,
+      message: `AI spend this month is $${monthSpent.toFixed(2)}, reaching the $${Number(monthlyBudgetUsd).toFixed(2)} monthly budget. Raise it in Settings → AI Usage, then resume.`,
+    };
+  }
+
+  return { exceeded: false };
+}
+
+module.exports = {
+  MODEL_PRICING,
+  computeCost,
+  recordUsage,
+  checkBudget,
+  currentMonth,
+};
@@ -0,0 +1,215 @@
+/**
+ * vendors.cjs -> The vendor directory tools (VENDOR_TOOLS in types.cjs) over the vendors and
+ * vendor_links tables (migration 019). Shared by the category chat and the orchestrator
+ * lane. Vendors are matched by name so saving one twice updates it; new vendors are shared
+ * with the event's organization, and links are marked source "agent".
+ */
+
+const { VENDOR_TOOLS, VENDOR_CATEGORIES } = require("./types.cjs");
+
+/** VENDOR_TOOL_NAMES -> Names of the tools handled here. */
+const VENDOR_TOOL_NAMES = new Set(VENDOR_TOOLS.map((t) => t.name));
+
+/** MAX_SEARCH_RESULTS -> Vendors returned by one search_vendors call. */
+const MAX_SEARCH_RESULTS = 20;
+
+/**
+ * isVendorTool -> Whether executeVendorTool handles a tool.
+ * @param {string} name
+ * @returns {boolean}
+ */
+function isVendorTool(name) {
+  return VENDOR_TOOL_NAMES.has(name);
+}
+
+/**
+ * price -> A dollar amount rounded to cents, never negative; null when not a number.
+ * @param {unknown} value
+ */
+function price(value) {
+  if (value == null || value === "") return null;
+  const amount = Number(value);
+  return Number.isFinite(amount) ? Math.max(0, Math.round(amount * 100) / 100) : null;
+}
+
+/**
+ * vendorSummary -> What the model sees for one vendor.
+ * @param {object} vendor - vendors row
+ * @param {object[]} links - vendor_links rows of that vendor
+ * @param {string} eventUuid - The current event
+ */
+function vendorSummary(vendor, links, eventUuid) {
+  return {
+    id: vendor.id,
+    name: vendor.name,
+    categories: vendor.categories || [],
+    contactName: vendor.contact_name,
+    email: vendor.email,
+    phone: vendor.phone,
+    website: vendor.website,
+    priceMin: vendor.price_min == null ? null : Number(vendor.price_min),
+    priceMax: vendor.price_max == null ? null : Number(vendor.price_max),
+    priceNotes: vendor.price_notes,
+    rating: vendor.rating,
+    notes: vendor.notes,
+    usedAtEvents: new Set(links.map((l) => l.event_id)).size,
+    linkedToThisEvent: links.some((l) => l.event_id === eventUuid),
+  };
+}
+
+/**
+ * vendorFields -> vendors columns for the fields given in a save_vendor input.
+ * @param {object} input
+ * @returns {{ fields?: object, error?: string }}
+ */
+function vendorFields(input) {
+  const fields = {};
+  if (input.categories !== undefined) {
+    const categories = [...new Set(Array.isArray(input.categories) ? input.categories : [input.categories])];
+    const unknown = categories.filter((c) => !VENDOR_CATEGORIES.includes(c));
+    if (unknown.length > 0) return { error: `Unknown vendor category: ${unknown.join(", ")}` };
+    fields.categories = categories;
+  }
+  for (const [key, column] of [
+    ["contactName", "contact_name"],
+    ["phone", "phone"],
+    ["website", "website"],
+    ["priceNotes", "price_notes"],
+    ["notes", "notes"],
+  ]) {
+    if (input[key] !== undefined) fields[column] = String(input[key]).trim() || null;
+  }
+  if (input.email !== undefined) fields.email = String(input.email).trim().toLowerCase() || null;
+  if (input.priceMin !== undefined) fields.price_min = price(input.priceMin);
+  if (input.priceMax !== undefined) fields.price_max = price(input.priceMax);
+  if (input.rating !== undefined) {
+    const rating = Math.round(Number(input.rating));
+    if (!(rating >= 1 && rating <= 5)) return { error: "Rating must be between 1 and 5" };
+    fields.rating = rating;
+  }
+  return { fields };
+}
+
+/**
+ * executeVendorTool -> Run one vendor directory tool for an event.
+ * @param {import("../repos/index.cjs").Repos} repos
+ * @param {string | null} eventUuid - events.id
+ * @param {string} name - Tool name (VENDOR_TOOLS)
+ * @param {object} input - Tool input
+ * @returns {Promise<{ result: object, summary: string, changed: boolean }>}
+ *   changed -> A vendor or link was written; the renderer should reload the directory
+ */
+async function executeVendorTool(repos, eventUuid, name, input = {}) {
+  if (!eventUuid) return { result: { error: "No event ID provided" }, summary: "No event ID", changed: false };
+
+  const [{ data: vendors, error }, { data: links, error: linkErr }] = await Promise.all([
+    repos.vendors.list(),
+    repos.vendors.listLinks(),
+  ]);
+  if (error || linkErr) throw new Error((error || linkErr).message);
+  const linksOf = (vendorId) => (links || []).filter((l) => l.vendor_id === vendorId);
+
+  switch (name) {
+    case "search_vendors": {
+      if (input.category && !VENDOR_CATEGORIES.includes(input.category)) {
+        return { result: { error: `Unknown vendor category: ${input.category}` }, summary: "Invalid category", changed: false };
+      }
+      const needle = String(input.query || "").trim().toLowerCase();
+      const maxPrice = price(input.maxPrice);
+      const minRating = Number(input.minRating) || 0;
+      const found = (vendors || [])
+        .filter((v) => !input.category || (v.categories || []).includes(input.category))
+        .filter(
+          (v) =>
+            !needle ||
+            [v.name, v.contact_name, v.email, v.website, v.notes].some((text) => text && text.toLowerCase().includes(needle))
+        )
+        .filter((v) => maxPrice == null || v.price_min == null || Number(v.price_min) <= maxPrice)
+        .filter((v) => !minRating || (v.rating || 0) >= minRating)
+        .map((v) => vendorSummary(v, linksOf(v.id), eventUuid))
+        // Best rated, then most used
+        .sort((a, b) => (b.rating || 0) - (a.rating || 0) || b.usedAtEvents - a.usedAtEvents);
+      return {
+        result: { vendors: found.slice(0, MAX_SEARCH_RESULTS), total: found.length },
+        summary: `Found ${found.length} vendor(s)${input.category ? ` (${input.category})` : ""}`,
+        changed: false,
+      };
+    }
+
+    case "get_vendor": {
+      const vendor = (vendors || []).find((v) => v.id === input.vendorId);
+      if (!vendor) return { result: { error: "Vendor not found" }, summary: "Vendor not found", changed: false };
+      const history = [];
+      for (const link of linksOf(vendor.id)) {
+        const [{ data: event }, { data: task }] = await Promise.all([
+          repos.events.get(link.event_id),
+          link.task_id ? repos.tasks.get(link.task_id) : Promise.resolve({ data: null }),
+        ]);
+        history.push({
+          eventName: event?.name ?? null,
+          eventDate: event?.event_date ?? null,
+          thisEvent: link.event_id === eventUuid,
+          taskTitle: task?.title ?? null,
+          notes: link.notes,
+        });
+      }
+      return {
+        result: { vendor: vendorSummary(vendor, linksOf(vendor.id), eventUuid), history },
+        summary: `Looked up ${vendor.name} (${history.length} past use(s))`,
+        changed: false,
+      };
+    }
+
+    case "save_vendor": {
+      const vendorName = String(input.name || "").trim();
+      if (!vendorName) return { result: { error: "A vendor needs a name" }, summary: "Missing vendor name", changed: false };
+      const { fields, error: fieldErr } = vendorFields(input);
+      if (fieldErr) return { result: { error: fieldErr }, summary: fieldErr, changed: false };
+
+      const existing = (vendors || []).find((v) => v.name.trim().toLowerCase() === vendorName.toLowerCase());
+      let vendor;
+      if (existing) {
+        if (Object.keys(fields).length > 0) {
+          const { error: updErr } = await repos.vendors.update(existing.id, fields);
+          if (updErr) throw new Error(updErr.message);
+        }
+        vendor = { ...existing, ...fields };
+      } else {
+        const { data: event } = await repos.events.get(eventUuid);
+        const { data, error: insErr } = await repos.vendors.insert({
+          name: vendorName,
+          ...fields,
+          ...(event?.org_id ? { org_id: event.org_id } : {}),
+        });
+        if (insErr) throw new Error(insErr.message);
+        vendor = data;
+      }
+
+      const vendorLinks = linksOf(vendor.id);
+      const taskId = input.taskId || null;
+      const alreadyLinked = vendorLinks.some((l) => l.event_id === eventUuid && (!taskId || l.task_id === taskId));
+      const linked = input.linkToEvent !== false && !alreadyLinked;
+      if (linked) {
+        const { data: link, error: linkInsErr } = await repos.vendors.insertLink({
+          vendor_id: vendor.id,
+          event_id: eventUuid,
+          task_id: taskId,
+          source: "agent",
+        });
+        if (linkInsErr) throw new Error(linkInsErr.message);
+        vendorLinks.push(link);
+      }
+
+      return {
+        result: { success: true, vendor: vendorSummary(vendor, vendorLinks, eventUuid), updatedExisting: !!existing, linked },
+        summary: `${existing ? "Updated" : "Added"} vendor ${vendor.name}${linked ? " (linked to this event)" : ""}`,
+        changed: true,
+      };
+    }
+
+    default:
+      return { result: { error: `Unknown tool: ${name}` }, summary: `Unknown tool: ${name}`, changed: false };
+  }
+}
+
+module.exports = { isVendorTool, executeVendorTool };
@@ -11,11 +11,67 @@ contextBridge.exposeInMainWorld("electronAPI", {
   planEvent: (eventId, formData) =>
     ipcRenderer.invoke("orchestrator:plan", eventId, formData),
 
+  /** getEventRetro -> Stored post-event retrospective (null when none yet). */
+  getEventRetro: (eventId) =>
+    ipcRenderer.invoke("retro:get", eventId),
+
+  /** generateEventRetro -> Analyse a past event and store its retrospective. */
+  generateEventRetro: (eventId) =>
+    ipcRenderer.invoke("retro:generate", eventId),
+
+  /** getLumaRsvps -> Registrations of a Luma event, for importing into an event's guest list. */
+  getLumaRsvps: (eventId, lumaEventId) =>
+    ipcRenderer.invoke("guests:luma-rsvps", eventId, lumaEventId),
+  /** pickGuestImportFile -> Native picker for a CSV or vCard guest list; returns its content. */
+  pickGuestImportFile: () => ipcRenderer.invoke("guests:pick-import"),
+  /** exportGuestsCsv -> Save a guest list CSV via a native save dialog. */
+  exportGuestsCsv: (defaultName, content) =>
+    ipcRenderer.invoke("guests:export-csv", defaultName, content),
+  /** exportRunSheetCsv -> Save a run-of-show CSV via a native save dialog. */
+  exportRunSheetCsv: (defaultName, content) =>
+    ipcRenderer.invoke("run-of-show:export-csv", defaultName, content),
+
+  /** getKnowledgeGraph -> All knowledge graph nodes and edges (hidden ones flagged). */
+  getKnowledgeGraph: () =>
+    ipcRenderer.invoke("knowledge:get"),
+
+  /** rebuildKnowledgeGraph -> Re-derive the graph from every event, keeping corrections. */
+  rebuildKnowledgeGraph: () =>
+    ipcRenderer.invoke("knowledge:rebuild"),
+
+  /** queryKnowledge -> Past-event insights an agent would get for the given text. */
+  queryKnowledge: (payload) =>
+    ipcRenderer.invoke("knowledge:query", payload),
+
+  /** updateKnowledgeNode -> Correct a node's label, type or properties. */
+  updateKnowledgeNode: (payload) =>
+    ipcRenderer.invoke("knowledge:update-node", payload),
+
+  /** setKnowledgeHidden -> Hide a wrong node/edge from agents, or restore it. */
+  setKnowledgeHidden: (payload) =>
+    ipcRenderer.invoke("knowledge:set-hidden", payload),
+
+  /** mergeKnowledgeNodes -> Fold a duplicate node into another. */
+  mergeKnowledgeNodes: (payload) =>
+    ipcRenderer.invoke("knowledge:merge-nodes", payload),
+
+  /** addKnowledgeEdge -> Add a relationship between two nodes. */
+  addKnowledgeEdge: (payload) =>
+    ipcRenderer.invoke("knowledge:add-edge", payload),
+
+  /** replanEvent -> Propose task changes after event details changed. */
+  replanEvent: (payload) =>
+    ipcRenderer.invoke("orchestrator:replan", payload),
+
   // ── Category Chat (tool-use AI chat for each agent group) ─────────────────
   /** categoryChat -> Chat with category agent using task read/write tools. */
   categoryChat: (payload) =>
     ipcRenderer.invoke("orchestrator:category-chat", payload),
 
+  /** cancelCategoryChat -> Abort an in-flight category chat by request ID. */
+  cancelCategoryChat: (requestId) =>
+    ipcRenderer.invoke("category-chat:cancel", requestId),
+
   // ── Task Body (collaborative document) ────────────────────────────────────
   /** updateTaskBody -> Write the task document body from the renderer. */
   updateTaskBody: (taskId, body) =>
@@ -26,6 +82,83 @@ contextBridge.exposeInMainWorld("electronAPI", {
   getTaskMessages: (taskId) =>
     ipcRenderer.invoke("orchestrator:task-messages", taskId),
 
+  // ── Orchestrator: Run Control (autonomous execution loop) ─────────────────
+  /** runOrchestrator -> Start one agent lane, or every lane when agentId is omitted. */
+  runOrchestrator: (eventId, agentId) =>
+    ipcRenderer.invoke("orchestrator:run", eventId, agentId),
+
+  /** stopOrchestrator -> Pause one lane (or all lanes) after its current step. */
+  stopOrchestrator: (eventId, agentId) =>
+    ipcRenderer.invoke("orchestrator:stop", eventId, agentId),
+
+  /** resumeOrchestrator -> Continue paused lane runs. */
+  resumeOrchestrator: (eventId, agentId) =>
+    ipcRenderer.invoke("orchestrator:resume", eventId, agentId),
+
+  /** getOrchestratorStatus -> Get lane statuses for an event (and one lane when agentId is given). */
+  getOrchestratorStatus: (eventId, agentId) =>
+    ipcRenderer.invoke("orchestrator:status", eventId, agentId),
+
+  // ── App Settings ──────────────────────────────────────────────────────────
+  /** getAppSettings -> Load app-wide settings from userData. */
+  getAppSettings: () => ipcRenderer.invoke("settings:get"),
+
+  /** updateAppSettings -> Merge and persist app-wide settings. */
+  updateAppSettings: (updates) => ipcRenderer.invoke("settings:set", updates),
+
+  // ── Auth ──────────────────────────────────────────────────────────────────
+  /** setAuthSession -> Hand the signed-in user's access token to the main process (null on sign-out). */
+  setAuthSession: (session) => ipcRenderer.invoke("auth:set-session", session),
+
+  // ── Local database + sync ─────────────────────────────────────────────────
+  /** localDbQuery -> Run an eventsDb query against the offline-first local database. */
+  localDbQuery: (query) => ipcRenderer.invoke("localdb:query", query),
+
+  /** getSyncStatus -> Sync state, pending local changes and unresolved conflicts. */
+  getSyncStatus: () => ipcRenderer.invoke("sync:get-status"),
+
+  /** syncNow -> Push local changes and pull remote ones now. */
+  syncNow: () => ipcRenderer.invoke("sync:now"),
+
+  /** dismissSyncConflicts -> Clear the sync conflict list. */
+  dismissSyncConflicts: () => ipcRenderer.invoke("sync:dismiss-conflicts"),
+
+  /** onSyncStatus -> Fired whenever the sync state changes. */
+  onSyncStatus: (callback) => {
+    const handler = (_event, status) => callback(status);
+    ipcRenderer.on("sync:status", handler);
+    return () => ipcRenderer.removeListener("sync:status", handler);
+  },
+
+  /** onSyncPulled -> Fired when a pull brought remote changes into the local database. */
+  onSyncPulled: (callback) => {
+    const handler = () => callback();
+    ipcRenderer.on("sync:pulled", handler);
+    return () => ipcRenderer.removeListener("sync:pulled", handler);
+  },
+
+  // ── Schema migrations ─────────────────────────────────────────────────────
+  /** getSchemaStatus -> Database schema version and pending migrations. */
+  getSchemaStatus: () => ipcRenderer.invoke("migrations:status"),
+
+  /** runMigrations -> Apply pending migrations over the direct database connection. */
+  runMigrations: () => ipcRenderer.invoke("migrations:run"),
+
+  // ── AI Models ─────────────────────────────────────────────────────────────
+  /** generateSubtasks -> Suggest subtask titles for a task (model call runs in main). */
+  generateSubtasks: (payload) => ipcRenderer.invoke("ai:generate-subtasks", payload),
+
+  /** getModelRoutes -> Provider/model chain per AI purpose. */
+  getModelRoutes: () => ipcRenderer.invoke("ai:routes"),
+
+  // ── AI Usage & Budgets ────────────────────────────────────────────────────
+  /** getUsageSummary -> Token/cost roll-ups (optionally scoped to one event). */
+  getUsageSummary: (eventId) => ipcRenderer.invoke("usage:summary", eventId),
+
+  /** setEventAiBudget -> Set or clear an event's AI budget in USD. */
+  setEventAiBudget: (eventId, budgetUsd) =>
+    ipcRenderer.invoke("usage:set-event-budget", eventId, budgetUsd),
+
   // ── Notifications ─────────────────────────────────────────────────────────
   /** getNotifications -> Fetch all unresolved notifications for an event. */
   getNotifications: (eventId) =>
@@ -35,6 +168,19 @@ contextBridge.exposeInMainWorld("electronAPI", {
   markNotificationRead: (notificationId) =>
     ipcRenderer.invoke("notifications:mark-read", notificationId),
 
+  /** respondToNotification -> Answer an input_needed notification and unblock its task. */
+  respondToNotification: (notificationId, response) =>
+    ipcRenderer.invoke("notifications:respond", notificationId, response),
+
+  // ── Tool Approvals (side-effecting connector calls) ───────────────────────
+  /** listApprovals -> Fetch pending tool approvals, optionally for one event. */
+  listApprovals: (eventId) =>
+    ipcRenderer.invoke("approvals:list", eventId),
+
+  /** decideApproval -> Approve (optionally with edited arguments) or reject a queued call. */
+  decideApproval: (approvalId, decision) =>
+    ipcRenderer.invoke("approvals:decide", approvalId, decision),
+
   // ── Connector Management ──────────────────────────────────────────────────
   /** getConnectorStatuses -> Get status of all connectors. */
   getConnectorStatuses: () =>
@@ -68,6 +214,13 @@ contextBridge.exposeInMainWorld("electronAPI", {
     return () => ipcRenderer.removeListener("task:body-updated", handler);
   },
 
+  /** onCategoryChatDelta -> Streamed text / tool turns for an in-flight category chat. */
+  onCategoryChatDelta: (callback) => {
+    const handler = (_event, delta) => callback(delta);
+    ipcRenderer.on("category-chat:delta", handler);
+    return () => ipcRenderer.removeListener("category-chat:delta", handler);
+  },
+
   /** onTaskStatusUpdated -> Fired when the AI updates a task's status. */
   onTaskStatusUpdated: (callback) => {
     const handler = (_event, data) => callback(data);
@@ -82,10 +235,66 @@ contextBridge.exposeInMainWorld("electronAPI", {
     return () => ipcRenderer.removeListener("orchestrator:chat-message", handler);
   },
 
+  /** onTaskProgress -> Fired when the orchestrator updates a task's status or progress. */
+  onTaskProgress: (callback) => {
+    const handler = (_event, update) => callback(update);
+    ipcRenderer.on("orchestrator:task-progress", handler);
+    return () => ipcRenderer.removeListener("orchestrator:task-progress", handler);
+  },
+
+  /** onStatusChange -> Fired when the orchestrator run state changes. */
+  onStatusChange: (callback) => {
+    const handler = (_event, status) => callback(status);
+    ipcRenderer.on("orchestrator:status-change", handler);
+    return () => ipcRenderer.removeListener("orchestrator:status-change", handler);
+  },
+
+  /** onNotification -> Fired when the orchestrator creates a notification. */
+  onNotification: (callback) => {
+    const handler = (_event, notification) => callback(notification);
+    ipcRenderer.on("orchestrator:notification", handler);
+    return () => ipcRenderer.removeListener("orchestrator:notification", handler);
+  },
+
+  /** onApprovalRequest -> Fired when a side-effecting tool call is queued for approval. */
+  onApprovalRequest: (callback) => {
+    const handler = (_event, approval) => callback(approval);
+    ipcRenderer.on("orchestrator:approval-request", handler);
+    return () => ipcRenderer.removeListener("orchestrator:approval-request", handler);
+  },
+
   /** onEventDetailsUpdated -> Fired when the AI uses update_event_details tool. */
   onEventDetailsUpdated: (callback) => {
     const handler = (_event, data) => callback(data);
     ipcRenderer.on("event:details-updated", handler);
     return () => ipcRenderer.removeListener("event:details-updated", handler);
   },
+
+  /** onGuestsChanged -> Fired when an agent changes an event's guest list. */
+  onGuestsChanged: (callback) => {
+    const handler = (_event, data) => callback(data);
+    ipcRenderer.on("guests:changed", handler);
+    return () => ipcRenderer.removeListener("guests:changed", handler);
+  },
+
+  /** onBudgetChanged -> Fired when an agent changes an event's budget ledger. */
+  onBudgetChanged: (callback) => {
+    const handler = (_event, data) => callback(data);
+    ipcRenderer.on("budget:changed", handler);
+    return () => ipcRenderer.removeListener("budget:changed", handler);
+  },
+
+  /** onVendorsChanged -> Fired when an agent adds or updates a vendor in the directory. */
+  onVendorsChanged: (callback) => {
+    const handler = (_event, data) => callback(data);
+    ipcRenderer.on("vendors:changed", handler);
+    return () => ipcRenderer.removeListener("vendors:changed", handler);
+  },
+
+  /** onRunOfShowChanged -> Fired when an agent adds, changes or removes run-of-show segments. */
+  onRunOfShowChanged: (callback) => {
+    const handler = (_event, data) => callback(data);
+    ipcRenderer.on("run-of-show:changed", handler);
+    return () => ipcRenderer.removeListener("run-of-show:changed", handler);
+  },
 });
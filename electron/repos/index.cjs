@@ -0,0 +1,150 @@
+/**
+ * repos/index.cjs -> Storage interface for the main process and the orchestrator.
+ * Every method resolves to a Supabase-style { data, error } result, so call sites handle
+ * errors the same way whichever backend is behind it. Backends:
+ *   - supabase (default): supabaseRepos.cjs, any Supabase-compatible Postgres
+ *   - memory (EVENTROPY_STORAGE=memory): memoryRepos.cjs, nothing persisted
+ */
+
+const { createSupabaseRepos } = require("./supabaseRepos.cjs");
+const { createMemoryRepos } = require("./memoryRepos.cjs");
+
+/**
+ * @typedef {{ data: any, error: { message: string } | null }} RepoResult
+ */
+
+/**
+ * @typedef {object} EventsRepo
+ * @property {() => Promise<RepoResult>} list - every event the user can see, by event_date
+ * @property {(id: string) => Promise<RepoResult>} get - events row or null
+ * @property {(slug: string) => Promise<RepoResult>} findIdBySlug - events.id for an evt_slug, or null
+ * @property {(id: string, patch: object) => Promise<RepoResult>} update
+ * @property {(id: string) => Promise<RepoResult>} role - the signed-in user's EventRole on the event, or null
+ * @property {(id: string) => Promise<RepoResult>} listCollaborators - collaborators rows of one event
+ * @property {(id: string) => Promise<RepoResult>} listDocuments - documents rows of one event
+ */
+
+/**
+ * @typedef {object} TasksRepo
+ * @property {(filter?: { eventId?: string, agentId?: string, status?: string }) => Promise<RepoResult>} list - oldest first
+ * @property {(id: string) => Promise<RepoResult>} get - tasks row or null
+ * @property {(id: string, patch: object) => Promise<RepoResult>} update
+ */
+
+/**
+ * @typedef {object} ChatRepo
+ * @property {(filter?: { eventId?: string, agentId?: string }) => Promise<RepoResult>} list - oldest first
+ * @property {(row: object) => Promise<RepoResult>} insert - returns the stored row
+ */
+
+/**
+ * @typedef {object} GuestsRepo
+ * @property {(eventId: string) => Promise<RepoResult>} list - guests of one event, by name
+ * @property {(row: object) => Promise<RepoResult>} insert - returns the stored row
+ * @property {(id: string, patch: object) => Promise<RepoResult>} update
+ * @property {(eventId: string) => Promise<RepoResult>} listRsvps
+ * @property {(row: object) => Promise<RepoResult>} upsertRsvp - by guest_id (one RSVP per guest); returns the stored row
+ */
+
+/**
+ * @typedef {object} BudgetRepo
+ * @property {(eventId: string) => Promise<RepoResult>} list - budget_items of one event, oldest first
+ * @property {(row: object) => Promise<RepoResult>} insert - returns the stored row
+ * @property {(id: string, patch: object) => Promise<RepoResult>} update
+ */
+
+/**
+ * @typedef {object} VendorsRepo
+ * @property {() => Promise<RepoResult>} list - vendors the user can see, by name
+ * @property {(row: object) => Promise<RepoResult>} insert - returns the stored row
+ * @property {(id: string, patch: object) => Promise<RepoResult>} update
+ * @property {() => Promise<RepoResult>} listLinks - vendor_links of every visible vendor, oldest first
+ * @property {(row: object) => Promise<RepoResult>} insertLink - returns the stored row
+ */
+
+/**
+ * @typedef {object} RunOfShowRepo
+ * @property {(eventId: string) => Promise<RepoResult>} list - run_of_show_segments of one event, by position
+ * @property {(row: object) => Promise<RepoResult>} insert - returns the stored row
+ * @property {(id: string, patch: object) => Promise<RepoResult>} update
+ * @property {(id: string) => Promise<RepoResult>} remove
+ */
+
+/**
+ * @typedef {object} OrchestratorRepo
+ * @property {(row: object) => Promise<RepoResult>} createRun - returns { id }
+ * @property {(id: string, patch: object) => Promise<RepoResult>} updateRun
+ * @property {() => Promise<RepoResult>} listActiveRuns - running/paused runs, newest first
+ * @property {(eventId: string) => Promise<RepoResult>} listEventRuns - every run of one event, oldest first
+ * @property {(row: object) => Promise<RepoResult>} addMessage
+ * @property {(taskId: string) => Promise<RepoResult>} listTaskMessages - oldest first
+ * @property {(runId: string) => Promise<RepoResult>} listHistory - history turns (claude_content) in history order
+ * @property {(runIds: string[], opts?: { toolNames?: string[], limit?: number }) => Promise<RepoResult>} listRunMessages - newest first
+ * @property {(row: object) => Promise<RepoResult>} createNotification - returns { id }
+ * @property {(id: string, patch: object) => Promise<RepoResult>} updateNotification
+ * @property {(filter?: { eventId?: string, runId?: string }) => Promise<RepoResult>} listOpenNotifications - newest first
+ * @property {(eventId: string) => Promise<RepoResult>} listEventNotifications - resolved or not, oldest first
+ * @property {(row: object) => Promise<RepoResult>} createApproval - returns the stored row
+ * @property {(id: string, patch: object) => Promise<RepoResult>} updateApproval - returns the updated row
+ * @property {(filter?: { eventId?: string, runId?: string }) => Promise<RepoResult>} listPendingApprovals - oldest first
+ * @property {(eventId: string, status: string) => Promise<RepoResult>} listApprovalsByStatus - oldest first
+ */
+
+/**
+ * @typedef {object} UsageRepo
+ * Roll-ups match the ai_usage_by_* views (migration 007).
+ * @property {(row: object) => Promise<RepoResult>} insert - one ai_usage row
+ * @property {(filter?: { month?: string, limit?: number, userId?: string }) => Promise<RepoResult>} byMonth - newest
+ *   month first; with userId only that user's calls (ai_usage_by_user_month, migration 013)
+ * @property {(filter?: { eventId?: string }) => Promise<RepoResult>} byEvent - highest cost first
+ * @property {(filter?: { eventId?: string, limit?: number }) => Promise<RepoResult>} byRun - latest started first
+ * @property {(filter?: { eventId?: string, limit?: number }) => Promise<RepoResult>} byTask - highest cost first
+ */
+
+/**
+ * @typedef {object} RetrosRepo
+ * @property {(eventId: string) => Promise<RepoResult>} get - event_retros row of one event, or null
+ * @property {(row: object) => Promise<RepoResult>} upsert - by event_id (one retro per event); returns the stored row
+ */
+
+/**
+ * @typedef {object} Repos
+ * @property {EventsRepo} events
+ * @property {TasksRepo} tasks
+ * @property {ChatRepo} chat
+ * @property {GuestsRepo} guests
+ * @property {BudgetRepo} budget
+ * @property {VendorsRepo} vendors
+ * @property {RunOfShowRepo} runOfShow
+ * @property {OrchestratorRepo} orchestrator
+ * @property {UsageRepo} usage
+ * @property {RetrosRepo} retros
+ */
+
+/** @type {Repos | null} */
+let memoryRepos = null;
+
+/**
+ * storageBackend -> "memory" when EVENTROPY_STORAGE=memory, otherwise "supabase".
+ * @returns {"memory" | "supabase"}
+ */
+function storageBackend() {
+  return process.env.EVENTROPY_STORAGE === "memory" ? "memory" : "supabase";
+}
+
+/**
+ * createRepos -> Repos for the configured backend. The memory store lives for the
+ * whole process; Supabase repos wrap a fresh client.
+ * @param {() => object | null} createClient - Supabase client factory (main.cjs wraps it in localDbClient.cjs)
+ * @returns {Repos | null} null when Supabase is selected but not configured
+ */
+function createRepos(createClient) {
+  if (storageBackend() === "memory") {
+    if (!memoryRepos) memoryRepos = createMemoryRepos();
+    return memoryRepos;
+  }
+  const supabase = createClient();
+  return supabase ? createSupabaseRepos(supabase) : null;
+}
+
+module.exports = { createRepos, storageBackend, createSupabaseRepos, createMemoryRepos };
@@ -0,0 +1,316 @@
+/**
+ * memoryRepos.cjs -> Repos (see index.cjs) kept in process memory: a test double for the
+ * orchestrator and the agent tools. Mirrors what the database does for us: generated ids,
+ * created_at, the task version trigger (migration 010) and column defaults. Rows are
+ * copied in and out, and results have the same { data, error } shape as Supabase.
+ */
+
+const crypto = require("crypto");
+
+/** DEFAULTS -> Column defaults per table, applied on insert. */
+const DEFAULTS = {
+  orchestrator_notifications: { is_read: false, is_resolved: false, resolved_response: null },
+  tool_approvals: { status: "pending", decided_at: null },
+  tasks: { version: 1 },
+  guests: { email: null, phone: null, dietary_needs: null, notes: null, source: "manual", external_id: null },
+  rsvps: { status: "invited", plus_ones: 0, responded_at: null, source: "manual" },
+  budget_items: {
+    agent_id: "general",
+    vendor_name: null,
+    vendor_url: null,
+    estimated: 0,
+    committed: 0,
+    paid: 0,
+    paid_at: null,
+    receipt_url: null,
+    notes: null,
+    task_id: null,
+    source: "manual",
+  },
+  vendors: {
+    categories: [],
+    contact_name: null,
+    email: null,
+    phone: null,
+    website: null,
+    price_min: null,
+    price_max: null,
+    price_notes: null,
+    rating: null,
+    notes: null,
+    user_id: null,
+    org_id: null,
+  },
+  vendor_links: { task_id: null, notes: null, source: "manual" },
+  run_of_show_segments: {
+    position: 0,
+    start_time: null,
+    duration_minutes: 15,
+    owner: null,
+    location: null,
+    av_cues: null,
+    notes: null,
+    source: "manual",
+  },
+  ai_usage: { input_tokens: 0, output_tokens: 0, cache_creation_input_tokens: 0, cache_read_input_tokens: 0, cost_usd: 0 },
+};
+
+/**
+ * createMemoryRepos -> Build an empty (or seeded) in-memory store.
+ * @param {Record<string, object[]>} [seed] - Initial rows per table name
+ * @returns {import("./index.cjs").Repos}
+ */
+function createMemoryRepos(seed = {}) {
+  /** @type {Record<string, object[]>} */
+  const tables = {
+    events: [],
+    tasks: [],
+    chat_messages: [],
+    guests: [],
+    rsvps: [],
+    budget_items: [],
+    vendors: [],
+    vendor_links: [],
+    run_of_show_segments: [],
+    orchestrator_runs: [],
+    orchestrator_messages: [],
+    orchestrator_notifications: [],
+    tool_approvals: [],
+    collaborators: [],
+    documents: [],
+    ai_usage: [],
+    event_retros: [],
+  };
+  for (const [table, rows] of Object.entries(seed)) tables[table] = structuredClone(rows);
+
+  const ok = (data = null) => Promise.resolve({ data: data == null ? null : structuredClone(data), error: null });
+  const now = () => new Date().toISOString();
+
+  /** select -> Rows of a table matching every key of `match` (undefined keys are ignored) */
+  const select = (table, match = {}) =>
+    tables[table].filter((row) => Object.entries(match).every(([k, v]) => v === undefined || row[k] === v));
+
+  const byCreatedAt = (ascending) => (a, b) => String(a.created_at).localeCompare(String(b.created_at)) * (ascending ? 1 : -1);
+
+  function insert(table, row) {
+    const stored = { ...DEFAULTS[table], id: crypto.randomUUID(), created_at: now(), ...structuredClone(row) };
+    tables[table].push(stored);
+    return ok(stored);
+  }
+
+  /**
+   * rollUp -> ai_usage rows summed per key, like the ai_usage_by_* views (migration 007).
+   * Rows without a key are left out; `describe` gives the joined columns of a group.
+   */
+  function rollUp(keyOf, describe) {
+    const groups = new Map();
+    for (const row of tables.ai_usage) {
+      const key = keyOf(row);
+      if (key == null) continue;
+      const group = groups.get(key) || { ...describe(row), call_count: 0, input_tokens: 0, output_tokens: 0, cost_usd: 0 };
+      group.call_count += 1;
+      group.input_tokens += row.input_tokens;
+      group.output_tokens += row.output_tokens;
+      group.cost_usd += row.cost_usd;
+      groups.set(key, group);
+    }
+    return [...groups.values()];
+  }
+
+  const byCost = (a, b) => b.cost_usd - a.cost_usd;
+  const limited = (rows, limit) => (limit ? rows.slice(0, limit) : rows);
+
+  function update(table, id, patch) {
+    const row = tables[table].find((r) => r.id === id);
+    if (row) {
+      Object.assign(row, structuredClone(patch));
+      if (table === "tasks") Object.assign(row, { version: (row.version ?? 0) + 1, updated_at: now() });
+    }
+    return ok(row || null);
+  }
+
+  return {
+    events: {
+      list: () => ok(select("events").sort((a, b) => String(a.event_date).localeCompare(String(b.event_date)))),
+      get: (id) => ok(select("events", { id })[0]),
+      findIdBySlug: (slug) => ok(select("events", { evt_slug: slug })[0]?.id),
+      update: (id, patch) => update("events", id, patch),
+      // No accounts without a database: whoever runs the app owns every event
+      role: (id) => ok(select("events", { id }).length > 0 ? "owner" : null),
+      listCollaborators: (id) => ok(select("collaborators", { event_id: id })),
+      listDocuments: (id) => ok(select("documents", { event_id: id })),
+    },
+
+    tasks: {
+      list: ({ eventId, agentId, status } = {}) =>
+        ok(select("tasks", { event_id: eventId, agent_id: agentId, status }).sort(byCreatedAt(true))),
+      get: (id) => ok(select("tasks", { id })[0]),
+      update: (id, patch) => update("tasks", id, patch),
+    },
+
+    chat: {
+      list: ({ eventId, agentId } = {}) =>
+        ok(
+          select("chat_messages", { event_id: eventId, agent_id: agentId }).sort((a, b) =>
+            String(a.message_at).localeCompare(String(b.message_at))
+          )
+        ),
+      insert: (row) => insert("chat_messages", { message_at: now(), ...row }),
+    },
+
+    guests: {
+      list: (eventId) =>
+        ok(select("guests", { event_id: eventId }).sort((a, b) => String(a.name).localeCompare(String(b.name)))),
+      insert: (row) => insert("guests", row),
+      update: (id, patch) => update("guests", id, patch),
+      listRsvps: (eventId) => ok(select("rsvps", { event_id: eventId })),
+      upsertRsvp(row) {
+        const existing = select("rsvps", { guest_id: row.guest_id })[0];
+        return existing ? update("rsvps", existing.id, row) : insert("rsvps", row);
+      },
+    },
+
+    budget: {
+      list: (eventId) => ok(select("budget_items", { event_id: eventId }).sort(byCreatedAt(true))),
+      insert: (row) => insert("budget_items", row),
+      update: (id, patch) => update("budget_items", id, patch),
+    },
+
+    vendors: {
+      list: () => ok(select("vendors").sort((a, b) => String(a.name).localeCompare(String(b.name)))),
+      insert: (row) => insert("vendors", row),
+      update: (id, patch) => update("vendors", id, patch),
+      listLinks: () => ok(select("vendor_links").sort(byCreatedAt(true))),
+      insertLink: (row) => insert("vendor_links", row),
+    },
+
+    runOfShow: {
+      list: (eventId) => ok(select("run_of_show_segments", { event_id: eventId }).sort((a, b) => a.position - b.position)),
+      insert: (row) => insert("run_of_show_segments", row),
+      update: (id, patch) => update("run_of_show_segments", id, patch),
+      remove(id) {
+        tables.run_of_show_segments = tables.run_of_show_segments.filter((r) => r.id !== id);
+        return ok();
+      },
+    },
+
+    orchestrator: {
+      createRun: (row) => insert("orchestrator_runs", row),
+      updateRun: (id, patch) => update("orchestrator_runs", id, patch),
+      listActiveRuns: () =>
+        ok(
+          tables.orchestrator_runs
+            .filter((r) => r.status === "running" || r.status === "paused")
+            .sort(byCreatedAt(false))
+        ),
+      listEventRuns: (eventId) => ok(select("orchestrator_runs", { event_id: eventId }).sort(byCreatedAt(true))),
+
+      addMessage: (row) => insert("orchestrator_messages", row),
+      listTaskMessages: (taskId) => ok(select("orchestrator_messages", { task_id: taskId }).sort(byCreatedAt(true))),
+      listHistory: (runId) =>
+        ok(
+          select("orchestrator_messages", { run_id: runId })
+            .filter((m) => m.claude_content != null)
+            .sort((a, b) => (a.history_seq ?? 0) - (b.history_seq ?? 0) || byCreatedAt(true)(a, b))
+        ),
+      listRunMessages: (runIds, { toolNames, limit } = {}) =>
+        ok(
+          limited(
+            tables.orchestrator_messages
+              .filter((m) => runIds.includes(m.run_id) && (!toolNames || toolNames.includes(m.tool_name)))
+              .sort(byCreatedAt(false)),
+            limit
+          )
+        ),
+
+      createNotification: (row) => insert("orchestrator_notifications", row),
+      updateNotification: (id, patch) => update("orchestrator_notifications", id, patch),
+      listOpenNotifications: ({ eventId, runId } = {}) =>
+        ok(
+          select("orchestrator_notifications", { event_id: eventId, run_id: runId, is_resolved: false }).sort(
+            byCreatedAt(false)
+          )
+        ),
+      listEventNotifications: (eventId) =>
+        ok(select("orchestrator_notifications", { event_id: eventId }).sort(byCreatedAt(true))),
+
+      createApproval: (row) => insert("tool_approvals", row),
+      updateApproval: (id, patch) => update("tool_approvals", id, patch),
+      listPendingApprovals: ({ eventId, runId } = {}) =>
+        ok(select("tool_approvals", { event_id: eventId, run_id: runId, status: "pending" }).sort(byCreatedAt(true))),
+      listApprovalsByStatus: (eventId, status) =>
+        ok(select("tool_approvals", { event_id: eventId, status }).sort(byCreatedAt(true))),
+    },
+
+    usage: {
+      insert: (row) => insert("ai_usage", row),
+      byMonth: ({ month, limit, userId } = {}) =>
+        ok(
+          limited(
+            rollUp(
+              (u) => (userId && u.user_id !== userId ? null : `${u.created_at.slice(0, 7)}-01`),
+              (u) => ({ month: `${u.created_at.slice(0, 7)}-01` })
+            )
+              .filter((r) => !month || r.month === month)
+              .sort((a, b) => b.month.localeCompare(a.month)),
+            limit
+          )
+        ),
+      byEvent: ({ eventId } = {}) =>
+        ok(
+          rollUp(
+            (u) => u.event_id,
+            (u) => {
+              const event = select("events", { id: u.event_id })[0];
+              return { event_id: u.event_id, event_name: event?.name ?? null, ai_budget_usd: event?.ai_budget_usd ?? null };
+            }
+          )
+            .filter((r) => !eventId || r.event_id === eventId)
+            .sort(byCost)
+        ),
+      byRun: ({ eventId, limit } = {}) =>
+        ok(
+          limited(
+            rollUp(
+              (u) => u.run_id,
+              (u) => {
+                const run = select("orchestrator_runs", { id: u.run_id })[0];
+                return {
+                  run_id: u.run_id,
+                  event_id: u.event_id,
+                  agent_id: run?.agent_id ?? null,
+                  run_status: run?.status ?? null,
+                  started_at: run?.started_at ?? null,
+                };
+              }
+            )
+              .filter((r) => !eventId || r.event_id === eventId)
+              .sort((a, b) => String(b.started_at).localeCompare(String(a.started_at))),
+            limit
+          )
+        ),
+      byTask: ({ eventId, limit } = {}) =>
+        ok(
+          limited(
+            rollUp(
+              (u) => u.task_id,
+              (u) => ({ task_id: u.task_id, event_id: u.event_id, task_title: select("tasks", { id: u.task_id })[0]?.title ?? null })
+            )
+              .filter((r) => !eventId || r.event_id === eventId)
+              .sort(byCost),
+            limit
+          )
+        ),
+    },
+
+    retros: {
+      get: (eventId) => ok(select("event_retros", { event_id: eventId })[0]),
+      upsert(row) {
+        const existing = select("event_retros", { event_id: row.event_id })[0];
+        return existing ? update("event_retros", existing.id, { ...row, updated_at: now() }) : insert("event_retros", { ...row, updated_at: now() });
+      },
+    },
+  };
+}
+
+module.exports = { createMemoryRepos };
@@ -0,0 +1,183 @@
+/**
+ * supabaseRepos.cjs -> Repos (see index.cjs) over a Supabase client. Works against any
+ * Supabase-compatible Postgres: hosted, `supabase start` or self-hosted.
+ */
+
+/**
+ * createSupabaseRepos -> Build the repos for a client.
+ * @param {object} supabase - Supabase client, or one that serves the mirrored tables locally (localDbClient.cjs)
+ * @returns {import("./index.cjs").Repos}
+ */
+function createSupabaseRepos(supabase) {
+  return {
+    events: {
+      list: () => supabase.from("events").select("*").order("event_date", { ascending: true }),
+      // select("*") so reads are resilient to columns added by later migrations
+      get: (id) => supabase.from("events").select("*").eq("id", id).maybeSingle(),
+      async findIdBySlug(slug) {
+        const { data, error } = await supabase.from("events").select("id").eq("evt_slug", slug).maybeSingle();
+        return { data: data?.id ?? null, error };
+      },
+      update: (id, patch) => supabase.from("events").update(patch).eq("id", id),
+      // Resolved by the database for the signed-in user (migration 014)
+      role: (id) => supabase.rpc("event_role", { evt: id }),
+      listCollaborators: (id) => supabase.from("collaborators").select("*").eq("event_id", id),
+      listDocuments: (id) => supabase.from("documents").select("*").eq("event_id", id),
+    },
+
+    tasks: {
+      list({ eventId, agentId, status } = {}) {
+        let query = supabase.from("tasks").select("*");
+        if (eventId) query = query.eq("event_id", eventId);
+        if (agentId) query = query.eq("agent_id", agentId);
+        if (status) query = query.eq("status", status);
+        return query.order("created_at", { ascending: true });
+      },
+      get: (id) => supabase.from("tasks").select("*").eq("id", id).maybeSingle(),
+      update: (id, patch) => supabase.from("tasks").update(patch).eq("id", id),
+    },
+
+    chat: {
+      list({ eventId, agentId } = {}) {
+        let query = supabase.from("chat_messages").select("*");
+        if (eventId) query = query.eq("event_id", eventId);
+        if (agentId) query = query.eq("agent_id", agentId);
+        return query.order("message_at", { ascending: true });
+      },
+      insert: (row) => supabase.from("chat_messages").insert(row).select("*").single(),
+    },
+
+    guests: {
+      list: (eventId) => supabase.from("guests").select("*").eq("event_id", eventId).order("name", { ascending: true }),
+      insert: (row) => supabase.from("guests").insert(row).select("*").single(),
+      update: (id, patch) => supabase.from("guests").update(patch).eq("id", id),
+      listRsvps: (eventId) => supabase.from("rsvps").select("*").eq("event_id", eventId),
+      upsertRsvp: (row) => supabase.from("rsvps").upsert(row, { onConflict: "guest_id" }).select("*").single(),
+    },
+
+    budget: {
+      list: (eventId) =>
+        supabase.from("budget_items").select("*").eq("event_id", eventId).order("created_at", { ascending: true }),
+      insert: (row) => supabase.from("budget_items").insert(row).select("*").single(),
+      update: (id, patch) => supabase.from("budget_items").update(patch).eq("id", id),
+    },
+
+    vendors: {
+      list: () => supabase.from("vendors").select("*").order("name", { ascending: true }),
+      insert: (row) => supabase.from("vendors").insert(row).select("*").single(),
+      update: (id, patch) => supabase.from("vendors").update(patch).eq("id", id),
+      listLinks: () => supabase.from("vendor_links").select("*").order("created_at", { ascending: true }),
+      insertLink: (row) => supabase.from("vendor_links").insert(row).select("*").single(),
+    },
+
+    runOfShow: {
+      list: (eventId) =>
+        supabase.from("run_of_show_segments").select("*").eq("event_id", eventId).order("position", { ascending: true }),
+      insert: (row) => supabase.from("run_of_show_segments").insert(row).select("*").single(),
+      update: (id, patch) => supabase.from("run_of_show_segments").update(patch).eq("id", id),
+      remove: (id) => supabase.from("run_of_show_segments").delete().eq("id", id),
+    },
+
+    orchestrator: {
+      createRun: (row) => supabase.from("orchestrator_runs").insert(row).select("id").single(),
+      updateRun: (id, patch) => supabase.from("orchestrator_runs").update(patch).eq("id", id),
+      listActiveRuns: () =>
+        supabase
+          .from("orchestrator_runs")
+          .select("*")
+          .in("status", ["running", "paused"])
+          .order("created_at", { ascending: false }),
+      listEventRuns: (eventId) =>
+        supabase.from("orchestrator_runs").select("*").eq("event_id", eventId).order("created_at", { ascending: true }),
+
+      addMessage: (row) => supabase.from("orchestrator_messages").insert(row),
+      listTaskMessages: (taskId) =>
+        supabase
+          .from("orchestrator_messages")
+          .select("*")
+          .eq("task_id", taskId)
+          .order("created_at", { ascending: true }),
+      listHistory: (runId) =>
+        supabase
+          .from("orchestrator_messages")
+          .select("*")
+          .eq("run_id", runId)
+          .not("claude_content", "is", null)
+          .order("history_seq", { ascending: true })
+          .order("created_at", { ascending: true }),
+      listRunMessages(runIds, { toolNames, limit } = {}) {
+        let query = supabase.from("orchestrator_messages").select("*").in("run_id", runIds);
+        if (toolNames) query = query.in("tool_name", toolNames);
+        query = query.order("created_at", { ascending: false });
+        return limit ? query.limit(limit) : query;
+      },
+
+      createNotification: (row) => supabase.from("orchestrator_notifications").insert(row).select("id").single(),
+      updateNotification: (id, patch) => supabase.from("orchestrator_notifications").update(patch).eq("id", id),
+      listOpenNotifications({ eventId, runId } = {}) {
+        let query = supabase.from("orchestrator_notifications").select("*").eq("is_resolved", false);
+        if (eventId) query = query.eq("event_id", eventId);
+        if (runId) query = query.eq("run_id", runId);
+        return query.order("created_at", { ascending: false });
+      },
+      listEventNotifications: (eventId) =>
+        supabase
+          .from("orchestrator_notifications")
+          .select("*")
+          .eq("event_id", eventId)
+          .order("created_at", { ascending: true }),
+
+      createApproval: (row) => supabase.from("tool_approvals").insert(row).select("*").single(),
+      updateApproval: (id, patch) => supabase.from("tool_approvals").update(patch).eq("id", id).select("*").single(),
+      listPendingApprovals({ eventId, runId } = {}) {
+        let query = supabase.from("tool_approvals").select("*").eq("status", "pending");
+        if (eventId) query = query.eq("event_id", eventId);
+        if (runId) query = query.eq("run_id", runId);
+        return query.order("created_at", { ascending: true });
+      },
+      listApprovalsByStatus: (eventId, status) =>
+        supabase
+          .from("tool_approvals")
+          .select("*")
+          .eq("event_id", eventId)
+          .eq("status", status)
+          .order("created_at", { ascending: true }),
+    },
+
+    usage: {
+      insert: (row) => supabase.from("ai_usage").insert(row),
+      byMonth({ month, limit, userId } = {}) {
+        let query = userId
+          ? supabase.from("ai_usage_by_user_month").select("*").eq("user_id", userId)
+          : supabase.from("ai_usage_by_month").select("*");
+        if (month) query = query.eq("month", month);
+        query = query.order("month", { ascending: false });
+        return limit ? query.limit(limit) : query;
+      },
+      byEvent({ eventId } = {}) {
+        let query = supabase.from("ai_usage_by_event").select("*");
+        if (eventId) query = query.eq("event_id", eventId);
+        return query.order("cost_usd", { ascending: false });
+      },
+      byRun({ eventId, limit } = {}) {
+        let query = supabase.from("ai_usage_by_run").select("*");
+        if (eventId) query = query.eq("event_id", eventId);
+        query = query.order("started_at", { ascending: false });
+        return limit ? query.limit(limit) : query;
+      },
+      byTask({ eventId, limit } = {}) {
+        let query = supabase.from("ai_usage_by_task").select("*");
+        if (eventId) query = query.eq("event_id", eventId);
+        query = query.order("cost_usd", { ascending: false });
+        return limit ? query.limit(limit) : query;
+      },
+    },
+
+    retros: {
+      get: (eventId) => supabase.from("event_retros").select("*").eq("event_id", eventId).maybeSingle(),
+      upsert: (row) => supabase.from("event_retros").upsert(row, { onConflict: "event_id" }).select("*").single(),
+    },
+  };
+}
+
+module.exports = { createSupabaseRepos };
@@ -0,0 +1,91 @@
+/**
+ * settingsStore.cjs -> App-level preferences for the main process (not per connector).
+ * Persisted as plain JSON in the app's userData directory. Unknown keys fall back
+ * to DEFAULT_SETTINGS so new settings work without a migration.
+ */
+
+const { app } = require("electron");
+const fs = require("fs");
+const path = require("path");
+
+/** DEFAULT_SETTINGS -> Values used when a setting has never been saved. */
+const DEFAULT_SETTINGS = {
+  /** maxConcurrentLanes -> How many agent lanes may execute a task at the same time */
+  maxConcurrentLanes: 2,
+  /** aiMonthlyBudgetUsd -> Global AI spend cap per calendar month (UTC); null = no cap */
+  aiMonthlyBudgetUsd: null,
+  /** modelRoutes -> Per-purpose { provider, model }[] overriding MODEL_ROUTES; null = defaults */
+  modelRoutes: null,
+};
+
+/** @type {string | null} */
+let storePath = null;
+
+/** @type {Record<string, unknown>} */
+let store = {};
+
+/**
+ * initSettingsStore -> Load saved settings from disk.
+ * Must be called after app.whenReady().
+ */
+function initSettingsStore() {
+  storePath = path.join(app.getPath("userData"), "settings.json");
+
+  try {
+    if (fs.existsSync(storePath)) {
+      const raw = fs.readFileSync(storePath, "utf-8");
+      store = JSON.parse(raw);
+    }
+  } catch (err) {
+    console.warn("Failed to load settings store:", err);
+    store = {};
+  }
+}
+
+/**
+ * saveStore -> Persist the store to disk.
+ */
+function saveStore() {
+  if (!storePath) return;
+  try {
+    fs.writeFileSync(storePath, JSON.stringify(store, null, 2), "utf-8");
+  } catch (err) {
+    console.error("Failed to save settings store:", err);
+  }
+}
+
+/**
+ * getSettings -> All settings, with defaults filled in.
+ * @returns {Record<string, unknown>}
+ */
+function getSettings() {
+  return { ...DEFAULT_SETTINGS, ...store };
+}
+
+/**
+ * getSetting -> A single setting value (or its default).
+ * @param {string} key
+ * @returns {unknown}
+ */
+function getSetting(key) {
+  return key in store ? store[key] : DEFAULT_SETTINGS[key];
+}
+
+/**
+ * setSettings -> Merge setting values and persist.
+ * @param {Record<string, unknown>} updates
+ * @returns {Record<string, unknown>} All settings after the update
+ */
+function setSettings(updates) {
+  store = { ...store, ...updates };
+  saveStore();
+  return getSettings();
+}
+
+module.exports = {
+  DEFAULT_SETTINGS,
+  initSettingsStore,
+  getSettings,
+  getSetting,
+  setSettings,
+};
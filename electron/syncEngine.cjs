@@ -0,0 +1,324 @@
+/**
+ * syncEngine.cjs -> Background sync between the local database (localDb.cjs) and Supabase.
+ * Push: replays the outbox in order. Updates are merged field by field against what the
+ * server has now: a field is written if nobody else changed it since the edit was made
+ * (the server still has the `before` value); if both sides changed it the server value is
+ * kept and the clash is reported as a conflict. Task updates are also guarded by the task
+ * version (migration 010). Pull: refreshes every mirrored table from Supabase, page by page;
+ * nothing is applied unless every table was read in full.
+ * Runs on a timer, on demand and whenever the renderer hears of a remote change.
+ */
+
+const { net } = require("electron");
+const {
+  TABLES,
+  getOutbox,
+  markInFlight,
+  removeFromOutbox,
+  applyRemoteRows,
+  markPulled,
+  getLastPulledAt,
+} = require("./localDb.cjs");
+
+/** SYNC_INTERVAL_MS -> How often to push and pull while the app is open. */
+const SYNC_INTERVAL_MS = 30 * 1000;
+
+/** INITIAL_PULL_TIMEOUT_MS -> How long a first load waits for the initial pull before using the local copy. */
+const INITIAL_PULL_TIMEOUT_MS = 10 * 1000;
+
+/** PULL_PAGE_SIZE -> Rows per pull request; PostgREST caps a response at 1000 rows by default. */
+const PULL_PAGE_SIZE = 1000;
+
+/** MAX_CONFLICTS -> Conflicts kept for the sync panel (oldest dropped first). */
+const MAX_CONFLICTS = 50;
+
+/** NETWORK_ERROR -> Error messages that mean "could not reach Supabase" rather than "rejected". */
+const NETWORK_ERROR = /fetch failed|failed to fetch|networkerror|network request failed|enotfound|econnrefused|econnreset|etimedout|eai_again/i;
+
+/** @type {() => object | null} */
+let getClient = () => null;
+/** @type {(status: object) => void} */
+let onStatus = () => {};
+/** @type {() => void} */
+let onPulled = () => {};
+
+/** @type {Promise<void> | null} */
+let running = null;
+let rerunRequested = false;
+/** @type {NodeJS.Timeout | null} */
+let timer = null;
+
+const status = {
+  /** state -> "local-only" (Supabase not configured) | "offline" | "syncing" | "synced" | "error" */
+  state: "synced",
+  lastSyncedAt: null,
+  error: null,
+  /** @type {object[]} */
+  conflicts: [],
+};
+
+/**
+ * isNetworkError -> True if the error means Supabase could not be reached.
+ * @param {{ message?: string } | null | undefined} error
+ */
+function isNetworkError(error) {
+  return !!error && NETWORK_ERROR.test(String(error.message || error));
+}
+
+/**
+ * getSyncStatus -> Current sync state plus the number of local changes not yet pushed.
+ */
+function getSyncStatus() {
+  return { ...status, pending: getOutbox().length, conflicts: status.conflicts.slice() };
+}
+
+function emitStatus() {
+  onStatus(getSyncStatus());
+}
+
+/**
+ * addConflict -> Remember a change that could not be applied as made.
+ * @param {{ table: string, rowId: string, label: string, fields: string[], reason: "changed" | "deleted" | "rejected", message?: string }} conflict
+ */
+function addConflict(conflict) {
+  status.conflicts = [...status.conflicts, { ...conflict, at: new Date().toISOString() }].slice(-MAX_CONFLICTS);
+}
+
+/**
+ * dismissSyncConflicts -> Clear the conflict list.
+ */
+function dismissSyncConflicts() {
+  status.conflicts = [];
+  emitStatus();
+}
+
+/**
+ * rowLabel -> Human-readable name of a row for the conflict list.
+ * @param {object | null} row
+ * @param {string} fallback
+ */
+function rowLabel(row, fallback) {
+  return row?.title || row?.name || (row?.content ? String(row.content).slice(0, 60) : null) || fallback;
+}
+
+/**
+ * pushUpdate -> Write one queued update, merging with concurrent server changes.
+ * @returns {Promise<{ error?: object }>} error only for network failures (entry stays queued)
+ */
+async function pushUpdate(supabase, entry) {
+  let patch = { ...entry.patch };
+  const clashes = [];
+
+  for (let attempt = 0; attempt < 3; attempt++) {
+    const { data: current, error: fetchErr } = await supabase.from(entry.table).select("*").eq("id", entry.id).maybeSingle();
+    if (fetchErr) return isNetworkError(fetchErr) ? { error: fetchErr } : rejected(entry, fetchErr);
+    if (!current) {
+      addConflict({ table: entry.table, rowId: entry.id, label: rowLabel(entry.before, entry.id), fields: Object.keys(entry.patch), reason: "deleted" });
+      return {};
+    }
+
+    const merged = {};
+    for (const [key, value] of Object.entries(patch)) {
+      const saved = JSON.stringify(current[key] ?? null);
+      if (saved === JSON.stringify(value ?? null)) continue;
+      if (saved === JSON.stringify(entry.before[key] ?? null)) merged[key] = value;
+      else if (!clashes.includes(key)) clashes.push(key);
+    }
+    if (Object.keys(merged).length === 0) break;
+
+    let query = supabase.from(entry.table).update(merged).eq("id", entry.id);
+    // Tasks: only write if nobody saved the task between our read and this write
+    if (entry.table === "tasks" && current.version != null) query = query.eq("version", current.version);
+    const { data, error } = await query.select("id");
+    if (error) return isNetworkError(error) ? { error } : rejected(entry, error);
+    if (data && data.length > 0) {
+      patch = {};
+      break;
+    }
+    patch = merged;
+  }
+
+  if (Object.keys(patch).length > 0) clashes.push(...Object.keys(patch).filter((k) => !clashes.includes(k)));
+  if (clashes.length > 0) {
+    addConflict({ table: entry.table, rowId: entry.id, label: rowLabel({ ...entry.before, ...entry.patch }, entry.id), fields: clashes, reason: "changed" });
+  }
+  return {};
+}
+
+/**
+ * rejected -> Record a change Supabase refused (constraint, permissions); it is dropped from the outbox.
+ */
+function rejected(entry, error) {
+  addConflict({
+    table: entry.table,
+    rowId: entry.id,
+    label: rowLabel(entry.row || entry.before || null, entry.id),
+    fields: [],
+    reason: "rejected",
+    message: error.message,
+  });
+  return {};
+}
+
+/**
+ * pushEntry -> Send one outbox entry to Supabase.
+ * @returns {Promise<{ error?: object }>} error only for network failures
+ */
+async function pushEntry(supabase, entry) {
+  if (entry.op === "insert") {
+    // The task version and timestamps are the server's to set
+    const { version: _version, ...row } = entry.row;
+    const { error } = await supabase.from(entry.table).upsert(row, { onConflict: "id", ignoreDuplicates: true });
+    if (error) return isNetworkError(error) ? { error } : rejected(entry, error);
+    return {};
+  }
+
+  if (entry.op === "update") return pushUpdate(supabase, entry);
+
+  let query = supabase.from(entry.table).delete().eq("id", entry.id);
+  if (entry.table === "tasks" && entry.baseVersion != null) query = query.eq("version", entry.baseVersion);
+  const { data, error } = await query.select("id");
+  if (error) return isNetworkError(error) ? { error } : rejected(entry, error);
+  if (!data || data.length === 0) {
+    // Nothing deleted: already gone, or edited elsewhere since (kept)
+    const { data: stillThere } = await supabase.from(entry.table).select("*").eq("id", entry.id).maybeSingle();
+    if (stillThere) {
+      addConflict({ table: entry.table, rowId: entry.id, label: rowLabel(stillThere, entry.id), fields: [], reason: "changed" });
+    }
+  }
+  return {};
+}
+
+/**
+ * fetchTable -> Every row of a table, a page at a time (ordered by id so pages do not
+ * shift while they are read).
+ * @returns {Promise<{ data?: object[], error?: object }>}
+ */
+async function fetchTable(supabase, table) {
+  const rows = [];
+  for (let from = 0; ; from += PULL_PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from(table)
+      .select("*")
+      .order("id", { ascending: true })
+      .range(from, from + PULL_PAGE_SIZE - 1);
+    if (error) return { error };
+    rows.push(...(data || []));
+    if (!data || data.length < PULL_PAGE_SIZE) return { data: rows };
+  }
+}
+
+/**
+ * pull -> Refresh every mirrored table from Supabase. A table is only replaced with a
+ * complete read; if any page fails, nothing is applied.
+ * @returns {Promise<{ changed: boolean, error?: object }>}
+ */
+async function pull(supabase) {
+  const results = await Promise.all(TABLES.map((table) => fetchTable(supabase, table)));
+  const failed = results.find((r) => r.error);
+  if (failed) return { changed: false, error: failed.error };
+  let changed = false;
+  TABLES.forEach((table, i) => {
+    if (applyRemoteRows(table, results[i].data)) changed = true;
+  });
+  markPulled();
+  return { changed };
+}
+
+/**
+ * runSync -> One push + pull round.
+ */
+async function runSync() {
+  const supabase = getClient();
+  if (!supabase) {
+    status.state = "local-only";
+    emitStatus();
+    return;
+  }
+  if (!net.isOnline()) {
+    status.state = "offline";
+    emitStatus();
+    return;
+  }
+
+  status.state = "syncing";
+  emitStatus();
+  try {
+    for (const entry of getOutbox()) {
+      // Edits made while this entry is on its way are queued after it, not merged into it
+      markInFlight(entry.seq, true);
+      try {
+        const { error } = await pushEntry(supabase, entry);
+        if (error) throw error;
+        removeFromOutbox([entry.seq]);
+      } finally {
+        markInFlight(entry.seq, false);
+      }
+    }
+    const { changed, error } = await pull(supabase);
+    if (error) throw error;
+
+    status.state = "synced";
+    status.error = null;
+    status.lastSyncedAt = new Date().toISOString();
+    if (changed) onPulled();
+  } catch (err) {
+    status.state = isNetworkError(err) ? "offline" : "error";
+    status.error = status.state === "error" ? err.message || String(err) : null;
+    if (status.state === "error") console.error("[Eventropy] Sync failed:", err);
+  }
+  emitStatus();
+}
+
+/**
+ * syncNow -> Push local changes and pull remote ones. Calls made while a round is running
+ * wait for it and then run one more round.
+ * @returns {Promise<void>}
+ */
+function syncNow() {
+  if (running) {
+    rerunRequested = true;
+    return running;
+  }
+  running = (async () => {
+    do {
+      rerunRequested = false;
+      await runSync();
+    } while (rerunRequested);
+  })().finally(() => {
+    running = null;
+  });
+  return running;
+}
+
+/**
+ * ensureInitialPull -> On a fresh install, wait (briefly) for the first pull so the app
+ * does not open empty. Later loads read the local copy straight away.
+ */
+async function ensureInitialPull() {
+  if (getLastPulledAt() || !getClient()) return;
+  await Promise.race([syncNow(), new Promise((resolve) => setTimeout(resolve, INITIAL_PULL_TIMEOUT_MS))]);
+}
+
+/**
+ * startSyncEngine -> Start periodic sync.
+ * @param {{ createClient: () => object | null, onStatus: (status: object) => void, onPulled: () => void }} opts
+ */
+function startSyncEngine(opts) {
+  getClient = opts.createClient;
+  onStatus = opts.onStatus;
+  onPulled = opts.onPulled;
+  if (timer) clearInterval(timer);
+  timer = setInterval(() => {
+    syncNow();
+  }, SYNC_INTERVAL_MS);
+  syncNow();
+}
+
+module.exports = {
+  startSyncEngine,
+  syncNow,
+  ensureInitialPull,
+  getSyncStatus,
+  dismissSyncConflicts,
+};
@@ -1,24 +1,51 @@
 import { useState, useEffect, useMemo, useRef } from "react";
 import { useLocation, useNavigate } from "react-router-dom";
+import type { Session } from "@supabase/supabase-js";
 import DragRegion from "./components/DragRegion";
 import HamburgerButton from "./components/HamburgerButton";
 import Sidebar from "./components/Sidebar";
 import MainContent from "./components/MainContent";
-import { fetchAllEvents, insertEvent, insertChatMessage, syncEventTasks, deleteEvent } from "./lib/eventsDb";
+import AuthScreen from "./components/AuthScreen";
+import {
+  fetchAllEvents,
+  insertEvent,
+  insertChatMessage,
+  syncEventTasks,
+  updateEvent,
+  deleteEvent,
+  fetchEventSeries,
+  createEventSeries,
+  updateEventSeries,
+  createSeriesOccurrence,
+} from "./lib/eventsDb";
+import { subscribeToEventChanges, applyRealtimeChange } from "./lib/realtime";
+import { mapPlannedDependencies, findDependencyCycle, describeDependencyCycle } from "./lib/taskDependencies";
+import { newRecordId } from "./lib/taskSync";
+import { templateFromEvent, tasksFromTemplate } from "./lib/templates";
+import { dueOccurrences } from "./lib/series";
+import { canManageSeries } from "./lib/permissions";
+import { diffEventFormData, mergeDetailChanges, applyReplanChange } from "./lib/replan";
 import { pathnameToView, viewToPath } from "./lib/routes";
-import { isElectron, planEvent } from "./lib/electronBridge";
+import { isAuthEnabled, onAuthChange, fetchAccount } from "./lib/auth";
+import { isElectron, planEvent, replanEvent, onTaskProgress, onSyncPulled, syncNow } from "./lib/electronBridge";
 import type {
   ActiveView,
   AgentId,
   SidebarState,
   PlannerEvent,
   EventFormData,
+  EventSource,
+  EventSeries,
   AccountSettings,
   Task,
+  TaskSyncConflict,
+  ReplanChange,
+  ReplanProposal,
 } from "./types";
 
 /**
- * INITIAL_ACCOUNT_SETTINGS -> Default account settings.
+ * INITIAL_ACCOUNT_SETTINGS -> Account used without Supabase (no sign-in) and until the
+ * signed-in user's account has loaded.
  */
 const INITIAL_ACCOUNT_SETTINGS: AccountSettings = {
   currentAccount: "personal",
@@ -28,6 +55,9 @@ const INITIAL_ACCOUNT_SETTINGS: AccountSettings = {
   },
 };
 
+/** REALTIME_PULL_DELAY_MS -> Wait after a realtime change before pulling it into the local database. */
+const REALTIME_PULL_DELAY_MS = 2000;
+
 /**
  * App -> Root application shell.
  *
@@ -35,7 +65,9 @@ const INITIAL_ACCOUNT_SETTINGS: AccountSettings = {
  *   activeView    -> Discriminated union controlling which view renders.
  *   sidebarState  -> `"open"` | `"closed"` sidebar visibility toggle.
  *   eventRegistry -> Array of all PlannerEvents (from Supabase).
- *   accountSettings -> Current account settings and preferences.
+ *   eventSeries   -> Recurring series; their occurrences are in eventRegistry.
+ *   accountSettings -> Signed-in user's profile and organization (see lib/auth).
+ *   session       -> Supabase Auth session; null while signed out.
  */
 export default function App() {
   const location = useLocation();
@@ -44,27 +76,79 @@ export default function App() {
   const previousViewRef = useRef<ActiveView>({ kind: "dashboard" });
   const [sidebarState, setSidebarState] = useState<SidebarState>("closed");
   const [eventRegistry, setEventRegistry] = useState<PlannerEvent[]>([]);
+  const [eventSeries, setEventSeries] = useState<EventSeries[]>([]);
+  /** "seriesId:date" -> occurrences already being created this session (not retried until reload) */
+  const creatingOccurrencesRef = useRef<Set<string>>(new Set());
   const [accountSettings, setAccountSettings] = useState<AccountSettings>(INITIAL_ACCOUNT_SETTINGS);
+  const [session, setSession] = useState<Session | null>(null);
+  /** authReady -> The stored session (if any) has been restored */
+  const [authReady, setAuthReady] = useState(!isAuthEnabled());
+  /** signedInUserId -> Events load once someone is signed in (always, without Supabase) */
+  const signedInUserId = isAuthEnabled() ? session?.user.id ?? null : "local";
   const [loading, setLoading] = useState(true);
   const [loadError, setLoadError] = useState<string | null>(null);
   const [createEventLoading, setCreateEventLoading] = useState(false);
-  /** True while a task sync is in flight; disables toggle/delete to prevent duplicate syncs. */
-  const [taskSyncInProgress, setTaskSyncInProgress] = useState(false);
-  /** Serialize task syncs so concurrent clicks don't cause DELETE+INSERT race and duplicate rows. */
-  const taskSyncPromiseRef = useRef<Promise<void>>(Promise.resolve());
-  /** Latest pending task update; used so we sync latest state, not stale closure. */
-  const pendingTasksRef = useRef<{ evtId: string; tasks: Task[] } | null>(null);
+  /** evtId -> edits that could not be saved cleanly because the tasks changed elsewhere */
+  const [taskSyncConflicts, setTaskSyncConflicts] = useState<Record<string, TaskSyncConflict[]>>({});
+  /** evtId -> chain of task saves; saves for one event run in order so a delete cannot overtake its insert */
+  const taskSyncQueueRef = useRef<Record<string, Promise<void>>>({});
+  /** evtId -> latest task save number; only the latest save's result replaces local state */
+  const taskSyncSeqRef = useRef<Record<string, number>>({});
+  /** evtId -> form fields with a save in flight; realtime updates leave these fields alone */
+  const pendingEventFieldsRef = useRef<Record<string, Map<keyof EventFormData, number>>>({});
+  /** evtId -> task changes proposed after the event details changed, awaiting the user */
+  const [replanProposals, setReplanProposals] = useState<Record<string, ReplanProposal>>({});
+  /** evtId -> latest replan request number; older responses are ignored */
+  const replanSeqRef = useRef<Record<string, number>>({});
 
   useEffect(() => {
     if (location.pathname === "" || location.pathname === "/") navigate("/dashboard", { replace: true });
   }, [location.pathname, navigate]);
 
   useEffect(() => {
+    return onAuthChange((next) => {
+      setSession(next);
+      setAuthReady(true);
+    });
+  }, []);
+
+  // Load the account of whoever signed in; the account type follows org membership
+  useEffect(() => {
+    const user = session?.user;
+    if (!user) {
+      setAccountSettings(INITIAL_ACCOUNT_SETTINGS);
+      return;
+    }
     let cancelled = false;
+    fetchAccount(user)
+      .then((account) => {
+        if (!cancelled) setAccountSettings(account);
+      })
+      .catch((err) => console.warn("[Eventropy] Could not load account:", err));
+    return () => {
+      cancelled = true;
+    };
+  }, [session?.user.id]);
+
+  useEffect(() => {
+    if (!signedInUserId) return;
+    let cancelled = false;
+    setLoading(true);
     setLoadError(null);
-    fetchAllEvents()
-      .then((events) => {
-        if (!cancelled) setEventRegistry(events);
+    setEventRegistry([]);
+    setEventSeries([]);
+    // Series and events arrive together, so no occurrence looks missing in between
+    Promise.all([
+      fetchEventSeries().catch((err): EventSeries[] => {
+        console.warn("[Eventropy] Could not load event series:", err);
+        return [];
+      }),
+      fetchAllEvents(),
+    ])
+      .then(([series, events]) => {
+        if (cancelled) return;
+        setEventSeries(series);
+        setEventRegistry(events);
       })
       .catch((err) => {
         if (!cancelled) setLoadError(err?.message ?? "Failed to load events");
@@ -75,12 +159,110 @@ export default function App() {
     return () => {
       cancelled = true;
     };
+  }, [signedInUserId]);
+
+  // Merge row changes from other windows and collaborators (Supabase Realtime)
+  useEffect(() => {
+    if (!signedInUserId) return;
+    const isFieldPending = (evtId: string, field: keyof EventFormData) =>
+      (pendingEventFieldsRef.current[evtId]?.get(field) ?? 0) > 0;
+    /** pullTimer -> Batches a burst of remote changes into one pull of the local database */
+    let pullTimer: ReturnType<typeof setTimeout> | null = null;
+    const unsubscribe = subscribeToEventChanges({
+      onChange: (change) => {
+        setEventRegistry((prev) => applyRealtimeChange(prev, change, isFieldPending));
+        if (isElectron() && !pullTimer) {
+          pullTimer = setTimeout(() => {
+            pullTimer = null;
+            syncNow();
+          }, REALTIME_PULL_DELAY_MS);
+        }
+      },
+      // Changes made while disconnected were not delivered; reload everything
+      onReconnect: () => {
+        fetchAllEvents()
+          .then(setEventRegistry)
+          .catch((err) => console.warn("[Eventropy] Reload after realtime reconnect failed:", err));
+      },
+    });
+    return () => {
+      unsubscribe();
+      if (pullTimer) clearTimeout(pullTimer);
+    };
+  }, [signedInUserId]);
+
+  // The background sync pulled remote changes into the local database; reload from it
+  useEffect(() => {
+    return onSyncPulled(() => {
+      fetchAllEvents()
+        .then(setEventRegistry)
+        .catch((err) => console.warn("[Eventropy] Reload after sync failed:", err));
+      fetchEventSeries()
+        .then(setEventSeries)
+        .catch((err) => console.warn("[Eventropy] Reload of event series after sync failed:", err));
+    });
+  }, []);
+
+  // Create the upcoming occurrences of recurring series (within each series' horizon) with
+  // their task plans. Only the series' managers create them; the database keeps one event
+  // per occurrence date.
+  useEffect(() => {
+    if (loading || !signedInUserId) return;
+    const userId = accountSettings.personalAccount.userId;
+    if (isAuthEnabled() && !userId) return;
+    const due = eventSeries
+      .filter((series) => canManageSeries(series, accountSettings))
+      .flatMap((series) => dueOccurrences(series, eventRegistry).map((date) => ({ series, date })))
+      .filter(({ series, date }) => !creatingOccurrencesRef.current.has(`${series.id}:${date}`));
+    if (due.length === 0) return;
+    for (const { series, date } of due) creatingOccurrencesRef.current.add(`${series.id}:${date}`);
+    (async () => {
+      for (const { series, date } of due) {
+        try {
+          const occurrence = await createSeriesOccurrence(series, date, { userId });
+          // Realtime may already have added the event row; replace it with the full event
+          setEventRegistry((prev) => [...prev.filter((e) => e.evtId !== occurrence.evtId), occurrence]);
+        } catch (err) {
+          console.warn(`[Eventropy] Could not create the ${date} occurrence of "${series.name}":`, err);
+        }
+      }
+    })();
+  }, [loading, signedInUserId, eventSeries, eventRegistry, accountSettings]);
+
+  // Merge orchestrator task progress into local state. The orchestrator already
+  // persisted these fields, so no task sync is triggered here.
+  useEffect(() => {
+    return onTaskProgress((update) => {
+      setEventRegistry((prev) =>
+        prev.map((e) => {
+          if (!e.tasks?.some((t) => t.id === update.taskId)) return e;
+          return {
+            ...e,
+            tasks: e.tasks.map((t) =>
+              t.id === update.taskId
+                ? {
+                    ...t,
+                    status: update.status,
+                    aiProgressPct: update.progressPct,
+                    aiProgressText: update.progressText,
+                    aiSummary: update.summary ?? t.aiSummary,
+                    completedAt:
+                      update.status === "done" ? t.completedAt ?? new Date().toISOString() : t.completedAt,
+                  }
+                : t
+            ),
+          };
+        })
+      );
+    });
   }, []);
 
   /**
    * handleEventCreate -> Creates event in Supabase, adds one welcome message, then navigates.
+   * With a source (template or past event) its tasks are copied instead of planned by the AI.
+   * With a recurrence rule the event starts a series and becomes its first occurrence.
    */
-  const handleEventCreate = async (formData: EventFormData) => {
+  const handleEventCreate = async (formData: EventFormData, source?: EventSource, rrule?: string) => {
     setCreateEventLoading(true);
     try {
       const eventDate = formData.eventDate ? new Date(formData.eventDate) : null;
@@ -97,16 +279,30 @@ export default function App() {
       const { id: eventDbId, evt_slug } = await insertEvent(formData, {
       status,
       accountType: accountSettings.currentAccount,
+      userId: accountSettings.personalAccount.userId,
+      orgId: accountSettings.organizationAccount?.orgId,
     });
+    const welcomeMsgId = newRecordId();
     await insertChatMessage(eventDbId, {
+      id: welcomeMsgId,
       agent_id: "general",
       role: "system",
       content: "Event created. Add tasks and use the agents to get things done.",
     });
 
-    // Ask AI to generate an initial task breakdown for this event (when option is enabled)
-    let aiTasks: Task[] = [];
-    if (formData.generateAiTasks !== false) {
+    let initialTasks: Task[] = [];
+    const sourceEvent = source?.kind === "event" ? eventRegistry.find((e) => e.evtId === source.evtId) : undefined;
+    const sourceTasks =
+      source?.kind === "template" ? source.template.tasks : sourceEvent ? templateFromEvent(sourceEvent).tasks : [];
+    if (sourceTasks.length > 0) {
+      // Due dates move with the new event date
+      const copiedTasks = tasksFromTemplate(sourceTasks, formData.eventDate);
+      initialTasks = await syncEventTasks(eventDbId, copiedTasks).then((r) => r.tasks).catch((err) => {
+        console.error("[Eventropy] Failed to save copied tasks:", err);
+        return copiedTasks;
+      });
+    } else if (formData.generateAiTasks !== false) {
+      // Ask AI to generate an initial task breakdown for this event (when option is enabled)
       if (!isElectron()) {
         console.warn("[Eventropy] AI task planning is only available in the Electron app. Run with: npm run dev (opens Electron window). Tasks were not generated.");
       } else {
@@ -116,8 +312,10 @@ export default function App() {
             console.error("[Eventropy] Plan event error:", planResult.error);
           }
           if (planResult?.tasks?.length) {
-            aiTasks = planResult.tasks.map((t, i) => ({
-              id: `task-ai-${Date.now()}-${i}`,
+            // Ids are assigned up front so the planner's index-based dependencies become task ids.
+            const planIds = planResult.tasks.map(() => newRecordId());
+            initialTasks = planResult.tasks.map((t, i) => ({
+              id: planIds[i],
               title: t.title,
               description: t.description,
               status: "todo" as const,
@@ -125,14 +323,24 @@ export default function App() {
               dueDate: t.dueDate,
               agentId: t.agentId as AgentId | undefined,
               assignedTo: "ai-agent",
-              dependencies: [],
+              dependencies: mapPlannedDependencies(t.dependencies ?? [], planIds, i),
               blockers: [],
               subtasks: [],
               createdAt: new Date().toISOString(),
               chatMessages: [],
             }));
-            await syncEventTasks(eventDbId, aiTasks).catch((err) => {
+            const cycle = findDependencyCycle(initialTasks);
+            if (cycle) {
+              console.warn(
+                "[Eventropy] Planner returned a dependency cycle; dropping planned dependencies:",
+                describeDependencyCycle(cycle, initialTasks)
+              );
+              initialTasks = initialTasks.map((t) => ({ ...t, dependencies: [] }));
+            }
+            // Keep the persisted rows so versions match what is stored.
+            initialTasks = await syncEventTasks(eventDbId, initialTasks).then((r) => r.tasks).catch((err) => {
               console.error("[Eventropy] Failed to sync AI tasks to Supabase:", err);
+              return initialTasks;
             });
           } else {
             console.warn("[Eventropy] Plan event returned no tasks.", planResult?.tasks);
@@ -145,12 +353,13 @@ export default function App() {
 
     const newEvent: PlannerEvent = {
       evtId: evt_slug,
+      eventUuid: eventDbId,
       formData,
       status,
       createdAt: new Date().toISOString(),
       chatTimeline: [
         {
-          msgId: `welcome-${evt_slug}`,
+          msgId: welcomeMsgId,
           agentId: "general",
           role: "system",
           content: "Event created. Add tasks and use the agents to get things done.",
@@ -158,15 +367,30 @@ export default function App() {
         },
       ],
       accountType: accountSettings.currentAccount,
-      tasks: aiTasks,
+      tasks: initialTasks,
       documents: [],
-      collaborators:
-        accountSettings.currentAccount === "organization"
-          ? accountSettings.organizationAccount?.collaborators || []
-          : undefined,
+      collaborators: [],
+      ownerId: accountSettings.personalAccount.userId,
+      orgId: accountSettings.organizationAccount?.orgId,
     };
 
-      setEventRegistry((prev) => [newEvent, ...prev]);
+      const series =
+        rrule && formData.eventDate
+          ? await createEventSeries(newEvent, {
+              rrule,
+              startsOn: formData.eventDate,
+              userId: accountSettings.personalAccount.userId,
+              orgId: accountSettings.organizationAccount?.orgId,
+            }).catch((err) => {
+              console.error("[Eventropy] Failed to create the event series:", err);
+              return undefined;
+            })
+          : undefined;
+      const created = series ? { ...newEvent, seriesId: series.id, occurrenceDate: series.startsOn } : newEvent;
+
+      // Realtime may already have added the event row; replace it with the full event
+      setEventRegistry((prev) => [created, ...prev.filter((e) => e.evtId !== evt_slug)]);
+      if (series) setEventSeries((prev) => [...prev, series]);
       navigate(`/event/${evt_slug}`);
     } finally {
       setCreateEventLoading(false);
@@ -200,6 +424,14 @@ export default function App() {
 
   const handleDeleteEvent = async (evtId: string) => {
     try {
+      const evt = eventRegistry.find((e) => e.evtId === evtId);
+      const series = eventSeries.find((s) => s.id === evt?.seriesId);
+      if (series && evt?.occurrenceDate && !series.exdates.includes(evt.occurrenceDate)) {
+        // Skip the date so the occurrence is not created again
+        await handleUpdateSeries(series.id, { exdates: [...series.exdates, evt.occurrenceDate] }).catch((err) =>
+          console.warn("[Eventropy] Could not skip the deleted occurrence in its series:", err)
+        );
+      }
       await deleteEvent(evtId);
       setEventRegistry((prev) => prev.filter((e) => e.evtId !== evtId));
       handleNavigate({ kind: "dashboard" });
@@ -208,33 +440,150 @@ export default function App() {
     }
   };
 
+  /** handleUpdateSeries -> Save a series change (pause, skipped dates, plan); throws so callers can show the error. */
+  const handleUpdateSeries = async (seriesId: string, updates: Partial<EventSeries>) => {
+    await updateEventSeries(seriesId, updates);
+    setEventSeries((prev) => prev.map((s) => (s.id === seriesId ? { ...s, ...updates } : s)));
+  };
+
+  /**
+   * requestReplan -> Ask the planner for task changes when planning-relevant details
+   * (date, time, guests, budget, venue, food) changed. Nothing is applied until the user decides.
+   */
+  const requestReplan = async (evt: PlannerEvent, nextFormData: EventFormData, tasks: Task[]) => {
+    if (!isElectron() || tasks.length === 0) return;
+    const latest = diffEventFormData(evt.formData, nextFormData);
+    if (latest.length === 0) return;
+    const detailChanges = mergeDetailChanges(replanProposals[evt.evtId]?.detailChanges ?? [], latest);
+    const seq = (replanSeqRef.current[evt.evtId] ?? 0) + 1;
+    replanSeqRef.current[evt.evtId] = seq;
+    if (detailChanges.length === 0) {
+      setReplanProposals(({ [evt.evtId]: _dropped, ...rest }) => rest);
+      return;
+    }
+
+    setReplanProposals((prev) => ({ ...prev, [evt.evtId]: { detailChanges, changes: [], loading: true } }));
+    const result = await replanEvent({ evtId: evt.evtId, formData: nextFormData, detailChanges, tasks }).catch(
+      (err) => ({ error: err instanceof Error ? err.message : String(err), changes: [] as ReplanChange[] })
+    );
+    if (replanSeqRef.current[evt.evtId] !== seq) return;
+    setReplanProposals((prev) => ({
+      ...prev,
+      [evt.evtId]: { detailChanges, changes: result.changes ?? [], loading: false, error: result.error },
+    }));
+  };
+
+  /** handleReplanDecision -> Record the user's accept/reject (undefined clears it) for one change. */
+  const handleReplanDecision = (evtId: string, changeId: string, decision: ReplanChange["decision"]) => {
+    setReplanProposals((prev) => {
+      const proposal = prev[evtId];
+      if (!proposal) return prev;
+      return {
+        ...prev,
+        [evtId]: {
+          ...proposal,
+          changes: proposal.changes.map((c) => (c.id === changeId ? { ...c, decision } : c)),
+        },
+      };
+    });
+  };
+
+  /**
+   * handleApplyReplan -> Apply every accepted change in one task update, so the event's
+   * tasks are saved once rather than once per change.
+   */
+  const handleApplyReplan = (evtId: string) => {
+    const evt = eventRegistry.find((e) => e.evtId === evtId);
+    const proposal = replanProposals[evtId];
+    if (!evt || !proposal) return;
+    const accepted = proposal.changes.filter((c) => c.decision === "accepted");
+    if (accepted.length > 0) {
+      handleUpdateEvent(evtId, { tasks: accepted.reduce(applyReplanChange, evt.tasks ?? []) });
+    }
+    handleDismissReplan(evtId);
+  };
+
+  const handleDismissReplan = (evtId: string) => {
+    replanSeqRef.current[evtId] = (replanSeqRef.current[evtId] ?? 0) + 1;
+    setReplanProposals(({ [evtId]: _dropped, ...rest }) => rest);
+  };
+
   const handleUpdateEvent = async (evtId: string, updates: Partial<PlannerEvent>) => {
+    if (updates.formData) {
+      const current = eventRegistry.find((e) => e.evtId === evtId);
+      if (current) requestReplan(current, updates.formData, updates.tasks ?? current.tasks ?? []);
+    }
     setEventRegistry((prev) =>
       prev.map((e) => (e.evtId === evtId ? { ...e, ...updates } : e))
     );
+    if (updates.formData || updates.status) {
+      persistEventDetails(evtId, updates);
+    }
     if (updates.tasks !== undefined) {
-      pendingTasksRef.current = { evtId, tasks: updates.tasks };
-      setTaskSyncInProgress(true);
-      taskSyncPromiseRef.current = taskSyncPromiseRef.current
-        .then(() => {
-          const pending = pendingTasksRef.current;
-          if (!pending) return;
-          pendingTasksRef.current = null;
-          return syncEventTasks(pending.evtId, pending.tasks).then((persisted) => {
-            setEventRegistry((prev) =>
-              prev.map((e) => (e.evtId === pending.evtId ? { ...e, tasks: persisted } : e))
-            );
-          });
+      const previous = eventRegistry.find((e) => e.evtId === evtId)?.tasks ?? [];
+      const next = updates.tasks;
+      const seq = (taskSyncSeqRef.current[evtId] ?? 0) + 1;
+      taskSyncSeqRef.current[evtId] = seq;
+      taskSyncQueueRef.current[evtId] = (taskSyncQueueRef.current[evtId] ?? Promise.resolve())
+        .then(() => syncEventTasks(evtId, next, previous))
+        .then(({ tasks: persisted, conflicts }) => {
+          if (conflicts.length > 0) {
+            setTaskSyncConflicts((prev) => ({ ...prev, [evtId]: [...(prev[evtId] ?? []), ...conflicts] }));
+          }
+          // A newer edit is queued; its save will bring the latest state back
+          if (taskSyncSeqRef.current[evtId] !== seq) return;
+          setEventRegistry((prev) =>
+            prev.map((e) => (e.evtId === evtId ? { ...e, tasks: persisted } : e))
+          );
         })
         .catch((err) => {
           console.warn("Failed to sync tasks to Supabase:", err);
-        })
-        .finally(() => {
-          setTaskSyncInProgress(false);
         });
     }
   };
 
+  /**
+   * persistEventDetails -> Save changed form fields / status so other windows and collaborators
+   * see them. While the save is in flight, realtime updates do not overwrite those fields.
+   */
+  const persistEventDetails = (evtId: string, updates: Partial<PlannerEvent>) => {
+    const current = eventRegistry.find((e) => e.evtId === evtId);
+    const formData = updates.formData;
+    // Keys missing from the new form data were cleared, so compare over both sides
+    const changedFields = formData
+      ? ([...new Set([...Object.keys(formData), ...Object.keys(current?.formData ?? {})])] as (keyof EventFormData)[]).filter(
+          (key) => JSON.stringify(formData[key]) !== JSON.stringify(current?.formData[key])
+        )
+      : [];
+    const statusChanged = !!updates.status && updates.status !== current?.status;
+    if (changedFields.length === 0 && !statusChanged) return;
+
+    const pending = (pendingEventFieldsRef.current[evtId] ??= new Map());
+    for (const key of changedFields) pending.set(key, (pending.get(key) ?? 0) + 1);
+    updateEvent(evtId, {
+      ...(changedFields.length > 0 && {
+        formData: Object.fromEntries(changedFields.map((key) => [key, formData?.[key]])) as Partial<EventFormData>,
+      }),
+      ...(statusChanged && { status: updates.status }),
+    })
+      .catch((err) => console.warn("[Eventropy] Failed to save event details:", err))
+      .finally(() => {
+        for (const key of changedFields) pending.set(key, (pending.get(key) ?? 1) - 1);
+      });
+  };
+
+  const handleDismissTaskSyncConflicts = (evtId: string) => {
+    setTaskSyncConflicts(({ [evtId]: _dropped, ...rest }) => rest);
+  };
+
+  if (!authReady) {
+    return (
+      <div className="app-shell" style={{ alignItems: "center", justifyContent: "center", minHeight: "100vh" }}>
+        <p>Loading…</p>
+      </div>
+    );
+  }
+  if (isAuthEnabled() && !session) return <AuthScreen />;
   if (loading) {
     return (
       <div className="app-shell" style={{ alignItems: "center", justifyContent: "center", minHeight: "100vh" }}>
@@ -296,14 +645,21 @@ export default function App() {
           <MainContent
             activeView={activeView}
             eventRegistry={eventRegistry}
+            eventSeries={eventSeries}
             accountSettings={accountSettings}
             onEventCreate={handleEventCreate}
             onNavigate={handleNavigate}
             onNavigateBack={handleNavigateBack}
             onUpdateEvent={handleUpdateEvent}
             onDeleteEvent={handleDeleteEvent}
-            taskSyncInProgress={taskSyncInProgress}
+            taskSyncConflicts={taskSyncConflicts}
+            onDismissTaskSyncConflicts={handleDismissTaskSyncConflicts}
             onUpdateSettings={setAccountSettings}
+            replanProposals={replanProposals}
+            onReplanDecision={handleReplanDecision}
+            onApplyReplan={handleApplyReplan}
+            onDismissReplan={handleDismissReplan}
+            onUpdateSeries={handleUpdateSeries}
           />
         </div>
       </div>
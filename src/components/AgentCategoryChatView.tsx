@@ -1,9 +1,11 @@
 import { useState, useEffect, useRef } from "react";
 import ReactMarkdown from "react-markdown";
-import { ArrowLeft, ArrowUp, ChevronDown, ChevronRight, ChevronUp, Wrench } from "lucide-react";
+import { ArrowLeft, ArrowUp, ChevronDown, ChevronRight, ChevronUp, Square, Wrench } from "lucide-react";
 import { getAgentDef } from "../mockData";
 import {
   categoryChat,
+  cancelCategoryChat,
+  onCategoryChatDelta,
   onTaskBodyUpdated,
   onEventDetailsUpdated,
   isElectron,
@@ -48,6 +50,10 @@ export default function AgentCategoryChatView({
   const [chatMessages, setChatMessages] = useState<LocalMsg[]>([]);
   const [chatInput, setChatInput] = useState("");
   const [chatLoading, setChatLoading] = useState(false);
+  // streamingReply -> Assistant reply being streamed for the in-flight request
+  const [streamingReply, setStreamingReply] = useState<{ content: string; toolTurns: ChatToolTurn[] } | null>(null);
+  // requestIdRef -> ID of the in-flight chat request (deltas for other requests are ignored)
+  const requestIdRef = useRef<string | null>(null);
   // updatedTaskIds -> Set of taskIds that the AI wrote to during this session (for indicator)
   const [updatedTaskIds, setUpdatedTaskIds] = useState<Set<string>>(new Set());
   // expandedToolPills -> Set of "{msgIdx}-{toolIdx}" strings for expanded tool pill state
@@ -73,7 +79,29 @@ export default function AgentCategoryChatView({
   // Auto-scroll to newest message
   useEffect(() => {
     chatEndRef.current?.scrollIntoView({ behavior: "smooth" });
-  }, [chatMessages, chatLoading]);
+  }, [chatMessages, chatLoading, streamingReply]);
+
+  // Subscribe to streamed text / tool turns for the in-flight request
+  useEffect(() => {
+    if (!isElectron()) return;
+    const unsub = onCategoryChatDelta((delta) => {
+      if (delta.requestId !== requestIdRef.current) return;
+      setStreamingReply((prev) => {
+        const reply = prev ?? { content: "", toolTurns: [] };
+        return delta.type === "text"
+          ? { ...reply, content: reply.content + delta.text }
+          : { ...reply, toolTurns: [...reply.toolTurns, delta.toolTurn] };
+      });
+    });
+    return unsub;
+  }, []);
+
+  // Stop any in-flight chat when leaving the view
+  useEffect(() => {
+    return () => {
+      if (requestIdRef.current) cancelCategoryChat(requestIdRef.current);
+    };
+  }, []);
 
   // Subscribe to AI body pushes — track which tasks were updated this session
   useEffect(() => {
@@ -118,6 +146,11 @@ export default function AgentCategoryChatView({
     });
   };
 
+  /** handleChatCancel -> Abort the in-flight request; handleChatSend keeps the partial reply. */
+  const handleChatCancel = () => {
+    if (requestIdRef.current) cancelCategoryChat(requestIdRef.current);
+  };
+
   const handleBack = () =>
     onNavigate({ kind: "event-chat", evtId: event.evtId, initialViewMode: "tasks" });
 
@@ -137,6 +170,9 @@ export default function AgentCategoryChatView({
     setChatMessages((prev) => [...prev, userMsg]);
     setChatInput("");
     setChatLoading(true);
+    const requestId = `chat-${Date.now()}-${Math.random().toString(36).slice(2, 6)}`;
+    requestIdRef.current = requestId;
+    setStreamingReply(null);
 
     insertCategoryChatMessage(event.evtId, agentId, { role: "user", content: text }).catch(
       (err) => console.error("[Eventory] Failed to save user message:", err)
@@ -146,6 +182,7 @@ export default function AgentCategoryChatView({
       const fd = event.formData;
       // Build payload including evtId so the backend can resolve the Supabase UUID
       const payload = {
+        requestId,
         evtId: event.evtId,
         agentId,
         eventContext: {
@@ -173,7 +210,12 @@ export default function AgentCategoryChatView({
       };
 
       const result = await categoryChat(payload);
-      const replyText = result.error ? `Error: ${result.error}` : (result.content ?? "");
+      const content = result.content ?? "";
+      const replyText = result.error
+        ? `Error: ${result.error}`
+        : result.cancelled
+          ? `${content}${content ? "\n\n" : ""}_Stopped._`
+          : content;
       const assistantMsg: LocalMsg = {
         role: "assistant",
         content: replyText,
@@ -192,10 +234,50 @@ export default function AgentCategoryChatView({
         { role: "assistant", content: `Error: ${msg}` },
       ]);
     } finally {
+      requestIdRef.current = null;
+      setStreamingReply(null);
       setChatLoading(false);
     }
   };
 
+  /** renderToolTurns -> Collapsible tool-call pills; pill keys are "{msgIdx}-{toolIdx}". */
+  const renderToolTurns = (toolTurns: ChatToolTurn[], msgIdx: number) => (
+    <div className="tool-call-pills">
+      {toolTurns.map((turn, toolIdx) => {
+        const pillKey = `${msgIdx}-${toolIdx}`;
+        const isExpanded = expandedPills.has(pillKey);
+        return (
+          <div key={toolIdx} className="tool-call-pill">
+            <button
+              type="button"
+              className="tool-call-pill-header"
+              onClick={() => togglePill(pillKey)}
+            >
+              <Wrench size={12} />
+              <span className="tool-call-pill-name">{turn.toolName}</span>
+              {isExpanded ? (
+                <ChevronDown size={11} />
+              ) : (
+                <ChevronRight size={11} />
+              )}
+            </button>
+            {isExpanded && (
+              <div className="tool-call-pill-body">
+                <div className="tool-call-pill-result">{turn.resultSummary}</div>
+                <pre className="tool-call-pill-input">
+                  {JSON.stringify(turn.toolInput, null, 2)}
+                </pre>
+              </div>
+            )}
+            {!isExpanded && (
+              <span className="tool-call-pill-summary">{turn.resultSummary}</span>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+
   const fd = event.formData;
   const evtSummary = `${fd.guestCount || "?"} guests · ${fd.startTime || "?"}-${fd.endTime || "?"} · ${fd.eventDate || "No date"}`;
 
@@ -288,42 +370,8 @@ export default function AgentCategoryChatView({
                 {chatMessages.map((m, msgIdx) => (
                 <div key={msgIdx} className={`agent-category-chat-bubble ${m.role}`}>
                   {/* Tool-call pills for assistant messages */}
-                  {m.role === "assistant" && m.toolTurns && m.toolTurns.length > 0 && (
-                    <div className="tool-call-pills">
-                      {m.toolTurns.map((turn, toolIdx) => {
-                        const pillKey = `${msgIdx}-${toolIdx}`;
-                        const isExpanded = expandedPills.has(pillKey);
-                        return (
-                          <div key={toolIdx} className="tool-call-pill">
-                            <button
-                              type="button"
-                              className="tool-call-pill-header"
-                              onClick={() => togglePill(pillKey)}
-                            >
-                              <Wrench size={12} />
-                              <span className="tool-call-pill-name">{turn.toolName}</span>
-                              {isExpanded ? (
-                                <ChevronDown size={11} />
-                              ) : (
-                                <ChevronRight size={11} />
-                              )}
-                            </button>
-                            {isExpanded && (
-                              <div className="tool-call-pill-body">
-                                <div className="tool-call-pill-result">{turn.resultSummary}</div>
-                                <pre className="tool-call-pill-input">
-                                  {JSON.stringify(turn.toolInput, null, 2)}
-                                </pre>
-                              </div>
-                            )}
-                            {!isExpanded && (
-                              <span className="tool-call-pill-summary">{turn.resultSummary}</span>
-                            )}
-                          </div>
-                        );
-                      })}
-                    </div>
-                  )}
+                  {m.role === "assistant" && m.toolTurns && m.toolTurns.length > 0 &&
+                    renderToolTurns(m.toolTurns, msgIdx)}
                   {m.role === "assistant" ? (
                     <ReactMarkdown>{m.content}</ReactMarkdown>
                   ) : (
@@ -333,6 +381,10 @@ export default function AgentCategoryChatView({
               ))}
                 {chatLoading && (
                   <div className="agent-category-chat-bubble assistant">
+                    {/* Streamed so far; keyed as the message it will become so pill state carries over */}
+                    {streamingReply && streamingReply.toolTurns.length > 0 &&
+                      renderToolTurns(streamingReply.toolTurns, chatMessages.length)}
+                    {streamingReply?.content && <ReactMarkdown>{streamingReply.content}</ReactMarkdown>}
                     <span className="chat-loading-dots">…</span>
                   </div>
                 )}
@@ -353,15 +405,26 @@ export default function AgentCategoryChatView({
               onKeyDown={(e) => e.key === "Enter" && !e.shiftKey && handleChatSend()}
               disabled={!isElectron() || chatLoading}
             />
-            <button
-              type="button"
-              className="send-btn"
-              onClick={handleChatSend}
-              disabled={!isElectron() || chatLoading || !chatInput.trim()}
-              title="Send"
-            >
-              <ArrowUp size={18} />
-            </button>
+            {chatLoading ? (
+              <button
+                type="button"
+                className="send-btn"
+                onClick={handleChatCancel}
+                title="Stop"
+              >
+                <Square size={14} />
+              </button>
+            ) : (
+              <button
+                type="button"
+                className="send-btn"
+                onClick={handleChatSend}
+                disabled={!isElectron() || !chatInput.trim()}
+                title="Send"
+              >
+                <ArrowUp size={18} />
+              </button>
+            )}
           </div>
         </div>
       </div>
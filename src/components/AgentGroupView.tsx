@@ -1,17 +1,30 @@
-import { useState, useEffect, useRef } from "react";
-import { ArrowLeft, Users, Building2, Calendar, Package, Bot, User, AlertCircle, CheckCircle2, Loader } from "lucide-react";
+import { useState, useEffect, useRef, useMemo } from "react";
+import { ArrowLeft, Users, Building2, Calendar, Package, Bot, User, AlertCircle, CheckCircle2, Loader, Play, Square, Send } from "lucide-react";
 import {
   onChatMessage,
+  onNotification,
+  onStatusChange,
   getNotifications,
+  getTaskMessages,
+  getOrchestratorStatus,
+  runOrchestrator,
+  stopOrchestrator,
+  resumeOrchestrator,
+  respondToNotification,
+  markNotificationRead,
   isElectron,
 } from "../lib/electronBridge";
 import type { OrchestratorNotification } from "../lib/electronBridge";
+import { subscribeToNotifications } from "../lib/realtime";
+import ApprovalsPanel from "./ApprovalsPanel";
+import { can } from "../lib/permissions";
 import type {
   AgentId,
   ActiveView,
+  EventRole,
   PlannerEvent,
   OrchestratorMessage,
-  Task,
+  OrchestratorStatus,
 } from "../types";
 
 // ── Agent metadata ─────────────────────────────────────────────────────────
@@ -35,6 +48,8 @@ interface AgentGroupViewProps {
   onNavigate: (view: ActiveView) => void;
   /** onUpdateEvent -> Callback to update event state from orchestrator IPC */
   onUpdateEvent?: (updates: Partial<PlannerEvent>, fromOrchestrator?: boolean) => void;
+  /** role -> The user's role on the event; gates running agents and approving tool calls */
+  role?: EventRole;
 }
 
 // ── Component ──────────────────────────────────────────────────────────────
@@ -49,6 +64,7 @@ export default function AgentGroupView({
   event,
   onNavigate,
   onUpdateEvent,
+  role = "owner",
 }: AgentGroupViewProps) {
   const meta = AGENT_META[agentId];
   const { Icon, color } = meta;
@@ -57,10 +73,19 @@ export default function AgentGroupView({
 
   const [messages, setMessages] = useState<OrchestratorMessage[]>([]);
   const [notifications, setNotifications] = useState<OrchestratorNotification[]>([]);
-  const [localTasks, setLocalTasks] = useState<Task[]>(
-    (event.tasks || []).filter((t) => (t.agentId ?? "general") === agentId)
-  );
   const [loadingMsgs, setLoadingMsgs] = useState(true);
+  const [status, setStatus] = useState<OrchestratorStatus | null>(null);
+  const [runActionPending, setRunActionPending] = useState(false);
+  const [runError, setRunError] = useState<string | null>(null);
+  /** replyDrafts -> notificationId -> reply text being typed */
+  const [replyDrafts, setReplyDrafts] = useState<Record<string, string>>({});
+
+  /** localTasks -> This agent's tasks; re-derived so orchestrator progress merged in App shows up live */
+  const localTasks = useMemo(
+    () => (event.tasks || []).filter((t) => (t.agentId ?? "general") === agentId),
+    [event.tasks, agentId]
+  );
+  const taskIdsKey = localTasks.map((t) => t.id).join(",");
 
   /** messagesEndRef -> Scroll anchor at the bottom of the conversation pane */
   const messagesEndRef = useRef<HTMLDivElement>(null);
@@ -70,25 +95,40 @@ export default function AgentGroupView({
   useEffect(() => {
     let cancelled = false;
     setLoadingMsgs(true);
+    const taskIds = taskIdsKey ? taskIdsKey.split(",") : [];
 
-    (isElectron() ? getNotifications(event.evtId) : Promise.resolve([]))
-      .then((notifs) => {
+    Promise.all([
+      isElectron() ? getNotifications(event.evtId) : Promise.resolve([]),
+      Promise.all(taskIds.map((id) => getTaskMessages(id))),
+    ])
+      .then(([notifs, msgLists]) => {
         if (cancelled) return;
         setNotifications(
           notifs.filter(
             (n: OrchestratorNotification) =>
-              !n.isResolved && n.taskId && localTasks.some((t) => t.id === n.taskId)
+              !n.isResolved &&
+              // Non-question notifications (e.g. budget reached) disappear once dismissed
+              !(n.type !== "input_needed" && n.isRead) &&
+              n.taskId &&
+              taskIds.includes(n.taskId)
           )
         );
+        setMessages(
+          msgLists.flat().sort((a, b) => a.createdAt.localeCompare(b.createdAt))
+        );
       })
       .finally(() => {
         if (!cancelled) setLoadingMsgs(false);
       });
 
+    getOrchestratorStatus(event.evtId, agentId).then((s) => {
+      if (!cancelled) setStatus(s);
+    });
+
     return () => {
       cancelled = true;
     };
-  }, [event.evtId, agentId]);
+  }, [event.evtId, agentId, taskIdsKey]);
 
   // ── Real-time IPC subscriptions ──────────────────────────────────────────
 
@@ -99,7 +139,7 @@ export default function AgentGroupView({
     const unsubChat = onChatMessage((msg) => {
       if (localTasks.some((t) => t.id === msg.taskId)) {
         const orchestratorMsg: OrchestratorMessage = {
-          id: `live-${Date.now()}`,
+          id: `live-${Date.now()}-${Math.random().toString(36).slice(2, 6)}`,
           runId: "",
           taskId: msg.taskId,
           role: msg.role as OrchestratorMessage["role"],
@@ -113,35 +153,140 @@ export default function AgentGroupView({
       }
     });
 
+    // New human-in-the-loop prompts for this group's tasks
+    const unsubNotif = onNotification((notif) => {
+      if (notif.taskId && localTasks.some((t) => t.id === notif.taskId)) {
+        setNotifications((prev) =>
+          prev.some((n) => n.id === notif.id) ? prev : [notif, ...prev]
+        );
+      }
+    });
+
+    // Notifications created or answered in other windows (Supabase Realtime)
+    const unsubRealtime = subscribeToNotifications(({ notification: notif }) => {
+      if (!notif.taskId || !localTasks.some((t) => t.id === notif.taskId)) return;
+      const open = !notif.isResolved && !(notif.type !== "input_needed" && notif.isRead);
+      setNotifications((prev) => {
+        if (!open) return prev.filter((n) => n.id !== notif.id);
+        return prev.some((n) => n.id === notif.id)
+          ? prev.map((n) => (n.id === notif.id ? notif : n))
+          : [notif, ...prev];
+      });
+    });
+
+    // Run state for this agent's lane (status events carry the event UUID + agentId)
+    const unsubStatus = onStatusChange((next) => {
+      if (next.agentId !== agentId) return;
+      setStatus((prev) => (prev && prev.eventId !== next.eventId ? prev : next));
+    });
+
     return () => {
       unsubChat();
+      unsubNotif();
+      unsubRealtime();
+      unsubStatus();
     };
-  }, [event.evtId, agentId, localTasks.length]);
+  }, [event.evtId, agentId, taskIdsKey]);
 
   // Auto-scroll to bottom when messages arrive
   useEffect(() => {
     messagesEndRef.current?.scrollIntoView({ behavior: "smooth" });
   }, [messages.length]);
 
+  // ── Run control ──────────────────────────────────────────────────────────
+
+  const isWaitingOnLanes = status?.runStatus === "waiting_for_dependencies";
+  const isRunning = status?.runStatus === "executing" || isWaitingOnLanes;
+  const isPaused =
+    !!status?.runId && (status.runStatus === "idle" || status.runStatus === "waiting_for_user");
+
+  /** handleRunToggle -> Stop a running orchestrator, resume a paused one, or start a new run. */
+  const handleRunToggle = async () => {
+    setRunActionPending(true);
+    setRunError(null);
+    try {
+      const result = isRunning
+        ? await stopOrchestrator(event.evtId, agentId)
+        : isPaused
+          ? await resumeOrchestrator(event.evtId, agentId)
+          : await runOrchestrator(event.evtId, agentId);
+      if (result.error) setRunError(result.error);
+      if (result.status) setStatus(result.status);
+    } finally {
+      setRunActionPending(false);
+    }
+  };
+
   // ── Reply handler ────────────────────────────────────────────────────────
 
+  /** handleReply -> Answer an input_needed notification so the orchestrator can unblock the task. */
+  const handleReply = async (notificationId: string, text: string) => {
+    const reply = text.trim();
+    if (!reply) return;
+    const result = await respondToNotification(notificationId, reply);
+    if (result.error) {
+      setRunError(result.error);
+      return;
+    }
+    setNotifications((prev) => prev.filter((n) => n.id !== notificationId));
+    setReplyDrafts((prev) => {
+      const next = { ...prev };
+      delete next[notificationId];
+      return next;
+    });
+  };
+
+
+  /** handleDismiss -> Hide an informational/error notification (marks it read). */
+  const handleDismiss = async (notificationId: string) => {
+    await markNotificationRead(notificationId);
+    setNotifications((prev) => prev.filter((n) => n.id !== notificationId));
+  };
 
   // ── Render ───────────────────────────────────────────────────────────────
 
+  const fd = event.formData;
+  const evtSummary = `${fd.guestCount || "?"} guests · ${fd.startTime || "?"}-${fd.endTime || "?"} · ${fd.eventDate || "No date"}`;
+
   return (
-    <div className="agent-group-view">
-      {/* Header */}
-      <div className="agent-group-header">
+    <div className="agent-group-view event-page">
+      {/* Header — same position/structure as full event details */}
+      <div className="event-chat-header">
         <button
           className="agent-detail-back"
           onClick={() => onNavigate({ kind: "event-chat", evtId: event.evtId })}
         >
           <ArrowLeft size={18} />
         </button>
-        <Icon size={18} style={{ color }} />
-        <h2 style={{ color }}>{meta.label} Agent</h2>
-        <span className="agent-group-event-name">{event.formData.eventReason}</span>
+        <h2>{event.formData.eventReason || "Untitled Event"}</h2>
+        <span className="agents-event-summary">{evtSummary}</span>
+        <span className="event-chat-header-agent-pill" style={{ color }}>
+          <Icon size={13} /> {meta.label}
+        </span>
+        {isElectron() && can(role, "run-agents") && (
+          <button
+            type="button"
+            className={`event-chat-header-action agent-group-run-btn ${isRunning ? "running" : ""}`}
+            onClick={handleRunToggle}
+            disabled={runActionPending}
+          >
+            {runActionPending ? (
+              <Loader size={14} className="spin" />
+            ) : isRunning ? (
+              <Square size={14} />
+            ) : (
+              <Play size={14} />
+            )}
+            {isRunning ? "Stop" : isPaused ? "Resume" : "Run"}
+            {status && status.totalCount > 0 && (
+              <span className="run-btn-count">
+                {status.completedCount}/{status.totalCount}
+              </span>
+            )}
+          </button>
+        )}
       </div>
+      {runError && <div className="agent-group-error">{runError}</div>}
 
       {/* Body: two panes */}
       <div className="agent-group-body">
@@ -223,11 +368,86 @@ export default function AgentGroupView({
             <div ref={messagesEndRef} />
           </div>
 
-          {/* Status footer */}
-          <div className="agent-group-reply-idle">
-            <User size={13} />
-            <span>Use the Chat tab for this agent to interact with its tasks.</span>
-          </div>
+          {/* Side-effecting tool calls waiting for approval */}
+          <ApprovalsPanel evtId={event.evtId} tasks={localTasks} canDecide={can(role, "approve-tools")} />
+
+          {/* Pending input requests */}
+          {notifications.length > 0 ? (
+            <div className="agent-group-replies">
+              {notifications.map((notif) => (
+                <div
+                  key={notif.id}
+                  className={`agent-category-notification ${notif.type === "error" ? "error" : ""}`}
+                >
+                  <p className="agent-category-notification-message">
+                    <AlertCircle size={13} /> {notif.message}
+                  </p>
+                  {notif.type !== "input_needed" ? (
+                    <div className="agent-group-suggestions">
+                      <button
+                        type="button"
+                        className="btn-secondary btn-sm"
+                        onClick={() => handleDismiss(notif.id)}
+                      >
+                        Dismiss
+                      </button>
+                    </div>
+                  ) : (
+                    <>
+                      {notif.suggestions && notif.suggestions.length > 0 && (
+                        <div className="agent-group-suggestions">
+                          {notif.suggestions.map((sug) => (
+                            <button
+                              key={sug}
+                              type="button"
+                              className="btn-secondary btn-sm"
+                              onClick={() => handleReply(notif.id, sug)}
+                            >
+                              {sug}
+                            </button>
+                          ))}
+                        </div>
+                      )}
+                      <form
+                        className="agent-category-notification-respond"
+                        onSubmit={(e) => {
+                          e.preventDefault();
+                          handleReply(notif.id, replyDrafts[notif.id] ?? "");
+                        }}
+                      >
+                        <input
+                          type="text"
+                          placeholder="Type your answer…"
+                          value={replyDrafts[notif.id] ?? ""}
+                          onChange={(e) =>
+                            setReplyDrafts((prev) => ({ ...prev, [notif.id]: e.target.value }))
+                          }
+                        />
+                        <button
+                          type="submit"
+                          className="btn-primary btn-sm"
+                          disabled={!(replyDrafts[notif.id] ?? "").trim()}
+                        >
+                          <Send size={13} />
+                        </button>
+                      </form>
+                    </>
+                  )}
+                </div>
+              ))}
+            </div>
+          ) : (
+            <div className="agent-group-reply-idle">
+              <User size={13} />
+              <span>
+                {isWaitingOnLanes
+                  ? "Waiting for tasks in other agent groups to finish."
+                  : isRunning
+                  ? "The agent is working. Questions for you will appear here."
+                  : "Use the Chat tab for this agent to interact with its tasks."}
+              </span>
+            </div>
+          )}
         </div>
       </div>
     </div>
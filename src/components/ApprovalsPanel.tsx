@@ -0,0 +1,169 @@
+import { useState, useEffect } from "react";
+import { ShieldCheck, Check, X, Loader } from "lucide-react";
+import {
+  listApprovals,
+  decideApproval,
+  onApprovalRequest,
+  isElectron,
+} from "../lib/electronBridge";
+import type { Task, ToolApproval } from "../types";
+
+/**
+ * ApprovalsPanelProps -> Derived from `Approvals` + `Panel` + `Props`.
+ */
+interface ApprovalsPanelProps {
+  /** evtId -> Event whose queued tool calls are shown */
+  evtId: string;
+  /** tasks -> Tasks to show approvals for (e.g. one agent group); also used for task titles */
+  tasks: Task[];
+  /** canDecide -> Whether the user's event role allows approving tool calls (read-only otherwise) */
+  canDecide?: boolean;
+}
+
+/**
+ * ApprovalsPanel -> Queue of side-effecting connector calls waiting for the user.
+ * Shows the full arguments of each call as editable JSON; the user can approve
+ * as-is, approve with edits, or reject. The decision goes back to the agent.
+ */
+export default function ApprovalsPanel({ evtId, tasks, canDecide = true }: ApprovalsPanelProps) {
+  const [approvals, setApprovals] = useState<ToolApproval[]>([]);
+  /** drafts -> approvalId -> edited JSON arguments */
+  const [drafts, setDrafts] = useState<Record<string, string>>({});
+  /** notes -> approvalId -> optional note for the agent */
+  const [notes, setNotes] = useState<Record<string, string>>({});
+  const [errors, setErrors] = useState<Record<string, string>>({});
+  const [deciding, setDeciding] = useState<string | null>(null);
+
+  const taskIdsKey = tasks.map((t) => t.id).join(",");
+
+  useEffect(() => {
+    if (!isElectron()) return;
+    let cancelled = false;
+    const taskIds = taskIdsKey ? taskIdsKey.split(",") : [];
+    const isForTasks = (a: ToolApproval) => !!a.taskId && taskIds.includes(a.taskId);
+
+    listApprovals(evtId).then((list) => {
+      if (!cancelled) setApprovals(list.filter(isForTasks));
+    });
+
+    const unsub = onApprovalRequest((approval) => {
+      if (!isForTasks(approval)) return;
+      setApprovals((prev) =>
+        prev.some((a) => a.id === approval.id) ? prev : [...prev, approval]
+      );
+    });
+
+    return () => {
+      cancelled = true;
+      unsub();
+    };
+  }, [evtId, taskIdsKey]);
+
+  /** handleDecide -> Send the approve/reject decision; edited JSON is parsed and validated first. */
+  const handleDecide = async (approval: ToolApproval, decision: "approve" | "reject") => {
+    const original = JSON.stringify(approval.toolInput, null, 2);
+    const draft = drafts[approval.id] ?? original;
+    let editedInput: Record<string, unknown> | undefined;
+
+    if (decision === "approve" && draft !== original) {
+      try {
+        const parsed = JSON.parse(draft);
+        if (!parsed || typeof parsed !== "object" || Array.isArray(parsed)) {
+          throw new Error("Arguments must be a JSON object.");
+        }
+        editedInput = parsed;
+      } catch (err) {
+        setErrors((prev) => ({
+          ...prev,
+          [approval.id]: err instanceof Error ? err.message : "Invalid JSON.",
+        }));
+        return;
+      }
+    }
+
+    setDeciding(approval.id);
+    setErrors((prev) => ({ ...prev, [approval.id]: "" }));
+    try {
+      const result = await decideApproval(approval.id, {
+        decision,
+        editedInput,
+        note: notes[approval.id]?.trim() || undefined,
+      });
+      if (result.error) {
+        setErrors((prev) => ({ ...prev, [approval.id]: result.error! }));
+        return;
+      }
+      setApprovals((prev) => prev.filter((a) => a.id !== approval.id));
+    } finally {
+      setDeciding(null);
+    }
+  };
+
+  if (approvals.length === 0) return null;
+
+  return (
+    <div className="approvals-panel">
+      <h3 className="approvals-panel-title">
+        <ShieldCheck size={14} />
+        Waiting for approval ({approvals.length})
+      </h3>
+      {approvals.map((approval) => {
+        const original = JSON.stringify(approval.toolInput, null, 2);
+        const draft = drafts[approval.id] ?? original;
+        const taskTitle = tasks.find((t) => t.id === approval.taskId)?.title;
+        const isBusy = deciding === approval.id;
+        return (
+          <div key={approval.id} className="approval-card">
+            <div className="approval-card-header">
+              <span className="approval-card-tool">{approval.toolName}</span>
+              <span className="approval-card-connector">{approval.connectorId}</span>
+              {taskTitle && <span className="approval-card-task">{taskTitle}</span>}
+            </div>
+            <textarea
+              className="approval-args"
+              value={draft}
+              spellCheck={false}
+              rows={Math.min(12, draft.split("\n").length + 1)}
+              readOnly={!canDecide}
+              onChange={(e) => setDrafts((prev) => ({ ...prev, [approval.id]: e.target.value }))}
+            />
+            {canDecide && (
+              <input
+                type="text"
+                className="approval-note"
+                placeholder="Optional note for the agent…"
+                value={notes[approval.id] ?? ""}
+                onChange={(e) => setNotes((prev) => ({ ...prev, [approval.id]: e.target.value }))}
+              />
+            )}
+            {errors[approval.id] && <p className="approval-error">{errors[approval.id]}</p>}
+            {canDecide ? (
+              <div className="approval-actions">
+                <button
+                  type="button"
+                  className="btn-danger btn-sm"
+                  onClick={() => handleDecide(approval, "reject")}
+                  disabled={isBusy}
+                >
+                  <X size={13} />
+                  Reject
+                </button>
+                <button
+                  type="button"
+                  className="btn-primary btn-sm"
+                  onClick={() => handleDecide(approval, "approve")}
+                  disabled={isBusy}
+                >
+                  {isBusy ? <Loader size={13} className="spin" /> : <Check size={13} />}
+                  {draft !== original ? "Approve with edits" : "Approve"}
+                </button>
+              </div>
+            ) : (
+              <p className="approval-readonly">Only the event's owners and editors can approve tool calls.</p>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,90 @@
+import { useState } from "react";
+import { Loader } from "lucide-react";
+import { signIn, signUp } from "../lib/auth";
+
+/**
+ * AuthScreen -> Sign-in / sign-up form shown instead of the app while nobody is signed in.
+ * A successful sign-in is picked up by App through onAuthChange.
+ */
+export default function AuthScreen() {
+  const [mode, setMode] = useState<"sign-in" | "sign-up">("sign-in");
+  const [name, setName] = useState("");
+  const [email, setEmail] = useState("");
+  const [password, setPassword] = useState("");
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  /** handleSubmit -> Sign in, or create the account and sign in when confirmation is off. */
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSubmitting(true);
+    setError(null);
+    setNotice(null);
+    try {
+      if (mode === "sign-in") {
+        await signIn(email, password);
+      } else {
+        const { needsConfirmation } = await signUp(email, password, name);
+        if (needsConfirmation) {
+          setNotice("Check your email to confirm your account, then sign in.");
+          setMode("sign-in");
+        }
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="auth-screen">
+      <form className="auth-card" onSubmit={handleSubmit}>
+        <h1>Eventropy</h1>
+        <p className="settings-description">
+          {mode === "sign-in" ? "Sign in to see your events." : "Create an account to start planning."}
+        </p>
+
+        {mode === "sign-up" && (
+          <input type="text" placeholder="Name" value={name} onChange={(e) => setName(e.target.value)} required />
+        )}
+        <input
+          type="email"
+          placeholder="Email"
+          autoComplete="email"
+          value={email}
+          onChange={(e) => setEmail(e.target.value)}
+          required
+        />
+        <input
+          type="password"
+          placeholder="Password"
+          autoComplete={mode === "sign-in" ? "current-password" : "new-password"}
+          minLength={6}
+          value={password}
+          onChange={(e) => setPassword(e.target.value)}
+          required
+        />
+
+        {error && <p className="approval-error">{error}</p>}
+        {notice && <p className="auth-notice">{notice}</p>}
+
+        <button type="submit" className="btn-primary" disabled={submitting}>
+          {submitting ? <Loader size={14} className="spin" /> : null}
+          {mode === "sign-in" ? "Sign In" : "Create Account"}
+        </button>
+        <button
+          type="button"
+          className="auth-switch"
+          onClick={() => {
+            setMode(mode === "sign-in" ? "sign-up" : "sign-in");
+            setError(null);
+          }}
+        >
+          {mode === "sign-in" ? "No account yet? Sign up" : "Already have an account? Sign in"}
+        </button>
+      </form>
+    </div>
+  );
+}
@@ -1,6 +1,6 @@
 import { useState } from "react";
-import { ChevronLeft, ChevronRight } from "lucide-react";
-import type { PlannerEvent, ActiveView, Task } from "../types";
+import { ChevronLeft, ChevronRight, Repeat } from "lucide-react";
+import type { PlannerEvent, ActiveView, EventSeries, Task } from "../types";
 
 /**
  * CalendarViewProps -> Derived from `Calendar` + `View` + `Props`.
@@ -8,6 +8,8 @@ import type { PlannerEvent, ActiveView, Task } from "../types";
 interface CalendarViewProps {
   /** events -> All events to display */
   events: PlannerEvent[];
+  /** eventSeries -> Recurring series, for filtering the calendar to one series */
+  eventSeries?: EventSeries[];
   /** onNavigate -> Navigation callback */
   onNavigate: (view: ActiveView) => void;
 }
@@ -15,8 +17,16 @@ interface CalendarViewProps {
 /**
  * CalendarView -> Calendar view showing events by date with countdown timers.
  */
-export default function CalendarView({ events, onNavigate }: CalendarViewProps) {
+export default function CalendarView({ events: allEvents, eventSeries = [], onNavigate }: CalendarViewProps) {
   const [currentDate, setCurrentDate] = useState(new Date());
+  /** seriesFilter -> "" (everything), "standalone" (no series) or a series id */
+  const [seriesFilter, setSeriesFilter] = useState("");
+  const seriesNames = new Map(eventSeries.map((s) => [s.id, s.name]));
+  const events = allEvents.filter((event) => {
+    if (!seriesFilter) return true;
+    const seriesId = event.seriesId && seriesNames.has(event.seriesId) ? event.seriesId : null;
+    return seriesFilter === "standalone" ? !seriesId : seriesId === seriesFilter;
+  });
 
   const year = currentDate.getFullYear();
   const month = currentDate.getMonth();
@@ -131,7 +141,15 @@ export default function CalendarView({ events, onNavigate }: CalendarViewProps)
                     : onNavigate({ kind: "event-chat", evtId: item.evtId, initialViewMode: "tasks" })
                 }
               >
-                <span className="calendar-event-title" title={item.title}>
+                <span
+                  className="calendar-event-title"
+                  title={
+                    isEvent && item.event.seriesId && seriesNames.has(item.event.seriesId)
+                      ? `${item.title} (${seriesNames.get(item.event.seriesId)} series)`
+                      : item.title
+                  }
+                >
+                  {isEvent && item.event.seriesId && <Repeat size={10} className="calendar-series-icon" />}
                   {item.title}
                 </span>
               </div>
@@ -180,6 +198,23 @@ export default function CalendarView({ events, onNavigate }: CalendarViewProps)
         >
           <ChevronRight size={20} />
         </button>
+        {eventSeries.length > 0 && (
+          <select
+            className="calendar-series-filter"
+            value={seriesFilter}
+            onChange={(e) => setSeriesFilter(e.target.value)}
+          >
+            <option value="">All events</option>
+            <option value="standalone">One-off events</option>
+            <optgroup label="Series">
+              {eventSeries.map((s) => (
+                <option key={s.id} value={s.id}>
+                  {s.name}
+                </option>
+              ))}
+            </optgroup>
+          </select>
+        )}
       </div>
 
       <div className="calendar-grid">
@@ -221,6 +256,12 @@ export default function CalendarView({ events, onNavigate }: CalendarViewProps)
             <div className="legend-line legend-line-solid" style={{ borderColor: "var(--clr-txt-muted)" }} />
             <span>Complete</span>
           </div>
+          {eventSeries.length > 0 && (
+            <div className="legend-item">
+              <Repeat size={12} />
+              <span>Recurring</span>
+            </div>
+          )}
         </div>
         <div className="calendar-legend">
           <span className="calendar-legend-label">Tasks</span>
@@ -11,6 +11,7 @@ import {
 } from "lucide-react";
 import {
   saveConnectorSecret,
+  saveConnectorConfig,
   testConnector,
   toggleConnector,
   startOAuth,
@@ -96,6 +97,12 @@ export default function ConnectorCard({ connector, onRefresh }: ConnectorCardPro
     onRefresh();
   };
 
+  /** handleAutoExecuteToggle -> Let this connector's side-effecting tools skip the approval queue. */
+  const handleAutoExecuteToggle = async () => {
+    await saveConnectorConfig(connector.connectorId, { autoExecute: !connector.autoExecute });
+    onRefresh();
+  };
+
   return (
     <div className={`connector-card ${connector.isConnected ? "connected" : ""}`}>
       <div className="connector-card-header">
@@ -199,6 +206,25 @@ export default function ConnectorCard({ connector, onRefresh }: ConnectorCardPro
           )}
         </div>
 
+        {/* Approval preference for side-effecting tools */}
+        {connector.sideEffectTools.length > 0 && (
+          <label className="connector-auto-execute">
+            <input
+              type="checkbox"
+              checked={connector.autoExecute}
+              onChange={handleAutoExecuteToggle}
+            />
+            <span>
+              Auto-execute routine actions
+              <span className="connector-auto-execute-help">
+                {connector.autoExecute
+                  ? `Runs ${connector.sideEffectTools.join(", ")} without asking.`
+                  : `Agents ask for approval before ${connector.sideEffectTools.join(", ")}.`}
+              </span>
+            </span>
+          </label>
+        )}
+
         {/* Test result */}
         {testResult && (
           <div className={`connector-test-result ${testResult.ok ? "success" : "error"}`}>
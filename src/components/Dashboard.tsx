@@ -1,11 +1,14 @@
 import { useState, useMemo } from "react";
-import { FileText, List, CheckCircle2, AlertTriangle, Clock } from "lucide-react";
+import { FileText, List, CheckCircle2, AlertTriangle, Clock, Repeat } from "lucide-react";
 import EventPromptBar from "./EventPromptBar";
 import EventForm from "./EventForm";
 import PastEventCard from "./PastEventCard";
+import SeriesCard from "./SeriesCard";
 import type {
   PlannerEvent,
   EventFormData,
+  EventSource,
+  EventSeries,
   ActiveView,
   AccountSettings,
   EventStatus,
@@ -19,10 +22,12 @@ import { EVENT_STATUS_LABELS } from "../types";
 interface DashboardProps {
   /** pastEvents -> Events to display as cards below the prompt */
   pastEvents: PlannerEvent[];
+  /** eventSeries -> Recurring series; their occurrences are grouped under them */
+  eventSeries: EventSeries[];
   /** accountSettings -> Current account settings */
   accountSettings: AccountSettings;
-  /** onSubmit -> Callback with form data when a new event is created */
-  onSubmit: (data: EventFormData) => void;
+  /** onSubmit -> Callback with form data (the template or past event to copy, and the recurrence rule) when a new event is created */
+  onSubmit: (data: EventFormData, source?: EventSource, rrule?: string) => void;
   /** onNavigate -> Navigation callback for clicking past event cards */
   onNavigate: (view: ActiveView) => void;
   /** onUpdateEvent -> Callback to update an event */
@@ -34,6 +39,7 @@ interface DashboardProps {
  */
 export default function Dashboard({
   pastEvents,
+  eventSeries,
   accountSettings,
   onSubmit,
   onNavigate,
@@ -42,22 +48,27 @@ export default function Dashboard({
   // showForm -> Derived from `show` (visibility toggle) + `Form` (input section)
   const [showForm, setShowForm] = useState(false);
 
-  // Separate events by status
+  // Separate events by status. Occurrences of a known series are listed under the series,
+  // unless they are at risk.
   const { pastEventsList, activeEvents, upcomingEvents } = useMemo(() => {
     const now = new Date();
     const past: PlannerEvent[] = [];
     const active: PlannerEvent[] = [];
     const upcoming: PlannerEvent[] = [];
+    const seriesIds = new Set(eventSeries.map((s) => s.id));
 
     pastEvents.forEach((event) => {
       const eventDate = event.formData.eventDate
         ? new Date(event.formData.eventDate)
         : null;
+      const inSeries = !!event.seriesId && seriesIds.has(event.seriesId);
 
       if (event.status === "complete" || (eventDate && eventDate < now)) {
-        past.push(event);
+        if (!inSeries) past.push(event);
       } else if (event.status === "at-risk") {
         active.push(event);
+      } else if (inSeries) {
+        return;
       } else if (event.status === "on-track" || event.status === "planning") {
         upcoming.push(event);
       } else {
@@ -70,7 +81,7 @@ export default function Dashboard({
       activeEvents: active,
       upcomingEvents: upcoming,
     };
-  }, [pastEvents]);
+  }, [pastEvents, eventSeries]);
 
   const getStatusIcon = (status: EventStatus) => {
     switch (status) {
@@ -121,9 +132,9 @@ export default function Dashboard({
       ) : (
           <EventForm
             existingEvents={pastEvents}
-            onSubmit={(data) => {
+            onSubmit={(data, source, rrule) => {
               setShowForm(false);
-              onSubmit(data);
+              onSubmit(data, source, rrule);
             }}
             onCancel={() => setShowForm(false)}
           />
@@ -192,6 +203,23 @@ export default function Dashboard({
         </div>
       )}
 
+      {/* Recurring Series */}
+      {eventSeries.length > 0 && (
+        <div className="events-section series-section">
+          <div className="events-section-header">
+            <h2 className="events-section-title">
+              <Repeat size={18} />
+              Recurring Series
+            </h2>
+          </div>
+          <div className="events-grid">
+            {eventSeries.map((series) => (
+              <SeriesCard key={series.id} series={series} events={pastEvents} onNavigate={onNavigate} />
+            ))}
+          </div>
+        </div>
+      )}
+
       {/* Upcoming Events */}
       {upcomingEvents.length > 0 && (
         <div className="events-section upcoming-events-section">
@@ -0,0 +1,117 @@
+import { useState, useEffect } from "react";
+import { Loader, RefreshCw } from "lucide-react";
+import { getSchemaStatus, runMigrations, isElectron } from "../lib/electronBridge";
+import type { SchemaStatus } from "../types";
+
+/**
+ * DatabaseStatus -> Schema version against the migrations this build ships, the pending
+ * migrations and the steps to upgrade. Applies them when a direct connection is set up.
+ * Rendered in Settings.
+ */
+export default function DatabaseStatus() {
+  const [status, setStatus] = useState<SchemaStatus | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [running, setRunning] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [applied, setApplied] = useState<string[]>([]);
+
+  /** refresh -> Re-read the schema version. */
+  const refresh = async () => {
+    if (!isElectron()) return;
+    setLoading(true);
+    try {
+      const result = await getSchemaStatus();
+      setError(result.error ?? null);
+      if (result.status) setStatus(result.status);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    refresh();
+  }, []);
+
+  /** handleApply -> Run the pending migrations in order. */
+  const handleApply = async () => {
+    setRunning(true);
+    try {
+      const result = await runMigrations();
+      setApplied(result.applied);
+      setError(result.error ?? null);
+      if (result.status) setStatus(result.status);
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  if (!isElectron()) {
+    return (
+      <div className="connectors-empty">
+        <p>Database status is only available in the Electron desktop app.</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="database-status">
+      <div className="account-info">
+        <div className="info-row">
+          <label>Schema version</label>
+          <span>
+            {status
+              ? status.backend === "memory"
+                ? "In-memory store"
+                : `${status.currentVersion} of ${status.requiredVersion}${status.tracked ? "" : " (estimated)"}`
+              : "—"}
+          </span>
+          <button
+            type="button"
+            className="btn-secondary btn-sm usage-refresh"
+            onClick={refresh}
+            disabled={loading}
+            title="Refresh"
+          >
+            {loading ? <Loader size={13} className="spin" /> : <RefreshCw size={13} />}
+          </button>
+        </div>
+      </div>
+
+      {error && <p className="approval-error">{error}</p>}
+      {applied.length > 0 && <p className="database-status-applied">Applied {applied.join(", ")}.</p>}
+
+      {status && status.pending.length > 0 && (
+        <>
+          <h3 className="usage-heading">Pending migrations</h3>
+          <ul className="database-status-list">
+            {status.pending.map((m) => (
+              <li key={m.version}>{m.name}.sql</li>
+            ))}
+          </ul>
+        </>
+      )}
+
+      {status && status.steps.length > 0 && (
+        <>
+          <h3 className="usage-heading">How to upgrade</h3>
+          <ol className="database-status-list">
+            {status.steps.map((step) => (
+              <li key={step}>{step}</li>
+            ))}
+          </ol>
+        </>
+      )}
+
+      {status && status.pending.length === 0 && !status.newerThanApp && (
+        <p className="usage-empty">The database is up to date.</p>
+      )}
+
+      {status?.canRun && status.pending.length > 0 && !status.newerThanApp && (
+        <button type="button" className="btn-primary" onClick={handleApply} disabled={running}>
+          {running ? <Loader size={14} className="spin" /> : null}
+          Apply {status.pending.length} migration{status.pending.length === 1 ? "" : "s"}
+        </button>
+      )}
+    </div>
+  );
+}
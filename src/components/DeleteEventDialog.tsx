@@ -0,0 +1,46 @@
+import { Trash2, X } from "lucide-react";
+
+/**
+ * DeleteEventDialogProps -> Derived from `Delete` + `Event` + `Dialog` + `Props`.
+ */
+interface DeleteEventDialogProps {
+  /** eventName -> Name shown in the confirmation */
+  eventName: string;
+  /** onConfirm -> Delete the event */
+  onConfirm: () => void;
+  /** onCancel -> Close without deleting */
+  onCancel: () => void;
+}
+
+/**
+ * DeleteEventDialog -> Confirmation before an owner permanently deletes an event.
+ */
+export default function DeleteEventDialog({ eventName, onConfirm, onCancel }: DeleteEventDialogProps) {
+  return (
+    <div className="linked-event-modal-overlay" onClick={onCancel}>
+      <div className="linked-event-modal delete-event-dialog" role="alertdialog" onClick={(e) => e.stopPropagation()}>
+        <div className="linked-event-modal-header">
+          <h3>Delete “{eventName}”?</h3>
+          <button type="button" className="linked-event-modal-close" onClick={onCancel}>
+            <X size={18} />
+          </button>
+        </div>
+        <div className="linked-event-modal-body">
+          <p>
+            This permanently removes the event for everyone working on it, with all its tasks, chat messages,
+            documents, collaborators and agent runs.
+          </p>
+          <div className="delete-event-dialog-actions">
+            <button type="button" className="btn-secondary" onClick={onCancel}>
+              Cancel
+            </button>
+            <button type="button" className="btn-danger" onClick={onConfirm}>
+              <Trash2 size={16} />
+              Delete Event
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
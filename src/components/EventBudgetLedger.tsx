@@ -0,0 +1,397 @@
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { AlertTriangle, ExternalLink, Plus, Receipt } from "lucide-react";
+import { addBudgetItem, fetchBudgetItems, removeBudgetItem, updateBudgetItem } from "../lib/eventsDb";
+import {
+  budgetBurnDown,
+  budgetByAgent,
+  budgetHealth,
+  formatMoney,
+  projectedCost,
+  shouldFlagAtRisk,
+  type BurnDownPoint,
+} from "../lib/budget";
+import { onBudgetChanged, onSyncPulled, syncNow } from "../lib/electronBridge";
+import { AGENT_DEFS } from "../mockData";
+import type { AgentId, BudgetItem, EventStatus, PlannerEvent } from "../types";
+
+/**
+ * EventBudgetLedgerProps -> Derived from `Event` + `Budget` + `Ledger` + `Props`.
+ */
+interface EventBudgetLedgerProps {
+  /** event -> Event whose budget lines are shown */
+  event: PlannerEvent;
+  /** canEdit -> Whether the user may add and change budget lines */
+  canEdit: boolean;
+  /** onStatusChange -> Change the event's status (used to flag it at-risk when over budget) */
+  onStatusChange?: (status: EventStatus) => void;
+}
+
+/** LineDraft -> The add-line form. */
+interface LineDraft {
+  title: string;
+  agentId: AgentId;
+  vendorName: string;
+  vendorUrl: string;
+  estimated: string;
+}
+
+const EMPTY_DRAFT: LineDraft = { title: "", agentId: "general", vendorName: "", vendorUrl: "", estimated: "" };
+
+const AGENT_IDS = AGENT_DEFS.map((a) => a.id);
+const AGENT_NAMES = Object.fromEntries(AGENT_DEFS.map((a) => [a.id, a.name])) as Record<AgentId, string>;
+
+/**
+ * EventBudgetLedger -> The event's budget ledger (budget_items): totals against the
+ * budget with an over-budget alert, a burn-down of payments, and lines grouped by agent
+ * category with estimated, committed and paid amounts, vendor links and receipts.
+ * Going over budget moves the event to at-risk. Reloads when the General agent records a quote.
+ */
+export default function EventBudgetLedger({ event, canEdit, onStatusChange }: EventBudgetLedgerProps) {
+  const eventUuid = event.eventUuid;
+  const budget = event.formData.budget;
+  const [items, setItems] = useState<BudgetItem[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [showAdd, setShowAdd] = useState(false);
+  const [draft, setDraft] = useState<LineDraft>(EMPTY_DRAFT);
+
+  const load = useCallback(async () => {
+    if (!eventUuid) return;
+    try {
+      setItems(await fetchBudgetItems(eventUuid));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  }, [eventUuid]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  // Agent writes go to Supabase; pull them into the local database, then reload
+  useEffect(() => {
+    const unsubPulled = onSyncPulled(load);
+    const unsubChanged = onBudgetChanged(({ evtId }) => {
+      if (evtId === event.evtId || evtId === eventUuid) syncNow().then(load);
+    });
+    return () => {
+      unsubPulled();
+      unsubChanged();
+    };
+  }, [event.evtId, eventUuid, load]);
+
+  const health = useMemo(() => budgetHealth(budget, items), [budget, items]);
+  const groups = useMemo(() => budgetByAgent(items, AGENT_IDS), [items]);
+  // Stacked bar segments: paid, committed not yet paid, and estimates not yet committed
+  const burnShares = useMemo(() => {
+    const firm = items.reduce((sum, i) => sum + Math.max(i.committed, i.paid), 0);
+    return { paid: health.totals.paid, committed: firm - health.totals.paid, estimated: health.totals.projected - firm };
+  }, [items, health]);
+
+  useEffect(() => {
+    if (canEdit && onStatusChange && shouldFlagAtRisk(event.status, health)) onStatusChange("at-risk");
+  }, [canEdit, onStatusChange, event.status, health]);
+
+  /** save -> Run one change, then reload; errors are shown instead of thrown. */
+  const save = async (change: () => Promise<unknown>) => {
+    setError(null);
+    try {
+      await change();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    }
+    await load();
+  };
+
+  const handleAdd = () => {
+    if (!eventUuid || !draft.title.trim()) return;
+    save(async () => {
+      await addBudgetItem(eventUuid, {
+        title: draft.title,
+        agentId: draft.agentId,
+        vendorName: draft.vendorName,
+        vendorUrl: draft.vendorUrl,
+        estimated: Number(draft.estimated) || 0,
+      });
+      setDraft(EMPTY_DRAFT);
+      setShowAdd(false);
+    });
+  };
+
+  /** amountInput -> An amount cell: editable (saved on blur) or plain text. */
+  const amountInput = (item: BudgetItem, field: "estimated" | "committed" | "paid") =>
+    canEdit ? (
+      <input
+        key={`${field}-${item[field]}`}
+        type="number"
+        min={0}
+        step="0.01"
+        className="budget-amount-input"
+        defaultValue={item[field] || ""}
+        placeholder="0"
+        onBlur={(e) => {
+          const amount = Math.max(0, Number(e.target.value) || 0);
+          if (amount === item[field]) return;
+          // Recording a first payment dates it today unless a date is set
+          const paidAt = field === "paid" && amount > 0 && !item.paidAt ? new Date().toISOString().slice(0, 10) : undefined;
+          save(() => updateBudgetItem(item.id, { [field]: amount, ...(paidAt ? { paidAt } : {}) }));
+        }}
+      />
+    ) : (
+      formatMoney(item[field])
+    );
+
+  if (!eventUuid) return null;
+
+  return (
+    <>
+      {health.level !== "ok" && health.budget != null && (
+        <div className={`budget-alert budget-alert-${health.level}`}>
+          <AlertTriangle size={16} />
+          {health.level === "over"
+            ? `Over budget by ${formatMoney(-health.remaining!)}: projected spend is ${formatMoney(health.totals.projected)} of ${formatMoney(health.budget)}.`
+            : `Projected spend is ${formatMoney(health.totals.projected)}, within 10% of the ${formatMoney(health.budget)} budget.`}
+        </div>
+      )}
+
+      <div className="overview-grid">
+        <div className="overview-item">
+          <div className="overview-item-content">
+            <span className="overview-label">Projected</span>
+            <span className="overview-value">{formatMoney(health.totals.projected)}</span>
+          </div>
+        </div>
+        <div className="overview-item">
+          <div className="overview-item-content">
+            <span className="overview-label">Committed</span>
+            <span className="overview-value">{formatMoney(health.totals.committed)}</span>
+          </div>
+        </div>
+        <div className="overview-item">
+          <div className="overview-item-content">
+            <span className="overview-label">Paid</span>
+            <span className="overview-value">{formatMoney(health.totals.paid)}</span>
+          </div>
+        </div>
+        <div className="overview-item">
+          <div className="overview-item-content">
+            <span className="overview-label">Remaining</span>
+            <span className="overview-value">{health.remaining != null ? formatMoney(health.remaining) : "No budget set"}</span>
+          </div>
+        </div>
+      </div>
+
+      {health.budget != null && (
+        <>
+          <div className="budget-burn-bar" title="Paid, committed and estimated against the budget">
+            {(["paid", "committed", "estimated"] as const).map((kind) => (
+              <div
+                key={kind}
+                className={`budget-burn-segment budget-burn-${kind}`}
+                style={{ width: `${Math.max(0, (burnShares[kind] / Math.max(health.budget!, health.totals.projected)) * 100)}%` }}
+              />
+            ))}
+          </div>
+          <div className="budget-burn-legend">
+            <span className="budget-burn-key budget-burn-paid">Paid</span>
+            <span className="budget-burn-key budget-burn-committed">Committed</span>
+            <span className="budget-burn-key budget-burn-estimated">Estimated</span>
+          </div>
+          {health.totals.paid > 0 && (
+            <BurnDownChart
+              budget={health.budget}
+              points={budgetBurnDown(health.budget, items, event.createdAt)}
+              endDate={event.formData.eventDate}
+            />
+          )}
+        </>
+      )}
+
+      <div className="collaborators-header budget-lines-header">
+        <h4>Budget Lines</h4>
+        {canEdit && (
+          <button type="button" className="btn-secondary" onClick={() => setShowAdd(!showAdd)}>
+            {showAdd ? "Cancel" : <><Plus size={14} /> Add Line</>}
+          </button>
+        )}
+      </div>
+
+      {showAdd && (
+        <div className="add-collaborator-form">
+          <input
+            type="text"
+            placeholder="What is it for (e.g. Catering)"
+            value={draft.title}
+            onChange={(e) => setDraft({ ...draft, title: e.target.value })}
+          />
+          <select value={draft.agentId} onChange={(e) => setDraft({ ...draft, agentId: e.target.value as AgentId })}>
+            {AGENT_DEFS.map((a) => (
+              <option key={a.id} value={a.id}>
+                {a.name}
+              </option>
+            ))}
+          </select>
+          <input
+            type="text"
+            placeholder="Vendor (optional)"
+            value={draft.vendorName}
+            onChange={(e) => setDraft({ ...draft, vendorName: e.target.value })}
+          />
+          <input
+            type="url"
+            placeholder="Vendor or quote link (optional)"
+            value={draft.vendorUrl}
+            onChange={(e) => setDraft({ ...draft, vendorUrl: e.target.value })}
+          />
+          <input
+            type="number"
+            min={0}
+            step="0.01"
+            placeholder="Estimate ($)"
+            value={draft.estimated}
+            onChange={(e) => setDraft({ ...draft, estimated: e.target.value })}
+          />
+          <button type="button" className="btn-primary" onClick={handleAdd} disabled={!draft.title.trim()}>
+            Add
+          </button>
+        </div>
+      )}
+      {error && <p className="approval-error">{error}</p>}
+
+      {groups.length === 0 ? (
+        <p className="form-hint">No budget lines yet. Add quotes and costs here, or ask the General agent to record them.</p>
+      ) : (
+        groups.map((group) => (
+          <div key={group.agentId} className="budget-group">
+            <div className="budget-group-header">
+              <span>{AGENT_NAMES[group.agentId]}</span>
+              <span className="form-hint">
+                {formatMoney(group.totals.projected)} projected · {formatMoney(group.totals.paid)} paid
+              </span>
+            </div>
+            <table className="usage-table budget-table">
+              <thead>
+                <tr>
+                  <th>Item</th>
+                  <th>Estimated</th>
+                  <th>Committed</th>
+                  <th>Paid</th>
+                  <th>Paid on</th>
+                  <th>Receipt</th>
+                  {canEdit && <th />}
+                </tr>
+              </thead>
+              <tbody>
+                {group.items.map((item) => (
+                  <tr key={item.id} className={projectedCost(item) > item.estimated && item.estimated > 0 ? "over-budget" : ""}>
+                    <td>
+                      <div className="budget-item-title">
+                        {item.title}
+                        {item.source === "agent" && <span className="guest-source-badge">agent</span>}
+                      </div>
+                      {(item.vendorName || item.vendorUrl) && (
+                        <div className="budget-item-vendor">
+                          {item.vendorUrl ? (
+                            <a href={item.vendorUrl} target="_blank" rel="noopener noreferrer" className="overview-link">
+                              {item.vendorName || "Vendor"} <ExternalLink size={11} />
+                            </a>
+                          ) : (
+                            item.vendorName
+                          )}
+                        </div>
+                      )}
+                      {item.notes && <div className="budget-item-vendor">{item.notes}</div>}
+                    </td>
+                    <td>{amountInput(item, "estimated")}</td>
+                    <td>{amountInput(item, "committed")}</td>
+                    <td>{amountInput(item, "paid")}</td>
+                    <td>
+                      {canEdit ? (
+                        <input
+                          key={item.paidAt ?? ""}
+                          type="date"
+                          className="budget-amount-input"
+                          defaultValue={item.paidAt ?? ""}
+                          onBlur={(e) => {
+                            if (e.target.value !== (item.paidAt ?? "")) {
+                              save(() => updateBudgetItem(item.id, { paidAt: e.target.value || undefined }));
+                            }
+                          }}
+                        />
+                      ) : (
+                        item.paidAt ?? ""
+                      )}
+                    </td>
+                    <td>
+                      {item.receiptUrl ? (
+                        <a href={item.receiptUrl} target="_blank" rel="noopener noreferrer" className="overview-link">
+                          <Receipt size={12} /> Receipt
+                        </a>
+                      ) : (
+                        canEdit && (
+                          <input
+                            type="url"
+                            className="budget-amount-input"
+                            placeholder="Receipt link"
+                            onBlur={(e) => {
+                              if (e.target.value.trim()) save(() => updateBudgetItem(item.id, { receiptUrl: e.target.value }));
+                            }}
+                          />
+                        )
+                      )}
+                    </td>
+                    {canEdit && (
+                      <td>
+                        <button type="button" className="btn-remove" onClick={() => save(() => removeBudgetItem(item.id))}>
+                          Remove
+                        </button>
+                      </td>
+                    )}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        ))
+      )}
+    </>
+  );
+}
+
+/** BURN_DOWN_SIZE -> Chart viewBox size; the SVG scales to the section width. */
+const BURN_DOWN_SIZE = { width: 600, height: 140, pad: 8 };
+
+/**
+ * BurnDownChart -> Budget left over time as payments go out (a step line), against a
+ * straight line from the full budget to zero on the event date.
+ */
+function BurnDownChart({ budget, points, endDate }: { budget: number; points: BurnDownPoint[]; endDate?: string }) {
+  const { width, height, pad } = BURN_DOWN_SIZE;
+  const day = (date: string) => Date.parse(`${date.slice(0, 10)}T00:00:00Z`);
+  const start = day(points[0].date);
+  const last = day(points[points.length - 1].date);
+  const end = Math.max(last, endDate ? day(endDate) : last, start + 86_400_000);
+  const low = Math.min(0, ...points.map((p) => p.remaining));
+  const x = (date: string) => pad + ((day(date) - start) / (end - start)) * (width - pad * 2);
+  const y = (amount: number) => pad + ((budget - amount) / (budget - low)) * (height - pad * 2);
+
+  let path = `M ${x(points[0].date)} ${y(points[0].remaining)}`;
+  for (const point of points.slice(1)) path += ` H ${x(point.date)} V ${y(point.remaining)}`;
+  const today = new Date().toISOString().slice(0, 10);
+  if (day(today) > last && day(today) <= end) path += ` H ${x(today)}`;
+
+  return (
+    <figure className="budget-burn-down">
+      <svg viewBox={`0 0 ${width} ${height}`} preserveAspectRatio="none" role="img" aria-label="Budget burn-down">
+        <line className="budget-burn-down-zero" x1={pad} x2={width - pad} y1={y(0)} y2={y(0)} />
+        {endDate && (
+          <line className="budget-burn-down-ideal" x1={x(points[0].date)} y1={y(budget)} x2={x(endDate)} y2={y(0)} />
+        )}
+        <path className="budget-burn-down-line" d={path} />
+      </svg>
+      <figcaption className="form-hint">
+        Budget left after payments, {points[0].date} to {endDate || points[points.length - 1].date}
+        {endDate ? " (dashed: even spend down to the event date)" : ""}
+      </figcaption>
+    </figure>
+  );
+}
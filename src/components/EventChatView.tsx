@@ -1,8 +1,30 @@
 import { useState, useEffect } from "react";
-import { ArrowLeft, List, FileText } from "lucide-react";
+import { ArrowLeft, List, FileText, Users, Clock, Play, Square, Loader } from "lucide-react";
 import TaskManager from "./TaskManager";
 import EventOverview from "./EventOverview";
-import type { PlannerEvent, ActiveView, AccountSettings } from "../types";
+import ReplanPanel from "./ReplanPanel";
+import GuestListView from "./GuestListView";
+import RunOfShowView from "./RunOfShowView";
+import {
+  isElectron,
+  getLaneStatuses,
+  onStatusChange,
+  runOrchestrator,
+  stopOrchestrator,
+} from "../lib/electronBridge";
+import { can } from "../lib/permissions";
+import { saveEventAsTemplate } from "../lib/eventsDb";
+import type {
+  PlannerEvent,
+  EventRole,
+  EventSeries,
+  ActiveView,
+  AccountSettings,
+  OrchestratorStatus,
+  ReplanChange,
+  ReplanProposal,
+  TaskSyncConflict,
+} from "../types";
 
 /**
  * EventChatViewProps -> Derived from `Event` + `Chat` + `View` + `Props`.
@@ -22,13 +44,29 @@ interface EventChatViewProps {
   onUpdateEvent?: (updates: Partial<PlannerEvent>) => void;
   /** onDeleteEvent -> Callback to delete the event (navigate away after delete) */
   onDeleteEvent?: () => void;
-  /** taskSyncInProgress -> True while tasks are syncing; disables toggle/delete to prevent duplicates */
-  taskSyncInProgress?: boolean;
-  /** initialViewMode -> Open directly to Details or Tasks when navigating from dashboard cards */
-  initialViewMode?: "tasks" | "details";
+  /** taskSyncConflicts -> Task edits that clashed with changes made elsewhere */
+  taskSyncConflicts?: TaskSyncConflict[];
+  /** onDismissTaskSyncConflicts -> Clear the conflict notice */
+  onDismissTaskSyncConflicts?: () => void;
+  /** initialViewMode -> Open directly to Details, Tasks, the guest list or the run of show when navigating */
+  initialViewMode?: ViewMode;
+  /** replanProposal -> Task changes proposed after the event details changed */
+  replanProposal?: ReplanProposal;
+  /** onReplanDecision -> Accept / reject (or clear) one proposed change */
+  onReplanDecision?: (changeId: string, decision: ReplanChange["decision"]) => void;
+  /** onApplyReplan -> Apply the accepted changes */
+  onApplyReplan?: () => void;
+  /** onDismissReplan -> Drop the proposal */
+  onDismissReplan?: () => void;
+  /** role -> The user's role on the event (lib/permissions) */
+  role?: EventRole;
+  /** series -> Recurring series the event is an occurrence of */
+  series?: EventSeries;
+  /** onUpdateSeries -> Change the series; omitted when the user may not */
+  onUpdateSeries?: (updates: Partial<EventSeries>) => Promise<void>;
 }
 
-type ViewMode = "tasks" | "details";
+type ViewMode = "tasks" | "details" | "guests" | "schedule";
 
 /**
  * EventChatView -> View switcher between detailed view and tasks view.
@@ -41,16 +79,75 @@ export default function EventChatView({
   onNavigateBack,
   onUpdateEvent,
   onDeleteEvent,
-  taskSyncInProgress,
+  taskSyncConflicts,
+  onDismissTaskSyncConflicts,
   initialViewMode,
+  replanProposal,
+  onReplanDecision,
+  onApplyReplan,
+  onDismissReplan,
+  role = "owner",
+  series,
+  onUpdateSeries,
 }: EventChatViewProps) {
   const [viewMode, setViewMode] = useState<ViewMode>(initialViewMode ?? "tasks");
   const [isOverviewEditing, setIsOverviewEditing] = useState(false);
+  /** laneStatuses -> Status of each agent lane that has a run for this event */
+  const [laneStatuses, setLaneStatuses] = useState<OrchestratorStatus[]>([]);
+  const [lanesPending, setLanesPending] = useState(false);
+  const [lanesError, setLanesError] = useState<string | null>(null);
 
   useEffect(() => {
     if (initialViewMode) setViewMode(initialViewMode);
   }, [initialViewMode]);
 
+  // Lane statuses: initial load, then refresh whenever any lane changes state
+  useEffect(() => {
+    if (!isElectron()) return;
+    let cancelled = false;
+    const refresh = () =>
+      getLaneStatuses(event.evtId).then((statuses) => {
+        if (!cancelled) setLaneStatuses(statuses);
+      });
+    refresh();
+    const unsub = onStatusChange(refresh);
+    return () => {
+      cancelled = true;
+      unsub();
+    };
+  }, [event.evtId]);
+
+  const anyLaneRunning = laneStatuses.some(
+    (s) => s.runStatus === "executing" || s.runStatus === "waiting_for_dependencies"
+  );
+  const laneCompleted = laneStatuses.reduce((sum, s) => sum + s.completedCount, 0);
+  const laneTotal = laneStatuses.reduce((sum, s) => sum + s.totalCount, 0);
+
+  /** handleRunAll -> Start every agent lane with open AI tasks, or stop all running lanes. */
+  const handleRunAll = async () => {
+    setLanesPending(true);
+    setLanesError(null);
+    try {
+      const result = anyLaneRunning
+        ? await stopOrchestrator(event.evtId)
+        : await runOrchestrator(event.evtId);
+      if (result.error) setLanesError(result.error);
+      if (result.statuses) setLaneStatuses(await getLaneStatuses(event.evtId));
+    } finally {
+      setLanesPending(false);
+    }
+  };
+
+  /** handleSaveTemplate -> Save this event as a template, personal or shared with the organization. */
+  const handleSaveTemplate = async (opts: { name: string; description: string; shared: boolean }) => {
+    await saveEventAsTemplate(event, {
+      name: opts.name,
+      description: opts.description,
+      userId: accountSettings?.personalAccount.userId,
+      orgId: opts.shared ? accountSettings?.organizationAccount?.orgId : undefined,
+    });
+  };
+
   // fd -> shorthand alias for event.formData
   const fd = event.formData;
 
@@ -71,7 +168,40 @@ export default function EventChatView({
         </button>
         <h2>{fd.eventReason || "Untitled Event"}</h2>
         <span className="agents-event-summary">{evtSummary}</span>
+        {isElectron() && can(role, "run-agents") && (
+          <button
+            type="button"
+            className={`event-chat-header-action ${anyLaneRunning ? "running" : ""}`}
+            onClick={handleRunAll}
+            disabled={lanesPending}
+            title={lanesError ?? undefined}
+          >
+            {lanesPending ? (
+              <Loader size={14} className="spin" />
+            ) : anyLaneRunning ? (
+              <Square size={14} />
+            ) : (
+              <Play size={14} />
+            )}
+            {anyLaneRunning ? "Stop all agents" : "Run all agents"}
+            {anyLaneRunning && laneTotal > 0 && (
+              <span className="run-btn-count">
+                {laneCompleted}/{laneTotal}
+              </span>
+            )}
+          </button>
+        )}
       </div>
+      {lanesError && <div className="agent-group-error">{lanesError}</div>}
+      {replanProposal && onReplanDecision && onApplyReplan && onDismissReplan && (
+        <ReplanPanel
+          proposal={replanProposal}
+          tasks={event.tasks ?? []}
+          onDecide={onReplanDecision}
+          onApply={onApplyReplan}
+          onDismiss={onDismissReplan}
+        />
+      )}
 
       {/* View Mode Toggle — hidden when editing event details so the header stays clean */}
       {!isOverviewEditing && (
@@ -90,17 +220,44 @@ export default function EventChatView({
             <List size={16} />
             <span>Task List</span>
           </button>
+          {can(role, "view-activity") && (
+            <button
+              className={`view-mode-btn ${viewMode === "guests" ? "active" : ""}`}
+              onClick={() => setViewMode("guests")}
+            >
+              <Users size={16} />
+              <span>Guest List</span>
+            </button>
+          )}
+          {can(role, "view-activity") && (
+            <button
+              className={`view-mode-btn ${viewMode === "schedule" ? "active" : ""}`}
+              onClick={() => setViewMode("schedule")}
+            >
+              <Clock size={16} />
+              <span>Run of Show</span>
+            </button>
+          )}
         </div>
       )}
 
       {/* Content */}
-      {viewMode === "details" ? (
+      {viewMode === "guests" && can(role, "view-activity") ? (
+        <GuestListView event={event} canEdit={can(role, "edit-details")} />
+      ) : viewMode === "schedule" && can(role, "view-activity") ? (
+        <RunOfShowView event={event} canEdit={can(role, "edit-details")} />
+      ) : viewMode === "details" ? (
         <EventOverview
           event={event}
           allEvents={allEvents}
           onUpdateEvent={onUpdateEvent}
           onDeleteEvent={onDeleteEvent}
           onEditingChange={setIsOverviewEditing}
+          role={role}
+          onSaveTemplate={can(role, "view-activity") ? handleSaveTemplate : undefined}
+          orgName={accountSettings?.organizationAccount?.name}
+          series={series}
+          onUpdateSeries={onUpdateSeries}
         />
       ) : accountSettings && onUpdateEvent ? (
         <TaskManager
@@ -108,7 +265,8 @@ export default function EventChatView({
           accountSettings={accountSettings}
           onNavigate={onNavigate}
           onUpdateEvent={onUpdateEvent}
-          taskSyncInProgress={taskSyncInProgress}
+          taskSyncConflicts={taskSyncConflicts}
+          onDismissTaskSyncConflicts={onDismissTaskSyncConflicts}
         />
       ) : (
         <div className="task-manager-placeholder">
@@ -0,0 +1,137 @@
+import { useState } from "react";
+import { UserPlus } from "lucide-react";
+import { addEventCollaborator, removeEventCollaborator, updateEventCollaboratorRole } from "../lib/eventsDb";
+import { EVENT_ROLES, EVENT_ROLE_LABELS } from "../lib/permissions";
+import type { Collaborator, EventRole, PlannerEvent } from "../types";
+
+/**
+ * EventCollaboratorsProps -> Derived from `Event` + `Collaborators` + `Props`.
+ */
+interface EventCollaboratorsProps {
+  /** event -> Event whose collaborators are listed */
+  event: PlannerEvent;
+  /** canManage -> Whether the user may add, re-role and remove collaborators (owners) */
+  canManage: boolean;
+  /** onChange -> Called with the new list after a change was saved */
+  onChange: (collaborators: Collaborator[]) => void;
+}
+
+/**
+ * EventCollaborators -> People working on one event and their roles (collaborators table).
+ * Changes are saved straight away; the database only accepts them from owners.
+ */
+export default function EventCollaborators({ event, canManage, onChange }: EventCollaboratorsProps) {
+  const collaborators = event.collaborators ?? [];
+  const [showAdd, setShowAdd] = useState(false);
+  const [draft, setDraft] = useState<Omit<Collaborator, "id">>({ name: "", email: "", role: "editor" });
+  const [error, setError] = useState<string | null>(null);
+
+  /** save -> Run one change and report its error instead of throwing. */
+  const save = async (change: () => Promise<Collaborator[]>) => {
+    setError(null);
+    try {
+      onChange(await change());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  const handleAdd = () => {
+    const email = draft.email.trim().toLowerCase();
+    if (!event.eventUuid || !email) return;
+    if (collaborators.some((c) => c.email.toLowerCase() === email)) {
+      setError(`${email} is already on this event.`);
+      return;
+    }
+    save(async () => {
+      const added = await addEventCollaborator(event.eventUuid!, { ...draft, name: draft.name.trim() || email });
+      setDraft({ name: "", email: "", role: "editor" });
+      setShowAdd(false);
+      return [...collaborators, added];
+    });
+  };
+
+  const handleRoleChange = (id: string, role: EventRole) =>
+    save(async () => {
+      await updateEventCollaboratorRole(id, role);
+      return collaborators.map((c) => (c.id === id ? { ...c, role } : c));
+    });
+
+  const handleRemove = (id: string) =>
+    save(async () => {
+      await removeEventCollaborator(id);
+      return collaborators.filter((c) => c.id !== id);
+    });
+
+  if (!canManage && collaborators.length === 0) return null;
+
+  return (
+    <section className="overview-section collaborators-section">
+      <div className="collaborators-header">
+        <h3 className="overview-section-title">Collaborators</h3>
+        {canManage && event.eventUuid && (
+          <button type="button" className="btn-secondary" onClick={() => setShowAdd(!showAdd)}>
+            {showAdd ? "Cancel" : <><UserPlus size={14} /> Add Collaborator</>}
+          </button>
+        )}
+      </div>
+
+      {showAdd && (
+        <div className="add-collaborator-form">
+          <input
+            type="text"
+            placeholder="Name"
+            value={draft.name}
+            onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+          />
+          <input
+            type="email"
+            placeholder="Email (they see the event once they sign in with it)"
+            value={draft.email}
+            onChange={(e) => setDraft({ ...draft, email: e.target.value })}
+          />
+          <select value={draft.role} onChange={(e) => setDraft({ ...draft, role: e.target.value as EventRole })}>
+            {EVENT_ROLES.map((role) => (
+              <option key={role} value={role}>
+                {EVENT_ROLE_LABELS[role]}
+              </option>
+            ))}
+          </select>
+          <button type="button" className="btn-primary" onClick={handleAdd}>
+            Add
+          </button>
+        </div>
+      )}
+      {error && <p className="approval-error">{error}</p>}
+
+      <div className="collaborators-list">
+        {collaborators.map((collab) => (
+          <div key={collab.id} className="collaborator-item">
+            <div className="collaborator-info">
+              <div className="collaborator-name">{collab.name}</div>
+              <div className="collaborator-email">{collab.email}</div>
+              {!canManage && <div className="collaborator-role">{EVENT_ROLE_LABELS[collab.role]}</div>}
+            </div>
+            {canManage && (
+              <div className="collaborator-actions">
+                <select
+                  value={collab.role}
+                  onChange={(e) => handleRoleChange(collab.id, e.target.value as EventRole)}
+                >
+                  {EVENT_ROLES.map((role) => (
+                    <option key={role} value={role}>
+                      {EVENT_ROLE_LABELS[role]}
+                    </option>
+                  ))}
+                </select>
+                <button type="button" className="btn-remove" onClick={() => handleRemove(collab.id)}>
+                  Remove
+                </button>
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+    </section>
+  );
+}
@@ -1,18 +1,32 @@
-import { useState } from "react";
-import { MapPin, Upload, Link as LinkIcon, X, ChevronDown, ChevronUp } from "lucide-react";
+import { useState, useEffect } from "react";
+import { MapPin, Upload, Link as LinkIcon, X, ChevronDown, ChevronUp, Trash2 } from "lucide-react";
 import AddressAutocomplete from "./AddressAutocomplete";
-import type { EventFormData, FoodDrinkOption, EventGoals, Document } from "../types";
+import { fetchEventTemplates, deleteEventTemplate } from "../lib/eventsDb";
+import { templateFromEvent } from "../lib/templates";
+import { recurrencePresets } from "../lib/recurrence";
+import type {
+  EventFormData,
+  FoodDrinkOption,
+  EventGoals,
+  Document,
+  EventSource,
+  EventTemplate,
+  PlannerEvent,
+} from "../types";
 
 /**
  * EventFormProps -> Derived from `Event` + `Form` + `Props`.
  */
 interface EventFormProps {
-  /** onSubmit -> Callback with completed form data */
-  onSubmit: (data: EventFormData) => void;
+  /**
+   * onSubmit -> Callback with completed form data, the template or past event to copy tasks
+   * from, and the recurrence rule when the event starts a recurring series
+   */
+  onSubmit: (data: EventFormData, source?: EventSource, rrule?: string) => void;
   /** onCancel -> Callback to collapse back to prompt bar */
   onCancel: () => void;
-  /** existingEvents -> Past events for linking */
-  existingEvents?: Array<{ evtId: string; formData: { eventReason: string } }>;
+  /** existingEvents -> Past events for linking and cloning */
+  existingEvents?: PlannerEvent[];
 }
 
 /**
@@ -48,6 +62,58 @@ export default function EventForm({
   const [showVenueMap, setShowVenueMap] = useState(false);
   const [selectedLinkedEvents, setSelectedLinkedEvents] = useState<string[]>([]);
   const [linkedEventsExpanded, setLinkedEventsExpanded] = useState(false);
+  const [templates, setTemplates] = useState<EventTemplate[]>([]);
+  /** sourceKey -> "" (blank), "template:<id>" or "event:<evtId>" */
+  const [sourceKey, setSourceKey] = useState("");
+  const [sourceError, setSourceError] = useState<string | null>(null);
+  /** rrule -> "" (does not repeat) or one of the recurrencePresets for the chosen date */
+  const [rrule, setRrule] = useState("");
+
+  useEffect(() => {
+    fetchEventTemplates()
+      .then(setTemplates)
+      .catch((err) => console.warn("[Eventropy] Could not load event templates:", err));
+  }, []);
+
+  const clonableEvents = existingEvents.filter((e) => (e.tasks?.length ?? 0) > 0);
+  const selectedTemplate = sourceKey.startsWith("template:")
+    ? templates.find((t) => `template:${t.id}` === sourceKey)
+    : undefined;
+  const selectedEvent = sourceKey.startsWith("event:")
+    ? clonableEvents.find((e) => `event:${e.evtId}` === sourceKey)
+    : undefined;
+  const sourceTaskCount = selectedTemplate?.tasks.length ?? selectedEvent?.tasks?.length ?? 0;
+  const repeatOptions = formState.eventDate ? recurrencePresets(formState.eventDate) : [];
+  // Presets follow the date; a rule for another weekday or day of month no longer applies
+  const selectedRrule = repeatOptions.some((o) => o.rrule === rrule) ? rrule : "";
+
+  /**
+   * handleSourceChange -> Pre-fill the form from a template or past event (the date stays as
+   * entered). Its tasks are copied on submit, so AI task generation is switched off.
+   */
+  const handleSourceChange = (key: string) => {
+    setSourceKey(key);
+    setSourceError(null);
+    const template = templates.find((t) => `template:${t.id}` === key);
+    const event = clonableEvents.find((e) => `event:${e.evtId}` === key);
+    const prefill = template?.formData ?? (event ? templateFromEvent(event).formData : null);
+    if (!prefill) {
+      setFormState((prev) => ({ ...prev, generateAiTasks: true }));
+      return;
+    }
+    setFormState((prev) => ({ ...INITIAL_FORM_DATA, ...prefill, eventDate: prev.eventDate, generateAiTasks: false }));
+    setGoals(prefill.goals ?? {});
+  };
+
+  const handleDeleteTemplate = async (template: EventTemplate) => {
+    try {
+      await deleteEventTemplate(template.id);
+      setTemplates((prev) => prev.filter((t) => t.id !== template.id));
+      setSourceKey("");
+    } catch (err) {
+      setSourceError(err instanceof Error ? err.message : String(err));
+    }
+  };
 
   // handleChange -> Derived from `handle` (callback) + `Change` (input mutation)
   const handleChange = (
@@ -120,11 +186,64 @@ export default function EventForm({
       generateAiTasks: formState.generateAiTasks,
     };
 
-    onSubmit(finalData);
+    const source: EventSource | undefined = selectedTemplate
+      ? { kind: "template", template: selectedTemplate }
+      : selectedEvent
+        ? { kind: "event", evtId: selectedEvent.evtId }
+        : undefined;
+    onSubmit(finalData, source, selectedRrule || undefined);
   };
 
   return (
     <form className="event-form" onSubmit={handleSubmit}>
+      {/* Start from a template or past event */}
+      {(templates.length > 0 || clonableEvents.length > 0) && (
+        <div className="form-group full-width event-source-section">
+          <label>Start From</label>
+          <div className="event-source-picker">
+            <select value={sourceKey} onChange={(e) => handleSourceChange(e.target.value)}>
+              <option value="">Blank event</option>
+              {templates.length > 0 && (
+                <optgroup label="Templates">
+                  {templates.map((t) => (
+                    <option key={t.id} value={`template:${t.id}`}>
+                      {t.name}
+                    </option>
+                  ))}
+                </optgroup>
+              )}
+              {clonableEvents.length > 0 && (
+                <optgroup label="Clone a past event">
+                  {clonableEvents.map((e) => (
+                    <option key={e.evtId} value={`event:${e.evtId}`}>
+                      {e.formData.eventReason || "Untitled Event"}
+                      {e.formData.eventDate ? ` (${e.formData.eventDate})` : ""}
+                    </option>
+                  ))}
+                </optgroup>
+              )}
+            </select>
+            {selectedTemplate && (
+              <button
+                type="button"
+                className="btn-remove"
+                onClick={() => handleDeleteTemplate(selectedTemplate)}
+                title="Delete this template"
+              >
+                <Trash2 size={14} />
+              </button>
+            )}
+          </div>
+          {sourceKey && (
+            <p className="form-hint">
+              {sourceTaskCount} task{sourceTaskCount === 1 ? "" : "s"} will be copied with their subtasks, dependencies
+              and agents; due dates are set relative to the date below.
+            </p>
+          )}
+          {sourceError && <p className="approval-error">{sourceError}</p>}
+        </div>
+      )}
+
       {/* Required Fields Section */}
       <div className="form-section-header">
         <h3>Required Information</h3>
@@ -218,6 +337,26 @@ export default function EventForm({
         )}
       </div>
 
+      {repeatOptions.length > 0 && (
+        <div className="form-group full-width">
+          <label>Repeats</label>
+          <select value={selectedRrule} onChange={(e) => setRrule(e.target.value)}>
+            <option value="">Does not repeat</option>
+            {repeatOptions.map((o) => (
+              <option key={o.rrule} value={o.rrule}>
+                {o.label}
+              </option>
+            ))}
+          </select>
+          {selectedRrule && (
+            <p className="form-hint">
+              Upcoming occurrences are created automatically with this event's details and tasks, due dates
+              shifted to each date.
+            </p>
+          )}
+        </div>
+      )}
+
       <div className="form-row form-row-times">
         <div className="form-group">
           <label>Start Time</label>
@@ -460,16 +599,18 @@ export default function EventForm({
       </div>
 
       <div className="form-actions">
-        <label className="form-actions-option">
-          <input
-            type="checkbox"
-            checked={formState.generateAiTasks !== false}
-            onChange={(e) =>
-              setFormState((prev) => ({ ...prev, generateAiTasks: e.target.checked }))
-            }
-          />
-          <span>AI generate tasks for this event</span>
-        </label>
+        {!sourceKey && (
+          <label className="form-actions-option">
+            <input
+              type="checkbox"
+              checked={formState.generateAiTasks !== false}
+              onChange={(e) =>
+                setFormState((prev) => ({ ...prev, generateAiTasks: e.target.checked }))
+              }
+            />
+            <span>AI generate tasks for this event</span>
+          </label>
+        )}
         <button type="button" className="btn-secondary" onClick={onCancel}>
           Cancel
         </button>
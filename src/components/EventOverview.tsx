@@ -1,7 +1,15 @@
 import { useState } from "react";
-import { CalendarDays, Clock, Users, MapPin, DollarSign, FileText, Link as LinkIcon, Edit2, Save, Trash2, Upload, X, ChevronDown, ChevronUp } from "lucide-react";
+import { CalendarDays, Clock, Users, MapPin, DollarSign, FileText, Link as LinkIcon, Edit2, Save, Trash2, Upload, X, ChevronDown, ChevronUp, BookmarkPlus } from "lucide-react";
 import AddressAutocomplete from "./AddressAutocomplete";
-import type { PlannerEvent, EventFormData, EventGoals, Document } from "../types";
+import EventRetroSection from "./EventRetroSection";
+import EventCollaborators from "./EventCollaborators";
+import DeleteEventDialog from "./DeleteEventDialog";
+import SaveTemplateDialog from "./SaveTemplateDialog";
+import EventSeriesPanel from "./EventSeriesPanel";
+import EventBudgetLedger from "./EventBudgetLedger";
+import EventVendors from "./EventVendors";
+import { can } from "../lib/permissions";
+import type { PlannerEvent, EventFormData, EventGoals, EventRole, EventSeries, Document } from "../types";
 
 /**
  * EventOverviewProps -> Derived from `Event` + `Overview` + `Props`.
@@ -17,13 +25,36 @@ interface EventOverviewProps {
   onDeleteEvent?: () => void;
   /** onEditingChange -> Called when entering or leaving edit mode (so parent can hide header toggle) */
   onEditingChange?: (editing: boolean) => void;
+  /** role -> The user's role on the event; hides edit / delete / collaborator management it does not allow */
+  role?: EventRole;
+  /** onSaveTemplate -> Save the event as a named template (shared with orgName when asked) */
+  onSaveTemplate?: (opts: { name: string; description: string; shared: boolean }) => Promise<void>;
+  /** orgName -> The user's organization, offered when saving a template */
+  orgName?: string;
+  /** series -> Recurring series the event is an occurrence of */
+  series?: EventSeries;
+  /** onUpdateSeries -> Change the series (pause, plan); omitted when the user may not */
+  onUpdateSeries?: (updates: Partial<EventSeries>) => Promise<void>;
 }
 
 /**
  * EventOverview -> Editable detailed view of event information (like onboarding form).
  */
-export default function EventOverview({ event, allEvents = [], onUpdateEvent, onDeleteEvent, onEditingChange }: EventOverviewProps) {
+export default function EventOverview({
+  event,
+  allEvents = [],
+  onUpdateEvent,
+  onDeleteEvent,
+  onEditingChange,
+  role = "owner",
+  onSaveTemplate,
+  orgName,
+  series,
+  onUpdateSeries,
+}: EventOverviewProps) {
   const [isEditing, setIsEditing] = useState(false);
+  const [confirmingDelete, setConfirmingDelete] = useState(false);
+  const [savingTemplate, setSavingTemplate] = useState(false);
   const [formData, setFormData] = useState<EventFormData>(event.formData);
   const [goals, setGoals] = useState<EventGoals>(event.formData.goals || {});
   const [documents, setDocuments] = useState<Document[]>(event.documents || []);
@@ -98,13 +129,8 @@ export default function EventOverview({ event, allEvents = [], onUpdateEvent, on
     }
   };
 
-  const handleDelete = () => {
-    if (!onDeleteEvent) return;
-    const confirmed = window.confirm(
-      "Are you sure you want to delete this event? This will permanently remove the event and all its tasks, chat messages, documents, and related data."
-    );
-    if (confirmed) onDeleteEvent();
-  };
+  const canEdit = !!onUpdateEvent && can(role, "edit-details");
+  const canDelete = !!onDeleteEvent && can(role, "delete-event");
 
   const handleChange = (
     e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement | HTMLTextAreaElement>
@@ -125,8 +151,8 @@ export default function EventOverview({ event, allEvents = [], onUpdateEvent, on
             <button type="button" className="btn-secondary" onClick={handleCancel}>
               Cancel
             </button>
-            {onDeleteEvent && (
-              <button type="button" className="btn-danger" onClick={handleDelete}>
+            {canDelete && (
+              <button type="button" className="btn-danger" onClick={() => setConfirmingDelete(true)}>
                 <Trash2 size={16} />
                 Delete Event
               </button>
@@ -461,27 +487,56 @@ export default function EventOverview({ event, allEvents = [], onUpdateEvent, on
             />
           </div>
         </form>
+
+        {confirmingDelete && (
+          <DeleteEventDialog
+            eventName={event.formData.eventReason || "Untitled Event"}
+            onConfirm={() => {
+              setConfirmingDelete(false);
+              onDeleteEvent?.();
+            }}
+            onCancel={() => setConfirmingDelete(false)}
+          />
+        )}
       </div>
     );
   }
 
   // Read-only view
   const fd = event.formData;
+  const isPastEvent = event.status === "complete" || (!!fd.eventDate && new Date(fd.eventDate) < new Date());
 
   return (
     <div className="event-overview">
       <div className="overview-header">
         <h2>Event Overview</h2>
-        {onUpdateEvent && (
-          <button
-            className="btn-edit-overview-header"
-            onClick={() => setEditing(true)}
-          >
-            <Edit2 size={16} />
-            Edit Event
-          </button>
-        )}
+        <div className="overview-header-actions">
+          {onSaveTemplate && (
+            <button type="button" className="btn-secondary" onClick={() => setSavingTemplate(true)}>
+              <BookmarkPlus size={16} />
+              Save as Template
+            </button>
+          )}
+          {canEdit && (
+            <button
+              className="btn-edit-overview-header"
+              onClick={() => setEditing(true)}
+            >
+              <Edit2 size={16} />
+              Edit Event
+            </button>
+          )}
+        </div>
       </div>
+      {savingTemplate && onSaveTemplate && (
+        <SaveTemplateDialog
+          defaultName={fd.eventReason || "Untitled Event"}
+          taskCount={event.tasks?.length ?? 0}
+          orgName={orgName}
+          onSave={onSaveTemplate}
+          onClose={() => setSavingTemplate(false)}
+        />
+      )}
       {/* Basic Info */}
       <section className="overview-section">
         <h3 className="overview-section-title">Event Details</h3>
@@ -535,6 +590,16 @@ export default function EventOverview({ event, allEvents = [], onUpdateEvent, on
         </div>
       </section>
 
+      {/* Recurring series */}
+      {series && (
+        <EventSeriesPanel
+          event={event}
+          series={series}
+          allEvents={allEvents}
+          onUpdateSeries={onUpdateSeries}
+        />
+      )}
+
       {/* Goals */}
       {fd.goals && Object.keys(fd.goals).length > 0 ? (
         <section className="overview-section">
@@ -574,13 +639,13 @@ export default function EventOverview({ event, allEvents = [], onUpdateEvent, on
       ) : null}
 
       {/* Budget */}
-      {fd.budget != null ? (
+      {fd.budget != null || (event.eventUuid && can(role, "view-activity")) ? (
         <section className="overview-section">
           <h3 className="overview-section-title">
             Budget
           </h3>
           <div className="overview-budget">
-            <span className="overview-budget-amount">${fd.budget.toLocaleString()}</span>
+            <span className="overview-budget-amount">{fd.budget != null ? `$${fd.budget.toLocaleString()}` : "No budget set"}</span>
             {fd.budgetSpreadsheet && (
               <a
                 href={fd.budgetSpreadsheet.url}
@@ -593,9 +658,26 @@ export default function EventOverview({ event, allEvents = [], onUpdateEvent, on
               </a>
             )}
           </div>
+          {can(role, "view-activity") && (
+            <EventBudgetLedger
+              event={event}
+              canEdit={canEdit}
+              onStatusChange={onUpdateEvent ? (status) => onUpdateEvent({ status }) : undefined}
+            />
+          )}
         </section>
       ) : null}
 
+      {/* Vendors */}
+      {event.eventUuid && can(role, "view-activity") && (
+        <section className="overview-section">
+          <h3 className="overview-section-title">
+            Vendors
+          </h3>
+          <EventVendors event={event} allEvents={allEvents} canEdit={canEdit} />
+        </section>
+      )}
+
       {/* Documents & Links */}
       {event.documents && event.documents.length > 0 ? (
         <section className="overview-section">
@@ -628,6 +710,13 @@ export default function EventOverview({ event, allEvents = [], onUpdateEvent, on
         </section>
       ) : null}
 
+      {/* Collaborators */}
+      <EventCollaborators
+        event={event}
+        canManage={can(role, "manage-collaborators")}
+        onChange={(collaborators) => onUpdateEvent?.({ collaborators })}
+      />
+
       {/* Notes */}
       {fd.notes != null && String(fd.notes).trim() !== "" ? (
         <section className="overview-section">
@@ -662,6 +751,16 @@ export default function EventOverview({ event, allEvents = [], onUpdateEvent, on
         </section>
       ) : null}
 
+      {/* Retrospective */}
+      {isPastEvent && (
+        <EventRetroSection
+          event={event}
+          onRetroCreated={() => {
+            if (!event.retroCreated) onUpdateEvent?.({ retroCreated: true });
+          }}
+        />
+      )}
+
       {/* Linked Event Modal */}
       {linkedEventModal && (
         <div className="linked-event-modal-overlay" onClick={() => setLinkedEventModal(null)}>
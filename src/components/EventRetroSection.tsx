@@ -0,0 +1,103 @@
+import { useState, useEffect } from "react";
+import ReactMarkdown from "react-markdown";
+import { ClipboardCheck, Loader, RefreshCw } from "lucide-react";
+import { getEventRetro, generateEventRetro, isElectron } from "../lib/electronBridge";
+import type { EventRetro, PlannerEvent } from "../types";
+
+/**
+ * EventRetroSectionProps -> Derived from `Event` + `Retro` + `Section` + `Props`.
+ */
+interface EventRetroSectionProps {
+  /** event -> Past event the retro belongs to */
+  event: PlannerEvent;
+  /** onRetroCreated -> Called after a retro is generated so the event can be marked retroCreated */
+  onRetroCreated?: () => void;
+}
+
+/**
+ * EventRetroSection -> Post-event retrospective in the event overview.
+ * Shows the stored retro document, or a "Generate retro" action when there is none.
+ */
+export default function EventRetroSection({ event, onRetroCreated }: EventRetroSectionProps) {
+  const [retro, setRetro] = useState<EventRetro | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [generating, setGenerating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!isElectron()) return;
+    let cancelled = false;
+    setLoading(true);
+    getEventRetro(event.evtId)
+      .then((stored) => {
+        if (!cancelled) setRetro(stored);
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [event.evtId]);
+
+  /** handleGenerate -> Create (or replace) the retro. */
+  const handleGenerate = async () => {
+    setGenerating(true);
+    setError(null);
+    try {
+      const result = await generateEventRetro(event.evtId);
+      if (result.error) {
+        setError(result.error);
+        return;
+      }
+      if (result.retro) setRetro(result.retro);
+      onRetroCreated?.();
+    } finally {
+      setGenerating(false);
+    }
+  };
+
+  return (
+    <section className="overview-section event-retro">
+      <div className="event-retro-header">
+        <h3 className="overview-section-title">
+          <ClipboardCheck size={16} />
+          Retrospective
+        </h3>
+        {isElectron() && (retro || !loading) && (
+          <button
+            type="button"
+            className={`${retro ? "btn-secondary" : "btn-primary"} btn-sm`}
+            onClick={handleGenerate}
+            disabled={generating}
+          >
+            {generating ? <Loader size={13} className="spin" /> : <RefreshCw size={13} />}
+            {generating ? "Analysing event…" : retro ? "Regenerate" : "Generate retro"}
+          </button>
+        )}
+      </div>
+
+      {error && <p className="approval-error">{error}</p>}
+
+      {!isElectron() ? (
+        <p className="event-retro-empty">Retrospectives are only available in the Electron desktop app.</p>
+      ) : loading ? (
+        <p className="event-retro-empty">
+          <Loader size={13} className="spin" /> Loading retrospective…
+        </p>
+      ) : retro ? (
+        <>
+          <div className="event-retro-content">
+            <ReactMarkdown>{retro.content}</ReactMarkdown>
+          </div>
+          <p className="event-retro-meta">Generated {new Date(retro.updatedAt).toLocaleString()}</p>
+        </>
+      ) : (
+        <p className="event-retro-empty">
+          No retro yet. Generate one to review task completion, attendance against your goals,
+          what went well, what didn't and the blockers that kept coming up.
+        </p>
+      )}
+    </section>
+  );
+}
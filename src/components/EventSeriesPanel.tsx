@@ -0,0 +1,113 @@
+import { useState } from "react";
+import { Repeat, Pause, Play, RefreshCw } from "lucide-react";
+import { seriesRuleLabel, seriesStats } from "../lib/series";
+import { templateFromEvent } from "../lib/templates";
+import type { EventSeries, PlannerEvent } from "../types";
+
+/**
+ * EventSeriesPanelProps -> Derived from `Event` + `Series` + `Panel` + `Props`.
+ */
+interface EventSeriesPanelProps {
+  /** event -> The occurrence being viewed */
+  event: PlannerEvent;
+  /** series -> The series the event belongs to */
+  series: EventSeries;
+  /** allEvents -> All events, for stats across the series' occurrences */
+  allEvents: PlannerEvent[];
+  /** onUpdateSeries -> Save a change to the series (errors are shown in the panel); omitted when the user may not */
+  onUpdateSeries?: (updates: Partial<EventSeries>) => Promise<void>;
+}
+
+/**
+ * EventSeriesPanel -> Series an occurrence belongs to: its rule, stats across occurrences,
+ * and pausing the series or making this event's details and tasks the plan for new occurrences.
+ */
+export default function EventSeriesPanel({ event, series, allEvents, onUpdateSeries }: EventSeriesPanelProps) {
+  const [pending, setPending] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [planUpdated, setPlanUpdated] = useState(false);
+  const stats = seriesStats(series, allEvents);
+  const movedFrom =
+    event.occurrenceDate && event.formData.eventDate && event.formData.eventDate !== event.occurrenceDate
+      ? event.occurrenceDate
+      : null;
+
+  const save = async (updates: Partial<EventSeries>) => {
+    if (!onUpdateSeries) return false;
+    setPending(true);
+    setError(null);
+    try {
+      await onUpdateSeries(updates);
+      return true;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+      return false;
+    } finally {
+      setPending(false);
+    }
+  };
+
+  const handleUsePlan = async () => {
+    if (await save(templateFromEvent(event))) setPlanUpdated(true);
+  };
+
+  return (
+    <section className="overview-section series-panel">
+      <div className="collaborators-header">
+        <h3 className="overview-section-title">
+          <Repeat size={16} />
+          Recurring Series
+        </h3>
+        {onUpdateSeries && (
+          <div className="series-panel-actions">
+            <button type="button" className="btn-secondary" disabled={pending} onClick={handleUsePlan}>
+              <RefreshCw size={14} />
+              Use as Series Plan
+            </button>
+            <button type="button" className="btn-secondary" disabled={pending} onClick={() => save({ active: !series.active })}>
+              {series.active ? <Pause size={14} /> : <Play size={14} />}
+              {series.active ? "Pause Series" : "Resume Series"}
+            </button>
+          </div>
+        )}
+      </div>
+      <p className="series-panel-rule">
+        <strong>{series.name}</strong> · {seriesRuleLabel(series)}
+        {!series.active && <span className="series-paused-badge">Paused</span>}
+      </p>
+      {movedFrom && <p className="form-hint">Moved from {movedFrom}; other occurrences keep their dates.</p>}
+      <div className="overview-grid">
+        <div className="overview-item">
+          <div className="overview-item-content">
+            <span className="overview-label">Occurrences</span>
+            <span className="overview-value">
+              {stats.occurrences} ({stats.past} past, {stats.upcoming} upcoming)
+            </span>
+          </div>
+        </div>
+        <div className="overview-item">
+          <div className="overview-item-content">
+            <span className="overview-label">Next</span>
+            <span className="overview-value">{stats.nextDate ?? "None scheduled"}</span>
+          </div>
+        </div>
+        <div className="overview-item">
+          <div className="overview-item-content">
+            <span className="overview-label">Tasks Done</span>
+            <span className="overview-value">{stats.taskCompletionPct != null ? `${stats.taskCompletionPct}%` : "No tasks"}</span>
+          </div>
+        </div>
+        <div className="overview-item">
+          <div className="overview-item-content">
+            <span className="overview-label">Average Guests</span>
+            <span className="overview-value">{stats.averageGuests ?? "Not set"}</span>
+          </div>
+        </div>
+      </div>
+      {planUpdated && (
+        <p className="form-hint">New occurrences will start from this event's details and tasks.</p>
+      )}
+      {error && <p className="approval-error">{error}</p>}
+    </section>
+  );
+}
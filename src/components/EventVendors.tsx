@@ -0,0 +1,194 @@
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { ExternalLink, Plus, Star, X } from "lucide-react";
+import { fetchVendors, linkVendorToEvent, unlinkVendor } from "../lib/eventsDb";
+import { categoryLabel, formatPriceRange, suggestVendors } from "../lib/vendors";
+import { onSyncPulled, onVendorsChanged, syncNow } from "../lib/electronBridge";
+import type { PlannerEvent, Vendor } from "../types";
+
+/**
+ * EventVendorsProps -> Derived from `Event` + `Vendors` + `Props`.
+ */
+interface EventVendorsProps {
+  /** event -> Event whose vendors are shown */
+  event: PlannerEvent;
+  /** allEvents -> All events, to rank vendors used at linked events higher */
+  allEvents: PlannerEvent[];
+  /** canEdit -> Whether the user may add vendors to the event or remove them */
+  canEdit: boolean;
+}
+
+/**
+ * EventVendors -> Vendors from the shared directory used for this event (and the task each
+ * is for), plus vendors from past events suggested for it. Reloads when an agent saves a vendor.
+ */
+export default function EventVendors({ event, allEvents, canEdit }: EventVendorsProps) {
+  const eventUuid = event.eventUuid;
+  const [vendors, setVendors] = useState<Vendor[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [pickedId, setPickedId] = useState("");
+
+  const load = useCallback(async () => {
+    try {
+      setVendors(await fetchVendors());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  }, []);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  // Agent writes go to Supabase; pull them into the local database, then reload
+  useEffect(() => {
+    const unsubPulled = onSyncPulled(load);
+    const unsubChanged = onVendorsChanged(() => {
+      syncNow().then(load);
+    });
+    return () => {
+      unsubPulled();
+      unsubChanged();
+    };
+  }, [load]);
+
+  const used = useMemo(
+    () =>
+      vendors.flatMap((vendor) =>
+        vendor.links.filter((l) => l.eventUuid === eventUuid).map((link) => ({ vendor, link }))
+      ),
+    [vendors, eventUuid]
+  );
+  const suggestions = useMemo(() => suggestVendors(vendors, event, allEvents), [vendors, event, allEvents]);
+  const others = useMemo(
+    () => vendors.filter((v) => !v.links.some((l) => l.eventUuid === eventUuid)),
+    [vendors, eventUuid]
+  );
+
+  /** save -> Run one change, then reload; errors are shown instead of thrown. */
+  const save = async (change: () => Promise<unknown>) => {
+    setError(null);
+    try {
+      await change();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    }
+    await load();
+  };
+
+  if (!eventUuid) return null;
+
+  return (
+    <>
+      {error && <p className="approval-error">{error}</p>}
+
+      {used.length === 0 ? (
+        <p className="form-hint">
+          No vendors yet. Add them from the vendor directory, or let the Venue & Catering and Entertainment & Logistics
+          agents save the ones they book.
+        </p>
+      ) : (
+        <ul className="vendor-list">
+          {used.map(({ vendor, link }) => {
+            const task = link.taskId ? event.tasks?.find((t) => t.id === link.taskId) : undefined;
+            return (
+              <li key={link.id} className="vendor-row">
+                <div className="vendor-card-header">
+                  <span className="vendor-name">{vendor.name}</span>
+                  {vendor.categories.map((c) => (
+                    <span key={c} className="vendor-category-badge">
+                      {categoryLabel(c)}
+                    </span>
+                  ))}
+                  {link.source === "agent" && <span className="guest-source-badge">agent</span>}
+                  {canEdit && (
+                    <div className="vendor-card-actions">
+                      <button
+                        type="button"
+                        className="btn-remove"
+                        title="Remove from this event"
+                        onClick={() => save(() => unlinkVendor(link.id))}
+                      >
+                        <X size={13} />
+                      </button>
+                    </div>
+                  )}
+                </div>
+                <div className="vendor-meta">
+                  {task && <span>For: {task.title}</span>}
+                  {formatPriceRange(vendor) && <span>{formatPriceRange(vendor)}</span>}
+                  {vendor.email && <a href={`mailto:${vendor.email}`} className="overview-link">{vendor.email}</a>}
+                  {vendor.phone && <span>{vendor.phone}</span>}
+                  {vendor.website && (
+                    <a href={vendor.website} target="_blank" rel="noopener noreferrer" className="overview-link">
+                      Website <ExternalLink size={11} />
+                    </a>
+                  )}
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+
+      {canEdit && suggestions.length > 0 && (
+        <div className="vendor-suggestions">
+          <h4>Suggested from past events</h4>
+          <ul className="vendor-list">
+            {suggestions.map(({ vendor, reasons }) => (
+              <li key={vendor.id} className="vendor-row">
+                <div className="vendor-card-header">
+                  <span className="vendor-name">{vendor.name}</span>
+                  {vendor.rating && (
+                    <span className="vendor-rating">
+                      <Star size={12} /> {vendor.rating}
+                    </span>
+                  )}
+                  <div className="vendor-card-actions">
+                    <button
+                      type="button"
+                      className="btn-secondary btn-sm"
+                      onClick={() => save(() => linkVendorToEvent(vendor.id, eventUuid))}
+                    >
+                      <Plus size={13} /> Use
+                    </button>
+                  </div>
+                </div>
+                <div className="vendor-meta">
+                  <span>{reasons.join(" · ")}</span>
+                  {formatPriceRange(vendor) && <span>{formatPriceRange(vendor)}</span>}
+                </div>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {canEdit && others.length > 0 && (
+        <div className="add-collaborator-form">
+          <select value={pickedId} onChange={(e) => setPickedId(e.target.value)}>
+            <option value="">Add a vendor from the directory…</option>
+            {others.map((v) => (
+              <option key={v.id} value={v.id}>
+                {v.name}
+                {v.categories.length > 0 ? ` (${v.categories.map(categoryLabel).join(", ")})` : ""}
+              </option>
+            ))}
+          </select>
+          <button
+            type="button"
+            className="btn-primary"
+            disabled={!pickedId}
+            onClick={() =>
+              save(async () => {
+                await linkVendorToEvent(pickedId, eventUuid);
+                setPickedId("");
+              })
+            }
+          >
+            Add
+          </button>
+        </div>
+      )}
+    </>
+  );
+}
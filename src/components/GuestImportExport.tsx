@@ -0,0 +1,263 @@
+import { useMemo, useRef, useState } from "react";
+import { Download, FileUp, Loader } from "lucide-react";
+import { importGuests } from "../lib/eventsDb";
+import { RSVP_STATUS_LABELS } from "../lib/guests";
+import {
+  GUEST_EXPORT_PRESETS,
+  GUEST_IMPORT_FIELDS,
+  guessColumnMapping,
+  guestsForExport,
+  guestsFromCsv,
+  guestsToCsv,
+  parseCsv,
+  parseVCards,
+  planGuestImport,
+  type GuestColumnMapping,
+  type GuestExportPreset,
+  type GuestImportField,
+  type ImportedGuest,
+} from "../lib/guestImport";
+import { exportGuestsCsv, isElectron, pickGuestImportFile } from "../lib/electronBridge";
+import type { Guest, PlannerEvent } from "../types";
+
+/**
+ * GuestImportExportProps -> Derived from `Guest` + `Import` + `Export` + `Props`.
+ */
+interface GuestImportExportProps {
+  /** event -> Event whose guest list is imported into / exported */
+  event: PlannerEvent;
+  /** guests -> The whole guest list */
+  guests: Guest[];
+  /** filtered -> The guest list as currently filtered (the "As filtered" export) */
+  filtered: Guest[];
+  /** canEdit -> Whether the user may import guests */
+  canEdit: boolean;
+  /** onImported -> Called after an import so the list reloads */
+  onImported: () => Promise<void>;
+}
+
+/** PendingImport -> A file read but not imported yet. CSV files wait on the column mapping. */
+type PendingImport =
+  | { filename: string; format: "csv"; rows: string[][]; mapping: GuestColumnMapping }
+  | { filename: string; format: "vcard"; guests: ImportedGuest[] };
+
+/** PREVIEW_ROWS -> Guests shown in the import preview. */
+const PREVIEW_ROWS = 5;
+
+/**
+ * GuestImportExport -> Guest list import from CSV (with a column-mapping step) or vCard,
+ * de-duplicated by email, and CSV export of the full or a filtered list for venues and
+ * caterers. Uses native file dialogs in Electron and the browser's otherwise.
+ */
+export default function GuestImportExport({ event, guests, filtered, canEdit, onImported }: GuestImportExportProps) {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [pending, setPending] = useState<PendingImport | null>(null);
+  const [importing, setImporting] = useState(false);
+  const [preset, setPreset] = useState<GuestExportPreset>("all");
+  const [message, setMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const parsed = useMemo(() => {
+    if (!pending) return null;
+    const { guests: imported, skipped } =
+      pending.format === "csv" ? guestsFromCsv(pending.rows, pending.mapping) : { guests: pending.guests, skipped: 0 };
+    return { imported, skipped, plan: planGuestImport(imported, guests) };
+  }, [pending, guests]);
+
+  /** readFile -> Turn a picked file into a pending import (vCard by extension or content, CSV otherwise). */
+  const readFile = (filename: string, content: string) => {
+    setMessage(null);
+    setError(null);
+    if (/\.(vcf|vcard)$/i.test(filename) || /^\s*BEGIN:VCARD/i.test(content)) {
+      const cards = parseVCards(content);
+      if (cards.length === 0) setError(`No contacts found in ${filename}.`);
+      else setPending({ filename, format: "vcard", guests: cards });
+      return;
+    }
+    const rows = parseCsv(content);
+    if (rows.length < 2) {
+      setError(`${filename} has no guest rows (the first row must be the column headers).`);
+      return;
+    }
+    setPending({ filename, format: "csv", rows, mapping: guessColumnMapping(rows[0]) });
+  };
+
+  const handlePick = async () => {
+    if (!isElectron()) {
+      fileInputRef.current?.click();
+      return;
+    }
+    const result = await pickGuestImportFile();
+    if (result.error) setError(result.error);
+    else if (!result.cancelled && result.filename != null) readFile(result.filename, result.content ?? "");
+  };
+
+  const handleBrowserFile = async (file: File | undefined) => {
+    if (fileInputRef.current) fileInputRef.current.value = "";
+    if (file) readFile(file.name, await file.text());
+  };
+
+  const setMapping = (field: GuestImportField, value: string) => {
+    if (pending?.format !== "csv") return;
+    const mapping = { ...pending.mapping };
+    if (value === "") delete mapping[field];
+    else mapping[field] = Number(value);
+    setPending({ ...pending, mapping });
+  };
+
+  const handleImport = async () => {
+    if (!event.eventUuid || !parsed) return;
+    setImporting(true);
+    setError(null);
+    try {
+      const result = await importGuests(event.eventUuid, guests, parsed.imported);
+      setMessage(
+        `Imported ${pending?.filename}: ${result.added} added, ${result.updated} updated` +
+          (result.duplicates ? `, ${result.duplicates} duplicate row(s) merged` : "") +
+          (parsed.skipped ? `, ${parsed.skipped} row(s) without a name or email skipped` : "") +
+          "."
+      );
+      setPending(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setImporting(false);
+      await onImported();
+    }
+  };
+
+  const handleExport = async () => {
+    setMessage(null);
+    setError(null);
+    const rows = guestsForExport(guests, preset, filtered);
+    if (rows.length === 0) {
+      setError("No guests to export.");
+      return;
+    }
+    const csv = guestsToCsv(rows);
+    const slug = (event.formData.eventReason || "event").toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "");
+    const filename = `${slug || "event"}-guests${preset === "all" ? "" : `-${preset}`}.csv`;
+
+    if (!isElectron()) {
+      const url = URL.createObjectURL(new Blob([csv], { type: "text/csv;charset=utf-8" }));
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = filename;
+      link.click();
+      URL.revokeObjectURL(url);
+      setMessage(`Exported ${rows.length} guest(s).`);
+      return;
+    }
+    const result = await exportGuestsCsv(filename, csv);
+    if (result.error) setError(result.error);
+    else if (result.success) setMessage(`Exported ${rows.length} guest(s) to ${result.filePath}.`);
+  };
+
+  const headers = pending?.format === "csv" ? pending.rows[0] : [];
+
+  return (
+    <section className="overview-section">
+      <h3 className="overview-section-title">Import &amp; Export</h3>
+      <div className="guest-file-actions">
+        {canEdit && (
+          <button type="button" className="btn-secondary" onClick={handlePick} disabled={importing}>
+            <FileUp size={14} /> Import CSV / vCard
+          </button>
+        )}
+        <div className="guest-export">
+          <select value={preset} onChange={(e) => setPreset(e.target.value as GuestExportPreset)}>
+            {GUEST_EXPORT_PRESETS.map((p) => (
+              <option key={p.id} value={p.id}>
+                {p.label} ({guestsForExport(guests, p.id, filtered).length})
+              </option>
+            ))}
+          </select>
+          <button type="button" className="btn-secondary" onClick={handleExport}>
+            <Download size={14} /> Export CSV
+          </button>
+        </div>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".csv,.vcf,.vcard,text/csv,text/vcard"
+          hidden
+          onChange={(e) => handleBrowserFile(e.target.files?.[0])}
+        />
+      </div>
+
+      {pending && parsed && (
+        <div className="guest-import-review">
+          <p className="form-hint">
+            {pending.filename}: {parsed.plan.add.length} new, {parsed.plan.update.length} already on the list (their
+            details and RSVP are updated)
+            {parsed.plan.duplicates > 0 && `, ${parsed.plan.duplicates} duplicate email(s) merged`}
+            {parsed.skipped > 0 && `, ${parsed.skipped} row(s) without a name or email skipped`}.
+          </p>
+
+          {pending.format === "csv" && (
+            <div className="guest-import-mapping">
+              {GUEST_IMPORT_FIELDS.map(({ field, label }) => (
+                <label key={field}>
+                  {label}
+                  <select value={pending.mapping[field] ?? ""} onChange={(e) => setMapping(field, e.target.value)}>
+                    <option value="">Not imported</option>
+                    {headers.map((header, index) => (
+                      <option key={index} value={index}>
+                        {header || `Column ${index + 1}`}
+                      </option>
+                    ))}
+                  </select>
+                </label>
+              ))}
+            </div>
+          )}
+
+          <table className="usage-table">
+            <thead>
+              <tr>
+                <th>Name</th>
+                <th>Email</th>
+                <th>RSVP</th>
+                <th>Dietary needs</th>
+              </tr>
+            </thead>
+            <tbody>
+              {parsed.imported.slice(0, PREVIEW_ROWS).map((guest, index) => (
+                <tr key={index}>
+                  <td>{guest.name}</td>
+                  <td>{guest.email ?? ""}</td>
+                  <td>
+                    {guest.status ? RSVP_STATUS_LABELS[guest.status] : ""}
+                    {guest.plusOnes ? ` +${guest.plusOnes}` : ""}
+                  </td>
+                  <td>{guest.dietaryNeeds ?? ""}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          {parsed.imported.length > PREVIEW_ROWS && (
+            <p className="form-hint">…and {parsed.imported.length - PREVIEW_ROWS} more.</p>
+          )}
+
+          <div className="guest-file-actions">
+            <button
+              type="button"
+              className="btn-primary"
+              onClick={handleImport}
+              disabled={importing || parsed.imported.length === 0}
+            >
+              {importing && <Loader size={14} className="spin" />}
+              Import {parsed.plan.add.length + parsed.plan.update.length} guest(s)
+            </button>
+            <button type="button" className="btn-secondary" onClick={() => setPending(null)} disabled={importing}>
+              Cancel
+            </button>
+          </div>
+        </div>
+      )}
+
+      {message && <p className="form-hint">{message}</p>}
+      {error && <p className="approval-error">{error}</p>}
+    </section>
+  );
+}
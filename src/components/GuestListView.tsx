@@ -0,0 +1,412 @@
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { Download, Loader, Search, UserPlus } from "lucide-react";
+import {
+  addEventGuest,
+  fetchEventGuests,
+  importLumaGuests,
+  removeEventGuest,
+  setGuestRsvp,
+  updateEventGuest,
+} from "../lib/eventsDb";
+import {
+  RSVP_STATUSES,
+  RSVP_STATUS_LABELS,
+  filterGuests,
+  guestHeadcount,
+  headcountTargets,
+  rsvpStatusOf,
+  type GuestFilter,
+} from "../lib/guests";
+import { getLumaRsvps, isElectron, onGuestsChanged, onSyncPulled, syncNow } from "../lib/electronBridge";
+import type { Guest, PlannerEvent, RsvpStatus } from "../types";
+import GuestImportExport from "./GuestImportExport";
+
+/**
+ * GuestListViewProps -> Derived from `Guest` + `List` + `View` + `Props`.
+ */
+interface GuestListViewProps {
+  /** event -> Event whose guest list is shown */
+  event: PlannerEvent;
+  /** canEdit -> Whether the user may add guests, record RSVPs and import from Luma */
+  canEdit: boolean;
+}
+
+/** GuestDraft -> The add-guest form. */
+interface GuestDraft {
+  name: string;
+  email: string;
+  phone: string;
+  dietaryNeeds: string;
+  status: RsvpStatus;
+  plusOnes: number;
+}
+
+const EMPTY_DRAFT: GuestDraft = { name: "", email: "", phone: "", dietaryNeeds: "", status: "invited", plusOnes: 0 };
+
+/** LumaImportSummary -> What the last Luma import changed. */
+interface LumaImportSummary {
+  added: number;
+  updated: number;
+  unchanged: number;
+  missing: Guest[];
+}
+
+/**
+ * GuestListView -> An event's guest list (guests / rsvps tables): headcount against the
+ * planned guest count and attendance target, filters, RSVP editing, Luma import and
+ * CSV / vCard import and CSV export (GuestImportExport).
+ * Reloads when the Guests agent changes the list.
+ */
+export default function GuestListView({ event, canEdit }: GuestListViewProps) {
+  const eventUuid = event.eventUuid;
+  const [guests, setGuests] = useState<Guest[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [filter, setFilter] = useState<GuestFilter>({ status: "all", query: "" });
+  const [showAdd, setShowAdd] = useState(false);
+  const [draft, setDraft] = useState<GuestDraft>(EMPTY_DRAFT);
+  const [lumaEventId, setLumaEventId] = useState("");
+  const [importing, setImporting] = useState(false);
+  const [importSummary, setImportSummary] = useState<LumaImportSummary | null>(null);
+
+  const load = useCallback(async () => {
+    if (!eventUuid) return;
+    try {
+      setGuests(await fetchEventGuests(eventUuid));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setLoading(false);
+    }
+  }, [eventUuid]);
+
+  useEffect(() => {
+    setLoading(true);
+    load();
+  }, [load]);
+
+  // Agent writes go to Supabase; pull them into the local database, then reload
+  useEffect(() => {
+    const unsubPulled = onSyncPulled(load);
+    const unsubChanged = onGuestsChanged(({ evtId }) => {
+      if (evtId === event.evtId || evtId === eventUuid) syncNow().then(load);
+    });
+    return () => {
+      unsubPulled();
+      unsubChanged();
+    };
+  }, [event.evtId, eventUuid, load]);
+
+  const headcount = useMemo(() => guestHeadcount(guests), [guests]);
+  const targets = headcountTargets(event.formData);
+  const target = targets.attendanceTarget ?? targets.guestCount;
+  const visible = filterGuests(guests, filter);
+
+  /** save -> Run one change, then reload; errors are shown instead of thrown. */
+  const save = async (change: () => Promise<unknown>) => {
+    setError(null);
+    try {
+      await change();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    }
+    await load();
+  };
+
+  const handleAdd = () => {
+    const email = draft.email.trim().toLowerCase();
+    if (!eventUuid || !draft.name.trim()) return;
+    if (email && guests.some((g) => g.email === email)) {
+      setError(`${email} is already on the guest list.`);
+      return;
+    }
+    save(async () => {
+      await addEventGuest(
+        eventUuid,
+        { name: draft.name, email, phone: draft.phone, dietaryNeeds: draft.dietaryNeeds },
+        { status: draft.status, plusOnes: draft.plusOnes }
+      );
+      setDraft(EMPTY_DRAFT);
+      setShowAdd(false);
+    });
+  };
+
+  const handleImport = async () => {
+    if (!eventUuid || !lumaEventId.trim()) return;
+    setImporting(true);
+    setError(null);
+    setImportSummary(null);
+    try {
+      const result = await getLumaRsvps(event.evtId, lumaEventId.trim());
+      if (result.error || !result.guests) {
+        setError(result.error ?? "Could not load Luma registrations.");
+        return;
+      }
+      setImportSummary(await importLumaGuests(eventUuid, guests, result.guests));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setImporting(false);
+      await load();
+    }
+  };
+
+  if (!eventUuid) {
+    return (
+      <div className="task-manager-placeholder">
+        <p>The guest list is available once the event is saved.</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="event-overview guest-list">
+      <section className="overview-section">
+        <h3 className="overview-section-title">Headcount</h3>
+        <div className="overview-grid">
+          <div className="overview-item">
+            <div className="overview-item-content">
+              <span className="overview-label">Expected</span>
+              <span className="overview-value">
+                {headcount.expected}
+                {headcount.plusOnes > 0 && ` (${headcount.byStatus.going} going + ${headcount.plusOnes} plus-ones)`}
+              </span>
+            </div>
+          </div>
+          <div className="overview-item">
+            <div className="overview-item-content">
+              <span className="overview-label">Planned Guests</span>
+              <span className="overview-value">{targets.guestCount ?? "Not set"}</span>
+            </div>
+          </div>
+          <div className="overview-item">
+            <div className="overview-item-content">
+              <span className="overview-label">Attendance Target</span>
+              <span className="overview-value">{targets.attendanceTarget ?? "Not set"}</span>
+            </div>
+          </div>
+          <div className="overview-item">
+            <div className="overview-item-content">
+              <span className="overview-label">Invited</span>
+              <span className="overview-value">{headcount.total}</span>
+            </div>
+          </div>
+        </div>
+        {target != null && (
+          <div className="guest-headcount-progress">
+            <div className="task-ai-progress-bar">
+              <div
+                className="task-ai-progress-fill"
+                style={{ width: `${Math.min(100, Math.round((headcount.expected / target) * 100))}%` }}
+              />
+            </div>
+            <span className="task-ai-progress-text">
+              {headcount.expected} of {target} {targets.attendanceTarget != null ? "attendance target" : "planned guests"}
+              {headcount.expected > target && ` (${headcount.expected - target} over)`}
+            </span>
+          </div>
+        )}
+      </section>
+
+      {canEdit && isElectron() && (
+        <section className="overview-section">
+          <h3 className="overview-section-title">Import from Luma</h3>
+          <p className="form-hint">
+            Adds new registrations, updates RSVPs from Luma and lists Luma guests who are no longer registered
+            (they are not removed).
+          </p>
+          <div className="guest-luma-import">
+            <input
+              type="text"
+              placeholder="Luma event ID (evt-...)"
+              value={lumaEventId}
+              onChange={(e) => setLumaEventId(e.target.value)}
+            />
+            <button
+              type="button"
+              className="btn-secondary"
+              onClick={handleImport}
+              disabled={importing || !lumaEventId.trim()}
+            >
+              {importing ? <Loader size={14} className="spin" /> : <Download size={14} />}
+              Import
+            </button>
+          </div>
+          {importSummary && (
+            <p className="form-hint">
+              {importSummary.added} added, {importSummary.updated} updated, {importSummary.unchanged} unchanged.
+              {importSummary.missing.length > 0 &&
+                ` No longer registered on Luma: ${importSummary.missing.map((g) => g.name).join(", ")}.`}
+            </p>
+          )}
+        </section>
+      )}
+
+      <GuestImportExport event={event} guests={guests} filtered={visible} canEdit={canEdit} onImported={load} />
+
+      <section className="overview-section">
+        <div className="collaborators-header">
+          <h3 className="overview-section-title">Guests</h3>
+          {canEdit && (
+            <button type="button" className="btn-secondary" onClick={() => setShowAdd(!showAdd)}>
+              {showAdd ? "Cancel" : <><UserPlus size={14} /> Add Guest</>}
+            </button>
+          )}
+        </div>
+
+        {showAdd && (
+          <div className="add-collaborator-form">
+            <input
+              type="text"
+              placeholder="Name"
+              value={draft.name}
+              onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+            />
+            <input
+              type="email"
+              placeholder="Email (optional)"
+              value={draft.email}
+              onChange={(e) => setDraft({ ...draft, email: e.target.value })}
+            />
+            <input
+              type="tel"
+              placeholder="Phone (optional)"
+              value={draft.phone}
+              onChange={(e) => setDraft({ ...draft, phone: e.target.value })}
+            />
+            <input
+              type="text"
+              placeholder="Dietary needs (optional)"
+              value={draft.dietaryNeeds}
+              onChange={(e) => setDraft({ ...draft, dietaryNeeds: e.target.value })}
+            />
+            <div className="guest-add-rsvp">
+              <select value={draft.status} onChange={(e) => setDraft({ ...draft, status: e.target.value as RsvpStatus })}>
+                {RSVP_STATUSES.map((status) => (
+                  <option key={status} value={status}>
+                    {RSVP_STATUS_LABELS[status]}
+                  </option>
+                ))}
+              </select>
+              <label>
+                Plus-ones
+                <input
+                  type="number"
+                  min={0}
+                  value={draft.plusOnes}
+                  onChange={(e) => setDraft({ ...draft, plusOnes: Math.max(0, Number(e.target.value) || 0) })}
+                />
+              </label>
+            </div>
+            <button type="button" className="btn-primary" onClick={handleAdd} disabled={!draft.name.trim()}>
+              Add
+            </button>
+          </div>
+        )}
+        {error && <p className="approval-error">{error}</p>}
+
+        <div className="guest-filters">
+          <div className="guest-status-filters">
+            {(["all", ...RSVP_STATUSES] as const).map((status) => (
+              <button
+                key={status}
+                type="button"
+                className={`view-mode-btn ${filter.status === status ? "active" : ""}`}
+                onClick={() => setFilter({ ...filter, status })}
+              >
+                {status === "all" ? "All" : RSVP_STATUS_LABELS[status]}
+                <span className="guest-filter-count">
+                  {status === "all" ? headcount.total : headcount.byStatus[status]}
+                </span>
+              </button>
+            ))}
+          </div>
+          <label className="guest-search">
+            <Search size={14} />
+            <input
+              type="search"
+              placeholder="Search name, email or dietary needs"
+              value={filter.query}
+              onChange={(e) => setFilter({ ...filter, query: e.target.value })}
+            />
+          </label>
+        </div>
+
+        {loading ? (
+          <p className="form-hint">Loading guests...</p>
+        ) : visible.length === 0 ? (
+          <p className="form-hint">
+            {guests.length === 0 ? "No guests yet. Add them here or ask the Guests agent." : "No guests match."}
+          </p>
+        ) : (
+          <div className="collaborators-list">
+            {visible.map((guest) => (
+              <div key={guest.id} className="collaborator-item guest-item">
+                <div className="collaborator-info">
+                  <div className="collaborator-name">
+                    {guest.name}
+                    {guest.source !== "manual" && <span className="guest-source-badge">{guest.source}</span>}
+                  </div>
+                  {(guest.email || guest.phone) && (
+                    <div className="collaborator-email">{[guest.email, guest.phone].filter(Boolean).join(" · ")}</div>
+                  )}
+                  {canEdit ? (
+                    <input
+                      key={guest.dietaryNeeds ?? ""}
+                      type="text"
+                      className="guest-dietary-input"
+                      placeholder="Dietary needs"
+                      defaultValue={guest.dietaryNeeds ?? ""}
+                      onBlur={(e) => {
+                        if (e.target.value.trim() !== (guest.dietaryNeeds ?? "")) {
+                          save(() => updateEventGuest(guest.id, { dietaryNeeds: e.target.value }));
+                        }
+                      }}
+                    />
+                  ) : (
+                    guest.dietaryNeeds && <div className="collaborator-role">{guest.dietaryNeeds}</div>
+                  )}
+                </div>
+                {canEdit ? (
+                  <div className="collaborator-actions">
+                    <select
+                      value={rsvpStatusOf(guest)}
+                      onChange={(e) => save(() => setGuestRsvp(eventUuid, guest, { status: e.target.value as RsvpStatus }))}
+                    >
+                      {RSVP_STATUSES.map((status) => (
+                        <option key={status} value={status}>
+                          {RSVP_STATUS_LABELS[status]}
+                        </option>
+                      ))}
+                    </select>
+                    <label className="guest-plus-ones" title="Plus-ones">
+                      +
+                      <input
+                        key={guest.rsvp?.plusOnes ?? 0}
+                        type="number"
+                        min={0}
+                        defaultValue={guest.rsvp?.plusOnes ?? 0}
+                        onBlur={(e) => {
+                          const plusOnes = Math.max(0, Number(e.target.value) || 0);
+                          if (plusOnes !== (guest.rsvp?.plusOnes ?? 0)) save(() => setGuestRsvp(eventUuid, guest, { plusOnes }));
+                        }}
+                      />
+                    </label>
+                    <button type="button" className="btn-remove" onClick={() => save(() => removeEventGuest(guest.id))}>
+                      Remove
+                    </button>
+                  </div>
+                ) : (
+                  <div className="collaborator-role">
+                    {RSVP_STATUS_LABELS[rsvpStatusOf(guest)]}
+                    {guest.rsvp?.plusOnes ? ` +${guest.rsvp.plusOnes}` : ""}
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </section>
+    </div>
+  );
+}
@@ -0,0 +1,476 @@
+import { useState, useEffect, useMemo } from "react";
+import { ArrowLeft, Network, RefreshCw, Loader, EyeOff, Eye, GitMerge, Plus, Search } from "lucide-react";
+import {
+  getKnowledgeGraph,
+  rebuildKnowledgeGraph,
+  queryKnowledge,
+  updateKnowledgeNode,
+  setKnowledgeHidden,
+  mergeKnowledgeNodes,
+  addKnowledgeEdge,
+  isElectron,
+} from "../lib/electronBridge";
+import type { KnowledgeGraphResult } from "../lib/electronBridge";
+import type { ActiveView, AgentId, KnowledgeGraph, KnowledgeInsight, KnowledgeNode, KnowledgeNodeType } from "../types";
+
+/**
+ * KnowledgeGraphViewProps -> Derived from `Knowledge` + `Graph` + `View` + `Props`.
+ */
+interface KnowledgeGraphViewProps {
+  /** onNavigate -> Navigation callback (back to dashboard) */
+  onNavigate: (view: ActiveView) => void;
+}
+
+/** NODE_TYPE_LABELS -> Display names per node type, in filter order. */
+const NODE_TYPE_LABELS: Record<KnowledgeNodeType, string> = {
+  event: "Events",
+  vendor: "Vendors",
+  person: "People",
+  blocker: "Blockers",
+  lesson: "Lessons",
+  topic: "Topics",
+  task: "Tasks",
+  document: "Documents",
+};
+
+/** PREVIEW_AGENTS -> Agent groups offered in the "what would the agent see" preview. */
+const PREVIEW_AGENTS: { id: AgentId; label: string }[] = [
+  { id: "guests", label: "Guests" },
+  { id: "venue-catering", label: "Venue & Catering" },
+  { id: "entertainment-logistics", label: "Entertainment & Logistics" },
+  { id: "general", label: "General" },
+];
+
+/** HIDDEN_PROPS -> Node properties shown in their own editors (or not at all). */
+const HIDDEN_PROPS = ["rating", "notes"];
+
+/** formatPropValue -> Short text for a node property value. */
+function formatPropValue(value: unknown): string {
+  if (value == null || value === "") return "—";
+  if (typeof value === "number" && !Number.isInteger(value)) return value.toFixed(2);
+  if (typeof value === "object") return JSON.stringify(value);
+  return String(value);
+}
+
+/**
+ * KnowledgeGraphView -> Browser for the cross-event knowledge graph that agents and the
+ * planner draw on. Lets the user inspect entities and relationships and correct them:
+ * rename, retype, rate vendors, hide wrong items, merge duplicates and add missing links.
+ */
+export default function KnowledgeGraphView({ onNavigate }: KnowledgeGraphViewProps) {
+  const [graph, setGraph] = useState<KnowledgeGraph | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [rebuilding, setRebuilding] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [typeFilter, setTypeFilter] = useState<KnowledgeNodeType | "all">("all");
+  const [search, setSearch] = useState("");
+  const [showHidden, setShowHidden] = useState(false);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+
+  // Selected node editors
+  const [labelDraft, setLabelDraft] = useState("");
+  const [notesDraft, setNotesDraft] = useState("");
+  const [mergeTarget, setMergeTarget] = useState("");
+  const [edgeTarget, setEdgeTarget] = useState("");
+  const [edgeType, setEdgeType] = useState("about");
+
+  // Agent context preview
+  const [previewText, setPreviewText] = useState("");
+  const [previewAgent, setPreviewAgent] = useState<AgentId>("venue-catering");
+  const [previewInsights, setPreviewInsights] = useState<KnowledgeInsight[] | null>(null);
+
+  useEffect(() => {
+    if (!isElectron()) return;
+    setLoading(true);
+    getKnowledgeGraph()
+      .then(setGraph)
+      .finally(() => setLoading(false));
+  }, []);
+
+  const nodesById = useMemo(() => new Map((graph?.nodes || []).map((n) => [n.id, n])), [graph]);
+
+  const degree = useMemo(() => {
+    const counts = new Map<string, number>();
+    for (const edge of graph?.edges || []) {
+      if (edge.hidden) continue;
+      counts.set(edge.from, (counts.get(edge.from) || 0) + 1);
+      counts.set(edge.to, (counts.get(edge.to) || 0) + 1);
+    }
+    return counts;
+  }, [graph]);
+
+  const typeCounts = useMemo(() => {
+    const counts: Partial<Record<KnowledgeNodeType, number>> = {};
+    for (const node of graph?.nodes || []) {
+      if (!node.hidden || showHidden) counts[node.type] = (counts[node.type] || 0) + 1;
+    }
+    return counts;
+  }, [graph, showHidden]);
+
+  const visibleNodes = useMemo(() => {
+    const query = search.trim().toLowerCase();
+    return (graph?.nodes || [])
+      .filter((n) => showHidden || !n.hidden)
+      .filter((n) => typeFilter === "all" || n.type === typeFilter)
+      .filter((n) => !query || n.label.toLowerCase().includes(query) || n.id.toLowerCase().includes(query))
+      .sort((a, b) => (degree.get(b.id) || 0) - (degree.get(a.id) || 0) || a.label.localeCompare(b.label));
+  }, [graph, showHidden, typeFilter, search, degree]);
+
+  const selected = selectedId ? nodesById.get(selectedId) ?? null : null;
+  const selectedEdges = useMemo(
+    () => (graph?.edges || []).filter((e) => selected && (e.from === selected.id || e.to === selected.id)),
+    [graph, selected]
+  );
+
+  // Reset the editors when a different node is selected
+  useEffect(() => {
+    setLabelDraft(selected?.label ?? "");
+    setNotesDraft(typeof selected?.props.notes === "string" ? selected.props.notes : "");
+    setMergeTarget("");
+    setEdgeTarget("");
+  }, [selected?.id]);
+
+  /** applyResult -> Take the updated graph from a change, or show its error. */
+  const applyResult = (result: KnowledgeGraphResult) => {
+    setError(result.error ?? null);
+    if (result.graph) setGraph(result.graph);
+  };
+
+  /** replaceNode -> Swap one corrected node into local state. */
+  const replaceNode = (node: KnowledgeNode) => {
+    setGraph((prev) => (prev ? { ...prev, nodes: prev.nodes.map((n) => (n.id === node.id ? node : n)) } : prev));
+  };
+
+  /** handleRebuild -> Re-derive the graph from all events (corrections are kept). */
+  const handleRebuild = async () => {
+    setRebuilding(true);
+    try {
+      applyResult(await rebuildKnowledgeGraph());
+    } finally {
+      setRebuilding(false);
+    }
+  };
+
+  /** handleUpdate -> Save a correction to the selected node. */
+  const handleUpdate = async (updates: Parameters<typeof updateKnowledgeNode>[1]) => {
+    if (!selected) return;
+    const result = await updateKnowledgeNode(selected.id, updates);
+    setError(result.error ?? null);
+    if (result.node) replaceNode(result.node);
+  };
+
+  /** handleMerge -> Fold the selected node into the chosen one and select the survivor. */
+  const handleMerge = async () => {
+    if (!selected || !mergeTarget) return;
+    const result = await mergeKnowledgeNodes(selected.id, mergeTarget);
+    applyResult(result);
+    if (result.success) setSelectedId(mergeTarget);
+  };
+
+  /** handleAddEdge -> Link the selected node to another. */
+  const handleAddEdge = async () => {
+    if (!selected || !edgeTarget) return;
+    applyResult(await addKnowledgeEdge(selected.id, edgeTarget, edgeType));
+    setEdgeTarget("");
+  };
+
+  /** handlePreview -> Run the same history query an agent gets for this text. */
+  const handlePreview = async () => {
+    setPreviewInsights(await queryKnowledge(previewText, previewAgent));
+  };
+
+  const rating = typeof selected?.props.rating === "number" ? selected.props.rating : null;
+  const otherNodes = (graph?.nodes || []).filter((n) => n.id !== selected?.id && !n.hidden);
+
+  return (
+    <div className="knowledge-view">
+      <div className="settings-header">
+        <button className="settings-back-btn" onClick={() => onNavigate({ kind: "dashboard" })}>
+          <ArrowLeft size={18} />
+        </button>
+        <h1>Knowledge Graph</h1>
+        <div className="knowledge-header-actions">
+          {graph?.builtAt && (
+            <span className="knowledge-built-at">Built {new Date(graph.builtAt).toLocaleString()}</span>
+          )}
+          <button type="button" className="btn-secondary btn-sm" onClick={handleRebuild} disabled={rebuilding || !isElectron()}>
+            {rebuilding ? <Loader size={13} className="spin" /> : <RefreshCw size={13} />}
+            {rebuilding ? "Rebuilding…" : "Rebuild from events"}
+          </button>
+        </div>
+      </div>
+
+      <p className="settings-description">
+        What agents remember across events: vendors, people, recurring blockers, lessons from retros and how far
+        ahead tasks were done. Agents and the planner are given the relevant parts. Fix anything wrong here;
+        corrections survive rebuilds.
+      </p>
+
+      {error && <p className="approval-error">{error}</p>}
+
+      {!isElectron() ? (
+        <p className="knowledge-empty">The knowledge graph is only available in the Electron desktop app.</p>
+      ) : loading ? (
+        <p className="knowledge-empty">
+          <Loader size={13} className="spin" /> Loading…
+        </p>
+      ) : !graph || graph.nodes.length === 0 ? (
+        <p className="knowledge-empty">
+          <Network size={16} /> Nothing here yet. Rebuild to learn from your events' tasks, retros, collaborators,
+          documents and email/Luma activity.
+        </p>
+      ) : (
+        <div className="knowledge-layout">
+          {/* Node list */}
+          <div className="knowledge-list-panel">
+            <div className="knowledge-search">
+              <Search size={14} />
+              <input value={search} onChange={(e) => setSearch(e.target.value)} placeholder="Search entities…" />
+            </div>
+            <div className="knowledge-type-filters">
+              <button
+                type="button"
+                className={`knowledge-type-chip ${typeFilter === "all" ? "active" : ""}`}
+                onClick={() => setTypeFilter("all")}
+              >
+                All
+              </button>
+              {(Object.keys(NODE_TYPE_LABELS) as KnowledgeNodeType[])
+                .filter((type) => typeCounts[type])
+                .map((type) => (
+                  <button
+                    key={type}
+                    type="button"
+                    className={`knowledge-type-chip ${typeFilter === type ? "active" : ""}`}
+                    onClick={() => setTypeFilter(type)}
+                  >
+                    {NODE_TYPE_LABELS[type]} {typeCounts[type]}
+                  </button>
+                ))}
+            </div>
+            <label className="knowledge-show-hidden">
+              <input type="checkbox" checked={showHidden} onChange={(e) => setShowHidden(e.target.checked)} />
+              Show hidden
+            </label>
+            <ul className="knowledge-node-list">
+              {visibleNodes.map((node) => (
+                <li key={node.id}>
+                  <button
+                    type="button"
+                    className={`knowledge-node-item ${node.id === selectedId ? "active" : ""} ${node.hidden ? "hidden" : ""}`}
+                    onClick={() => setSelectedId(node.id)}
+                  >
+                    <span className={`knowledge-type-badge ${node.type}`}>{node.type}</span>
+                    <span className="knowledge-node-label">{node.label}</span>
+                    {node.edited && <span className="knowledge-node-flag">edited</span>}
+                    <span className="knowledge-node-degree">{degree.get(node.id) || 0}</span>
+                  </button>
+                </li>
+              ))}
+            </ul>
+          </div>
+
+          {/* Selected node */}
+          <div className="knowledge-detail-panel">
+            {!selected ? (
+              <p className="knowledge-empty">Select an entity to see its relationships.</p>
+            ) : (
+              <>
+                <div className="knowledge-detail-header">
+                  <input
+                    className="knowledge-label-input"
+                    value={labelDraft}
+                    onChange={(e) => setLabelDraft(e.target.value)}
+                    onBlur={() => labelDraft.trim() && labelDraft !== selected.label && handleUpdate({ label: labelDraft })}
+                  />
+                  <select
+                    value={selected.type}
+                    onChange={(e) => handleUpdate({ type: e.target.value as KnowledgeNodeType })}
+                  >
+                    {(Object.keys(NODE_TYPE_LABELS) as KnowledgeNodeType[]).map((type) => (
+                      <option key={type} value={type}>
+                        {type}
+                      </option>
+                    ))}
+                  </select>
+                  <button
+                    type="button"
+                    className="btn-secondary btn-sm"
+                    onClick={async () => applyResult(await setKnowledgeHidden("node", selected.id, !selected.hidden))}
+                  >
+                    {selected.hidden ? <Eye size={13} /> : <EyeOff size={13} />}
+                    {selected.hidden ? "Restore" : "Hide from agents"}
+                  </button>
+                </div>
+                <p className="knowledge-node-id">
+                  {selected.id} · from {selected.sources.length} source{selected.sources.length === 1 ? "" : "s"}
+                </p>
+
+                {(selected.type === "vendor" || selected.type === "person") && (
+                  <div className="knowledge-rating">
+                    <label>
+                      Rating
+                      <select
+                        value={rating ?? ""}
+                        onChange={(e) => handleUpdate({ props: { rating: e.target.value ? Number(e.target.value) : null } })}
+                      >
+                        <option value="">Not rated</option>
+                        {[5, 4, 3, 2, 1].map((value) => (
+                          <option key={value} value={value}>
+                            {value}/5
+                          </option>
+                        ))}
+                      </select>
+                    </label>
+                    <label>
+                      Notes
+                      <input
+                        value={notesDraft}
+                        placeholder="e.g. Great food, late delivery"
+                        onChange={(e) => setNotesDraft(e.target.value)}
+                        onBlur={() =>
+                          notesDraft !== (selected.props.notes ?? "") &&
+                          handleUpdate({ props: { notes: notesDraft.trim() || null } })
+                        }
+                      />
+                    </label>
+                  </div>
+                )}
+
+                <dl className="knowledge-props">
+                  {Object.entries(selected.props)
+                    .filter(([key]) => !HIDDEN_PROPS.includes(key))
+                    .map(([key, value]) => (
+                      <div key={key}>
+                        <dt>{key}</dt>
+                        <dd>{formatPropValue(value)}</dd>
+                      </div>
+                    ))}
+                </dl>
+
+                <h3 className="knowledge-subheading">Relationships</h3>
+                {selectedEdges.length === 0 ? (
+                  <p className="knowledge-empty">No relationships.</p>
+                ) : (
+                  <ul className="knowledge-edge-list">
+                    {selectedEdges.map((edge) => {
+                      const outgoing = edge.from === selected.id;
+                      const other = nodesById.get(outgoing ? edge.to : edge.from);
+                      return (
+                        <li key={edge.id} className={edge.hidden ? "hidden" : ""}>
+                          <span className="knowledge-edge-type">
+                            {outgoing ? `${edge.type} →` : `← ${edge.type}`}
+                          </span>
+                          <button
+                            type="button"
+                            className="knowledge-edge-target"
+                            onClick={() => other && setSelectedId(other.id)}
+                          >
+                            {other ? other.label : outgoing ? edge.to : edge.from}
+                          </button>
+                          <button
+                            type="button"
+                            className="knowledge-edge-toggle"
+                            title={edge.hidden ? "Restore relationship" : "Hide relationship"}
+                            onClick={async () => applyResult(await setKnowledgeHidden("edge", edge.id, !edge.hidden))}
+                          >
+                            {edge.hidden ? <Eye size={13} /> : <EyeOff size={13} />}
+                          </button>
+                        </li>
+                      );
+                    })}
+                  </ul>
+                )}
+
+                <div className="knowledge-actions">
+                  <div className="knowledge-action-row">
+                    <input
+                      className="knowledge-edge-type-input"
+                      value={edgeType}
+                      onChange={(e) => setEdgeType(e.target.value)}
+                      placeholder="relationship"
+                    />
+                    <select value={edgeTarget} onChange={(e) => setEdgeTarget(e.target.value)}>
+                      <option value="">Link to…</option>
+                      {otherNodes.map((n) => (
+                        <option key={n.id} value={n.id}>
+                          {n.type}: {n.label}
+                        </option>
+                      ))}
+                    </select>
+                    <button type="button" className="btn-secondary btn-sm" onClick={handleAddEdge} disabled={!edgeTarget}>
+                      <Plus size={13} />
+                      Add
+                    </button>
+                  </div>
+                  <div className="knowledge-action-row">
+                    <select value={mergeTarget} onChange={(e) => setMergeTarget(e.target.value)}>
+                      <option value="">Merge duplicate into…</option>
+                      {otherNodes
+                        .filter((n) => n.type === selected.type)
+                        .map((n) => (
+                          <option key={n.id} value={n.id}>
+                            {n.label}
+                          </option>
+                        ))}
+                    </select>
+                    <button type="button" className="btn-secondary btn-sm" onClick={handleMerge} disabled={!mergeTarget}>
+                      <GitMerge size={13} />
+                      Merge
+                    </button>
+                  </div>
+                </div>
+              </>
+            )}
+          </div>
+        </div>
+      )}
+
+      {/* What an agent would be told */}
+      {isElectron() && graph && graph.nodes.length > 0 && (
+        <section className="settings-section knowledge-preview">
+          <h2>Preview agent context</h2>
+          <p className="settings-description">
+            Enter a task title to see the past-event notes an agent working on it would get.
+          </p>
+          <div className="knowledge-action-row">
+            <input
+              value={previewText}
+              onChange={(e) => setPreviewText(e.target.value)}
+              onKeyDown={(e) => e.key === "Enter" && handlePreview()}
+              placeholder="e.g. Book catering for 80 guests"
+            />
+            <select value={previewAgent} onChange={(e) => setPreviewAgent(e.target.value as AgentId)}>
+              {PREVIEW_AGENTS.map((agent) => (
+                <option key={agent.id} value={agent.id}>
+                  {agent.label}
+                </option>
+              ))}
+            </select>
+            <button type="button" className="btn-primary btn-sm" onClick={handlePreview}>
+              Preview
+            </button>
+          </div>
+          {previewInsights &&
+            (previewInsights.length === 0 ? (
+              <p className="knowledge-empty">No relevant history for this task.</p>
+            ) : (
+              <ul className="knowledge-insights">
+                {previewInsights.map((insight) => (
+                  <li key={insight.nodeIds.join(",")}>
+                    <button
+                      type="button"
+                      className="knowledge-edge-target"
+                      onClick={() => nodesById.has(insight.nodeIds[0]) && setSelectedId(insight.nodeIds[0])}
+                    >
+                      {insight.text}
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            ))}
+        </section>
+      )}
+    </div>
+  );
+}
@@ -1,16 +1,24 @@
 import Dashboard from "./Dashboard";
 import EventChatView from "./EventChatView";
-import AgentSubTab from "./AgentSubTab";
+import AgentGroupView from "./AgentGroupView";
 import AgentCategoryChatView from "./AgentCategoryChatView";
 import TaskDetailView from "./TaskDetailView";
 import Settings from "./Settings";
 import CalendarView from "./CalendarView";
 import TimelineView from "./TimelineView";
+import KnowledgeGraphView from "./KnowledgeGraphView";
+import VendorDirectoryView from "./VendorDirectoryView";
+import { eventRoleFor, canManageSeries } from "../lib/permissions";
 import type {
   ActiveView,
   PlannerEvent,
   EventFormData,
+  EventSource,
+  EventSeries,
   AccountSettings,
+  ReplanChange,
+  ReplanProposal,
+  TaskSyncConflict,
 } from "../types";
 
 /**
@@ -21,10 +29,12 @@ interface MainContentProps {
   activeView: ActiveView;
   /** eventRegistry -> All events (mock past + user-created) */
   eventRegistry: PlannerEvent[];
+  /** eventSeries -> Recurring series; their occurrences are in eventRegistry */
+  eventSeries: EventSeries[];
   /** accountSettings -> Current account settings */
   accountSettings: AccountSettings;
-  /** onEventCreate -> Callback with form data when a new event is created */
-  onEventCreate: (data: EventFormData) => void;
+  /** onEventCreate -> Callback with form data (the template or past event to copy, and the recurrence rule) when a new event is created */
+  onEventCreate: (data: EventFormData, source?: EventSource, rrule?: string) => void;
   /** onNavigate -> Navigation callback */
   onNavigate: (view: ActiveView) => void;
   /** onNavigateBack -> Go back to the view we were on before opening the event (dashboard/calendar/timeline) */
@@ -33,10 +43,22 @@ interface MainContentProps {
   onUpdateEvent: (evtId: string, updates: Partial<PlannerEvent>) => void;
   /** onDeleteEvent -> Callback to delete an event and navigate away */
   onDeleteEvent: (evtId: string) => void;
-  /** taskSyncInProgress -> True while tasks are syncing to DB; disables toggle/delete to prevent duplicates */
-  taskSyncInProgress?: boolean;
+  /** taskSyncConflicts -> evtId -> task edits that clashed with changes made elsewhere */
+  taskSyncConflicts: Record<string, TaskSyncConflict[]>;
+  /** onDismissTaskSyncConflicts -> Clear an event's conflict notice */
+  onDismissTaskSyncConflicts: (evtId: string) => void;
   /** onUpdateSettings -> Callback to update account settings */
   onUpdateSettings: (settings: AccountSettings) => void;
+  /** replanProposals -> evtId -> pending task changes after event details changed */
+  replanProposals: Record<string, ReplanProposal>;
+  /** onReplanDecision -> Accept / reject (or clear) one proposed change */
+  onReplanDecision: (evtId: string, changeId: string, decision: ReplanChange["decision"]) => void;
+  /** onApplyReplan -> Apply an event's accepted changes */
+  onApplyReplan: (evtId: string) => void;
+  /** onDismissReplan -> Drop an event's proposal */
+  onDismissReplan: (evtId: string) => void;
+  /** onUpdateSeries -> Save a change to a recurring series */
+  onUpdateSeries: (seriesId: string, updates: Partial<EventSeries>) => Promise<void>;
 }
 
 /**
@@ -46,14 +68,21 @@ interface MainContentProps {
 export default function MainContent({
   activeView,
   eventRegistry,
+  eventSeries,
   accountSettings,
   onEventCreate,
   onNavigate,
   onNavigateBack,
   onUpdateEvent,
   onDeleteEvent,
-  taskSyncInProgress,
+  taskSyncConflicts,
+  onDismissTaskSyncConflicts,
   onUpdateSettings,
+  replanProposals,
+  onReplanDecision,
+  onApplyReplan,
+  onDismissReplan,
+  onUpdateSeries,
 }: MainContentProps) {
   // renderView -> Derived from `render` (produce JSX) + `View` (active panel)
   const renderView = () => {
@@ -62,6 +91,7 @@ export default function MainContent({
         return (
           <Dashboard
             pastEvents={eventRegistry}
+            eventSeries={eventSeries}
             accountSettings={accountSettings}
             onSubmit={onEventCreate}
             onNavigate={onNavigate}
@@ -72,6 +102,7 @@ export default function MainContent({
       case "event-chat": {
         const targetEvt = eventRegistry.find((e) => e.evtId === activeView.evtId);
         if (!targetEvt) return <div>Event not found.</div>;
+        const series = eventSeries.find((s) => s.id === targetEvt.seriesId);
         return (
           <EventChatView
             event={targetEvt}
@@ -81,8 +112,20 @@ export default function MainContent({
             onNavigateBack={onNavigateBack}
             onUpdateEvent={(updates) => onUpdateEvent(activeView.evtId, updates)}
             onDeleteEvent={() => onDeleteEvent(activeView.evtId)}
-            taskSyncInProgress={taskSyncInProgress}
+            taskSyncConflicts={taskSyncConflicts[activeView.evtId]}
+            onDismissTaskSyncConflicts={() => onDismissTaskSyncConflicts(activeView.evtId)}
             initialViewMode={activeView.initialViewMode}
+            replanProposal={replanProposals[activeView.evtId]}
+            onReplanDecision={(changeId, decision) => onReplanDecision(activeView.evtId, changeId, decision)}
+            onApplyReplan={() => onApplyReplan(activeView.evtId)}
+            onDismissReplan={() => onDismissReplan(activeView.evtId)}
+            role={eventRoleFor(targetEvt, accountSettings)}
+            series={series}
+            onUpdateSeries={
+              series && canManageSeries(series, accountSettings)
+                ? (updates) => onUpdateSeries(series.id, updates)
+                : undefined
+            }
           />
         );
       }
@@ -91,10 +134,11 @@ export default function MainContent({
         const targetEvt = eventRegistry.find((e) => e.evtId === activeView.evtId);
         if (!targetEvt) return <div>Event not found.</div>;
         return (
-          <AgentSubTab
+          <AgentGroupView
             agentId={activeView.agentId}
             event={targetEvt}
-            onBack={() => onNavigate({ kind: "event-chat", evtId: activeView.evtId })}
+            onNavigate={onNavigate}
+            role={eventRoleFor(targetEvt, accountSettings)}
           />
         );
       }
@@ -141,10 +185,23 @@ export default function MainContent({
           />
         );
 
+      case "knowledge":
+        return <KnowledgeGraphView onNavigate={onNavigate} />;
+
+      case "vendors":
+        return (
+          <VendorDirectoryView
+            events={eventRegistry}
+            accountSettings={accountSettings}
+            onNavigate={onNavigate}
+          />
+        );
+
       case "calendar":
         return (
           <CalendarView
             events={eventRegistry}
+            eventSeries={eventSeries}
             onNavigate={onNavigate}
           />
         );
@@ -0,0 +1,127 @@
+import { RefreshCw, Check, X, Loader } from "lucide-react";
+import { formatDueDateDisplay } from "../lib/dateUtils";
+import type { ReplanChange, ReplanProposal, Task } from "../types";
+
+/**
+ * ReplanPanelProps -> Derived from `Replan` + `Panel` + `Props`.
+ */
+interface ReplanPanelProps {
+  /** proposal -> Pending replanning pass for this event */
+  proposal: ReplanProposal;
+  /** tasks -> Current tasks, to show what each change replaces */
+  tasks: Task[];
+  /** onDecide -> Record accept/reject for one change (clicking the same choice again clears it) */
+  onDecide: (changeId: string, decision: ReplanChange["decision"]) => void;
+  /** onApply -> Apply every accepted change and close the panel */
+  onApply: () => void;
+  /** onDismiss -> Drop the whole proposal without changing tasks */
+  onDismiss: () => void;
+}
+
+/** KIND_LABELS -> Badge text per change kind. */
+const KIND_LABELS: Record<ReplanChange["kind"], string> = {
+  add: "Add",
+  remove: "Remove",
+  redate: "Re-date",
+  reprioritize: "Re-prioritize",
+};
+
+/** PRIORITY_LABELS -> Task priority 0-2 as text. */
+const PRIORITY_LABELS = ["Low", "Medium", "High"];
+
+/** describeChange -> One-line "what happens" text for a change, using the task's current values. */
+function describeChange(change: ReplanChange, task: Task | undefined): string {
+  switch (change.kind) {
+    case "add":
+      return change.dueDate ? `Due ${formatDueDateDisplay(change.dueDate)}` : "No due date";
+    case "remove":
+      return "Delete this task";
+    case "redate":
+      return `${task?.dueDate ? formatDueDateDisplay(task.dueDate) : "No due date"} → ${
+        change.dueDate ? formatDueDateDisplay(change.dueDate) : "No due date"
+      }`;
+    case "reprioritize":
+      return `${PRIORITY_LABELS[task?.priority ?? 1]} → ${PRIORITY_LABELS[change.priority ?? 1]}`;
+  }
+}
+
+/**
+ * ReplanPanel -> Task changes proposed after the event's date, guests, budget or venue changed.
+ * The user accepts or rejects each change, then applies the accepted ones in one go.
+ */
+export default function ReplanPanel({ proposal, tasks, onDecide, onApply, onDismiss }: ReplanPanelProps) {
+  const acceptedCount = proposal.changes.filter((c) => c.decision === "accepted").length;
+  const changedFields = proposal.detailChanges.map((c) => c.label.toLowerCase()).join(", ");
+
+  return (
+    <div className="replan-panel">
+      <div className="replan-panel-header">
+        <h3 className="replan-panel-title">
+          <RefreshCw size={14} />
+          Update the plan?
+        </h3>
+        <span className="replan-panel-fields">Changed: {changedFields}</span>
+      </div>
+
+      {proposal.loading ? (
+        <p className="replan-panel-status">
+          <Loader size={13} className="spin" /> Reviewing tasks against the new details…
+        </p>
+      ) : proposal.error ? (
+        <p className="approval-error">{proposal.error}</p>
+      ) : proposal.changes.length === 0 ? (
+        <p className="replan-panel-status">The current tasks still fit. No changes suggested.</p>
+      ) : (
+        <ul className="replan-change-list">
+          {proposal.changes.map((change) => {
+            const task = tasks.find((t) => t.id === change.taskId);
+            return (
+              <li key={change.id} className={`replan-change ${change.decision ?? ""}`}>
+                <div className="replan-change-main">
+                  <span className={`replan-change-kind ${change.kind}`}>{KIND_LABELS[change.kind]}</span>
+                  <span className="replan-change-title">{change.title}</span>
+                  <span className="replan-change-detail">{describeChange(change, task)}</span>
+                </div>
+                <p className="replan-change-rationale">{change.rationale}</p>
+                <div className="approval-actions">
+                  <button
+                    type="button"
+                    className={`btn-sm ${change.decision === "rejected" ? "btn-danger" : "btn-secondary"}`}
+                    onClick={() => onDecide(change.id, change.decision === "rejected" ? undefined : "rejected")}
+                  >
+                    <X size={13} />
+                    Reject
+                  </button>
+                  <button
+                    type="button"
+                    className={`btn-sm ${change.decision === "accepted" ? "btn-primary" : "btn-secondary"}`}
+                    onClick={() => onDecide(change.id, change.decision === "accepted" ? undefined : "accepted")}
+                  >
+                    <Check size={13} />
+                    Accept
+                  </button>
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+
+      <div className="replan-panel-actions">
+        <button type="button" className="btn-secondary btn-sm" onClick={onDismiss}>
+          Dismiss
+        </button>
+        {proposal.changes.length > 0 && (
+          <button
+            type="button"
+            className="btn-primary btn-sm"
+            onClick={onApply}
+            disabled={acceptedCount === 0}
+          >
+            Apply {acceptedCount} accepted change{acceptedCount === 1 ? "" : "s"}
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,502 @@
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { createPortal } from "react-dom";
+import { AlertTriangle, Download, GripVertical, Plus, Printer, Rows3, X } from "lucide-react";
+import {
+  addRunOfShowSegment,
+  fetchRunOfShow,
+  removeRunOfShowSegment,
+  saveRunOfShowOrder,
+  updateRunOfShowSegment,
+} from "../lib/eventsDb";
+import {
+  closeUpSchedule,
+  findScheduleIssues,
+  formatDuration,
+  formatTime,
+  moveSegment,
+  runSheetCsv,
+  scheduleTimeline,
+} from "../lib/runOfShow";
+import { exportRunSheetCsv, isElectron, onRunOfShowChanged, onSyncPulled, syncNow } from "../lib/electronBridge";
+import type { PlannerEvent, RunOfShowSegment, ScheduleIssue } from "../types";
+
+/**
+ * RunOfShowViewProps -> Derived from `Run Of Show` + `View` + `Props`.
+ */
+interface RunOfShowViewProps {
+  /** event -> Event whose run of show is shown */
+  event: PlannerEvent;
+  /** canEdit -> Whether the user may add, edit, reorder and remove segments */
+  canEdit: boolean;
+}
+
+/** SegmentDraft -> The add-segment form. */
+interface SegmentDraft {
+  title: string;
+  startTime: string;
+  durationMinutes: number;
+  owner: string;
+  location: string;
+}
+
+const EMPTY_DRAFT: SegmentDraft = { title: "", startTime: "", durationMinutes: 15, owner: "", location: "" };
+
+/** TextField -> Segment fields edited inline as text. */
+type TextField = "title" | "owner" | "location" | "avCues" | "notes";
+
+/**
+ * RunOfShowView -> An event day's run of show (run_of_show_segments): timed segments with
+ * owner, location, AV cues and notes, drag to reorder, overlap and gap warnings against
+ * each other and the event's hours, and the run sheet to print or export as CSV.
+ * Reloads when the Entertainment & Logistics agent changes the schedule.
+ */
+export default function RunOfShowView({ event, canEdit }: RunOfShowViewProps) {
+  const eventUuid = event.eventUuid;
+  const { startTime, endTime } = event.formData;
+  const [segments, setSegments] = useState<RunOfShowSegment[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  const [showAdd, setShowAdd] = useState(false);
+  const [draft, setDraft] = useState<SegmentDraft>(EMPTY_DRAFT);
+  const [dragId, setDragId] = useState<string | null>(null);
+  const [dropIndex, setDropIndex] = useState<number | null>(null);
+
+  const load = useCallback(async () => {
+    if (!eventUuid) return;
+    try {
+      setSegments(await fetchRunOfShow(eventUuid));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setLoading(false);
+    }
+  }, [eventUuid]);
+
+  useEffect(() => {
+    setLoading(true);
+    load();
+  }, [load]);
+
+  // Agent writes go to Supabase; pull them into the local database, then reload
+  useEffect(() => {
+    const unsubPulled = onSyncPulled(load);
+    const unsubChanged = onRunOfShowChanged(({ evtId }) => {
+      if (evtId === event.evtId || evtId === eventUuid) syncNow().then(load);
+    });
+    return () => {
+      unsubPulled();
+      unsubChanged();
+    };
+  }, [event.evtId, eventUuid, load]);
+
+  const timeline = useMemo(() => scheduleTimeline(segments, startTime), [segments, startTime]);
+  const issues = useMemo(() => findScheduleIssues(timeline, startTime, endTime), [timeline, startTime, endTime]);
+  const issuesBySegment = useMemo(() => {
+    const map = new Map<string, ScheduleIssue[]>();
+    for (const issue of issues) map.set(issue.segmentId, [...(map.get(issue.segmentId) ?? []), issue]);
+    return map;
+  }, [issues]);
+  const timed = timeline.filter((t) => t.start != null && t.end != null);
+  const span = timed.length > 0 ? { start: timed[0].start!, end: Math.max(...timed.map((t) => t.end!)) } : null;
+
+  /** save -> Run one change, then reload; errors are shown instead of thrown. */
+  const save = async (change: () => Promise<unknown>) => {
+    setError(null);
+    setMessage(null);
+    try {
+      await change();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    }
+    await load();
+  };
+
+  /** reorder -> Show the new order straight away, then write the positions (and times) that changed. */
+  const reorder = (next: RunOfShowSegment[]) => {
+    const previous = segments;
+    setSegments(next);
+    save(() => saveRunOfShowOrder(previous, next));
+  };
+
+  const handleDrop = (toIndex: number) => {
+    if (dragId) {
+      const from = timeline.findIndex((t) => t.segment.id === dragId);
+      // Dropping below itself: the row leaves its old place first
+      const target = from !== -1 && from < toIndex ? toIndex - 1 : toIndex;
+      if (from !== target) reorder(moveSegment(segments, dragId, target));
+    }
+    setDragId(null);
+    setDropIndex(null);
+  };
+
+  const handleAdd = () => {
+    if (!eventUuid || !draft.title.trim()) return;
+    save(async () => {
+      await addRunOfShowSegment(eventUuid, {
+        title: draft.title,
+        startTime: draft.startTime || undefined,
+        durationMinutes: draft.durationMinutes,
+        owner: draft.owner,
+        location: draft.location,
+      });
+      setDraft(EMPTY_DRAFT);
+      setShowAdd(false);
+    });
+  };
+
+  /** editText -> Write a text field when it changed on blur. */
+  const editText = (segment: RunOfShowSegment, field: TextField, value: string) => {
+    if (value.trim() === (segment[field] ?? "")) return;
+    if (field === "title" && !value.trim()) return;
+    save(() => updateRunOfShowSegment(segment.id, { [field]: value }));
+  };
+
+  const handlePrint = () => {
+    document.body.classList.add("printing-run-sheet");
+    window.addEventListener("afterprint", () => document.body.classList.remove("printing-run-sheet"), { once: true });
+    window.print();
+  };
+
+  const handleExport = async () => {
+    setError(null);
+    setMessage(null);
+    const csv = runSheetCsv(timeline);
+    const filename = `${event.formData.eventReason || "event"} run of show.csv`.replace(/[\\/:*?"<>|]/g, "-");
+    if (!isElectron()) {
+      const url = URL.createObjectURL(new Blob([csv], { type: "text/csv;charset=utf-8" }));
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = filename;
+      link.click();
+      URL.revokeObjectURL(url);
+      setMessage(`Exported ${timeline.length} segment(s).`);
+      return;
+    }
+    const result = await exportRunSheetCsv(filename, csv);
+    if (result.error) setError(result.error);
+    else if (result.success) setMessage(`Exported ${timeline.length} segment(s) to ${result.filePath}.`);
+  };
+
+  if (!eventUuid) {
+    return (
+      <div className="task-manager-placeholder">
+        <p>The run of show is available once the event is saved.</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="event-overview run-of-show">
+      <section className="overview-section">
+        <h3 className="overview-section-title">Event Day</h3>
+        <div className="overview-grid">
+          <div className="overview-item">
+            <div className="overview-item-content">
+              <span className="overview-label">Event Hours</span>
+              <span className="overview-value">
+                {startTime || endTime ? `${startTime || "?"} – ${endTime || "?"}` : "Not set"}
+              </span>
+            </div>
+          </div>
+          <div className="overview-item">
+            <div className="overview-item-content">
+              <span className="overview-label">Scheduled</span>
+              <span className="overview-value">
+                {span ? `${formatTime(span.start)} – ${formatTime(span.end)} (${formatDuration(span.end - span.start)})` : "Nothing timed yet"}
+              </span>
+            </div>
+          </div>
+          <div className="overview-item">
+            <div className="overview-item-content">
+              <span className="overview-label">Segments</span>
+              <span className="overview-value">{segments.length}</span>
+            </div>
+          </div>
+          <div className="overview-item">
+            <div className="overview-item-content">
+              <span className="overview-label">Issues</span>
+              <span className="overview-value">
+                {issues.length === 0
+                  ? "None"
+                  : `${issues.filter((i) => i.kind !== "gap").length} conflict(s), ${issues.filter((i) => i.kind === "gap").length} gap(s)`}
+              </span>
+            </div>
+          </div>
+        </div>
+      </section>
+
+      <section className="overview-section">
+        <div className="collaborators-header">
+          <h3 className="overview-section-title">Run of Show</h3>
+          <div className="run-of-show-actions">
+            <button type="button" className="btn-secondary" onClick={handlePrint} disabled={segments.length === 0}>
+              <Printer size={14} /> Print
+            </button>
+            <button type="button" className="btn-secondary" onClick={handleExport} disabled={segments.length === 0}>
+              <Download size={14} /> Export CSV
+            </button>
+            {canEdit && (
+              <button
+                type="button"
+                className="btn-secondary"
+                title="Start every segment when the one above ends, keeping durations"
+                onClick={() => reorder(closeUpSchedule(segments, startTime))}
+                disabled={segments.length === 0 || issues.every((i) => i.kind !== "overlap" && i.kind !== "gap")}
+              >
+                <Rows3 size={14} /> Close Up Gaps
+              </button>
+            )}
+            {canEdit && (
+              <button type="button" className="btn-secondary" onClick={() => setShowAdd(!showAdd)}>
+                {showAdd ? "Cancel" : <><Plus size={14} /> Add Segment</>}
+              </button>
+            )}
+          </div>
+        </div>
+
+        {showAdd && (
+          <div className="add-collaborator-form">
+            <input
+              type="text"
+              placeholder="Segment (e.g. Doors open, Welcome speech)"
+              value={draft.title}
+              onChange={(e) => setDraft({ ...draft, title: e.target.value })}
+            />
+            <div className="run-of-show-draft-times">
+              <label>
+                Starts
+                <input
+                  type="time"
+                  value={draft.startTime}
+                  onChange={(e) => setDraft({ ...draft, startTime: e.target.value })}
+                />
+              </label>
+              <label>
+                Minutes
+                <input
+                  type="number"
+                  min={1}
+                  value={draft.durationMinutes}
+                  onChange={(e) => setDraft({ ...draft, durationMinutes: Math.max(1, Number(e.target.value) || 1) })}
+                />
+              </label>
+            </div>
+            <input
+              type="text"
+              placeholder="Owner (optional)"
+              value={draft.owner}
+              onChange={(e) => setDraft({ ...draft, owner: e.target.value })}
+            />
+            <input
+              type="text"
+              placeholder="Location (optional)"
+              value={draft.location}
+              onChange={(e) => setDraft({ ...draft, location: e.target.value })}
+            />
+            <p className="form-hint">Leave the start time empty to start when the segment above ends.</p>
+            <button type="button" className="btn-primary" onClick={handleAdd} disabled={!draft.title.trim()}>
+              Add
+            </button>
+          </div>
+        )}
+        {error && <p className="approval-error">{error}</p>}
+        {message && <p className="form-hint">{message}</p>}
+
+        {loading ? (
+          <p className="form-hint">Loading run of show...</p>
+        ) : timeline.length === 0 ? (
+          <p className="form-hint">
+            No segments yet. Add them here or ask the Entertainment & Logistics agent to draft the run of show.
+          </p>
+        ) : (
+          <ol className="run-of-show-list" onDragLeave={() => setDropIndex(null)}>
+            {timeline.map(({ segment, start, end, followsOn }, index) => {
+              const segmentIssues = issuesBySegment.get(segment.id) ?? [];
+              return (
+                <li
+                  key={segment.id}
+                  className={`run-of-show-row${dragId === segment.id ? " dragging" : ""}${
+                    dropIndex === index ? " drop-before" : ""
+                  }${segmentIssues.some((i) => i.kind !== "gap") ? " has-conflict" : ""}`}
+                  draggable={canEdit}
+                  onDragStart={(e) => {
+                    setDragId(segment.id);
+                    e.dataTransfer.effectAllowed = "move";
+                  }}
+                  onDragEnd={() => {
+                    setDragId(null);
+                    setDropIndex(null);
+                  }}
+                  onDragOver={(e) => {
+                    if (!dragId) return;
+                    e.preventDefault();
+                    // Upper half drops before this row, lower half after it
+                    const rect = e.currentTarget.getBoundingClientRect();
+                    setDropIndex(e.clientY < rect.top + rect.height / 2 ? index : index + 1);
+                  }}
+                  onDrop={(e) => {
+                    e.preventDefault();
+                    if (dropIndex != null) handleDrop(dropIndex);
+                  }}
+                >
+                  {canEdit && (
+                    <span className="run-of-show-grip" title="Drag to reorder">
+                      <GripVertical size={14} />
+                    </span>
+                  )}
+                  <div className="run-of-show-time">
+                    {canEdit ? (
+                      <input
+                        key={segment.startTime ?? ""}
+                        type="time"
+                        title={followsOn ? "Starts when the segment above ends" : undefined}
+                        className={followsOn ? "follows-on" : undefined}
+                        defaultValue={segment.startTime ?? (start != null ? formatTime(start) : "")}
+                        onBlur={(e) => {
+                          if (e.target.value !== (segment.startTime ?? (start != null ? formatTime(start) : ""))) {
+                            save(() => updateRunOfShowSegment(segment.id, { startTime: e.target.value }));
+                          }
+                        }}
+                      />
+                    ) : (
+                      <span className="run-of-show-start">{start != null ? formatTime(start) : "—"}</span>
+                    )}
+                    <span className="run-of-show-end">{end != null ? `to ${formatTime(end)}` : ""}</span>
+                  </div>
+                  <div className="run-of-show-body">
+                    <div className="run-of-show-title-row">
+                      {canEdit ? (
+                        <input
+                          key={segment.title}
+                          type="text"
+                          className="run-of-show-input run-of-show-title"
+                          defaultValue={segment.title}
+                          onBlur={(e) => editText(segment, "title", e.target.value)}
+                        />
+                      ) : (
+                        <span className="run-of-show-title">{segment.title}</span>
+                      )}
+                      {segment.source === "agent" && <span className="guest-source-badge">agent</span>}
+                      {canEdit ? (
+                        <label className="run-of-show-duration" title="Duration in minutes">
+                          <input
+                            key={segment.durationMinutes}
+                            type="number"
+                            min={1}
+                            defaultValue={segment.durationMinutes}
+                            onBlur={(e) => {
+                              const minutes = Math.max(1, Math.round(Number(e.target.value)) || 1);
+                              if (minutes !== segment.durationMinutes) {
+                                save(() => updateRunOfShowSegment(segment.id, { durationMinutes: minutes }));
+                              }
+                            }}
+                          />
+                          min
+                        </label>
+                      ) : (
+                        <span className="run-of-show-duration">{formatDuration(segment.durationMinutes)}</span>
+                      )}
+                      {canEdit && (
+                        <button
+                          type="button"
+                          className="btn-remove"
+                          title="Remove segment"
+                          onClick={() => save(() => removeRunOfShowSegment(segment.id))}
+                        >
+                          <X size={13} />
+                        </button>
+                      )}
+                    </div>
+                    <div className="run-of-show-fields">
+                      {(
+                        [
+                          ["owner", "Owner"],
+                          ["location", "Location"],
+                          ["avCues", "AV cues"],
+                          ["notes", "Notes"],
+                        ] as const
+                      ).map(([field, label]) =>
+                        canEdit ? (
+                          <input
+                            key={`${field}-${segment[field] ?? ""}`}
+                            type="text"
+                            className="run-of-show-input"
+                            placeholder={label}
+                            defaultValue={segment[field] ?? ""}
+                            onBlur={(e) => editText(segment, field, e.target.value)}
+                          />
+                        ) : (
+                          segment[field] && (
+                            <span key={field}>
+                              <strong>{label}:</strong> {segment[field]}
+                            </span>
+                          )
+                        )
+                      )}
+                    </div>
+                    {segmentIssues.map((issue) => (
+                      <div key={issue.kind} className={`run-of-show-issue ${issue.kind}`}>
+                        <AlertTriangle size={12} /> {issue.message}
+                      </div>
+                    ))}
+                  </div>
+                </li>
+              );
+            })}
+            {canEdit && dragId && (
+              <li
+                className={`run-of-show-drop-end${dropIndex === timeline.length ? " drop-before" : ""}`}
+                onDragOver={(e) => {
+                  e.preventDefault();
+                  setDropIndex(timeline.length);
+                }}
+                onDrop={(e) => {
+                  e.preventDefault();
+                  handleDrop(timeline.length);
+                }}
+              />
+            )}
+          </ol>
+        )}
+      </section>
+
+      {/* Rendered at the top of <body> and only shown when printing (see .printing-run-sheet in index.css) */}
+      {createPortal(
+        <div className="run-sheet-print">
+          <h1>{event.formData.eventReason || "Event"} — Run of Show</h1>
+          <p>
+            {[event.formData.eventDate, startTime || endTime ? `${startTime || "?"} – ${endTime || "?"}` : ""]
+              .filter(Boolean)
+              .join(" · ")}
+          </p>
+          <table>
+            <thead>
+              <tr>
+                <th>Time</th>
+                <th>Segment</th>
+                <th>Owner</th>
+                <th>Location</th>
+                <th>AV cues</th>
+                <th>Notes</th>
+              </tr>
+            </thead>
+            <tbody>
+              {timeline.map(({ segment, start, end }) => (
+                <tr key={segment.id}>
+                  <td>{start != null && end != null ? `${formatTime(start)}–${formatTime(end)}` : formatDuration(segment.durationMinutes)}</td>
+                  <td>{segment.title}</td>
+                  <td>{segment.owner}</td>
+                  <td>{segment.location}</td>
+                  <td>{segment.avCues}</td>
+                  <td>{segment.notes}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>,
+        document.body
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,86 @@
+import { useState } from "react";
+import { BookmarkPlus, Loader, X } from "lucide-react";
+
+/**
+ * SaveTemplateDialogProps -> Derived from `Save` + `Template` + `Dialog` + `Props`.
+ */
+interface SaveTemplateDialogProps {
+  /** defaultName -> Pre-filled template name (the event's name) */
+  defaultName: string;
+  /** taskCount -> Number of tasks the template will contain */
+  taskCount: number;
+  /** orgName -> The user's organization; offers sharing the template with it */
+  orgName?: string;
+  /** onSave -> Save the template; errors are shown in the dialog */
+  onSave: (opts: { name: string; description: string; shared: boolean }) => Promise<void>;
+  /** onClose -> Close the dialog */
+  onClose: () => void;
+}
+
+/**
+ * SaveTemplateDialog -> Name an event's details and tasks as a reusable template.
+ */
+export default function SaveTemplateDialog({ defaultName, taskCount, orgName, onSave, onClose }: SaveTemplateDialogProps) {
+  const [name, setName] = useState(defaultName);
+  const [description, setDescription] = useState("");
+  const [shared, setShared] = useState(!!orgName);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim()) return;
+    setSaving(true);
+    setError(null);
+    try {
+      await onSave({ name, description, shared: !!orgName && shared });
+      onClose();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="linked-event-modal-overlay" onClick={onClose}>
+      <form className="linked-event-modal save-template-dialog" onClick={(e) => e.stopPropagation()} onSubmit={handleSubmit}>
+        <div className="linked-event-modal-header">
+          <h3>Save as Template</h3>
+          <button type="button" className="linked-event-modal-close" onClick={onClose}>
+            <X size={18} />
+          </button>
+        </div>
+        <div className="linked-event-modal-body">
+          <p className="settings-description">
+            Saves the event details (not the date) and its {taskCount} task{taskCount === 1 ? "" : "s"} with their
+            subtasks, dependencies, notes and agents. Due dates are kept relative to the event date.
+          </p>
+          <input type="text" placeholder="Template name" value={name} onChange={(e) => setName(e.target.value)} required />
+          <textarea
+            placeholder="Description (optional)"
+            value={description}
+            onChange={(e) => setDescription(e.target.value)}
+            rows={2}
+          />
+          {orgName && (
+            <label className="form-actions-option">
+              <input type="checkbox" checked={shared} onChange={(e) => setShared(e.target.checked)} />
+              <span>Share with {orgName}</span>
+            </label>
+          )}
+          {error && <p className="approval-error">{error}</p>}
+          <div className="delete-event-dialog-actions">
+            <button type="button" className="btn-secondary" onClick={onClose}>
+              Cancel
+            </button>
+            <button type="submit" className="btn-primary" disabled={saving || !name.trim()}>
+              {saving ? <Loader size={16} className="spin" /> : <BookmarkPlus size={16} />}
+              Save Template
+            </button>
+          </div>
+        </div>
+      </form>
+    </div>
+  );
+}
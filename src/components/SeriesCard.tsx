@@ -0,0 +1,77 @@
+import { Repeat } from "lucide-react";
+import { occurrenceDateOf, seriesOccurrences, seriesRuleLabel, seriesStats } from "../lib/series";
+import { toLocalDateString } from "../lib/dateUtils";
+import type { ActiveView, EventSeries, PlannerEvent } from "../types";
+
+/** UPCOMING_SHOWN -> Upcoming occurrences listed on the card; the rest are counted. */
+const UPCOMING_SHOWN = 4;
+
+/**
+ * SeriesCardProps -> Derived from `Series` + `Card` + `Props`.
+ */
+interface SeriesCardProps {
+  series: EventSeries;
+  /** events -> All events; the series' occurrences are picked out */
+  events: PlannerEvent[];
+  /** onNavigate -> Open an occurrence */
+  onNavigate: (view: ActiveView) => void;
+}
+
+/**
+ * SeriesCard -> Dashboard card for a recurring series: its rule, stats across occurrences
+ * and the next few occurrences.
+ */
+export default function SeriesCard({ series, events, onNavigate }: SeriesCardProps) {
+  const today = toLocalDateString();
+  const stats = seriesStats(series, events, today);
+  const occurrences = seriesOccurrences(series, events);
+  const upcoming = occurrences.filter((e) => occurrenceDateOf(e) >= today);
+  const lastPast = occurrences.filter((e) => !upcoming.includes(e)).at(-1);
+
+  return (
+    <div className="event-card series-card">
+      <div className="event-card-header">
+        <h3 className="event-card-title">
+          <Repeat size={14} /> {series.name}
+        </h3>
+        {!series.active && <span className="series-paused-badge">Paused</span>}
+      </div>
+      <div className="event-card-meta">
+        <span>{seriesRuleLabel(series)}</span>
+      </div>
+      <div className="event-overview-summary">
+        <span>
+          {stats.occurrences} occurrence{stats.occurrences === 1 ? "" : "s"}
+        </span>
+        {stats.taskCompletionPct != null && <span>{stats.taskCompletionPct}% tasks done</span>}
+        {stats.averageGuests != null && <span>~{stats.averageGuests} guests</span>}
+      </div>
+      <ul className="series-occurrence-list">
+        {lastPast && (
+          <li>
+            <button
+              type="button"
+              className="series-occurrence past"
+              onClick={() => onNavigate({ kind: "event-chat", evtId: lastPast.evtId, initialViewMode: "details" })}
+            >
+              {occurrenceDateOf(lastPast)} (last)
+            </button>
+          </li>
+        )}
+        {upcoming.slice(0, UPCOMING_SHOWN).map((e) => (
+          <li key={e.evtId}>
+            <button
+              type="button"
+              className="series-occurrence"
+              onClick={() => onNavigate({ kind: "event-chat", evtId: e.evtId, initialViewMode: "tasks" })}
+            >
+              {occurrenceDateOf(e)}
+              {e.occurrenceDate && e.formData.eventDate && e.formData.eventDate !== e.occurrenceDate && " (moved)"}
+            </button>
+          </li>
+        ))}
+        {upcoming.length > UPCOMING_SHOWN && <li className="series-occurrence-more">+{upcoming.length - UPCOMING_SHOWN} more</li>}
+      </ul>
+    </div>
+  );
+}
@@ -1,8 +1,33 @@
 import { useState, useEffect } from "react";
-import { User, Users, ArrowLeft, Plug } from "lucide-react";
+import { User, Users, ArrowLeft, Plug, Bot, Coins, Database, LogOut } from "lucide-react";
 import ConnectorCard from "./ConnectorCard";
-import { getConnectorStatuses, isElectron } from "../lib/electronBridge";
-import type { AccountSettings, AccountType, Collaborator, ActiveView, ConnectorStatus } from "../types";
+import UsageDashboard from "./UsageDashboard";
+import DatabaseStatus from "./DatabaseStatus";
+import {
+  getConnectorStatuses,
+  getAppSettings,
+  updateAppSettings,
+  getModelRoutes,
+  isElectron,
+} from "../lib/electronBridge";
+import {
+  isAuthEnabled,
+  fetchAccount,
+  updateProfile,
+  signOut,
+  createOrganization,
+  updateOrganization,
+  addOrganizationMember,
+  removeOrganizationMember,
+} from "../lib/auth";
+import type { AiModelRoute } from "../lib/electronBridge";
+import type {
+  AccountSettings,
+  OrgRole,
+  ActiveView,
+  ConnectorStatus,
+  AppSettings,
+} from "../types";
 
 /**
  * SettingsProps -> Derived from `Settings` + `Props`.
@@ -10,20 +35,34 @@ import type { AccountSettings, AccountType, Collaborator, ActiveView, ConnectorS
 interface SettingsProps {
   /** settings -> Current account settings */
   settings: AccountSettings;
-  /** onUpdate -> Callback when settings are updated */
+  /** onUpdate -> Callback with the account after it was saved (or edited, without sign-in) */
   onUpdate: (settings: AccountSettings) => void;
   /** onNavigate -> Navigation callback */
   onNavigate: (view: ActiveView) => void;
 }
 
+/** MODEL_PURPOSE_LABELS -> Display names for the per-purpose model routes. */
+const MODEL_PURPOSE_LABELS: Record<AiModelRoute["purpose"], string> = {
+  planning: "Planning model",
+  execution: "Task execution model",
+  category_chat: "Chat model",
+  subtasks: "Subtask model",
+  retro: "Retrospective model",
+};
+
 /**
  * Settings -> Account management and preferences panel.
  */
 export default function Settings({ settings, onUpdate, onNavigate }: SettingsProps) {
+  const authEnabled = isAuthEnabled();
   const [localSettings, setLocalSettings] = useState<AccountSettings>(settings);
+  const [accountError, setAccountError] = useState<string | null>(null);
+  const [newOrgName, setNewOrgName] = useState("");
   const [showAddCollaborator, setShowAddCollaborator] = useState(false);
-  const [newCollaborator, setNewCollaborator] = useState({ name: "", email: "", role: "" });
+  const [newCollaborator, setNewCollaborator] = useState<{ email: string; role: OrgRole }>({ email: "", role: "member" });
   const [connectors, setConnectors] = useState<ConnectorStatus[]>([]);
+  const [appSettings, setAppSettings] = useState<AppSettings | null>(null);
+  const [modelRoutes, setModelRoutes] = useState<AiModelRoute[]>([]);
 
   // ── Load connector statuses ───────────────────────────────────────────
   const refreshConnectors = async () => {
@@ -33,52 +72,93 @@ export default function Settings({ settings, onUpdate, onNavigate }: SettingsPro
     }
   };
 
+  // The account loads after sign-in and may arrive after Settings opened
+  useEffect(() => {
+    setLocalSettings(settings);
+  }, [settings]);
+
   useEffect(() => {
     refreshConnectors();
+    getAppSettings().then(setAppSettings);
+    getModelRoutes().then(setModelRoutes);
   }, []);
 
-  const handleAccountSwitch = (accountType: AccountType) => {
-    setLocalSettings((prev) => ({ ...prev, currentAccount: accountType }));
-    onUpdate({ ...localSettings, currentAccount: accountType });
+  /** handleLaneCapChange -> Persist how many agent lanes may execute at once (applies to running lanes too). */
+  const handleLaneCapChange = async (value: number) => {
+    if (!Number.isFinite(value) || value < 1) return;
+    const result = await updateAppSettings({ maxConcurrentLanes: Math.floor(value) });
+    if (result.settings) setAppSettings(result.settings);
   };
 
-  const handleAddCollaborator = () => {
-    if (!newCollaborator.name || !newCollaborator.email) return;
+  /** handleMonthlyBudgetChange -> Persist the global monthly AI budget (null = no cap). */
+  const handleMonthlyBudgetChange = async (budgetUsd: number | null) => {
+    const result = await updateAppSettings({ aiMonthlyBudgetUsd: budgetUsd });
+    if (result.settings) setAppSettings(result.settings);
+  };
+
+  /** refreshAccount -> Reload the profile and organization after a change and hand them to App. */
+  const refreshAccount = async () => {
+    const userId = localSettings.personalAccount.userId;
+    if (!userId) return;
+    const account = await fetchAccount({ id: userId, email: localSettings.personalAccount.email });
+    setLocalSettings(account);
+    onUpdate(account);
+  };
+
+  /** runAccountChange -> Save an account change, show its error, then reload the account. */
+  const runAccountChange = async (change: () => Promise<void>) => {
+    setAccountError(null);
+    try {
+      await change();
+    } catch (err) {
+      setAccountError(err instanceof Error ? err.message : String(err));
+    }
+    await refreshAccount().catch((err) => console.warn("[Eventropy] Could not reload account:", err));
+  };
 
-    const collaborator: Collaborator = {
-      id: `collab-${Date.now()}`,
-      name: newCollaborator.name,
-      email: newCollaborator.email,
-      role: newCollaborator.role || undefined,
-    };
+  /** handleProfileBlur -> Persist the display name (kept in memory only without sign-in). */
+  const handleProfileBlur = () => {
+    const { userId, name } = localSettings.personalAccount;
+    if (!authEnabled || !userId) {
+      onUpdate(localSettings);
+      return;
+    }
+    if (name === settings.personalAccount.name) return;
+    runAccountChange(() => updateProfile(userId, { name }));
+  };
 
-    const updatedSettings: AccountSettings = {
-      ...localSettings,
-      organizationAccount: {
-        ...localSettings.organizationAccount!,
-        collaborators: [...(localSettings.organizationAccount?.collaborators || []), collaborator],
-      },
-    };
+  /** handleOrganizationBlur -> Persist the organization's name and email (owners only). */
+  const handleOrganizationBlur = () => {
+    const org = localSettings.organizationAccount;
+    if (!org || org.role !== "owner") return;
+    if (org.name === settings.organizationAccount?.name && org.email === settings.organizationAccount?.email) return;
+    runAccountChange(() => updateOrganization(org.orgId, { name: org.name, email: org.email }));
+  };
 
-    setLocalSettings(updatedSettings);
-    onUpdate(updatedSettings);
-    setNewCollaborator({ name: "", email: "", role: "" });
-    setShowAddCollaborator(false);
+  const handleCreateOrganization = () => {
+    if (!newOrgName.trim()) return;
+    runAccountChange(() => createOrganization(newOrgName.trim(), localSettings.personalAccount.email)).then(() =>
+      setNewOrgName("")
+    );
   };
 
-  const handleRemoveCollaborator = (id: string) => {
-    if (!localSettings.organizationAccount) return;
+  const handleAddCollaborator = () => {
+    const org = localSettings.organizationAccount;
+    if (!org || !newCollaborator.email) return;
+    runAccountChange(() => addOrganizationMember(org.orgId, newCollaborator.email, newCollaborator.role)).then(() => {
+      setNewCollaborator({ email: "", role: "member" });
+      setShowAddCollaborator(false);
+    });
+  };
 
-    const updatedSettings: AccountSettings = {
-      ...localSettings,
-      organizationAccount: {
-        ...localSettings.organizationAccount,
-        collaborators: localSettings.organizationAccount.collaborators.filter((c) => c.id !== id),
-      },
-    };
+  const handleRemoveCollaborator = (userId: string) => {
+    const org = localSettings.organizationAccount;
+    if (!org) return;
+    runAccountChange(() => removeOrganizationMember(org.orgId, userId));
+  };
 
-    setLocalSettings(updatedSettings);
-    onUpdate(updatedSettings);
+  const handleSignOut = () => {
+    signOut().catch((err) => setAccountError(err instanceof Error ? err.message : String(err)));
   };
 
   return (
@@ -94,35 +174,32 @@ export default function Settings({ settings, onUpdate, onNavigate }: SettingsPro
       </div>
 
       <div className="settings-content">
-        {/* Account Switching */}
+        {/* Account Type (follows organization membership) */}
         <section className="settings-section">
           <h2>Account Type</h2>
           <p className="settings-description">
-            Switch between personal events (private) and organization-wide events (with collaborators).
+            Personal events are private. Members of an organization also see and plan the
+            organization's events; create or join one below to switch.
           </p>
 
           <div className="account-switcher">
-            <button
-              className={`account-option ${localSettings.currentAccount === "personal" ? "active" : ""}`}
-              onClick={() => handleAccountSwitch("personal")}
-            >
+            <div className={`account-option ${localSettings.currentAccount === "personal" ? "active" : ""}`}>
               <User size={20} />
               <div className="account-option-content">
                 <div className="account-option-title">Personal</div>
                 <div className="account-option-desc">Keep events private</div>
               </div>
-            </button>
+            </div>
 
-            <button
-              className={`account-option ${localSettings.currentAccount === "organization" ? "active" : ""}`}
-              onClick={() => handleAccountSwitch("organization")}
-            >
+            <div className={`account-option ${localSettings.currentAccount === "organization" ? "active" : ""}`}>
               <Users size={20} />
               <div className="account-option-content">
                 <div className="account-option-title">Organization</div>
-                <div className="account-option-desc">Add collaborators with full control</div>
+                <div className="account-option-desc">
+                  {localSettings.organizationAccount?.name || "Share events with your team"}
+                </div>
               </div>
-            </button>
+            </div>
           </div>
         </section>
 
@@ -141,24 +218,100 @@ export default function Settings({ settings, onUpdate, onNavigate }: SettingsPro
                     personalAccount: { ...localSettings.personalAccount, name: e.target.value },
                   })
                 }
-                onBlur={() => onUpdate(localSettings)}
+                onBlur={handleProfileBlur}
               />
             </div>
             <div className="info-row">
               <label>Email</label>
-              <input
-                type="email"
-                value={localSettings.personalAccount.email}
-                onChange={(e) =>
-                  setLocalSettings({
-                    ...localSettings,
-                    personalAccount: { ...localSettings.personalAccount, email: e.target.value },
-                  })
-                }
-                onBlur={() => onUpdate(localSettings)}
-              />
+              {authEnabled ? (
+                <span>{localSettings.personalAccount.email}</span>
+              ) : (
+                <input
+                  type="email"
+                  value={localSettings.personalAccount.email}
+                  onChange={(e) =>
+                    setLocalSettings({
+                      ...localSettings,
+                      personalAccount: { ...localSettings.personalAccount, email: e.target.value },
+                    })
+                  }
+                  onBlur={handleProfileBlur}
+                />
+              )}
             </div>
           </div>
+          {accountError && <p className="approval-error">{accountError}</p>}
+          {authEnabled && (
+            <button type="button" className="btn-secondary settings-sign-out" onClick={handleSignOut}>
+              <LogOut size={14} />
+              Sign Out
+            </button>
+          )}
+        </section>
+
+        {/* Agents */}
+        {appSettings && (
+          <section className="settings-section">
+            <h2>
+              <Bot size={20} />
+              Agents
+            </h2>
+            <p className="settings-description">
+              Each agent group runs its tasks in its own lane. Lanes wait for tasks in other
+              groups they depend on; this cap limits how many work at the same time.
+            </p>
+            <div className="account-info">
+              <div className="info-row">
+                <label>Agents running at once</label>
+                <input
+                  type="number"
+                  min={1}
+                  max={10}
+                  value={appSettings.maxConcurrentLanes}
+                  onChange={(e) => handleLaneCapChange(Number(e.target.value))}
+                />
+              </div>
+              {modelRoutes.map(({ purpose, models }) => (
+                <div key={purpose} className="info-row">
+                  <label>{MODEL_PURPOSE_LABELS[purpose]}</label>
+                  <span className="settings-model-route">
+                    {models.length > 0
+                      ? models.map((m) => m.model).join(" → ")
+                      : "No provider configured"}
+                  </span>
+                </div>
+              ))}
+            </div>
+          </section>
+        )}
+
+        {/* AI Usage */}
+        <section className="settings-section">
+          <h2>
+            <Coins size={20} />
+            AI Usage
+          </h2>
+          <p className="settings-description">
+            Tokens and cost of every AI call. Agent runs pause with a notification when an event
+            budget or the monthly budget is reached.
+          </p>
+          <UsageDashboard
+            monthlyBudgetUsd={appSettings?.aiMonthlyBudgetUsd ?? null}
+            onMonthlyBudgetChange={handleMonthlyBudgetChange}
+          />
+        </section>
+
+        {/* Database */}
+        <section className="settings-section">
+          <h2>
+            <Database size={20} />
+            Database
+          </h2>
+          <p className="settings-description">
+            Schema version of the connected database. Migrations this version of the app needs are
+            listed here and can be applied directly when a database connection string is set.
+          </p>
+          <DatabaseStatus />
         </section>
 
         {/* Organization Account & Collaborators */}
@@ -194,28 +347,20 @@ export default function Settings({ settings, onUpdate, onNavigate }: SettingsPro
           )}
         </section>
 
-        {localSettings.currentAccount === "organization" && (
+        {authEnabled && (
           <section className="settings-section">
             <h2>Organization Account</h2>
 
             {!localSettings.organizationAccount ? (
               <div className="setup-org">
-                <p>Set up your organization account to enable collaboration.</p>
-                <button
-                  className="btn-primary"
-                  onClick={() => {
-                    const updated: AccountSettings = {
-                      ...localSettings,
-                      organizationAccount: {
-                        name: "",
-                        email: localSettings.personalAccount.email,
-                        collaborators: [],
-                      },
-                    };
-                    setLocalSettings(updated);
-                    onUpdate(updated);
-                  }}
-                >
+                <p>Set up an organization to plan events with collaborators. You become its owner.</p>
+                <input
+                  type="text"
+                  placeholder="Organization name"
+                  value={newOrgName}
+                  onChange={(e) => setNewOrgName(e.target.value)}
+                />
+                <button className="btn-primary" onClick={handleCreateOrganization} disabled={!newOrgName.trim()}>
                   Set Up Organization Account
                 </button>
               </div>
@@ -227,6 +372,7 @@ export default function Settings({ settings, onUpdate, onNavigate }: SettingsPro
                     <input
                       type="text"
                       value={localSettings.organizationAccount.name}
+                      disabled={localSettings.organizationAccount.role !== "owner"}
                       onChange={(e) =>
                         setLocalSettings({
                           ...localSettings,
@@ -236,7 +382,7 @@ export default function Settings({ settings, onUpdate, onNavigate }: SettingsPro
                           },
                         })
                       }
-                      onBlur={() => onUpdate(localSettings)}
+                      onBlur={handleOrganizationBlur}
                     />
                   </div>
                   <div className="info-row">
@@ -244,6 +390,7 @@ export default function Settings({ settings, onUpdate, onNavigate }: SettingsPro
                     <input
                       type="email"
                       value={localSettings.organizationAccount.email}
+                      disabled={localSettings.organizationAccount.role !== "owner"}
                       onChange={(e) =>
                         setLocalSettings({
                           ...localSettings,
@@ -253,43 +400,40 @@ export default function Settings({ settings, onUpdate, onNavigate }: SettingsPro
                           },
                         })
                       }
-                      onBlur={() => onUpdate(localSettings)}
+                      onBlur={handleOrganizationBlur}
                     />
                   </div>
                 </div>
 
-                {/* Collaborators */}
+                {/* Organization members (per-event roles are set on each event) */}
                 <div className="collaborators-section">
                   <div className="collaborators-header">
-                    <h3>Collaborators</h3>
-                    <button
-                      className="btn-secondary"
-                      onClick={() => setShowAddCollaborator(!showAddCollaborator)}
-                    >
-                      {showAddCollaborator ? "Cancel" : "+ Add Collaborator"}
-                    </button>
+                    <h3>Members</h3>
+                    {localSettings.organizationAccount.role === "owner" && (
+                      <button
+                        className="btn-secondary"
+                        onClick={() => setShowAddCollaborator(!showAddCollaborator)}
+                      >
+                        {showAddCollaborator ? "Cancel" : "+ Add Member"}
+                      </button>
+                    )}
                   </div>
 
                   {showAddCollaborator && (
                     <div className="add-collaborator-form">
-                      <input
-                        type="text"
-                        placeholder="Name"
-                        value={newCollaborator.name}
-                        onChange={(e) => setNewCollaborator({ ...newCollaborator, name: e.target.value })}
-                      />
                       <input
                         type="email"
-                        placeholder="Email"
+                        placeholder="Email of an Eventropy account"
                         value={newCollaborator.email}
                         onChange={(e) => setNewCollaborator({ ...newCollaborator, email: e.target.value })}
                       />
-                      <input
-                        type="text"
-                        placeholder="Role (optional)"
+                      <select
                         value={newCollaborator.role}
-                        onChange={(e) => setNewCollaborator({ ...newCollaborator, role: e.target.value })}
-                      />
+                        onChange={(e) => setNewCollaborator({ ...newCollaborator, role: e.target.value as OrgRole })}
+                      >
+                        <option value="member">Member</option>
+                        <option value="owner">Owner</option>
+                      </select>
                       <button className="btn-primary" onClick={handleAddCollaborator}>
                         Add
                       </button>
@@ -297,24 +441,27 @@ export default function Settings({ settings, onUpdate, onNavigate }: SettingsPro
                   )}
 
                   <div className="collaborators-list">
-                    {localSettings.organizationAccount.collaborators.map((collab) => (
-                      <div key={collab.id} className="collaborator-item">
-                        <div className="collaborator-info">
-                          <div className="collaborator-name">{collab.name}</div>
-                          <div className="collaborator-email">{collab.email}</div>
-                          {collab.role && <div className="collaborator-role">{collab.role}</div>}
+                    {localSettings.organizationAccount.members.map((member) => {
+                      const isSelf = member.userId === localSettings.personalAccount.userId;
+                      const canRemove = isSelf || localSettings.organizationAccount!.role === "owner";
+                      return (
+                        <div key={member.userId} className="collaborator-item">
+                          <div className="collaborator-info">
+                            <div className="collaborator-name">
+                              {member.name}
+                              {isSelf ? " (you)" : ""}
+                            </div>
+                            <div className="collaborator-email">{member.email}</div>
+                            <div className="collaborator-role">{member.role}</div>
+                          </div>
+                          {canRemove && (
+                            <button className="btn-remove" onClick={() => handleRemoveCollaborator(member.userId)}>
+                              {isSelf ? "Leave" : "Remove"}
+                            </button>
+                          )}
                         </div>
-                        <button
-                          className="btn-remove"
-                          onClick={() => handleRemoveCollaborator(collab.id)}
-                        >
-                          Remove
-                        </button>
-                      </div>
-                    ))}
-                    {localSettings.organizationAccount.collaborators.length === 0 && (
-                      <p className="empty-state">No collaborators yet. Add one to get started.</p>
-                    )}
+                      );
+                    })}
                   </div>
                 </div>
               </>
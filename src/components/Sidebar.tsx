@@ -1,5 +1,6 @@
-import { LayoutDashboard, Settings, Calendar, Clock } from "lucide-react";
+import { LayoutDashboard, Settings, Calendar, Clock, Network, Store } from "lucide-react";
 import SidebarEventList from "./SidebarEventList";
+import SyncStatusIndicator from "./SyncStatusIndicator";
 import type { PlannerEvent, ActiveView, SidebarState, AccountSettings } from "../types";
 
 /**
@@ -128,6 +129,24 @@ export default function Sidebar({
 
         <div style={{ flex: 1 }} />
 
+        {/* Vendor Directory */}
+        <div
+          className={`nav-item ${activeView.kind === "vendors" ? "active" : ""}`}
+          onClick={() => onNavigate({ kind: "vendors" })}
+        >
+          <Store size={18} />
+          <span>Vendors</span>
+        </div>
+
+        {/* Knowledge Graph */}
+        <div
+          className={`nav-item ${activeView.kind === "knowledge" ? "active" : ""}`}
+          onClick={() => onNavigate({ kind: "knowledge" })}
+        >
+          <Network size={18} />
+          <span>Knowledge Graph</span>
+        </div>
+
         {/* Settings */}
         <div
           className={`nav-item ${activeView.kind === "settings" ? "active" : ""}`}
@@ -136,6 +155,8 @@ export default function Sidebar({
           <Settings size={18} />
           <span>Settings</span>
         </div>
+
+        <SyncStatusIndicator />
       </div>
     </>
   );
@@ -0,0 +1,114 @@
+import { useState, useEffect } from "react";
+import { Cloud, CloudOff, HardDrive, Loader, AlertCircle, RefreshCw } from "lucide-react";
+import { getSyncStatus, syncNow, dismissSyncConflicts, onSyncStatus, isElectron } from "../lib/electronBridge";
+import type { SyncStatus, SyncState } from "../types";
+
+/** STATE_LABELS -> Short label per sync state. */
+const STATE_LABELS: Record<SyncState, string> = {
+  "local-only": "Local only",
+  offline: "Offline",
+  syncing: "Syncing…",
+  synced: "Synced",
+  error: "Sync error",
+};
+
+/** REASON_LABELS -> Why a change could not be pushed as made. */
+const REASON_LABELS: Record<"changed" | "deleted" | "rejected", string> = {
+  changed: "also changed elsewhere, kept their version",
+  deleted: "deleted elsewhere",
+  rejected: "rejected by the server",
+};
+
+/**
+ * SyncStatusIndicator -> Sidebar badge for the offline-first local database: sync state,
+ * unsynced changes and conflicts. Click to expand details and sync now.
+ */
+export default function SyncStatusIndicator() {
+  const [status, setStatus] = useState<SyncStatus | null>(null);
+  const [expanded, setExpanded] = useState(false);
+
+  useEffect(() => {
+    if (!isElectron()) return;
+    getSyncStatus().then((s) => s && setStatus(s));
+    return onSyncStatus(setStatus);
+  }, []);
+
+  if (!status) return null;
+
+  const Icon =
+    status.state === "syncing"
+      ? Loader
+      : status.state === "offline"
+        ? CloudOff
+        : status.state === "local-only"
+          ? HardDrive
+          : status.state === "error" || status.conflicts.length > 0
+            ? AlertCircle
+            : Cloud;
+
+  return (
+    <div className={`sync-status sync-status--${status.state}`}>
+      <button type="button" className="sync-status-badge" onClick={() => setExpanded((v) => !v)}>
+        <Icon size={14} className={status.state === "syncing" ? "spin" : undefined} />
+        <span>{STATE_LABELS[status.state]}</span>
+        {status.pending > 0 && <span className="sync-status-count">{status.pending} unsynced</span>}
+        {status.conflicts.length > 0 && (
+          <span className="sync-status-count sync-status-count--alert">{status.conflicts.length} conflicts</span>
+        )}
+      </button>
+
+      {expanded && (
+        <div className="sync-status-details">
+          {status.state === "local-only" ? (
+            <p>Supabase is not configured. Everything is saved on this machine only.</p>
+          ) : status.state === "offline" ? (
+            <p>Can't reach Supabase. Changes are saved locally and will sync when you're back online.</p>
+          ) : (
+            <p>
+              {status.lastSyncedAt
+                ? `Last synced ${new Date(status.lastSyncedAt).toLocaleTimeString()}`
+                : "Not synced yet"}
+            </p>
+          )}
+          {status.error && <p className="approval-error">{status.error}</p>}
+          <p className="sync-status-note">
+            Agents work from this local copy too, and their changes sync like yours. Agent runs, approvals and AI
+            usage are kept in Supabase only, so running agents needs a connection.
+          </p>
+
+          {status.conflicts.length > 0 && (
+            <ul className="sync-status-conflicts">
+              {status.conflicts.map((c, i) => (
+                <li key={`${c.rowId}-${i}`}>
+                  <strong>{c.label}</strong>
+                  {c.fields.length > 0 && ` (${c.fields.map((f) => f.replace(/_/g, " ")).join(", ")})`}
+                  {" — "}
+                  {c.message ?? REASON_LABELS[c.reason]}
+                </li>
+              ))}
+            </ul>
+          )}
+
+          <div className="sync-status-actions">
+            {status.conflicts.length > 0 && (
+              <button type="button" className="btn-secondary btn-sm" onClick={() => dismissSyncConflicts()}>
+                Dismiss
+              </button>
+            )}
+            {status.state !== "local-only" && (
+              <button
+                type="button"
+                className="btn-secondary btn-sm"
+                onClick={() => syncNow()}
+                disabled={status.state === "syncing"}
+              >
+                <RefreshCw size={12} />
+                Sync now
+              </button>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -72,7 +72,7 @@ export default function TaskDetailView({
       if (debounceRef.current) clearTimeout(debounceRef.current);
       debounceRef.current = setTimeout(async () => {
         await updateTaskBody(task.id, value);
-        onUpdateTask(task.id, { body: value });
+        onUpdateTask(task.id, { body: value, bodyUserEdited: true });
         setSaveState("saved");
         setTimeout(() => setSaveState("idle"), 2000);
       }, 800);
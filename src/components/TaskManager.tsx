@@ -1,7 +1,9 @@
 import { useState } from "react";
-import { CheckCircle2, Circle, AlertCircle, Plus, Edit2, ChevronDown, ChevronRight, Users, Building2, Calendar, Package, MessageSquare } from "lucide-react";
+import { CheckCircle2, Circle, AlertCircle, Plus, Edit2, ChevronDown, ChevronRight, Users, Building2, Calendar, Package, MessageSquare, Bot, Sparkles, Loader } from "lucide-react";
 import { formatDueDateDisplay } from "../lib/dateUtils";
-import type { Task, PlannerEvent, AccountSettings, TaskStatus, ActiveView, AgentId } from "../types";
+import { generateSubtasks, isElectron } from "../lib/electronBridge";
+import { newRecordId } from "../lib/taskSync";
+import type { Task, PlannerEvent, AccountSettings, TaskStatus, ActiveView, AgentId, TaskSyncConflict } from "../types";
 
 /** AGENT_GROUPS -> Ordered agent sections for the task list. */
 const AGENT_GROUPS: { id: AgentId; label: string; Icon: React.ElementType; color: string }[] = [
@@ -23,8 +25,10 @@ interface TaskManagerProps {
   onNavigate: (view: ActiveView) => void;
   /** onUpdateEvent -> Callback to update the event */
   onUpdateEvent: (updates: Partial<PlannerEvent>) => void;
-  /** taskSyncInProgress -> Disable toggle/delete to prevent duplicate syncs */
-  taskSyncInProgress?: boolean;
+  /** taskSyncConflicts -> Edits that clashed with changes made elsewhere (the saved values were kept) */
+  taskSyncConflicts?: TaskSyncConflict[];
+  /** onDismissTaskSyncConflicts -> Clear the conflict notice */
+  onDismissTaskSyncConflicts?: () => void;
 }
 
 /**
@@ -35,7 +39,8 @@ export default function TaskManager({
   accountSettings,
   onNavigate,
   onUpdateEvent,
-  taskSyncInProgress = false,
+  taskSyncConflicts = [],
+  onDismissTaskSyncConflicts,
 }: TaskManagerProps) {
   const [showAddTask, setShowAddTask] = useState(false);
   const [editingTaskId, setEditingTaskId] = useState<string | null>(null);
@@ -49,6 +54,15 @@ export default function TaskManager({
   });
 
   const tasks = event.tasks || [];
+  const tasksById = new Map(tasks.map((t) => [t.id, t]));
+  /** dependentsById -> taskId -> tasks that list it as a dependency (reverse edges) */
+  const dependentsById = new Map<string, Task[]>();
+  for (const t of tasks) {
+    for (const depId of t.dependencies) {
+      if (!dependentsById.has(depId)) dependentsById.set(depId, []);
+      dependentsById.get(depId)!.push(t);
+    }
+  }
   const eventDate = event.formData.eventDate ? new Date(event.formData.eventDate) : null;
   const maxDueDate = eventDate ? eventDate.toISOString().split("T")[0] : undefined;
 
@@ -68,7 +82,7 @@ export default function TaskManager({
     }
 
     const task: Task = {
-      id: `task-${Date.now()}`,
+      id: newRecordId(),
       title: newTask.title,
       description: newTask.description || undefined,
       status: "todo",
@@ -136,7 +150,6 @@ export default function TaskManager({
   };
 
   const handleToggleTask = (taskId: string) => {
-    if (taskSyncInProgress) return;
     const updatedTasks = tasks.map((task) => {
       if (task.id === taskId) {
         const newStatus: TaskStatus =
@@ -155,9 +168,15 @@ export default function TaskManager({
   };
 
   const handleRemoveTask = (taskId: string) => {
-    if (taskSyncInProgress) return;
+    // Drop edges to the removed task so dependents are not left waiting on it
     onUpdateEvent({
-      tasks: tasks.filter((t) => t.id !== taskId),
+      tasks: tasks
+        .filter((t) => t.id !== taskId)
+        .map((t) =>
+          t.dependencies.includes(taskId)
+            ? { ...t, dependencies: t.dependencies.filter((id) => id !== taskId) }
+            : t
+        ),
     });
   };
 
@@ -180,7 +199,6 @@ export default function TaskManager({
   };
 
   const handleToggleSubtask = (taskId: string, subtaskId: string) => {
-    if (taskSyncInProgress) return;
     const updatedTasks = tasks.map((task) => {
       if (task.id === taskId && task.subtasks) {
         const updatedSubtasks = task.subtasks.map((subtask) => {
@@ -230,6 +248,34 @@ export default function TaskManager({
     onNavigate({ kind: "agent-category-chat", evtId: event.evtId, agentId });
   };
 
+  const [suggestingSubtasksFor, setSuggestingSubtasksFor] = useState<string | null>(null);
+
+  /** handleSuggestSubtasks -> Ask the AI for subtasks and append the ones the task doesn't have yet. */
+  const handleSuggestSubtasks = async (task: Task) => {
+    setSuggestingSubtasksFor(task.id);
+    try {
+      const suggestions = await generateSubtasks(task.title, { evtId: event.evtId, taskId: task.id });
+      const existing = new Set((task.subtasks ?? []).map((s) => s.title.trim().toLowerCase()));
+      const added = suggestions
+        .filter((s) => !existing.has(s.title.trim().toLowerCase()))
+        .map((s) => ({ id: newRecordId(), title: s.title, status: "todo" as const }));
+      if (added.length === 0) return;
+      onUpdateEvent({
+        tasks: tasks.map((t) =>
+          t.id === task.id ? { ...t, subtasks: [...(t.subtasks ?? []), ...added] } : t
+        ),
+      });
+      setExpandedTasks((prev) => new Set(prev).add(task.id));
+    } finally {
+      setSuggestingSubtasksFor(null);
+    }
+  };
+
+  /** handleAgentRun -> Open the agent group view with Run/Stop controls for autonomous execution. */
+  const handleAgentRun = (agentId: AgentId) => {
+    onNavigate({ kind: "agent-detail", evtId: event.evtId, agentId });
+  };
+
   return (
     <div className="task-manager-full-page">
       <div className="task-manager-header">
@@ -243,6 +289,32 @@ export default function TaskManager({
         </button>
       </div>
 
+      {taskSyncConflicts.length > 0 && (
+        <div className="task-sync-conflicts" role="alert">
+          <AlertCircle size={16} />
+          <div className="task-sync-conflicts-body">
+            <p>Some of your changes clashed with edits made elsewhere. The saved version was kept for:</p>
+            <ul>
+              {taskSyncConflicts.map((c, i) => (
+                <li key={`${c.taskId}-${i}`}>
+                  <strong>{c.title}</strong>
+                  {c.reason === "deleted"
+                    ? " — deleted elsewhere"
+                    : c.fields.length > 0
+                      ? ` — ${c.fields.map((f) => f.replace(/_/g, " ")).join(", ")}`
+                      : " — changed elsewhere, so it was not removed"}
+                </li>
+              ))}
+            </ul>
+          </div>
+          {onDismissTaskSyncConflicts && (
+            <button type="button" className="btn-secondary btn-sm" onClick={onDismissTaskSyncConflicts}>
+              Dismiss
+            </button>
+          )}
+        </div>
+      )}
+
       {showAddTask && (
         <div className="add-task-form">
           <div className="add-task-field-group">
@@ -364,6 +436,14 @@ export default function TaskManager({
                     <MessageSquare size={14} />
                     Chat
                   </button>
+                  <button
+                    type="button"
+                    className="task-agent-group-action-btn"
+                    onClick={() => handleAgentRun(groupId)}
+                  >
+                    <Bot size={14} />
+                    Agent
+                  </button>
                 </div>
               </div>
               {!isCollapsed && (
@@ -380,9 +460,7 @@ export default function TaskManager({
                   type="button"
                   className="task-checkbox"
                   onClick={() => handleToggleTask(task.id)}
-                  disabled={taskSyncInProgress}
                   aria-label={task.status === "done" ? "Mark not done" : "Mark done"}
-                  title={taskSyncInProgress ? "Syncing…" : undefined}
                 >
                   {task.status === "done" ? (
                     <CheckCircle2 size={20} />
@@ -489,6 +567,20 @@ export default function TaskManager({
                               {task.priority === 2 ? "High" : task.priority === 1 ? "Medium" : "Low"}
                             </span>
                           )}
+                          {isElectron() && (
+                            <button
+                              className="task-edit-btn"
+                              onClick={() => handleSuggestSubtasks(task)}
+                              disabled={suggestingSubtasksFor === task.id}
+                              title="Suggest subtasks"
+                            >
+                              {suggestingSubtasksFor === task.id ? (
+                                <Loader size={14} className="spin" />
+                              ) : (
+                                <Sparkles size={14} />
+                              )}
+                            </button>
+                          )}
                           <button
                             className="task-edit-btn"
                             onClick={() => handleStartEdit(task)}
@@ -521,9 +613,44 @@ export default function TaskManager({
                           <span>Blocked by {task.blockers.length} task(s)</span>
                         </div>
                       )}
-                      {task.dependencies.length > 0 && (
+                      {(task.dependencies.length > 0 || (dependentsById.get(task.id)?.length ?? 0) > 0) && (
                         <div className="task-dependencies">
-                          <span>Depends on {task.dependencies.length} task(s)</span>
+                          {task.dependencies.length > 0 && (
+                            <div className="task-dependency-row">
+                              <span className="task-dependency-label">Depends on</span>
+                              {task.dependencies.map((depId) => {
+                                const dep = tasksById.get(depId);
+                                if (!dep) return null;
+                                return (
+                                  <button
+                                    key={depId}
+                                    type="button"
+                                    className={`task-dependency-chip ${dep.status === "done" ? "done" : ""}`}
+                                    onClick={() => handleTaskClick(dep)}
+                                    title={dep.status === "done" ? "Done" : "Not done yet"}
+                                  >
+                                    {dep.status === "done" ? <CheckCircle2 size={11} /> : <Circle size={11} />}
+                                    {dep.title}
+                                  </button>
+                                );
+                              })}
+                            </div>
+                          )}
+                          {(dependentsById.get(task.id)?.length ?? 0) > 0 && (
+                            <div className="task-dependency-row">
+                              <span className="task-dependency-label">Unblocks</span>
+                              {dependentsById.get(task.id)!.map((dependent) => (
+                                <button
+                                  key={dependent.id}
+                                  type="button"
+                                  className="task-dependency-chip"
+                                  onClick={() => handleTaskClick(dependent)}
+                                >
+                                  {dependent.title}
+                                </button>
+                              ))}
+                            </div>
+                          )}
                         </div>
                       )}
                       {task.subtasks && task.subtasks.length > 0 && (
@@ -574,9 +701,8 @@ export default function TaskManager({
                   type="button"
                   className="task-remove"
                   onClick={() => handleRemoveTask(task.id)}
-                  disabled={taskSyncInProgress}
                   aria-label="Remove task"
-                  title={taskSyncInProgress ? "Syncing…" : "Remove task"}
+                  title="Remove task"
                 >
                   ×
                 </button>
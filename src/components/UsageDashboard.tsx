@@ -0,0 +1,268 @@
+import { useState, useEffect } from "react";
+import { Loader, RefreshCw } from "lucide-react";
+import { getUsageSummary, setEventAiBudget, isElectron } from "../lib/electronBridge";
+import type { AiUsageSummary, AiUsageTotals } from "../types";
+
+/**
+ * UsageDashboardProps -> Derived from `Usage` + `Dashboard` + `Props`.
+ */
+interface UsageDashboardProps {
+  /** monthlyBudgetUsd -> Current global monthly budget (null = no cap) */
+  monthlyBudgetUsd: number | null;
+  /** onMonthlyBudgetChange -> Persist a new global monthly budget */
+  onMonthlyBudgetChange: (budgetUsd: number | null) => void;
+}
+
+/** formatUsd -> "$1.23"; sub-cent amounts keep more precision so small runs don't show $0.00. */
+function formatUsd(value: number): string {
+  return value > 0 && value < 0.01 ? `$${value.toFixed(4)}` : `$${value.toFixed(2)}`;
+}
+
+/** formatTokens -> Compact token count, e.g. 12.3k. */
+function formatTokens(totals: AiUsageTotals): string {
+  const total = totals.inputTokens + totals.outputTokens;
+  return total >= 1000 ? `${(total / 1000).toFixed(1)}k` : String(total);
+}
+
+/** parseBudget -> Empty input clears the budget; otherwise a non-negative number. */
+function parseBudget(raw: string): number | null | undefined {
+  if (!raw.trim()) return null;
+  const value = Number(raw);
+  return Number.isFinite(value) && value >= 0 ? value : undefined;
+}
+
+/**
+ * UsageDashboard -> AI token/cost roll-ups (month, event, run, task) and budget controls.
+ * Rendered in Settings; data comes from the ai_usage_by_* views via IPC.
+ */
+export default function UsageDashboard({ monthlyBudgetUsd, onMonthlyBudgetChange }: UsageDashboardProps) {
+  const [summary, setSummary] = useState<AiUsageSummary | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [monthlyDraft, setMonthlyDraft] = useState(monthlyBudgetUsd != null ? String(monthlyBudgetUsd) : "");
+  /** eventDrafts -> eventId -> budget input being edited */
+  const [eventDrafts, setEventDrafts] = useState<Record<string, string>>({});
+
+  /** refresh -> Reload all roll-ups. */
+  const refresh = async () => {
+    if (!isElectron()) return;
+    setLoading(true);
+    try {
+      const result = await getUsageSummary();
+      setError(result.error ?? null);
+      if (result.summary) setSummary(result.summary);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    refresh();
+  }, []);
+
+  useEffect(() => {
+    setMonthlyDraft(monthlyBudgetUsd != null ? String(monthlyBudgetUsd) : "");
+  }, [monthlyBudgetUsd]);
+
+  /** handleMonthlyBudgetBlur -> Save the global budget when the input loses focus. */
+  const handleMonthlyBudgetBlur = () => {
+    const value = parseBudget(monthlyDraft);
+    if (value === undefined || value === monthlyBudgetUsd) return;
+    onMonthlyBudgetChange(value);
+  };
+
+  /** handleEventBudgetBlur -> Save an event budget when its input loses focus. */
+  const handleEventBudgetBlur = async (eventId: string, current: number | null) => {
+    const raw = eventDrafts[eventId];
+    if (raw === undefined) return;
+    const value = parseBudget(raw);
+    if (value === undefined || value === current) return;
+    const result = await setEventAiBudget(eventId, value);
+    if (result.error) {
+      setError(result.error);
+      return;
+    }
+    await refresh();
+  };
+
+  if (!isElectron()) {
+    return (
+      <div className="connectors-empty">
+        <p>AI usage is only available in the Electron desktop app.</p>
+      </div>
+    );
+  }
+
+  const monthSpent = summary?.currentMonthCostUsd ?? 0;
+  const monthPct = monthlyBudgetUsd ? Math.min(100, (monthSpent / monthlyBudgetUsd) * 100) : 0;
+
+  return (
+    <div className="usage-dashboard">
+      {/* This month vs. global budget */}
+      <div className="usage-month">
+        <div className="usage-month-figures">
+          <span className="usage-month-spent">{formatUsd(monthSpent)}</span>
+          <span className="usage-month-label">
+            spent this month{monthlyBudgetUsd ? ` of ${formatUsd(monthlyBudgetUsd)}` : ""}
+          </span>
+          <button
+            type="button"
+            className="btn-secondary btn-sm usage-refresh"
+            onClick={refresh}
+            disabled={loading}
+            title="Refresh"
+          >
+            {loading ? <Loader size={13} className="spin" /> : <RefreshCw size={13} />}
+          </button>
+        </div>
+        {monthlyBudgetUsd ? (
+          <div className="usage-bar">
+            <div
+              className={`usage-bar-fill ${monthPct >= 100 ? "over" : monthPct >= 80 ? "warn" : ""}`}
+              style={{ width: `${monthPct}%` }}
+            />
+          </div>
+        ) : null}
+        <div className="info-row">
+          <label>Monthly budget (USD)</label>
+          <input
+            type="number"
+            min={0}
+            step="1"
+            placeholder="No limit"
+            value={monthlyDraft}
+            onChange={(e) => setMonthlyDraft(e.target.value)}
+            onBlur={handleMonthlyBudgetBlur}
+          />
+        </div>
+      </div>
+
+      {error && <p className="approval-error">{error}</p>}
+
+      {/* Per event, with editable event budgets */}
+      <h3 className="usage-heading">By event</h3>
+      {summary && summary.events.length > 0 ? (
+        <table className="usage-table">
+          <thead>
+            <tr>
+              <th>Event</th>
+              <th>Calls</th>
+              <th>Tokens</th>
+              <th>Cost</th>
+              <th>Budget (USD)</th>
+            </tr>
+          </thead>
+          <tbody>
+            {summary.events.map((row) => {
+              const over = row.budgetUsd != null && row.budgetUsd > 0 && row.costUsd >= row.budgetUsd;
+              return (
+                <tr key={row.eventId} className={over ? "over-budget" : ""}>
+                  <td>{row.eventName}</td>
+                  <td>{row.callCount}</td>
+                  <td>{formatTokens(row)}</td>
+                  <td>{formatUsd(row.costUsd)}</td>
+                  <td>
+                    <input
+                      type="number"
+                      min={0}
+                      step="0.5"
+                      placeholder="No limit"
+                      value={eventDrafts[row.eventId] ?? (row.budgetUsd != null ? String(row.budgetUsd) : "")}
+                      onChange={(e) =>
+                        setEventDrafts((prev) => ({ ...prev, [row.eventId]: e.target.value }))
+                      }
+                      onBlur={() => handleEventBudgetBlur(row.eventId, row.budgetUsd)}
+                    />
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      ) : (
+        <p className="usage-empty">No AI usage recorded yet.</p>
+      )}
+
+      {/* Recent runs and most expensive tasks */}
+      {summary && summary.runs.length > 0 && (
+        <>
+          <h3 className="usage-heading">Recent runs</h3>
+          <table className="usage-table">
+            <thead>
+              <tr>
+                <th>Started</th>
+                <th>Agent</th>
+                <th>Status</th>
+                <th>Tokens</th>
+                <th>Cost</th>
+              </tr>
+            </thead>
+            <tbody>
+              {summary.runs.map((row) => (
+                <tr key={row.runId}>
+                  <td>{row.startedAt ? new Date(row.startedAt).toLocaleString() : "—"}</td>
+                  <td>{row.agentId ?? "all"}</td>
+                  <td>{row.runStatus}</td>
+                  <td>{formatTokens(row)}</td>
+                  <td>{formatUsd(row.costUsd)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </>
+      )}
+
+      {summary && summary.tasks.length > 0 && (
+        <>
+          <h3 className="usage-heading">Most expensive tasks</h3>
+          <table className="usage-table">
+            <thead>
+              <tr>
+                <th>Task</th>
+                <th>Calls</th>
+                <th>Tokens</th>
+                <th>Cost</th>
+              </tr>
+            </thead>
+            <tbody>
+              {summary.tasks.map((row) => (
+                <tr key={row.taskId}>
+                  <td>{row.taskTitle}</td>
+                  <td>{row.callCount}</td>
+                  <td>{formatTokens(row)}</td>
+                  <td>{formatUsd(row.costUsd)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </>
+      )}
+
+      {summary && summary.months.length > 1 && (
+        <>
+          <h3 className="usage-heading">By month</h3>
+          <table className="usage-table">
+            <thead>
+              <tr>
+                <th>Month</th>
+                <th>Calls</th>
+                <th>Tokens</th>
+                <th>Cost</th>
+              </tr>
+            </thead>
+            <tbody>
+              {summary.months.map((row) => (
+                <tr key={row.month}>
+                  <td>{row.month.slice(0, 7)}</td>
+                  <td>{row.callCount}</td>
+                  <td>{formatTokens(row)}</td>
+                  <td>{formatUsd(row.costUsd)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </>
+      )}
+    </div>
+  );
+}
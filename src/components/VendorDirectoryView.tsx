@@ -0,0 +1,397 @@
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { ArrowLeft, ExternalLink, Loader, Pencil, Plus, Search, Star, Store, Trash2 } from "lucide-react";
+import { addVendor, fetchVendors, removeVendor, updateVendor } from "../lib/eventsDb";
+import { VENDOR_CATEGORIES, categoryLabel, formatPriceRange, vendorMatches } from "../lib/vendors";
+import { onSyncPulled, onVendorsChanged, syncNow } from "../lib/electronBridge";
+import type { AccountSettings, ActiveView, PlannerEvent, Vendor, VendorCategory } from "../types";
+
+/**
+ * VendorDirectoryViewProps -> Derived from `Vendor` + `Directory` + `View` + `Props`.
+ */
+interface VendorDirectoryViewProps {
+  /** events -> All events, for naming the events each vendor was used for */
+  events: PlannerEvent[];
+  /** accountSettings -> Owner and organization of new vendors */
+  accountSettings: AccountSettings;
+  /** onNavigate -> Navigation callback (back to dashboard, open an event or task) */
+  onNavigate: (view: ActiveView) => void;
+}
+
+/** VendorDraft -> The add / edit form; numbers stay text until saved. */
+interface VendorDraft {
+  name: string;
+  categories: VendorCategory[];
+  contactName: string;
+  email: string;
+  phone: string;
+  website: string;
+  priceMin: string;
+  priceMax: string;
+  priceNotes: string;
+  rating: string;
+  notes: string;
+  /** shared -> Share a new vendor with the organization */
+  shared: boolean;
+}
+
+const EMPTY_DRAFT: VendorDraft = {
+  name: "",
+  categories: [],
+  contactName: "",
+  email: "",
+  phone: "",
+  website: "",
+  priceMin: "",
+  priceMax: "",
+  priceNotes: "",
+  rating: "",
+  notes: "",
+  shared: true,
+};
+
+/** draftFromVendor -> The form pre-filled with a vendor's fields. */
+function draftFromVendor(vendor: Vendor): VendorDraft {
+  return {
+    name: vendor.name,
+    categories: vendor.categories,
+    contactName: vendor.contactName ?? "",
+    email: vendor.email ?? "",
+    phone: vendor.phone ?? "",
+    website: vendor.website ?? "",
+    priceMin: vendor.priceMin != null ? String(vendor.priceMin) : "",
+    priceMax: vendor.priceMax != null ? String(vendor.priceMax) : "",
+    priceNotes: vendor.priceNotes ?? "",
+    rating: vendor.rating ? String(vendor.rating) : "",
+    notes: vendor.notes ?? "",
+    shared: !!vendor.orgId,
+  };
+}
+
+/**
+ * VendorDirectoryView -> The vendor directory shared across events: caterers, venues, DJs
+ * and the rest, with contact details, price range, rating and notes, and the events and
+ * tasks each was used for. Vendors added here (or saved by the Venue & Catering and
+ * Entertainment & Logistics agents) are suggested when planning new events.
+ */
+export default function VendorDirectoryView({ events, accountSettings, onNavigate }: VendorDirectoryViewProps) {
+  const [vendors, setVendors] = useState<Vendor[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [search, setSearch] = useState("");
+  const [category, setCategory] = useState<VendorCategory | "all">("all");
+  // editing -> The open form: a new vendor (no id) or an existing one
+  const [editing, setEditing] = useState<{ id?: string; draft: VendorDraft } | null>(null);
+
+  const userId = accountSettings.personalAccount.userId;
+  const org = accountSettings.organizationAccount;
+
+  const load = useCallback(async () => {
+    try {
+      setVendors(await fetchVendors());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  // Agent writes go to Supabase; pull them into the local database, then reload
+  useEffect(() => {
+    const unsubPulled = onSyncPulled(load);
+    const unsubChanged = onVendorsChanged(() => {
+      syncNow().then(load);
+    });
+    return () => {
+      unsubPulled();
+      unsubChanged();
+    };
+  }, [load]);
+
+  const visible = useMemo(
+    () => vendors.filter((v) => vendorMatches(v, search, category === "all" ? undefined : category)),
+    [vendors, search, category]
+  );
+
+  const eventByUuid = useMemo(
+    () => new Map(events.filter((e) => e.eventUuid).map((e) => [e.eventUuid!, e])),
+    [events]
+  );
+
+  /** save -> Run one change, then reload; errors are shown instead of thrown. */
+  const save = async (change: () => Promise<unknown>) => {
+    setError(null);
+    try {
+      await change();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    }
+    await load();
+  };
+
+  const handleSubmit = () => {
+    if (!editing || !editing.draft.name.trim()) return;
+    const { id, draft } = editing;
+    const amount = (text: string) => (text.trim() === "" ? undefined : Number(text));
+    const fields = {
+      name: draft.name,
+      categories: draft.categories,
+      contactName: draft.contactName,
+      email: draft.email,
+      phone: draft.phone,
+      website: draft.website,
+      priceMin: amount(draft.priceMin),
+      priceMax: amount(draft.priceMax),
+      priceNotes: draft.priceNotes,
+      rating: draft.rating ? Number(draft.rating) : undefined,
+      notes: draft.notes,
+    };
+    save(async () => {
+      if (id) await updateVendor(id, fields);
+      else await addVendor(fields, { userId, orgId: draft.shared ? org?.orgId : undefined });
+      setEditing(null);
+    });
+  };
+
+  /** canDelete -> The creator, or an owner of the organization the vendor is shared with (migration 019). */
+  const canDelete = (vendor: Vendor) =>
+    !vendor.ownerId || vendor.ownerId === userId || (!!vendor.orgId && vendor.orgId === org?.orgId && org.role === "owner");
+
+  const setDraft = (patch: Partial<VendorDraft>) => setEditing((prev) => prev && { ...prev, draft: { ...prev.draft, ...patch } });
+
+  const renderForm = () => {
+    if (!editing) return null;
+    const { draft } = editing;
+    return (
+      <div className="vendor-form">
+        <div className="vendor-form-grid">
+          <input type="text" placeholder="Name" value={draft.name} onChange={(e) => setDraft({ name: e.target.value })} />
+          <input
+            type="text"
+            placeholder="Contact person"
+            value={draft.contactName}
+            onChange={(e) => setDraft({ contactName: e.target.value })}
+          />
+          <input type="email" placeholder="Email" value={draft.email} onChange={(e) => setDraft({ email: e.target.value })} />
+          <input type="tel" placeholder="Phone" value={draft.phone} onChange={(e) => setDraft({ phone: e.target.value })} />
+          <input
+            type="url"
+            placeholder="Website or booking link"
+            value={draft.website}
+            onChange={(e) => setDraft({ website: e.target.value })}
+          />
+          <select value={draft.rating} onChange={(e) => setDraft({ rating: e.target.value })}>
+            <option value="">Not rated</option>
+            {[5, 4, 3, 2, 1].map((r) => (
+              <option key={r} value={r}>
+                {r} / 5
+              </option>
+            ))}
+          </select>
+          <input
+            type="number"
+            min={0}
+            step="0.01"
+            placeholder="Price from ($)"
+            value={draft.priceMin}
+            onChange={(e) => setDraft({ priceMin: e.target.value })}
+          />
+          <input
+            type="number"
+            min={0}
+            step="0.01"
+            placeholder="Price to ($)"
+            value={draft.priceMax}
+            onChange={(e) => setDraft({ priceMax: e.target.value })}
+          />
+          <input
+            type="text"
+            placeholder="Per (e.g. per head, per hour)"
+            value={draft.priceNotes}
+            onChange={(e) => setDraft({ priceNotes: e.target.value })}
+          />
+        </div>
+        <div className="vendor-category-picker">
+          {VENDOR_CATEGORIES.map((c) => (
+            <label key={c.id}>
+              <input
+                type="checkbox"
+                checked={draft.categories.includes(c.id)}
+                onChange={(e) =>
+                  setDraft({
+                    categories: e.target.checked
+                      ? [...draft.categories, c.id]
+                      : draft.categories.filter((existing) => existing !== c.id),
+                  })
+                }
+              />
+              {c.label}
+            </label>
+          ))}
+        </div>
+        <textarea
+          placeholder="Notes: menu, capacity, terms, how it went"
+          value={draft.notes}
+          onChange={(e) => setDraft({ notes: e.target.value })}
+          rows={3}
+        />
+        <div className="vendor-form-actions">
+          {!editing.id && org && (
+            <label className="form-hint">
+              <input type="checkbox" checked={draft.shared} onChange={(e) => setDraft({ shared: e.target.checked })} />
+              Share with {org.name}
+            </label>
+          )}
+          <button type="button" className="btn-secondary" onClick={() => setEditing(null)}>
+            Cancel
+          </button>
+          <button type="button" className="btn-primary" onClick={handleSubmit} disabled={!draft.name.trim()}>
+            {editing.id ? "Save" : "Add Vendor"}
+          </button>
+        </div>
+      </div>
+    );
+  };
+
+  return (
+    <div className="knowledge-view vendors-view">
+      <div className="settings-header">
+        <button className="settings-back-btn" onClick={() => onNavigate({ kind: "dashboard" })}>
+          <ArrowLeft size={18} />
+        </button>
+        <h1>Vendors</h1>
+        <div className="knowledge-header-actions">
+          <button type="button" className="btn-secondary btn-sm" onClick={() => setEditing({ draft: EMPTY_DRAFT })}>
+            <Plus size={13} /> Add vendor
+          </button>
+        </div>
+      </div>
+
+      <p className="settings-description">
+        Caterers, venues, DJs and everyone else you have worked with, shared across events. The Venue & Catering and
+        Entertainment & Logistics agents look here first and save the vendors they find; past vendors are suggested
+        on new events.
+      </p>
+
+      {error && <p className="approval-error">{error}</p>}
+      {editing && !editing.id && renderForm()}
+
+      <div className="vendor-filters">
+        <div className="knowledge-search">
+          <Search size={14} />
+          <input value={search} onChange={(e) => setSearch(e.target.value)} placeholder="Search vendors…" />
+        </div>
+        <select value={category} onChange={(e) => setCategory(e.target.value as VendorCategory | "all")}>
+          <option value="all">All categories</option>
+          {VENDOR_CATEGORIES.map((c) => (
+            <option key={c.id} value={c.id}>
+              {c.label}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {loading ? (
+        <p className="knowledge-empty">
+          <Loader size={13} className="spin" /> Loading…
+        </p>
+      ) : visible.length === 0 ? (
+        <p className="knowledge-empty">
+          <Store size={16} />
+          {vendors.length === 0
+            ? "No vendors yet. Add the ones you have worked with, or let the agents save them as they book."
+            : "No vendors match."}
+        </p>
+      ) : (
+        <ul className="vendor-list">
+          {visible.map((vendor) =>
+            editing?.id === vendor.id ? (
+              <li key={vendor.id} className="vendor-card">
+                {renderForm()}
+              </li>
+            ) : (
+              <li key={vendor.id} className="vendor-card">
+                <div className="vendor-card-header">
+                  <span className="vendor-name">{vendor.name}</span>
+                  {vendor.rating && (
+                    <span className="vendor-rating" title={`Rated ${vendor.rating}/5`}>
+                      <Star size={12} /> {vendor.rating}
+                    </span>
+                  )}
+                  {vendor.categories.map((c) => (
+                    <span key={c} className="vendor-category-badge">
+                      {categoryLabel(c)}
+                    </span>
+                  ))}
+                  <div className="vendor-card-actions">
+                    <button
+                      type="button"
+                      className="btn-remove"
+                      title="Edit"
+                      onClick={() => setEditing({ id: vendor.id, draft: draftFromVendor(vendor) })}
+                    >
+                      <Pencil size={13} />
+                    </button>
+                    {canDelete(vendor) && (
+                      <button
+                        type="button"
+                        className="btn-remove"
+                        title="Delete vendor"
+                        onClick={() => save(() => removeVendor(vendor.id))}
+                      >
+                        <Trash2 size={13} />
+                      </button>
+                    )}
+                  </div>
+                </div>
+                <div className="vendor-meta">
+                  {formatPriceRange(vendor) && <span>{formatPriceRange(vendor)}</span>}
+                  {vendor.contactName && <span>{vendor.contactName}</span>}
+                  {vendor.email && <a href={`mailto:${vendor.email}`} className="overview-link">{vendor.email}</a>}
+                  {vendor.phone && <span>{vendor.phone}</span>}
+                  {vendor.website && (
+                    <a href={vendor.website} target="_blank" rel="noopener noreferrer" className="overview-link">
+                      Website <ExternalLink size={11} />
+                    </a>
+                  )}
+                </div>
+                {vendor.notes && <p className="vendor-notes">{vendor.notes}</p>}
+                {vendor.links.length > 0 && (
+                  <div className="vendor-used-at">
+                    <span className="form-hint">Used for</span>
+                    {vendor.links.map((link) => {
+                      const linkedEvent = eventByUuid.get(link.eventUuid);
+                      if (!linkedEvent) return null;
+                      const task = link.taskId ? linkedEvent.tasks?.find((t) => t.id === link.taskId) : undefined;
+                      return (
+                        <button
+                          key={link.id}
+                          type="button"
+                          className="vendor-event-chip"
+                          onClick={() =>
+                            onNavigate(
+                              task
+                                ? { kind: "task-detail", evtId: linkedEvent.evtId, taskId: task.id }
+                                : { kind: "event-chat", evtId: linkedEvent.evtId }
+                            )
+                          }
+                        >
+                          {linkedEvent.formData.eventReason || "Untitled event"}
+                          {linkedEvent.formData.eventDate && ` · ${linkedEvent.formData.eventDate}`}
+                          {task && ` · ${task.title}`}
+                        </button>
+                      );
+                    })}
+                  </div>
+                )}
+              </li>
+            )
+          )}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,168 @@
+/**
+ * auth — Supabase Auth sign-in and the account behind it: the user's profile, the
+ * organization they belong to and its members (migration 013). Row-level security limits
+ * every query to the user's own events and their organization's events. In Electron the
+ * session is handed to the main process, so agent runs and the background sync run as the
+ * same user. Functions throw on errors.
+ */
+import type { Session, SupabaseClient } from "@supabase/supabase-js";
+import { supabase } from "./supabase";
+import { setAuthSession } from "./electronBridge";
+import type { AccountSettings, OrgMember, OrgRole } from "../types";
+
+/** MembershipRow -> organization_members row with its organization embedded. */
+interface MembershipRow {
+  org_id: string;
+  role: OrgRole;
+  organizations: { name: string; email: string } | null;
+}
+
+/** MemberRow -> organization_members row with the member's profile embedded. */
+interface MemberRow {
+  user_id: string;
+  role: OrgRole;
+  profiles: { name: string; email: string } | null;
+}
+
+/** isAuthEnabled -> Sign-in is required whenever the app is connected to Supabase. */
+export function isAuthEnabled(): boolean {
+  return !!supabase && import.meta.env.VITE_EVENTROPY_STORAGE !== "memory";
+}
+
+function client(): SupabaseClient {
+  if (!supabase) throw new Error("Supabase is not configured (VITE_SUPABASE_URL, VITE_SUPABASE_PUBLISHABLE_KEY).");
+  return supabase;
+}
+
+/** forwardSession -> Keep the Electron main process on the same user and access token. */
+function forwardSession(session: Session | null): Promise<void> {
+  return setAuthSession(session ? { accessToken: session.access_token, userId: session.user.id } : null);
+}
+
+/**
+ * onAuthChange -> Called with the current session straight away and again on sign-in,
+ * sign-out and token refresh, after the main process has the new session.
+ * Returns an unsubscribe function.
+ */
+export function onAuthChange(callback: (session: Session | null) => void): () => void {
+  if (!supabase) return () => {};
+  const { data } = supabase.auth.onAuthStateChange((_event, session) => {
+    forwardSession(session)
+      .catch((err) => console.warn("[Eventropy] Could not hand the session to the main process:", err))
+      .finally(() => callback(session));
+  });
+  return () => data.subscription.unsubscribe();
+}
+
+/** signIn -> Email + password sign-in. */
+export async function signIn(email: string, password: string): Promise<void> {
+  const { error } = await client().auth.signInWithPassword({ email: email.trim(), password });
+  if (error) throw error;
+}
+
+/**
+ * signUp -> Create an account. The profile is created by the database (migration 013).
+ * @returns needsConfirmation -> true when the project requires email confirmation first
+ */
+export async function signUp(email: string, password: string, name: string): Promise<{ needsConfirmation: boolean }> {
+  const { data, error } = await client().auth.signUp({
+    email: email.trim(),
+    password,
+    options: { data: { name: name.trim() } },
+  });
+  if (error) throw error;
+  return { needsConfirmation: !data.session };
+}
+
+/** signOut -> End the session on this device. */
+export async function signOut(): Promise<void> {
+  const { error } = await client().auth.signOut();
+  if (error) throw error;
+}
+
+/**
+ * fetchAccount -> Profile and organization of a signed-in user. The account type follows
+ * from membership: a member of an organization works in it, everyone else is personal.
+ */
+export async function fetchAccount(user: { id: string; email?: string }): Promise<AccountSettings> {
+  const sb = client();
+  const [{ data: profile, error: profileErr }, { data: memberships, error: membershipErr }] = await Promise.all([
+    sb.from("profiles").select("name, email").eq("id", user.id).maybeSingle(),
+    sb
+      .from("organization_members")
+      .select("org_id, role, organizations(name, email)")
+      .eq("user_id", user.id)
+      .order("created_at")
+      .limit(1)
+      .overrideTypes<MembershipRow[], { merge: false }>(),
+  ]);
+  if (profileErr) throw profileErr;
+  if (membershipErr) throw membershipErr;
+
+  const personalAccount = {
+    userId: user.id,
+    name: profile?.name ?? "",
+    email: profile?.email || user.email || "",
+  };
+  const membership = memberships?.[0];
+  if (!membership) return { currentAccount: "personal", personalAccount };
+
+  return {
+    currentAccount: "organization",
+    personalAccount,
+    organizationAccount: {
+      orgId: membership.org_id,
+      role: membership.role,
+      name: membership.organizations?.name ?? "",
+      email: membership.organizations?.email ?? "",
+      members: await fetchOrganizationMembers(membership.org_id),
+    },
+  };
+}
+
+/** fetchOrganizationMembers -> Members of an organization, oldest first. */
+async function fetchOrganizationMembers(orgId: string): Promise<OrgMember[]> {
+  const { data, error } = await client()
+    .from("organization_members")
+    .select("user_id, role, profiles(name, email)")
+    .eq("org_id", orgId)
+    .order("created_at")
+    .overrideTypes<MemberRow[], { merge: false }>();
+  if (error) throw error;
+  return (data ?? []).map((m) => ({
+    userId: m.user_id,
+    name: m.profiles?.name || m.profiles?.email || "Unknown",
+    email: m.profiles?.email ?? "",
+    role: m.role,
+  }));
+}
+
+/** updateProfile -> Save the signed-in user's display name. */
+export async function updateProfile(userId: string, patch: { name: string }): Promise<void> {
+  const { error } = await client().from("profiles").update(patch).eq("id", userId);
+  if (error) throw error;
+}
+
+/** createOrganization -> Create an organization with the signed-in user as its owner. */
+export async function createOrganization(name: string, email: string): Promise<void> {
+  const { error } = await client().rpc("create_organization", { org_name: name, org_email: email });
+  if (error) throw error;
+}
+
+/** updateOrganization -> Rename an organization or change its contact email (owners only). */
+export async function updateOrganization(orgId: string, patch: { name?: string; email?: string }): Promise<void> {
+  const { error } = await client().from("organizations").update(patch).eq("id", orgId);
+  if (error) throw error;
+}
+
+/** addOrganizationMember -> Add an existing Eventropy user by email (owners only). */
+export async function addOrganizationMember(orgId: string, email: string, role: OrgRole = "member"): Promise<void> {
+  const { error } = await client().rpc("add_organization_member", { org: orgId, member_email: email, member_role: role });
+  if (error) throw error;
+}
+
+/** removeOrganizationMember -> Remove a member (owners), or leave the organization (yourself). */
+export async function removeOrganizationMember(orgId: string, userId: string): Promise<void> {
+  const { error } = await client().from("organization_members").delete().eq("org_id", orgId).eq("user_id", userId);
+  if (error) throw error;
+}
@@ -0,0 +1,117 @@
+/**
+ * budget — Budget ledger helpers (budget_items, migration 018): totals per agent category,
+ * the projected spend against EventFormData.budget, over-budget alerts and the burn-down
+ * of what is left as payments go out. A line's projected cost is what was committed or
+ * paid once there is either, and its estimate until then.
+ */
+import type { AgentId, BudgetItem, EventStatus } from "../types";
+
+/** BudgetTotals -> Sums over budget lines. */
+export interface BudgetTotals {
+  estimated: number;
+  committed: number;
+  paid: number;
+  /** projected -> Sum of projectedCost */
+  projected: number;
+}
+
+/** BudgetAlertLevel -> ok, warning (projected spend is within 10% of the budget) or over. */
+export type BudgetAlertLevel = "ok" | "warning" | "over";
+
+/** BudgetHealth -> The ledger against the event's budget (level is ok when there is no budget). */
+export interface BudgetHealth {
+  totals: BudgetTotals;
+  budget?: number;
+  /** remaining -> Budget minus projected spend (negative when over) */
+  remaining?: number;
+  level: BudgetAlertLevel;
+}
+
+/** BurnDownPoint -> Budget left after the payments made up to a date. */
+export interface BurnDownPoint {
+  date: string;
+  remaining: number;
+}
+
+/** WARNING_SHARE -> Share of the budget projected spend may reach before the ledger warns. */
+const WARNING_SHARE = 0.9;
+
+/** projectedCost -> What a line is expected to cost: the larger of committed and paid, else the estimate. */
+export function projectedCost(item: Pick<BudgetItem, "estimated" | "committed" | "paid">): number {
+  const firm = Math.max(item.committed, item.paid);
+  return firm > 0 ? firm : item.estimated;
+}
+
+/** budgetTotals -> Estimated, committed, paid and projected sums of budget lines. */
+export function budgetTotals(items: BudgetItem[]): BudgetTotals {
+  return items.reduce<BudgetTotals>(
+    (sum, item) => ({
+      estimated: sum.estimated + item.estimated,
+      committed: sum.committed + item.committed,
+      paid: sum.paid + item.paid,
+      projected: sum.projected + projectedCost(item),
+    }),
+    { estimated: 0, committed: 0, paid: 0, projected: 0 }
+  );
+}
+
+/** budgetByAgent -> Lines and totals per agent category, in the order given (categories without lines are left out). */
+export function budgetByAgent(
+  items: BudgetItem[],
+  agentIds: readonly AgentId[]
+): { agentId: AgentId; items: BudgetItem[]; totals: BudgetTotals }[] {
+  return agentIds
+    .map((agentId) => {
+      const lines = items.filter((item) => item.agentId === agentId);
+      return { agentId, items: lines, totals: budgetTotals(lines) };
+    })
+    .filter((group) => group.items.length > 0);
+}
+
+/** budgetHealth -> Compare projected spend with the event's budget. */
+export function budgetHealth(budget: number | undefined, items: BudgetItem[]): BudgetHealth {
+  const totals = budgetTotals(items);
+  if (!budget || budget <= 0) return { totals, level: "ok" };
+  const level: BudgetAlertLevel =
+    totals.projected > budget ? "over" : totals.projected >= budget * WARNING_SHARE ? "warning" : "ok";
+  return { totals, budget, remaining: budget - totals.projected, level };
+}
+
+/**
+ * shouldFlagAtRisk -> Whether being over budget should move the event to at-risk. Complete
+ * events and events already at risk are left alone; nothing moves an event back automatically.
+ */
+export function shouldFlagAtRisk(status: EventStatus, health: BudgetHealth): boolean {
+  return health.level === "over" && status !== "at-risk" && status !== "complete";
+}
+
+/**
+ * budgetBurnDown -> Budget left after each payment date, starting from the full budget on
+ * `from`. Payments without a date count on the day the line was added.
+ */
+export function budgetBurnDown(budget: number, items: BudgetItem[], from: string): BurnDownPoint[] {
+  const paidByDate = new Map<string, number>();
+  for (const item of items) {
+    if (item.paid <= 0) continue;
+    const date = (item.paidAt || item.createdAt).slice(0, 10);
+    paidByDate.set(date, (paidByDate.get(date) ?? 0) + item.paid);
+  }
+  const start = [...paidByDate.keys(), from.slice(0, 10)].sort()[0];
+  const points: BurnDownPoint[] = [{ date: start, remaining: budget }];
+  let remaining = budget;
+  for (const date of [...paidByDate.keys()].sort()) {
+    remaining -= paidByDate.get(date)!;
+    points.push({ date, remaining });
+  }
+  return points;
+}
+
+/** formatMoney -> Whole dollars, e.g. "$1,250" (cents only when there are any). */
+export function formatMoney(amount: number): string {
+  const negative = amount < 0;
+  const text = Math.abs(amount).toLocaleString(undefined, {
+    minimumFractionDigits: Number.isInteger(amount) ? 0 : 2,
+    maximumFractionDigits: 2,
+  });
+  return `${negative ? "-" : ""}$${text}`;
+}
@@ -0,0 +1,20 @@
+/**
+ * csv — Writing CSV files that open safely in spreadsheets: quoting, and a guard against
+ * cells a spreadsheet would run as a formula. Used by the guest list and run sheet exports.
+ */
+
+/**
+ * csvCell -> Quote a value when needed; values a spreadsheet would run as a formula (starting
+ * with = + - @, tab or CR) are prefixed with '. Phone numbers like "+1 (555) 010-2030" are
+ * left as they are: digits and phone punctuation alone cannot call a function.
+ */
+export function csvCell(value: string): string {
+  const isPhone = /^\+[\d ().-]+$/.test(value);
+  const safe = /^[=+\-@\t\r]/.test(value) && !isPhone ? `'${value}` : value;
+  return /[",\r\n]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+}
+
+/** toCsv -> Rows of cells as a CSV document (CRLF line endings, trailing newline). */
+export function toCsv(rows: string[][]): string {
+  return rows.map((row) => row.map(csvCell).join(",")).join("\r\n") + "\r\n";
+}
@@ -23,3 +23,38 @@ export function getDaysUntilDue(dueDate: string): number {
   const diff = date.getTime() - now.getTime();
   return Math.ceil(diff / (1000 * 60 * 60 * 24));
 }
+
+/**
+ * Whole calendar days from one date to another (date parts only, YYYY-MM-DD).
+ * Negative when `to` is before `from`; null if either is not a date.
+ */
+export function daysBetweenDates(from: string, to: string): number | null {
+  const a = parseYmd(from);
+  const b = parseYmd(to);
+  if (!a || !b) return null;
+  return Math.round((Date.UTC(b[0], b[1] - 1, b[2]) - Date.UTC(a[0], a[1] - 1, a[2])) / (1000 * 60 * 60 * 24));
+}
+
+/**
+ * Shift a date (YYYY-MM-DD) by a number of days, returning YYYY-MM-DD.
+ * Returns null if the date cannot be parsed.
+ */
+export function addDaysToDate(date: string, days: number): string | null {
+  const ymd = parseYmd(date);
+  if (!ymd) return null;
+  return new Date(Date.UTC(ymd[0], ymd[1] - 1, ymd[2] + days)).toISOString().slice(0, 10);
+}
+
+/**
+ * Local calendar date as YYYY-MM-DD (today by default), comparable with event dates.
+ */
+export function toLocalDateString(date: Date = new Date()): string {
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, "0")}-${String(date.getDate()).padStart(2, "0")}`;
+}
+
+function parseYmd(date: string): [number, number, number] | null {
+  const ymd = date.trim().slice(0, 10);
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(ymd)) return null;
+  const [y, m, d] = ymd.split("-").map(Number);
+  return [y, m, d];
+}
@@ -9,31 +9,168 @@ import type {
   ConnectorStatus,
   EventFormData,
   ChatToolTurn,
+  EventDetailChange,
+  ReplanChange,
+  EventRetro,
+  KnowledgeGraph,
+  KnowledgeInsight,
+  KnowledgeNode,
+  Task,
+  TaskProgressUpdate,
+  OrchestratorStatus,
+  AppSettings,
+  SyncStatus,
+  SchemaStatus,
+  AiUsageSummary,
+  AiUsagePurpose,
+  ToolApproval,
+  ToolApprovalDecision,
 } from "../types";
+import type { LumaGuest } from "./guests";
 
 // ── Type declaration for the global electronAPI exposed by preload.cjs ──────
 
 interface ElectronOrchestratorAPI {
   planEvent(eventId: string, formData: EventFormData): Promise<{ success?: boolean; error?: string; tasks: PlanTaskResult[] }>;
+  getEventRetro(eventId: string): Promise<{ retro: EventRetro | null; error?: string }>;
+  generateEventRetro(eventId: string): Promise<{ success?: boolean; retro?: EventRetro; error?: string }>;
+  getLumaRsvps(eventId: string, lumaEventId: string): Promise<{ success?: boolean; guests?: LumaGuest[]; error?: string }>;
+  pickGuestImportFile(): Promise<{ filename?: string; content?: string; cancelled?: boolean; error?: string }>;
+  exportGuestsCsv(defaultName: string, content: string): Promise<{ success?: boolean; filePath?: string; cancelled?: boolean; error?: string }>;
+  exportRunSheetCsv(defaultName: string, content: string): Promise<{ success?: boolean; filePath?: string; cancelled?: boolean; error?: string }>;
+  getKnowledgeGraph(): Promise<{ graph: KnowledgeGraph }>;
+  rebuildKnowledgeGraph(): Promise<KnowledgeGraphResult & { eventCount?: number }>;
+  queryKnowledge(payload: { text: string; agentId?: string }): Promise<{ success?: boolean; topics: string[]; insights: KnowledgeInsight[] }>;
+  updateKnowledgeNode(payload: { nodeId: string; updates: KnowledgeNodeUpdate }): Promise<{ success?: boolean; node?: KnowledgeNode; error?: string }>;
+  setKnowledgeHidden(payload: { kind: "node" | "edge"; id: string; hidden: boolean }): Promise<KnowledgeGraphResult>;
+  mergeKnowledgeNodes(payload: { fromId: string; intoId: string }): Promise<KnowledgeGraphResult>;
+  addKnowledgeEdge(payload: { from: string; to: string; type: string }): Promise<KnowledgeGraphResult>;
+  replanEvent(payload: ReplanPayload): Promise<{ success?: boolean; error?: string; changes: ReplanChange[] }>;
   categoryChat(payload: CategoryChatPayload): Promise<CategoryChatResult>;
+  cancelCategoryChat(requestId: string): Promise<{ success?: boolean; error?: string }>;
   updateTaskBody(taskId: string, body: string): Promise<{ success?: boolean; error?: string }>;
   getTaskMessages(taskId: string): Promise<{ messages: OrchestratorMessage[] }>;
+  runOrchestrator(eventId: string, agentId?: string): Promise<OrchestratorRunResult>;
+  stopOrchestrator(eventId: string, agentId?: string): Promise<OrchestratorRunResult>;
+  resumeOrchestrator(eventId: string, agentId?: string): Promise<OrchestratorRunResult>;
+  getOrchestratorStatus(eventId: string, agentId?: string): Promise<OrchestratorRunResult>;
+  setAuthSession(session: { accessToken: string; userId: string } | null): Promise<{ success?: boolean }>;
+  localDbQuery(query: LocalDbQuery): Promise<LocalDbResult>;
+  getSyncStatus(): Promise<{ status: SyncStatus }>;
+  syncNow(): Promise<{ success?: boolean; status?: SyncStatus }>;
+  dismissSyncConflicts(): Promise<{ success?: boolean }>;
+  onSyncStatus(callback: (status: SyncStatus) => void): () => void;
+  onSyncPulled(callback: () => void): () => void;
+  getSchemaStatus(): Promise<{ status?: SchemaStatus; error?: string }>;
+  runMigrations(): Promise<MigrationRunResult>;
+  getAppSettings(): Promise<{ settings: AppSettings }>;
+  updateAppSettings(updates: Partial<AppSettings>): Promise<{ success?: boolean; settings?: AppSettings; error?: string }>;
+  generateSubtasks(payload: { evtId?: string; taskId?: string; taskTitle: string }): Promise<{ success?: boolean; error?: string; subtasks: { title: string }[] }>;
+  getModelRoutes(): Promise<{ routes: AiModelRoute[] }>;
+  getUsageSummary(eventId?: string): Promise<{ summary?: AiUsageSummary; error?: string }>;
+  setEventAiBudget(eventId: string, budgetUsd: number | null): Promise<{ success?: boolean; error?: string }>;
   getNotifications(eventId: string): Promise<{ notifications: OrchestratorNotification[] }>;
   markNotificationRead(notificationId: string): Promise<{ success?: boolean }>;
+  respondToNotification(notificationId: string, response: string): Promise<{ success?: boolean; error?: string }>;
+  listApprovals(eventId?: string): Promise<{ approvals: ToolApproval[] }>;
+  decideApproval(approvalId: string, decision: ToolApprovalDecision): Promise<{ success?: boolean; error?: string }>;
   getConnectorStatuses(): Promise<{ connectors: ConnectorStatus[] }>;
-  saveConnectorConfig(connectorId: string, config: Record<string, unknown>): Promise<{ success?: boolean }>;
+  saveConnectorConfig(connectorId: string, config: Record<string, unknown>): Promise<{ success?: boolean; error?: string }>;
   saveConnectorSecret(connectorId: string, secretKey: string, secretValue: string): Promise<{ success?: boolean }>;
   testConnector(connectorId: string): Promise<{ ok: boolean; error?: string }>;
   toggleConnector(connectorId: string, enabled: boolean): Promise<{ success?: boolean }>;
   startOAuth(connectorId: string): Promise<{ success?: boolean; error?: string }>;
   onTaskBodyUpdated(callback: (data: { taskId: string; body: string }) => void): () => void;
+  onCategoryChatDelta(callback: (delta: CategoryChatDelta) => void): () => void;
   onTaskStatusUpdated(callback: (data: { taskId: string; status: string }) => void): () => void;
   onChatMessage(callback: (message: OrchestratorChatEvent) => void): () => void;
+  onTaskProgress(callback: (update: TaskProgressUpdate) => void): () => void;
+  onStatusChange(callback: (status: OrchestratorStatus) => void): () => void;
+  onNotification(callback: (notification: OrchestratorNotification) => void): () => void;
+  onApprovalRequest(callback: (approval: ToolApproval) => void): () => void;
   onEventDetailsUpdated(callback: (data: { evtId: string; updates: Record<string, string | undefined> }) => void): () => void;
+  onGuestsChanged(callback: (data: { evtId: string }) => void): () => void;
+  onBudgetChanged(callback: (data: { evtId: string }) => void): () => void;
+  onVendorsChanged(callback: (data: { evtId: string }) => void): () => void;
+  onRunOfShowChanged(callback: (data: { evtId: string }) => void): () => void;
+}
+
+/** OrchestratorRunResult -> Return shape from the run/stop/resume IPC handlers. */
+export interface OrchestratorRunResult {
+  success?: boolean;
+  error?: string;
+  /** status -> Status of the requested agent lane (only when an agentId was given) */
+  status?: OrchestratorStatus;
+  /** statuses -> Status of every lane the command touched */
+  statuses?: OrchestratorStatus[];
+}
+
+/** AiModelRoute -> Provider/model chain used for one AI purpose (first available entry is tried first). */
+export interface AiModelRoute {
+  purpose: AiUsagePurpose;
+  models: Array<{ provider: string; model: string }>;
+}
+
+/** ReplanPayload -> Old vs. new event details and the current plan for a replanning pass. */
+export interface ReplanPayload {
+  /** evtId -> Event slug or UUID (usage is billed to the event) */
+  evtId: string;
+  /** formData -> Event details after the change */
+  formData: EventFormData;
+  detailChanges: EventDetailChange[];
+  tasks: Task[];
+}
+
+/** KnowledgeNodeUpdate -> User correction to a knowledge graph node. */
+export interface KnowledgeNodeUpdate {
+  label?: string;
+  type?: KnowledgeNode["type"];
+  /** props -> Values to set; null removes an earlier correction */
+  props?: Record<string, unknown>;
+}
+
+/** KnowledgeGraphResult -> Result of a graph change; carries the updated graph on success. */
+export interface KnowledgeGraphResult {
+  success?: boolean;
+  graph?: KnowledgeGraph;
+  error?: string;
+}
+
+/** LocalDbQuery -> A query built by localDbClient, run by electron/localDb.cjs. */
+export interface LocalDbQuery {
+  table: string;
+  action: "select" | "insert" | "upsert" | "update" | "delete";
+  /** columns -> Selected columns ("*" or "a, b") */
+  columns?: string;
+  /** returning -> `.select()` was chained after a write */
+  returning?: boolean;
+  filters: { column: string; op: "eq" | "in"; value: unknown }[];
+  order?: { column: string; ascending: boolean };
+  limit?: number;
+  single?: "single" | "maybeSingle";
+  values?: Record<string, unknown> | Record<string, unknown>[];
+  onConflict?: string;
+  ignoreDuplicates?: boolean;
+}
+
+/** LocalDbResult -> Supabase-style `{ data, error }` result of a local query. */
+export interface LocalDbResult {
+  data: unknown;
+  error: { message: string } | null;
+}
+
+/** MigrationRunResult -> Migrations applied by migrations:run; error names the one that failed. */
+export interface MigrationRunResult {
+  success?: boolean;
+  error?: string;
+  applied: string[];
+  status?: SchemaStatus;
 }
 
 /** CategoryChatPayload -> Event + task context for category agent chat. */
 export interface CategoryChatPayload {
+  /** requestId -> Keys streamed deltas and cancellation for this chat turn */
+  requestId?: string;
   /** evtId -> Event slug or UUID so the backend can resolve and query tasks */
   evtId: string;
   agentId: string;
@@ -48,9 +185,16 @@ export interface CategoryChatResult {
   content?: string;
   /** toolTurns -> Ordered list of tool calls the AI made during this response */
   toolTurns?: ChatToolTurn[];
+  /** cancelled -> The user stopped the chat; content/toolTurns hold what was produced so far */
+  cancelled?: boolean;
   error?: string;
 }
 
+/** CategoryChatDelta -> Streaming update pushed on "category-chat:delta" while a chat is in flight. */
+export type CategoryChatDelta =
+  | { requestId: string; type: "text"; text: string }
+  | { requestId: string; type: "tool_turn"; toolTurn: ChatToolTurn };
+
 /** PlanTaskResult -> Shape of a task returned from the AI planning call. */
 export interface PlanTaskResult {
   title: string;
@@ -74,7 +218,7 @@ export interface OrchestratorChatEvent {
   createdAt: string;
 }
 
-/** OrchestratorNotification -> Human-in-the-loop prompt (legacy, kept for warm-restart). */
+/** OrchestratorNotification -> Human-in-the-loop prompt; open ones survive app restarts (warm restart). */
 export interface OrchestratorNotification {
   id: string;
   eventId: string;
@@ -116,6 +260,138 @@ export async function planEvent(
   return window.electronAPI!.planEvent(eventId, formData);
 }
 
+/**
+ * getEventRetro -> The stored post-event retrospective, or null when none exists yet.
+ */
+export async function getEventRetro(eventId: string): Promise<EventRetro | null> {
+  if (!isElectron()) return null;
+  const result = await window.electronAPI!.getEventRetro(eventId);
+  return result.retro;
+}
+
+/**
+ * getLumaRsvps -> Registrations of a Luma event (luma_get_rsvps), to reconcile with an
+ * event's guest list. Needs the Luma connector.
+ */
+export async function getLumaRsvps(
+  eventId: string,
+  lumaEventId: string
+): Promise<{ success?: boolean; guests?: LumaGuest[]; error?: string }> {
+  if (!isElectron()) return { error: "Not running in Electron." };
+  return window.electronAPI!.getLumaRsvps(eventId, lumaEventId);
+}
+
+/** pickGuestImportFile -> Let the user pick a CSV or vCard guest list and read it. */
+export async function pickGuestImportFile(): Promise<{ filename?: string; content?: string; cancelled?: boolean; error?: string }> {
+  if (!isElectron()) return { error: "Not running in Electron." };
+  return window.electronAPI!.pickGuestImportFile();
+}
+
+/** exportGuestsCsv -> Save a guest list CSV where the user picks (native save dialog). */
+export async function exportGuestsCsv(
+  defaultName: string,
+  content: string
+): Promise<{ success?: boolean; filePath?: string; cancelled?: boolean; error?: string }> {
+  if (!isElectron()) return { error: "Not running in Electron." };
+  return window.electronAPI!.exportGuestsCsv(defaultName, content);
+}
+
+/** exportRunSheetCsv -> Save a run-of-show CSV where the user picks (native save dialog). */
+export async function exportRunSheetCsv(
+  defaultName: string,
+  content: string
+): Promise<{ success?: boolean; filePath?: string; cancelled?: boolean; error?: string }> {
+  if (!isElectron()) return { error: "Not running in Electron." };
+  return window.electronAPI!.exportRunSheetCsv(defaultName, content);
+}
+
+/**
+ * generateEventRetro -> Analyse a past event (tasks, agent activity, goals, Luma RSVPs)
+ * and store the retrospective. Replaces any earlier retro and sets retro_created.
+ */
+export async function generateEventRetro(
+  eventId: string
+): Promise<{ success?: boolean; retro?: EventRetro; error?: string }> {
+  if (!isElectron()) return { error: "Not running in Electron." };
+  return window.electronAPI!.generateEventRetro(eventId);
+}
+
+/**
+ * getKnowledgeGraph -> Every node and edge of the cross-event knowledge graph.
+ */
+export async function getKnowledgeGraph(): Promise<KnowledgeGraph | null> {
+  if (!isElectron()) return null;
+  const result = await window.electronAPI!.getKnowledgeGraph();
+  return result.graph;
+}
+
+/**
+ * rebuildKnowledgeGraph -> Re-derive the graph from all events. User corrections are kept.
+ */
+export async function rebuildKnowledgeGraph(): Promise<KnowledgeGraphResult & { eventCount?: number }> {
+  if (!isElectron()) return { error: "Not running in Electron." };
+  return window.electronAPI!.rebuildKnowledgeGraph();
+}
+
+/**
+ * queryKnowledge -> Past-event insights an agent working on `text` would be given.
+ */
+export async function queryKnowledge(text: string, agentId?: string): Promise<KnowledgeInsight[]> {
+  if (!isElectron()) return [];
+  const result = await window.electronAPI!.queryKnowledge({ text, agentId });
+  return result.insights || [];
+}
+
+/**
+ * updateKnowledgeNode -> Correct a node. A props value of null removes that correction.
+ */
+export async function updateKnowledgeNode(
+  nodeId: string,
+  updates: KnowledgeNodeUpdate
+): Promise<{ success?: boolean; node?: KnowledgeNode; error?: string }> {
+  if (!isElectron()) return { error: "Not running in Electron." };
+  return window.electronAPI!.updateKnowledgeNode({ nodeId, updates });
+}
+
+/**
+ * setKnowledgeHidden -> Hide a node or edge from agents (hidden: false restores it).
+ */
+export async function setKnowledgeHidden(
+  kind: "node" | "edge",
+  id: string,
+  hidden: boolean
+): Promise<KnowledgeGraphResult> {
+  if (!isElectron()) return { error: "Not running in Electron." };
+  return window.electronAPI!.setKnowledgeHidden({ kind, id, hidden });
+}
+
+/**
+ * mergeKnowledgeNodes -> Fold duplicate `fromId` into `intoId`.
+ */
+export async function mergeKnowledgeNodes(fromId: string, intoId: string): Promise<KnowledgeGraphResult> {
+  if (!isElectron()) return { error: "Not running in Electron." };
+  return window.electronAPI!.mergeKnowledgeNodes({ fromId, intoId });
+}
+
+/**
+ * addKnowledgeEdge -> Add a relationship the automatic ingest missed.
+ */
+export async function addKnowledgeEdge(from: string, to: string, type: string): Promise<KnowledgeGraphResult> {
+  if (!isElectron()) return { error: "Not running in Electron." };
+  return window.electronAPI!.addKnowledgeEdge({ from, to, type });
+}
+
+/**
+ * replanEvent -> Propose task changes (add / remove / redate / reprioritize) after
+ * event details changed. Done and user-edited tasks are never targeted.
+ */
+export async function replanEvent(
+  payload: ReplanPayload
+): Promise<{ success?: boolean; error?: string; changes: ReplanChange[] }> {
+  if (!isElectron()) return { error: "Not running in Electron.", changes: [] };
+  return window.electronAPI!.replanEvent(payload);
+}
+
 /**
  * categoryChat -> Chat with the category agent using task read/write tools.
  * The agent can list tasks, read task bodies, write to task bodies, and update statuses.
@@ -127,6 +403,17 @@ export async function categoryChat(
   return window.electronAPI!.categoryChat(payload);
 }
 
+/**
+ * cancelCategoryChat -> Abort an in-flight category chat (model request and tool loop).
+ * The pending categoryChat() call resolves with `cancelled: true`.
+ */
+export async function cancelCategoryChat(
+  requestId: string
+): Promise<{ success?: boolean; error?: string }> {
+  if (!isElectron()) return { error: "Not running in Electron." };
+  return window.electronAPI!.cancelCategoryChat(requestId);
+}
+
 /**
  * updateTaskBody -> Update the task document body from the renderer.
  * Called when the user edits the task document textarea (debounced).
@@ -150,6 +437,204 @@ export async function getTaskMessages(
   return result.messages;
 }
 
+/**
+ * runOrchestrator -> Start a new autonomous run over the event's AI-assigned tasks.
+ * With an agentId only that agent group's lane runs; without one every lane with
+ * unfinished AI tasks starts in parallel (up to the concurrency cap in Settings).
+ * Returns immediately; progress arrives via onTaskProgress / onStatusChange.
+ */
+export async function runOrchestrator(
+  eventId: string,
+  agentId?: string
+): Promise<OrchestratorRunResult> {
+  if (!isElectron()) return { error: "Not running in Electron." };
+  return window.electronAPI!.runOrchestrator(eventId, agentId);
+}
+
+/**
+ * stopOrchestrator -> Pause one lane (or all lanes of the event) after the current step.
+ */
+export async function stopOrchestrator(
+  eventId: string,
+  agentId?: string
+): Promise<OrchestratorRunResult> {
+  if (!isElectron()) return { error: "Not running in Electron." };
+  return window.electronAPI!.stopOrchestrator(eventId, agentId);
+}
+
+/**
+ * resumeOrchestrator -> Continue paused lane runs without creating new run records.
+ */
+export async function resumeOrchestrator(
+  eventId: string,
+  agentId?: string
+): Promise<OrchestratorRunResult> {
+  if (!isElectron()) return { error: "Not running in Electron." };
+  return window.electronAPI!.resumeOrchestrator(eventId, agentId);
+}
+
+/**
+ * getOrchestratorStatus -> Get the current status of one agent lane for an event.
+ */
+export async function getOrchestratorStatus(
+  eventId: string,
+  agentId?: string
+): Promise<OrchestratorStatus | null> {
+  if (!isElectron()) return null;
+  const result = await window.electronAPI!.getOrchestratorStatus(eventId, agentId);
+  return result.status ?? null;
+}
+
+/**
+ * getLaneStatuses -> Get the status of every agent lane that has a run for an event.
+ */
+export async function getLaneStatuses(eventId: string): Promise<OrchestratorStatus[]> {
+  if (!isElectron()) return [];
+  const result = await window.electronAPI!.getOrchestratorStatus(eventId);
+  return result.statuses ?? [];
+}
+
+/**
+ * setAuthSession -> Let the main process query (and sync) as the signed-in user.
+ * Pass null on sign-out.
+ */
+export async function setAuthSession(session: { accessToken: string; userId: string } | null): Promise<void> {
+  if (!isElectron()) return;
+  await window.electronAPI!.setAuthSession(session);
+}
+
+/**
+ * localDbQuery -> Run an eventsDb query against the local database in the main process.
+ */
+export async function localDbQuery(query: LocalDbQuery): Promise<LocalDbResult> {
+  if (!isElectron()) return { data: null, error: { message: "Not running in Electron." } };
+  return window.electronAPI!.localDbQuery(query);
+}
+
+/**
+ * getSyncStatus -> Current background sync state (null outside Electron).
+ */
+export async function getSyncStatus(): Promise<SyncStatus | null> {
+  if (!isElectron()) return null;
+  const result = await window.electronAPI!.getSyncStatus();
+  return result.status;
+}
+
+/**
+ * syncNow -> Push local changes and pull remote ones now.
+ */
+export async function syncNow(): Promise<SyncStatus | null> {
+  if (!isElectron()) return null;
+  const result = await window.electronAPI!.syncNow();
+  return result.status ?? null;
+}
+
+/**
+ * dismissSyncConflicts -> Clear the sync conflict list.
+ */
+export async function dismissSyncConflicts(): Promise<void> {
+  if (!isElectron()) return;
+  await window.electronAPI!.dismissSyncConflicts();
+}
+
+/**
+ * onSyncStatus -> Subscribe to sync state changes. Returns an unsubscribe function.
+ */
+export function onSyncStatus(callback: (status: SyncStatus) => void): () => void {
+  if (!isElectron()) return () => {};
+  return window.electronAPI!.onSyncStatus(callback);
+}
+
+/**
+ * onSyncPulled -> Subscribe to pulls that changed the local database (reload to see them).
+ * Returns an unsubscribe function.
+ */
+export function onSyncPulled(callback: () => void): () => void {
+  if (!isElectron()) return () => {};
+  return window.electronAPI!.onSyncPulled(callback);
+}
+
+/**
+ * getSchemaStatus -> Database schema version and pending migrations.
+ */
+export async function getSchemaStatus(): Promise<{ status?: SchemaStatus; error?: string }> {
+  if (!isElectron()) return { error: "Not running in Electron." };
+  return window.electronAPI!.getSchemaStatus();
+}
+
+/**
+ * runMigrations -> Apply pending migrations in order; stops at the first failure.
+ */
+export async function runMigrations(): Promise<MigrationRunResult> {
+  if (!isElectron()) return { error: "Not running in Electron.", applied: [] };
+  return window.electronAPI!.runMigrations();
+}
+
+/**
+ * getAppSettings -> Load app-wide settings (e.g. agent lane concurrency cap).
+ */
+export async function getAppSettings(): Promise<AppSettings | null> {
+  if (!isElectron()) return null;
+  const result = await window.electronAPI!.getAppSettings();
+  return result.settings;
+}
+
+/**
+ * updateAppSettings -> Persist app-wide settings; returns the merged settings.
+ */
+export async function updateAppSettings(
+  updates: Partial<AppSettings>
+): Promise<{ success?: boolean; settings?: AppSettings; error?: string }> {
+  if (!isElectron()) return { error: "Not running in Electron." };
+  return window.electronAPI!.updateAppSettings(updates);
+}
+
+/**
+ * generateSubtasks -> Suggest 3–5 subtask titles for a task. Runs in the main process
+ * (model chosen by the "subtasks" route) so no API key is exposed to the renderer.
+ */
+export async function generateSubtasks(
+  taskTitle: string,
+  context: { evtId?: string; taskId?: string } = {}
+): Promise<{ title: string }[]> {
+  if (!isElectron()) return [];
+  const result = await window.electronAPI!.generateSubtasks({ ...context, taskTitle });
+  if (result.error) console.warn("[Eventropy] Subtask generation failed:", result.error);
+  return result.subtasks ?? [];
+}
+
+/**
+ * getModelRoutes -> Which provider/model each AI purpose uses right now.
+ */
+export async function getModelRoutes(): Promise<AiModelRoute[]> {
+  if (!isElectron()) return [];
+  const result = await window.electronAPI!.getModelRoutes();
+  return result.routes;
+}
+
+/**
+ * getUsageSummary -> AI token/cost roll-ups per month, event, run and task.
+ * With an eventId the run and task lists only cover that event.
+ */
+export async function getUsageSummary(
+  eventId?: string
+): Promise<{ summary?: AiUsageSummary; error?: string }> {
+  if (!isElectron()) return { error: "Not running in Electron." };
+  return window.electronAPI!.getUsageSummary(eventId);
+}
+
+/**
+ * setEventAiBudget -> Set (or clear with null) the AI budget in USD for one event.
+ * Runs for the event pause with an error notification once it is reached.
+ */
+export async function setEventAiBudget(
+  eventId: string,
+  budgetUsd: number | null
+): Promise<{ success?: boolean; error?: string }> {
+  if (!isElectron()) return { error: "Not running in Electron." };
+  return window.electronAPI!.setEventAiBudget(eventId, budgetUsd);
+}
+
 /**
  * getNotifications -> Fetch all unresolved notifications for an event.
  */
@@ -169,6 +654,39 @@ export async function markNotificationRead(notificationId: string): Promise<void
   await window.electronAPI!.markNotificationRead(notificationId);
 }
 
+/**
+ * respondToNotification -> Answer an input_needed notification.
+ * The orchestrator unblocks the task and resumes if it was waiting.
+ */
+export async function respondToNotification(
+  notificationId: string,
+  response: string
+): Promise<{ success?: boolean; error?: string }> {
+  if (!isElectron()) return { error: "Not running in Electron." };
+  return window.electronAPI!.respondToNotification(notificationId, response);
+}
+
+/**
+ * listApprovals -> Fetch pending tool approvals, optionally filtered to one event.
+ */
+export async function listApprovals(eventId?: string): Promise<ToolApproval[]> {
+  if (!isElectron()) return [];
+  const result = await window.electronAPI!.listApprovals(eventId);
+  return result.approvals;
+}
+
+/**
+ * decideApproval -> Approve (optionally with edited arguments) or reject a queued tool call.
+ * The decision is returned to the agent as the tool_result and the task resumes.
+ */
+export async function decideApproval(
+  approvalId: string,
+  decision: ToolApprovalDecision
+): Promise<{ success?: boolean; error?: string }> {
+  if (!isElectron()) return { error: "Not running in Electron." };
+  return window.electronAPI!.decideApproval(approvalId, decision);
+}
+
 /**
  * getConnectorStatuses -> Get status of all connectors.
  */
@@ -246,6 +764,18 @@ export function onTaskBodyUpdated(
   return window.electronAPI!.onTaskBodyUpdated(callback);
 }
 
+/**
+ * onCategoryChatDelta -> Subscribe to streamed category chat text and tool turns.
+ * Deltas for every in-flight chat arrive here; filter by requestId.
+ * Returns an unsubscribe function.
+ */
+export function onCategoryChatDelta(
+  callback: (delta: CategoryChatDelta) => void
+): () => void {
+  if (!isElectron()) return () => {};
+  return window.electronAPI!.onCategoryChatDelta(callback);
+}
+
 /**
  * onTaskStatusUpdated -> Subscribe to task status changes pushed by the AI.
  * Fires when the category-chat agent calls update_task_status.
@@ -269,6 +799,50 @@ export function onChatMessage(
   return window.electronAPI!.onChatMessage(callback);
 }
 
+/**
+ * onTaskProgress -> Subscribe to task status/progress updates from the orchestrator.
+ * Returns an unsubscribe function.
+ */
+export function onTaskProgress(
+  callback: (update: TaskProgressUpdate) => void
+): () => void {
+  if (!isElectron()) return () => {};
+  return window.electronAPI!.onTaskProgress(callback);
+}
+
+/**
+ * onStatusChange -> Subscribe to orchestrator run state changes.
+ * Returns an unsubscribe function.
+ */
+export function onStatusChange(
+  callback: (status: OrchestratorStatus) => void
+): () => void {
+  if (!isElectron()) return () => {};
+  return window.electronAPI!.onStatusChange(callback);
+}
+
+/**
+ * onNotification -> Subscribe to new orchestrator notifications (e.g. input_needed).
+ * Returns an unsubscribe function.
+ */
+export function onNotification(
+  callback: (notification: OrchestratorNotification) => void
+): () => void {
+  if (!isElectron()) return () => {};
+  return window.electronAPI!.onNotification(callback);
+}
+
+/**
+ * onApprovalRequest -> Subscribe to side-effecting tool calls queued for approval.
+ * Returns an unsubscribe function.
+ */
+export function onApprovalRequest(
+  callback: (approval: ToolApproval) => void
+): () => void {
+  if (!isElectron()) return () => {};
+  return window.electronAPI!.onApprovalRequest(callback);
+}
+
 /**
  * onEventDetailsUpdated -> Subscribe to event detail changes pushed by the AI.
  * Fires when the category-chat agent calls update_event_details.
@@ -280,3 +854,39 @@ export function onEventDetailsUpdated(
   if (!isElectron()) return () => {};
   return window.electronAPI!.onEventDetailsUpdated(callback);
 }
+
+/**
+ * onGuestsChanged -> Subscribe to guest list changes made by the Guests agent
+ * (add_guest / update_rsvp). Returns an unsubscribe function.
+ */
+export function onGuestsChanged(callback: (data: { evtId: string }) => void): () => void {
+  if (!isElectron()) return () => {};
+  return window.electronAPI!.onGuestsChanged(callback);
+}
+
+/**
+ * onBudgetChanged -> Subscribe to budget ledger changes made by the General agent
+ * (record_quote / update_budget_item). Returns an unsubscribe function.
+ */
+export function onBudgetChanged(callback: (data: { evtId: string }) => void): () => void {
+  if (!isElectron()) return () => {};
+  return window.electronAPI!.onBudgetChanged(callback);
+}
+
+/**
+ * onVendorsChanged -> Subscribe to vendor directory changes made by the Venue & Catering or
+ * Entertainment & Logistics agents (save_vendor). Returns an unsubscribe function.
+ */
+export function onVendorsChanged(callback: (data: { evtId: string }) => void): () => void {
+  if (!isElectron()) return () => {};
+  return window.electronAPI!.onVendorsChanged(callback);
+}
+
+/**
+ * onRunOfShowChanged -> Subscribe to run-of-show changes made by the Entertainment &
+ * Logistics agent (add_segments, update_segment, remove_segment). Returns an unsubscribe function.
+ */
+export function onRunOfShowChanged(callback: (data: { evtId: string }) => void): () => void {
+  if (!isElectron()) return () => {};
+  return window.electronAPI!.onRunOfShowChanged(callback);
+}
@@ -1,95 +1,86 @@
 /**
- * eventsDb — Supabase fetch + map to app types (PlannerEvent, ChatMessage, Task, etc.)
+ * eventsDb — Reads and writes through the storage repos (./repos) and maps rows to app
+ * types (PlannerEvent, ChatMessage, Task, etc.)
  */
-import { supabase } from "./supabase";
+import { getRepos } from "./repos";
+import type {
+  EventRow,
+  ChatMessageRow,
+  TaskRow,
+  SubtaskRow,
+  DocumentRow,
+  CollaboratorRow,
+  EventTemplateRow,
+  EventSeriesRow,
+  EventSeriesPatch,
+  GuestRow,
+  GuestPatch,
+  RsvpRow,
+  RsvpPatch,
+  BudgetItemRow,
+  BudgetItemPatch,
+  VendorRow,
+  VendorLinkRow,
+  VendorPatch,
+  RunOfShowSegmentRow,
+  RunOfShowSegmentPatch,
+  NewEventRow,
+  EventPatch,
+} from "./repos";
+import { findDependencyCycle, describeDependencyCycle } from "./taskDependencies";
+import { templateFromEvent, tasksFromTemplate } from "./templates";
+import { reconcileLumaGuests, type LumaGuest } from "./guests";
+import { planGuestImport, type ImportedGuest } from "./guestImport";
+import {
+  diffTasks,
+  sameValue,
+  newRecordId,
+  taskToRowFields,
+  withPersistableIds,
+  type TaskRowFields,
+  type TaskUpdate,
+} from "./taskSync";
 import type {
   PlannerEvent,
   EventFormData,
   EventStatus,
   ChatMessage,
   Task,
+  TaskSyncConflict,
   Subtask,
   Document,
   Collaborator,
+  EventRole,
+  EventTemplate,
+  EventSeries,
+  TemplateTask,
+  Guest,
+  GuestSource,
+  Rsvp,
+  RsvpStatus,
+  BudgetItem,
+  AgentId,
+  Vendor,
+  VendorCategory,
+  VendorLink,
+  RunOfShowSegment,
 } from "../types";
+import { EVENT_ROLES } from "./permissions";
 
-/** DB row shapes (match Supabase schema) */
-export interface EventRow {
-  id: string;
-  evt_slug: string | null;
-  name: string;
-  event_date: string | null;
-  start_time: string | null;
-  end_time: string | null;
-  venue_pref: string | null;
-  venue_location: Record<string, unknown> | null;
-  guest_count: string | null;
-  food_drinks: string | null;
-  goals: Record<string, unknown> | null;
-  budget: number | null;
-  notes: string | null;
-  linked_event_ids: string[] | null;
-  status: string;
-  account_type: string | null;
-  retro_created: boolean | null;
-  created_at: string;
-  updated_at: string;
-}
-
-export interface ChatMessageRow {
-  id: string;
-  event_id: string;
-  agent_id: string;
-  role: string;
-  content: string;
-  message_at: string;
-}
-
-export interface TaskRow {
-  id: string;
-  event_id: string;
-  title: string;
-  description: string | null;
-  status: string;
-  priority: number;
-  due_date: string | null;
-  assigned_to: string | null;
-  agent_id: string | null;
-  dependencies: string[] | null;
-  blockers: string[] | null;
-  completed_at: string | null;
-  created_at: string;
-  /** body -> Collaborative markdown document (added in migration 003) */
-  body: string;
-}
-
-export interface SubtaskRow {
-  id: string;
-  task_id: string;
-  title: string;
-  status: string;
-  completed_at: string | null;
-}
-
-export interface DocumentRow {
-  id: string;
-  event_id: string;
-  type: string;
-  name: string;
-  url: string;
-  category: string | null;
-  uploaded_at: string;
-}
-
-export interface CollaboratorRow {
-  id: string;
-  event_id: string;
-  name: string;
-  email: string;
-  role: string | null;
-}
+export type {
+  EventRow,
+  ChatMessageRow,
+  TaskRow,
+  SubtaskRow,
+  DocumentRow,
+  CollaboratorRow,
+  EventTemplateRow,
+  EventSeriesRow,
+  GuestRow,
+  RsvpRow,
+};
 
-function eventRowToFormData(row: EventRow): EventFormData {
+export function eventRowToFormData(row: EventRow): EventFormData {
   return {
     eventReason: row.name,
     eventDate: row.event_date ?? "",
@@ -108,7 +99,7 @@ function eventRowToFormData(row: EventRow): EventFormData {
   };
 }
 
-function chatRowToMessage(row: ChatMessageRow, evtId: string): ChatMessage {
+export function chatRowToMessage(row: ChatMessageRow, evtId: string): ChatMessage {
   return {
     msgId: row.id,
     agentId: row.agent_id as ChatMessage["agentId"],
@@ -118,7 +109,7 @@ function chatRowToMessage(row: ChatMessageRow, evtId: string): ChatMessage {
   };
 }
 
-function taskRowToTask(row: TaskRow, subtasks: Subtask[]): Task {
+export function taskRowToTask(row: TaskRow, subtasks: Subtask[]): Task {
   const dueDateRaw = row.due_date ?? undefined;
   const dueDate =
     dueDateRaw != null && String(dueDateRaw).trim() !== ""
@@ -139,10 +130,13 @@ function taskRowToTask(row: TaskRow, subtasks: Subtask[]): Task {
     completedAt: row.completed_at ?? undefined,
     agentId: (row.agent_id as Task["agentId"]) ?? undefined,
     body: row.body ?? "",
+    bodyUserEdited: row.body_user_edited ?? false,
+    version: row.version ?? undefined,
+    updatedAt: row.updated_at ?? undefined,
   };
 }
 
-function subtaskRowToSubtask(row: SubtaskRow): Subtask {
+export function subtaskRowToSubtask(row: SubtaskRow): Subtask {
   return {
     id: row.id,
     title: row.title,
@@ -167,71 +161,76 @@ function collaboratorRowToCollaborator(row: CollaboratorRow): Collaborator {
     id: row.id,
     name: row.name,
     email: row.email,
-    role: row.role ?? undefined,
+    // Free-text roles from before migration 014 were migrated to editor
+    role: (EVENT_ROLES as readonly string[]).includes(row.role ?? "") ? (row.role as EventRole) : "editor",
   };
 }
 
-const UUID_REGEX = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
-
 /** Resolve app evtId (evt_slug or UUID) to Supabase events.id (UUID). */
 export async function getEventIdByEvtId(evtId: string): Promise<string | null> {
-  if (UUID_REGEX.test(evtId.trim())) return evtId.trim();
-  const { data, error } = await supabase
-    .from("events")
-    .select("id")
-    .eq("evt_slug", evtId)
-    .maybeSingle();
-  if (error) {
+  try {
+    return await getRepos().events.resolveId(evtId);
+  } catch (error) {
     console.error("[Eventropy] getEventIdByEvtId error:", error);
     return null;
   }
-  return data?.id ?? null;
 }
 
 /** Insert a new event; returns id and evt_slug for use as evtId in the app. */
 export async function insertEvent(
   formData: EventFormData,
-  opts: { status?: EventStatus; accountType?: "personal" | "organization" }
+  opts: {
+    status?: EventStatus;
+    accountType?: "personal" | "organization";
+    userId?: string;
+    orgId?: string;
+    /** seriesId / occurrenceDate -> Create the event as an occurrence of a series */
+    seriesId?: string;
+    occurrenceDate?: string;
+  }
 ): Promise<{ id: string; evt_slug: string }> {
   const evt_slug = `evt-${Date.now().toString(36)}`;
-  const { data, error } = await supabase
-    .from("events")
-    .insert({
-      evt_slug,
-      name: formData.eventReason,
-      event_date: formData.eventDate || null,
-      start_time: formData.startTime || null,
-      end_time: formData.endTime || null,
-      venue_pref: formData.venuePref || null,
-      venue_location: formData.venueLocation ?? null,
-      guest_count: formData.guestCount || null,
-      food_drinks: formData.foodDrinks || null,
-      goals: formData.goals ?? null,
-      budget: formData.budget ?? null,
-      notes: formData.notes ?? null,
-      linked_event_ids: formData.linkedEventIds ?? null,
-      status: opts.status ?? "planning",
-      account_type: opts.accountType ?? "personal",
-    })
-    .select("id, evt_slug")
-    .single();
-  if (error) throw error;
+  const row: NewEventRow = {
+    evt_slug,
+    name: formData.eventReason,
+    event_date: formData.eventDate || null,
+    start_time: formData.startTime || null,
+    end_time: formData.endTime || null,
+    venue_pref: formData.venuePref || null,
+    venue_location: formData.venueLocation ?? null,
+    guest_count: formData.guestCount || null,
+    food_drinks: formData.foodDrinks || null,
+    goals: formData.goals ?? null,
+    budget: formData.budget ?? null,
+    notes: formData.notes ?? null,
+    linked_event_ids: formData.linkedEventIds ?? null,
+    status: opts.status ?? "planning",
+    account_type: opts.accountType ?? "personal",
+    // Without a user id (no sign-in) the database default (auth.uid()) applies
+    ...(opts.userId ? { user_id: opts.userId } : {}),
+    ...(opts.orgId ? { org_id: opts.orgId } : {}),
+    ...(opts.seriesId ? { series_id: opts.seriesId, occurrence_date: opts.occurrenceDate ?? null } : {}),
+  };
+  const data = await getRepos().events.insert(row);
   return { id: data.id, evt_slug: data.evt_slug ?? evt_slug };
 }
 
-/** Insert one chat message for an event (event_id = Supabase events.id). */
+/**
+ * Insert one chat message for an event (event_id = Supabase events.id). Pass `id` when the
+ * message is already shown locally, so its realtime echo is recognised as the same message.
+ */
 export async function insertChatMessage(
   eventId: string,
-  msg: { agent_id: string; role: string; content: string; message_at?: string }
+  msg: { id?: string; agent_id: string; role: string; content: string; message_at?: string }
 ): Promise<void> {
-  const { error } = await supabase.from("chat_messages").insert({
+  await getRepos().chat.insert({
+    ...(msg.id ? { id: msg.id } : {}),
     event_id: eventId,
     agent_id: msg.agent_id,
     role: msg.role,
     content: msg.content,
     message_at: msg.message_at ?? new Date().toISOString(),
   });
-  if (error) throw error;
 }
 
 /** CategoryChatMessage -> Simplified chat message for category chat UI. */
@@ -253,20 +252,15 @@ export async function getCategoryChatMessages(
   const eventUuid = await getEventIdByEvtId(evtId);
   if (!eventUuid) return [];
 
-  const { data, error } = await supabase
-    .from("chat_messages")
-    .select("id, role, content, message_at")
-    .eq("event_id", eventUuid)
-    .eq("agent_id", agentId)
-    .in("role", ["user", "agent"])
-    .order("message_at", { ascending: true });
-
-  if (error) {
+  let rows: ChatMessageRow[];
+  try {
+    rows = await getRepos().chat.list({ eventId: eventUuid, agentId, roles: ["user", "agent"] });
+  } catch (error) {
     console.error("[Eventropy] getCategoryChatMessages error:", error);
     return [];
   }
 
-  return (data ?? []).map((row) => ({
+  return rows.map((row) => ({
     id: row.id,
     role: row.role === "agent" ? "assistant" : "user",
     content: row.content,
@@ -290,87 +284,133 @@ export async function insertCategoryChatMessage(
     return;
   }
 
-  const { error } = await supabase.from("chat_messages").insert({
-    event_id: eventUuid,
-    agent_id: agentId,
-    role: msg.role === "assistant" ? "agent" : "user",
-    content: msg.content,
-    message_at: new Date().toISOString(),
-  });
-
-  if (error) {
+  try {
+    await getRepos().chat.insert({
+      event_id: eventUuid,
+      agent_id: agentId,
+      role: msg.role === "assistant" ? "agent" : "user",
+      content: msg.content,
+      message_at: new Date().toISOString(),
+    });
+  } catch (error) {
     console.error("[Eventropy] insertCategoryChatMessage error:", error);
     throw error;
   }
 }
 
-/** Replace all tasks (and subtasks) for an event. Returns persisted tasks with DB ids. evtId can be events.id (UUID) or evt_slug. */
-export async function syncEventTasks(evtId: string, tasks: Task[]): Promise<Task[]> {
+/** MAX_TASK_UPDATE_ATTEMPTS -> Version-checked update retries before a task edit is given up as conflicting. */
+const MAX_TASK_UPDATE_ATTEMPTS = 3;
+
+/** TaskSyncResult -> Persisted tasks plus the edits that could not be applied cleanly. */
+export interface TaskSyncResult {
+  tasks: Task[];
+  conflicts: TaskSyncConflict[];
+}
+
+/**
+ * applyTaskUpdate -> Write one task's changed fields, guarded by the row version.
+ * If someone else saved the task since the client loaded it, the patch is merged field by
+ * field: fields they did not touch are still written, fields both sides changed keep the
+ * saved value and are reported as a conflict.
+ */
+async function applyTaskUpdate(update: TaskUpdate): Promise<TaskSyncConflict | null> {
+  let { version, patch } = update;
+  const conflictFields: string[] = [];
+
+  for (let attempt = 0; attempt < MAX_TASK_UPDATE_ATTEMPTS; attempt++) {
+    if (Object.keys(patch).length === 0) break;
+    if (await getRepos().tasks.update(update.id, patch, version)) break;
+
+    // Version moved on: reload the row and keep only the fields nobody else changed
+    const current = await getRepos().tasks.get(update.id);
+    if (!current) {
+      return { taskId: update.id, title: update.title, fields: Object.keys(update.patch), reason: "deleted" };
+    }
+    const saved = taskToRowFields(taskRowToTask(current, []));
+    const merged: Partial<TaskRowFields> = {};
+    for (const key of Object.keys(patch) as (keyof TaskRowFields)[]) {
+      if (sameValue(saved[key], patch[key])) continue;
+      if (sameValue(saved[key], update.before[key])) {
+        (merged as Record<string, unknown>)[key] = patch[key];
+      } else if (!conflictFields.includes(key)) {
+        conflictFields.push(key);
+      }
+    }
+    patch = merged;
+    version = current.version;
+    if (attempt === MAX_TASK_UPDATE_ATTEMPTS - 1 && Object.keys(patch).length > 0) {
+      conflictFields.push(...Object.keys(patch).filter((k) => !conflictFields.includes(k)));
+    }
+  }
+
+  return conflictFields.length > 0
+    ? { taskId: update.id, title: update.title, fields: conflictFields, reason: "changed" }
+    : null;
+}
+
+/**
+ * Save an event's tasks (and subtasks) incrementally. `previous` is the task list the edit
+ * was made from; only tasks and fields that differ from it are written, so task ids stay
+ * stable and concurrent edits (another window, the orchestrator) are not wiped out.
+ * Updates and deletes are guarded by the task's version (migration 010); see applyTaskUpdate.
+ * Local ids (e.g. "task-123") are replaced with UUIDs. Returns the persisted tasks and any
+ * conflicts. evtId can be events.id (UUID) or evt_slug.
+ * Throws before touching the DB if the dependencies form a cycle.
+ */
+export async function syncEventTasks(
+  evtId: string,
+  tasks: Task[],
+  previous: Task[] = []
+): Promise<TaskSyncResult> {
+  const cycle = findDependencyCycle(tasks);
+  if (cycle) {
+    throw new Error(`Task dependencies form a cycle: ${describeDependencyCycle(cycle, tasks)}`);
+  }
+
   const eventUuid = await getEventIdByEvtId(evtId);
   if (!eventUuid) {
     console.warn("[Eventropy] syncEventTasks: event not found for evtId:", evtId, "- tasks not persisted.");
-    return tasks;
+    return { tasks, conflicts: [] };
   }
 
-  const { error: delError } = await supabase
-    .from("tasks")
-    .delete()
-    .eq("event_id", eventUuid);
-  if (delError) throw delError;
-
-  for (const t of tasks) {
-    const dueDateVal =
-      t.dueDate != null && String(t.dueDate).trim() !== ""
-        ? String(t.dueDate).trim()
-        : null;
-    const { data: taskRow, error: taskErr } = await supabase
-      .from("tasks")
-      .insert({
-        event_id: eventUuid,
-        title: t.title,
-        description: t.description ?? null,
-        status: t.status,
-        priority: t.priority,
-        due_date: dueDateVal,
-        assigned_to: t.assignedTo ?? null,
-        agent_id: t.agentId ?? null,
-        dependencies: t.dependencies ?? [],
-        blockers: t.blockers ?? [],
-        completed_at: t.completedAt ?? null,
-        /** body -> Preserve existing task document (migration 003 required) */
-        body: t.body ?? "",
-      })
-      .select("id")
-      .single();
-    if (taskErr) throw taskErr;
-
-    const subtasks = t.subtasks ?? [];
-    for (const s of subtasks) {
-      const { error: subErr } = await supabase.from("subtasks").insert({
-        task_id: taskRow.id,
-        title: s.title,
-        status: s.status,
-        completed_at: s.completedAt ?? null,
-      });
-      if (subErr) throw subErr;
+  const diff = diffTasks(previous, withPersistableIds(tasks));
+  const conflicts: TaskSyncConflict[] = [];
+
+  const repos = getRepos();
+  const toRow = (t: Task) => ({ id: t.id, event_id: eventUuid, ...taskToRowFields(t) });
+  await repos.tasks.insert(diff.inserts.map(toRow));
+  await repos.tasks.upsert(diff.upserts.map(toRow));
+
+  for (const update of diff.updates) {
+    const conflict = await applyTaskUpdate(update);
+    if (conflict) conflicts.push(conflict);
+  }
+
+  for (const task of diff.deletes) {
+    if (await repos.tasks.remove(task.id, task.version)) continue;
+    // Nothing deleted: either already gone, or edited elsewhere since it was loaded (kept)
+    if (await repos.tasks.get(task.id)) {
+      conflicts.push({ taskId: task.id, title: task.title, fields: [], reason: "changed" });
     }
   }
 
-  const [tasksRes, subtasksRes] = await Promise.all([
-    supabase.from("tasks").select("*").eq("event_id", eventUuid).order("created_at"),
-    supabase.from("subtasks").select("*"),
-  ]);
-  const taskRows: TaskRow[] = tasksRes.data ?? [];
-  const allSubtaskRows: SubtaskRow[] = subtasksRes.data ?? [];
-  const taskIds = new Set(taskRows.map((r) => r.id));
+  await repos.tasks.insertSubtasks(diff.subtaskInserts);
+  for (const { id, patch } of diff.subtaskUpdates) {
+    await repos.tasks.updateSubtask(id, patch);
+  }
+  await repos.tasks.removeSubtasks(diff.subtaskDeletes);
+
+  const taskRows = await repos.tasks.list(eventUuid);
+  const subtaskRows = await repos.tasks.listSubtasks(taskRows.map((r) => r.id));
   const subtasksByTaskId = new Map<string, Subtask[]>();
-  for (const row of allSubtaskRows) {
-    if (!taskIds.has(row.task_id)) continue;
-    const sub = subtaskRowToSubtask(row);
+  for (const row of subtaskRows) {
     if (!subtasksByTaskId.has(row.task_id)) subtasksByTaskId.set(row.task_id, []);
-    subtasksByTaskId.get(row.task_id)!.push(sub);
+    subtasksByTaskId.get(row.task_id)!.push(subtaskRowToSubtask(row));
   }
-  return taskRows.map((row) => taskRowToTask(row, subtasksByTaskId.get(row.id) ?? []));
+  return {
+    tasks: taskRows.map((row) => taskRowToTask(row, subtasksByTaskId.get(row.id) ?? [])),
+    conflicts,
+  };
 }
 
 /**
@@ -381,8 +421,7 @@ export async function syncEventTasks(evtId: string, tasks: Task[]): Promise<Task
  * @param body - Full markdown content to save
  */
 export async function updateTaskBody(taskId: string, body: string): Promise<void> {
-  const { error } = await supabase.from("tasks").update({ body }).eq("id", taskId);
-  if (error) throw error;
+  await getRepos().tasks.update(taskId, { body, body_user_edited: true });
 }
 
 /**
@@ -393,43 +432,712 @@ export async function updateTaskBody(taskId: string, body: string): Promise<void
 export async function deleteEvent(evtId: string): Promise<void> {
   const eventUuid = await getEventIdByEvtId(evtId);
   if (!eventUuid) return;
-  const { error } = await supabase.from("events").delete().eq("id", eventUuid);
-  if (error) throw error;
+  await getRepos().events.remove(eventUuid);
+}
+
+/**
+ * addEventCollaborator -> Add someone to an event with a role (owners only; enforced by
+ * the collaborators policies in migration 014). Returns the collaborator as stored.
+ */
+export async function addEventCollaborator(
+  eventUuid: string,
+  collaborator: Omit<Collaborator, "id">
+): Promise<Collaborator> {
+  const row: CollaboratorRow = {
+    id: newRecordId(),
+    event_id: eventUuid,
+    name: collaborator.name.trim(),
+    email: collaborator.email.trim().toLowerCase(),
+    role: collaborator.role,
+  };
+  await getRepos().events.addCollaborator(row);
+  return collaboratorRowToCollaborator(row);
+}
+
+/** updateEventCollaboratorRole -> Change what a collaborator may do on the event. */
+export async function updateEventCollaboratorRole(collaboratorId: string, role: EventRole): Promise<void> {
+  await getRepos().events.updateCollaborator(collaboratorId, { role });
+}
+
+/** removeEventCollaborator -> Take someone off an event. */
+export async function removeEventCollaborator(collaboratorId: string): Promise<void> {
+  await getRepos().events.removeCollaborator(collaboratorId);
+}
+
+export function templateRowToTemplate(row: EventTemplateRow): EventTemplate {
+  return {
+    id: row.id,
+    name: row.name,
+    description: row.description ?? undefined,
+    sourceEventId: row.source_event_id ?? undefined,
+    formData: row.form_data as Partial<EventFormData>,
+    tasks: row.tasks as TemplateTask[],
+    orgId: row.org_id ?? undefined,
+    createdAt: row.created_at,
+  };
+}
+
+/** fetchEventTemplates -> Templates the user can use: their own and their organization's. */
+export async function fetchEventTemplates(): Promise<EventTemplate[]> {
+  const rows = await getRepos().templates.list();
+  return rows.map(templateRowToTemplate);
+}
+
+/**
+ * saveEventAsTemplate -> Save an event's details and tasks as a named template. With an
+ * orgId the template is shared with the organization.
+ */
+export async function saveEventAsTemplate(
+  event: PlannerEvent,
+  opts: { name: string; description?: string; userId?: string; orgId?: string }
+): Promise<EventTemplate> {
+  const { formData, tasks } = templateFromEvent(event);
+  const row = {
+    id: newRecordId(),
+    name: opts.name.trim(),
+    description: opts.description?.trim() || null,
+    source_event_id: event.eventUuid ?? null,
+    form_data: formData,
+    tasks,
+    ...(opts.userId ? { user_id: opts.userId } : {}),
+    ...(opts.orgId ? { org_id: opts.orgId } : {}),
+  };
+  await getRepos().templates.insert(row);
+  return {
+    id: row.id,
+    name: row.name,
+    description: row.description ?? undefined,
+    sourceEventId: row.source_event_id ?? undefined,
+    formData,
+    tasks,
+    orgId: opts.orgId,
+    createdAt: new Date().toISOString(),
+  };
+}
+
+/** deleteEventTemplate -> Remove a template (events created from it are not affected). */
+export async function deleteEventTemplate(templateId: string): Promise<void> {
+  await getRepos().templates.remove(templateId);
+}
+
+export function seriesRowToSeries(row: EventSeriesRow): EventSeries {
+  return {
+    id: row.id,
+    name: row.name,
+    rrule: row.rrule,
+    startsOn: row.starts_on.slice(0, 10),
+    horizonDays: row.horizon_days,
+    exdates: (row.exdates ?? []).map((d) => d.slice(0, 10)),
+    formData: row.form_data as Partial<EventFormData>,
+    tasks: row.tasks as TemplateTask[],
+    active: row.active,
+    ownerId: row.user_id ?? undefined,
+    orgId: row.org_id ?? undefined,
+    createdAt: row.created_at,
+  };
+}
+
+/** fetchEventSeries -> Recurring series the user can see: their own and their organization's. */
+export async function fetchEventSeries(): Promise<EventSeries[]> {
+  const rows = await getRepos().series.list();
+  return rows.map(seriesRowToSeries);
+}
+
+/**
+ * createEventSeries -> Start a series from an event: its details and tasks become the plan
+ * for every occurrence, and the event itself becomes the first occurrence (startsOn).
+ */
+export async function createEventSeries(
+  event: PlannerEvent,
+  opts: { rrule: string; startsOn: string; horizonDays?: number; userId?: string; orgId?: string }
+): Promise<EventSeries> {
+  const { formData, tasks } = templateFromEvent(event);
+  const row = {
+    id: newRecordId(),
+    name: event.formData.eventReason,
+    rrule: opts.rrule,
+    starts_on: opts.startsOn,
+    horizon_days: opts.horizonDays ?? 60,
+    exdates: [],
+    form_data: formData,
+    tasks,
+    ...(opts.userId ? { user_id: opts.userId } : {}),
+    ...(opts.orgId ? { org_id: opts.orgId } : {}),
+  };
+  await getRepos().series.insert(row);
+  await updateEvent(event.evtId, { series: { seriesId: row.id, occurrenceDate: opts.startsOn } });
+  return {
+    id: row.id,
+    name: row.name,
+    rrule: row.rrule,
+    startsOn: row.starts_on,
+    horizonDays: row.horizon_days,
+    exdates: [],
+    formData,
+    tasks,
+    active: true,
+    ownerId: opts.userId,
+    orgId: opts.orgId,
+    createdAt: new Date().toISOString(),
+  };
+}
+
+/** updateEventSeries -> Change a series (rule, skipped dates, paused, or its plan). Existing occurrences are not touched. */
+export async function updateEventSeries(
+  seriesId: string,
+  updates: Partial<Pick<EventSeries, "name" | "rrule" | "horizonDays" | "exdates" | "active" | "formData" | "tasks">>
+): Promise<void> {
+  const patch: EventSeriesPatch = {};
+  if (updates.name != null) patch.name = updates.name;
+  if (updates.rrule != null) patch.rrule = updates.rrule;
+  if (updates.horizonDays != null) patch.horizon_days = updates.horizonDays;
+  if (updates.exdates) patch.exdates = updates.exdates;
+  if (updates.active != null) patch.active = updates.active;
+  if (updates.formData) patch.form_data = updates.formData;
+  if (updates.tasks) patch.tasks = updates.tasks;
+  if (Object.keys(patch).length === 0) return;
+  await getRepos().series.update(seriesId, patch);
+}
+
+/**
+ * createSeriesOccurrence -> Create the event for one occurrence date from the series plan:
+ * its details, and tasks with due dates counted from the occurrence date.
+ */
+export async function createSeriesOccurrence(
+  series: EventSeries,
+  occurrenceDate: string,
+  opts: { userId?: string; orgId?: string } = {}
+): Promise<PlannerEvent> {
+  const formData: EventFormData = {
+    eventReason: series.name,
+    eventDate: occurrenceDate,
+    startTime: "",
+    endTime: "",
+    venuePref: "",
+    guestCount: "",
+    foodDrinks: "none",
+    notes: "",
+    ...series.formData,
+  };
+  formData.eventDate = occurrenceDate;
+  const { id, evt_slug } = await insertEvent(formData, {
+    accountType: series.orgId ? "organization" : "personal",
+    userId: opts.userId,
+    orgId: opts.orgId ?? series.orgId,
+    seriesId: series.id,
+    occurrenceDate,
+  });
+  let tasks = tasksFromTemplate(series.tasks, occurrenceDate);
+  // Keep the persisted rows so versions match what is stored
+  if (tasks.length > 0) tasks = (await syncEventTasks(id, tasks)).tasks;
+  const message: ChatMessage = {
+    msgId: newRecordId(),
+    agentId: "general",
+    role: "system",
+    content: `Occurrence of the "${series.name}" series on ${occurrenceDate}${
+      tasks.length ? `, with ${tasks.length} task${tasks.length === 1 ? "" : "s"} from the series plan` : ""
+    }.`,
+    timestamp: new Date().toISOString(),
+  };
+  await insertChatMessage(id, { id: message.msgId, agent_id: "general", role: "system", content: message.content });
+  return {
+    evtId: evt_slug,
+    eventUuid: id,
+    formData,
+    status: "planning",
+    createdAt: new Date().toISOString(),
+    chatTimeline: [message],
+    tasks: tasks.length ? tasks : undefined,
+    collaborators: [],
+    accountType: series.orgId ? "organization" : "personal",
+    ownerId: opts.userId,
+    orgId: opts.orgId ?? series.orgId,
+    seriesId: series.id,
+    occurrenceDate,
+  };
+}
+
+function rsvpRowToRsvp(row: RsvpRow): Rsvp {
+  return {
+    id: row.id,
+    guestId: row.guest_id,
+    status: row.status as RsvpStatus,
+    plusOnes: row.plus_ones,
+    respondedAt: row.responded_at ?? undefined,
+    source: row.source as GuestSource,
+  };
+}
+
+function guestRowToGuest(row: GuestRow, rsvp?: RsvpRow): Guest {
+  return {
+    id: row.id,
+    name: row.name,
+    email: row.email ?? undefined,
+    phone: row.phone ?? undefined,
+    dietaryNeeds: row.dietary_needs ?? undefined,
+    notes: row.notes ?? undefined,
+    source: row.source as GuestSource,
+    externalId: row.external_id ?? undefined,
+    rsvp: rsvp ? rsvpRowToRsvp(rsvp) : undefined,
+    createdAt: row.created_at,
+  };
+}
+
+/** fetchEventGuests -> An event's guest list with each guest's RSVP, by name. */
+export async function fetchEventGuests(eventUuid: string): Promise<Guest[]> {
+  const repos = getRepos();
+  const [rows, rsvps] = await Promise.all([repos.guests.list(eventUuid), repos.guests.listRsvps(eventUuid)]);
+  const rsvpByGuest = new Map(rsvps.map((r) => [r.guest_id, r]));
+  return rows.map((row) => guestRowToGuest(row, rsvpByGuest.get(row.id)));
+}
+
+/**
+ * addEventGuest -> Add a guest to an event, with an RSVP when a status is given. Emails are
+ * stored lowercase (one guest per email per event, migration 017).
+ */
+export async function addEventGuest(
+  eventUuid: string,
+  guest: Pick<Guest, "name"> & Partial<Pick<Guest, "email" | "phone" | "dietaryNeeds" | "notes" | "source" | "externalId">>,
+  rsvp?: { status: RsvpStatus; plusOnes?: number; respondedAt?: string }
+): Promise<Guest> {
+  const row = {
+    id: newRecordId(),
+    event_id: eventUuid,
+    name: guest.name.trim(),
+    email: guest.email?.trim().toLowerCase() || null,
+    phone: guest.phone?.trim() || null,
+    dietary_needs: guest.dietaryNeeds?.trim() || null,
+    notes: guest.notes?.trim() || null,
+    source: guest.source ?? "manual",
+    external_id: guest.externalId ?? null,
+  };
+  await getRepos().guests.insert(row);
+  const now = new Date().toISOString();
+  const created = guestRowToGuest({ ...row, created_at: now, updated_at: now });
+  if (rsvp) created.rsvp = await setGuestRsvp(eventUuid, created, { ...rsvp, source: row.source as GuestSource });
+  return created;
+}
+
+/** updateEventGuest -> Change a guest's details. Only the fields present are written. */
+export async function updateEventGuest(
+  guestId: string,
+  updates: Partial<Pick<Guest, "name" | "email" | "phone" | "dietaryNeeds" | "notes" | "externalId">>
+): Promise<void> {
+  const patch: GuestPatch = {};
+  if (updates.name != null) patch.name = updates.name.trim();
+  if ("email" in updates) patch.email = updates.email?.trim().toLowerCase() || null;
+  if ("phone" in updates) patch.phone = updates.phone?.trim() || null;
+  if ("dietaryNeeds" in updates) patch.dietary_needs = updates.dietaryNeeds?.trim() || null;
+  if ("notes" in updates) patch.notes = updates.notes?.trim() || null;
+  if ("externalId" in updates) patch.external_id = updates.externalId ?? null;
+  if (Object.keys(patch).length === 0) return;
+  await getRepos().guests.update(guestId, patch);
+}
+
+/** removeEventGuest -> Take a guest off the list (their RSVP goes with them). */
+export async function removeEventGuest(guestId: string): Promise<void> {
+  await getRepos().guests.remove(guestId);
+}
+
+/**
+ * setGuestRsvp -> Record or change a guest's RSVP. respondedAt is set when the status
+ * moves away from invited, unless given. Returns the RSVP as stored.
+ */
+export async function setGuestRsvp(
+  eventUuid: string,
+  guest: Guest,
+  updates: { status?: RsvpStatus; plusOnes?: number; respondedAt?: string; source?: GuestSource }
+): Promise<Rsvp> {
+  const status = updates.status ?? guest.rsvp?.status ?? "invited";
+  const answered = status !== "invited" && (guest.rsvp?.status ?? "invited") !== status;
+  const respondedAt = updates.respondedAt ?? (answered ? new Date().toISOString() : guest.rsvp?.respondedAt);
+  const rsvp: Rsvp = {
+    id: guest.rsvp?.id ?? newRecordId(),
+    guestId: guest.id,
+    status,
+    plusOnes: Math.max(0, Math.floor(updates.plusOnes ?? guest.rsvp?.plusOnes ?? 0)),
+    respondedAt,
+    source: updates.source ?? "manual",
+  };
+  const patch: RsvpPatch = {
+    status: rsvp.status,
+    plus_ones: rsvp.plusOnes,
+    responded_at: rsvp.respondedAt ?? null,
+    source: rsvp.source,
+  };
+  if (guest.rsvp) await getRepos().guests.updateRsvp(rsvp.id, patch);
+  else await getRepos().guests.insertRsvp({ id: rsvp.id, guest_id: guest.id, event_id: eventUuid, ...patch, status });
+  return rsvp;
+}
+
+/**
+ * importLumaGuests -> Reconcile an event's guest list with its Luma registrations
+ * (lib/guests reconcileLumaGuests): adds new registrations, takes Luma's RSVP status for
+ * matched guests, and reports Luma guests who are no longer registered without removing them.
+ */
+export async function importLumaGuests(
+  eventUuid: string,
+  guests: Guest[],
+  lumaGuests: LumaGuest[]
+): Promise<{ added: number; updated: number; unchanged: number; missing: Guest[] }> {
+  const plan = reconcileLumaGuests(guests, lumaGuests);
+  for (const add of plan.add) {
+    await addEventGuest(
+      eventUuid,
+      { name: add.name, email: add.email, externalId: add.externalId, source: "luma" },
+      { status: add.status, respondedAt: add.respondedAt }
+    );
+  }
+  for (const { guest, status, externalId } of plan.update) {
+    if (externalId) await updateEventGuest(guest.id, { externalId });
+    if (status !== (guest.rsvp?.status ?? "invited")) await setGuestRsvp(eventUuid, guest, { status, source: "luma" });
+  }
+  return { added: plan.add.length, updated: plan.update.length, unchanged: plan.unchanged, missing: plan.missing };
 }
 
-/** Update event fields (status, formData-backed columns, etc.). */
+/**
+ * importGuests -> Add guests read from a CSV or vCard file (lib/guestImport), de-duplicated by
+ * email: guests already on the list get the file's non-empty details and RSVP instead of a
+ * second entry. New guests are marked source "import".
+ */
+export async function importGuests(
+  eventUuid: string,
+  guests: Guest[],
+  imported: ImportedGuest[]
+): Promise<{ added: number; updated: number; duplicates: number }> {
+  const plan = planGuestImport(imported, guests);
+  for (const guest of plan.add) {
+    await addEventGuest(
+      eventUuid,
+      { ...guest, source: "import" },
+      { status: guest.status ?? "invited", plusOnes: guest.plusOnes }
+    );
+  }
+  for (const { guest, incoming } of plan.update) {
+    const { name, phone, dietaryNeeds, notes, status, plusOnes } = incoming;
+    await updateEventGuest(guest.id, {
+      ...(name !== incoming.email ? { name } : {}),
+      ...(phone ? { phone } : {}),
+      ...(dietaryNeeds ? { dietaryNeeds } : {}),
+      ...(notes ? { notes } : {}),
+    });
+    if ((status && status !== (guest.rsvp?.status ?? "invited")) || (plusOnes != null && plusOnes !== guest.rsvp?.plusOnes)) {
+      await setGuestRsvp(eventUuid, guest, { status, plusOnes, source: "import" });
+    }
+  }
+  return { added: plan.add.length, updated: plan.update.length, duplicates: plan.duplicates };
+}
+
+function budgetItemRowToBudgetItem(row: BudgetItemRow): BudgetItem {
+  return {
+    id: row.id,
+    agentId: row.agent_id as AgentId,
+    title: row.title,
+    vendorName: row.vendor_name ?? undefined,
+    vendorUrl: row.vendor_url ?? undefined,
+    estimated: Number(row.estimated),
+    committed: Number(row.committed),
+    paid: Number(row.paid),
+    paidAt: row.paid_at ?? undefined,
+    receiptUrl: row.receipt_url ?? undefined,
+    notes: row.notes ?? undefined,
+    taskId: row.task_id ?? undefined,
+    source: row.source === "agent" ? "agent" : "manual",
+    createdAt: row.created_at,
+  };
+}
+
+/** BudgetItemFields -> Fields of a budget line the app writes. */
+type BudgetItemFields = Omit<BudgetItem, "id" | "source" | "createdAt">;
+
+/** budgetItemPatch -> Columns for the budget line fields present (blank text clears a field). */
+function budgetItemPatch(fields: Partial<BudgetItemFields>): BudgetItemPatch {
+  const patch: BudgetItemPatch = {};
+  const money = (value: number) => Math.max(0, Math.round((Number(value) || 0) * 100) / 100);
+  if (fields.agentId) patch.agent_id = fields.agentId;
+  if (fields.title != null) patch.title = fields.title.trim();
+  if ("vendorName" in fields) patch.vendor_name = fields.vendorName?.trim() || null;
+  if ("vendorUrl" in fields) patch.vendor_url = fields.vendorUrl?.trim() || null;
+  if (fields.estimated != null) patch.estimated = money(fields.estimated);
+  if (fields.committed != null) patch.committed = money(fields.committed);
+  if (fields.paid != null) patch.paid = money(fields.paid);
+  if ("paidAt" in fields) patch.paid_at = fields.paidAt || null;
+  if ("receiptUrl" in fields) patch.receipt_url = fields.receiptUrl?.trim() || null;
+  if ("notes" in fields) patch.notes = fields.notes?.trim() || null;
+  if ("taskId" in fields) patch.task_id = fields.taskId || null;
+  return patch;
+}
+
+/** fetchBudgetItems -> An event's budget lines, oldest first. */
+export async function fetchBudgetItems(eventUuid: string): Promise<BudgetItem[]> {
+  const rows = await getRepos().budget.list(eventUuid);
+  return rows.map(budgetItemRowToBudgetItem);
+}
+
+/** addBudgetItem -> Add a budget line to an event. Amounts are rounded to cents and never negative. */
+export async function addBudgetItem(
+  eventUuid: string,
+  fields: Pick<BudgetItemFields, "title"> & Partial<BudgetItemFields>
+): Promise<void> {
+  await getRepos().budget.insert({
+    id: newRecordId(),
+    event_id: eventUuid,
+    agent_id: "general",
+    ...budgetItemPatch(fields),
+    title: fields.title.trim(),
+    source: "manual",
+  });
+}
+
+/** updateBudgetItem -> Change a budget line. Only the fields present are written. */
+export async function updateBudgetItem(id: string, updates: Partial<BudgetItemFields>): Promise<void> {
+  const patch = budgetItemPatch(updates);
+  if (Object.keys(patch).length === 0) return;
+  await getRepos().budget.update(id, patch);
+}
+
+/** removeBudgetItem -> Delete a budget line. */
+export async function removeBudgetItem(id: string): Promise<void> {
+  await getRepos().budget.remove(id);
+}
+
+function vendorLinkRowToVendorLink(row: VendorLinkRow): VendorLink {
+  return {
+    id: row.id,
+    vendorId: row.vendor_id,
+    eventUuid: row.event_id,
+    taskId: row.task_id ?? undefined,
+    notes: row.notes ?? undefined,
+    source: row.source === "agent" ? "agent" : "manual",
+    createdAt: row.created_at,
+  };
+}
+
+function vendorRowToVendor(row: VendorRow, links: VendorLinkRow[]): Vendor {
+  return {
+    id: row.id,
+    name: row.name,
+    categories: (row.categories ?? []) as VendorCategory[],
+    contactName: row.contact_name ?? undefined,
+    email: row.email ?? undefined,
+    phone: row.phone ?? undefined,
+    website: row.website ?? undefined,
+    priceMin: row.price_min ?? undefined,
+    priceMax: row.price_max ?? undefined,
+    priceNotes: row.price_notes ?? undefined,
+    rating: row.rating ?? undefined,
+    notes: row.notes ?? undefined,
+    ownerId: row.user_id ?? undefined,
+    orgId: row.org_id ?? undefined,
+    links: links.map(vendorLinkRowToVendorLink),
+    createdAt: row.created_at,
+  };
+}
+
+/** VendorFields -> Fields of a vendor the app writes. */
+type VendorFields = Omit<Vendor, "id" | "ownerId" | "orgId" | "links" | "createdAt">;
+
+/** vendorPatch -> Columns for the vendor fields present (blank text clears a field). */
+function vendorPatch(fields: Partial<VendorFields>): VendorPatch {
+  const patch: VendorPatch = {};
+  const price = (value: number | undefined) =>
+    value == null || !Number.isFinite(value) ? null : Math.max(0, Math.round(value * 100) / 100);
+  if (fields.name != null) patch.name = fields.name.trim();
+  if (fields.categories) patch.categories = [...new Set(fields.categories)];
+  if ("contactName" in fields) patch.contact_name = fields.contactName?.trim() || null;
+  if ("email" in fields) patch.email = fields.email?.trim().toLowerCase() || null;
+  if ("phone" in fields) patch.phone = fields.phone?.trim() || null;
+  if ("website" in fields) patch.website = fields.website?.trim() || null;
+  if ("priceMin" in fields) patch.price_min = price(fields.priceMin);
+  if ("priceMax" in fields) patch.price_max = price(fields.priceMax);
+  if ("priceNotes" in fields) patch.price_notes = fields.priceNotes?.trim() || null;
+  if ("rating" in fields) patch.rating = fields.rating ? Math.min(5, Math.max(1, Math.round(fields.rating))) : null;
+  if ("notes" in fields) patch.notes = fields.notes?.trim() || null;
+  return patch;
+}
+
+/** fetchVendors -> The vendor directory: the user's own vendors and their organization's, by name, with where each was used. */
+export async function fetchVendors(): Promise<Vendor[]> {
+  const repos = getRepos();
+  const [rows, links] = await Promise.all([repos.vendors.list(), repos.vendors.listLinks()]);
+  return rows.map((row) => vendorRowToVendor(row, links.filter((l) => l.vendor_id === row.id)));
+}
+
+/**
+ * addVendor -> Add a vendor to the directory. With an orgId the vendor is shared with the
+ * organization. Returns the new vendor's id.
+ */
+export async function addVendor(
+  fields: Pick<VendorFields, "name"> & Partial<VendorFields>,
+  opts: { userId?: string; orgId?: string } = {}
+): Promise<string> {
+  const id = newRecordId();
+  await getRepos().vendors.insert({
+    ...vendorPatch(fields),
+    id,
+    name: fields.name.trim(),
+    ...(opts.userId ? { user_id: opts.userId } : {}),
+    ...(opts.orgId ? { org_id: opts.orgId } : {}),
+  });
+  return id;
+}
+
+/** updateVendor -> Change a vendor. Only the fields present are written. */
+export async function updateVendor(id: string, updates: Partial<VendorFields>): Promise<void> {
+  const patch = vendorPatch(updates);
+  if (Object.keys(patch).length === 0) return;
+  await getRepos().vendors.update(id, patch);
+}
+
+/** removeVendor -> Delete a vendor from the directory (its links go with it). */
+export async function removeVendor(id: string): Promise<void> {
+  await getRepos().vendors.remove(id);
+}
+
+/** linkVendorToEvent -> Record that a vendor is used for an event, and for one of its tasks. */
+export async function linkVendorToEvent(
+  vendorId: string,
+  eventUuid: string,
+  opts: { taskId?: string; notes?: string } = {}
+): Promise<void> {
+  await getRepos().vendors.insertLink({
+    id: newRecordId(),
+    vendor_id: vendorId,
+    event_id: eventUuid,
+    task_id: opts.taskId ?? null,
+    notes: opts.notes?.trim() || null,
+    source: "manual",
+  });
+}
+
+/** unlinkVendor -> Remove a vendor from an event (the vendor stays in the directory). */
+export async function unlinkVendor(linkId: string): Promise<void> {
+  await getRepos().vendors.removeLink(linkId);
+}
+
+function segmentRowToSegment(row: RunOfShowSegmentRow): RunOfShowSegment {
+  return {
+    id: row.id,
+    position: row.position,
+    title: row.title,
+    startTime: row.start_time ?? undefined,
+    durationMinutes: row.duration_minutes,
+    owner: row.owner ?? undefined,
+    location: row.location ?? undefined,
+    avCues: row.av_cues ?? undefined,
+    notes: row.notes ?? undefined,
+    source: row.source === "agent" ? "agent" : "manual",
+    createdAt: row.created_at,
+  };
+}
+
+/** RunOfShowSegmentFields -> Fields of a segment the app writes. */
+type RunOfShowSegmentFields = Omit<RunOfShowSegment, "id" | "position" | "source" | "createdAt">;
+
+/** segmentPatch -> Columns for the segment fields present (blank text clears a field). */
+function segmentPatch(fields: Partial<RunOfShowSegmentFields>): RunOfShowSegmentPatch {
+  const patch: RunOfShowSegmentPatch = {};
+  if (fields.title != null) patch.title = fields.title.trim();
+  if ("startTime" in fields) patch.start_time = fields.startTime || null;
+  if (fields.durationMinutes != null) patch.duration_minutes = Math.max(1, Math.round(fields.durationMinutes) || 1);
+  if ("owner" in fields) patch.owner = fields.owner?.trim() || null;
+  if ("location" in fields) patch.location = fields.location?.trim() || null;
+  if ("avCues" in fields) patch.av_cues = fields.avCues?.trim() || null;
+  if ("notes" in fields) patch.notes = fields.notes?.trim() || null;
+  return patch;
+}
+
+/** fetchRunOfShow -> An event's run of show, in run sheet order. */
+export async function fetchRunOfShow(eventUuid: string): Promise<RunOfShowSegment[]> {
+  const rows = await getRepos().runOfShow.list(eventUuid);
+  return rows.map(segmentRowToSegment);
+}
+
+/** addRunOfShowSegment -> Add a segment at the end of an event's run of show. */
+export async function addRunOfShowSegment(
+  eventUuid: string,
+  fields: Pick<RunOfShowSegmentFields, "title"> & Partial<RunOfShowSegmentFields>
+): Promise<void> {
+  const repos = getRepos();
+  const existing = await repos.runOfShow.list(eventUuid);
+  await repos.runOfShow.insert({
+    ...segmentPatch(fields),
+    id: newRecordId(),
+    event_id: eventUuid,
+    title: fields.title.trim(),
+    position: existing.reduce((max, row) => Math.max(max, row.position + 1), 0),
+    source: "manual",
+  });
+}
+
+/** updateRunOfShowSegment -> Change a segment. Only the fields present are written. */
+export async function updateRunOfShowSegment(id: string, updates: Partial<RunOfShowSegmentFields>): Promise<void> {
+  const patch = segmentPatch(updates);
+  if (Object.keys(patch).length === 0) return;
+  await getRepos().runOfShow.update(id, patch);
+}
+
+/** removeRunOfShowSegment -> Delete a segment. */
+export async function removeRunOfShowSegment(id: string): Promise<void> {
+  await getRepos().runOfShow.remove(id);
+}
+
+/**
+ * saveRunOfShowOrder -> Write the positions (and start times, when given) of reordered or
+ * retimed segments. Only segments whose position or start time changed are written.
+ */
+export async function saveRunOfShowOrder(
+  previous: RunOfShowSegment[],
+  next: Pick<RunOfShowSegment, "id" | "position" | "startTime">[]
+): Promise<void> {
+  const repos = getRepos();
+  for (const segment of next) {
+    const before = previous.find((s) => s.id === segment.id);
+    const patch: RunOfShowSegmentPatch = {};
+    if (before?.position !== segment.position) patch.position = segment.position;
+    if ((before?.startTime ?? null) !== (segment.startTime ?? null)) patch.start_time = segment.startTime ?? null;
+    if (Object.keys(patch).length > 0) await repos.runOfShow.update(segment.id, patch);
+  }
+}
+
+/** Update event fields (status, formData-backed columns, etc.). Only the formData keys present are written. */
 export async function updateEvent(
   evtId: string,
   updates: Partial<{
     status: EventStatus;
-    formData: EventFormData;
+    formData: Partial<EventFormData>;
     retro_created: boolean;
+    /** series -> Link the event to a series occurrence (null seriesId detaches it) */
+    series: { seriesId: string | null; occurrenceDate: string | null };
   }>
 ): Promise<void> {
   const eventUuid = await getEventIdByEvtId(evtId);
   if (!eventUuid) return;
 
-  const row: Record<string, unknown> = {};
+  const row: EventPatch = {};
   if (updates.status) row.status = updates.status;
   if (updates.retro_created != null) row.retro_created = updates.retro_created;
+  if (updates.series) {
+    row.series_id = updates.series.seriesId;
+    row.occurrence_date = updates.series.occurrenceDate;
+  }
   if (updates.formData) {
     const f = updates.formData;
-    row.name = f.eventReason;
-    row.event_date = f.eventDate || null;
-    row.start_time = f.startTime || null;
-    row.end_time = f.endTime || null;
-    row.venue_pref = f.venuePref || null;
-    row.venue_location = f.venueLocation ?? null;
-    row.guest_count = f.guestCount || null;
-    row.food_drinks = f.foodDrinks || null;
-    row.goals = f.goals ?? null;
-    row.budget = f.budget ?? null;
-    row.notes = f.notes ?? null;
-    row.linked_event_ids = f.linkedEventIds ?? null;
+    if ("eventReason" in f) row.name = f.eventReason;
+    if ("eventDate" in f) row.event_date = f.eventDate || null;
+    if ("startTime" in f) row.start_time = f.startTime || null;
+    if ("endTime" in f) row.end_time = f.endTime || null;
+    if ("venuePref" in f) row.venue_pref = f.venuePref || null;
+    if ("venueLocation" in f) row.venue_location = f.venueLocation ?? null;
+    if ("guestCount" in f) row.guest_count = f.guestCount || null;
+    if ("foodDrinks" in f) row.food_drinks = f.foodDrinks || null;
+    if ("goals" in f) row.goals = f.goals ?? null;
+    if ("budget" in f) row.budget = f.budget ?? null;
+    if ("notes" in f) row.notes = f.notes ?? null;
+    if ("linkedEventIds" in f) row.linked_event_ids = f.linkedEventIds ?? null;
   }
   if (Object.keys(row).length === 0) return;
-  const { error } = await supabase.from("events").update(row).eq("id", eventUuid);
-  if (error) throw error;
+  await getRepos().events.update(eventUuid, row);
 }
 
 /**
@@ -437,24 +1145,18 @@ export async function updateEvent(
  * Returns PlannerEvent[] for use in eventRegistry.
  */
 export async function fetchAllEvents(): Promise<PlannerEvent[]> {
-  const [eventsRes, messagesRes, tasksRes, subtasksRes, docsRes, collabRes] = await Promise.all([
-    supabase.from("events").select("*").order("created_at", { ascending: false }),
-    supabase.from("chat_messages").select("*").order("message_at", { ascending: true }),
-    supabase.from("tasks").select("*"),
-    supabase.from("subtasks").select("*"),
-    supabase.from("documents").select("*"),
-    supabase.from("collaborators").select("*"),
+  const repos = getRepos();
+  // Only the events are required; a missing child table leaves that part empty
+  const orEmpty = <T>(promise: Promise<T[]>) => promise.catch((): T[] => []);
+  const [events, messages, tasks, subtasks, documents, collaborators] = await Promise.all([
+    repos.events.list(),
+    orEmpty(repos.chat.list()),
+    orEmpty(repos.tasks.list()),
+    orEmpty(repos.tasks.listSubtasks()),
+    orEmpty(repos.events.listDocuments()),
+    orEmpty(repos.events.listCollaborators()),
   ]);
 
-  if (eventsRes.error) throw eventsRes.error;
-
-  const events: EventRow[] = eventsRes.data ?? [];
-  const messages: ChatMessageRow[] = messagesRes.data ?? [];
-  const tasks: TaskRow[] = tasksRes.data ?? [];
-  const subtasks: SubtaskRow[] = subtasksRes.data ?? [];
-  const documents: DocumentRow[] = docsRes.data ?? [];
-  const collaborators: CollaboratorRow[] = collabRes.data ?? [];
-
   const subtasksByTaskId = new Map<string, Subtask[]>();
   for (const row of subtasks) {
     const sub = subtaskRowToSubtask(row);
@@ -484,6 +1186,7 @@ export async function fetchAllEvents(): Promise<PlannerEvent[]> {
 
     const plannerEvent: PlannerEvent = {
       evtId,
+      eventUuid: evt.id,
       formData,
       status: evt.status as EventStatus,
       createdAt: evt.created_at,
@@ -492,6 +1195,10 @@ export async function fetchAllEvents(): Promise<PlannerEvent[]> {
       documents: eventDocs.length ? eventDocs : undefined,
       collaborators: eventCollabs.length ? eventCollabs : undefined,
       accountType: (evt.account_type as PlannerEvent["accountType"]) ?? undefined,
+      ownerId: evt.user_id ?? undefined,
+      orgId: evt.org_id ?? undefined,
+      seriesId: evt.series_id ?? undefined,
+      occurrenceDate: evt.occurrence_date ?? undefined,
       retroCreated: evt.retro_created ?? undefined,
     };
 
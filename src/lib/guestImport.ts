@@ -0,0 +1,317 @@
+/**
+ * guestImport — Guest lists in and out of spreadsheets and contacts apps: CSV parsing with
+ * a column mapping (guessed from the headers, adjustable by the user), vCard parsing,
+ * de-duplication by email against the event's guest list, and CSV export of the whole
+ * list or a filtered one (confirmed only, dietary needs) for venues and caterers.
+ */
+import { RSVP_STATUS_LABELS, rsvpStatusOf } from "./guests";
+import { toCsv } from "./csv";
+import type { Guest, RsvpStatus } from "../types";
+
+/** ImportedGuest -> One guest read from a file, before it is matched to the guest list. */
+export interface ImportedGuest {
+  name: string;
+  email?: string;
+  phone?: string;
+  dietaryNeeds?: string;
+  notes?: string;
+  status?: RsvpStatus;
+  plusOnes?: number;
+}
+
+export type GuestImportField =
+  | "name"
+  | "firstName"
+  | "lastName"
+  | "email"
+  | "phone"
+  | "dietaryNeeds"
+  | "notes"
+  | "status"
+  | "plusOnes";
+
+/** GuestColumnMapping -> Guest field -> CSV column index. Unmapped fields are left empty. */
+export type GuestColumnMapping = Partial<Record<GuestImportField, number>>;
+
+export const GUEST_IMPORT_FIELDS: { field: GuestImportField; label: string }[] = [
+  { field: "name", label: "Full name" },
+  { field: "firstName", label: "First name" },
+  { field: "lastName", label: "Last name" },
+  { field: "email", label: "Email" },
+  { field: "phone", label: "Phone" },
+  { field: "dietaryNeeds", label: "Dietary needs" },
+  { field: "notes", label: "Notes" },
+  { field: "status", label: "RSVP" },
+  { field: "plusOnes", label: "Plus-ones" },
+];
+
+/** HEADER_NAMES -> Column headers recognised for each field (normalised: lowercase, no punctuation). */
+const HEADER_NAMES: Record<GuestImportField, string[]> = {
+  name: ["name", "full name", "guest", "guest name", "attendee", "attendee name", "contact"],
+  firstName: ["first name", "first", "given name", "firstname"],
+  lastName: ["last name", "last", "surname", "family name", "lastname"],
+  email: ["email", "e mail", "email address", "mail"],
+  phone: ["phone", "phone number", "mobile", "cell", "telephone", "tel"],
+  dietaryNeeds: ["dietary needs", "dietary", "dietary restrictions", "dietary requirements", "diet", "allergies"],
+  notes: ["notes", "note", "comments", "comment"],
+  status: ["rsvp", "status", "rsvp status", "attending", "response", "approval status"],
+  plusOnes: ["plus ones", "plus one", "plus 1", "1", "additional guests"],
+};
+
+/** STATUS_WORDS -> Spreadsheet answers recognised as RSVP statuses. */
+const STATUS_WORDS: Record<string, RsvpStatus> = {
+  yes: "going",
+  y: "going",
+  going: "going",
+  attending: "going",
+  confirmed: "going",
+  accepted: "going",
+  approved: "going",
+  no: "declined",
+  n: "declined",
+  declined: "declined",
+  "not going": "declined",
+  "not attending": "declined",
+  maybe: "maybe",
+  tentative: "maybe",
+  waitlist: "waitlist",
+  waitlisted: "waitlist",
+  "pending approval": "waitlist",
+  invited: "invited",
+  pending: "invited",
+  "no response": "invited",
+};
+
+const normalise = (value: string) =>
+  value
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, " ")
+    .trim();
+
+/**
+ * parseCsv -> Rows of a CSV file (RFC 4180 quoting). The delimiter (comma, semicolon or
+ * tab) is taken from the first line; blank rows are dropped.
+ */
+export function parseCsv(text: string): string[][] {
+  const source = text.replace(/^\uFEFF/, "");
+  const firstLine = source.slice(0, source.search(/\r?\n|$/));
+  const delimiter = [",", ";", "\t"].reduce((best, d) =>
+    firstLine.split(d).length > firstLine.split(best).length ? d : best
+  );
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = "";
+  let quoted = false;
+  for (let i = 0; i < source.length; i++) {
+    const ch = source[i];
+    if (quoted) {
+      if (ch === '"' && source[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (ch === '"') quoted = false;
+      else cell += ch;
+    } else if (ch === '"') quoted = true;
+    else if (ch === delimiter) {
+      row.push(cell);
+      cell = "";
+    } else if (ch === "\n" || ch === "\r") {
+      if (ch === "\r" && source[i + 1] === "\n") i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = "";
+    } else cell += ch;
+  }
+  row.push(cell);
+  rows.push(row);
+  return rows.filter((r) => r.some((c) => c.trim()));
+}
+
+/** guessColumnMapping -> Map CSV headers to guest fields by name. Full name wins over first / last name. */
+export function guessColumnMapping(headers: string[]): GuestColumnMapping {
+  const normalised = headers.map(normalise);
+  const mapping: GuestColumnMapping = {};
+  const used = new Set<number>();
+  for (const { field } of GUEST_IMPORT_FIELDS) {
+    const index = normalised.findIndex((h, i) => !used.has(i) && HEADER_NAMES[field].includes(h));
+    if (index >= 0) {
+      mapping[field] = index;
+      used.add(index);
+    }
+  }
+  return mapping;
+}
+
+/** parseRsvpStatus -> The RSVP status a spreadsheet answer means, or undefined when it is not recognised. */
+export function parseRsvpStatus(value: string): RsvpStatus | undefined {
+  return STATUS_WORDS[normalise(value)];
+}
+
+/**
+ * guestsFromCsv -> Guests from CSV rows (the first row is the header) with a column
+ * mapping. Rows without a name or email are skipped; the email stands in for a missing name.
+ */
+export function guestsFromCsv(rows: string[][], mapping: GuestColumnMapping): { guests: ImportedGuest[]; skipped: number } {
+  const cell = (row: string[], field: GuestImportField) => {
+    const index = mapping[field];
+    return index == null ? "" : (row[index] ?? "").trim();
+  };
+  const guests: ImportedGuest[] = [];
+  let skipped = 0;
+  for (const row of rows.slice(1)) {
+    const email = cell(row, "email").toLowerCase();
+    const name = cell(row, "name") || [cell(row, "firstName"), cell(row, "lastName")].filter(Boolean).join(" ") || email;
+    if (!name) {
+      skipped++;
+      continue;
+    }
+    const plusOnes = Number.parseInt(cell(row, "plusOnes"), 10);
+    guests.push({
+      name,
+      email: email || undefined,
+      phone: cell(row, "phone") || undefined,
+      dietaryNeeds: cell(row, "dietaryNeeds") || undefined,
+      notes: cell(row, "notes") || undefined,
+      status: parseRsvpStatus(cell(row, "status")),
+      plusOnes: Number.isFinite(plusOnes) && plusOnes >= 0 ? plusOnes : undefined,
+    });
+  }
+  return { guests, skipped };
+}
+
+/**
+ * parseVCards -> Guests from a vCard file (one or more cards, versions 2.1 to 4.0): FN or
+ * N for the name, the first EMAIL and TEL, and NOTE.
+ */
+export function parseVCards(text: string): ImportedGuest[] {
+  // Unfold continuation lines (RFC 6350 §3.2)
+  const lines = text.replace(/^\uFEFF/, "").replace(/\r?\n[ \t]/g, "").split(/\r?\n/);
+  const guests: ImportedGuest[] = [];
+  let card: Record<string, string> | null = null;
+
+  for (const line of lines) {
+    const colon = line.indexOf(":");
+    if (colon < 0) continue;
+    // Property name without parameters or group prefix, e.g. "item1.EMAIL;TYPE=work" -> EMAIL
+    const property = line.slice(0, colon).split(";")[0].split(".").pop()!.toUpperCase();
+    const value = unescapeVCard(line.slice(colon + 1).trim());
+
+    if (property === "BEGIN" && value.toUpperCase() === "VCARD") card = {};
+    else if (property === "END" && card) {
+      const name =
+        card.FN ||
+        (card.N ?? "")
+          .split(";")
+          .slice(0, 2)
+          .reverse()
+          .filter(Boolean)
+          .join(" ") ||
+        card.EMAIL;
+      if (name) {
+        guests.push({
+          name,
+          email: card.EMAIL?.toLowerCase() || undefined,
+          phone: card.TEL || undefined,
+          notes: card.NOTE || undefined,
+        });
+      }
+      card = null;
+    } else if (card && !(property in card)) {
+      card[property] = property === "EMAIL" || property === "TEL" ? value.replace(/^(mailto|tel):/i, "") : value;
+    }
+  }
+  return guests;
+}
+
+function unescapeVCard(value: string): string {
+  return value.replace(/\\([nN,;\\])/g, (_, ch: string) => (ch.toLowerCase() === "n" ? "\n" : ch));
+}
+
+/** GuestImportPlan -> Imported guests matched to the guest list by email. */
+export interface GuestImportPlan {
+  /** add -> Guests with no email or an email not on the list */
+  add: ImportedGuest[];
+  /** update -> Guests already on the list; the file's non-empty values are written */
+  update: { guest: Guest; incoming: ImportedGuest }[];
+  /** duplicates -> Rows merged into an earlier row with the same email */
+  duplicates: number;
+}
+
+/**
+ * planGuestImport -> De-duplicate imported guests by email, within the file (later rows fill
+ * in what earlier ones left empty) and against the guest list.
+ */
+export function planGuestImport(imported: ImportedGuest[], existing: Guest[]): GuestImportPlan {
+  const byEmail = new Map(existing.filter((g) => g.email).map((g) => [g.email!.toLowerCase(), g]));
+  const merged = new Map<string, ImportedGuest>();
+  const withoutEmail: ImportedGuest[] = [];
+  let duplicates = 0;
+
+  for (const guest of imported) {
+    const email = guest.email?.toLowerCase();
+    if (!email) {
+      withoutEmail.push(guest);
+      continue;
+    }
+    const earlier = merged.get(email);
+    if (earlier) {
+      duplicates++;
+      merged.set(email, { ...guest, ...definedFields(earlier) });
+    } else merged.set(email, { ...guest, email });
+  }
+
+  const plan: GuestImportPlan = { add: [...withoutEmail], update: [], duplicates };
+  for (const [email, guest] of merged) {
+    const match = byEmail.get(email);
+    if (match) plan.update.push({ guest: match, incoming: guest });
+    else plan.add.push(guest);
+  }
+  return plan;
+}
+
+/** definedFields -> The guest without its undefined fields, so spreading it over another keeps theirs. */
+function definedFields(guest: ImportedGuest): Partial<ImportedGuest> {
+  return Object.fromEntries(Object.entries(guest).filter(([, value]) => value !== undefined));
+}
+
+export type GuestExportPreset = "all" | "confirmed" | "dietary" | "filtered";
+
+export const GUEST_EXPORT_PRESETS: { id: GuestExportPreset; label: string }[] = [
+  { id: "all", label: "Full list" },
+  { id: "confirmed", label: "Confirmed only" },
+  { id: "dietary", label: "Dietary restrictions" },
+  { id: "filtered", label: "As filtered" },
+];
+
+/**
+ * guestsForExport -> Guests an export preset includes. Dietary restrictions leaves out
+ * declined guests; "filtered" is the list as currently shown.
+ */
+export function guestsForExport(guests: Guest[], preset: GuestExportPreset, filtered: Guest[]): Guest[] {
+  switch (preset) {
+    case "confirmed":
+      return guests.filter((g) => rsvpStatusOf(g) === "going");
+    case "dietary":
+      return guests.filter((g) => g.dietaryNeeds?.trim() && rsvpStatusOf(g) !== "declined");
+    case "filtered":
+      return filtered;
+    default:
+      return guests;
+  }
+}
+
+/** guestsToCsv -> CSV of guests: name, email, phone, RSVP, plus-ones, dietary needs, notes. */
+export function guestsToCsv(guests: Guest[]): string {
+  const header = ["Name", "Email", "Phone", "RSVP", "Plus-ones", "Dietary needs", "Notes"];
+  const rows = guests.map((g) => [
+    g.name,
+    g.email ?? "",
+    g.phone ?? "",
+    RSVP_STATUS_LABELS[rsvpStatusOf(g)],
+    String(g.rsvp?.plusOnes ?? 0),
+    g.dietaryNeeds ?? "",
+    g.notes ?? "",
+  ]);
+  return toCsv([header, ...rows]);
+}
@@ -0,0 +1,138 @@
+/**
+ * guests — Guest list helpers (guests / rsvps, migration 017): headcount against what the
+ * event expects, filtering, and reconciling the list with Luma registrations
+ * (luma_get_rsvps). Guests without an RSVP count as invited.
+ */
+import type { EventFormData, Guest, RsvpStatus } from "../types";
+
+export const RSVP_STATUSES: readonly RsvpStatus[] = ["invited", "going", "maybe", "declined", "waitlist"];
+
+export const RSVP_STATUS_LABELS: Record<RsvpStatus, string> = {
+  invited: "Invited",
+  going: "Going",
+  maybe: "Maybe",
+  declined: "Declined",
+  waitlist: "Waitlist",
+};
+
+/** GuestHeadcount -> Guests per RSVP status; expected = going guests plus their plus-ones. */
+export interface GuestHeadcount {
+  total: number;
+  byStatus: Record<RsvpStatus, number>;
+  plusOnes: number;
+  expected: number;
+}
+
+/** GuestFilter -> What the guest list shows: one RSVP status (or all) and a search over name, email and dietary needs. */
+export interface GuestFilter {
+  status: RsvpStatus | "all";
+  query: string;
+}
+
+/** LumaGuest -> One registration as luma_get_rsvps returns it. */
+export interface LumaGuest {
+  id?: string;
+  name?: string;
+  email?: string;
+  status?: string;
+  registeredAt?: string;
+}
+
+/** LumaReconcilePlan -> Changes that bring the guest list in line with Luma; nothing is deleted. */
+export interface LumaReconcilePlan {
+  /** add -> Registrations with no matching guest */
+  add: { name: string; email?: string; externalId?: string; status: RsvpStatus; respondedAt?: string }[];
+  /** update -> Matched guests whose RSVP status (Luma wins) or Luma id differs */
+  update: { guest: Guest; status: RsvpStatus; externalId?: string }[];
+  unchanged: number;
+  /** missing -> Guests imported from Luma earlier who are no longer registered there */
+  missing: Guest[];
+}
+
+/** rsvpStatusOf -> The guest's RSVP status; invited until one is recorded. */
+export function rsvpStatusOf(guest: Guest): RsvpStatus {
+  return guest.rsvp?.status ?? "invited";
+}
+
+/** guestHeadcount -> Count an event's guests by RSVP status. */
+export function guestHeadcount(guests: Guest[]): GuestHeadcount {
+  const byStatus = Object.fromEntries(RSVP_STATUSES.map((s) => [s, 0])) as Record<RsvpStatus, number>;
+  let plusOnes = 0;
+  for (const guest of guests) {
+    const status = rsvpStatusOf(guest);
+    byStatus[status]++;
+    if (status === "going") plusOnes += guest.rsvp?.plusOnes ?? 0;
+  }
+  return { total: guests.length, byStatus, plusOnes, expected: byStatus.going + plusOnes };
+}
+
+/** headcountTargets -> The number of guests the event was planned for (guestCount) and its attendance goal. */
+export function headcountTargets(formData: EventFormData): { guestCount?: number; attendanceTarget?: number } {
+  const guestCount = Number.parseInt(formData.guestCount, 10);
+  return {
+    guestCount: Number.isFinite(guestCount) && guestCount > 0 ? guestCount : undefined,
+    attendanceTarget: formData.goals?.attendanceTarget || undefined,
+  };
+}
+
+/** filterGuests -> The guests a GuestFilter shows, in the given order. */
+export function filterGuests(guests: Guest[], filter: GuestFilter): Guest[] {
+  const query = filter.query.trim().toLowerCase();
+  return guests.filter(
+    (g) =>
+      (filter.status === "all" || rsvpStatusOf(g) === filter.status) &&
+      (!query || [g.name, g.email, g.dietaryNeeds].some((v) => v?.toLowerCase().includes(query)))
+  );
+}
+
+/** lumaStatusToRsvp -> Map a Luma approval_status to an RSVP status. */
+export function lumaStatusToRsvp(status: string | undefined): RsvpStatus {
+  switch (status) {
+    case "approved":
+      return "going";
+    case "declined":
+      return "declined";
+    case "invited":
+      return "invited";
+    case "waitlist":
+    case "pending_approval":
+      return "waitlist";
+    default:
+      return "maybe";
+  }
+}
+
+/**
+ * reconcileLumaGuests -> Match Luma registrations to guests by Luma id, then email, then
+ * name (case-insensitive; only when one side has no email), and work out what to add and update.
+ */
+export function reconcileLumaGuests(guests: Guest[], lumaGuests: LumaGuest[]): LumaReconcilePlan {
+  const byExternalId = new Map(guests.filter((g) => g.externalId).map((g) => [g.externalId!, g]));
+  const byEmail = new Map(guests.filter((g) => g.email).map((g) => [g.email!.toLowerCase(), g]));
+  const byName = new Map(guests.map((g) => [g.name.trim().toLowerCase(), g]));
+  const plan: LumaReconcilePlan = { add: [], update: [], unchanged: 0, missing: [] };
+  const matched = new Set<string>();
+
+  for (const luma of lumaGuests) {
+    const name = luma.name?.trim() || luma.email?.trim();
+    if (!name) continue;
+    const email = luma.email?.trim().toLowerCase() || undefined;
+    const status = lumaStatusToRsvp(luma.status);
+    const sameName = byName.get(name.toLowerCase());
+    const guest =
+      (luma.id && byExternalId.get(luma.id)) ||
+      (email && byEmail.get(email)) ||
+      (sameName && (!sameName.email || !email) ? sameName : undefined);
+    if (!guest || matched.has(guest.id)) {
+      plan.add.push({ name, email, externalId: luma.id, status, respondedAt: luma.registeredAt });
+      continue;
+    }
+    matched.add(guest.id);
+    const externalId = luma.id && luma.id !== guest.externalId ? luma.id : undefined;
+    if (rsvpStatusOf(guest) !== status || externalId) plan.update.push({ guest, status, externalId });
+    else plan.unchanged++;
+  }
+
+  plan.missing = guests.filter((g) => g.source === "luma" && !matched.has(g.id));
+  return plan;
+}
@@ -0,0 +1,92 @@
+/**
+ * localDbClient — Supabase-style query builder over the offline-first local database in the
+ * main process (electron/localDb.cjs). Covers the subset of the builder eventsDb uses:
+ * select / insert / upsert / update / delete, eq / in filters, order, limit, single /
+ * maybeSingle and `.select()` after a write. Queries are sent over IPC when awaited.
+ */
+import { localDbQuery, type LocalDbQuery, type LocalDbResult } from "./electronBridge";
+import type { QueryClient } from "./repos/supabaseRepos";
+
+class LocalQueryBuilder implements PromiseLike<LocalDbResult> {
+  private query: LocalDbQuery;
+
+  constructor(table: string) {
+    this.query = { table, action: "select", filters: [] };
+  }
+
+  select(columns = "*") {
+    this.query.columns = columns;
+    if (this.query.action !== "select") this.query.returning = true;
+    return this;
+  }
+
+  insert(values: object | object[]) {
+    this.query.action = "insert";
+    this.query.values = values as LocalDbQuery["values"];
+    return this;
+  }
+
+  upsert(values: object | object[], opts: { onConflict?: string; ignoreDuplicates?: boolean } = {}) {
+    this.query.action = "upsert";
+    this.query.values = values as LocalDbQuery["values"];
+    this.query.onConflict = opts.onConflict;
+    this.query.ignoreDuplicates = opts.ignoreDuplicates;
+    return this;
+  }
+
+  update(values: object) {
+    this.query.action = "update";
+    this.query.values = values as LocalDbQuery["values"];
+    return this;
+  }
+
+  delete() {
+    this.query.action = "delete";
+    return this;
+  }
+
+  eq(column: string, value: unknown) {
+    this.query.filters.push({ column, op: "eq", value });
+    return this;
+  }
+
+  in(column: string, values: unknown[]) {
+    this.query.filters.push({ column, op: "in", value: values });
+    return this;
+  }
+
+  order(column: string, opts: { ascending?: boolean } = {}) {
+    this.query.order = { column, ascending: opts.ascending ?? true };
+    return this;
+  }
+
+  limit(count: number) {
+    this.query.limit = count;
+    return this;
+  }
+
+  single() {
+    this.query.single = "single";
+    return this;
+  }
+
+  maybeSingle() {
+    this.query.single = "maybeSingle";
+    return this;
+  }
+
+  then<T1 = LocalDbResult, T2 = never>(
+    onfulfilled?: ((value: LocalDbResult) => T1 | PromiseLike<T1>) | null,
+    onrejected?: ((reason: unknown) => T2 | PromiseLike<T2>) | null
+  ): PromiseLike<T1 | T2> {
+    return localDbQuery(this.query).then(onfulfilled, onrejected);
+  }
+}
+
+/**
+ * localDbClient -> Stands in for the Supabase client in the repos when running in Electron.
+ * Both provide QueryClient, so the repos' queries read the same against either backend.
+ */
+export const localDbClient: QueryClient = {
+  from: (table: string) => new LocalQueryBuilder(table),
+};
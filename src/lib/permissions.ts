@@ -0,0 +1,68 @@
+/**
+ * permissions — What each per-event role may do. The database enforces the same rules with
+ * row-level security (migration 014) and the main process checks them before agent runs and
+ * tool approvals (electron/orchestrator/types.cjs EVENT_ROLE_ACTIONS); the app uses them to
+ * hide actions the user cannot take.
+ */
+import type { AccountSettings, EventRole, EventSeries, PlannerEvent } from "../types";
+
+/** EVENT_ROLES -> All roles, most to least access. */
+export const EVENT_ROLES: readonly EventRole[] = ["owner", "editor", "viewer", "vendor-guest"];
+
+export const EVENT_ROLE_LABELS: Record<EventRole, string> = {
+  owner: "Owner",
+  editor: "Editor",
+  viewer: "Viewer",
+  "vendor-guest": "Vendor / Guest",
+};
+
+/** EventAction -> Something a user can do on an event. */
+export type EventAction =
+  | "edit-details"
+  | "delete-event"
+  | "run-agents"
+  | "approve-tools"
+  | "manage-collaborators"
+  | "view-activity";
+
+const ROLE_ACTIONS: Record<EventRole, readonly EventAction[]> = {
+  owner: ["edit-details", "delete-event", "run-agents", "approve-tools", "manage-collaborators", "view-activity"],
+  editor: ["edit-details", "run-agents", "approve-tools", "view-activity"],
+  viewer: ["view-activity"],
+  "vendor-guest": [],
+};
+
+/** can -> Whether a role allows an action. */
+export function can(role: EventRole, action: EventAction): boolean {
+  return ROLE_ACTIONS[role].includes(action);
+}
+
+/**
+ * eventRoleFor -> The signed-in user's role on an event, resolved like event_role() in
+ * migration 014: creator, then their collaborators entry (by email), then organization
+ * membership. Without sign-in (local or memory storage) everyone owns every event.
+ */
+export function eventRoleFor(event: PlannerEvent, account: AccountSettings): EventRole {
+  const userId = account.personalAccount.userId;
+  if (!userId || !event.ownerId || event.ownerId === userId) return "owner";
+
+  const email = account.personalAccount.email.trim().toLowerCase();
+  const collaborator = email ? event.collaborators?.find((c) => c.email.toLowerCase() === email) : undefined;
+  if (collaborator) return collaborator.role;
+
+  const org = account.organizationAccount;
+  if (event.orgId && org?.orgId === event.orgId) return org.role === "owner" ? "owner" : "editor";
+  // Visible without a matching role (e.g. removed since the last load): read-only
+  return "viewer";
+}
+
+/**
+ * canManageSeries -> Whether the user may change a recurring series and create its
+ * occurrences: its creator or an owner of its organization (RLS in migration 016).
+ */
+export function canManageSeries(series: EventSeries, account: AccountSettings): boolean {
+  const userId = account.personalAccount.userId;
+  if (!userId || !series.ownerId || series.ownerId === userId) return true;
+  const org = account.organizationAccount;
+  return !!series.orgId && org?.orgId === series.orgId && org.role === "owner";
+}
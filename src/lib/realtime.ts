@@ -0,0 +1,320 @@
+/**
+ * realtime — Supabase Realtime subscriptions so edits made in another window or by a
+ * collaborator show up live. Rows are mapped to app types here; applyRealtimeChange merges
+ * them into eventRegistry. Requires migration 011 (tables added to the realtime publication).
+ */
+import type { RealtimePostgresChangesPayload } from "@supabase/supabase-js";
+import { supabase } from "./supabase";
+import {
+  eventRowToFormData,
+  chatRowToMessage,
+  taskRowToTask,
+  subtaskRowToSubtask,
+  type EventRow,
+  type ChatMessageRow,
+  type TaskRow,
+  type SubtaskRow,
+} from "./eventsDb";
+import type {
+  PlannerEvent,
+  EventFormData,
+  EventStatus,
+  ChatMessage,
+  Task,
+  Subtask,
+  OrchestratorNotification,
+} from "../types";
+
+/** RealtimeChange -> One row change from the events / tasks / subtasks / chat_messages tables. */
+export type RealtimeChange =
+  | { table: "events"; type: "upsert"; event: PlannerEvent & { eventUuid: string } }
+  | { table: "events"; type: "delete"; eventUuid: string }
+  | { table: "tasks"; type: "upsert"; eventUuid: string; task: Task }
+  | { table: "tasks"; type: "delete"; taskId: string }
+  | { table: "subtasks"; type: "upsert"; taskId: string; subtask: Subtask }
+  | { table: "subtasks"; type: "delete"; subtaskId: string }
+  | { table: "chat_messages"; type: "upsert"; eventUuid: string; message: ChatMessage }
+  | { table: "chat_messages"; type: "delete"; messageId: string };
+
+/** RealtimeHandlers -> Callbacks for subscribeToEventChanges. */
+export interface RealtimeHandlers {
+  /** onChange -> A row changed */
+  onChange: (change: RealtimeChange) => void;
+  /** onReconnect -> The channel came back after a drop; changes made meanwhile were missed */
+  onReconnect?: () => void;
+}
+
+/** NotificationRow -> orchestrator_notifications row shape. */
+interface NotificationRow {
+  id: string;
+  event_id: string;
+  task_id: string | null;
+  run_id: string | null;
+  type: OrchestratorNotification["type"];
+  title: string;
+  message: string;
+  suggestions: string[] | null;
+  is_read: boolean;
+  is_resolved: boolean;
+  resolved_response: string | null;
+  created_at: string;
+}
+
+/** deletedId -> Primary key of a DELETE payload (old rows only carry the key by default). */
+function deletedId(payload: RealtimePostgresChangesPayload<{ id: string }>): string | null {
+  return payload.eventType === "DELETE" ? (payload.old as { id?: string }).id ?? null : null;
+}
+
+/** eventRowToPlannerEvent -> Event shell from an events row; tasks and chat arrive as their own rows. */
+function eventRowToPlannerEvent(row: EventRow): PlannerEvent & { eventUuid: string } {
+  return {
+    evtId: row.evt_slug ?? row.id,
+    eventUuid: row.id,
+    formData: eventRowToFormData(row),
+    status: row.status as EventStatus,
+    createdAt: row.created_at,
+    chatTimeline: [],
+    accountType: (row.account_type as PlannerEvent["accountType"]) ?? undefined,
+    ownerId: row.user_id ?? undefined,
+    orgId: row.org_id ?? undefined,
+    seriesId: row.series_id ?? undefined,
+    occurrenceDate: row.occurrence_date ?? undefined,
+    retroCreated: row.retro_created ?? undefined,
+  };
+}
+
+/**
+ * subscribeToEventChanges -> Listen for row changes on events, tasks, subtasks and
+ * chat_messages. Returns an unsubscribe function.
+ */
+export function subscribeToEventChanges({ onChange, onReconnect }: RealtimeHandlers): () => void {
+  if (!supabase) return () => {};
+  const client = supabase;
+  let wasSubscribed = false;
+  let dropped = false;
+
+  const channel = client
+    .channel("eventropy-events")
+    .on("postgres_changes", { event: "*", schema: "public", table: "events" }, (payload: RealtimePostgresChangesPayload<EventRow>) => {
+      const id = deletedId(payload);
+      if (id) onChange({ table: "events", type: "delete", eventUuid: id });
+      else if (payload.eventType !== "DELETE") onChange({ table: "events", type: "upsert", event: eventRowToPlannerEvent(payload.new) });
+    })
+    .on("postgres_changes", { event: "*", schema: "public", table: "tasks" }, (payload: RealtimePostgresChangesPayload<TaskRow>) => {
+      const id = deletedId(payload);
+      if (id) onChange({ table: "tasks", type: "delete", taskId: id });
+      else if (payload.eventType !== "DELETE") {
+        onChange({ table: "tasks", type: "upsert", eventUuid: payload.new.event_id, task: taskRowToTask(payload.new, []) });
+      }
+    })
+    .on("postgres_changes", { event: "*", schema: "public", table: "subtasks" }, (payload: RealtimePostgresChangesPayload<SubtaskRow>) => {
+      const id = deletedId(payload);
+      if (id) onChange({ table: "subtasks", type: "delete", subtaskId: id });
+      else if (payload.eventType !== "DELETE") {
+        onChange({ table: "subtasks", type: "upsert", taskId: payload.new.task_id, subtask: subtaskRowToSubtask(payload.new) });
+      }
+    })
+    .on("postgres_changes", { event: "*", schema: "public", table: "chat_messages" }, (payload: RealtimePostgresChangesPayload<ChatMessageRow>) => {
+      const id = deletedId(payload);
+      if (id) onChange({ table: "chat_messages", type: "delete", messageId: id });
+      else if (payload.eventType !== "DELETE") {
+        const row = payload.new;
+        onChange({ table: "chat_messages", type: "upsert", eventUuid: row.event_id, message: chatRowToMessage(row, row.event_id) });
+      }
+    })
+    .subscribe((status, err) => {
+      if (status === "SUBSCRIBED") {
+        if (wasSubscribed && dropped) onReconnect?.();
+        wasSubscribed = true;
+        dropped = false;
+      } else if (status === "CHANNEL_ERROR" || status === "TIMED_OUT") {
+        dropped = true;
+        console.warn("[Eventropy] Realtime channel", status, err?.message ?? "", "- is migration 011 applied?");
+      }
+    });
+
+  return () => {
+    client.removeChannel(channel);
+  };
+}
+
+/** NotificationChange -> A notification was created, or changed (read / resolved) elsewhere. */
+export type NotificationChange = { type: "insert" | "update"; notification: OrchestratorNotification };
+
+/**
+ * subscribeToNotifications -> Listen for orchestrator_notifications changes, so a question
+ * answered in one window disappears from the others. Returns an unsubscribe function.
+ */
+export function subscribeToNotifications(callback: (change: NotificationChange) => void): () => void {
+  if (!supabase) return () => {};
+  const client = supabase;
+  const channel = client
+    .channel("eventropy-notifications")
+    .on(
+      "postgres_changes",
+      { event: "*", schema: "public", table: "orchestrator_notifications" },
+      (payload: RealtimePostgresChangesPayload<NotificationRow>) => {
+        if (payload.eventType === "DELETE") return;
+        const row = payload.new;
+        callback({
+          type: payload.eventType === "INSERT" ? "insert" : "update",
+          notification: {
+            id: row.id,
+            eventId: row.event_id,
+            taskId: row.task_id ?? undefined,
+            runId: row.run_id ?? undefined,
+            type: row.type,
+            title: row.title,
+            message: row.message,
+            suggestions: row.suggestions ?? undefined,
+            isRead: row.is_read,
+            isResolved: row.is_resolved,
+            resolvedResponse: row.resolved_response ?? undefined,
+            createdAt: row.created_at,
+          },
+        });
+      }
+    )
+    .subscribe();
+
+  return () => {
+    client.removeChannel(channel);
+  };
+}
+
+/** mapTasks -> Apply fn to each event's tasks; fn returns null to leave an event untouched. */
+function mapTasks(events: PlannerEvent[], fn: (tasks: Task[]) => Task[] | null): PlannerEvent[] {
+  let changed = false;
+  const next = events.map((e) => {
+    if (!e.tasks?.length) return e;
+    const tasks = fn(e.tasks);
+    if (!tasks) return e;
+    changed = true;
+    return { ...e, tasks };
+  });
+  return changed ? next : events;
+}
+
+/**
+ * applyRealtimeChange -> Merge one row change into eventRegistry.
+ * Conflict handling:
+ *   - tasks carry a version (migration 010); a change is only applied if it is newer than
+ *     the local copy, so echoes of our own saves and out-of-order deliveries are ignored.
+ *     Local edits still being saved are checked against the same version by syncEventTasks,
+ *     which reports clashes rather than overwriting them.
+ *   - events have no version; form fields the user changed and is still saving
+ *     (isFieldPending) keep the local value, every other field takes the remote one.
+ * Returns the same array when nothing changed.
+ */
+export function applyRealtimeChange(
+  events: PlannerEvent[],
+  change: RealtimeChange,
+  isFieldPending: (evtId: string, field: keyof EventFormData) => boolean = () => false
+): PlannerEvent[] {
+  const byUuid = (uuid: string) => (e: PlannerEvent) => e.eventUuid === uuid || e.evtId === uuid;
+
+  switch (change.table) {
+    case "events": {
+      if (change.type === "delete") {
+        const next = events.filter((e) => !byUuid(change.eventUuid)(e));
+        return next.length === events.length ? events : next;
+      }
+      const incoming = change.event;
+      const local = events.find(byUuid(incoming.eventUuid)) ?? events.find((e) => e.evtId === incoming.evtId);
+      if (!local) return [incoming, ...events];
+      const formData = { ...local.formData };
+      for (const key of Object.keys(incoming.formData) as (keyof EventFormData)[]) {
+        if (!isFieldPending(local.evtId, key)) {
+          (formData as Record<string, unknown>)[key] = incoming.formData[key];
+        }
+      }
+      return events.map((e) =>
+        e === local
+          ? {
+              ...e,
+              eventUuid: incoming.eventUuid,
+              formData,
+              status: incoming.status,
+              accountType: incoming.accountType ?? e.accountType,
+              ownerId: incoming.ownerId ?? e.ownerId,
+              orgId: incoming.orgId,
+              seriesId: incoming.seriesId,
+              occurrenceDate: incoming.occurrenceDate,
+              retroCreated: incoming.retroCreated ?? e.retroCreated,
+            }
+          : e
+      );
+    }
+
+    case "tasks": {
+      if (change.type === "delete") {
+        return mapTasks(events, (tasks) =>
+          tasks.some((t) => t.id === change.taskId) ? tasks.filter((t) => t.id !== change.taskId) : null
+        );
+      }
+      const incoming = change.task;
+      const owner = events.find(byUuid(change.eventUuid));
+      if (!owner) return events;
+      const local = owner.tasks?.find((t) => t.id === incoming.id);
+      if (local?.version != null && incoming.version != null && incoming.version <= local.version) return events;
+      const merged: Task = local
+        ? // Keep what the row does not carry: subtasks, live agent progress, chat
+          { ...local, ...incoming, subtasks: local.subtasks, chatMessages: local.chatMessages }
+        : incoming;
+      return events.map((e) =>
+        e === owner
+          ? {
+              ...e,
+              tasks: local ? e.tasks!.map((t) => (t.id === incoming.id ? merged : t)) : [...(e.tasks ?? []), merged],
+            }
+          : e
+      );
+    }
+
+    case "subtasks": {
+      if (change.type === "delete") {
+        return mapTasks(events, (tasks) => {
+          if (!tasks.some((t) => t.subtasks?.some((s) => s.id === change.subtaskId))) return null;
+          return tasks.map((t) => {
+            if (!t.subtasks?.some((s) => s.id === change.subtaskId)) return t;
+            const subtasks = t.subtasks.filter((s) => s.id !== change.subtaskId);
+            return { ...t, subtasks: subtasks.length ? subtasks : undefined };
+          });
+        });
+      }
+      const { taskId, subtask } = change;
+      return mapTasks(events, (tasks) => {
+        if (!tasks.some((t) => t.id === taskId)) return null;
+        return tasks.map((t) => {
+          if (t.id !== taskId) return t;
+          const existing = t.subtasks ?? [];
+          return {
+            ...t,
+            subtasks: existing.some((s) => s.id === subtask.id)
+              ? existing.map((s) => (s.id === subtask.id ? subtask : s))
+              : [...existing, subtask],
+          };
+        });
+      });
+    }
+
+    case "chat_messages": {
+      if (change.type === "delete") {
+        let changed = false;
+        const next = events.map((e) => {
+          if (!e.chatTimeline.some((m) => m.msgId === change.messageId)) return e;
+          changed = true;
+          return { ...e, chatTimeline: e.chatTimeline.filter((m) => m.msgId !== change.messageId) };
+        });
+        return changed ? next : events;
+      }
+      const owner = events.find(byUuid(change.eventUuid));
+      if (!owner) return events;
+      const { message } = change;
+      const chatTimeline = owner.chatTimeline.some((m) => m.msgId === message.msgId)
+        ? owner.chatTimeline.map((m) => (m.msgId === message.msgId ? message : m))
+        : [...owner.chatTimeline, message].sort((a, b) => a.timestamp.localeCompare(b.timestamp));
+      return events.map((e) => (e === owner ? { ...e, chatTimeline } : e));
+    }
+  }
+}
@@ -0,0 +1,231 @@
+/**
+ * recurrence — The subset of RFC 5545 recurrence rules (RRULE) event series use:
+ * FREQ (DAILY, WEEKLY, MONTHLY, YEARLY), INTERVAL, BYDAY (with ordinals for monthly rules,
+ * e.g. 1TU, -1FR), BYMONTHDAY, COUNT and UNTIL. Dates are calendar dates (YYYY-MM-DD);
+ * weeks start on Monday.
+ */
+
+export type RecurrenceFrequency = "DAILY" | "WEEKLY" | "MONTHLY" | "YEARLY";
+
+/** RecurrenceRule -> A parsed RRULE. weekday: 0 = Sunday ... 6 = Saturday. */
+export interface RecurrenceRule {
+  freq: RecurrenceFrequency;
+  interval: number;
+  /** byDay -> Weekdays; ordinal picks the nth (negative: from the end) weekday of the month */
+  byDay?: { weekday: number; ordinal?: number }[];
+  /** byMonthDay -> Days of the month (negative: from the end) */
+  byMonthDay?: number[];
+  count?: number;
+  /** until -> Last possible date (inclusive) */
+  until?: string;
+}
+
+const WEEKDAY_CODES = ["SU", "MO", "TU", "WE", "TH", "FR", "SA"];
+const WEEKDAY_NAMES = ["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"];
+const ORDINAL_NAMES: Record<number, string> = { 1: "first", 2: "second", 3: "third", 4: "fourth", 5: "fifth", [-1]: "last" };
+const FREQ_UNITS: Record<RecurrenceFrequency, string> = { DAILY: "day", WEEKLY: "week", MONTHLY: "month", YEARLY: "year" };
+/** MAX_PERIODS -> Safety bound on how many days / weeks / months / years are walked. */
+const MAX_PERIODS = 5000;
+
+/** parseRRule -> Parse an RRULE string (with or without the "RRULE:" prefix). Throws on what is not supported. */
+export function parseRRule(rrule: string): RecurrenceRule {
+  const parts = new Map(
+    rrule
+      .trim()
+      .replace(/^RRULE:/i, "")
+      .split(";")
+      .filter(Boolean)
+      .map((part) => {
+        const [key, value = ""] = part.split("=");
+        return [key.trim().toUpperCase(), value.trim().toUpperCase()] as const;
+      })
+  );
+
+  const freq = parts.get("FREQ") as RecurrenceFrequency | undefined;
+  if (!freq || !(freq in FREQ_UNITS)) throw new Error(`Unsupported recurrence frequency: ${freq ?? "(none)"}`);
+  const rule: RecurrenceRule = { freq, interval: 1 };
+
+  const interval = parts.get("INTERVAL");
+  if (interval) {
+    rule.interval = Number(interval);
+    if (!Number.isInteger(rule.interval) || rule.interval < 1) throw new Error(`Invalid INTERVAL: ${interval}`);
+  }
+  const byDay = parts.get("BYDAY");
+  if (byDay) {
+    rule.byDay = byDay.split(",").map((code) => {
+      const match = /^([+-]?\d{1,2})?(SU|MO|TU|WE|TH|FR|SA)$/.exec(code);
+      if (!match) throw new Error(`Invalid BYDAY: ${code}`);
+      const weekday = WEEKDAY_CODES.indexOf(match[2]);
+      return match[1] ? { weekday, ordinal: Number(match[1]) } : { weekday };
+    });
+  }
+  const byMonthDay = parts.get("BYMONTHDAY");
+  if (byMonthDay) {
+    rule.byMonthDay = byMonthDay.split(",").map(Number);
+    if (rule.byMonthDay.some((d) => !Number.isInteger(d) || d === 0 || Math.abs(d) > 31)) {
+      throw new Error(`Invalid BYMONTHDAY: ${byMonthDay}`);
+    }
+  }
+  const count = parts.get("COUNT");
+  if (count) {
+    rule.count = Number(count);
+    if (!Number.isInteger(rule.count) || rule.count < 1) throw new Error(`Invalid COUNT: ${count}`);
+  }
+  const until = parts.get("UNTIL");
+  if (until) {
+    const match = /^(\d{4})-?(\d{2})-?(\d{2})/.exec(until);
+    if (!match) throw new Error(`Invalid UNTIL: ${until}`);
+    rule.until = `${match[1]}-${match[2]}-${match[3]}`;
+  }
+  return rule;
+}
+
+/** formatRRule -> The RRULE string for a rule (no "RRULE:" prefix). */
+export function formatRRule(rule: RecurrenceRule): string {
+  const parts = [`FREQ=${rule.freq}`];
+  if (rule.interval > 1) parts.push(`INTERVAL=${rule.interval}`);
+  if (rule.byDay?.length) {
+    parts.push(`BYDAY=${rule.byDay.map((d) => `${d.ordinal ?? ""}${WEEKDAY_CODES[d.weekday]}`).join(",")}`);
+  }
+  if (rule.byMonthDay?.length) parts.push(`BYMONTHDAY=${rule.byMonthDay.join(",")}`);
+  if (rule.count) parts.push(`COUNT=${rule.count}`);
+  if (rule.until) parts.push(`UNTIL=${rule.until.replace(/-/g, "")}`);
+  return parts.join(";");
+}
+
+/** describeRRule -> Plain-English summary, e.g. "Every 2 weeks on Tuesday" or "Monthly on the first Thursday". */
+export function describeRRule(rule: RecurrenceRule): string {
+  const unit = FREQ_UNITS[rule.freq];
+  let text =
+    rule.interval > 1
+      ? `Every ${rule.interval} ${unit}s`
+      : { DAILY: "Daily", WEEKLY: "Weekly", MONTHLY: "Monthly", YEARLY: "Yearly" }[rule.freq];
+  if (rule.byDay?.length) {
+    const days = rule.byDay.map((d) =>
+      d.ordinal != null ? `the ${ORDINAL_NAMES[d.ordinal] ?? `${d.ordinal}th`} ${WEEKDAY_NAMES[d.weekday]}` : WEEKDAY_NAMES[d.weekday]
+    );
+    text += ` on ${days.join(", ")}`;
+  } else if (rule.byMonthDay?.length) {
+    text += ` on ${rule.byMonthDay.map((d) => (d === -1 ? "the last day" : `day ${d}`)).join(", ")}`;
+  }
+  if (rule.until) text += ` until ${rule.until}`;
+  if (rule.count) text += `, ${rule.count} times`;
+  return text;
+}
+
+/**
+ * occurrenceDates -> Dates the rule produces from startsOn (the first occurrence, always
+ * included when it matches) that fall within [from, to]. COUNT counts from startsOn.
+ */
+export function occurrenceDates(rule: RecurrenceRule, startsOn: string, from: string, to: string): string[] {
+  const start = toDayNumber(startsOn);
+  const rangeStart = toDayNumber(from);
+  const rangeEnd = Math.min(toDayNumber(to), rule.until ? toDayNumber(rule.until) : Infinity);
+  const dates: string[] = [];
+  let produced = 0;
+
+  for (let period = 0; period < MAX_PERIODS; period++) {
+    const candidates = periodCandidates(rule, start, period);
+    if (candidates === null) break;
+    for (const day of candidates) {
+      if (day < start) continue;
+      if (day > rangeEnd) return dates;
+      produced++;
+      if (rule.count && produced > rule.count) return dates;
+      if (day >= rangeStart) dates.push(fromDayNumber(day));
+    }
+  }
+  return dates;
+}
+
+/**
+ * recurrencePresets -> Common rules anchored on a first date: weekly and every other week on
+ * its weekday, monthly on its nth (or last) weekday or day of month, and yearly.
+ */
+export function recurrencePresets(startsOn: string): { label: string; rrule: string }[] {
+  const date = new Date(toDayNumber(startsOn) * DAY_MS);
+  if (Number.isNaN(date.getTime())) return [];
+  const weekday = date.getUTCDay();
+  const dayOfMonth = date.getUTCDate();
+  const monthLength = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1, 0)).getUTCDate();
+  // The 5th weekday of a month only exists in some months; "last" recurs every month
+  const ordinal = dayOfMonth + 7 > monthLength ? -1 : Math.ceil(dayOfMonth / 7);
+  const rules: RecurrenceRule[] = [
+    { freq: "WEEKLY", interval: 1, byDay: [{ weekday }] },
+    { freq: "WEEKLY", interval: 2, byDay: [{ weekday }] },
+    { freq: "MONTHLY", interval: 1, byDay: [{ weekday, ordinal }] },
+    { freq: "MONTHLY", interval: 1, byMonthDay: [dayOfMonth] },
+    { freq: "YEARLY", interval: 1 },
+  ];
+  return rules.map((rule) => ({ label: describeRRule(rule), rrule: formatRRule(rule) }));
+}
+
+/**
+ * periodCandidates -> Sorted day numbers the rule yields in the nth period (day, week, month
+ * or year) after the one containing start. Empty when nothing in the period matches.
+ */
+function periodCandidates(rule: RecurrenceRule, start: number, period: number): number[] | null {
+  const step = period * rule.interval;
+  const startDate = new Date(start * DAY_MS);
+  switch (rule.freq) {
+    case "DAILY":
+      return [start + step];
+    case "WEEKLY": {
+      const weekStart = start - ((startDate.getUTCDay() + 6) % 7) + step * 7;
+      const weekdays = rule.byDay?.map((d) => d.weekday) ?? [startDate.getUTCDay()];
+      return [...new Set(weekdays.map((wd) => weekStart + ((wd + 6) % 7)))].sort((a, b) => a - b);
+    }
+    case "MONTHLY": {
+      const monthIndex = startDate.getUTCMonth() + step;
+      const year = startDate.getUTCFullYear() + Math.floor(monthIndex / 12);
+      const month = ((monthIndex % 12) + 12) % 12;
+      return monthCandidates(rule, year, month, startDate.getUTCDate());
+    }
+    case "YEARLY": {
+      const year = startDate.getUTCFullYear() + step;
+      return monthCandidates(rule, year, startDate.getUTCMonth(), startDate.getUTCDate());
+    }
+    default:
+      return null;
+  }
+}
+
+/** monthCandidates -> Matching days of one month: BYMONTHDAY, BYDAY (optionally nth) or the start's day of month. */
+function monthCandidates(rule: RecurrenceRule, year: number, month: number, defaultDay: number): number[] {
+  const first = Date.UTC(year, month, 1) / DAY_MS;
+  const length = new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+  const days = new Set<number>();
+
+  if (rule.byMonthDay?.length) {
+    for (const d of rule.byMonthDay) {
+      const dayOfMonth = d > 0 ? d : length + d + 1;
+      if (dayOfMonth >= 1 && dayOfMonth <= length) days.add(first + dayOfMonth - 1);
+    }
+  } else if (rule.byDay?.length) {
+    const firstWeekday = new Date(first * DAY_MS).getUTCDay();
+    for (const { weekday, ordinal } of rule.byDay) {
+      const matches: number[] = [];
+      for (let d = (weekday - firstWeekday + 7) % 7; d < length; d += 7) matches.push(first + d);
+      if (ordinal == null) matches.forEach((m) => days.add(m));
+      else {
+        const pick = ordinal > 0 ? matches[ordinal - 1] : matches[matches.length + ordinal];
+        if (pick != null) days.add(pick);
+      }
+    }
+  } else if (defaultDay <= length) {
+    days.add(first + defaultDay - 1);
+  }
+  return [...days].sort((a, b) => a - b);
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** toDayNumber -> Days since 1970-01-01 for a YYYY-MM-DD date. */
+function toDayNumber(date: string): number {
+  const [y, m, d] = date.slice(0, 10).split("-").map(Number);
+  return Date.UTC(y, m - 1, d) / DAY_MS;
+}
+
+function fromDayNumber(day: number): string {
+  return new Date(day * DAY_MS).toISOString().slice(0, 10);
+}
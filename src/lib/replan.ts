@@ -0,0 +1,89 @@
+import { newRecordId } from "./taskSync";
+import type { EventDetailChange, EventFormData, ReplanChange, Task } from "../types";
+
+/** REPLAN_FIELDS -> EventFormData fields whose changes can invalidate the task plan. */
+const REPLAN_FIELDS: { field: EventDetailChange["field"]; label: string }[] = [
+  { field: "eventDate", label: "Date" },
+  { field: "startTime", label: "Start time" },
+  { field: "endTime", label: "End time" },
+  { field: "guestCount", label: "Guest count" },
+  { field: "budget", label: "Budget" },
+  { field: "venuePref", label: "Venue" },
+  { field: "foodDrinks", label: "Food & drinks" },
+];
+
+/**
+ * Diff two versions of the event details, keeping only the fields that matter for planning.
+ * Values are compared as trimmed text so "" and undefined count as the same.
+ */
+export function diffEventFormData(prev: EventFormData, next: EventFormData): EventDetailChange[] {
+  const text = (value: unknown) => (value == null ? "" : String(value).trim());
+  return REPLAN_FIELDS.filter(({ field }) => text(prev[field]) !== text(next[field])).map(
+    ({ field, label }) => ({ field, label, from: text(prev[field]), to: text(next[field]) })
+  );
+}
+
+/**
+ * Fold a new diff into the one still awaiting review, keeping each field's original
+ * "from" value. Fields changed back to where they started drop out.
+ */
+export function mergeDetailChanges(
+  pending: EventDetailChange[],
+  latest: EventDetailChange[]
+): EventDetailChange[] {
+  const merged = new Map(pending.map((c) => [c.field, c]));
+  for (const change of latest) {
+    const earlier = merged.get(change.field);
+    merged.set(change.field, earlier ? { ...change, from: earlier.from } : change);
+  }
+  return [...merged.values()].filter((c) => c.from !== c.to);
+}
+
+/**
+ * Tasks replanning must leave alone: finished work and tasks whose document the user wrote.
+ */
+export function isProtectedTask(task: Task): boolean {
+  return task.status === "done" || !!task.bodyUserEdited;
+}
+
+/**
+ * Apply one accepted replanning change to the task list. Changes that target a
+ * missing or protected task leave the list untouched.
+ */
+export function applyReplanChange(tasks: Task[], change: ReplanChange): Task[] {
+  if (change.kind === "add") {
+    const task: Task = {
+      id: newRecordId(),
+      title: change.title,
+      description: change.description || undefined,
+      status: "todo",
+      priority: change.priority ?? 1,
+      dueDate: change.dueDate || undefined,
+      agentId: change.agentId,
+      assignedTo: "ai-agent",
+      dependencies: [],
+      blockers: [],
+      createdAt: new Date().toISOString(),
+    };
+    return [...tasks, task];
+  }
+
+  const target = tasks.find((t) => t.id === change.taskId);
+  if (!target || isProtectedTask(target)) return tasks;
+
+  switch (change.kind) {
+    case "remove":
+      // Drop edges to the removed task so dependents are not left waiting on it
+      return tasks
+        .filter((t) => t.id !== target.id)
+        .map((t) =>
+          t.dependencies.includes(target.id)
+            ? { ...t, dependencies: t.dependencies.filter((id) => id !== target.id) }
+            : t
+        );
+    case "redate":
+      return tasks.map((t) => (t.id === target.id ? { ...t, dueDate: change.dueDate || undefined } : t));
+    case "reprioritize":
+      return tasks.map((t) => (t.id === target.id ? { ...t, priority: change.priority ?? t.priority } : t));
+  }
+}
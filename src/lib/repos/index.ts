@@ -0,0 +1,32 @@
+/**
+ * repos — The storage backend the renderer reads and writes through (see ./types):
+ *   - Electron: the offline-first local database, synced to Supabase by the main process
+ *   - browser with VITE_EVENTROPY_STORAGE=memory: in memory, nothing persisted
+ *   - browser otherwise: Supabase directly
+ */
+import { supabase } from "../supabase";
+import { localDbClient } from "../localDbClient";
+import { isElectron } from "../electronBridge";
+import { createSupabaseRepos, supabaseQueryClient } from "./supabaseRepos";
+import { createMemoryRepos } from "./memoryRepos";
+import type { Repos } from "./types";
+
+export type * from "./types";
+export { createSupabaseRepos, createMemoryRepos };
+
+let current: Repos | null = null;
+
+/** getRepos -> The configured backend (created on first use). */
+export function getRepos(): Repos {
+  if (current) return current;
+  if (isElectron()) current = createSupabaseRepos(localDbClient);
+  else if (import.meta.env.VITE_EVENTROPY_STORAGE === "memory") current = createMemoryRepos();
+  else if (supabase) current = createSupabaseRepos(supabaseQueryClient(supabase));
+  else throw new Error("Supabase is not configured (VITE_SUPABASE_URL, VITE_SUPABASE_PUBLISHABLE_KEY).");
+  return current;
+}
+
+/** setRepos -> Swap the backend, e.g. for a test double. Pass null to go back to the configured one. */
+export function setRepos(repos: Repos | null): void {
+  current = repos;
+}
@@ -0,0 +1,358 @@
+/**
+ * memoryRepos — Repos kept in memory: a test double, and the backend for a browser build
+ * with VITE_EVENTROPY_STORAGE=memory (no Supabase project needed). Mirrors what the
+ * database does for us: generated ids and timestamps, the task version trigger
+ * (migration 010) and ON DELETE CASCADE. Rows are copied in and out.
+ */
+import { newRecordId, UUID_REGEX } from "../taskSync";
+import type {
+  Repos,
+  NewTaskRow,
+  EventRow,
+  ChatMessageRow,
+  TaskRow,
+  SubtaskRow,
+  DocumentRow,
+  CollaboratorRow,
+  EventTemplateRow,
+  EventSeriesRow,
+  GuestRow,
+  RsvpRow,
+  BudgetItemRow,
+  VendorRow,
+  VendorLinkRow,
+  RunOfShowSegmentRow,
+} from "./types";
+
+/** MemoryTables -> Initial rows per table. */
+export interface MemoryTables {
+  events?: EventRow[];
+  chat_messages?: ChatMessageRow[];
+  tasks?: TaskRow[];
+  subtasks?: SubtaskRow[];
+  documents?: DocumentRow[];
+  collaborators?: CollaboratorRow[];
+  event_templates?: EventTemplateRow[];
+  event_series?: EventSeriesRow[];
+  guests?: GuestRow[];
+  rsvps?: RsvpRow[];
+  budget_items?: BudgetItemRow[];
+  vendors?: VendorRow[];
+  vendor_links?: VendorLinkRow[];
+  run_of_show_segments?: RunOfShowSegmentRow[];
+}
+
+const copy = <T>(value: T): T => structuredClone(value);
+
+const byKey = <T>(key: keyof T, ascending = true) => (a: T, b: T) =>
+  String(a[key]).localeCompare(String(b[key])) * (ascending ? 1 : -1);
+
+export function createMemoryRepos(seed: MemoryTables = {}): Repos {
+  let events = copy(seed.events ?? []);
+  let chat = copy(seed.chat_messages ?? []);
+  let tasks = copy(seed.tasks ?? []);
+  let subtasks = copy(seed.subtasks ?? []);
+  let documents = copy(seed.documents ?? []);
+  let collaborators = copy(seed.collaborators ?? []);
+  let templates = copy(seed.event_templates ?? []);
+  let series = copy(seed.event_series ?? []);
+  let guests = copy(seed.guests ?? []);
+  let rsvps = copy(seed.rsvps ?? []);
+  let budgetItems = copy(seed.budget_items ?? []);
+  let vendors = copy(seed.vendors ?? []);
+  let vendorLinks = copy(seed.vendor_links ?? []);
+  let segments = copy(seed.run_of_show_segments ?? []);
+
+  const now = () => new Date().toISOString();
+
+  const removeTasks = (ids: string[]) => {
+    tasks = tasks.filter((t) => !ids.includes(t.id));
+    subtasks = subtasks.filter((s) => !ids.includes(s.task_id));
+    budgetItems = budgetItems.map((b) => (b.task_id && ids.includes(b.task_id) ? { ...b, task_id: null } : b));
+    vendorLinks = vendorLinks.map((l) => (l.task_id && ids.includes(l.task_id) ? { ...l, task_id: null } : l));
+  };
+
+  const insertTask = (row: NewTaskRow) => {
+    tasks.push({ ...copy(row), created_at: now(), version: 1, updated_at: now() });
+  };
+
+  return {
+    events: {
+      async resolveId(evtId) {
+        const key = evtId.trim();
+        if (UUID_REGEX.test(key)) return key;
+        return events.find((e) => e.evt_slug === key)?.id ?? null;
+      },
+      async list() {
+        return copy(events).sort(byKey<EventRow>("created_at", false));
+      },
+      async listDocuments() {
+        return copy(documents);
+      },
+      async listCollaborators() {
+        return copy(collaborators);
+      },
+      async addCollaborator(row) {
+        collaborators.push(copy(row));
+      },
+      async updateCollaborator(id, patch) {
+        collaborators = collaborators.map((c) => (c.id === id ? { ...c, ...copy(patch) } : c));
+      },
+      async removeCollaborator(id) {
+        collaborators = collaborators.filter((c) => c.id !== id);
+      },
+      async insert(row) {
+        const event: EventRow = {
+          user_id: null,
+          org_id: null,
+          series_id: null,
+          occurrence_date: null,
+          ...copy(row),
+          id: newRecordId(),
+          retro_created: false,
+          created_at: now(),
+          updated_at: now(),
+        };
+        events.push(event);
+        return { id: event.id, evt_slug: event.evt_slug };
+      },
+      async update(id, patch) {
+        events = events.map((e) => (e.id === id ? { ...e, ...copy(patch), updated_at: now() } : e));
+      },
+      async remove(id) {
+        events = events.filter((e) => e.id !== id);
+        chat = chat.filter((m) => m.event_id !== id);
+        documents = documents.filter((d) => d.event_id !== id);
+        collaborators = collaborators.filter((c) => c.event_id !== id);
+        guests = guests.filter((g) => g.event_id !== id);
+        rsvps = rsvps.filter((r) => r.event_id !== id);
+        budgetItems = budgetItems.filter((b) => b.event_id !== id);
+        vendorLinks = vendorLinks.filter((l) => l.event_id !== id);
+        segments = segments.filter((s) => s.event_id !== id);
+        removeTasks(tasks.filter((t) => t.event_id === id).map((t) => t.id));
+        templates = templates.map((t) => (t.source_event_id === id ? { ...t, source_event_id: null } : t));
+      },
+    },
+
+    tasks: {
+      async list(eventId) {
+        return copy(tasks.filter((t) => !eventId || t.event_id === eventId)).sort(byKey<TaskRow>("created_at"));
+      },
+      async get(id) {
+        const row = tasks.find((t) => t.id === id);
+        return row ? copy(row) : null;
+      },
+      async insert(rows) {
+        for (const row of rows) if (!tasks.some((t) => t.id === row.id)) insertTask(row);
+      },
+      async upsert(rows) {
+        for (const row of rows) {
+          const existing = tasks.find((t) => t.id === row.id);
+          if (!existing) insertTask(row);
+          else Object.assign(existing, copy(row), { version: existing.version + 1, updated_at: now() });
+        }
+      },
+      async update(id, patch, version) {
+        const row = tasks.find((t) => t.id === id);
+        if (!row || (version != null && row.version !== version)) return false;
+        Object.assign(row, copy(patch), { version: row.version + 1, updated_at: now() });
+        return true;
+      },
+      async remove(id, version) {
+        const row = tasks.find((t) => t.id === id);
+        if (!row || (version != null && row.version !== version)) return false;
+        removeTasks([id]);
+        return true;
+      },
+      async listSubtasks(taskIds) {
+        return copy(subtasks.filter((s) => !taskIds || taskIds.includes(s.task_id)));
+      },
+      async insertSubtasks(rows) {
+        for (const row of rows) if (!subtasks.some((s) => s.id === row.id)) subtasks.push(copy(row));
+      },
+      async updateSubtask(id, patch) {
+        subtasks = subtasks.map((s) => (s.id === id ? { ...s, ...copy(patch) } : s));
+      },
+      async removeSubtasks(ids) {
+        subtasks = subtasks.filter((s) => !ids.includes(s.id));
+      },
+    },
+
+    chat: {
+      async list(filter = {}) {
+        return copy(
+          chat.filter(
+            (m) =>
+              (!filter.eventId || m.event_id === filter.eventId) &&
+              (!filter.agentId || m.agent_id === filter.agentId) &&
+              (!filter.roles || filter.roles.includes(m.role))
+          )
+        ).sort(byKey<ChatMessageRow>("message_at"));
+      },
+      async insert(row) {
+        chat.push({ ...copy(row), id: row.id ?? newRecordId() });
+      },
+    },
+
+    templates: {
+      async list() {
+        return copy(templates).sort(byKey<EventTemplateRow>("name"));
+      },
+      async insert(row) {
+        templates.push({ user_id: null, org_id: null, ...copy(row), created_at: now(), updated_at: now() });
+      },
+      async remove(id) {
+        templates = templates.filter((t) => t.id !== id);
+      },
+    },
+
+    series: {
+      async list() {
+        return copy(series).sort(byKey<EventSeriesRow>("created_at"));
+      },
+      async insert(row) {
+        series.push({ user_id: null, org_id: null, active: true, ...copy(row), created_at: now(), updated_at: now() });
+      },
+      async update(id, patch) {
+        series = series.map((s) => (s.id === id ? { ...s, ...copy(patch), updated_at: now() } : s));
+      },
+      async remove(id) {
+        series = series.filter((s) => s.id !== id);
+        events = events.map((e) => (e.series_id === id ? { ...e, series_id: null } : e));
+      },
+    },
+
+    guests: {
+      async list(eventId) {
+        return copy(guests.filter((g) => g.event_id === eventId)).sort(byKey<GuestRow>("name"));
+      },
+      async insert(row) {
+        guests.push({
+          email: null,
+          phone: null,
+          dietary_needs: null,
+          notes: null,
+          source: "manual",
+          external_id: null,
+          ...copy(row),
+          created_at: now(),
+          updated_at: now(),
+        });
+      },
+      async update(id, patch) {
+        guests = guests.map((g) => (g.id === id ? { ...g, ...copy(patch), updated_at: now() } : g));
+      },
+      async remove(id) {
+        guests = guests.filter((g) => g.id !== id);
+        rsvps = rsvps.filter((r) => r.guest_id !== id);
+      },
+      async listRsvps(eventId) {
+        return copy(rsvps.filter((r) => r.event_id === eventId));
+      },
+      async insertRsvp(row) {
+        rsvps.push({ plus_ones: 0, responded_at: null, source: "manual", ...copy(row), created_at: now(), updated_at: now() });
+      },
+      async updateRsvp(id, patch) {
+        rsvps = rsvps.map((r) => (r.id === id ? { ...r, ...copy(patch), updated_at: now() } : r));
+      },
+    },
+
+    budget: {
+      async list(eventId) {
+        return copy(budgetItems.filter((b) => b.event_id === eventId)).sort(byKey<BudgetItemRow>("created_at"));
+      },
+      async insert(row) {
+        budgetItems.push({
+          agent_id: "general",
+          vendor_name: null,
+          vendor_url: null,
+          estimated: 0,
+          committed: 0,
+          paid: 0,
+          paid_at: null,
+          receipt_url: null,
+          notes: null,
+          task_id: null,
+          source: "manual",
+          ...copy(row),
+          created_at: now(),
+          updated_at: now(),
+        });
+      },
+      async update(id, patch) {
+        budgetItems = budgetItems.map((b) => (b.id === id ? { ...b, ...copy(patch), updated_at: now() } : b));
+      },
+      async remove(id) {
+        budgetItems = budgetItems.filter((b) => b.id !== id);
+      },
+    },
+
+    vendors: {
+      async list() {
+        return copy(vendors).sort(byKey<VendorRow>("name"));
+      },
+      async insert(row) {
+        vendors.push({
+          categories: [],
+          contact_name: null,
+          email: null,
+          phone: null,
+          website: null,
+          price_min: null,
+          price_max: null,
+          price_notes: null,
+          rating: null,
+          notes: null,
+          user_id: null,
+          org_id: null,
+          ...copy(row),
+          created_at: now(),
+          updated_at: now(),
+        });
+      },
+      async update(id, patch) {
+        vendors = vendors.map((v) => (v.id === id ? { ...v, ...copy(patch), updated_at: now() } : v));
+      },
+      async remove(id) {
+        vendors = vendors.filter((v) => v.id !== id);
+        vendorLinks = vendorLinks.filter((l) => l.vendor_id !== id);
+      },
+      async listLinks() {
+        return copy(vendorLinks).sort(byKey<VendorLinkRow>("created_at"));
+      },
+      async insertLink(row) {
+        vendorLinks.push({ task_id: null, notes: null, source: "manual", ...copy(row), created_at: now() });
+      },
+      async removeLink(id) {
+        vendorLinks = vendorLinks.filter((l) => l.id !== id);
+      },
+    },
+
+    runOfShow: {
+      async list(eventId) {
+        return copy(segments.filter((s) => s.event_id === eventId)).sort((a, b) => a.position - b.position);
+      },
+      async insert(row) {
+        segments.push({
+          position: 0,
+          start_time: null,
+          duration_minutes: 15,
+          owner: null,
+          location: null,
+          av_cues: null,
+          notes: null,
+          source: "manual",
+          ...copy(row),
+          created_at: now(),
+          updated_at: now(),
+        });
+      },
+      async update(id, patch) {
+        segments = segments.map((s) => (s.id === id ? { ...s, ...copy(patch), updated_at: now() } : s));
+      },
+      async remove(id) {
+        segments = segments.filter((s) => s.id !== id);
+      },
+    },
+  };
+}
@@ -0,0 +1,386 @@
+/**
+ * supabaseRepos — Repos over a Supabase client. Also used with localDbClient, which speaks
+ * the same query builder over the offline-first local database in Electron, and works
+ * against any Supabase-compatible Postgres (hosted, `supabase start`, self-hosted).
+ */
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { UUID_REGEX } from "../taskSync";
+import type {
+  Repos,
+  EventRow,
+  ChatMessageRow,
+  TaskRow,
+  SubtaskRow,
+  DocumentRow,
+  CollaboratorRow,
+  EventTemplateRow,
+  EventSeriesRow,
+  GuestRow,
+  RsvpRow,
+  BudgetItemRow,
+  VendorRow,
+  VendorLinkRow,
+  RunOfShowSegmentRow,
+} from "./types";
+
+/** QueryResult -> Supabase-style `{ data, error }` result of a query. */
+export interface QueryResult {
+  data: unknown;
+  error: { message: string } | null;
+}
+
+/** FilterBuilder -> Filters, ordering and result shape of a query; awaiting runs it. */
+export interface FilterBuilder extends PromiseLike<QueryResult> {
+  eq(column: string, value: unknown): FilterBuilder;
+  in(column: string, values: readonly unknown[]): FilterBuilder;
+  order(column: string, opts?: { ascending?: boolean }): FilterBuilder;
+  limit(count: number): FilterBuilder;
+  single(): PromiseLike<QueryResult>;
+  maybeSingle(): PromiseLike<QueryResult>;
+}
+
+/** WrittenRows -> The rows a write returns (after select()): awaited as a list, or as one row. */
+export interface WrittenRows extends PromiseLike<QueryResult> {
+  single(): PromiseLike<QueryResult>;
+  maybeSingle(): PromiseLike<QueryResult>;
+}
+
+/** WriteBuilder -> An insert, upsert, update or delete; select() returns the rows it wrote. */
+export interface WriteBuilder extends PromiseLike<QueryResult> {
+  eq(column: string, value: unknown): WriteBuilder;
+  in(column: string, values: readonly unknown[]): WriteBuilder;
+  select(columns?: string): WrittenRows;
+}
+
+/** TableBuilder -> What from(table) offers. */
+export interface TableBuilder {
+  select(columns?: string): FilterBuilder;
+  insert(values: object | object[]): WriteBuilder;
+  upsert(values: object | object[], opts?: { onConflict?: string; ignoreDuplicates?: boolean }): WriteBuilder;
+  update(values: object): WriteBuilder;
+  delete(): WriteBuilder;
+}
+
+/**
+ * QueryClient -> The part of the Supabase client these repos use. localDbClient provides
+ * it, and the Supabase client through supabaseQueryClient.
+ */
+export interface QueryClient {
+  from(table: string): TableBuilder;
+}
+
+/**
+ * supabaseQueryClient -> The Supabase client as a QueryClient. tsc cannot compare the
+ * client's generic builder signatures with QueryClient (TS2589), but it can check the
+ * builders each call returns.
+ */
+export function supabaseQueryClient(client: SupabaseClient): QueryClient {
+  return {
+    from(table) {
+      const builder = client.from(table);
+      return {
+        select(columns) {
+          // Built before returning, so the column list is not inferred from FilterBuilder
+          const query = builder.select(columns);
+          return query;
+        },
+        insert: (values) => builder.insert(values),
+        upsert: (values, opts) => builder.upsert(values, opts),
+        update: (values) => builder.update(values),
+        delete: () => builder.delete(),
+      };
+    },
+  };
+}
+
+export function createSupabaseRepos(client: QueryClient): Repos {
+  return {
+    events: {
+      async resolveId(evtId) {
+        if (UUID_REGEX.test(evtId.trim())) return evtId.trim();
+        const { data, error } = await client.from("events").select("id").eq("evt_slug", evtId).maybeSingle();
+        if (error) throw error;
+        return (data as Pick<EventRow, "id"> | null)?.id ?? null;
+      },
+      async list() {
+        const { data, error } = await client.from("events").select("*").order("created_at", { ascending: false });
+        if (error) throw error;
+        return (data ?? []) as EventRow[];
+      },
+      async listDocuments() {
+        const { data, error } = await client.from("documents").select("*");
+        if (error) throw error;
+        return (data ?? []) as DocumentRow[];
+      },
+      async listCollaborators() {
+        const { data, error } = await client.from("collaborators").select("*");
+        if (error) throw error;
+        return (data ?? []) as CollaboratorRow[];
+      },
+      async addCollaborator(row) {
+        const { error } = await client.from("collaborators").insert(row);
+        if (error) throw error;
+      },
+      async updateCollaborator(id, patch) {
+        const { error } = await client.from("collaborators").update(patch).eq("id", id);
+        if (error) throw error;
+      },
+      async removeCollaborator(id) {
+        const { error } = await client.from("collaborators").delete().eq("id", id);
+        if (error) throw error;
+      },
+      async insert(row) {
+        const { data, error } = await client.from("events").insert(row).select("id, evt_slug").single();
+        if (error) throw error;
+        return data as Pick<EventRow, "id" | "evt_slug">;
+      },
+      async update(id, patch) {
+        const { error } = await client.from("events").update(patch).eq("id", id);
+        if (error) throw error;
+      },
+      async remove(id) {
+        const { error } = await client.from("events").delete().eq("id", id);
+        if (error) throw error;
+      },
+    },
+
+    tasks: {
+      async list(eventId) {
+        let query = client.from("tasks").select("*");
+        if (eventId) query = query.eq("event_id", eventId);
+        const { data, error } = await query.order("created_at");
+        if (error) throw error;
+        return (data ?? []) as TaskRow[];
+      },
+      async get(id) {
+        const { data, error } = await client.from("tasks").select("*").eq("id", id).maybeSingle();
+        if (error) throw error;
+        return (data as TaskRow | null) ?? null;
+      },
+      async insert(rows) {
+        if (rows.length === 0) return;
+        // ignoreDuplicates: a retried save must not overwrite a task that was already stored
+        const { error } = await client.from("tasks").upsert(rows, { onConflict: "id", ignoreDuplicates: true });
+        if (error) throw error;
+      },
+      async upsert(rows) {
+        if (rows.length === 0) return;
+        const { error } = await client.from("tasks").upsert(rows, { onConflict: "id" });
+        if (error) throw error;
+      },
+      async update(id, patch, version) {
+        let query = client.from("tasks").update(patch).eq("id", id);
+        if (version != null) query = query.eq("version", version);
+        const { data, error } = await query.select("id");
+        if (error) throw error;
+        return Array.isArray(data) && data.length > 0;
+      },
+      async remove(id, version) {
+        let query = client.from("tasks").delete().eq("id", id);
+        if (version != null) query = query.eq("version", version);
+        const { data, error } = await query.select("id");
+        if (error) throw error;
+        return Array.isArray(data) && data.length > 0;
+      },
+      async listSubtasks(taskIds) {
+        if (taskIds && taskIds.length === 0) return [];
+        let query = client.from("subtasks").select("*");
+        if (taskIds) query = query.in("task_id", taskIds);
+        const { data, error } = await query;
+        if (error) throw error;
+        return (data ?? []) as SubtaskRow[];
+      },
+      async insertSubtasks(rows) {
+        if (rows.length === 0) return;
+        const { error } = await client.from("subtasks").upsert(rows, { onConflict: "id", ignoreDuplicates: true });
+        if (error) throw error;
+      },
+      async updateSubtask(id, patch) {
+        const { error } = await client.from("subtasks").update(patch).eq("id", id);
+        if (error) throw error;
+      },
+      async removeSubtasks(ids) {
+        if (ids.length === 0) return;
+        const { error } = await client.from("subtasks").delete().in("id", ids);
+        if (error) throw error;
+      },
+    },
+
+    chat: {
+      async list(filter = {}) {
+        let query = client.from("chat_messages").select("*");
+        if (filter.eventId) query = query.eq("event_id", filter.eventId);
+        if (filter.agentId) query = query.eq("agent_id", filter.agentId);
+        if (filter.roles) query = query.in("role", filter.roles);
+        const { data, error } = await query.order("message_at", { ascending: true });
+        if (error) throw error;
+        return (data ?? []) as ChatMessageRow[];
+      },
+      async insert(row) {
+        const { error } = await client.from("chat_messages").insert(row);
+        if (error) throw error;
+      },
+    },
+
+    templates: {
+      async list() {
+        const { data, error } = await client.from("event_templates").select("*").order("name", { ascending: true });
+        if (error) throw error;
+        return (data ?? []) as EventTemplateRow[];
+      },
+      async insert(row) {
+        const { error } = await client.from("event_templates").insert(row);
+        if (error) throw error;
+      },
+      async remove(id) {
+        const { error } = await client.from("event_templates").delete().eq("id", id);
+        if (error) throw error;
+      },
+    },
+
+    series: {
+      async list() {
+        const { data, error } = await client.from("event_series").select("*").order("created_at", { ascending: true });
+        if (error) throw error;
+        return (data ?? []) as EventSeriesRow[];
+      },
+      async insert(row) {
+        const { error } = await client.from("event_series").insert(row);
+        if (error) throw error;
+      },
+      async update(id, patch) {
+        const { error } = await client.from("event_series").update(patch).eq("id", id);
+        if (error) throw error;
+      },
+      async remove(id) {
+        const { error } = await client.from("event_series").delete().eq("id", id);
+        if (error) throw error;
+      },
+    },
+
+    guests: {
+      async list(eventId) {
+        const { data, error } = await client.from("guests").select("*").eq("event_id", eventId).order("name", { ascending: true });
+        if (error) throw error;
+        return (data ?? []) as GuestRow[];
+      },
+      async insert(row) {
+        const { error } = await client.from("guests").insert(row);
+        if (error) throw error;
+      },
+      async update(id, patch) {
+        const { error } = await client.from("guests").update(patch).eq("id", id);
+        if (error) throw error;
+      },
+      async remove(id) {
+        const { error } = await client.from("guests").delete().eq("id", id);
+        if (error) throw error;
+      },
+      async listRsvps(eventId) {
+        const { data, error } = await client.from("rsvps").select("*").eq("event_id", eventId);
+        if (error) throw error;
+        return (data ?? []) as RsvpRow[];
+      },
+      async insertRsvp(row) {
+        const { error } = await client.from("rsvps").insert(row);
+        if (error) throw error;
+      },
+      async updateRsvp(id, patch) {
+        const { error } = await client.from("rsvps").update(patch).eq("id", id);
+        if (error) throw error;
+      },
+    },
+
+    budget: {
+      async list(eventId) {
+        const { data, error } = await client
+          .from("budget_items")
+          .select("*")
+          .eq("event_id", eventId)
+          .order("created_at", { ascending: true });
+        if (error) throw error;
+        // numeric columns may arrive as strings
+        return ((data ?? []) as BudgetItemRow[]).map((row) => ({
+          ...row,
+          estimated: Number(row.estimated),
+          committed: Number(row.committed),
+          paid: Number(row.paid),
+        }));
+      },
+      async insert(row) {
+        const { error } = await client.from("budget_items").insert(row);
+        if (error) throw error;
+      },
+      async update(id, patch) {
+        const { error } = await client.from("budget_items").update(patch).eq("id", id);
+        if (error) throw error;
+      },
+      async remove(id) {
+        const { error } = await client.from("budget_items").delete().eq("id", id);
+        if (error) throw error;
+      },
+    },
+
+    vendors: {
+      async list() {
+        const { data, error } = await client.from("vendors").select("*").order("name", { ascending: true });
+        if (error) throw error;
+        // numeric columns may arrive as strings
+        return ((data ?? []) as VendorRow[]).map((row) => ({
+          ...row,
+          price_min: row.price_min == null ? null : Number(row.price_min),
+          price_max: row.price_max == null ? null : Number(row.price_max),
+        }));
+      },
+      async insert(row) {
+        const { error } = await client.from("vendors").insert(row);
+        if (error) throw error;
+      },
+      async update(id, patch) {
+        const { error } = await client.from("vendors").update(patch).eq("id", id);
+        if (error) throw error;
+      },
+      async remove(id) {
+        const { error } = await client.from("vendors").delete().eq("id", id);
+        if (error) throw error;
+      },
+      async listLinks() {
+        const { data, error } = await client.from("vendor_links").select("*").order("created_at", { ascending: true });
+        if (error) throw error;
+        return (data ?? []) as VendorLinkRow[];
+      },
+      async insertLink(row) {
+        const { error } = await client.from("vendor_links").insert(row);
+        if (error) throw error;
+      },
+      async removeLink(id) {
+        const { error } = await client.from("vendor_links").delete().eq("id", id);
+        if (error) throw error;
+      },
+    },
+
+    runOfShow: {
+      async list(eventId) {
+        const { data, error } = await client
+          .from("run_of_show_segments")
+          .select("*")
+          .eq("event_id", eventId)
+          .order("position", { ascending: true });
+        if (error) throw error;
+        return (data ?? []) as RunOfShowSegmentRow[];
+      },
+      async insert(row) {
+        const { error } = await client.from("run_of_show_segments").insert(row);
+        if (error) throw error;
+      },
+      async update(id, patch) {
+        const { error } = await client.from("run_of_show_segments").update(patch).eq("id", id);
+        if (error) throw error;
+      },
+      async remove(id) {
+        const { error } = await client.from("run_of_show_segments").delete().eq("id", id);
+        if (error) throw error;
+      },
+    },
+  };
+}
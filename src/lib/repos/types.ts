@@ -0,0 +1,419 @@
+/**
+ * repos/types — Storage interfaces behind eventsDb. Rows use the Supabase schema shapes;
+ * mapping to app types stays in eventsDb. Implementations: supabaseRepos (Supabase or the
+ * offline-first local database, which speaks the same query builder) and memoryRepos.
+ * Methods throw on storage errors.
+ */
+import type { TaskRowFields, SubtaskRowFields } from "../taskSync";
+
+/** DB row shapes (match Supabase schema) */
+export interface EventRow {
+  id: string;
+  evt_slug: string | null;
+  name: string;
+  event_date: string | null;
+  start_time: string | null;
+  end_time: string | null;
+  venue_pref: string | null;
+  venue_location: object | null;
+  guest_count: string | null;
+  food_drinks: string | null;
+  goals: object | null;
+  budget: number | null;
+  notes: string | null;
+  linked_event_ids: string[] | null;
+  status: string;
+  account_type: string | null;
+  /** user_id -> Owner (auth user); org_id -> Organization the event is shared with (added in migration 013) */
+  user_id: string | null;
+  org_id: string | null;
+  /** series_id / occurrence_date -> Occurrence of a recurring series (added in migration 016) */
+  series_id: string | null;
+  occurrence_date: string | null;
+  retro_created: boolean | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface ChatMessageRow {
+  id: string;
+  event_id: string;
+  agent_id: string;
+  role: string;
+  content: string;
+  message_at: string;
+}
+
+export interface TaskRow {
+  id: string;
+  event_id: string;
+  title: string;
+  description: string | null;
+  status: string;
+  priority: number;
+  due_date: string | null;
+  assigned_to: string | null;
+  agent_id: string | null;
+  dependencies: string[] | null;
+  blockers: string[] | null;
+  completed_at: string | null;
+  created_at: string;
+  /** body -> Collaborative markdown document (added in migration 003) */
+  body: string;
+  /** body_user_edited -> The user has written to body (added in migration 008) */
+  body_user_edited: boolean | null;
+  /** version -> Bumped by trigger on every update; guards concurrent edits (added in migration 010) */
+  version: number;
+  /** updated_at -> Set by the same trigger (added in migration 010) */
+  updated_at: string | null;
+}
+
+export interface SubtaskRow {
+  id: string;
+  task_id: string;
+  title: string;
+  status: string;
+  completed_at: string | null;
+}
+
+export interface DocumentRow {
+  id: string;
+  event_id: string;
+  type: string;
+  name: string;
+  url: string;
+  category: string | null;
+  uploaded_at: string;
+}
+
+export interface CollaboratorRow {
+  id: string;
+  event_id: string;
+  name: string;
+  email: string;
+  /** role -> EventRole (constrained in migration 014; free text before) */
+  role: string | null;
+}
+
+export interface EventTemplateRow {
+  id: string;
+  name: string;
+  description: string | null;
+  source_event_id: string | null;
+  /** form_data -> Partial EventFormData; tasks -> TemplateTask[] (migration 015) */
+  form_data: object;
+  tasks: object[];
+  user_id: string | null;
+  org_id: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface EventSeriesRow {
+  id: string;
+  name: string;
+  rrule: string;
+  starts_on: string;
+  horizon_days: number;
+  exdates: string[];
+  /** form_data / tasks -> Same shapes as event_templates (migration 015) */
+  form_data: object;
+  tasks: object[];
+  active: boolean;
+  user_id: string | null;
+  org_id: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface GuestRow {
+  id: string;
+  event_id: string;
+  name: string;
+  email: string | null;
+  phone: string | null;
+  dietary_needs: string | null;
+  notes: string | null;
+  /** source -> manual, agent, luma or import; external_id -> id in that source (migration 017) */
+  source: string;
+  external_id: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface RsvpRow {
+  id: string;
+  guest_id: string;
+  event_id: string;
+  /** status -> invited, going, maybe, declined or waitlist (migration 017) */
+  status: string;
+  plus_ones: number;
+  responded_at: string | null;
+  source: string;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface BudgetItemRow {
+  id: string;
+  event_id: string;
+  /** agent_id -> guests, venue-catering, entertainment-logistics or general (migration 018) */
+  agent_id: string;
+  title: string;
+  vendor_name: string | null;
+  vendor_url: string | null;
+  estimated: number;
+  committed: number;
+  paid: number;
+  paid_at: string | null;
+  receipt_url: string | null;
+  notes: string | null;
+  task_id: string | null;
+  /** source -> manual or agent */
+  source: string;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface VendorRow {
+  id: string;
+  name: string;
+  /** categories -> VendorCategory values (constrained in migration 019) */
+  categories: string[];
+  contact_name: string | null;
+  email: string | null;
+  phone: string | null;
+  website: string | null;
+  price_min: number | null;
+  price_max: number | null;
+  price_notes: string | null;
+  rating: number | null;
+  notes: string | null;
+  user_id: string | null;
+  org_id: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface VendorLinkRow {
+  id: string;
+  vendor_id: string;
+  event_id: string;
+  task_id: string | null;
+  notes: string | null;
+  /** source -> manual or agent */
+  source: string;
+  created_at: string;
+}
+
+export interface RunOfShowSegmentRow {
+  id: string;
+  event_id: string;
+  position: number;
+  title: string;
+  /** start_time -> "HH:MM" (migration 020) */
+  start_time: string | null;
+  duration_minutes: number;
+  owner: string | null;
+  location: string | null;
+  av_cues: string | null;
+  notes: string | null;
+  /** source -> manual or agent */
+  source: string;
+  created_at: string;
+  updated_at: string;
+}
+
+/** NewEventRow -> Columns written when an event is created (the rest are defaulted). */
+export type NewEventRow = Omit<
+  EventRow,
+  "id" | "created_at" | "updated_at" | "retro_created" | "user_id" | "org_id" | "series_id" | "occurrence_date"
+> &
+  Partial<Pick<EventRow, "user_id" | "org_id" | "series_id" | "occurrence_date">>;
+
+/** EventPatch -> Columns an event update may write. */
+export type EventPatch = Partial<NewEventRow & Pick<EventRow, "retro_created">>;
+
+/** NewTaskRow -> Columns written when a task is created; version and timestamps are the store's. */
+export type NewTaskRow = TaskRowFields & { id: string; event_id: string };
+
+/** NewSubtaskRow -> Columns written when a subtask is created. */
+export type NewSubtaskRow = SubtaskRowFields & { id: string; task_id: string };
+
+/** CollaboratorPatch -> Columns a collaborator update may write. */
+export type CollaboratorPatch = Partial<Pick<CollaboratorRow, "name" | "role">>;
+
+/** NewEventTemplateRow -> Columns written when a template is saved; owner defaults to the signed-in user. */
+export type NewEventTemplateRow = Omit<EventTemplateRow, "created_at" | "updated_at" | "user_id" | "org_id"> &
+  Partial<Pick<EventTemplateRow, "user_id" | "org_id">>;
+
+/** NewEventSeriesRow -> Columns written when a series is created; the rest are defaulted. */
+export type NewEventSeriesRow = Omit<EventSeriesRow, "created_at" | "updated_at" | "user_id" | "org_id" | "active"> &
+  Partial<Pick<EventSeriesRow, "user_id" | "org_id" | "active">>;
+
+/** EventSeriesPatch -> Columns a series update may write. */
+export type EventSeriesPatch = Partial<
+  Pick<EventSeriesRow, "name" | "rrule" | "horizon_days" | "exdates" | "form_data" | "tasks" | "active">
+>;
+
+/** NewGuestRow -> Columns written when a guest is added; the rest are defaulted. */
+export type NewGuestRow = Pick<GuestRow, "id" | "event_id" | "name"> &
+  Partial<Pick<GuestRow, "email" | "phone" | "dietary_needs" | "notes" | "source" | "external_id">>;
+
+/** GuestPatch -> Columns a guest update may write. */
+export type GuestPatch = Partial<Pick<GuestRow, "name" | "email" | "phone" | "dietary_needs" | "notes" | "external_id">>;
+
+/** NewRsvpRow -> Columns written when a guest's first RSVP is recorded. */
+export type NewRsvpRow = Pick<RsvpRow, "id" | "guest_id" | "event_id" | "status"> &
+  Partial<Pick<RsvpRow, "plus_ones" | "responded_at" | "source">>;
+
+/** RsvpPatch -> Columns an RSVP update may write. */
+export type RsvpPatch = Partial<Pick<RsvpRow, "status" | "plus_ones" | "responded_at" | "source">>;
+
+/** NewBudgetItemRow -> Columns written when a budget line is added; the rest are defaulted. */
+export type NewBudgetItemRow = Pick<BudgetItemRow, "id" | "event_id" | "title"> &
+  Partial<Omit<BudgetItemRow, "id" | "event_id" | "title" | "created_at" | "updated_at">>;
+
+/** BudgetItemPatch -> Columns a budget line update may write. */
+export type BudgetItemPatch = Partial<Omit<BudgetItemRow, "id" | "event_id" | "created_at" | "updated_at">>;
+
+/** NewVendorRow -> Columns written when a vendor is added; owner defaults to the signed-in user. */
+export type NewVendorRow = Pick<VendorRow, "id" | "name"> &
+  Partial<Omit<VendorRow, "id" | "name" | "created_at" | "updated_at">>;
+
+/** VendorPatch -> Columns a vendor update may write. */
+export type VendorPatch = Partial<Omit<VendorRow, "id" | "user_id" | "created_at" | "updated_at">>;
+
+/** NewVendorLinkRow -> Columns written when a vendor is linked to an event. */
+export type NewVendorLinkRow = Pick<VendorLinkRow, "id" | "vendor_id" | "event_id"> &
+  Partial<Pick<VendorLinkRow, "task_id" | "notes" | "source">>;
+
+/** NewRunOfShowSegmentRow -> Columns written when a segment is added; the rest are defaulted. */
+export type NewRunOfShowSegmentRow = Pick<RunOfShowSegmentRow, "id" | "event_id" | "title"> &
+  Partial<Omit<RunOfShowSegmentRow, "id" | "event_id" | "title" | "created_at" | "updated_at">>;
+
+/** RunOfShowSegmentPatch -> Columns a segment update may write. */
+export type RunOfShowSegmentPatch = Partial<Omit<RunOfShowSegmentRow, "id" | "event_id" | "created_at" | "updated_at">>;
+
+/** NewChatMessageRow -> Columns written for a chat message; id is generated when omitted. */
+export type NewChatMessageRow = Omit<ChatMessageRow, "id"> & { id?: string };
+
+/** EventsRepo -> events, plus the documents and collaborators attached to them. */
+export interface EventsRepo {
+  /** resolveId -> events.id for an evt_slug or UUID, or null if there is no such event */
+  resolveId(evtId: string): Promise<string | null>;
+  /** list -> All events, newest first */
+  list(): Promise<EventRow[]>;
+  listDocuments(): Promise<DocumentRow[]>;
+  listCollaborators(): Promise<CollaboratorRow[]>;
+  addCollaborator(row: CollaboratorRow): Promise<void>;
+  updateCollaborator(id: string, patch: CollaboratorPatch): Promise<void>;
+  removeCollaborator(id: string): Promise<void>;
+  insert(row: NewEventRow): Promise<Pick<EventRow, "id" | "evt_slug">>;
+  update(id: string, patch: EventPatch): Promise<void>;
+  /** remove -> Delete an event; its chat, tasks, documents and runs go with it */
+  remove(id: string): Promise<void>;
+}
+
+/** TasksRepo -> tasks and subtasks. Task writes are guarded by the row version where asked. */
+export interface TasksRepo {
+  /** list -> Tasks of one event (oldest first), or of every event when eventId is omitted */
+  list(eventId?: string): Promise<TaskRow[]>;
+  get(id: string): Promise<TaskRow | null>;
+  /** insert -> Create tasks; rows whose id already exists are left untouched */
+  insert(rows: NewTaskRow[]): Promise<void>;
+  /** upsert -> Create tasks or overwrite them by id */
+  upsert(rows: NewTaskRow[]): Promise<void>;
+  /** update -> Write fields; with a version, only if the row is still at that version. Returns whether it was written. */
+  update(id: string, patch: Partial<TaskRowFields>, version?: number): Promise<boolean>;
+  /** remove -> Delete a task; with a version, only if the row is still at that version. Returns whether it was deleted. */
+  remove(id: string, version?: number): Promise<boolean>;
+  /** listSubtasks -> Subtasks of the given tasks, or all subtasks when taskIds is omitted */
+  listSubtasks(taskIds?: string[]): Promise<SubtaskRow[]>;
+  insertSubtasks(rows: NewSubtaskRow[]): Promise<void>;
+  updateSubtask(id: string, patch: Partial<SubtaskRowFields>): Promise<void>;
+  removeSubtasks(ids: string[]): Promise<void>;
+}
+
+/** ChatRepo -> chat_messages (the event timeline and the per-agent category chats). */
+export interface ChatRepo {
+  /** list -> Messages oldest first; all events, or one event's filtered by agent and role */
+  list(filter?: { eventId?: string; agentId?: string; roles?: string[] }): Promise<ChatMessageRow[]>;
+  insert(row: NewChatMessageRow): Promise<void>;
+}
+
+/** TemplatesRepo -> event_templates (saved from events, used to start new ones). */
+export interface TemplatesRepo {
+  /** list -> Templates the user can see, by name */
+  list(): Promise<EventTemplateRow[]>;
+  insert(row: NewEventTemplateRow): Promise<void>;
+  remove(id: string): Promise<void>;
+}
+
+/** SeriesRepo -> event_series (recurring events; occurrences are events with series_id). */
+export interface SeriesRepo {
+  /** list -> Series the user can see, oldest first */
+  list(): Promise<EventSeriesRow[]>;
+  insert(row: NewEventSeriesRow): Promise<void>;
+  update(id: string, patch: EventSeriesPatch): Promise<void>;
+  /** remove -> Delete a series; its occurrences stay as standalone events */
+  remove(id: string): Promise<void>;
+}
+
+/** GuestsRepo -> guests and their rsvps (one per guest), per event. */
+export interface GuestsRepo {
+  /** list -> Guests of one event, by name */
+  list(eventId: string): Promise<GuestRow[]>;
+  insert(row: NewGuestRow): Promise<void>;
+  update(id: string, patch: GuestPatch): Promise<void>;
+  /** remove -> Delete a guest and their RSVP */
+  remove(id: string): Promise<void>;
+  listRsvps(eventId: string): Promise<RsvpRow[]>;
+  insertRsvp(row: NewRsvpRow): Promise<void>;
+  updateRsvp(id: string, patch: RsvpPatch): Promise<void>;
+}
+
+/** BudgetRepo -> budget_items, per event. */
+export interface BudgetRepo {
+  /** list -> Budget lines of one event, oldest first */
+  list(eventId: string): Promise<BudgetItemRow[]>;
+  insert(row: NewBudgetItemRow): Promise<void>;
+  update(id: string, patch: BudgetItemPatch): Promise<void>;
+  remove(id: string): Promise<void>;
+}
+
+/** VendorsRepo -> vendors (shared across events) and vendor_links (where each was used). */
+export interface VendorsRepo {
+  /** list -> Vendors the user can see, by name */
+  list(): Promise<VendorRow[]>;
+  insert(row: NewVendorRow): Promise<void>;
+  update(id: string, patch: VendorPatch): Promise<void>;
+  /** remove -> Delete a vendor and its links */
+  remove(id: string): Promise<void>;
+  /** listLinks -> Links of every visible vendor, oldest first */
+  listLinks(): Promise<VendorLinkRow[]>;
+  insertLink(row: NewVendorLinkRow): Promise<void>;
+  removeLink(id: string): Promise<void>;
+}
+
+/** RunOfShowRepo -> run_of_show_segments, per event. */
+export interface RunOfShowRepo {
+  /** list -> Segments of one event, in run sheet order */
+  list(eventId: string): Promise<RunOfShowSegmentRow[]>;
+  insert(row: NewRunOfShowSegmentRow): Promise<void>;
+  update(id: string, patch: RunOfShowSegmentPatch): Promise<void>;
+  remove(id: string): Promise<void>;
+}
+
+/** Repos -> One storage backend. */
+export interface Repos {
+  events: EventsRepo;
+  tasks: TasksRepo;
+  chat: ChatRepo;
+  templates: TemplatesRepo;
+  series: SeriesRepo;
+  guests: GuestsRepo;
+  budget: BudgetRepo;
+  vendors: VendorsRepo;
+  runOfShow: RunOfShowRepo;
+}
@@ -18,10 +18,13 @@ export function pathnameToView(pathname: string): ActiveView {
       return segments[4] === "chat" ? { kind: "agent-category-chat", evtId, agentId } : { kind: "agent-detail", evtId, agentId };
     }
     if (segments[2] === "task" && segments[3]) return { kind: "task-detail", evtId, taskId: segments[3] };
-    const viewMode = segments[2] === "tasks" ? "tasks" : "details";
+    const viewMode =
+      segments[2] === "tasks" || segments[2] === "guests" || segments[2] === "schedule" ? segments[2] : "details";
     return { kind: "event-chat", evtId, initialViewMode: viewMode };
   }
   if (segments[0] === "settings") return { kind: "settings" };
+  if (segments[0] === "knowledge") return { kind: "knowledge" };
+  if (segments[0] === "vendors") return { kind: "vendors" };
   return { kind: "dashboard" };
 }
 
@@ -37,7 +40,7 @@ export function viewToPath(view: ActiveView): string {
     case "timeline":
       return view.evtId ? `/timeline/${view.evtId}` : "/timeline";
     case "event-chat": {
-      const mode = view.initialViewMode === "tasks" ? "tasks" : "details";
+      const mode = view.initialViewMode ?? "details";
       return `/event/${view.evtId}/${mode}`;
     }
     case "agent-detail":
@@ -48,6 +51,10 @@ export function viewToPath(view: ActiveView): string {
       return `/event/${view.evtId}/task/${view.taskId}`;
     case "settings":
       return "/settings";
+    case "knowledge":
+      return "/knowledge";
+    case "vendors":
+      return "/vendors";
     default:
       return "/dashboard";
   }
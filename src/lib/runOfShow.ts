@@ -0,0 +1,175 @@
+/**
+ * runOfShow — The event day's run of show (run_of_show_segments, migration 020): segment
+ * times, overlap and gap checks against each other and the event's hours, reordering,
+ * closing up the schedule after a reorder, and the run sheet as CSV. Times are minutes from
+ * midnight of the event day; a segment that starts more than 12 hours before the one above
+ * it is taken to be after midnight.
+ */
+import { toCsv } from "./csv";
+import type { RunOfShowSegment, ScheduleIssue } from "../types";
+
+/** TimedSegment -> A segment with its start and end worked out; null when nothing above it has a time. */
+export interface TimedSegment {
+  segment: RunOfShowSegment;
+  start: number | null;
+  end: number | null;
+  /** followsOn -> The segment has no start time of its own and starts when the one above ends */
+  followsOn: boolean;
+}
+
+const DAY = 24 * 60;
+
+/** parseTime -> Minutes from midnight for "HH:MM", or null. */
+export function parseTime(value: string | undefined | null): number | null {
+  const match = /^(\d{1,2}):(\d{2})$/.exec(value?.trim() ?? "");
+  if (!match) return null;
+  const hours = Number(match[1]);
+  const minutes = Number(match[2]);
+  return hours < 24 && minutes < 60 ? hours * 60 + minutes : null;
+}
+
+/** formatTime -> "HH:MM" for minutes from midnight (wraps past midnight). */
+export function formatTime(minutes: number): string {
+  const m = ((Math.round(minutes) % DAY) + DAY) % DAY;
+  return `${String(Math.floor(m / 60)).padStart(2, "0")}:${String(m % 60).padStart(2, "0")}`;
+}
+
+/** formatDuration -> e.g. "45 min", "1h", "1h 30m". */
+export function formatDuration(minutes: number): string {
+  if (minutes < 60) return `${minutes} min`;
+  const hours = Math.floor(minutes / 60);
+  return minutes % 60 ? `${hours}h ${minutes % 60}m` : `${hours}h`;
+}
+
+/** afterReference -> A time of day moved past midnight when it is more than 12 hours before the reference. */
+function afterReference(time: number, reference: number | null): number {
+  let t = time;
+  if (reference != null) while (t < reference - DAY / 2) t += DAY;
+  return t;
+}
+
+/**
+ * eventHours -> The event's start and end in minutes (end after start, past midnight when
+ * the end time is earlier), each null when not set.
+ */
+export function eventHours(startTime?: string, endTime?: string): { start: number | null; end: number | null } {
+  const start = parseTime(startTime);
+  const end = parseTime(endTime);
+  return { start, end: end != null && start != null && end <= start ? end + DAY : end };
+}
+
+/**
+ * scheduleTimeline -> Segments in run sheet order with their times. Segments without a
+ * start time follow on from the one above, or start when the event starts.
+ */
+export function scheduleTimeline(segments: RunOfShowSegment[], eventStartTime?: string): TimedSegment[] {
+  const eventStart = parseTime(eventStartTime);
+  let previousStart: number | null = null;
+  let cursor: number | null = null;
+  return [...segments]
+    .sort((a, b) => a.position - b.position)
+    .map((segment) => {
+      const own = parseTime(segment.startTime);
+      const start = own != null ? afterReference(own, previousStart ?? eventStart) : (cursor ?? eventStart);
+      const end = start == null ? null : start + segment.durationMinutes;
+      if (start != null) previousStart = start;
+      cursor = end;
+      return { segment, start, end, followsOn: own == null };
+    });
+}
+
+/**
+ * findScheduleIssues -> Overlaps and gaps between consecutive segments, and segments that
+ * start before the event starts or run past its end. A segment overlaps when it starts
+ * before every segment above it has ended.
+ */
+export function findScheduleIssues(timeline: TimedSegment[], startTime?: string, endTime?: string): ScheduleIssue[] {
+  const hours = eventHours(startTime, endTime);
+  const issues: ScheduleIssue[] = [];
+  let latest: TimedSegment | null = null;
+
+  for (const item of timeline) {
+    if (item.start == null || item.end == null) continue;
+    const { segment } = item;
+    if (latest?.end != null) {
+      if (item.start < latest.end) {
+        const minutes = latest.end - item.start;
+        issues.push({
+          kind: "overlap",
+          segmentId: segment.id,
+          minutes,
+          message: `Overlaps "${latest.segment.title}" by ${formatDuration(minutes)}`,
+        });
+      } else if (item.start > latest.end) {
+        const minutes = item.start - latest.end;
+        issues.push({
+          kind: "gap",
+          segmentId: segment.id,
+          minutes,
+          message: `${formatDuration(minutes)} gap after "${latest.segment.title}"`,
+        });
+      }
+    }
+    if (hours.start != null && item.start < hours.start) {
+      issues.push({
+        kind: "before-start",
+        segmentId: segment.id,
+        minutes: hours.start - item.start,
+        message: `Starts ${formatDuration(hours.start - item.start)} before the event (${startTime})`,
+      });
+    }
+    if (hours.end != null && item.end > hours.end) {
+      issues.push({
+        kind: "after-end",
+        segmentId: segment.id,
+        minutes: item.end - hours.end,
+        message: `Runs ${formatDuration(item.end - hours.end)} past the event's end (${endTime})`,
+      });
+    }
+    if (!latest || latest.end == null || item.end > latest.end) latest = item;
+  }
+  return issues;
+}
+
+/** moveSegment -> Segments in run sheet order with one moved to a new index; positions renumbered from 0. */
+export function moveSegment(segments: RunOfShowSegment[], segmentId: string, toIndex: number): RunOfShowSegment[] {
+  const ordered = [...segments].sort((a, b) => a.position - b.position);
+  const from = ordered.findIndex((s) => s.id === segmentId);
+  if (from === -1) return ordered;
+  const [moved] = ordered.splice(from, 1);
+  ordered.splice(Math.max(0, Math.min(toIndex, ordered.length)), 0, moved);
+  return ordered.map((segment, position) => ({ ...segment, position }));
+}
+
+/**
+ * closeUpSchedule -> Segments back to back in run sheet order, keeping their durations: the
+ * first keeps its start (or takes the event's), every other one starts when the one above
+ * ends. Removes gaps and overlaps, e.g. after a reorder.
+ */
+export function closeUpSchedule(segments: RunOfShowSegment[], eventStartTime?: string): RunOfShowSegment[] {
+  const ordered = [...segments].sort((a, b) => a.position - b.position);
+  const first = parseTime(ordered[0]?.startTime) ?? parseTime(eventStartTime);
+  if (first == null) return ordered;
+  let cursor = first;
+  return ordered.map((segment) => {
+    const startTime = formatTime(cursor);
+    cursor += segment.durationMinutes;
+    return { ...segment, startTime };
+  });
+}
+
+/** runSheetCsv -> The run sheet as CSV: start, end, duration, segment, owner, location, AV cues, notes. */
+export function runSheetCsv(timeline: TimedSegment[]): string {
+  const header = ["Start", "End", "Duration", "Segment", "Owner", "Location", "AV cues", "Notes"];
+  const rows = timeline.map(({ segment, start, end }) => [
+    start == null ? "" : formatTime(start),
+    end == null ? "" : formatTime(end),
+    formatDuration(segment.durationMinutes),
+    segment.title,
+    segment.owner ?? "",
+    segment.location ?? "",
+    segment.avCues ?? "",
+    segment.notes ?? "",
+  ]);
+  return toCsv([header, ...rows]);
+}
@@ -0,0 +1,78 @@
+/**
+ * series — Recurring event series (event_series, migration 016): which occurrences are due
+ * to be created, and stats across a series' occurrences.
+ */
+import { describeRRule, occurrenceDates, parseRRule } from "./recurrence";
+import { addDaysToDate, toLocalDateString } from "./dateUtils";
+import type { EventSeries, PlannerEvent } from "../types";
+
+/** SeriesStats -> Figures across all occurrences of one series. */
+export interface SeriesStats {
+  occurrences: number;
+  past: number;
+  upcoming: number;
+  /** nextDate -> Date of the next occurrence that has been created */
+  nextDate?: string;
+  /** taskCompletionPct -> Done tasks across all occurrences; null when there are no tasks */
+  taskCompletionPct: number | null;
+  /** averageGuests -> Mean guest count of occurrences that set one */
+  averageGuests: number | null;
+}
+
+/** seriesRuleLabel -> The series rule in plain English, or the raw RRULE when it cannot be read. */
+export function seriesRuleLabel(series: EventSeries): string {
+  try {
+    return describeRRule(parseRRule(series.rrule));
+  } catch {
+    return series.rrule;
+  }
+}
+
+/** seriesOccurrences -> Events of a series, ordered by date. */
+export function seriesOccurrences(series: EventSeries, events: PlannerEvent[]): PlannerEvent[] {
+  return events
+    .filter((e) => e.seriesId === series.id)
+    .sort((a, b) => occurrenceDateOf(a).localeCompare(occurrenceDateOf(b)));
+}
+
+/**
+ * dueOccurrences -> Dates from today to the series horizon that have no event yet and were
+ * not skipped. Empty for a paused series or one whose rule cannot be read.
+ */
+export function dueOccurrences(series: EventSeries, events: PlannerEvent[], today = toLocalDateString()): string[] {
+  if (!series.active) return [];
+  let dates: string[];
+  try {
+    const horizonEnd = addDaysToDate(today, series.horizonDays) ?? today;
+    dates = occurrenceDates(parseRRule(series.rrule), series.startsOn, today, horizonEnd);
+  } catch (err) {
+    console.warn(`[Eventropy] Series "${series.name}" has an unreadable rule:`, err);
+    return [];
+  }
+  const existing = new Set(events.filter((e) => e.seriesId === series.id).map((e) => e.occurrenceDate));
+  const skipped = new Set(series.exdates);
+  return dates.filter((d) => !existing.has(d) && !skipped.has(d));
+}
+
+/** seriesStats -> Counts, task completion and attendance across a series' occurrences. */
+export function seriesStats(series: EventSeries, events: PlannerEvent[], today = toLocalDateString()): SeriesStats {
+  const occurrences = seriesOccurrences(series, events);
+  const upcoming = occurrences.filter((e) => occurrenceDateOf(e) >= today);
+  const tasks = occurrences.flatMap((e) => e.tasks ?? []);
+  const guests = occurrences.map((e) => Number(e.formData.guestCount)).filter((n) => Number.isFinite(n) && n > 0);
+  return {
+    occurrences: occurrences.length,
+    past: occurrences.length - upcoming.length,
+    upcoming: upcoming.length,
+    nextDate: upcoming[0] ? occurrenceDateOf(upcoming[0]) : undefined,
+    taskCompletionPct: tasks.length
+      ? Math.round((tasks.filter((t) => t.status === "done").length / tasks.length) * 100)
+      : null,
+    averageGuests: guests.length ? Math.round(guests.reduce((a, b) => a + b, 0) / guests.length) : null,
+  };
+}
+
+/** occurrenceDateOf -> An occurrence's (possibly moved) date, else the date the rule produced. */
+export function occurrenceDateOf(event: PlannerEvent): string {
+  return (event.formData.eventDate || event.occurrenceDate || "").slice(0, 10);
+}
@@ -3,4 +3,5 @@ import { createClient } from '@supabase/supabase-js'
 const supabaseUrl = import.meta.env.VITE_SUPABASE_URL
 const supabasePubKey = import.meta.env.VITE_SUPABASE_PUBLISHABLE_KEY
 
-export const supabase = createClient(supabaseUrl, supabasePubKey)
\ No newline at end of file
+/** null when the env vars are not set; the Electron app then runs from its local database */
+export const supabase = supabaseUrl && supabasePubKey ? createClient(supabaseUrl, supabasePubKey) : null
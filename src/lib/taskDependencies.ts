@@ -0,0 +1,54 @@
+import type { Task } from "../types";
+
+/**
+ * Turn the planner's index-based dependencies (positions in its task list) into task IDs.
+ * Out-of-range, non-integer and self references are dropped.
+ */
+export function mapPlannedDependencies(dependencies: number[], taskIds: string[], selfIndex: number): string[] {
+  const ids = dependencies
+    .filter((i) => Number.isInteger(i) && i >= 0 && i < taskIds.length && i !== selfIndex)
+    .map((i) => taskIds[i]);
+  return [...new Set(ids)];
+}
+
+/**
+ * Find a dependency cycle among tasks. Returns the task IDs along the cycle
+ * (first ID repeated at the end), or null when the graph is acyclic.
+ * Dependencies pointing at tasks outside the list are ignored.
+ */
+export function findDependencyCycle(tasks: Task[]): string[] | null {
+  const byId = new Map(tasks.map((t) => [t.id, t]));
+  /** state -> 1 = on the current DFS path, 2 = fully explored */
+  const state = new Map<string, 1 | 2>();
+  const path: string[] = [];
+
+  const visit = (id: string): string[] | null => {
+    state.set(id, 1);
+    path.push(id);
+    for (const depId of byId.get(id)?.dependencies ?? []) {
+      if (!byId.has(depId)) continue;
+      if (state.get(depId) === 1) return [...path.slice(path.indexOf(depId)), depId];
+      if (!state.has(depId)) {
+        const cycle = visit(depId);
+        if (cycle) return cycle;
+      }
+    }
+    path.pop();
+    state.set(id, 2);
+    return null;
+  };
+
+  for (const task of tasks) {
+    if (state.has(task.id)) continue;
+    const cycle = visit(task.id);
+    if (cycle) return cycle;
+  }
+  return null;
+}
+
+/**
+ * Human-readable cycle for error messages, e.g. "Book venue → Confirm headcount → Book venue".
+ */
+export function describeDependencyCycle(cycle: string[], tasks: Task[]): string {
+  return cycle.map((id) => tasks.find((t) => t.id === id)?.title ?? id).join(" → ");
+}
@@ -0,0 +1,171 @@
+import type { Task, Subtask } from "../types";
+
+/**
+ * taskSync — pure helpers for incremental task sync: client-side ids, task → row
+ * mapping and the diff between what the client last saw and what it wants to save.
+ * The Supabase writes live in eventsDb.syncEventTasks.
+ */
+
+export const UUID_REGEX = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * New task/subtask id. Generated on the client so a task keeps the same id from
+ * creation on, and agent messages and notifications can point at it.
+ */
+export function newRecordId(): string {
+  return crypto.randomUUID();
+}
+
+/** TaskRowFields -> tasks columns the renderer writes (version/updated_at are set by the DB). */
+export interface TaskRowFields {
+  title: string;
+  description: string | null;
+  status: Task["status"];
+  priority: number;
+  due_date: string | null;
+  assigned_to: string | null;
+  agent_id: string | null;
+  dependencies: string[];
+  blockers: string[];
+  completed_at: string | null;
+  body: string;
+  body_user_edited: boolean;
+}
+
+/** SubtaskRowFields -> subtasks columns the renderer writes. */
+export interface SubtaskRowFields {
+  title: string;
+  status: Subtask["status"];
+  completed_at: string | null;
+}
+
+/** Map a task to the columns it is stored in. */
+export function taskToRowFields(t: Task): TaskRowFields {
+  return {
+    title: t.title,
+    description: t.description ?? null,
+    status: t.status,
+    priority: t.priority,
+    due_date: t.dueDate != null && String(t.dueDate).trim() !== "" ? String(t.dueDate).trim() : null,
+    assigned_to: t.assignedTo ?? null,
+    agent_id: t.agentId ?? null,
+    dependencies: t.dependencies ?? [],
+    blockers: t.blockers ?? [],
+    completed_at: t.completedAt ?? null,
+    body: t.body ?? "",
+    body_user_edited: t.bodyUserEdited ?? false,
+  };
+}
+
+/** Map a subtask to the columns it is stored in. */
+export function subtaskToRowFields(s: Subtask): SubtaskRowFields {
+  return { title: s.title, status: s.status, completed_at: s.completedAt ?? null };
+}
+
+/** Column values compared by content (arrays included). */
+export function sameValue(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+}
+
+/** The fields of `next` that differ from `prev`. */
+function changedFields<T extends object>(prev: T, next: T): Partial<T> {
+  const patch: Partial<T> = {};
+  for (const key of Object.keys(next) as (keyof T)[]) {
+    if (!sameValue(prev[key], next[key])) patch[key] = next[key];
+  }
+  return patch;
+}
+
+/** TaskUpdate -> Changed columns of one saved task, plus the values they are changing from. */
+export interface TaskUpdate {
+  id: string;
+  title: string;
+  /** version -> Row version the client last saw; the update only applies if it is unchanged */
+  version: number;
+  patch: Partial<TaskRowFields>;
+  before: TaskRowFields;
+}
+
+/** TaskDiff -> Writes needed to go from the previous task list to the next one. */
+export interface TaskDiff {
+  /** inserts -> Tasks that are new in this edit */
+  inserts: Task[];
+  /** upserts -> Tasks edited again before their first save finished (no version yet); written whole */
+  upserts: Task[];
+  updates: TaskUpdate[];
+  /** deletes -> Saved tasks removed in this edit */
+  deletes: Task[];
+  subtaskInserts: (SubtaskRowFields & { id: string; task_id: string })[];
+  subtaskUpdates: { id: string; patch: Partial<SubtaskRowFields> }[];
+  subtaskDeletes: string[];
+}
+
+/**
+ * Diff two task lists. Only tasks and fields that changed are written, so edits to
+ * different tasks (or different fields of one task) from elsewhere are left alone.
+ */
+export function diffTasks(previous: Task[], next: Task[]): TaskDiff {
+  const prevById = new Map(previous.map((t) => [t.id, t]));
+  const nextIds = new Set(next.map((t) => t.id));
+  const diff: TaskDiff = {
+    inserts: [],
+    upserts: [],
+    updates: [],
+    deletes: previous.filter((t) => !nextIds.has(t.id)),
+    subtaskInserts: [],
+    subtaskUpdates: [],
+    subtaskDeletes: [],
+  };
+
+  for (const task of next) {
+    const prev = prevById.get(task.id);
+    const prevSubtasks = new Map((prev?.subtasks ?? []).map((s) => [s.id, s]));
+    const nextSubtaskIds = new Set((task.subtasks ?? []).map((s) => s.id));
+
+    if (!prev) {
+      diff.inserts.push(task);
+    } else {
+      const before = taskToRowFields(prev);
+      const patch = changedFields(before, taskToRowFields(task));
+      if (Object.keys(patch).length > 0) {
+        if (prev.version == null) diff.upserts.push(task);
+        else diff.updates.push({ id: task.id, title: task.title, version: prev.version, patch, before });
+      }
+    }
+
+    for (const sub of task.subtasks ?? []) {
+      const prevSub = prevSubtasks.get(sub.id);
+      if (!prevSub) {
+        diff.subtaskInserts.push({ id: sub.id, task_id: task.id, ...subtaskToRowFields(sub) });
+      } else {
+        const patch = changedFields(subtaskToRowFields(prevSub), subtaskToRowFields(sub));
+        if (Object.keys(patch).length > 0) diff.subtaskUpdates.push({ id: sub.id, patch });
+      }
+    }
+    for (const id of prevSubtasks.keys()) {
+      if (!nextSubtaskIds.has(id)) diff.subtaskDeletes.push(id);
+    }
+  }
+
+  return diff;
+}
+
+/**
+ * Give tasks and subtasks that still carry a local id (e.g. "task-123") a UUID, and
+ * point dependency edges at the new ids. Tasks created after migration to client-side
+ * ids already have UUIDs and pass through unchanged.
+ */
+export function withPersistableIds(tasks: Task[]): Task[] {
+  const idMap = new Map<string, string>();
+  for (const t of tasks) {
+    if (!UUID_REGEX.test(t.id)) idMap.set(t.id, newRecordId());
+  }
+  const remap = (ids: string[] | undefined) => (ids ?? []).map((id) => idMap.get(id) ?? id);
+  return tasks.map((t) => ({
+    ...t,
+    id: idMap.get(t.id) ?? t.id,
+    dependencies: remap(t.dependencies),
+    blockers: remap(t.blockers),
+    subtasks: t.subtasks?.map((s) => (UUID_REGEX.test(s.id) ? s : { ...s, id: newRecordId() })),
+  }));
+}
@@ -0,0 +1,81 @@
+/**
+ * templates — Turn an event into a reusable template (event_templates, migration 015) and
+ * a template back into tasks for a new event. Due dates are stored as offsets from the
+ * event date and recalculated from the new event's date.
+ */
+import { newRecordId } from "./taskSync";
+import { addDaysToDate, daysBetweenDates } from "./dateUtils";
+import type { EventFormData, EventTemplate, PlannerEvent, Task, TemplateTask } from "../types";
+
+/** TEMPLATE_FORM_FIELDS -> Event details a template pre-fills; the date and links are per event. */
+const TEMPLATE_FORM_FIELDS = [
+  "eventReason",
+  "startTime",
+  "endTime",
+  "venuePref",
+  "venueLocation",
+  "guestCount",
+  "foodDrinks",
+  "goals",
+  "budget",
+  "notes",
+] as const satisfies readonly (keyof EventFormData)[];
+
+/**
+ * templateFromEvent -> Details and tasks of an event as template content. Task due dates
+ * become offsets from the event date (dropped when the event has no date); dependencies on
+ * tasks outside the event are dropped.
+ */
+export function templateFromEvent(event: PlannerEvent): Pick<EventTemplate, "formData" | "tasks"> {
+  const formData: Partial<EventFormData> = {};
+  for (const field of TEMPLATE_FORM_FIELDS) {
+    if (event.formData[field] != null) (formData as Record<string, unknown>)[field] = event.formData[field];
+  }
+
+  const tasks = event.tasks ?? [];
+  const taskIds = new Set(tasks.map((t) => t.id));
+  const anchor = event.formData.eventDate;
+  return {
+    formData,
+    tasks: tasks.map((t) => {
+      const dueOffsetDays = anchor && t.dueDate ? daysBetweenDates(anchor, t.dueDate) : null;
+      return {
+        key: t.id,
+        title: t.title,
+        description: t.description,
+        priority: t.priority,
+        agentId: t.agentId,
+        assignedTo: t.assignedTo,
+        body: t.body || undefined,
+        subtasks: (t.subtasks ?? []).map((s) => s.title),
+        dependencies: t.dependencies.filter((id) => taskIds.has(id) && id !== t.id),
+        dueOffsetDays: dueOffsetDays ?? undefined,
+      };
+    }),
+  };
+}
+
+/**
+ * tasksFromTemplate -> Fresh tasks for a new event: new ids (dependencies remapped), all
+ * open, due dates counted from eventDate. Without an event date tasks get no due date.
+ */
+export function tasksFromTemplate(templateTasks: TemplateTask[], eventDate: string): Task[] {
+  const ids = new Map(templateTasks.map((t) => [t.key, newRecordId()]));
+  const createdAt = new Date().toISOString();
+  return templateTasks.map((t) => ({
+    id: ids.get(t.key)!,
+    title: t.title,
+    description: t.description,
+    status: "todo",
+    priority: t.priority,
+    dueDate: (eventDate && t.dueOffsetDays != null && addDaysToDate(eventDate, t.dueOffsetDays)) || undefined,
+    assignedTo: t.assignedTo,
+    agentId: t.agentId,
+    body: t.body,
+    dependencies: t.dependencies.flatMap((key) => ids.get(key) ?? []),
+    blockers: [],
+    subtasks: t.subtasks.map((title) => ({ id: newRecordId(), title, status: "todo" as const })),
+    createdAt,
+    chatMessages: [],
+  }));
+}
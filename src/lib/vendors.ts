@@ -0,0 +1,122 @@
+/**
+ * vendors — Vendor directory helpers (vendors / vendor_links, migration 019): category
+ * labels, search, price ranges and the vendors suggested for an event. Suggestions are
+ * vendors used at other events, ranked by rating and how often they were used, with the
+ * categories the event still needs first.
+ */
+import type { PlannerEvent, Vendor, VendorCategory } from "../types";
+
+/** VENDOR_CATEGORIES -> Categories in display order, with labels. Matches the check in migration 019. */
+export const VENDOR_CATEGORIES: { id: VendorCategory; label: string }[] = [
+  { id: "venue", label: "Venue" },
+  { id: "catering", label: "Catering" },
+  { id: "entertainment", label: "Entertainment" },
+  { id: "av", label: "AV & Sound" },
+  { id: "photography", label: "Photography" },
+  { id: "decor", label: "Decor" },
+  { id: "rentals", label: "Rentals" },
+  { id: "transport", label: "Transport" },
+  { id: "staffing", label: "Staffing" },
+  { id: "other", label: "Other" },
+];
+
+/** VendorSuggestion -> A vendor suggested for an event and why. */
+export interface VendorSuggestion {
+  vendor: Vendor;
+  /** usedAt -> Other events the vendor was used for */
+  usedAt: number;
+  /** reasons -> Short phrases, e.g. "rated 5/5", "used at 3 events" */
+  reasons: string[];
+  score: number;
+}
+
+/** NEUTRAL_RATING -> Rating assumed for unrated vendors when ranking. */
+const NEUTRAL_RATING = 3;
+
+/** categoryLabel -> Display name of a category. */
+export function categoryLabel(category: VendorCategory): string {
+  return VENDOR_CATEGORIES.find((c) => c.id === category)?.label ?? category;
+}
+
+/** formatPriceRange -> e.g. "$800–$1,200 per head", "from $500", or "" when unknown. */
+export function formatPriceRange(vendor: Pick<Vendor, "priceMin" | "priceMax" | "priceNotes">): string {
+  const money = (amount: number) => `$${amount.toLocaleString(undefined, { maximumFractionDigits: 2 })}`;
+  const { priceMin, priceMax, priceNotes } = vendor;
+  const range =
+    priceMin != null && priceMax != null
+      ? priceMin === priceMax
+        ? money(priceMin)
+        : `${money(priceMin)}–${money(priceMax)}`
+      : priceMin != null
+        ? `from ${money(priceMin)}`
+        : priceMax != null
+          ? `up to ${money(priceMax)}`
+          : "";
+  return [range, priceNotes?.trim()].filter(Boolean).join(" ");
+}
+
+/** vendorMatches -> Whether a vendor matches a search (name, contact, notes) and category filter. */
+export function vendorMatches(vendor: Vendor, query: string, category?: VendorCategory): boolean {
+  if (category && !vendor.categories.includes(category)) return false;
+  const needle = query.trim().toLowerCase();
+  if (!needle) return true;
+  return [vendor.name, vendor.contactName, vendor.email, vendor.website, vendor.notes]
+    .filter(Boolean)
+    .some((text) => text!.toLowerCase().includes(needle));
+}
+
+/**
+ * neededCategories -> Categories an event is likely to book: a venue until it has an
+ * address, catering unless there is no food, entertainment and AV always.
+ */
+export function neededCategories(event: PlannerEvent): VendorCategory[] {
+  const fd = event.formData;
+  const needed: VendorCategory[] = [];
+  if (!fd.venueLocation?.address) needed.push("venue");
+  if (fd.foodDrinks !== "none" && fd.foodDrinks !== "byob") needed.push("catering");
+  needed.push("entertainment", "av");
+  return needed;
+}
+
+/**
+ * suggestVendors -> Vendors used at other events that are not yet linked to this one,
+ * best first. Vendors in a category the event needs, or used at an event linked to it,
+ * rank higher.
+ */
+export function suggestVendors(
+  vendors: Vendor[],
+  event: PlannerEvent,
+  allEvents: PlannerEvent[],
+  limit = 5
+): VendorSuggestion[] {
+  const eventUuid = event.eventUuid;
+  const needed = new Set(neededCategories(event));
+  // linkedEventIds holds evtIds; vendor links hold events.id
+  const linkedIds = event.formData.linkedEventIds ?? [];
+  const linkedEvents = new Set(
+    allEvents.filter((e) => e.eventUuid && linkedIds.includes(e.evtId)).map((e) => e.eventUuid)
+  );
+
+  const suggestions: VendorSuggestion[] = [];
+  for (const vendor of vendors) {
+    if (eventUuid && vendor.links.some((l) => l.eventUuid === eventUuid)) continue;
+    const otherEvents = new Set(vendor.links.map((l) => l.eventUuid).filter((id) => id !== eventUuid));
+    if (otherEvents.size === 0) continue;
+
+    const reasons: string[] = [];
+    let score = (vendor.rating ?? NEUTRAL_RATING) + Math.min(otherEvents.size, 3) * 0.5;
+    const neededHere = vendor.categories.filter((c) => needed.has(c));
+    if (neededHere.length > 0) {
+      score += 2;
+      reasons.push(neededHere.map(categoryLabel).join(", "));
+    }
+    if ([...otherEvents].some((id) => linkedEvents.has(id))) {
+      score += 1;
+      reasons.push("used at a linked event");
+    }
+    if (vendor.rating) reasons.push(`rated ${vendor.rating}/5`);
+    reasons.push(`used at ${otherEvents.size} event${otherEvents.size === 1 ? "" : "s"}`);
+    suggestions.push({ vendor, usedAt: otherEvents.size, reasons, score });
+  }
+  return suggestions.sort((a, b) => b.score - a.score || a.vendor.name.localeCompare(b.vendor.name)).slice(0, limit);
+}
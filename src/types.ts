@@ -87,13 +87,20 @@ export type FoodDrinkOption =
   | "none";
 
 /**
- * Collaborator -> Derived from `Collaborator` (team member).
+ * EventRole -> Derived from `Event` + `Role` (what a collaborator may do on one event).
+ * Values match collaborators.role (migration 014); see lib/permissions for the actions.
+ */
+export type EventRole = "owner" | "editor" | "viewer" | "vendor-guest";
+
+/**
+ * Collaborator -> Derived from `Collaborator` (person working on one event).
+ * Matched to a signed-in user by email.
  */
 export interface Collaborator {
   id: string;
   name: string;
   email: string;
-  role?: string;
+  role: EventRole;
 }
 
 /**
@@ -146,6 +153,26 @@ export interface Task {
   aiSummary?: string;
   /** body -> Collaborative markdown document; both user and AI can read/write this */
   body?: string;
+  /** bodyUserEdited -> The user has edited body; replanning keeps these tasks as they are */
+  bodyUserEdited?: boolean;
+  /** version -> Row version (migration 010); bumped on every update, used to detect concurrent edits */
+  version?: number;
+  /** updatedAt -> Last time the row was written */
+  updatedAt?: string;
+}
+
+/**
+ * TaskSyncConflict -> Derived from `Task` + `Sync` + `Conflict`.
+ * A task change that was not saved because someone else changed the same task first.
+ * The other change wins; the task shows the saved state.
+ */
+export interface TaskSyncConflict {
+  taskId: string;
+  title: string;
+  /** fields -> Task fields both sides changed (empty for deletes) */
+  fields: string[];
+  /** reason -> "changed": edited elsewhere first; "deleted": removed elsewhere */
+  reason: "changed" | "deleted";
 }
 
 /**
@@ -198,6 +225,8 @@ export interface EventFormData {
 export interface PlannerEvent {
   /** evtId -> `event` (evt) + `Id` (unique identifier) */
   evtId: string;
+  /** eventUuid -> Supabase events.id (evtId is usually the slug); matches realtime rows to the event */
+  eventUuid?: string;
   /** formData -> The original form submission data */
   formData: EventFormData;
   /** status -> Current event status */
@@ -210,25 +239,267 @@ export interface PlannerEvent {
   tasks?: Task[];
   /** documents -> Array of uploaded documents and links */
   documents?: Document[];
-  /** collaborators -> Array of collaborators (for organization accounts) */
+  /** collaborators -> People working on this event and their roles */
   collaborators?: Collaborator[];
+  /** ownerId -> User who created the event (events.user_id) */
+  ownerId?: string;
+  /** orgId -> Organization the event is shared with (events.org_id) */
+  orgId?: string;
+  /** seriesId -> Recurring series this event is an occurrence of (events.series_id) */
+  seriesId?: string;
+  /** occurrenceDate -> Date the series rule produced; eventDate may have been moved from it */
+  occurrenceDate?: string;
   /** accountType -> Personal or organization */
   accountType?: AccountType;
   /** retroCreated -> Whether retro has been created for past events */
   retroCreated?: boolean;
 }
 
+/**
+ * TemplateTask -> Derived from `Template` + `Task` (a task saved in an event template).
+ * Ids are replaced on use; dependencies refer to other template tasks by key.
+ */
+export interface TemplateTask {
+  key: string;
+  title: string;
+  description?: string;
+  priority: number;
+  agentId?: AgentId;
+  assignedTo?: string;
+  body?: string;
+  subtasks: string[];
+  dependencies: string[];
+  /** dueOffsetDays -> Days from the event date to the due date (negative = before the event) */
+  dueOffsetDays?: number;
+}
+
+/**
+ * EventTemplate -> Derived from `Event` + `Template` (event_templates row, migration 015).
+ */
+export interface EventTemplate {
+  id: string;
+  name: string;
+  description?: string;
+  /** sourceEventId -> Event the template was saved from */
+  sourceEventId?: string;
+  /** formData -> Event details to pre-fill; never the date */
+  formData: Partial<EventFormData>;
+  tasks: TemplateTask[];
+  /** orgId -> Set when the template is shared with an organization */
+  orgId?: string;
+  createdAt: string;
+}
+
+/**
+ * EventSeries -> Derived from `Event` + `Series` (event_series row, migration 016).
+ * Occurrences are ordinary events with seriesId set; changing one does not change the series.
+ */
+export interface EventSeries {
+  id: string;
+  name: string;
+  /** rrule -> Recurrence rule (lib/recurrence), e.g. "FREQ=WEEKLY;BYDAY=TU" */
+  rrule: string;
+  /** startsOn -> Date of the first occurrence */
+  startsOn: string;
+  /** horizonDays -> Occurrences this many days ahead are created automatically */
+  horizonDays: number;
+  /** exdates -> Skipped occurrence dates */
+  exdates: string[];
+  /** formData / tasks -> Plan each new occurrence starts from */
+  formData: Partial<EventFormData>;
+  tasks: TemplateTask[];
+  /** active -> Paused series stop creating occurrences */
+  active: boolean;
+  ownerId?: string;
+  orgId?: string;
+  createdAt: string;
+}
+
+/**
+ * RsvpStatus -> Derived from `RSVP` + `Status` (a guest's response, rsvps.status).
+ */
+export type RsvpStatus = "invited" | "going" | "maybe" | "declined" | "waitlist";
+
+/**
+ * GuestSource -> Derived from `Guest` + `Source` (who added a guest or recorded an RSVP).
+ */
+export type GuestSource = "manual" | "agent" | "luma" | "import";
+
+/**
+ * Rsvp -> Derived from `RSVP` (rsvps row, migration 017). At most one per guest.
+ */
+export interface Rsvp {
+  id: string;
+  guestId: string;
+  status: RsvpStatus;
+  /** plusOnes -> Extra people the guest brings */
+  plusOnes: number;
+  /** respondedAt -> When the guest answered (unset while invited) */
+  respondedAt?: string;
+  source: GuestSource;
+}
+
+/**
+ * Guest -> Derived from `Guest` (guests row, migration 017); one person invited to one event.
+ */
+export interface Guest {
+  id: string;
+  name: string;
+  email?: string;
+  phone?: string;
+  /** dietaryNeeds -> Free text, e.g. "vegetarian, nut allergy" */
+  dietaryNeeds?: string;
+  notes?: string;
+  source: GuestSource;
+  /** externalId -> The guest's id in the source system (e.g. Luma) */
+  externalId?: string;
+  /** rsvp -> Unset until an RSVP is recorded; treat as invited */
+  rsvp?: Rsvp;
+  createdAt: string;
+}
+
+/**
+ * BudgetItem -> Derived from `Budget` + `Item` (budget_items row, migration 018); one cost
+ * line of an event, tracked from estimate to commitment to payment. Amounts are in dollars.
+ */
+export interface BudgetItem {
+  id: string;
+  /** agentId -> Agent category the cost belongs to */
+  agentId: AgentId;
+  title: string;
+  vendorName?: string;
+  vendorUrl?: string;
+  /** estimated -> Quoted or expected cost */
+  estimated: number;
+  /** committed -> Amount agreed with the vendor */
+  committed: number;
+  /** paid -> Amount paid so far */
+  paid: number;
+  /** paidAt -> Date of the last payment (YYYY-MM-DD) */
+  paidAt?: string;
+  /** receiptUrl -> Link to the receipt or invoice */
+  receiptUrl?: string;
+  notes?: string;
+  /** taskId -> Task the cost came up in */
+  taskId?: string;
+  /** source -> manual, or agent when an agent recorded a quote */
+  source: "manual" | "agent";
+  createdAt: string;
+}
+
+/**
+ * VendorCategory -> Derived from `Vendor` + `Category` (what a vendor provides, vendors.categories).
+ */
+export type VendorCategory =
+  | "venue"
+  | "catering"
+  | "entertainment"
+  | "av"
+  | "photography"
+  | "decor"
+  | "rentals"
+  | "transport"
+  | "staffing"
+  | "other";
+
+/**
+ * VendorLink -> Derived from `Vendor` + `Link` (vendor_links row, migration 019); a vendor
+ * used for an event, and for one of its tasks when there is one.
+ */
+export interface VendorLink {
+  id: string;
+  vendorId: string;
+  /** eventUuid -> events.id */
+  eventUuid: string;
+  taskId?: string;
+  notes?: string;
+  /** source -> manual, or agent when an agent recorded the vendor */
+  source: "manual" | "agent";
+  createdAt: string;
+}
+
+/**
+ * Vendor -> Derived from `Vendor` (vendors row, migration 019); a supplier kept in the
+ * directory shared across events. Prices are in dollars.
+ */
+export interface Vendor {
+  id: string;
+  name: string;
+  categories: VendorCategory[];
+  contactName?: string;
+  email?: string;
+  phone?: string;
+  website?: string;
+  /** priceMin / priceMax -> Typical price range */
+  priceMin?: number;
+  priceMax?: number;
+  /** priceNotes -> What the range is per, e.g. "per head" */
+  priceNotes?: string;
+  /** rating -> 1 to 5 */
+  rating?: number;
+  notes?: string;
+  ownerId?: string;
+  /** orgId -> Set when the vendor is shared with an organization */
+  orgId?: string;
+  /** links -> Events (and tasks) the vendor was used for, oldest first */
+  links: VendorLink[];
+  createdAt: string;
+}
+
+/**
+ * RunOfShowSegment -> Derived from `Run Of Show` + `Segment` (run_of_show_segments row,
+ * migration 020); one timed block of the event day's schedule.
+ */
+export interface RunOfShowSegment {
+  id: string;
+  /** position -> Order in the run sheet, from 0 */
+  position: number;
+  title: string;
+  /** startTime -> "HH:MM"; unset segments follow on from the one before */
+  startTime?: string;
+  durationMinutes: number;
+  /** owner -> Who runs the segment (MC, DJ, caterer, ...) */
+  owner?: string;
+  location?: string;
+  /** avCues -> Music, mics, lights and slides for the segment */
+  avCues?: string;
+  notes?: string;
+  /** source -> manual, or agent when drafted by an agent */
+  source: "manual" | "agent";
+  createdAt: string;
+}
+
+/**
+ * ScheduleIssue -> Derived from `Schedule` + `Issue`; an overlap, gap or segment outside the
+ * event's hours found in a run of show.
+ */
+export interface ScheduleIssue {
+  kind: "overlap" | "gap" | "before-start" | "after-end";
+  /** segmentId -> The segment the issue is shown on (the later one for overlaps and gaps) */
+  segmentId: string;
+  /** minutes -> Size of the overlap, gap or overrun */
+  minutes: number;
+  message: string;
+}
+
+/**
+ * EventSource -> Derived from `Event` + `Source` (what a new event copies its tasks from).
+ */
+export type EventSource = { kind: "template"; template: EventTemplate } | { kind: "event"; evtId: string };
+
 /**
  * ActiveView -> Derived from `Active` (current) + `View` (rendered panel).
  * Discriminated union of all navigable view states.
  */
 export type ActiveView =
   | { kind: "dashboard" }
-  | { kind: "event-chat"; evtId: string; initialViewMode?: "tasks" | "details" }
+  | { kind: "event-chat"; evtId: string; initialViewMode?: "tasks" | "details" | "guests" | "schedule" }
   | { kind: "agent-detail"; evtId: string; agentId: AgentId }
   | { kind: "agent-category-chat"; evtId: string; agentId: AgentId }
   | { kind: "task-detail"; evtId: string; taskId: string }
   | { kind: "settings" }
+  | { kind: "knowledge" }
+  | { kind: "vendors" }
   | { kind: "calendar" }
   | { kind: "timeline"; evtId?: string };
 
@@ -237,19 +508,42 @@ export type ActiveView =
  */
 export type SidebarState = "open" | "closed";
 
+/**
+ * OrgRole -> Derived from `Organization` + `Role` (organization_members.role).
+ */
+export type OrgRole = "owner" | "member";
+
+/**
+ * OrgMember -> Derived from `Organization` + `Member` (organization_members row).
+ */
+export interface OrgMember {
+  userId: string;
+  name: string;
+  email: string;
+  role: OrgRole;
+}
+
 /**
  * AccountSettings -> Derived from `Account` + `Settings` (user preferences).
+ * Loaded from the signed-in user's profile and organization membership (migration 013).
  */
 export interface AccountSettings {
+  /** currentAccount -> "organization" when the user belongs to an organization, else "personal" */
   currentAccount: AccountType;
   personalAccount: {
+    /** userId -> Supabase auth user id (absent when running without Supabase) */
+    userId?: string;
     name: string;
     email: string;
   };
   organizationAccount?: {
+    /** orgId -> organizations.id */
+    orgId: string;
+    /** role -> The signed-in user's role in the organization */
+    role: OrgRole;
     name: string;
     email: string;
-    collaborators: Collaborator[];
+    members: OrgMember[];
   };
 }
 
@@ -266,6 +560,7 @@ export type OrchestratorRunStatus =
   | "idle"
   | "planning"
   | "executing"
+  | "waiting_for_dependencies"
   | "waiting_for_user"
   | "completed"
   | "failed";
@@ -369,6 +664,210 @@ export interface ConnectorStatus {
   isConnected: boolean;
   lastTestedAt?: string;
   lastTestOk?: boolean;
+  /** sideEffectTools -> Tools that change external state and need approval by default */
+  sideEffectTools: string[];
+  /** autoExecute -> When true, this connector's side-effecting tools skip the approval queue */
+  autoExecute: boolean;
+}
+
+/**
+ * ToolApprovalStatus -> Lifecycle of a queued side-effecting tool call.
+ */
+export type ToolApprovalStatus = "pending" | "rejected" | "executed" | "failed";
+
+/**
+ * ToolApproval -> Derived from `Tool` + `Approval`.
+ * A side-effecting connector call waiting for (or resolved by) the user's decision.
+ */
+export interface ToolApproval {
+  id: string;
+  eventId: string;
+  runId?: string;
+  taskId?: string;
+  connectorId: string;
+  toolName: string;
+  /** toolInput -> Arguments exactly as the agent proposed them */
+  toolInput: Record<string, unknown>;
+  /** editedInput -> Arguments the user approved after editing */
+  editedInput?: Record<string, unknown>;
+  status: ToolApprovalStatus;
+  decisionNote?: string;
+  result?: Record<string, unknown>;
+  createdAt: string;
+  decidedAt?: string;
+}
+
+/**
+ * ToolApprovalDecision -> The user's answer to a queued tool call.
+ */
+export interface ToolApprovalDecision {
+  decision: "approve" | "reject";
+  /** editedInput -> Replacement arguments when approving with edits */
+  editedInput?: Record<string, unknown>;
+  /** note -> Optional note passed back to the agent */
+  note?: string;
+}
+
+/**
+ * EventRetroMetrics -> Derived from `Event` + `Retro` + `Metrics`.
+ * Outcome numbers computed from tasks, agent notifications, AI usage and Luma RSVPs.
+ */
+export interface EventRetroMetrics {
+  tasksTotal: number;
+  tasksDone: number;
+  tasksBlocked: number;
+  tasksOpen: number;
+  /** tasksLate -> Completed after their due date */
+  tasksLate: number;
+  /** completionRate -> tasksDone / tasksTotal (0-1) */
+  completionRate: number;
+  /** byAgent -> agentId -> task totals */
+  byAgent: Record<string, { total: number; done: number }>;
+  inputRequests: number;
+  agentErrors: number;
+  aiCostUsd: number;
+  attendance: {
+    target: number | null;
+    /** expected -> Guest count from the event details */
+    expected: number | null;
+    /** actual -> Approved Luma RSVPs, when a Luma event was found */
+    actual: number | null;
+    source: string | null;
+    lumaEventId: string | null;
+    rsvpsByStatus: Record<string, number> | null;
+  };
+}
+
+/**
+ * EventRetro -> Derived from `Event` + `Retro` (retrospective).
+ * Post-event retrospective stored in event_retros (one per event).
+ */
+export interface EventRetro {
+  id: string;
+  eventId: string;
+  summary: string;
+  wentWell: string[];
+  didntGoWell: string[];
+  recurringBlockers: string[];
+  recommendations: string[];
+  metrics: EventRetroMetrics;
+  /** content -> Full retro document as markdown */
+  content: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * KnowledgeNodeType -> Derived from `Knowledge` (cross-event memory) + `Node` + `Type`.
+ */
+export type KnowledgeNodeType = "event" | "task" | "person" | "vendor" | "topic" | "blocker" | "lesson" | "document";
+
+/**
+ * KnowledgeNode -> Derived from `Knowledge` + `Node`.
+ * One entity in the knowledge graph, with the user's corrections applied.
+ */
+export interface KnowledgeNode {
+  /** id -> "<type>:<key>", e.g. "vendor:hello@bestcatering.com" */
+  id: string;
+  type: KnowledgeNodeType;
+  label: string;
+  /** props -> Type-specific details, e.g. rating/notes on vendors, leadDays on tasks */
+  props: Record<string, unknown>;
+  /** sources -> Event UUIDs this node was derived from ("user" when added by hand) */
+  sources: string[];
+  /** hidden -> Hidden from agents by the user */
+  hidden: boolean;
+  /** edited -> The user corrected the label, type or properties */
+  edited: boolean;
+}
+
+/**
+ * KnowledgeEdge -> Derived from `Knowledge` + `Edge` (relationship).
+ */
+export interface KnowledgeEdge {
+  id: string;
+  from: string;
+  to: string;
+  /** type -> Relationship, e.g. has_task | about | had_blocker | worked_with | learned */
+  type: string;
+  props: Record<string, unknown>;
+  sources: string[];
+  hidden: boolean;
+}
+
+/**
+ * KnowledgeGraph -> Derived from `Knowledge` + `Graph`.
+ */
+export interface KnowledgeGraph {
+  nodes: KnowledgeNode[];
+  edges: KnowledgeEdge[];
+  /** builtAt -> Last full rebuild, or null if never built */
+  builtAt: string | null;
+}
+
+/**
+ * KnowledgeInsight -> Derived from `Knowledge` + `Insight`.
+ * One sentence of past-event history as an agent sees it.
+ */
+export interface KnowledgeInsight {
+  text: string;
+  nodeIds: string[];
+  weight: number;
+}
+
+/**
+ * EventDetailChange -> Derived from `Event` + `Detail` + `Change`.
+ * One planning-relevant EventFormData field that changed (values shown as text).
+ */
+export interface EventDetailChange {
+  field: "eventDate" | "startTime" | "endTime" | "guestCount" | "budget" | "venuePref" | "foodDrinks";
+  /** label -> Display name, e.g. "Guest count" */
+  label: string;
+  from: string;
+  to: string;
+}
+
+/**
+ * ReplanChangeKind -> What a replanning proposal does to the task list.
+ */
+export type ReplanChangeKind = "add" | "remove" | "redate" | "reprioritize";
+
+/**
+ * ReplanChange -> Derived from `Replan` + `Change`.
+ * One proposed task change after event details changed; the user accepts or rejects each.
+ */
+export interface ReplanChange {
+  /** id -> Local proposal ID (not persisted) */
+  id: string;
+  kind: ReplanChangeKind;
+  /** taskId -> Existing task for remove / redate / reprioritize */
+  taskId?: string;
+  /** title -> New task title (add) or the existing task's title */
+  title: string;
+  /** description -> New task description (add only) */
+  description?: string;
+  /** agentId -> Agent section for a new task (add only) */
+  agentId?: AgentId;
+  /** dueDate -> New due date (add / redate); empty string clears it */
+  dueDate?: string;
+  /** priority -> New priority (add / reprioritize) */
+  priority?: number;
+  /** rationale -> Why the event detail change calls for this */
+  rationale: string;
+  /** decision -> The user's choice so far; undecided changes are not applied */
+  decision?: "accepted" | "rejected";
+}
+
+/**
+ * ReplanProposal -> Derived from `Replan` + `Proposal`.
+ * Pending replanning pass for one event: what changed and the task changes still awaiting a decision.
+ */
+export interface ReplanProposal {
+  detailChanges: EventDetailChange[];
+  changes: ReplanChange[];
+  /** loading -> True while the planner is still working */
+  loading: boolean;
+  error?: string;
 }
 
 /**
@@ -413,3 +912,108 @@ export interface OrchestratorStatus {
   totalCount: number;
   blockedCount: number;
 }
+
+/**
+ * AppSettings -> Derived from `App` + `Settings`.
+ * App-wide preferences persisted in userData by electron/settingsStore.cjs.
+ */
+export interface AppSettings {
+  /** maxConcurrentLanes -> How many agent lanes may execute tasks at the same time */
+  maxConcurrentLanes: number;
+  /** aiMonthlyBudgetUsd -> Global AI spend cap per calendar month (UTC); null = no cap */
+  aiMonthlyBudgetUsd: number | null;
+}
+
+/**
+ * SyncState -> Derived from `Sync` + `State`.
+ * local-only: Supabase is not configured, data lives only on this machine.
+ */
+export type SyncState = "local-only" | "offline" | "syncing" | "synced" | "error";
+
+/**
+ * SyncConflict -> Derived from `Sync` + `Conflict`.
+ * A local change that could not be pushed as made. For "changed" the server value was kept.
+ */
+export interface SyncConflict {
+  table: string;
+  rowId: string;
+  /** label -> Task title, event name, etc. */
+  label: string;
+  /** fields -> Columns both sides changed (empty for a kept row or a rejected change) */
+  fields: string[];
+  reason: "changed" | "deleted" | "rejected";
+  /** message -> Supabase error for a rejected change */
+  message?: string;
+  at: string;
+}
+
+/**
+ * SyncStatus -> Derived from `Sync` + `Status`.
+ * State of the background sync between the local database and Supabase.
+ */
+export interface SyncStatus {
+  state: SyncState;
+  /** pending -> Local changes not pushed yet */
+  pending: number;
+  lastSyncedAt: string | null;
+  error: string | null;
+  conflicts: SyncConflict[];
+}
+
+/**
+ * SchemaStatus -> Derived from `Schema` + `Status`.
+ * Database schema version against the migrations this build of the app ships.
+ */
+export interface SchemaStatus {
+  backend: "supabase" | "memory";
+  /** currentVersion -> Highest applied migration (estimated for databases from before migration 012) */
+  currentVersion: number;
+  requiredVersion: number;
+  /** tracked -> The database has schema_migrations (migration 012) */
+  tracked: boolean;
+  pending: Array<{ version: number; name: string }>;
+  /** newerThanApp -> The database has migrations this build does not know; update the app */
+  newerThanApp: boolean;
+  /** canRun -> A direct database connection is configured, so the app can apply migrations */
+  canRun: boolean;
+  /** steps -> Upgrade instructions, empty when up to date */
+  steps: string[];
+}
+
+/**
+ * AiUsagePurpose -> Which kind of Claude call a usage record belongs to.
+ */
+export type AiUsagePurpose = "planning" | "execution" | "category_chat" | "subtasks" | "retro";
+
+/**
+ * AiUsageTotals -> Derived from `AI` + `Usage` + `Totals`.
+ * Token and cost sums for one roll-up row (task, run, event or month).
+ */
+export interface AiUsageTotals {
+  callCount: number;
+  inputTokens: number;
+  outputTokens: number;
+  costUsd: number;
+}
+
+/**
+ * AiUsageSummary -> Derived from `AI` + `Usage` + `Summary`.
+ * Everything the usage dashboard shows; built from the ai_usage_by_* views (migration 007).
+ */
+export interface AiUsageSummary {
+  monthlyBudgetUsd: number | null;
+  currentMonthCostUsd: number;
+  /** months -> Most recent first; month is YYYY-MM-01 (UTC) */
+  months: Array<AiUsageTotals & { month: string }>;
+  events: Array<AiUsageTotals & { eventId: string; eventName: string; budgetUsd: number | null }>;
+  runs: Array<
+    AiUsageTotals & {
+      runId: string;
+      eventId: string;
+      agentId?: AgentId;
+      runStatus: string;
+      startedAt?: string;
+    }
+  >;
+  tasks: Array<AiUsageTotals & { taskId: string; eventId: string; taskTitle: string }>;
+}
@@ -0,0 +1,13 @@
+-- 004_orchestrator_history.sql
+-- Persists the exact Claude conversation per task so orchestrator runs can be
+-- rebuilt after the app restarts (warm restart).
+--   orchestrator_messages.claude_content -> Raw Anthropic message content (string or content blocks)
+--                                            for one turn of a task's history. NULL for display-only rows.
+--   orchestrator_messages.history_seq    -> Position of that turn in the task's history for the run.
+--   orchestrator_notifications.tool_use_id -> The request_user_input tool_use block the notification answers.
+
+ALTER TABLE orchestrator_messages ADD COLUMN IF NOT EXISTS claude_content JSONB;
+ALTER TABLE orchestrator_messages ADD COLUMN IF NOT EXISTS history_seq INTEGER;
+ALTER TABLE orchestrator_notifications ADD COLUMN IF NOT EXISTS tool_use_id TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_orchestrator_runs_status ON orchestrator_runs(status);
@@ -0,0 +1,25 @@
+-- 005_tool_approvals.sql
+-- Pending-approval queue for side-effecting connector tool calls (send email,
+-- create calendar/Luma events, update Notion pages). The orchestrator pauses the
+-- task until the user approves, edits or rejects the call; the decision is sent
+-- back to Claude as the tool_result.
+
+CREATE TABLE IF NOT EXISTS tool_approvals (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  event_id UUID NOT NULL REFERENCES events(id) ON DELETE CASCADE,
+  run_id UUID REFERENCES orchestrator_runs(id) ON DELETE CASCADE,
+  task_id UUID REFERENCES tasks(id) ON DELETE SET NULL,
+  tool_use_id TEXT NOT NULL,          -- Claude tool_use block id the decision answers
+  connector_id TEXT NOT NULL,
+  tool_name TEXT NOT NULL,
+  tool_input JSONB NOT NULL,          -- Arguments exactly as Claude proposed them
+  edited_input JSONB,                 -- Arguments after user edits (when approved with edits)
+  status TEXT NOT NULL DEFAULT 'pending',  -- pending | rejected | executed | failed
+  decision_note TEXT,                 -- Optional note from the user, passed to Claude
+  result JSONB,                       -- Tool execution result once executed
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  decided_at TIMESTAMPTZ
+);
+
+CREATE INDEX IF NOT EXISTS idx_tool_approvals_event_id ON tool_approvals(event_id);
+CREATE INDEX IF NOT EXISTS idx_tool_approvals_status ON tool_approvals(status);
@@ -0,0 +1,7 @@
+-- 006_orchestrator_lanes.sql
+-- Agent groups run as parallel lanes: one orchestrator run per (event, agent).
+-- agent_id is NULL for event-wide runs created before lanes existed.
+
+ALTER TABLE orchestrator_runs ADD COLUMN IF NOT EXISTS agent_id TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_orch_runs_event_agent ON orchestrator_runs(event_id, agent_id);
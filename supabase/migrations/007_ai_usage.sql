@@ -0,0 +1,85 @@
+-- 007_ai_usage.sql
+-- Token + cost accounting for every Claude call (planning, task execution, category
+-- chat), stored next to orchestrator_messages, plus AI budgets per event.
+-- The global monthly budget is an app setting (settings.json), not a column.
+
+CREATE TABLE IF NOT EXISTS ai_usage (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  -- SET NULL (not CASCADE) so deleting an event keeps its spend in the monthly totals
+  event_id UUID REFERENCES events(id) ON DELETE SET NULL,
+  run_id UUID REFERENCES orchestrator_runs(id) ON DELETE SET NULL,
+  task_id UUID REFERENCES tasks(id) ON DELETE SET NULL,
+  purpose TEXT NOT NULL,                  -- planning | execution | category_chat | subtasks
+  model TEXT NOT NULL,
+  input_tokens INTEGER NOT NULL DEFAULT 0,
+  output_tokens INTEGER NOT NULL DEFAULT 0,
+  cache_creation_input_tokens INTEGER NOT NULL DEFAULT 0,
+  cache_read_input_tokens INTEGER NOT NULL DEFAULT 0,
+  cost_usd NUMERIC(12, 6) NOT NULL DEFAULT 0,  -- Computed from MODEL_PRICING at call time
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_ai_usage_event_id ON ai_usage(event_id);
+CREATE INDEX IF NOT EXISTS idx_ai_usage_run_id ON ai_usage(run_id);
+CREATE INDEX IF NOT EXISTS idx_ai_usage_task_id ON ai_usage(task_id);
+CREATE INDEX IF NOT EXISTS idx_ai_usage_created_at ON ai_usage(created_at);
+
+-- Per-event AI budget in USD (NULL = no event budget)
+ALTER TABLE events ADD COLUMN IF NOT EXISTS ai_budget_usd NUMERIC(10, 2);
+
+-- =============================================================================
+-- ROLL-UPS
+-- =============================================================================
+CREATE OR REPLACE VIEW ai_usage_by_task AS
+SELECT
+  u.task_id,
+  u.event_id,
+  t.title AS task_title,
+  COUNT(*) AS call_count,
+  SUM(u.input_tokens) AS input_tokens,
+  SUM(u.output_tokens) AS output_tokens,
+  SUM(u.cost_usd) AS cost_usd
+FROM ai_usage u
+LEFT JOIN tasks t ON t.id = u.task_id
+WHERE u.task_id IS NOT NULL
+GROUP BY u.task_id, u.event_id, t.title;
+
+CREATE OR REPLACE VIEW ai_usage_by_run AS
+SELECT
+  u.run_id,
+  u.event_id,
+  r.agent_id,
+  r.status AS run_status,
+  r.started_at,
+  COUNT(*) AS call_count,
+  SUM(u.input_tokens) AS input_tokens,
+  SUM(u.output_tokens) AS output_tokens,
+  SUM(u.cost_usd) AS cost_usd
+FROM ai_usage u
+LEFT JOIN orchestrator_runs r ON r.id = u.run_id
+WHERE u.run_id IS NOT NULL
+GROUP BY u.run_id, u.event_id, r.agent_id, r.status, r.started_at;
+
+CREATE OR REPLACE VIEW ai_usage_by_event AS
+SELECT
+  u.event_id,
+  e.name AS event_name,
+  e.ai_budget_usd,
+  COUNT(*) AS call_count,
+  SUM(u.input_tokens) AS input_tokens,
+  SUM(u.output_tokens) AS output_tokens,
+  SUM(u.cost_usd) AS cost_usd
+FROM ai_usage u
+LEFT JOIN events e ON e.id = u.event_id
+WHERE u.event_id IS NOT NULL
+GROUP BY u.event_id, e.name, e.ai_budget_usd;
+
+CREATE OR REPLACE VIEW ai_usage_by_month AS
+SELECT
+  DATE_TRUNC('month', u.created_at AT TIME ZONE 'UTC')::DATE AS month,
+  COUNT(*) AS call_count,
+  SUM(u.input_tokens) AS input_tokens,
+  SUM(u.output_tokens) AS output_tokens,
+  SUM(u.cost_usd) AS cost_usd
+FROM ai_usage u
+GROUP BY 1;
@@ -0,0 +1,5 @@
+-- 008_task_body_user_edited.sql
+-- Marks tasks whose document body the user has written to (AI writes leave it false).
+-- Replanning after event detail changes never removes or rewrites these tasks.
+
+ALTER TABLE tasks ADD COLUMN IF NOT EXISTS body_user_edited BOOLEAN NOT NULL DEFAULT false;
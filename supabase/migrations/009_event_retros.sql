@@ -0,0 +1,26 @@
+-- 009_event_retros.sql
+-- Post-event retrospective, one per event (regenerating replaces it).
+--   metrics   -> Computed outcomes: task completion, overdue work, agent notifications,
+--                attendance vs. goal (Luma RSVPs when linked), AI cost
+--   went_well / didnt_go_well / recurring_blockers / recommendations -> JSON arrays of strings
+--   content   -> The full retro rendered as markdown
+-- events.retro_created is set when a retro is saved.
+
+CREATE TABLE IF NOT EXISTS event_retros (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  event_id UUID NOT NULL UNIQUE REFERENCES events(id) ON DELETE CASCADE,
+  summary TEXT NOT NULL DEFAULT '',
+  went_well JSONB NOT NULL DEFAULT '[]',
+  didnt_go_well JSONB NOT NULL DEFAULT '[]',
+  recurring_blockers JSONB NOT NULL DEFAULT '[]',
+  recommendations JSONB NOT NULL DEFAULT '[]',
+  metrics JSONB NOT NULL DEFAULT '{}',
+  content TEXT NOT NULL DEFAULT '',
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+DROP TRIGGER IF EXISTS event_retros_updated_at ON event_retros;
+CREATE TRIGGER event_retros_updated_at
+  BEFORE UPDATE ON event_retros
+  FOR EACH ROW EXECUTE PROCEDURE set_updated_at();
@@ -0,0 +1,22 @@
+-- 010_task_versions.sql
+-- Optimistic concurrency for tasks. Every UPDATE bumps version and updated_at, so a
+-- writer that read version N can update "WHERE version = N" and notice when another
+-- window or an agent run changed the task in between. Task sync diffs against what
+-- the client last saw and only writes the fields it changed.
+
+ALTER TABLE tasks ADD COLUMN IF NOT EXISTS version INTEGER NOT NULL DEFAULT 1;
+ALTER TABLE tasks ADD COLUMN IF NOT EXISTS updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW();
+
+CREATE OR REPLACE FUNCTION bump_task_version()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.version = OLD.version + 1;
+  NEW.updated_at = NOW();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS tasks_bump_version ON tasks;
+CREATE TRIGGER tasks_bump_version
+  BEFORE UPDATE ON tasks
+  FOR EACH ROW EXECUTE PROCEDURE bump_task_version();
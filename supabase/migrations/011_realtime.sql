@@ -0,0 +1,19 @@
+-- 011_realtime.sql
+-- Publish row changes to Supabase Realtime so every open window (and every collaborator
+-- on a shared organization project) sees edits live. Tables already in the publication
+-- are skipped so the migration can be re-run.
+
+DO $$
+DECLARE
+  t TEXT;
+BEGIN
+  FOREACH t IN ARRAY ARRAY['events', 'tasks', 'subtasks', 'chat_messages', 'orchestrator_notifications']
+  LOOP
+    IF NOT EXISTS (
+      SELECT 1 FROM pg_publication_tables
+      WHERE pubname = 'supabase_realtime' AND schemaname = 'public' AND tablename = t
+    ) THEN
+      EXECUTE format('ALTER PUBLICATION supabase_realtime ADD TABLE public.%I', t);
+    END IF;
+  END LOOP;
+END $$;
@@ -0,0 +1,26 @@
+-- 012_schema_migrations.sql
+-- Record which numbered migrations have been applied, so the app can check that the
+-- database matches the version it was built for and the migration runner
+-- (electron/migrations.cjs) knows what is left to apply. Applying this file by hand
+-- means 001-011 were applied before it; they are recorded as such.
+
+CREATE TABLE IF NOT EXISTS schema_migrations (
+  version INTEGER PRIMARY KEY,
+  name TEXT NOT NULL,
+  applied_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+INSERT INTO schema_migrations (version, name) VALUES
+  (1, '001_app_schema'),
+  (2, '002_orchestrator_schema'),
+  (3, '003_task_body'),
+  (4, '004_orchestrator_history'),
+  (5, '005_tool_approvals'),
+  (6, '006_orchestrator_lanes'),
+  (7, '007_ai_usage'),
+  (8, '008_task_body_user_edited'),
+  (9, '009_event_retros'),
+  (10, '010_task_versions'),
+  (11, '011_realtime'),
+  (12, '012_schema_migrations')
+ON CONFLICT (version) DO NOTHING;
@@ -0,0 +1,294 @@
+-- 013_auth_orgs_rls.sql
+-- Multi-user accounts on Supabase Auth.
+--   profiles             -> One per auth user (name, email); created on sign-up
+--   organizations        -> Shared workspaces
+--   organization_members -> Who belongs to which organization (role: owner | member)
+--   events.org_id        -> Set for organization events; NULL for personal events
+-- Row-level security: a user sees their own events and the events of every organization
+-- they belong to, and the rows that hang off those events (tasks, chat, agent runs, ...).
+-- Organizations are created and joined through create_organization and
+-- add_organization_member, so nobody can add themselves to someone else's organization.
+--
+-- Events created before this migration have no owner (user_id NULL) and are hidden from
+-- everyone. Claim them for an account in the SQL Editor:
+--   UPDATE events SET user_id = '<auth user id>' WHERE user_id IS NULL;
+-- Connector metadata saved before this migration has no owner either (connector_configs.user_id)
+-- and is hidden the same way.
+
+-- =============================================================================
+-- PROFILES
+-- =============================================================================
+CREATE TABLE IF NOT EXISTS profiles (
+  id UUID PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  name TEXT NOT NULL DEFAULT '',
+  email TEXT NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_profiles_email ON profiles(LOWER(email));
+
+DROP TRIGGER IF EXISTS profiles_updated_at ON profiles;
+CREATE TRIGGER profiles_updated_at
+  BEFORE UPDATE ON profiles
+  FOR EACH ROW EXECUTE PROCEDURE set_updated_at();
+
+CREATE OR REPLACE FUNCTION handle_new_user()
+RETURNS TRIGGER
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public AS $$
+BEGIN
+  INSERT INTO profiles (id, name, email)
+  VALUES (NEW.id, COALESCE(NEW.raw_user_meta_data->>'name', ''), COALESCE(NEW.email, ''))
+  ON CONFLICT (id) DO NOTHING;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS on_auth_user_created ON auth.users;
+CREATE TRIGGER on_auth_user_created
+  AFTER INSERT ON auth.users
+  FOR EACH ROW EXECUTE PROCEDURE handle_new_user();
+
+-- Users who signed up before this migration
+INSERT INTO profiles (id, name, email)
+SELECT id, COALESCE(raw_user_meta_data->>'name', ''), COALESCE(email, '')
+FROM auth.users
+ON CONFLICT (id) DO NOTHING;
+
+-- =============================================================================
+-- ORGANIZATIONS + MEMBERSHIP
+-- =============================================================================
+CREATE TABLE IF NOT EXISTS organizations (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL DEFAULT '',
+  email TEXT NOT NULL DEFAULT '',
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+DROP TRIGGER IF EXISTS organizations_updated_at ON organizations;
+CREATE TRIGGER organizations_updated_at
+  BEFORE UPDATE ON organizations
+  FOR EACH ROW EXECUTE PROCEDURE set_updated_at();
+
+CREATE TABLE IF NOT EXISTS organization_members (
+  org_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  role TEXT NOT NULL DEFAULT 'member',   -- 'owner' | 'member'
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (org_id, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_organization_members_user_id ON organization_members(user_id);
+
+-- =============================================================================
+-- EVENT OWNERSHIP
+-- =============================================================================
+ALTER TABLE events ALTER COLUMN user_id SET DEFAULT auth.uid();
+ALTER TABLE events ADD COLUMN IF NOT EXISTS org_id UUID REFERENCES organizations(id) ON DELETE SET NULL;
+CREATE INDEX IF NOT EXISTS idx_events_org_id ON events(org_id);
+
+-- AI usage without an event (e.g. planning a new event) belongs to whoever made the call
+ALTER TABLE ai_usage ADD COLUMN IF NOT EXISTS user_id UUID DEFAULT auth.uid();
+
+-- Connector metadata belongs to the user who set the connector up, one row per connector each
+ALTER TABLE connector_configs ADD COLUMN IF NOT EXISTS user_id UUID DEFAULT auth.uid() REFERENCES auth.users(id) ON DELETE CASCADE;
+ALTER TABLE connector_configs DROP CONSTRAINT IF EXISTS connector_configs_connector_id_key;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_connector_configs_user_connector ON connector_configs(user_id, connector_id);
+
+-- =============================================================================
+-- ACCESS HELPERS (SECURITY DEFINER so policies can use them without recursing)
+-- =============================================================================
+CREATE OR REPLACE FUNCTION is_org_member(org UUID)
+RETURNS BOOLEAN
+LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public AS $$
+  SELECT EXISTS (SELECT 1 FROM organization_members WHERE org_id = org AND user_id = auth.uid());
+$$;
+
+CREATE OR REPLACE FUNCTION is_org_owner(org UUID)
+RETURNS BOOLEAN
+LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM organization_members WHERE org_id = org AND user_id = auth.uid() AND role = 'owner'
+  );
+$$;
+
+CREATE OR REPLACE FUNCTION shares_org_with(other UUID)
+RETURNS BOOLEAN
+LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM organization_members mine
+    JOIN organization_members theirs ON theirs.org_id = mine.org_id
+    WHERE mine.user_id = auth.uid() AND theirs.user_id = other
+  );
+$$;
+
+CREATE OR REPLACE FUNCTION can_access_event(evt UUID)
+RETURNS BOOLEAN
+LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM events e
+    WHERE e.id = evt
+      AND (e.user_id = auth.uid() OR (e.org_id IS NOT NULL AND is_org_member(e.org_id)))
+  );
+$$;
+
+-- =============================================================================
+-- ORGANIZATION RPCs
+-- =============================================================================
+CREATE OR REPLACE FUNCTION create_organization(org_name TEXT, org_email TEXT)
+RETURNS organizations
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public AS $$
+DECLARE
+  org organizations;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Sign in to create an organization';
+  END IF;
+  INSERT INTO organizations (name, email, created_by)
+  VALUES (COALESCE(org_name, ''), COALESCE(org_email, ''), auth.uid())
+  RETURNING * INTO org;
+  INSERT INTO organization_members (org_id, user_id, role) VALUES (org.id, auth.uid(), 'owner');
+  RETURN org;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION add_organization_member(org UUID, member_email TEXT, member_role TEXT DEFAULT 'member')
+RETURNS organization_members
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public AS $$
+DECLARE
+  member_id UUID;
+  membership organization_members;
+BEGIN
+  IF NOT is_org_owner(org) THEN
+    RAISE EXCEPTION 'Only organization owners can add members';
+  END IF;
+  IF member_role NOT IN ('owner', 'member') THEN
+    RAISE EXCEPTION 'Unknown organization role: %', member_role;
+  END IF;
+  SELECT id INTO member_id FROM profiles WHERE LOWER(email) = LOWER(TRIM(member_email));
+  IF member_id IS NULL THEN
+    RAISE EXCEPTION 'No Eventropy account uses %. Ask them to sign up first.', member_email;
+  END IF;
+  INSERT INTO organization_members (org_id, user_id, role)
+  VALUES (org, member_id, member_role)
+  ON CONFLICT (org_id, user_id) DO UPDATE SET role = EXCLUDED.role
+  RETURNING * INTO membership;
+  RETURN membership;
+END;
+$$;
+
+-- =============================================================================
+-- ROW-LEVEL SECURITY
+-- =============================================================================
+ALTER TABLE profiles ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS profiles_select ON profiles;
+CREATE POLICY profiles_select ON profiles FOR SELECT TO authenticated
+  USING (id = auth.uid() OR shares_org_with(id));
+DROP POLICY IF EXISTS profiles_update ON profiles;
+CREATE POLICY profiles_update ON profiles FOR UPDATE TO authenticated
+  USING (id = auth.uid()) WITH CHECK (id = auth.uid());
+
+ALTER TABLE organizations ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS organizations_select ON organizations;
+CREATE POLICY organizations_select ON organizations FOR SELECT TO authenticated
+  USING (is_org_member(id));
+DROP POLICY IF EXISTS organizations_update ON organizations;
+CREATE POLICY organizations_update ON organizations FOR UPDATE TO authenticated
+  USING (is_org_owner(id)) WITH CHECK (is_org_owner(id));
+DROP POLICY IF EXISTS organizations_delete ON organizations;
+CREATE POLICY organizations_delete ON organizations FOR DELETE TO authenticated
+  USING (is_org_owner(id));
+
+ALTER TABLE organization_members ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS organization_members_select ON organization_members;
+CREATE POLICY organization_members_select ON organization_members FOR SELECT TO authenticated
+  USING (is_org_member(org_id));
+-- Owners remove members; anyone can leave
+DROP POLICY IF EXISTS organization_members_delete ON organization_members;
+CREATE POLICY organization_members_delete ON organization_members FOR DELETE TO authenticated
+  USING (user_id = auth.uid() OR is_org_owner(org_id));
+
+ALTER TABLE events ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS events_access ON events;
+CREATE POLICY events_access ON events FOR ALL TO authenticated
+  USING (user_id = auth.uid() OR (org_id IS NOT NULL AND is_org_member(org_id)))
+  WITH CHECK (
+    (user_id = auth.uid() OR (org_id IS NOT NULL AND is_org_member(org_id)))
+    AND (org_id IS NULL OR is_org_member(org_id))
+  );
+
+-- Tables keyed by event_id
+DO $$
+DECLARE
+  t TEXT;
+BEGIN
+  FOREACH t IN ARRAY ARRAY[
+    'chat_messages', 'tasks', 'documents', 'collaborators', 'orchestrator_runs',
+    'orchestrator_notifications', 'tool_approvals', 'event_retros'
+  ]
+  LOOP
+    EXECUTE format('ALTER TABLE %I ENABLE ROW LEVEL SECURITY', t);
+    EXECUTE format('DROP POLICY IF EXISTS %I ON %I', t || '_access', t);
+    EXECUTE format(
+      'CREATE POLICY %I ON %I FOR ALL TO authenticated USING (can_access_event(event_id)) WITH CHECK (can_access_event(event_id))',
+      t || '_access', t
+    );
+  END LOOP;
+END $$;
+
+ALTER TABLE subtasks ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS subtasks_access ON subtasks;
+CREATE POLICY subtasks_access ON subtasks FOR ALL TO authenticated
+  USING (can_access_event((SELECT event_id FROM tasks WHERE tasks.id = subtasks.task_id)))
+  WITH CHECK (can_access_event((SELECT event_id FROM tasks WHERE tasks.id = subtasks.task_id)));
+
+ALTER TABLE orchestrator_messages ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS orchestrator_messages_access ON orchestrator_messages;
+CREATE POLICY orchestrator_messages_access ON orchestrator_messages FOR ALL TO authenticated
+  USING (can_access_event((SELECT event_id FROM orchestrator_runs r WHERE r.id = orchestrator_messages.run_id)))
+  WITH CHECK (can_access_event((SELECT event_id FROM orchestrator_runs r WHERE r.id = orchestrator_messages.run_id)));
+
+ALTER TABLE ai_usage ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS ai_usage_access ON ai_usage;
+CREATE POLICY ai_usage_access ON ai_usage FOR ALL TO authenticated
+  USING (user_id = auth.uid() OR (event_id IS NOT NULL AND can_access_event(event_id)))
+  WITH CHECK (user_id = auth.uid() OR (event_id IS NOT NULL AND can_access_event(event_id)));
+
+-- The usage roll-ups read ai_usage with the caller's rights, not the view owner's
+ALTER VIEW ai_usage_by_task SET (security_invoker = true);
+ALTER VIEW ai_usage_by_run SET (security_invoker = true);
+ALTER VIEW ai_usage_by_event SET (security_invoker = true);
+ALTER VIEW ai_usage_by_month SET (security_invoker = true);
+
+-- Monthly spend per user, for the monthly AI budget: a user's own calls, whichever events
+-- they were made on (ai_usage_by_month also counts collaborators' calls on shared events)
+CREATE OR REPLACE VIEW ai_usage_by_user_month AS
+SELECT
+  u.user_id,
+  DATE_TRUNC('month', u.created_at AT TIME ZONE 'UTC')::DATE AS month,
+  COUNT(*) AS call_count,
+  SUM(u.input_tokens) AS input_tokens,
+  SUM(u.output_tokens) AS output_tokens,
+  SUM(u.cost_usd) AS cost_usd
+FROM ai_usage u
+WHERE u.user_id IS NOT NULL
+GROUP BY 1, 2;
+ALTER VIEW ai_usage_by_user_month SET (security_invoker = true);
+
+-- Connector metadata: the owner's rows only (secrets never leave the device)
+ALTER TABLE connector_configs ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS connector_configs_access ON connector_configs;
+CREATE POLICY connector_configs_access ON connector_configs FOR ALL TO authenticated
+  USING (user_id = auth.uid()) WITH CHECK (user_id = auth.uid());
+
+-- The app reads the schema version before anyone signs in
+ALTER TABLE schema_migrations ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS schema_migrations_read ON schema_migrations;
+CREATE POLICY schema_migrations_read ON schema_migrations FOR SELECT TO anon, authenticated
+  USING (TRUE);
+
+-- Also recorded when the file is applied by hand rather than by the app's migration runner
+INSERT INTO schema_migrations (version, name) VALUES (13, '013_auth_orgs_rls')
+ON CONFLICT (version) DO NOTHING;
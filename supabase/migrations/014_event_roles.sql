@@ -0,0 +1,180 @@
+-- 014_event_roles.sql
+-- Per-event roles for collaborators (collaborators.role):
+--   owner        -> everything, including deleting the event and managing collaborators
+--   editor       -> edit details and tasks, run agents, approve tool calls
+--   viewer       -> read everything, change nothing
+--   vendor-guest -> read the event, its tasks, documents and collaborators only
+-- A collaborator is matched to a signed-in user by email, so people can be added before
+-- they have an account. The user's role on an event (event_role) is, in order: owner if
+-- they created it; their collaborators row; owner / editor for organization owners /
+-- members on organization events. The policies from 013 are replaced by read policies
+-- (any role, or non-guests for agent activity) and write policies (owner or editor).
+
+-- =============================================================================
+-- COLLABORATOR ROLES
+-- =============================================================================
+UPDATE collaborators SET role = 'editor'
+WHERE role IS NULL OR role NOT IN ('owner', 'editor', 'viewer', 'vendor-guest');
+
+ALTER TABLE collaborators ALTER COLUMN role SET DEFAULT 'editor';
+ALTER TABLE collaborators ALTER COLUMN role SET NOT NULL;
+ALTER TABLE collaborators DROP CONSTRAINT IF EXISTS collaborators_role_check;
+ALTER TABLE collaborators ADD CONSTRAINT collaborators_role_check
+  CHECK (role IN ('owner', 'editor', 'viewer', 'vendor-guest'));
+
+CREATE INDEX IF NOT EXISTS idx_collaborators_email ON collaborators(LOWER(email));
+
+-- =============================================================================
+-- ROLE HELPERS
+-- =============================================================================
+CREATE OR REPLACE FUNCTION event_role(evt UUID)
+RETURNS TEXT
+LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public AS $$
+  SELECT CASE
+    WHEN e.user_id = auth.uid() THEN 'owner'
+    ELSE COALESCE(
+      (
+        SELECT c.role FROM collaborators c
+        WHERE c.event_id = e.id AND LOWER(c.email) = LOWER(auth.jwt() ->> 'email')
+        ORDER BY c.created_at
+        LIMIT 1
+      ),
+      CASE
+        WHEN e.org_id IS NOT NULL AND is_org_owner(e.org_id) THEN 'owner'
+        WHEN e.org_id IS NOT NULL AND is_org_member(e.org_id) THEN 'editor'
+      END
+    )
+  END
+  FROM events e
+  WHERE e.id = evt;
+$$;
+
+-- Any role (013's helper, now including collaborators)
+CREATE OR REPLACE FUNCTION can_access_event(evt UUID)
+RETURNS BOOLEAN
+LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public AS $$
+  SELECT event_role(evt) IS NOT NULL;
+$$;
+
+-- Chat, agent runs, approvals, retros and AI usage: not for vendor guests
+CREATE OR REPLACE FUNCTION can_view_event_activity(evt UUID)
+RETURNS BOOLEAN
+LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public AS $$
+  SELECT event_role(evt) IN ('owner', 'editor', 'viewer');
+$$;
+
+CREATE OR REPLACE FUNCTION can_edit_event(evt UUID)
+RETURNS BOOLEAN
+LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public AS $$
+  SELECT event_role(evt) IN ('owner', 'editor');
+$$;
+
+-- =============================================================================
+-- EVENTS
+-- =============================================================================
+DROP POLICY IF EXISTS events_access ON events;
+DROP POLICY IF EXISTS events_select ON events;
+-- user_id is checked directly so an insert can return the new row (event_role reads the
+-- table as it was before the statement)
+CREATE POLICY events_select ON events FOR SELECT TO authenticated
+  USING (user_id = auth.uid() OR can_access_event(id));
+DROP POLICY IF EXISTS events_insert ON events;
+CREATE POLICY events_insert ON events FOR INSERT TO authenticated
+  WITH CHECK (user_id = auth.uid() AND (org_id IS NULL OR is_org_member(org_id)));
+DROP POLICY IF EXISTS events_update ON events;
+CREATE POLICY events_update ON events FOR UPDATE TO authenticated
+  USING (can_edit_event(id)) WITH CHECK (can_edit_event(id));
+
+-- Editors may change the event's details, not who owns it: only an owner can move user_id
+-- or org_id (a policy cannot compare the old row with the new one). Without a signed-in user
+-- (the SQL Editor, e.g. claiming events from before 013) the change is allowed.
+CREATE OR REPLACE FUNCTION events_guard_ownership()
+RETURNS TRIGGER
+LANGUAGE plpgsql SET search_path = public AS $$
+BEGIN
+  IF (NEW.user_id IS DISTINCT FROM OLD.user_id OR NEW.org_id IS DISTINCT FROM OLD.org_id)
+     AND auth.uid() IS NOT NULL
+     AND event_role(OLD.id) IS DISTINCT FROM 'owner' THEN
+    RAISE EXCEPTION 'Only an owner of the event can change its owner or organization'
+      USING ERRCODE = '42501';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS events_guard_ownership ON events;
+CREATE TRIGGER events_guard_ownership
+  BEFORE UPDATE ON events
+  FOR EACH ROW EXECUTE PROCEDURE events_guard_ownership();
+
+DROP POLICY IF EXISTS events_delete ON events;
+CREATE POLICY events_delete ON events FOR DELETE TO authenticated
+  USING (event_role(id) = 'owner');
+
+-- =============================================================================
+-- TABLES KEYED BY event_id
+-- =============================================================================
+DO $$
+DECLARE
+  t TEXT;
+  read_check TEXT;
+  write_check TEXT;
+BEGIN
+  FOREACH t IN ARRAY ARRAY[
+    'tasks', 'documents', 'collaborators', 'chat_messages', 'orchestrator_runs',
+    'orchestrator_notifications', 'tool_approvals', 'event_retros'
+  ]
+  LOOP
+    read_check := CASE
+      WHEN t IN ('tasks', 'documents', 'collaborators') THEN 'can_access_event(event_id)'
+      ELSE 'can_view_event_activity(event_id)'
+    END;
+    write_check := CASE
+      WHEN t = 'collaborators' THEN 'event_role(event_id) = ''owner'''
+      ELSE 'can_edit_event(event_id)'
+    END;
+
+    EXECUTE format('DROP POLICY IF EXISTS %I ON %I', t || '_access', t);
+    EXECUTE format('DROP POLICY IF EXISTS %I ON %I', t || '_select', t);
+    EXECUTE format('CREATE POLICY %I ON %I FOR SELECT TO authenticated USING (%s)', t || '_select', t, read_check);
+    EXECUTE format('DROP POLICY IF EXISTS %I ON %I', t || '_insert', t);
+    EXECUTE format('CREATE POLICY %I ON %I FOR INSERT TO authenticated WITH CHECK (%s)', t || '_insert', t, write_check);
+    EXECUTE format('DROP POLICY IF EXISTS %I ON %I', t || '_update', t);
+    EXECUTE format(
+      'CREATE POLICY %I ON %I FOR UPDATE TO authenticated USING (%s) WITH CHECK (%s)',
+      t || '_update', t, write_check, write_check
+    );
+    EXECUTE format('DROP POLICY IF EXISTS %I ON %I', t || '_delete', t);
+    EXECUTE format('CREATE POLICY %I ON %I FOR DELETE TO authenticated USING (%s)', t || '_delete', t, write_check);
+  END LOOP;
+END $$;
+
+-- =============================================================================
+-- TABLES KEYED THROUGH A PARENT
+-- =============================================================================
+DROP POLICY IF EXISTS subtasks_access ON subtasks;
+DROP POLICY IF EXISTS subtasks_select ON subtasks;
+CREATE POLICY subtasks_select ON subtasks FOR SELECT TO authenticated
+  USING (can_access_event((SELECT event_id FROM tasks WHERE tasks.id = subtasks.task_id)));
+DROP POLICY IF EXISTS subtasks_write ON subtasks;
+CREATE POLICY subtasks_write ON subtasks FOR ALL TO authenticated
+  USING (can_edit_event((SELECT event_id FROM tasks WHERE tasks.id = subtasks.task_id)))
+  WITH CHECK (can_edit_event((SELECT event_id FROM tasks WHERE tasks.id = subtasks.task_id)));
+
+DROP POLICY IF EXISTS orchestrator_messages_access ON orchestrator_messages;
+DROP POLICY IF EXISTS orchestrator_messages_select ON orchestrator_messages;
+CREATE POLICY orchestrator_messages_select ON orchestrator_messages FOR SELECT TO authenticated
+  USING (can_view_event_activity((SELECT event_id FROM orchestrator_runs r WHERE r.id = orchestrator_messages.run_id)));
+DROP POLICY IF EXISTS orchestrator_messages_write ON orchestrator_messages;
+CREATE POLICY orchestrator_messages_write ON orchestrator_messages FOR ALL TO authenticated
+  USING (can_edit_event((SELECT event_id FROM orchestrator_runs r WHERE r.id = orchestrator_messages.run_id)))
+  WITH CHECK (can_edit_event((SELECT event_id FROM orchestrator_runs r WHERE r.id = orchestrator_messages.run_id)));
+
+DROP POLICY IF EXISTS ai_usage_access ON ai_usage;
+CREATE POLICY ai_usage_access ON ai_usage FOR ALL TO authenticated
+  USING (user_id = auth.uid() OR (event_id IS NOT NULL AND can_view_event_activity(event_id)))
+  WITH CHECK (user_id = auth.uid() OR (event_id IS NOT NULL AND can_edit_event(event_id)));
+
+-- Also recorded when the file is applied by hand rather than by the app's migration runner
+INSERT INTO schema_migrations (version, name) VALUES (14, '014_event_roles')
+ON CONFLICT (version) DO NOTHING;
@@ -0,0 +1,49 @@
+-- 015_event_templates.sql
+-- Reusable event templates, saved from an existing event.
+--   form_data -> Event details to pre-fill (venue, guests, food, budget, goals, notes, times);
+--                never the date
+--   tasks     -> JSON array of template tasks: { key, title, description, priority, agentId,
+--                assignedTo, body, subtasks: [title], dependencies: [key], dueOffsetDays }
+--                dueOffsetDays is relative to the event date (-14 = two weeks before)
+-- Personal templates belong to their creator; templates with org_id are shared with the
+-- organization, and its owners can edit or delete them.
+
+CREATE TABLE IF NOT EXISTS event_templates (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL,
+  description TEXT,
+  source_event_id UUID REFERENCES events(id) ON DELETE SET NULL,
+  form_data JSONB NOT NULL DEFAULT '{}',
+  tasks JSONB NOT NULL DEFAULT '[]',
+  user_id UUID DEFAULT auth.uid() REFERENCES profiles(id) ON DELETE CASCADE,
+  org_id UUID REFERENCES organizations(id) ON DELETE CASCADE,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_event_templates_user_id ON event_templates(user_id);
+CREATE INDEX IF NOT EXISTS idx_event_templates_org_id ON event_templates(org_id);
+
+DROP TRIGGER IF EXISTS event_templates_updated_at ON event_templates;
+CREATE TRIGGER event_templates_updated_at
+  BEFORE UPDATE ON event_templates
+  FOR EACH ROW EXECUTE PROCEDURE set_updated_at();
+
+ALTER TABLE event_templates ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS event_templates_select ON event_templates;
+CREATE POLICY event_templates_select ON event_templates FOR SELECT TO authenticated
+  USING (user_id = auth.uid() OR (org_id IS NOT NULL AND is_org_member(org_id)));
+DROP POLICY IF EXISTS event_templates_insert ON event_templates;
+CREATE POLICY event_templates_insert ON event_templates FOR INSERT TO authenticated
+  WITH CHECK (user_id = auth.uid() AND (org_id IS NULL OR is_org_member(org_id)));
+DROP POLICY IF EXISTS event_templates_update ON event_templates;
+CREATE POLICY event_templates_update ON event_templates FOR UPDATE TO authenticated
+  USING (user_id = auth.uid() OR (org_id IS NOT NULL AND is_org_owner(org_id)))
+  WITH CHECK (org_id IS NULL OR is_org_member(org_id));
+DROP POLICY IF EXISTS event_templates_delete ON event_templates;
+CREATE POLICY event_templates_delete ON event_templates FOR DELETE TO authenticated
+  USING (user_id = auth.uid() OR (org_id IS NOT NULL AND is_org_owner(org_id)));
+
+-- Also recorded when the file is applied by hand rather than by the app's migration runner
+INSERT INTO schema_migrations (version, name) VALUES (15, '015_event_templates')
+ON CONFLICT (version) DO NOTHING;
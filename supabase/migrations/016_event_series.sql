@@ -0,0 +1,60 @@
+-- 016_event_series.sql
+-- Recurring events. A series holds the recurrence rule and the plan every occurrence starts
+-- from; each occurrence is an ordinary event linked back to it.
+--   rrule        -> RFC 5545 recurrence rule without DTSTART, e.g. FREQ=WEEKLY;BYDAY=TU or
+--                   FREQ=MONTHLY;BYDAY=1TH;UNTIL=20271231
+--   starts_on    -> Date of the first occurrence (DTSTART)
+--   horizon_days -> Occurrences up to this many days ahead are created automatically
+--   exdates      -> Skipped occurrences (deleting an occurrence adds its date here)
+--   form_data / tasks -> Plan for new occurrences, same shapes as event_templates (015)
+-- events.occurrence_date is the date the rule produced; the event's own date and every other
+-- field can be changed per occurrence without affecting the series.
+
+CREATE TABLE IF NOT EXISTS event_series (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL,
+  rrule TEXT NOT NULL,
+  starts_on DATE NOT NULL,
+  horizon_days INTEGER NOT NULL DEFAULT 60 CHECK (horizon_days > 0),
+  exdates DATE[] NOT NULL DEFAULT '{}',
+  form_data JSONB NOT NULL DEFAULT '{}',
+  tasks JSONB NOT NULL DEFAULT '[]',
+  active BOOLEAN NOT NULL DEFAULT true,
+  user_id UUID DEFAULT auth.uid() REFERENCES profiles(id) ON DELETE CASCADE,
+  org_id UUID REFERENCES organizations(id) ON DELETE CASCADE,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_event_series_user_id ON event_series(user_id);
+CREATE INDEX IF NOT EXISTS idx_event_series_org_id ON event_series(org_id);
+
+DROP TRIGGER IF EXISTS event_series_updated_at ON event_series;
+CREATE TRIGGER event_series_updated_at
+  BEFORE UPDATE ON event_series
+  FOR EACH ROW EXECUTE PROCEDURE set_updated_at();
+
+ALTER TABLE events ADD COLUMN IF NOT EXISTS series_id UUID REFERENCES event_series(id) ON DELETE SET NULL;
+ALTER TABLE events ADD COLUMN IF NOT EXISTS occurrence_date DATE;
+-- One event per occurrence, even when two devices create it
+CREATE UNIQUE INDEX IF NOT EXISTS idx_events_series_occurrence
+  ON events(series_id, occurrence_date) WHERE series_id IS NOT NULL;
+
+ALTER TABLE event_series ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS event_series_select ON event_series;
+CREATE POLICY event_series_select ON event_series FOR SELECT TO authenticated
+  USING (user_id = auth.uid() OR (org_id IS NOT NULL AND is_org_member(org_id)));
+DROP POLICY IF EXISTS event_series_insert ON event_series;
+CREATE POLICY event_series_insert ON event_series FOR INSERT TO authenticated
+  WITH CHECK (user_id = auth.uid() AND (org_id IS NULL OR is_org_member(org_id)));
+DROP POLICY IF EXISTS event_series_update ON event_series;
+CREATE POLICY event_series_update ON event_series FOR UPDATE TO authenticated
+  USING (user_id = auth.uid() OR (org_id IS NOT NULL AND is_org_owner(org_id)))
+  WITH CHECK (org_id IS NULL OR is_org_member(org_id));
+DROP POLICY IF EXISTS event_series_delete ON event_series;
+CREATE POLICY event_series_delete ON event_series FOR DELETE TO authenticated
+  USING (user_id = auth.uid() OR (org_id IS NOT NULL AND is_org_owner(org_id)));
+
+-- Also recorded when the file is applied by hand rather than by the app's migration runner
+INSERT INTO schema_migrations (version, name) VALUES (16, '016_event_series')
+ON CONFLICT (version) DO NOTHING;
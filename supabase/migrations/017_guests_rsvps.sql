@@ -0,0 +1,85 @@
+-- 017_guests_rsvps.sql
+-- Guest lists and RSVPs. A guest is one person invited to one event; their response lives
+-- in rsvps (at most one per guest) so it can be updated by the Guests agent, a Luma import
+-- or by hand without touching the guest's details.
+--   guests.source      -> Where the guest came from: manual, agent, luma, import
+--   guests.external_id -> The guest's id in the source system (Luma guest id)
+--   rsvps.status       -> invited, going, maybe, declined, waitlist
+--   rsvps.plus_ones    -> Extra people the guest brings; counted in the expected headcount
+-- Guest details are event activity: vendor guests cannot read them.
+
+CREATE TABLE IF NOT EXISTS guests (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  event_id UUID NOT NULL REFERENCES events(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  email TEXT,
+  phone TEXT,
+  dietary_needs TEXT,
+  notes TEXT,
+  source TEXT NOT NULL DEFAULT 'manual' CHECK (source IN ('manual', 'agent', 'luma', 'import')),
+  external_id TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_guests_event_id ON guests(event_id);
+-- One guest per email per event, so imports and the agent can match existing guests
+CREATE UNIQUE INDEX IF NOT EXISTS idx_guests_event_email ON guests(event_id, LOWER(email)) WHERE email IS NOT NULL;
+
+DROP TRIGGER IF EXISTS guests_updated_at ON guests;
+CREATE TRIGGER guests_updated_at
+  BEFORE UPDATE ON guests
+  FOR EACH ROW EXECUTE PROCEDURE set_updated_at();
+
+CREATE TABLE IF NOT EXISTS rsvps (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  guest_id UUID NOT NULL UNIQUE REFERENCES guests(id) ON DELETE CASCADE,
+  event_id UUID NOT NULL REFERENCES events(id) ON DELETE CASCADE,
+  status TEXT NOT NULL DEFAULT 'invited' CHECK (status IN ('invited', 'going', 'maybe', 'declined', 'waitlist')),
+  plus_ones INTEGER NOT NULL DEFAULT 0 CHECK (plus_ones >= 0),
+  responded_at TIMESTAMPTZ,
+  source TEXT NOT NULL DEFAULT 'manual' CHECK (source IN ('manual', 'agent', 'luma', 'import')),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_rsvps_event_id ON rsvps(event_id);
+
+DROP TRIGGER IF EXISTS rsvps_updated_at ON rsvps;
+CREATE TRIGGER rsvps_updated_at
+  BEFORE UPDATE ON rsvps
+  FOR EACH ROW EXECUTE PROCEDURE set_updated_at();
+
+DO $$
+DECLARE
+  t TEXT;
+BEGIN
+  FOREACH t IN ARRAY ARRAY['guests', 'rsvps']
+  LOOP
+    EXECUTE format('ALTER TABLE %I ENABLE ROW LEVEL SECURITY', t);
+    EXECUTE format('DROP POLICY IF EXISTS %I ON %I', t || '_select', t);
+    EXECUTE format(
+      'CREATE POLICY %I ON %I FOR SELECT TO authenticated USING (can_view_event_activity(event_id))',
+      t || '_select', t
+    );
+    EXECUTE format('DROP POLICY IF EXISTS %I ON %I', t || '_insert', t);
+    EXECUTE format(
+      'CREATE POLICY %I ON %I FOR INSERT TO authenticated WITH CHECK (can_edit_event(event_id))',
+      t || '_insert', t
+    );
+    EXECUTE format('DROP POLICY IF EXISTS %I ON %I', t || '_update', t);
+    EXECUTE format(
+      'CREATE POLICY %I ON %I FOR UPDATE TO authenticated USING (can_edit_event(event_id)) WITH CHECK (can_edit_event(event_id))',
+      t || '_update', t
+    );
+    EXECUTE format('DROP POLICY IF EXISTS %I ON %I', t || '_delete', t);
+    EXECUTE format(
+      'CREATE POLICY %I ON %I FOR DELETE TO authenticated USING (can_edit_event(event_id))',
+      t || '_delete', t
+    );
+  END LOOP;
+END $$;
+
+-- Also recorded when the file is applied by hand rather than by the app's migration runner
+INSERT INTO schema_migrations (version, name) VALUES (17, '017_guests_rsvps')
+ON CONFLICT (version) DO NOTHING;
@@ -0,0 +1,59 @@
+-- 018_budget_items.sql
+-- Budget ledger: an event's budget line items, grouped by agent category, each tracked from
+-- estimate to commitment to payment. events.budget stays the event's total budget; the
+-- ledger is checked against it (over budget puts the event at risk).
+--   budget_items.agent_id   -> Agent category the cost belongs to (guests, venue-catering, ...)
+--   budget_items.estimated  -> Quoted or expected cost
+--   budget_items.committed  -> Amount agreed with the vendor (contract, deposit invoice)
+--   budget_items.paid       -> Amount paid so far; paid_at is the date of the last payment
+--   budget_items.source     -> manual, or agent when the General agent recorded a quote
+-- Budget lines are event activity: vendor guests cannot read them.
+
+CREATE TABLE IF NOT EXISTS budget_items (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  event_id UUID NOT NULL REFERENCES events(id) ON DELETE CASCADE,
+  agent_id TEXT NOT NULL DEFAULT 'general'
+    CHECK (agent_id IN ('guests', 'venue-catering', 'entertainment-logistics', 'general')),
+  title TEXT NOT NULL,
+  vendor_name TEXT,
+  vendor_url TEXT,
+  estimated NUMERIC(12, 2) NOT NULL DEFAULT 0 CHECK (estimated >= 0),
+  committed NUMERIC(12, 2) NOT NULL DEFAULT 0 CHECK (committed >= 0),
+  paid NUMERIC(12, 2) NOT NULL DEFAULT 0 CHECK (paid >= 0),
+  paid_at DATE,
+  receipt_url TEXT,
+  notes TEXT,
+  task_id UUID REFERENCES tasks(id) ON DELETE SET NULL,
+  source TEXT NOT NULL DEFAULT 'manual' CHECK (source IN ('manual', 'agent')),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_budget_items_event_id ON budget_items(event_id);
+
+DROP TRIGGER IF EXISTS budget_items_updated_at ON budget_items;
+CREATE TRIGGER budget_items_updated_at
+  BEFORE UPDATE ON budget_items
+  FOR EACH ROW EXECUTE PROCEDURE set_updated_at();
+
+ALTER TABLE budget_items ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS budget_items_select ON budget_items;
+CREATE POLICY budget_items_select ON budget_items FOR SELECT TO authenticated
+  USING (can_view_event_activity(event_id));
+
+DROP POLICY IF EXISTS budget_items_insert ON budget_items;
+CREATE POLICY budget_items_insert ON budget_items FOR INSERT TO authenticated
+  WITH CHECK (can_edit_event(event_id));
+
+DROP POLICY IF EXISTS budget_items_update ON budget_items;
+CREATE POLICY budget_items_update ON budget_items FOR UPDATE TO authenticated
+  USING (can_edit_event(event_id)) WITH CHECK (can_edit_event(event_id));
+
+DROP POLICY IF EXISTS budget_items_delete ON budget_items;
+CREATE POLICY budget_items_delete ON budget_items FOR DELETE TO authenticated
+  USING (can_edit_event(event_id));
+
+-- Also recorded when the file is applied by hand rather than by the app's migration runner
+INSERT INTO schema_migrations (version, name) VALUES (18, '018_budget_items')
+ON CONFLICT (version) DO NOTHING;
@@ -0,0 +1,86 @@
+-- 019_vendors.sql
+-- Vendor directory shared across events: caterers, venues, DJs and the rest, with contact
+-- details, price range and rating, and links to the events and tasks each was used for.
+--   vendors.categories          -> venue, catering, entertainment, av, photography, decor,
+--                                  rentals, transport, staffing, other
+--   vendors.price_min/price_max -> Typical price range in dollars; price_notes says per what
+--                                  (per head, per hour, flat)
+--   vendors.rating              -> 1 to 5
+--   vendor_links                -> A vendor used (or shortlisted) for an event, and the task
+--                                  it was for when there is one
+-- Personal vendors belong to their creator; vendors with org_id are shared with the
+-- organization, and any member can edit them (owners and the creator can delete them).
+-- Links are event activity: vendor guests cannot read them.
+
+CREATE TABLE IF NOT EXISTS vendors (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL,
+  categories TEXT[] NOT NULL DEFAULT '{}'
+    CHECK (categories <@ ARRAY['venue', 'catering', 'entertainment', 'av', 'photography', 'decor',
+      'rentals', 'transport', 'staffing', 'other']::TEXT[]),
+  contact_name TEXT,
+  email TEXT,
+  phone TEXT,
+  website TEXT,
+  price_min NUMERIC(12, 2) CHECK (price_min >= 0),
+  price_max NUMERIC(12, 2) CHECK (price_max >= 0),
+  price_notes TEXT,
+  rating SMALLINT CHECK (rating BETWEEN 1 AND 5),
+  notes TEXT,
+  user_id UUID DEFAULT auth.uid() REFERENCES profiles(id) ON DELETE CASCADE,
+  org_id UUID REFERENCES organizations(id) ON DELETE CASCADE,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_vendors_user_id ON vendors(user_id);
+CREATE INDEX IF NOT EXISTS idx_vendors_org_id ON vendors(org_id);
+
+DROP TRIGGER IF EXISTS vendors_updated_at ON vendors;
+CREATE TRIGGER vendors_updated_at
+  BEFORE UPDATE ON vendors
+  FOR EACH ROW EXECUTE PROCEDURE set_updated_at();
+
+CREATE TABLE IF NOT EXISTS vendor_links (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  vendor_id UUID NOT NULL REFERENCES vendors(id) ON DELETE CASCADE,
+  event_id UUID NOT NULL REFERENCES events(id) ON DELETE CASCADE,
+  task_id UUID REFERENCES tasks(id) ON DELETE SET NULL,
+  notes TEXT,
+  source TEXT NOT NULL DEFAULT 'manual' CHECK (source IN ('manual', 'agent')),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_vendor_links_vendor_id ON vendor_links(vendor_id);
+CREATE INDEX IF NOT EXISTS idx_vendor_links_event_id ON vendor_links(event_id);
+
+ALTER TABLE vendors ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS vendors_select ON vendors;
+CREATE POLICY vendors_select ON vendors FOR SELECT TO authenticated
+  USING (user_id = auth.uid() OR (org_id IS NOT NULL AND is_org_member(org_id)));
+DROP POLICY IF EXISTS vendors_insert ON vendors;
+CREATE POLICY vendors_insert ON vendors FOR INSERT TO authenticated
+  WITH CHECK (user_id = auth.uid() AND (org_id IS NULL OR is_org_member(org_id)));
+DROP POLICY IF EXISTS vendors_update ON vendors;
+CREATE POLICY vendors_update ON vendors FOR UPDATE TO authenticated
+  USING (user_id = auth.uid() OR (org_id IS NOT NULL AND is_org_member(org_id)))
+  WITH CHECK (org_id IS NULL OR is_org_member(org_id));
+DROP POLICY IF EXISTS vendors_delete ON vendors;
+CREATE POLICY vendors_delete ON vendors FOR DELETE TO authenticated
+  USING (user_id = auth.uid() OR (org_id IS NOT NULL AND is_org_owner(org_id)));
+
+-- The vendor must be visible to the user as well (vendors RLS applies inside EXISTS)
+ALTER TABLE vendor_links ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS vendor_links_select ON vendor_links;
+CREATE POLICY vendor_links_select ON vendor_links FOR SELECT TO authenticated
+  USING (can_view_event_activity(event_id) AND EXISTS (SELECT 1 FROM vendors v WHERE v.id = vendor_id));
+DROP POLICY IF EXISTS vendor_links_insert ON vendor_links;
+CREATE POLICY vendor_links_insert ON vendor_links FOR INSERT TO authenticated
+  WITH CHECK (can_edit_event(event_id) AND EXISTS (SELECT 1 FROM vendors v WHERE v.id = vendor_id));
+DROP POLICY IF EXISTS vendor_links_delete ON vendor_links;
+CREATE POLICY vendor_links_delete ON vendor_links FOR DELETE TO authenticated
+  USING (can_edit_event(event_id));
+
+-- Also recorded when the file is applied by hand rather than by the app's migration runner
+INSERT INTO schema_migrations (version, name) VALUES (19, '019_vendors')
+ON CONFLICT (version) DO NOTHING;
@@ -0,0 +1,56 @@
+-- 020_run_of_show.sql
+-- Run of show: the event day's schedule as ordered, timed segments (doors, welcome, dinner,
+-- first dance, ...), each with who runs it, where, and the AV cues the crew needs.
+--   run_of_show_segments.position         -> Order in the run sheet, from 0
+--   run_of_show_segments.start_time       -> "HH:MM" on the event day, like events.start_time
+--   run_of_show_segments.duration_minutes -> Length of the segment; the end time is derived
+--   run_of_show_segments.av_cues          -> Music, mics, lights and slides for the segment
+--   run_of_show_segments.source           -> manual, or agent when drafted by the
+--                                            Entertainment & Logistics agent
+-- Overlaps and gaps are not enforced here; the editor and the agent tools report them.
+-- Segments are event activity: vendor guests cannot read them.
+
+CREATE TABLE IF NOT EXISTS run_of_show_segments (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  event_id UUID NOT NULL REFERENCES events(id) ON DELETE CASCADE,
+  position INTEGER NOT NULL DEFAULT 0,
+  title TEXT NOT NULL,
+  start_time TEXT CHECK (start_time ~ '^([01][0-9]|2[0-3]):[0-5][0-9]$'),
+  duration_minutes INTEGER NOT NULL DEFAULT 15 CHECK (duration_minutes > 0),
+  owner TEXT,
+  location TEXT,
+  av_cues TEXT,
+  notes TEXT,
+  source TEXT NOT NULL DEFAULT 'manual' CHECK (source IN ('manual', 'agent')),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_run_of_show_segments_event_id ON run_of_show_segments(event_id, position);
+
+DROP TRIGGER IF EXISTS run_of_show_segments_updated_at ON run_of_show_segments;
+CREATE TRIGGER run_of_show_segments_updated_at
+  BEFORE UPDATE ON run_of_show_segments
+  FOR EACH ROW EXECUTE PROCEDURE set_updated_at();
+
+ALTER TABLE run_of_show_segments ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS run_of_show_segments_select ON run_of_show_segments;
+CREATE POLICY run_of_show_segments_select ON run_of_show_segments FOR SELECT TO authenticated
+  USING (can_view_event_activity(event_id));
+
+DROP POLICY IF EXISTS run_of_show_segments_insert ON run_of_show_segments;
+CREATE POLICY run_of_show_segments_insert ON run_of_show_segments FOR INSERT TO authenticated
+  WITH CHECK (can_edit_event(event_id));
+
+DROP POLICY IF EXISTS run_of_show_segments_update ON run_of_show_segments;
+CREATE POLICY run_of_show_segments_update ON run_of_show_segments FOR UPDATE TO authenticated
+  USING (can_edit_event(event_id)) WITH CHECK (can_edit_event(event_id));
+
+DROP POLICY IF EXISTS run_of_show_segments_delete ON run_of_show_segments;
+CREATE POLICY run_of_show_segments_delete ON run_of_show_segments FOR DELETE TO authenticated
+  USING (can_edit_event(event_id));
+
+-- Also recorded when the file is applied by hand rather than by the app's migration runner
+INSERT INTO schema_migrations (version, name) VALUES (20, '020_run_of_show')
+ON CONFLICT (version) DO NOTHING;